@@ -6,6 +6,7 @@ import { dumpCommand } from './dump.js'
 import { restoreCommand } from './restore.js'
 import { introspectCommand } from './introspect.js'
 import { consoleCommand } from './console.js'
+import { reencryptCommand } from './reencrypt.js'
 
 export function dbCommand(): Command {
   const cmd = new Command('db').description('Database utilities and operations')
@@ -18,6 +19,7 @@ export function dbCommand(): Command {
   cmd.addCommand(restoreCommand())
   cmd.addCommand(introspectCommand())
   cmd.addCommand(consoleCommand())
+  cmd.addCommand(reencryptCommand())
 
   return cmd
 }
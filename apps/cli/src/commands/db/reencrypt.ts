@@ -0,0 +1,131 @@
+import { Command } from 'commander'
+import { prism } from '@xec-sh/kit'
+import { reencrypt, type ReencryptResult } from '@kysera/encryption'
+import { spinner } from '../../utils/spinner.js'
+import { CLIError } from '../../utils/errors.js'
+import { withDatabase } from '../../utils/with-database.js'
+import { displayTable } from '../../utils/table-helper.js'
+
+export interface ReencryptCommandOptions {
+  tables?: string[]
+  batchSize?: string
+  primaryKey?: string
+  dryRun?: boolean
+  json?: boolean
+  verbose?: boolean
+  config?: string
+}
+
+export function reencryptCommand(): Command {
+  const cmd = new Command('reencrypt')
+    .description('Re-encrypt encrypted columns with the active key, in batches')
+    .option('-t, --tables <names...>', 'Only process these tables')
+    .option('--batch-size <number>', 'Rows read per batch', '500')
+    .option('--primary-key <column>', 'Primary key column used to page through rows', 'id')
+    .option('--dry-run', 'Count the rows that need re-encryption without writing them')
+    .option('--json', 'Output as JSON')
+    .option('-v, --verbose', 'Show detailed output')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .action(async (options: ReencryptCommandOptions) => {
+      try {
+        await reencryptColumns(options)
+      } catch (error) {
+        if (error instanceof CLIError) {
+          throw error
+        }
+        throw new CLIError(
+          `Failed to re-encrypt columns: ${error instanceof Error ? error.message : String(error)}`,
+          'REENCRYPT_ERROR'
+        )
+      }
+    })
+
+  return cmd
+}
+
+async function reencryptColumns(options: ReencryptCommandOptions): Promise<void> {
+  await withDatabase({ config: options.config, verbose: options.verbose }, async (db, config) => {
+    const encryption = config.plugins?.encryption
+    if (!encryption) {
+      throw new CLIError(
+        'No encrypted columns configured',
+        'ENCRYPTION_NOT_CONFIGURED',
+        undefined,
+        ['Add plugins.encryption with keys, activeKeyId and tables to kysera.config.ts']
+      )
+    }
+
+    const reencryptSpinner = spinner()
+    if (!options.json) {
+      reencryptSpinner.start(
+        `${options.dryRun ? 'Checking' : 'Re-encrypting'} columns with key '${encryption.activeKeyId}'...`
+      )
+    }
+
+    let results: ReencryptResult[]
+    try {
+      results = await reencrypt(db, encryption, {
+        ...(options.tables && { tables: options.tables }),
+        batchSize: parseInt(options.batchSize || '500', 10),
+        ...(options.primaryKey && { primaryKey: options.primaryKey }),
+        dryRun: options.dryRun ?? false,
+        onBatch: progress => {
+          if (!options.json) {
+            reencryptSpinner.message(
+              `${progress.table}: batch ${progress.batch}, ${progress.scanned} rows scanned, ${progress.updated} ${options.dryRun ? 'to re-encrypt' : 're-encrypted'}`
+            )
+          }
+        }
+      })
+    } catch (error) {
+      if (!options.json) {
+        reencryptSpinner.fail('Re-encryption failed')
+      }
+      throw error
+    }
+
+    const updated = results.reduce((sum, result) => sum + result.updated, 0)
+
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          { activeKeyId: encryption.activeKeyId, dryRun: options.dryRun ?? false, tables: results },
+          null,
+          2
+        )
+      )
+      return
+    }
+
+    reencryptSpinner.succeed(
+      options.dryRun
+        ? `${updated} row${updated !== 1 ? 's' : ''} need re-encryption`
+        : `${updated} row${updated !== 1 ? 's' : ''} re-encrypted with key '${encryption.activeKeyId}'`
+    )
+
+    console.log('')
+    displayTable(
+      results.map(result => ({
+        table: result.table,
+        scanned: result.scanned,
+        updated: result.updated,
+        batches: result.batches,
+        duration: `${result.duration}ms`
+      })),
+      {
+        columns: [
+          { key: 'table', header: 'Table' },
+          { key: 'scanned', header: 'Scanned' },
+          { key: 'updated', header: options.dryRun ? 'To re-encrypt' : 'Re-encrypted' },
+          { key: 'batches', header: 'Batches' },
+          { key: 'duration', header: 'Duration' }
+        ]
+      }
+    )
+
+    if (options.dryRun && updated > 0) {
+      console.log('')
+      console.log(prism.gray('Run without --dry-run to re-encrypt these rows'))
+    }
+  })
+}
@@ -15,6 +15,7 @@ export interface TableColumn {
   numericScale?: number
   referencedTable?: string
   referencedColumn?: string
+  isAutoIncrement?: boolean
 }
 
 export interface TableIndex {
@@ -24,16 +25,20 @@ export interface TableIndex {
   isPrimary: boolean
 }
 
+export interface TableForeignKey {
+  /** Constraint name (not reported by SQLite) */
+  name?: string
+  column: string
+  referencedTable: string
+  referencedColumn: string
+}
+
 export interface TableInfo {
   name: string
   columns: TableColumn[]
   indexes: TableIndex[]
   primaryKey?: string[]
-  foreignKeys?: Array<{
-    column: string
-    referencedTable: string
-    referencedColumn: string
-  }>
+  foreignKeys?: TableForeignKey[]
 }
 
 export class DatabaseIntrospector {
@@ -135,6 +140,7 @@ export class DatabaseIntrospector {
         'c.numeric_precision',
         'c.numeric_scale',
         'tc.constraint_type',
+        'tc.constraint_name',
         'ccu.table_name as referenced_table',
         'ccu.column_name as referenced_column'
       ])
@@ -143,19 +149,43 @@ export class DatabaseIntrospector {
       .orderBy('c.ordinal_position')
       .execute()) as any[]
 
-    const tableColumns: TableColumn[] = columns.map(col => ({
-      name: col.column_name,
-      dataType: col.data_type,
-      isNullable: col.is_nullable === 'YES',
-      isPrimaryKey: col.constraint_type === 'PRIMARY KEY',
-      isForeignKey: col.constraint_type === 'FOREIGN KEY',
-      defaultValue: col.column_default,
-      maxLength: col.character_maximum_length,
-      numericPrecision: col.numeric_precision,
-      numericScale: col.numeric_scale,
-      referencedTable: col.referenced_table,
-      referencedColumn: col.referenced_column
-    }))
+    // A column gets one row per constraint it takes part in (e.g. primary and foreign key)
+    const tableColumns: TableColumn[] = []
+    const foreignKeys: TableForeignKey[] = []
+    for (const col of columns) {
+      let column = tableColumns.find(c => c.name === col.column_name)
+      if (!column) {
+        column = {
+          name: col.column_name,
+          dataType: col.data_type,
+          isNullable: col.is_nullable === 'YES',
+          isPrimaryKey: false,
+          isForeignKey: false,
+          defaultValue: col.column_default,
+          maxLength: col.character_maximum_length,
+          numericPrecision: col.numeric_precision,
+          numericScale: col.numeric_scale,
+          isAutoIncrement:
+            typeof col.column_default === 'string' && col.column_default.startsWith('nextval(')
+        }
+        tableColumns.push(column)
+      }
+
+      if (col.constraint_type === 'PRIMARY KEY') {
+        column.isPrimaryKey = true
+      }
+      if (col.constraint_type === 'FOREIGN KEY') {
+        column.isForeignKey = true
+        column.referencedTable = col.referenced_table
+        column.referencedColumn = col.referenced_column
+        foreignKeys.push({
+          name: col.constraint_name,
+          column: col.column_name,
+          referencedTable: col.referenced_table,
+          referencedColumn: col.referenced_column
+        })
+      }
+    }
 
     // Get indexes
     const indexes = (await this.db
@@ -176,19 +206,19 @@ export class DatabaseIntrospector {
         name: idx.indexname,
         columns,
         isUnique: idx.indexdef.includes('UNIQUE'),
-        isPrimary: idx.indexdef.includes('PRIMARY KEY')
+        isPrimary: false
       }
     })
 
     const primaryKey = tableColumns.filter(col => col.isPrimaryKey).map(col => col.name)
 
-    const foreignKeys = tableColumns
-      .filter(col => col.isForeignKey)
-      .map(col => ({
-        column: col.name,
-        referencedTable: col.referencedTable!,
-        referencedColumn: col.referencedColumn!
-      }))
+    // indexdef has no PRIMARY KEY marker; the primary key index is the unique index on the key columns
+    for (const index of tableIndexes) {
+      index.isPrimary =
+        index.isUnique &&
+        index.columns.length === primaryKey.length &&
+        index.columns.every(c => primaryKey.includes(c))
+    }
 
     return {
       name: tableName,
@@ -223,7 +253,8 @@ export class DatabaseIntrospector {
         'character_maximum_length',
         'numeric_precision',
         'numeric_scale',
-        'column_key'
+        'column_key',
+        'extra'
       ])
       .where('table_schema', '=', sql.raw('DATABASE()'))
       .where('table_name', '=', tableName)
@@ -235,13 +266,39 @@ export class DatabaseIntrospector {
       dataType: col.data_type || col.DATA_TYPE,
       isNullable: (col.is_nullable || col.IS_NULLABLE) === 'YES',
       isPrimaryKey: (col.column_key || col.COLUMN_KEY) === 'PRI',
-      isForeignKey: (col.column_key || col.COLUMN_KEY) === 'MUL',
+      isForeignKey: false, // Will be updated with foreign key info
       defaultValue: col.column_default || col.COLUMN_DEFAULT,
       maxLength: col.character_maximum_length || col.CHARACTER_MAXIMUM_LENGTH,
       numericPrecision: col.numeric_precision || col.NUMERIC_PRECISION,
-      numericScale: col.numeric_scale || col.NUMERIC_SCALE
+      numericScale: col.numeric_scale || col.NUMERIC_SCALE,
+      isAutoIncrement: String(col.extra || col.EXTRA || '').includes('auto_increment')
+    }))
+
+    // Get foreign keys
+    const fkRows = (await this.db
+      .selectFrom('information_schema.key_column_usage')
+      .select(['constraint_name', 'column_name', 'referenced_table_name', 'referenced_column_name'])
+      .where('table_schema', '=', sql.raw('DATABASE()'))
+      .where('table_name', '=', tableName)
+      .where('referenced_table_name', 'is not', null)
+      .execute()) as any[]
+
+    const foreignKeys: TableForeignKey[] = fkRows.map((fk: any) => ({
+      name: fk.constraint_name || fk.CONSTRAINT_NAME,
+      column: fk.column_name || fk.COLUMN_NAME,
+      referencedTable: fk.referenced_table_name || fk.REFERENCED_TABLE_NAME,
+      referencedColumn: fk.referenced_column_name || fk.REFERENCED_COLUMN_NAME
     }))
 
+    for (const fk of foreignKeys) {
+      const column = tableColumns.find(c => c.name === fk.column)
+      if (column) {
+        column.isForeignKey = true
+        column.referencedTable = fk.referencedTable
+        column.referencedColumn = fk.referencedColumn
+      }
+    }
+
     // Get indexes
     const indexes = (await this.db
       .selectFrom('information_schema.statistics')
@@ -277,7 +334,8 @@ export class DatabaseIntrospector {
       name: tableName,
       columns: tableColumns,
       indexes: tableIndexes,
-      primaryKey: primaryKey.length > 0 ? primaryKey : undefined
+      primaryKey: primaryKey.length > 0 ? primaryKey : undefined,
+      foreignKeys: foreignKeys.length > 0 ? foreignKeys : undefined
     }
   }
 
@@ -304,7 +362,7 @@ export class DatabaseIntrospector {
       name: col.name,
       dataType: col.type,
       isNullable: col.notnull === 0,
-      isPrimaryKey: col.pk === 1,
+      isPrimaryKey: col.pk > 0, // 1-based position in the primary key
       isForeignKey: false, // Will be updated with foreign key info
       defaultValue: col.dflt_value
     }))
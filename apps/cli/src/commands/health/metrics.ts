@@ -3,12 +3,14 @@ import { prism } from '@xec-sh/kit'
 import { displayTable as table } from '../../utils/table-helper.js'
 import { logger } from '../../utils/logger.js'
 import { CLIError } from '../../utils/errors.js'
-import { getDatabaseConnection } from '../../utils/database.js'
+import { getDatabaseConnection, type Database } from '../../utils/database.js'
 import { loadConfig } from '../../config/loader.js'
-import { getMetrics } from '@kysera/infra'
+import { getMetrics, hasDatabaseMetrics, MetricsRegistry, performHealthCheck } from '@kysera/infra'
+import type { Kysely } from 'kysely'
 
 export interface MetricsOptions {
   json?: boolean
+  format?: 'table' | 'json' | 'prometheus'
   period?: string
   config?: string
 }
@@ -17,6 +19,7 @@ export function metricsCommand(): Command {
   const cmd = new Command('metrics')
     .description('Show detailed database metrics')
     .option('--json', 'Output as JSON')
+    .option('-f, --format <type>', 'Output format (table/json/prometheus)', 'table')
     .option('--period <period>', 'Time period (1h, 24h, 7d)', '1h')
     .option('-c, --config <path>', 'Path to configuration file')
     .action(async (options: MetricsOptions) => {
@@ -58,12 +61,17 @@ async function showMetrics(options: MetricsOptions): Promise<void> {
   }
 
   try {
+    if (options.format === 'prometheus') {
+      console.log((await collectPrometheusMetrics(db)).trimEnd())
+      return
+    }
+
     // Get metrics from the database
     const metrics = await getMetrics(db, {
       period: options.period || '1h'
     })
 
-    if (options.json) {
+    if (options.json || options.format === 'json') {
       console.log(JSON.stringify(metrics, null, 2))
       return
     }
@@ -76,6 +84,21 @@ async function showMetrics(options: MetricsOptions): Promise<void> {
   }
 }
 
+/**
+ * Render a health check, and the queries recorded by a debug-enabled database,
+ * in Prometheus text format
+ */
+async function collectPrometheusMetrics(db: Kysely<Database>): Promise<string> {
+  const registry = new MetricsRegistry()
+
+  registry.recordHealthCheck(await performHealthCheck(db))
+  if (hasDatabaseMetrics(db)) {
+    registry.recordQueryMetrics(db.getMetrics())
+  }
+
+  return registry.render()
+}
+
 function displayMetrics(metrics: any, dialect: string): void {
   console.log('')
   console.log(prism.bold('📊 Database Metrics'))
@@ -143,7 +143,7 @@ async function createMigration(name: string, options: CreateOptions): Promise<vo
   }
 }
 
-function generateTimestamp(): string {
+export function generateTimestamp(): string {
   const now = new Date()
   const year = now.getFullYear()
   const month = String(now.getMonth() + 1).padStart(2, '0')
@@ -0,0 +1,217 @@
+import { Command } from 'commander'
+import { prism } from '@xec-sh/kit'
+import { writeFileSync, mkdirSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import type { Kysely } from 'kysely'
+import { createPostgresAdapter } from '@kysera/dialects'
+import { logger } from '../../utils/logger.js'
+import { spinner } from '../../utils/spinner.js'
+import { CLIError } from '../../utils/errors.js'
+import { withDatabase } from '../../utils/with-database.js'
+import {
+  createDatabaseConnection,
+  detectDialect,
+  type DatabaseConnection,
+  type DatabaseDialect
+} from '../../utils/database.js'
+import { DatabaseIntrospector, type TableInfo } from '../generate/introspector.js'
+import { generateTimestamp } from './create.js'
+import { diffSchemas, isSchemaDiffEmpty, renderDiffMigration, type SchemaDiff } from './schema-diff.js'
+
+export interface DiffOptions {
+  from: string
+  to: string
+  dir?: string
+  name?: string
+  dryRun?: boolean
+  verbose?: boolean
+  config?: string
+}
+
+interface IntrospectedSchema {
+  dialect: DatabaseDialect
+  tables: TableInfo[]
+}
+
+export function diffCommand(): Command {
+  const cmd = new Command('diff')
+    .description('Generate a migration from the differences between two schemas')
+    .requiredOption('--from <source>', 'Current schema: connection string or PostgreSQL schema name')
+    .requiredOption('--to <source>', 'Desired schema: connection string or PostgreSQL schema name')
+    .option('-d, --dir <path>', 'Migration directory')
+    .option('-n, --name <name>', 'Migration name', 'schema_diff')
+    .option('--dry-run', 'Print the migration instead of writing it')
+    .option('-v, --verbose', 'Show detailed output')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .action(async (options: DiffOptions) => {
+      try {
+        await diffMigration(options)
+      } catch (error) {
+        if (error instanceof CLIError) {
+          throw error
+        }
+        throw new CLIError(
+          `Failed to generate migration: ${error instanceof Error ? error.message : String(error)}`,
+          'MIGRATE_DIFF_ERROR'
+        )
+      }
+    })
+
+  return cmd
+}
+
+async function diffMigration(options: DiffOptions): Promise<void> {
+  await withDatabase({ config: options.config, verbose: options.verbose }, async (db, config) => {
+    // Kysera bookkeeping tables are not part of the application schema
+    const migrationsTable = config.migrations?.tableName || 'kysera_migrations'
+    const excludedTables = new Set([migrationsTable, `${migrationsTable}_lock`, 'migrations_lock'])
+
+    const diffSpinner = spinner()
+    diffSpinner.start('Introspecting schemas...')
+
+    let from: IntrospectedSchema
+    let to: IntrospectedSchema
+    try {
+      from = await introspectSource(options.from, db, config.database.dialect, excludedTables)
+      to = await introspectSource(options.to, db, config.database.dialect, excludedTables)
+    } catch (error) {
+      diffSpinner.fail('Failed to introspect schemas')
+      throw error
+    }
+
+    if (from.dialect !== to.dialect) {
+      diffSpinner.fail('Schemas use different dialects')
+      throw new CLIError(
+        `Cannot diff a ${from.dialect} schema against a ${to.dialect} schema`,
+        'DIALECT_MISMATCH'
+      )
+    }
+
+    const diff = diffSchemas(from.tables, to.tables)
+    if (isSchemaDiffEmpty(diff)) {
+      diffSpinner.succeed('Schemas are identical, no migration generated')
+      return
+    }
+    diffSpinner.succeed('Schemas compared')
+
+    printDiff(diff)
+
+    const content = renderDiffMigration(diff, diffSchemas(to.tables, from.tables), from.dialect)
+
+    if (options.dryRun) {
+      console.log('')
+      console.log(content)
+      return
+    }
+
+    const directory = options.dir || config.migrations?.directory || './migrations'
+    if (!existsSync(directory)) {
+      mkdirSync(directory, { recursive: true })
+    }
+
+    const safeName = (options.name || 'schema_diff').replace(/[^a-zA-Z0-9_-]/g, '_')
+    const filename = `${generateTimestamp()}_${safeName}.ts`
+    const filepath = join(directory, filename)
+
+    if (existsSync(filepath)) {
+      throw new CLIError(`Migration file already exists: ${filename}`, 'FILE_EXISTS')
+    }
+
+    writeFileSync(filepath, content, 'utf-8')
+
+    logger.info('')
+    logger.info(`${prism.green('✓')} Created migration: ${prism.cyan(filename)}`)
+    logger.info(`  ${prism.gray(filepath)}`)
+    logger.info('')
+    logger.info('Next steps:')
+    logger.info('  1. Review the generated migration, especially any comments about manual changes')
+    logger.info(`  2. Run ${prism.cyan('kysera migrate up')} to apply the migration`)
+  })
+}
+
+/**
+ * A source is either a connection string (opened separately, read-only) or
+ * a PostgreSQL schema name on the configured database
+ */
+async function introspectSource(
+  source: string,
+  db: Kysely<any>,
+  dialect: DatabaseDialect,
+  excludedTables: Set<string>
+): Promise<IntrospectedSchema> {
+  const exclude = (tables: TableInfo[]): TableInfo[] =>
+    tables.filter(table => !excludedTables.has(table.name))
+
+  if (isConnectionString(source)) {
+    const sourceDialect = detectDialect(source)
+    const connection = (await createDatabaseConnection({
+      config: { dialect: sourceDialect, connection: source, debug: false },
+      readonly: true
+    })) as DatabaseConnection
+
+    try {
+      const introspector = new DatabaseIntrospector(connection.db, sourceDialect)
+      return { dialect: sourceDialect, tables: exclude(await introspector.introspect()) }
+    } finally {
+      await connection.close()
+    }
+  }
+
+  if (dialect !== 'postgres') {
+    throw new CLIError(
+      `'${source}' is not a connection string; schema names are only supported for PostgreSQL`,
+      'UNSUPPORTED_DIALECT',
+      undefined,
+      ['Use a connection string such as postgres://..., mysql://... or ./app.db']
+    )
+  }
+
+  if (!(await createPostgresAdapter().schemaExists(db, source))) {
+    throw new CLIError(`Schema '${source}' does not exist`, 'SCHEMA_NOT_FOUND')
+  }
+
+  const introspector = new DatabaseIntrospector(db, 'postgres', source)
+  return { dialect: 'postgres', tables: exclude(await introspector.introspect()) }
+}
+
+function isConnectionString(source: string): boolean {
+  return source.includes('://') || source.endsWith('.db') || source.endsWith('.sqlite')
+}
+
+function printDiff(diff: SchemaDiff): void {
+  console.log('')
+  for (const table of diff.addedTables) {
+    console.log(prism.green(`  + table ${table.name}`))
+  }
+  for (const table of diff.droppedTables) {
+    console.log(prism.red(`  - table ${table.name}`))
+  }
+  for (const table of diff.alteredTables) {
+    console.log(prism.yellow(`  ~ table ${table.table}`))
+    for (const column of table.addedColumns) {
+      console.log(prism.green(`      + column ${column.name}`))
+    }
+    for (const column of table.droppedColumns) {
+      console.log(prism.red(`      - column ${column.name}`))
+    }
+    for (const change of table.changedDefaults) {
+      console.log(prism.yellow(`      ~ default ${change.column}`))
+    }
+    for (const change of table.changedColumns) {
+      console.log(prism.gray(`      ! column ${change.column} changed type or nullability (not generated)`))
+    }
+    for (const index of table.addedIndexes) {
+      console.log(prism.green(`      + index ${index.name} (${index.columns.join(', ')})`))
+    }
+    for (const index of table.droppedIndexes) {
+      console.log(prism.red(`      - index ${index.name} (${index.columns.join(', ')})`))
+    }
+    for (const fk of table.addedForeignKeys) {
+      console.log(prism.green(`      + foreign key ${fk.column} -> ${fk.referencedTable}.${fk.referencedColumn}`))
+    }
+    for (const fk of table.droppedForeignKeys) {
+      console.log(prism.red(`      - foreign key ${fk.column} -> ${fk.referencedTable}.${fk.referencedColumn}`))
+    }
+  }
+  console.log('')
+}
@@ -82,7 +82,7 @@ async function rollbackMigrations(options: DownOptions): Promise<void> {
     try {
       if (!options.dryRun) {
         try {
-          releaseLock = await runner.acquireLock()
+          releaseLock = await runner.acquireLock(config.migrations?.lockTimeout)
         } catch (error: any) {
           if (error.code === 'MIGRATION_LOCKED') {
             throw new CLIError(
@@ -5,6 +5,7 @@ import { downCommand } from './down.js'
 import { statusCommand } from './status.js'
 import { listCommand } from './list.js'
 import { resetCommand, freshCommand } from './reset.js'
+import { diffCommand } from './diff.js'
 
 export function migrateCommand(): Command {
   const cmd = new Command('migrate').description('Manage database migrations')
@@ -17,6 +18,7 @@ export function migrateCommand(): Command {
   cmd.addCommand(listCommand())
   cmd.addCommand(resetCommand())
   cmd.addCommand(freshCommand())
+  cmd.addCommand(diffCommand())
 
   return cmd
 }
@@ -114,6 +114,7 @@ async function listMigrations(options: ListOptions): Promise<void> {
         name: m.name,
         timestamp: m.timestamp,
         status: m.status,
+        drift: m.drift ?? null,
         executedAt: m.executedAt?.toISOString() || null
       }))
       console.log(JSON.stringify(output, null, 2))
@@ -140,7 +141,7 @@ async function listMigrations(options: ListOptions): Promise<void> {
     // Prepare table data
     const tableData = migrations.map(m => {
       const row: Record<string, string> = {
-        Status: m.status === 'executed' ? prism.green('✓') : prism.yellow('○'),
+        Status: m.drift ? prism.red('!') : m.status === 'executed' ? prism.green('✓') : prism.yellow('○'),
         Name: String(m.name || ''),
         Timestamp: String(m.timestamp || '')
       }
@@ -149,6 +150,10 @@ async function listMigrations(options: ListOptions): Promise<void> {
         row['Executed At'] = formatDate(m.executedAt)
       }
 
+      if (m.drift) {
+        row['Drift'] = m.drift
+      }
+
       return row
     })
 
@@ -180,6 +185,10 @@ async function listMigrations(options: ListOptions): Promise<void> {
           columns.push({ key: 'Executed At', header: 'Executed At', width: 20 })
         }
 
+        if (plainTableData.some(row => 'Drift' in row)) {
+          columns.push({ key: 'Drift', header: 'Drift', width: 14 })
+        }
+
         table(plainTableData, { columns })
       } catch (tableError) {
         logger.error('Table rendering error:', tableError)
@@ -189,7 +198,8 @@ async function listMigrations(options: ListOptions): Promise<void> {
           const status = m.status === 'executed' ? prism.green('✓') : prism.yellow('○')
           const executedInfo =
             m.status === 'executed' && m.executedAt ? ` (${formatDate(m.executedAt)})` : ''
-          console.log(`  ${status} ${m.name}${executedInfo}`)
+          const driftInfo = m.drift ? ` [${m.drift}]` : ''
+          console.log(`  ${status} ${m.name}${executedInfo}${driftInfo}`)
         })
       }
     } else if (!Array.isArray(tableData)) {
@@ -203,11 +213,15 @@ async function listMigrations(options: ListOptions): Promise<void> {
     // Show summary
     const executed = migrations.filter(m => m.status === 'executed').length
     const pending = migrations.filter(m => m.status === 'pending').length
+    const drifted = migrations.filter(m => m.drift !== undefined).length
 
     console.log(prism.gray('Summary:'))
     console.log(`  Total: ${migrations.length}`)
     console.log(`  Executed: ${executed}`)
     console.log(`  Pending: ${pending}`)
+    if (drifted > 0) {
+      console.log(prism.red(`  Drifted: ${drifted}`))
+    }
     console.log('')
   } finally {
     // Close database connection
@@ -141,7 +141,7 @@ async function resetMigrations(options: ResetOptions): Promise<void> {
 
   try {
     try {
-      releaseLock = await runner.acquireLock()
+      releaseLock = await runner.acquireLock(config.migrations?.lockTimeout)
     } catch (error: any) {
       if (error.code === 'MIGRATION_LOCKED') {
         throw new CLIError(
@@ -3,6 +3,7 @@ import { existsSync, readdirSync, readFileSync } from 'node:fs'
 import { join, basename } from 'node:path'
 import { pathToFileURL } from 'node:url'
 import { prism } from '@xec-sh/kit'
+import { acquireMigrationLock, computeChecksum, MigrationLockError } from '@kysera/migrations'
 import { logger } from '../../utils/logger.js'
 import { CLIError, isExpectedError, ValidationError } from '../../utils/errors.js'
 
@@ -19,11 +20,20 @@ export interface MigrationFile {
   timestamp: string
 }
 
+/**
+ * Drift between migration files and the migration table:
+ * - modified: the file changed after it was executed
+ * - missing: executed, but the file no longer exists
+ * - out-of-order: pending, but sorted before an executed migration
+ */
+export type MigrationDrift = 'modified' | 'missing' | 'out-of-order'
+
 export interface MigrationStatus {
   name: string
   timestamp: string
   executedAt?: Date
   status: 'pending' | 'executed'
+  drift?: MigrationDrift
 }
 
 export class MigrationRunner {
@@ -69,6 +79,7 @@ export class MigrationRunner {
       .addColumn('timestamp', 'varchar(14)', col => col.notNull())
       .addColumn('executed_at', 'timestamp', col => col.notNull().defaultTo(sql`CURRENT_TIMESTAMP`))
       .addColumn('batch', 'integer', col => col.notNull())
+      .addColumn('checksum', 'varchar(64)')
       .execute()
       .then(() => true)
       .catch(err => {
@@ -82,6 +93,23 @@ export class MigrationRunner {
     if (hasTable) {
       logger.debug(`Created migration table: ${this.qualifiedTableName}`)
     }
+
+    // Tables created before checksums were tracked lack the column
+    const tables = await this.db.introspection.getTables()
+    const table = tables.find(
+      t => t.name === this.tableName && (this.schema === 'public' || t.schema === this.schema)
+    )
+    if (table && !table.columns.some(c => c.name === 'checksum')) {
+      await this.schemaDb.schema.alterTable(this.tableName).addColumn('checksum', 'varchar(64)').execute()
+      logger.debug(`Added checksum column to migration table: ${this.qualifiedTableName}`)
+    }
+  }
+
+  /**
+   * Checksum of a migration file's content
+   */
+  async getChecksum(file: MigrationFile): Promise<string> {
+    return computeChecksum(readFileSync(file.path, 'utf-8'))
   }
 
   /**
@@ -122,7 +150,7 @@ export class MigrationRunner {
    * Get executed migrations from database
    */
   async getExecutedMigrations(): Promise<
-    Array<{ name: string; timestamp: string; executed_at: Date; batch: number }>
+    Array<{ name: string; timestamp: string; executed_at: Date; batch: number; checksum: string | null }>
   > {
     try {
       const migrations = await this.schemaDb
@@ -142,7 +170,8 @@ export class MigrationRunner {
         name: m.name,
         timestamp: m.timestamp,
         executed_at: m.executed_at,
-        batch: m.batch
+        batch: m.batch,
+        checksum: m.checksum ?? null
       }))
     } catch (error: any) {
       // Check if this is the expected "table doesn't exist" error (first migration run)
@@ -200,13 +229,43 @@ export class MigrationRunner {
       }
 
       const executedMap = new Map(executed.map(m => [m.name, m]))
+      const fileNames = new Set(files.map(file => file.name))
+      const lastExecutedIndex = files.reduce(
+        (last, file, index) => (executedMap.has(file.name) ? index : last),
+        -1
+      )
 
-      return files.map(file => ({
-        name: file.name,
-        timestamp: file.timestamp,
-        executedAt: executedMap.get(file.name)?.executed_at,
-        status: executedMap.has(file.name) ? ('executed' as const) : ('pending' as const)
-      }))
+      const status: MigrationStatus[] = []
+      for (const [index, file] of files.entries()) {
+        const record = executedMap.get(file.name)
+        const entry: MigrationStatus = {
+          name: file.name,
+          timestamp: file.timestamp,
+          executedAt: record?.executed_at,
+          status: record ? 'executed' : 'pending'
+        }
+        // Rows recorded before checksums were tracked can't be verified
+        if (record?.checksum && record.checksum !== (await this.getChecksum(file))) {
+          entry.drift = 'modified'
+        } else if (!record && index < lastExecutedIndex) {
+          entry.drift = 'out-of-order'
+        }
+        status.push(entry)
+      }
+
+      for (const record of executed) {
+        if (!fileNames.has(record.name)) {
+          status.push({
+            name: record.name,
+            timestamp: record.timestamp,
+            executedAt: record.executed_at,
+            status: 'executed',
+            drift: 'missing'
+          })
+        }
+      }
+
+      return status
     } catch (error) {
       logger.error('Error in getMigrationStatus:', error)
       throw error
@@ -253,6 +312,7 @@ export class MigrationRunner {
       dryRun?: boolean
       force?: boolean
       verbose?: boolean
+      allowDrift?: boolean
     } = {}
   ): Promise<{ executed: string[]; duration: number }> {
     await this.init()
@@ -266,6 +326,22 @@ export class MigrationRunner {
       return { executed, duration: Date.now() - startTime }
     }
 
+    const drifted = status.filter(m => m.drift === 'modified' || m.drift === 'missing')
+    if (drifted.length > 0) {
+      const details = drifted.map(m => `${m.name} (${m.drift})`).join(', ')
+      if (!options.allowDrift) {
+        throw new CLIError(`Applied migrations have drifted: ${details}`, 'MIGRATION_DRIFT', undefined, [
+          'Restore the original migration files',
+          'Or run with --allow-drift to apply pending migrations anyway'
+        ])
+      }
+      logger.warn(`Applied migrations have drifted: ${details}`)
+    }
+
+    if (!options.dryRun) {
+      await this.backfillChecksums()
+    }
+
     let pending = status.filter(m => m && m.status === 'pending')
 
     // Apply filters
@@ -328,7 +404,8 @@ export class MigrationRunner {
             .values({
               name: migration.name,
               timestamp: migration.timestamp,
-              batch
+              batch,
+              checksum: await this.getChecksum(file)
             })
             .execute()
         })
@@ -467,6 +544,25 @@ export class MigrationRunner {
     return this.down({ all: true, ...options })
   }
 
+  /**
+   * Record checksums for migrations executed before checksums were tracked
+   */
+  private async backfillChecksums(): Promise<void> {
+    const files = await this.getMigrationFiles()
+    const executed = await this.getExecutedMigrations()
+
+    for (const record of executed) {
+      if (record.checksum) continue
+      const file = files.find(f => f.name === record.name)
+      if (!file) continue
+      await this.schemaDb
+        .updateTable(this.tableName)
+        .set({ checksum: await this.getChecksum(file) })
+        .where('name', '=', record.name)
+        .execute()
+    }
+  }
+
   /**
    * Get the last batch number
    */
@@ -484,36 +580,22 @@ export class MigrationRunner {
   }
 
   /**
-   * Lock migrations to prevent concurrent execution
+   * Lock migrations to prevent concurrent execution.
+   * Uses the dialect-aware lock from @kysera/migrations (advisory locks on
+   * PostgreSQL/MySQL/MSSQL, a lock table on SQLite), which is released by
+   * the database if this process dies.
    */
-  async acquireLock(): Promise<() => Promise<void>> {
-    // Simple implementation - in production, use database advisory locks
-    let lockAcquired = false
-    const lockTableName = 'kysera_migration_lock'
-
+  async acquireLock(timeout?: number): Promise<() => Promise<void>> {
     try {
-      await this.schemaDb.insertInto(lockTableName).values({ id: 1, locked: true }).execute()
-      lockAcquired = true
-    } catch (error: any) {
-      if (error.message.includes('already exists') || error.message.includes('duplicate')) {
+      return await acquireMigrationLock(this.db, {
+        lockName: `${this.qualifiedTableName}_lock`,
+        ...(timeout !== undefined && { timeout })
+      })
+    } catch (error) {
+      if (error instanceof MigrationLockError) {
         throw new CLIError('Migrations are already running in another process', 'MIGRATION_LOCKED')
       }
-      // Lock table doesn't exist, create it
-      await this.schemaDb.schema
-        .createTable(lockTableName)
-        .ifNotExists()
-        .addColumn('id', 'integer', col => col.primaryKey())
-        .addColumn('locked', 'boolean', col => col.notNull())
-        .execute()
-
-      await this.schemaDb.insertInto(lockTableName).values({ id: 1, locked: true }).execute()
-      lockAcquired = true
-    }
-
-    return async () => {
-      if (lockAcquired) {
-        await this.schemaDb.deleteFrom(lockTableName).where('id', '=', 1).execute()
-      }
+      throw error
     }
   }
 }
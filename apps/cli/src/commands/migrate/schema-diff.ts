@@ -0,0 +1,547 @@
+import type {
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+  TableInfo
+} from '../generate/introspector.js'
+
+export type DiffDialect = 'postgres' | 'mysql' | 'sqlite'
+
+export interface DefaultChange {
+  column: string
+  from?: string
+  to?: string
+}
+
+export interface ColumnChange {
+  column: string
+  from: TableColumn
+  to: TableColumn
+}
+
+export interface TableDiff {
+  table: string
+  addedColumns: TableColumn[]
+  droppedColumns: TableColumn[]
+  changedDefaults: DefaultChange[]
+  /** Type or nullability changes; reported but not generated */
+  changedColumns: ColumnChange[]
+  addedIndexes: TableIndex[]
+  droppedIndexes: TableIndex[]
+  addedForeignKeys: TableForeignKey[]
+  droppedForeignKeys: TableForeignKey[]
+}
+
+/**
+ * Changes that turn the `from` schema into the `to` schema
+ */
+export interface SchemaDiff {
+  addedTables: TableInfo[]
+  droppedTables: TableInfo[]
+  alteredTables: TableDiff[]
+}
+
+/**
+ * Compare two introspected schemas.
+ * Indexes and foreign keys are matched by their definition, not their name,
+ * so auto-generated names that differ between databases are not reported.
+ */
+export function diffSchemas(from: TableInfo[], to: TableInfo[]): SchemaDiff {
+  const fromTables = new Map(from.map(t => [t.name, t]))
+  const toTables = new Map(to.map(t => [t.name, t]))
+
+  const addedTables = to.filter(t => !fromTables.has(t.name))
+  const droppedTables = from.filter(t => !toTables.has(t.name))
+  const alteredTables: TableDiff[] = []
+
+  for (const target of to) {
+    const source = fromTables.get(target.name)
+    if (!source) continue
+
+    const diff = diffTable(source, target)
+    if (!isTableDiffEmpty(diff)) {
+      alteredTables.push(diff)
+    }
+  }
+
+  return {
+    addedTables: sortByDependencies(addedTables),
+    droppedTables: sortByDependencies(droppedTables).reverse(),
+    alteredTables
+  }
+}
+
+/**
+ * Whether two schemas are identical
+ */
+export function isSchemaDiffEmpty(diff: SchemaDiff): boolean {
+  return (
+    diff.addedTables.length === 0 &&
+    diff.droppedTables.length === 0 &&
+    diff.alteredTables.length === 0
+  )
+}
+
+function diffTable(source: TableInfo, target: TableInfo): TableDiff {
+  const sourceColumns = new Map(source.columns.map(c => [c.name, c]))
+  const targetColumns = new Map(target.columns.map(c => [c.name, c]))
+
+  const changedDefaults: DefaultChange[] = []
+  const changedColumns: ColumnChange[] = []
+  for (const to of target.columns) {
+    const from = sourceColumns.get(to.name)
+    if (!from) continue
+
+    if (normalizeDefault(from.defaultValue) !== normalizeDefault(to.defaultValue)) {
+      changedDefaults.push({
+        column: to.name,
+        from: normalizeDefault(from.defaultValue),
+        to: normalizeDefault(to.defaultValue)
+      })
+    }
+    if (columnSignature(from) !== columnSignature(to)) {
+      changedColumns.push({ column: to.name, from, to })
+    }
+  }
+
+  const sourceIndexes = secondaryIndexes(source)
+  const targetIndexes = secondaryIndexes(target)
+  const sourceIndexKeys = new Set(sourceIndexes.map(indexKey))
+  const targetIndexKeys = new Set(targetIndexes.map(indexKey))
+
+  const sourceForeignKeys = source.foreignKeys ?? []
+  const targetForeignKeys = target.foreignKeys ?? []
+  const sourceForeignKeyKeys = new Set(sourceForeignKeys.map(foreignKeyKey))
+  const targetForeignKeyKeys = new Set(targetForeignKeys.map(foreignKeyKey))
+
+  return {
+    table: target.name,
+    addedColumns: target.columns.filter(c => !sourceColumns.has(c.name)),
+    droppedColumns: source.columns.filter(c => !targetColumns.has(c.name)),
+    changedDefaults,
+    changedColumns,
+    addedIndexes: targetIndexes.filter(i => !sourceIndexKeys.has(indexKey(i))),
+    droppedIndexes: sourceIndexes.filter(i => !targetIndexKeys.has(indexKey(i))),
+    addedForeignKeys: targetForeignKeys.filter(fk => !sourceForeignKeyKeys.has(foreignKeyKey(fk))),
+    droppedForeignKeys: sourceForeignKeys.filter(fk => !targetForeignKeyKeys.has(foreignKeyKey(fk)))
+  }
+}
+
+function isTableDiffEmpty(diff: TableDiff): boolean {
+  return (
+    diff.addedColumns.length === 0 &&
+    diff.droppedColumns.length === 0 &&
+    diff.changedDefaults.length === 0 &&
+    diff.changedColumns.length === 0 &&
+    diff.addedIndexes.length === 0 &&
+    diff.droppedIndexes.length === 0 &&
+    diff.addedForeignKeys.length === 0 &&
+    diff.droppedForeignKeys.length === 0
+  )
+}
+
+function normalizeDefault(value: string | null | undefined): string | undefined {
+  if (value === null || value === undefined) return undefined
+  // Postgres reports an explicit NULL default as e.g. NULL::character varying
+  if (/^null(::[\w\s]+)?$/i.test(value.trim())) return undefined
+  return value.trim()
+}
+
+function columnSignature(column: TableColumn): string {
+  return [
+    column.dataType.toLowerCase(),
+    column.maxLength ?? '',
+    column.numericPrecision ?? '',
+    column.numericScale ?? '',
+    column.isNullable ? 'null' : 'not null'
+  ].join('|')
+}
+
+/**
+ * Indexes other than the primary key index
+ */
+function secondaryIndexes(table: TableInfo): TableIndex[] {
+  const primaryKey = table.primaryKey ?? []
+  return table.indexes.filter(
+    index =>
+      !index.isPrimary &&
+      !(
+        index.isUnique &&
+        index.columns.length === primaryKey.length &&
+        index.columns.every(c => primaryKey.includes(c))
+      )
+  )
+}
+
+function indexKey(index: TableIndex): string {
+  return `${index.isUnique ? 'unique' : 'index'}(${index.columns.join(',')})`
+}
+
+function foreignKeyKey(fk: TableForeignKey): string {
+  return `${fk.column}->${fk.referencedTable}.${fk.referencedColumn}`
+}
+
+/**
+ * Order tables so that referenced tables come before the tables referencing them
+ */
+function sortByDependencies(tables: TableInfo[]): TableInfo[] {
+  const byName = new Map(tables.map(t => [t.name, t]))
+  const sorted: TableInfo[] = []
+  const visited = new Set<string>()
+
+  const visit = (table: TableInfo): void => {
+    if (visited.has(table.name)) return
+    visited.add(table.name)
+    for (const fk of table.foreignKeys ?? []) {
+      const dependency = byName.get(fk.referencedTable)
+      if (dependency) visit(dependency)
+    }
+    sorted.push(table)
+  }
+
+  for (const table of tables) {
+    visit(table)
+  }
+  return sorted
+}
+
+// ============================================================================
+// Migration rendering
+// ============================================================================
+
+/**
+ * Render a Kysely migration file.
+ * `up` applies `diff`; `down` applies `reverse`, the diff in the other direction.
+ */
+export function renderDiffMigration(
+  diff: SchemaDiff,
+  reverse: SchemaDiff,
+  dialect: DiffDialect
+): string {
+  const up = renderStatements(diff, dialect)
+  const down = renderStatements(reverse, dialect)
+  const usesSql = [...up, ...down].some(statement => statement.includes('sql`'))
+
+  return `import { Kysely${usesSql ? ', sql' : ''} } from 'kysely'
+
+export async function up(db: Kysely<any>): Promise<void> {
+${indent(up)}
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+${indent(down)}
+}
+`
+}
+
+function indent(statements: string[]): string {
+  return statements
+    .join('\n\n')
+    .split('\n')
+    .map(line => (line ? `  ${line}` : line))
+    .join('\n')
+}
+
+function renderStatements(diff: SchemaDiff, dialect: DiffDialect): string[] {
+  const statements: string[] = []
+
+  for (const table of diff.addedTables) {
+    statements.push(renderCreateTable(table, dialect))
+    for (const index of secondaryIndexes(table)) {
+      statements.push(renderCreateIndex(table.name, index))
+    }
+  }
+
+  for (const table of diff.alteredTables) {
+    statements.push(...renderAlterTable(table, dialect))
+  }
+
+  for (const table of diff.droppedTables) {
+    statements.push(`await db.schema.dropTable(${quote(table.name)}).execute()`)
+  }
+
+  return statements
+}
+
+function renderCreateTable(table: TableInfo, dialect: DiffDialect): string {
+  const primaryKey = table.primaryKey ?? []
+  const lines = ['await db.schema', `  .createTable(${quote(table.name)})`]
+
+  for (const column of table.columns) {
+    const fk = table.foreignKeys?.find(f => f.column === column.name)
+    lines.push(
+      `  .addColumn(${renderColumn(column, dialect, {
+        primaryKey: primaryKey.length === 1 && column.isPrimaryKey,
+        references: fk
+      })})`
+    )
+  }
+
+  if (primaryKey.length > 1) {
+    lines.push(
+      `  .addPrimaryKeyConstraint(${quote(`${table.name}_pkey`)}, [${primaryKey.map(quote).join(', ')}])`
+    )
+  }
+
+  lines.push('  .execute()')
+  return lines.join('\n')
+}
+
+function renderAlterTable(diff: TableDiff, dialect: DiffDialect): string[] {
+  const statements: string[] = []
+  const table = quote(diff.table)
+  const addedColumnNames = new Set(diff.addedColumns.map(c => c.name))
+
+  for (const change of diff.changedColumns) {
+    statements.push(
+      `// Not generated: ${diff.table}.${change.column} changed from ${describeColumn(change.from)} to ${describeColumn(change.to)}`
+    )
+  }
+
+  for (const fk of diff.droppedForeignKeys) {
+    if (dialect === 'sqlite' || !fk.name) {
+      statements.push(
+        `// SQLite cannot drop the foreign key ${diff.table}.${fk.column} -> ${fk.referencedTable}.${fk.referencedColumn}; recreate the table`
+      )
+      continue
+    }
+    const drop =
+      dialect === 'mysql'
+        ? sqlTemplate(`ALTER TABLE \`${diff.table}\` DROP FOREIGN KEY \`${fk.name}\``)
+        : null
+    statements.push(
+      drop
+        ? `await ${drop}.execute(db)`
+        : `await db.schema.alterTable(${table}).dropConstraint(${quote(fk.name)}).execute()`
+    )
+  }
+
+  for (const index of diff.droppedIndexes) {
+    if (index.name.startsWith('sqlite_autoindex_')) {
+      statements.push(
+        `// SQLite cannot drop the unique constraint on ${diff.table}(${index.columns.join(', ')}); recreate the table`
+      )
+      continue
+    }
+    const on = dialect === 'mysql' ? `.on(${table})` : ''
+    statements.push(`await db.schema.dropIndex(${quote(index.name)})${on}.execute()`)
+  }
+
+  for (const column of diff.addedColumns) {
+    // SQLite can only add a foreign key together with its column
+    const references =
+      dialect === 'sqlite' ? diff.addedForeignKeys.find(fk => fk.column === column.name) : undefined
+    statements.push(
+      `await db.schema\n  .alterTable(${table})\n  .addColumn(${renderColumn(column, dialect, { references })})\n  .execute()`
+    )
+  }
+
+  for (const column of diff.droppedColumns) {
+    statements.push(`await db.schema.alterTable(${table}).dropColumn(${quote(column.name)}).execute()`)
+  }
+
+  for (const change of diff.changedDefaults) {
+    if (dialect === 'sqlite') {
+      statements.push(
+        `// SQLite cannot change the default of ${diff.table}.${change.column}; recreate the table`
+      )
+      continue
+    }
+    const alteration =
+      change.to === undefined ? 'col.dropDefault()' : `col.setDefault(${renderDefault(change.to, dialect)})`
+    statements.push(
+      `await db.schema\n  .alterTable(${table})\n  .alterColumn(${quote(change.column)}, (col) => ${alteration})\n  .execute()`
+    )
+  }
+
+  for (const index of diff.addedIndexes) {
+    statements.push(renderCreateIndex(diff.table, index))
+  }
+
+  for (const fk of diff.addedForeignKeys) {
+    if (dialect === 'sqlite') {
+      if (addedColumnNames.has(fk.column)) continue
+      statements.push(
+        `// SQLite cannot add the foreign key ${diff.table}.${fk.column} -> ${fk.referencedTable}.${fk.referencedColumn} to an existing column; recreate the table`
+      )
+      continue
+    }
+    const name = fk.name ?? `${diff.table}_${fk.column}_fkey`
+    statements.push(
+      `await db.schema\n  .alterTable(${table})\n  .addForeignKeyConstraint(${quote(name)}, [${quote(fk.column)}], ${quote(fk.referencedTable)}, [${quote(fk.referencedColumn)}])\n  .execute()`
+    )
+  }
+
+  return statements
+}
+
+function renderCreateIndex(table: string, index: TableIndex): string {
+  // SQLite reserves sqlite_* names for the indexes behind UNIQUE constraints
+  const name = index.name.startsWith('sqlite_autoindex_')
+    ? `${table}_${index.columns.join('_')}_${index.isUnique ? 'unique' : 'index'}`
+    : index.name
+  const lines = ['await db.schema', `  .createIndex(${quote(name)})`, `  .on(${quote(table)})`]
+  lines.push(`  .columns([${index.columns.map(quote).join(', ')}])`)
+  if (index.isUnique) {
+    lines.push('  .unique()')
+  }
+  lines.push('  .execute()')
+  return lines.join('\n')
+}
+
+function renderColumn(
+  column: TableColumn,
+  dialect: DiffDialect,
+  options: { primaryKey?: boolean; references?: TableForeignKey | undefined }
+): string {
+  const modifiers: string[] = []
+  const autoIncrement = column.isAutoIncrement === true && dialect !== 'sqlite'
+
+  if (options.primaryKey) {
+    modifiers.push('primaryKey()')
+  }
+  if (autoIncrement && dialect === 'mysql') {
+    modifiers.push('autoIncrement()')
+  }
+  if (!column.isNullable && !options.primaryKey) {
+    modifiers.push('notNull()')
+  }
+  const defaultValue = normalizeDefault(column.defaultValue)
+  if (defaultValue !== undefined && !autoIncrement) {
+    modifiers.push(`defaultTo(${renderDefault(defaultValue, dialect)})`)
+  }
+  if (options.references) {
+    modifiers.push(
+      `references(${quote(`${options.references.referencedTable}.${options.references.referencedColumn}`)})`
+    )
+  }
+
+  const callback = modifiers.length > 0 ? `, (col) => col.${modifiers.join('.')}` : ''
+  return `${quote(column.name)}, ${renderDataType(column, dialect)}${callback}`
+}
+
+/**
+ * Data types Kysely accepts as plain strings; anything else is emitted as sql``
+ */
+const KYSELY_DATA_TYPES = new Set([
+  'varchar',
+  'char',
+  'text',
+  'integer',
+  'smallint',
+  'bigint',
+  'boolean',
+  'real',
+  'double precision',
+  'decimal',
+  'numeric',
+  'binary',
+  'bytea',
+  'date',
+  'datetime',
+  'time',
+  'timetz',
+  'timestamp',
+  'timestamptz',
+  'serial',
+  'bigserial',
+  'uuid',
+  'json',
+  'jsonb',
+  'blob',
+  'varbinary'
+])
+
+const KYSELY_DATA_TYPE_PATTERNS = [
+  /^(varchar|char|binary|varbinary|datetime|time|timetz|timestamp|timestamptz)\(\d+\)$/,
+  /^(decimal|numeric)\(\d+, \d+\)$/
+]
+
+function renderDataType(column: TableColumn, dialect: DiffDialect): string {
+  const dataType = normalizeDataType(column, dialect)
+  if (
+    KYSELY_DATA_TYPES.has(dataType) ||
+    KYSELY_DATA_TYPE_PATTERNS.some(pattern => pattern.test(dataType))
+  ) {
+    return quote(dataType)
+  }
+  return sqlTemplate(dataType)
+}
+
+function normalizeDataType(column: TableColumn, dialect: DiffDialect): string {
+  const dataType = column.dataType.toLowerCase()
+  const withLength = (base: string): string =>
+    column.maxLength ? `${base}(${column.maxLength})` : base
+  const withPrecision = (base: string): string =>
+    column.numericPrecision
+      ? `${base}(${column.numericPrecision}, ${column.numericScale ?? 0})`
+      : base
+
+  if (dialect === 'sqlite') {
+    // SQLite keeps the declared type as written, e.g. VARCHAR(255) or DECIMAL(10,2)
+    return dataType.replace(/\s*,\s*/g, ', ')
+  }
+
+  if (dialect === 'postgres') {
+    if (column.isAutoIncrement) {
+      if (dataType === 'integer') return 'serial'
+      if (dataType === 'bigint') return 'bigserial'
+      if (dataType === 'smallint') return 'smallserial'
+    }
+    switch (dataType) {
+      case 'character varying':
+        return withLength('varchar')
+      case 'character':
+        return withLength('char')
+      case 'timestamp without time zone':
+        return 'timestamp'
+      case 'timestamp with time zone':
+        return 'timestamptz'
+      case 'time without time zone':
+        return 'time'
+      case 'time with time zone':
+        return 'timetz'
+      case 'numeric':
+        return withPrecision('numeric')
+      default:
+        return dataType
+    }
+  }
+
+  switch (dataType) {
+    case 'int':
+      return 'integer'
+    case 'double':
+      return 'double precision'
+    case 'varchar':
+    case 'char':
+    case 'binary':
+    case 'varbinary':
+      return withLength(dataType)
+    case 'decimal':
+      return withPrecision('decimal')
+    default:
+      return dataType
+  }
+}
+
+function renderDefault(value: string, dialect: DiffDialect): string {
+  if (dialect === 'mysql') {
+    // MySQL reports literal defaults without quotes
+    if (/^-?\d+(\.\d+)?$/.test(value)) return value
+    if (!/^(current_timestamp|now\(|\(|')/i.test(value)) return quote(value)
+  }
+  return sqlTemplate(value)
+}
+
+function describeColumn(column: TableColumn): string {
+  return `${column.dataType}${column.maxLength ? `(${column.maxLength})` : ''} ${column.isNullable ? 'NULL' : 'NOT NULL'}`
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+function sqlTemplate(value: string): string {
+  return `sql\`${value.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${')}\``
+}
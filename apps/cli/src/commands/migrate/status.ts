@@ -1,14 +1,17 @@
 import { Command } from 'commander'
 import { prism, table } from '@xec-sh/kit'
 import { CLIError } from '../../utils/errors.js'
-import { MigrationRunner } from './runner.js'
+import { MigrationRunner, type MigrationStatus } from './runner.js'
 import { withDatabase } from '../../utils/with-database.js'
+import { displayTable } from '../../utils/table-helper.js'
+import { createTenantMigrationRunner, getTenantManager } from '../tenant/manager.js'
 
 export interface StatusOptions {
   json?: boolean
   verbose?: boolean
   config?: string
   schema?: string
+  allTenants?: boolean
 }
 
 export function statusCommand(): Command {
@@ -18,9 +21,14 @@ export function statusCommand(): Command {
     .option('-v, --verbose', 'Show detailed information')
     .option('-c, --config <path>', 'Path to configuration file')
     .option('-s, --schema <name>', 'PostgreSQL schema name (default: public)')
+    .option('--all-tenants', 'Show migration status of every tenant schema')
     .action(async (options: StatusOptions) => {
       try {
-        await showMigrationStatus(options)
+        if (options.allTenants) {
+          await showTenantMigrationStatus(options)
+        } else {
+          await showMigrationStatus(options)
+        }
       } catch (error) {
         if (error instanceof CLIError) {
           throw error
@@ -47,6 +55,7 @@ async function showMigrationStatus(options: StatusOptions): Promise<void> {
     const status = await runner.getMigrationStatus()
     const executed = status.filter((m: any) => m.status === 'executed')
     const pending = status.filter((m: any) => m.status === 'pending')
+    const drifted = status.filter(m => m.drift !== undefined)
 
     if (options.json) {
       // Output as JSON
@@ -54,10 +63,12 @@ async function showMigrationStatus(options: StatusOptions): Promise<void> {
         total: status.length,
         executed: executed.length,
         pending: pending.length,
+        drifted: drifted.length,
         migrations: status.map((m: any) => ({
           name: m.name,
           timestamp: m.timestamp,
           status: m.status,
+          drift: m.drift ?? null,
           executedAt: m.executedAt?.toISOString() || null
         })),
         database: {
@@ -83,7 +94,8 @@ async function showMigrationStatus(options: StatusOptions): Promise<void> {
         const tableData = executed.map((m: any) => ({
           Name: m.name,
           Timestamp: m.timestamp,
-          'Executed At': m.executedAt ? formatDate(m.executedAt) : 'Unknown'
+          'Executed At': m.executedAt ? formatDate(m.executedAt) : 'Unknown',
+          Drift: m.drift ?? ''
         }))
 
         console.log('')
@@ -93,8 +105,9 @@ async function showMigrationStatus(options: StatusOptions): Promise<void> {
         // Simple list
         for (const migration of executed) {
           const executedAt = migration.executedAt ? ` (${formatDate(migration.executedAt)})` : ''
+          const mark = migration.drift ? prism.red('[!!]') : prism.green('[OK]')
           console.log(
-            `  ${prism.green('[OK]')} ${migration.name} ${prism.green('(executed)')}${prism.gray(executedAt)}`
+            `  ${mark} ${migration.name} ${prism.green('(executed)')}${prism.gray(executedAt)}${formatDrift(migration)}`
           )
         }
       }
@@ -112,7 +125,8 @@ async function showMigrationStatus(options: StatusOptions): Promise<void> {
         // Show as table
         const tableData = pending.map((m: any) => ({
           Name: m.name,
-          Timestamp: m.timestamp
+          Timestamp: m.timestamp,
+          Drift: m.drift ?? ''
         }))
 
         console.log('')
@@ -121,7 +135,7 @@ async function showMigrationStatus(options: StatusOptions): Promise<void> {
       } else {
         // Simple list
         for (const migration of pending) {
-          console.log(`  ${prism.gray('-')} ${migration.name} ${prism.gray('(pending)')}`)
+          console.log(`  ${prism.gray('-')} ${migration.name} ${prism.gray('(pending)')}${formatDrift(migration)}`)
         }
       }
       console.log('')
@@ -130,6 +144,18 @@ async function showMigrationStatus(options: StatusOptions): Promise<void> {
       console.log('')
     }
 
+    // Show drift between migration files and the database
+    if (drifted.length > 0) {
+      console.log(prism.red(`Drift detected (${drifted.length}):`))
+      for (const migration of drifted) {
+        console.log(`  ${prism.red('!')} ${migration.name}${formatDrift(migration)}`)
+      }
+      if (drifted.some(m => m.drift === 'modified' || m.drift === 'missing')) {
+        console.log(prism.gray('  migrate up will refuse to run until this is resolved (or use --allow-drift)'))
+      }
+      console.log('')
+    }
+
     // Show database info
     if (options.verbose) {
       console.log(prism.gray('Database Information:'))
@@ -142,6 +168,89 @@ async function showMigrationStatus(options: StatusOptions): Promise<void> {
   })
 }
 
+/**
+ * Show a status summary per tenant schema
+ */
+async function showTenantMigrationStatus(options: StatusOptions): Promise<void> {
+  await withDatabase({ config: options.config, verbose: options.verbose }, async (db, config) => {
+    const summary = await getTenantManager(db, config).forEachTenant(
+      async tenant => await createTenantMigrationRunner(db, config, tenant.schema).getMigrationStatus(),
+      { stopOnError: false }
+    )
+
+    const tenants = summary.results.map(r => {
+      const status = r.value ?? []
+      return {
+        tenant: r.tenant.id,
+        schema: r.tenant.schema,
+        executed: status.filter(m => m.status === 'executed').length,
+        pending: status.filter(m => m.status === 'pending').length,
+        drifted: status.filter(m => m.drift !== undefined).length,
+        error: r.error?.message ?? null
+      }
+    })
+
+    if (options.json) {
+      console.log(JSON.stringify({ tenants }, null, 2))
+      return
+    }
+
+    if (tenants.length === 0) {
+      console.log(prism.gray('No tenants found'))
+      return
+    }
+
+    console.log('')
+    console.log(prism.bold(`Migration Status (${tenants.length} tenants)`))
+    console.log('')
+
+    displayTable(
+      tenants.map(t => ({
+        ...t,
+        state: t.error
+          ? prism.red(`error: ${t.error}`)
+          : t.drifted > 0
+            ? prism.red('drifted')
+            : t.pending > 0
+              ? prism.yellow('pending')
+              : prism.green('up to date')
+      })),
+      {
+        columns: [
+          { key: 'tenant', header: 'Tenant' },
+          { key: 'schema', header: 'Schema' },
+          { key: 'executed', header: 'Executed' },
+          { key: 'pending', header: 'Pending' },
+          { key: 'drifted', header: 'Drifted' },
+          { key: 'state', header: 'Status' }
+        ]
+      }
+    )
+
+    const behind = tenants.filter(t => t.pending > 0).length
+    if (behind > 0) {
+      console.log('')
+      console.log(
+        prism.gray(`${behind} tenant(s) have pending migrations; run ${prism.cyan('kysera tenant migrate')}`)
+      )
+    }
+    console.log('')
+  })
+}
+
+function formatDrift(migration: MigrationStatus): string {
+  switch (migration.drift) {
+    case 'modified':
+      return prism.red(' [modified since applied]')
+    case 'missing':
+      return prism.red(' [file missing]')
+    case 'out-of-order':
+      return prism.yellow(' [out of order]')
+    default:
+      return ''
+  }
+}
+
 function formatDate(date: Date): string {
   return date.toLocaleString('en-US', {
     year: 'numeric',
@@ -11,6 +11,7 @@ export interface UpOptions {
   count?: number // Alias for steps
   dryRun?: boolean
   force?: boolean
+  allowDrift?: boolean
   verbose?: boolean
   config?: string
   schema?: string
@@ -24,6 +25,7 @@ export function upCommand(): Command {
     .option('--count <number>', 'Number of migrations to run (alias for --steps)', parseInt)
     .option('--dry-run', 'Preview migrations without executing')
     .option('--force', 'Force migration even if already executed')
+    .option('--allow-drift', 'Run even if executed migrations were modified or removed')
     .option('-v, --verbose', 'Show detailed output')
     .option('-c, --config <path>', 'Path to configuration file')
     .option('-s, --schema <name>', 'PostgreSQL schema name (default: public)')
@@ -82,7 +84,7 @@ async function runMigrationsUp(options: UpOptions): Promise<void> {
     try {
       if (!options.dryRun) {
         try {
-          releaseLock = await runner.acquireLock()
+          releaseLock = await runner.acquireLock(config.migrations?.lockTimeout)
         } catch (error: any) {
           if (error.code === 'MIGRATION_LOCKED') {
             throw new CLIError(
@@ -131,6 +133,7 @@ async function runMigrationsUp(options: UpOptions): Promise<void> {
         steps: options.steps || options.count, // Use count as alias for steps
         dryRun: options.dryRun,
         force: options.force,
+        allowDrift: options.allowDrift,
         verbose: options.verbose
       })
 
@@ -0,0 +1,11 @@
+import { Command } from 'commander'
+import { lintCommand } from './lint.js'
+
+export function rlsCommand(): Command {
+  const cmd = new Command('rls').description('Row-Level Security policy tools')
+
+  // Add subcommands
+  cmd.addCommand(lintCommand())
+
+  return cmd
+}
@@ -0,0 +1,211 @@
+import { resolve } from 'node:path'
+import { existsSync } from 'node:fs'
+import { Command } from 'commander'
+import { prism } from '@xec-sh/kit'
+import { TypeScriptLoader } from 'cosmiconfig-typescript-loader'
+import {
+  analyzeRLSSchema,
+  introspectRLSColumns,
+  type RLSAnalysisReport,
+  type RLSLintSeverity,
+  type RLSOperationEffect,
+  type RLSSchema
+} from '@kysera/rls'
+import { displayTable } from '../../utils/table-helper.js'
+import { CLIError } from '../../utils/errors.js'
+import { withDatabase } from '../../utils/with-database.js'
+import { loadConfig } from '../../config/loader.js'
+
+export interface LintOptions {
+  schema: string
+  export?: string
+  format?: 'table' | 'json'
+  strict?: boolean
+  introspect?: boolean
+  exclude?: string[]
+  config?: string
+}
+
+/** Export names tried when --export is not given */
+const SCHEMA_EXPORTS = ['default', 'rlsSchema', 'schema']
+
+export function lintCommand(): Command {
+  const cmd = new Command('lint')
+    .description('Check RLS policies for coverage gaps and mistakes')
+    .requiredOption('-s, --schema <path>', 'Module exporting the RLS schema')
+    .option(
+      '-e, --export <name>',
+      'Name of the schema export (default: default, rlsSchema or schema)'
+    )
+    .option('-f, --format <type>', 'Output format (table/json)', 'table')
+    .option('--strict', 'Exit with an error on warnings too')
+    .option('--no-introspect', 'Skip checks against the database tables and columns')
+    .option('-x, --exclude <tables...>', 'Tables to leave out of the analysis')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .action(async (options: LintOptions) => {
+      try {
+        await lintRLSSchema(options)
+      } catch (error) {
+        if (error instanceof CLIError) {
+          throw error
+        }
+        throw new CLIError(
+          `Failed to lint RLS schema: ${error instanceof Error ? error.message : String(error)}`,
+          'RLS_LINT_ERROR'
+        )
+      }
+    })
+
+  return cmd
+}
+
+async function lintRLSSchema(options: LintOptions): Promise<void> {
+  const schema = await loadRLSSchema(options.schema, options.export)
+  const excludeTables = [...(options.exclude ?? [])]
+
+  let columns: Record<string, string[]> | undefined
+  if (options.introspect !== false) {
+    columns = await withDatabase({ config: options.config }, async (db, config) => {
+      // Kysera bookkeeping tables and tables excluded from RLS are not expected in the schema
+      const migrationsTable = config.migrations?.tableName || 'kysera_migrations'
+      excludeTables.push(migrationsTable, `${migrationsTable}_lock`, 'migrations_lock')
+      excludeTables.push(...(config.plugins?.rls?.excludeTables ?? []))
+      return await introspectRLSColumns(db)
+    })
+  } else {
+    const config = await loadConfig(options.config)
+    excludeTables.push(...(config.plugins?.rls?.excludeTables ?? []))
+  }
+
+  const report = analyzeRLSSchema(schema, {
+    ...(columns !== undefined && { columns }),
+    excludeTables
+  })
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    displayReport(report)
+  }
+
+  const { errors, warnings } = report.summary
+  if (errors > 0 || (options.strict && warnings > 0)) {
+    throw new CLIError(
+      `RLS lint failed with ${errors} error(s) and ${warnings} warning(s)`,
+      'RLS_LINT_FAILED'
+    )
+  }
+}
+
+/**
+ * Load an RLS schema from a TypeScript or JavaScript module
+ */
+export async function loadRLSSchema(
+  path: string,
+  exportName?: string
+): Promise<RLSSchema<unknown>> {
+  const filePath = resolve(process.cwd(), path)
+
+  if (!existsSync(filePath)) {
+    throw new CLIError(`RLS schema module not found: ${path}`, 'FILE_NOT_FOUND')
+  }
+
+  const loaded = (await TypeScriptLoader()(filePath, '')) as Record<string, unknown>
+  const names = exportName ? [exportName] : SCHEMA_EXPORTS
+
+  // The loader unwraps default exports, so the module itself may be the schema
+  const candidates = [...names.map(name => loaded[name]), ...(exportName ? [] : [loaded])]
+  const schema = candidates.find(isRLSSchema)
+
+  if (!schema) {
+    throw new CLIError(`No RLS schema found in ${path}`, 'VALIDATION_ERROR', undefined, [
+      exportName
+        ? `Check that "${exportName}" is exported and created with defineRLSSchema()`
+        : 'Export the schema as default, rlsSchema or schema, or pass --export <name>'
+    ])
+  }
+
+  return schema
+}
+
+function isRLSSchema(value: unknown): value is RLSSchema<unknown> {
+  if (value === null || typeof value !== 'object') return false
+  const tables = Object.values(value)
+  return (
+    tables.length > 0 &&
+    tables.every(
+      t =>
+        t !== null && typeof t === 'object' && Array.isArray((t as { policies?: unknown }).policies)
+    )
+  )
+}
+
+const EFFECT_COLORS: Record<RLSOperationEffect, (s: string) => string> = {
+  filtered: s => prism.green(s),
+  guarded: s => prism.green(s),
+  denied: s => prism.yellow(s),
+  open: s => prism.red(s)
+}
+
+const SEVERITY_COLORS: Record<RLSLintSeverity, (s: string) => string> = {
+  error: s => prism.red(s),
+  warning: s => prism.yellow(s),
+  info: s => prism.gray(s)
+}
+
+function displayReport(report: RLSAnalysisReport): void {
+  console.log('')
+  console.log(prism.bold('RLS Policy Coverage'))
+  console.log('')
+
+  displayTable(
+    report.tables.map(t => ({
+      table: t.table,
+      read: EFFECT_COLORS[t.operations.read.effect](t.operations.read.effect),
+      create: EFFECT_COLORS[t.operations.create.effect](t.operations.create.effect),
+      update: EFFECT_COLORS[t.operations.update.effect](t.operations.update.effect),
+      delete: EFFECT_COLORS[t.operations.delete.effect](t.operations.delete.effect),
+      defaultDeny: t.defaultDeny ? 'yes' : prism.yellow('no')
+    })),
+    {
+      columns: [
+        { key: 'table', header: 'Table' },
+        { key: 'read', header: 'Read' },
+        { key: 'create', header: 'Create' },
+        { key: 'update', header: 'Update' },
+        { key: 'delete', header: 'Delete' },
+        { key: 'defaultDeny', header: 'Default Deny' }
+      ]
+    }
+  )
+
+  console.log('')
+
+  if (report.issues.length === 0) {
+    console.log(prism.green('No issues found'))
+    return
+  }
+
+  displayTable(
+    report.issues.map(i => ({
+      severity: SEVERITY_COLORS[i.severity](i.severity),
+      table: i.table,
+      rule: i.rule,
+      message: i.message
+    })),
+    {
+      columns: [
+        { key: 'severity', header: 'Severity' },
+        { key: 'table', header: 'Table' },
+        { key: 'rule', header: 'Rule' },
+        { key: 'message', header: 'Message' }
+      ]
+    }
+  )
+
+  const { errors, warnings, infos } = report.summary
+  console.log('')
+  console.log(
+    `${prism.red(`${errors} error(s)`)}, ${prism.yellow(`${warnings} warning(s)`)}, ${prism.gray(`${infos} info`)}`
+  )
+}
@@ -0,0 +1,78 @@
+import { Command } from 'commander'
+import { prism } from '@xec-sh/kit'
+import { spinner } from '../../utils/spinner.js'
+import { CLIError } from '../../utils/errors.js'
+import { withDatabase } from '../../utils/with-database.js'
+import { getTenantManager, migrateTenantSchema } from './manager.js'
+
+export interface CreateOptions {
+  migrate?: boolean
+  ifNotExists?: boolean
+  verbose?: boolean
+  config?: string
+}
+
+export function createCommand(): Command {
+  const cmd = new Command('create')
+    .description('Create a tenant schema and run migrations in it')
+    .argument('<id>', 'Tenant ID')
+    .option('--no-migrate', 'Create the schema without running migrations')
+    .option('--if-not-exists', 'Do not error if the tenant already exists')
+    .option('-v, --verbose', 'Show detailed output')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .action(async (id: string, options: CreateOptions) => {
+      try {
+        await createTenant(id, options)
+      } catch (error) {
+        if (error instanceof CLIError) {
+          throw error
+        }
+        throw new CLIError(
+          `Failed to create tenant: ${error instanceof Error ? error.message : String(error)}`,
+          'TENANT_CREATE_ERROR'
+        )
+      }
+    })
+
+  return cmd
+}
+
+async function createTenant(id: string, options: CreateOptions): Promise<void> {
+  await withDatabase({ config: options.config, verbose: options.verbose }, async (db, config) => {
+    const manager = getTenantManager(db, config)
+    const createSpinner = spinner()
+    createSpinner.start(`Creating tenant '${id}'...`)
+
+    let executed: string[] = []
+    let tenant
+    try {
+      tenant = await manager.create(id, {
+        ifNotExists: options.ifNotExists,
+        // A failed migration drops the new schema again
+        ...(options.migrate !== false && {
+          migrate: async t => {
+            executed = (await migrateTenantSchema(db, config, t.schema)).executed
+          }
+        })
+      })
+    } catch (error) {
+      createSpinner.fail(`Failed to create tenant '${id}'`)
+      throw error
+    }
+
+    if (!tenant) {
+      createSpinner.warn(`Tenant '${id}' already exists`)
+      return
+    }
+
+    createSpinner.succeed(`Tenant '${id}' created in schema '${tenant.schema}'`)
+
+    if (options.migrate === false) {
+      console.log(prism.gray(`Run migrations with: kysera tenant migrate --tenants ${id}`))
+    } else {
+      console.log(
+        prism.gray(`${executed.length} migration${executed.length !== 1 ? 's' : ''} applied`)
+      )
+    }
+  })
+}
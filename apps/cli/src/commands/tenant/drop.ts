@@ -0,0 +1,92 @@
+import { Command } from 'commander'
+import { prism, confirm } from '@xec-sh/kit'
+import { spinner } from '../../utils/spinner.js'
+import { CLIError } from '../../utils/errors.js'
+import { withDatabase } from '../../utils/with-database.js'
+import { getTenantManager } from './manager.js'
+
+export interface DropOptions {
+  ifExists?: boolean
+  force?: boolean
+  verbose?: boolean
+  config?: string
+}
+
+export function dropCommand(): Command {
+  const cmd = new Command('drop')
+    .description('Drop a tenant schema and all of its data')
+    .argument('<id>', 'Tenant ID')
+    .option('--if-exists', 'Do not error if the tenant does not exist')
+    .option('--force', 'Skip confirmation prompt')
+    .option('-v, --verbose', 'Show detailed output')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .action(async (id: string, options: DropOptions) => {
+      try {
+        await dropTenant(id, options)
+      } catch (error) {
+        if (error instanceof CLIError) {
+          throw error
+        }
+        throw new CLIError(
+          `Failed to drop tenant: ${error instanceof Error ? error.message : String(error)}`,
+          'TENANT_DROP_ERROR'
+        )
+      }
+    })
+
+  return cmd
+}
+
+async function dropTenant(id: string, options: DropOptions): Promise<void> {
+  await withDatabase({ config: options.config, verbose: options.verbose }, async (db, config) => {
+    const manager = getTenantManager(db, config)
+    const { schema } = manager.tenant(id)
+
+    if (!(await manager.exists(id))) {
+      if (options.ifExists) {
+        console.log(prism.yellow(`Tenant '${id}' does not exist`))
+        return
+      }
+      throw new CLIError(`Tenant '${id}' does not exist`, 'TENANT_NOT_FOUND', undefined, [
+        'Run kysera tenant list to see existing tenants'
+      ])
+    }
+
+    if (!options.force) {
+      if (process.env.NODE_ENV === 'test' || !process.stdin.isTTY) {
+        throw new CLIError(
+          'Tenant drop requires confirmation',
+          'DROP_REQUIRES_CONFIRMATION',
+          undefined,
+          ['Use --force flag to skip confirmation']
+        )
+      }
+
+      console.log('')
+      console.log(prism.red(`Warning: You are about to drop tenant '${id}'`))
+      console.log(prism.red(`  Schema '${schema}' and all of its tables and data will be dropped!`))
+      console.log('')
+
+      const confirmed = await confirm({
+        message: `Are you sure you want to drop tenant '${id}'?`,
+        initialValue: false
+      })
+
+      if (!confirmed) {
+        console.log(prism.gray('Tenant drop cancelled'))
+        return
+      }
+    }
+
+    const dropSpinner = spinner()
+    dropSpinner.start(`Dropping tenant '${id}'...`)
+
+    const dropped = await manager.drop(id, { ifExists: true })
+
+    if (dropped) {
+      dropSpinner.succeed(`Tenant '${id}' dropped (schema '${schema}')`)
+    } else {
+      dropSpinner.warn(`Tenant '${id}' does not exist`)
+    }
+  })
+}
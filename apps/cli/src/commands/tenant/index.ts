@@ -0,0 +1,17 @@
+import { Command } from 'commander'
+import { createCommand } from './create.js'
+import { listCommand } from './list.js'
+import { migrateCommand } from './migrate.js'
+import { dropCommand } from './drop.js'
+
+export function tenantCommand(): Command {
+  const cmd = new Command('tenant').description('Schema-per-tenant management (PostgreSQL)')
+
+  // Add subcommands
+  cmd.addCommand(createCommand())
+  cmd.addCommand(listCommand())
+  cmd.addCommand(migrateCommand())
+  cmd.addCommand(dropCommand())
+
+  return cmd
+}
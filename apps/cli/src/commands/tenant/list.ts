@@ -0,0 +1,65 @@
+import { Command } from 'commander'
+import { prism } from '@xec-sh/kit'
+import { CLIError } from '../../utils/errors.js'
+import { withDatabase } from '../../utils/with-database.js'
+import { displayTable } from '../../utils/table-helper.js'
+import { getTenantManager } from './manager.js'
+
+export interface ListOptions {
+  json?: boolean
+  verbose?: boolean
+  config?: string
+}
+
+export function listCommand(): Command {
+  const cmd = new Command('list')
+    .description('List tenants')
+    .option('--json', 'Output as JSON')
+    .option('-v, --verbose', 'Show detailed output')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .action(async (options: ListOptions) => {
+      try {
+        await listTenants(options)
+      } catch (error) {
+        if (error instanceof CLIError) {
+          throw error
+        }
+        throw new CLIError(
+          `Failed to list tenants: ${error instanceof Error ? error.message : String(error)}`,
+          'TENANT_LIST_ERROR'
+        )
+      }
+    })
+
+  return cmd
+}
+
+async function listTenants(options: ListOptions): Promise<void> {
+  await withDatabase({ config: options.config, verbose: options.verbose }, async (db, config) => {
+    const tenants = await getTenantManager(db, config).list()
+
+    if (options.json) {
+      console.log(JSON.stringify(tenants, null, 2))
+      return
+    }
+
+    if (tenants.length === 0) {
+      console.log(prism.gray('No tenants found'))
+      return
+    }
+
+    console.log('')
+    console.log(prism.bold(`Tenants (${tenants.length})`))
+    console.log('')
+    displayTable(tenants, {
+      columns: [
+        { key: 'id', header: 'Tenant' },
+        { key: 'schema', header: 'Schema' }
+      ]
+    })
+    console.log('')
+    console.log(
+      prism.gray(`Use ${prism.cyan('kysera migrate status --all-tenants')} for migration status`)
+    )
+  })
+}
@@ -0,0 +1,73 @@
+import { createTenantManager, type TenantManager } from '@kysera/dialects'
+import { CLIError } from '../../utils/errors.js'
+import type { KyseraConfigWithDatabase } from '../../utils/with-database.js'
+import type { DatabaseInstance } from '../../types/index.js'
+import { MigrationRunner } from '../migrate/runner.js'
+
+/**
+ * Create a tenant manager from the tenants configuration.
+ * Tenant schemas require PostgreSQL.
+ */
+export function getTenantManager(
+  db: DatabaseInstance,
+  config: KyseraConfigWithDatabase,
+  concurrency?: number
+): TenantManager {
+  if (config.database.dialect !== 'postgres') {
+    throw new CLIError(
+      'Tenant management is only available for PostgreSQL',
+      'UNSUPPORTED_DIALECT',
+      undefined,
+      ['Schema-per-tenant databases use one PostgreSQL schema per tenant']
+    )
+  }
+
+  return createTenantManager(db, {
+    prefix: config.tenants?.prefix ?? 'tenant_',
+    concurrency: concurrency ?? config.tenants?.concurrency ?? 4
+  })
+}
+
+/**
+ * Create a migration runner for a tenant schema
+ */
+export function createTenantMigrationRunner(
+  db: DatabaseInstance,
+  config: KyseraConfigWithDatabase,
+  schema: string
+): MigrationRunner {
+  const migrationsDir = config.migrations?.directory || './migrations'
+  const tableName = config.migrations?.tableName || 'kysera_migrations'
+  return new MigrationRunner(db, migrationsDir, tableName, schema)
+}
+
+/**
+ * Run pending migrations in a tenant schema.
+ * Every tenant schema has its own migration table and lock, so tenants migrate in parallel.
+ * In dry-run mode, `executed` lists the migrations that would run.
+ */
+export async function migrateTenantSchema(
+  db: DatabaseInstance,
+  config: KyseraConfigWithDatabase,
+  schema: string,
+  options: { dryRun?: boolean; allowDrift?: boolean } = {}
+): Promise<{ executed: string[]; duration: number }> {
+  const runner = createTenantMigrationRunner(db, config, schema)
+
+  if (options.dryRun) {
+    const startTime = Date.now()
+    await runner.up({ dryRun: true, allowDrift: options.allowDrift })
+    const status = await runner.getMigrationStatus()
+    return {
+      executed: status.filter(m => m.status === 'pending').map(m => m.name),
+      duration: Date.now() - startTime
+    }
+  }
+
+  const releaseLock = await runner.acquireLock(config.migrations?.lockTimeout)
+  try {
+    return await runner.up({ allowDrift: options.allowDrift })
+  } finally {
+    await releaseLock()
+  }
+}
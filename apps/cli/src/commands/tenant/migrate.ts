@@ -0,0 +1,134 @@
+import { Command } from 'commander'
+import { prism } from '@xec-sh/kit'
+import type { TenantRunResult } from '@kysera/dialects'
+import { CLIError } from '../../utils/errors.js'
+import { withDatabase } from '../../utils/with-database.js'
+import { getTenantManager, migrateTenantSchema } from './manager.js'
+
+export interface MigrateOptions {
+  tenants?: string[]
+  concurrency?: number
+  continueOnError?: boolean
+  dryRun?: boolean
+  allowDrift?: boolean
+  json?: boolean
+  verbose?: boolean
+  config?: string
+}
+
+interface TenantMigration {
+  executed: string[]
+  duration: number
+}
+
+export function migrateCommand(): Command {
+  const cmd = new Command('migrate')
+    .description('Run pending migrations in every tenant schema')
+    .option('-t, --tenants <ids...>', 'Only migrate these tenants')
+    .option('--concurrency <number>', 'Number of tenants migrated at once', parseInt)
+    .option('--continue-on-error', 'Keep migrating other tenants after a failure')
+    .option('--dry-run', 'Show what would be executed without running')
+    .option('--allow-drift', 'Run even if applied migrations were modified or removed')
+    .option('--json', 'Output as JSON')
+    .option('-v, --verbose', 'Show detailed output')
+    .option('-c, --config <path>', 'Path to configuration file')
+    .action(async (options: MigrateOptions) => {
+      try {
+        await migrateTenants(options)
+      } catch (error) {
+        if (error instanceof CLIError) {
+          throw error
+        }
+        throw new CLIError(
+          `Failed to migrate tenants: ${error instanceof Error ? error.message : String(error)}`,
+          'TENANT_MIGRATE_ERROR'
+        )
+      }
+    })
+
+  return cmd
+}
+
+async function migrateTenants(options: MigrateOptions): Promise<void> {
+  await withDatabase({ config: options.config, verbose: options.verbose }, async (db, config) => {
+    const manager = getTenantManager(db, config, options.concurrency)
+
+    const summary = await manager.forEachTenant<TenantMigration>(
+      async tenant =>
+        await migrateTenantSchema(db, config, tenant.schema, {
+          dryRun: options.dryRun,
+          allowDrift: options.allowDrift
+        }),
+      {
+        ...(options.tenants && { tenants: options.tenants }),
+        stopOnError: !options.continueOnError,
+        ...(!options.json && { onResult: result => printResult(result, options.dryRun) })
+      }
+    )
+
+    const total = summary.results.length
+
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          {
+            tenants: summary.results.map(r => ({
+              tenant: r.tenant.id,
+              schema: r.tenant.schema,
+              status: r.status,
+              executed: r.value?.executed ?? [],
+              error: r.error?.message ?? null,
+              duration: r.duration
+            })),
+            succeeded: summary.succeeded,
+            failed: summary.failed,
+            skipped: summary.skipped,
+            duration: summary.duration,
+            dryRun: options.dryRun ?? false
+          },
+          null,
+          2
+        )
+      )
+    } else if (total === 0) {
+      console.log(prism.gray('No tenants found'))
+    } else {
+      for (const result of summary.results.filter(r => r.status === 'skipped')) {
+        console.log(`  ${prism.gray('-')} ${result.tenant.id} ${prism.gray('(skipped)')}`)
+      }
+      console.log('')
+      console.log(
+        `${prism.green(`${summary.succeeded} succeeded`)}, ${prism.red(`${summary.failed} failed`)}, ` +
+          `${prism.gray(`${summary.skipped} skipped`)} (${summary.duration}ms)`
+      )
+    }
+
+    if (summary.failed > 0) {
+      throw new CLIError(
+        `Migrations failed for ${summary.failed} of ${total} tenant(s)`,
+        'TENANT_MIGRATION_FAILED',
+        undefined,
+        summary.skipped > 0
+          ? ['Use --continue-on-error to migrate the remaining tenants after a failure']
+          : []
+      )
+    }
+  })
+}
+
+function printResult(result: TenantRunResult<TenantMigration>, dryRun?: boolean): void {
+  if (result.status === 'failed') {
+    console.log(
+      `  ${prism.red('✗')} ${result.tenant.id} ${prism.red(result.error?.message ?? 'failed')}`
+    )
+    return
+  }
+
+  const count = result.value?.executed.length ?? 0
+  const migrations = `${count} migration${count !== 1 ? 's' : ''}`
+  const applied =
+    count === 0 ? 'up to date' : dryRun ? `${migrations} to apply` : `${migrations} applied`
+  console.log(
+    `  ${prism.green('✓')} ${result.tenant.id} ${prism.gray(`${applied} (${result.duration}ms)`)}`
+  )
+}
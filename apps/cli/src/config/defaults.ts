@@ -72,6 +72,11 @@ export const defaultConfig: KyseraConfig = {
       slowQueryThreshold: 100,
       includeParams: false
     }
+  },
+
+  tenants: {
+    prefix: 'tenant_',
+    concurrency: 4
   }
 }
 
@@ -133,6 +138,10 @@ export function mergeConfig(
         ...defaults.logging?.queries,
         ...userConfig.logging?.queries
       } as NonNullable<KyseraConfig['logging']>['queries']
-    } as KyseraConfig['logging']
+    } as KyseraConfig['logging'],
+    tenants: {
+      ...defaults.tenants,
+      ...userConfig.tenants
+    } as KyseraConfig['tenants']
   }
 }
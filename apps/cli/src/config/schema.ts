@@ -2,6 +2,7 @@ import { z } from 'zod'
 import { AuditOptionsSchema } from '@kysera/audit/schema'
 import { SoftDeleteOptionsSchema } from '@kysera/soft-delete/schema'
 import { TimestampsOptionsSchema } from '@kysera/timestamps/schema'
+import { EncryptionOptionsSchema } from '@kysera/encryption/schema'
 
 // Database connection schema
 const DatabaseConnectionObjectSchema = z.object({
@@ -101,6 +102,15 @@ const TimestampsPluginSchema = TimestampsOptionsSchema.extend({
   tables: z.array(z.string()).default(['*']).optional()
 })
 
+/**
+ * Encryption plugin schema - imported from @kysera/encryption
+ * Extends the base EncryptionOptionsSchema with CLI-specific 'enabled' flag.
+ * Read key secrets from the environment in kysera.config.ts rather than committing them.
+ */
+const EncryptionPluginSchema = EncryptionOptionsSchema.extend({
+  enabled: z.boolean().default(false)
+})
+
 /**
  * RLS (Row-Level Security) plugin schema
  *
@@ -138,6 +148,7 @@ const PluginsConfigSchema = z.object({
   audit: AuditPluginSchema.optional(),
   softDelete: SoftDeletePluginSchema.optional(),
   timestamps: TimestampsPluginSchema.optional(),
+  encryption: EncryptionPluginSchema.optional(),
   rls: RLSPluginSchema.optional()
 })
 
@@ -225,6 +236,14 @@ const LoggingConfigSchema = z.object({
     .optional()
 })
 
+// Schema-per-tenant configuration schema
+const TenantsConfigSchema = z.object({
+  /** Prefix of tenant schema names */
+  prefix: z.string().default('tenant_'),
+  /** Number of tenant schemas migrated at once */
+  concurrency: z.number().int().min(1).default(4)
+})
+
 // Main configuration schema
 export const KyseraConfigSchema = z.object({
   database: DatabaseConfigSchema.optional(),
@@ -233,7 +252,8 @@ export const KyseraConfigSchema = z.object({
   generate: GenerateConfigSchema.optional(),
   health: HealthConfigSchema.optional(),
   testing: TestingConfigSchema.optional(),
-  logging: LoggingConfigSchema.optional()
+  logging: LoggingConfigSchema.optional(),
+  tenants: TenantsConfigSchema.optional()
 })
 
 // Export individual schemas for reuse
@@ -246,6 +266,7 @@ export {
   HealthConfigSchema,
   TestingConfigSchema,
   LoggingConfigSchema,
+  TenantsConfigSchema,
   CodeStyleSchema
 }
 
@@ -258,3 +279,4 @@ export type GenerateConfig = z.infer<typeof GenerateConfigSchema>
 export type HealthConfig = z.infer<typeof HealthConfigSchema>
 export type TestingConfig = z.infer<typeof TestingConfigSchema>
 export type LoggingConfig = z.infer<typeof LoggingConfigSchema>
+export type TenantsConfig = z.infer<typeof TenantsConfigSchema>
@@ -385,7 +385,7 @@ function parseMysqlConnection(
 /**
  * Detect dialect from connection string
  */
-function detectDialect(connection: string | Record<string, unknown>): DatabaseDialect {
+export function detectDialect(connection: string | Record<string, unknown>): DatabaseDialect {
   if (typeof connection === 'string') {
     if (connection.startsWith('postgres://') || connection.startsWith('postgresql://')) {
       return 'postgres'
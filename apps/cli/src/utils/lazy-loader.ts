@@ -366,6 +366,14 @@ export function createCommandLoaders(): Map<string, LazyCommand> {
         loader: async () => (await import('../commands/plugin/index.js')).pluginCommand()
       }
     ],
+    [
+      'rls',
+      {
+        name: 'rls',
+        description: 'Row-Level Security policy tools',
+        loader: async () => (await import('../commands/rls/index.js')).rlsCommand()
+      }
+    ],
     [
       'schema',
       {
@@ -373,6 +381,14 @@ export function createCommandLoaders(): Map<string, LazyCommand> {
         description: 'PostgreSQL schema management',
         loader: async () => (await import('../commands/schema/index.js')).schemaCommand()
       }
+    ],
+    [
+      'tenant',
+      {
+        name: 'tenant',
+        description: 'Schema-per-tenant management',
+        loader: async () => (await import('../commands/tenant/index.js')).tenantCommand()
+      }
     ]
   ])
 }
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest'
+import { Kysely, SqliteDialect } from 'kysely'
+import Database from 'better-sqlite3'
+import { ColumnCipher } from '@kysera/encryption'
+
+vi.mock('../../../../src/utils/with-database.js', () => ({
+  withDatabase: vi.fn()
+}))
+
+vi.mock('@xec-sh/kit', () => ({
+  prism: {
+    cyan: (s: string) => s,
+    green: (s: string) => s,
+    yellow: (s: string) => s,
+    gray: (s: string) => s,
+    red: (s: string) => s,
+    bold: (s: string) => s
+  },
+  table: vi.fn(),
+  log: { success: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  spinner: vi.fn(() => ({ start: vi.fn(), stop: vi.fn(), message: vi.fn() }))
+}))
+
+import { table } from '@xec-sh/kit'
+import { withDatabase } from '../../../../src/utils/with-database.js'
+import { reencryptCommand } from '../../../../src/commands/db/reencrypt.js'
+
+const OLD_KEY = 'old-secret-key-with-at-least-32-characters'
+const NEW_KEY = 'new-secret-key-with-at-least-32-characters'
+
+describe('db reencrypt', () => {
+  let db: Kysely<any>
+  let config: any
+  let consoleSpy: Mock
+
+  const run = async (...args: string[]): Promise<void> => {
+    await reencryptCommand().parseAsync(['node', 'reencrypt', ...args])
+  }
+
+  const output = (): string => consoleSpy.mock.calls.map(call => call.join(' ')).join('\n')
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    db = new Kysely<any>({ dialect: new SqliteDialect({ database: new Database(':memory:') }) })
+    await db.schema
+      .createTable('users')
+      .addColumn('id', 'integer', col => col.primaryKey())
+      .addColumn('email', 'text')
+      .addColumn('ssn', 'text')
+      .execute()
+
+    const oldCipher = new ColumnCipher({ keys: { k1: OLD_KEY }, activeKeyId: 'k1' })
+    for (let id = 1; id <= 5; id++) {
+      await db
+        .insertInto('users')
+        .values({
+          id,
+          email: oldCipher.encrypt(`user${id}@example.com`, { deterministic: true }),
+          ssn: id === 5 ? null : oldCipher.encrypt(`ssn-${id}`)
+        })
+        .execute()
+    }
+
+    config = {
+      database: { dialect: 'sqlite', connection: ':memory:' },
+      plugins: {
+        encryption: {
+          enabled: true,
+          keys: { k1: OLD_KEY, k2: NEW_KEY },
+          activeKeyId: 'k2',
+          tables: { users: { ssn: true, email: { deterministic: true } } }
+        }
+      }
+    }
+    ;(withDatabase as Mock).mockImplementation(
+      async (_options, handler) => await handler(db, config, 'public')
+    )
+
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {}) as unknown as Mock
+  })
+
+  afterEach(async () => {
+    consoleSpy.mockRestore()
+    await db.destroy()
+  })
+
+  it('should re-encrypt every configured table in batches', async () => {
+    await run('--batch-size', '2', '--json')
+
+    expect(JSON.parse(output())).toMatchObject({
+      activeKeyId: 'k2',
+      dryRun: false,
+      tables: [{ table: 'users', scanned: 5, updated: 5, batches: 3 }]
+    })
+
+    const cipher = new ColumnCipher({ keys: { k2: NEW_KEY }, activeKeyId: 'k2' })
+    const rows = await db.selectFrom('users').selectAll().orderBy('id').execute()
+    expect(rows.map(row => cipher.decrypt(row.email))).toEqual([
+      'user1@example.com',
+      'user2@example.com',
+      'user3@example.com',
+      'user4@example.com',
+      'user5@example.com'
+    ])
+    expect(rows[0].email).toBe(cipher.encrypt('user1@example.com', { deterministic: true }))
+    expect(rows[4].ssn).toBeNull()
+  })
+
+  it('should only count rows in dry-run mode', async () => {
+    const before = await db.selectFrom('users').selectAll().execute()
+
+    await run('--dry-run')
+
+    expect(await db.selectFrom('users').selectAll().execute()).toEqual(before)
+    expect(table).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: [expect.objectContaining({ table: 'users', scanned: 5, updated: 5 })]
+      })
+    )
+    expect(output()).toContain('Run without --dry-run to re-encrypt these rows')
+  })
+
+  it('should require an encryption configuration', async () => {
+    delete config.plugins
+
+    await expect(run()).rejects.toThrow('No encrypted columns configured')
+  })
+
+  it('should reject tables without encrypted columns', async () => {
+    await expect(run('--tables', 'orders')).rejects.toThrow(
+      'Failed to re-encrypt columns: No encrypted columns configured for table(s): orders'
+    )
+  })
+})
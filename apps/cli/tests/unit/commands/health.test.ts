@@ -382,6 +382,12 @@ describe('health metrics command', () => {
       expect(opt).toBeDefined()
       expect(opt?.defaultValue).toBe('1h')
     })
+
+    it('should have format option with default', () => {
+      const opt = command.options.find(o => o.long === '--format')
+      expect(opt).toBeDefined()
+      expect(opt?.defaultValue).toBe('table')
+    })
   })
 
   describe('metrics display', () => {
@@ -474,6 +480,50 @@ describe('health metrics command', () => {
       expect(() => JSON.parse(logOutput)).not.toThrow()
     })
 
+    it('should output JSON when --format json is set', async () => {
+      await command.parseAsync(['node', 'test', '--format', 'json'])
+
+      const logOutput = consoleSpy.log.mock.calls.map(c => c.join(' ')).join('\n')
+      expect(JSON.parse(logOutput)).toEqual(mockMetricsResult)
+    })
+
+    it('should output Prometheus text format when --format prometheus is set', async () => {
+      ;(performHealthCheck as Mock).mockResolvedValue({
+        ...mockHealthResult,
+        metrics: { checkLatency: 12 }
+      })
+
+      await command.parseAsync(['node', 'test', '--format', 'prometheus'])
+
+      expect(getMetrics).not.toHaveBeenCalled()
+      expect(performHealthCheck).toHaveBeenCalledWith(mockDb)
+      const logOutput = consoleSpy.log.mock.calls.map(c => c.join(' ')).join('\n')
+      expect(logOutput).toContain('# TYPE kysera_health_check_latency_seconds gauge')
+      expect(logOutput).toContain('kysera_health_check_latency_seconds 0.012')
+      expect(logOutput).toContain('kysera_health_status{status="healthy"} 1')
+      expect(logOutput).not.toContain('kysera_queries_total')
+      expect(mockDb.destroy).toHaveBeenCalled()
+    })
+
+    it('should include queries recorded by a debug-enabled database in Prometheus output', async () => {
+      ;(performHealthCheck as Mock).mockResolvedValue(mockHealthResult)
+      ;(getDatabaseConnection as Mock).mockResolvedValue({
+        ...mockDb,
+        getMetrics: () => [
+          { sql: 'select * from "users"', duration: 20, timestamp: 0 },
+          { sql: 'select * from "users" where "id" = $1', duration: 5, timestamp: 0 }
+        ]
+      })
+
+      await command.parseAsync(['node', 'test', '--format', 'prometheus'])
+
+      const logOutput = consoleSpy.log.mock.calls.map(c => c.join(' ')).join('\n')
+      expect(logOutput).toContain('kysera_queries_total{table="users",operation="select"} 2')
+      expect(logOutput).toContain(
+        'kysera_query_duration_seconds_sum{table="users",operation="select"} 0.025'
+      )
+    })
+
     it('should use specified period', async () => {
       await command.parseAsync(['node', 'test', '--period', '24h'])
 
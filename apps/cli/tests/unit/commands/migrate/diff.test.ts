@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { Kysely, SqliteDialect, sql } from 'kysely'
+import Database from 'better-sqlite3'
+import { DatabaseIntrospector, type TableInfo } from '../../../../src/commands/generate/introspector.js'
+import {
+  diffSchemas,
+  isSchemaDiffEmpty,
+  renderDiffMigration
+} from '../../../../src/commands/migrate/schema-diff.js'
+
+describe('migrate diff', () => {
+  let fromDb: Kysely<any>
+  let toDb: Kysely<any>
+
+  const createDb = (): Kysely<any> =>
+    new Kysely({ dialect: new SqliteDialect({ database: new Database(':memory:') }) })
+
+  const introspect = (db: Kysely<any>): Promise<TableInfo[]> =>
+    new DatabaseIntrospector(db, 'sqlite').introspect()
+
+  const createUsers = async (db: Kysely<any>): Promise<void> => {
+    await db.schema
+      .createTable('users')
+      .addColumn('id', 'integer', col => col.primaryKey())
+      .addColumn('email', 'varchar(255)', col => col.notNull())
+      .addColumn('status', 'text', col => col.notNull().defaultTo('active'))
+      .execute()
+  }
+
+  beforeEach(() => {
+    fromDb = createDb()
+    toDb = createDb()
+  })
+
+  afterEach(async () => {
+    await fromDb.destroy()
+    await toDb.destroy()
+  })
+
+  describe('diffSchemas', () => {
+    it('should report no differences for identical schemas', async () => {
+      await createUsers(fromDb)
+      await createUsers(toDb)
+
+      const diff = diffSchemas(await introspect(fromDb), await introspect(toDb))
+
+      expect(isSchemaDiffEmpty(diff)).toBe(true)
+    })
+
+    it('should order added tables after the tables they reference', async () => {
+      await toDb.schema
+        .createTable('posts')
+        .addColumn('id', 'integer', col => col.primaryKey())
+        .addColumn('user_id', 'integer', col => col.references('users.id'))
+        .execute()
+      await createUsers(toDb)
+
+      const diff = diffSchemas(await introspect(fromDb), await introspect(toDb))
+
+      expect(diff.addedTables.map(t => t.name)).toEqual(['users', 'posts'])
+      expect(diff.droppedTables).toEqual([])
+    })
+
+    it('should detect column, default and index changes', async () => {
+      await createUsers(fromDb)
+      await fromDb.schema.alterTable('users').addColumn('legacy', 'text').execute()
+      await fromDb.schema.createIndex('users_legacy_index').on('users').column('legacy').execute()
+
+      await toDb.schema
+        .createTable('users')
+        .addColumn('id', 'integer', col => col.primaryKey())
+        .addColumn('email', 'varchar(255)', col => col.notNull().unique())
+        .addColumn('status', 'text', col => col.notNull().defaultTo('pending'))
+        .addColumn('bio', 'text')
+        .execute()
+
+      const diff = diffSchemas(await introspect(fromDb), await introspect(toDb))
+
+      expect(diff.alteredTables).toHaveLength(1)
+      const [users] = diff.alteredTables
+      expect(users!.addedColumns.map(c => c.name)).toEqual(['bio'])
+      expect(users!.droppedColumns.map(c => c.name)).toEqual(['legacy'])
+      expect(users!.changedDefaults).toEqual([
+        { column: 'status', from: "'active'", to: "'pending'" }
+      ])
+      expect(users!.addedIndexes.map(i => i.columns)).toEqual([['email']])
+      expect(users!.droppedIndexes.map(i => i.name)).toEqual(['users_legacy_index'])
+    })
+  })
+
+  describe('renderDiffMigration', () => {
+    it('should render a migration that turns one schema into the other and back', async () => {
+      await createUsers(fromDb)
+      await fromDb.schema.createTable('sessions').addColumn('id', 'integer').execute()
+
+      await createUsers(toDb)
+      await toDb.schema.alterTable('users').addColumn('bio', 'text').execute()
+      await toDb.schema.createIndex('users_email_index').on('users').column('email').execute()
+      await toDb.schema
+        .createTable('posts')
+        .addColumn('id', 'integer', col => col.primaryKey())
+        .addColumn('user_id', 'integer', col => col.notNull().references('users.id'))
+        .addColumn('created_at', 'text', col => col.defaultTo(sql`CURRENT_TIMESTAMP`))
+        .execute()
+
+      const from = await introspect(fromDb)
+      const to = await introspect(toDb)
+      const content = renderDiffMigration(diffSchemas(from, to), diffSchemas(to, from), 'sqlite')
+
+      expect(content).toContain("import { Kysely, sql } from 'kysely'")
+      expect(content).toContain(".createTable('posts')")
+      expect(content).toContain(
+        ".addColumn('user_id', 'integer', (col) => col.notNull().references('users.id'))"
+      )
+      expect(content).toContain(".addColumn('created_at', 'text', (col) => col.defaultTo(sql`CURRENT_TIMESTAMP`))")
+      expect(content).toContain("await db.schema.dropTable('sessions').execute()")
+      expect(content).toContain("await db.schema.dropIndex('users_email_index').execute()")
+
+      // Apply the generated migration to the old schema and compare with the new one
+      const migration = compileMigration(content)
+      await migration.up(fromDb)
+      expect(isSchemaDiffEmpty(diffSchemas(await introspect(fromDb), to))).toBe(true)
+
+      await migration.down(fromDb)
+      expect(isSchemaDiffEmpty(diffSchemas(await introspect(fromDb), from))).toBe(true)
+    })
+
+    it('should map PostgreSQL types and render foreign key constraints', () => {
+      const users: TableInfo = {
+        name: 'users',
+        columns: [
+          {
+            name: 'id',
+            dataType: 'integer',
+            isNullable: false,
+            isPrimaryKey: true,
+            isForeignKey: false,
+            isAutoIncrement: true,
+            defaultValue: "nextval('users_id_seq'::regclass)"
+          },
+          {
+            name: 'name',
+            dataType: 'character varying',
+            isNullable: false,
+            isPrimaryKey: false,
+            isForeignKey: false,
+            maxLength: 100
+          }
+        ],
+        indexes: [{ name: 'users_pkey', columns: ['id'], isUnique: true, isPrimary: true }],
+        primaryKey: ['id']
+      }
+      const posts: TableInfo = {
+        name: 'posts',
+        columns: [
+          {
+            name: 'author_id',
+            dataType: 'integer',
+            isNullable: true,
+            isPrimaryKey: false,
+            isForeignKey: false
+          }
+        ],
+        indexes: []
+      }
+      const postsWithAuthor: TableInfo = {
+        ...posts,
+        foreignKeys: [
+          {
+            name: 'posts_author_fk',
+            column: 'author_id',
+            referencedTable: 'users',
+            referencedColumn: 'id'
+          }
+        ]
+      }
+
+      const from = [posts]
+      const to = [users, postsWithAuthor]
+      const content = renderDiffMigration(diffSchemas(from, to), diffSchemas(to, from), 'postgres')
+
+      expect(content).toContain(".addColumn('id', 'serial', (col) => col.primaryKey())")
+      expect(content).toContain(".addColumn('name', 'varchar(100)', (col) => col.notNull())")
+      expect(content).toContain(
+        ".addForeignKeyConstraint('posts_author_fk', ['author_id'], 'users', ['id'])"
+      )
+      expect(content).toContain(
+        "await db.schema.alterTable('posts').dropConstraint('posts_author_fk').execute()"
+      )
+      expect(content.indexOf(".createTable('users')")).toBeLessThan(
+        content.indexOf('addForeignKeyConstraint')
+      )
+    })
+  })
+})
+
+/**
+ * Evaluate a generated migration file against the real kysely `sql` tag
+ */
+function compileMigration(content: string): {
+  up: (db: Kysely<any>) => Promise<void>
+  down: (db: Kysely<any>) => Promise<void>
+} {
+  const body = content
+    .replace(/^import .*$/m, '')
+    .replace(/export async function (\w+)\(db: Kysely<any>\): Promise<void>/g, 'async function $1(db)')
+  // eslint-disable-next-line @typescript-eslint/no-implied-eval
+  return new Function('sql', `${body}\nreturn { up, down }`)(sql)
+}
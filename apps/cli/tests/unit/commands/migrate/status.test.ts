@@ -17,6 +17,21 @@ vi.mock('../../../../src/commands/migrate/runner.js', () => ({
   })
 }))
 
+const tenantSchemas = vi.hoisted(() => ['public', 'tenant_acme', 'tenant_globex'])
+
+vi.mock('@kysera/dialects', async importOriginal => {
+  const actual = await importOriginal<typeof import('@kysera/dialects')>()
+  return {
+    ...actual,
+    createTenantManager: (db: any, options: any) =>
+      actual.createTenantManager(db, {
+        ...options,
+        // Only listing tenants is needed here
+        adapter: { getSchemas: async () => tenantSchemas } as any
+      })
+  }
+})
+
 vi.mock('@xec-sh/kit', () => ({
   log: {
     message: vi.fn(),
@@ -245,6 +260,66 @@ describe('migrate status command', () => {
     })
   })
 
+  describe('all tenants', () => {
+    beforeEach(() => {
+      mockDb.withSchema = vi.fn().mockReturnValue(mockDb)
+      ;(MigrationRunner as unknown as Mock).mockImplementation(function (
+        this: any,
+        _db: unknown,
+        _dir: string,
+        _table: string,
+        schema: string
+      ) {
+        this.getMigrationStatus = vi.fn(async () => {
+          if (schema === 'tenant_globex') throw new Error('permission denied')
+          return [
+            { name: 'migration1', status: 'executed', timestamp: '20231201120000' },
+            { name: 'migration2', status: 'pending', timestamp: '20231201130000' }
+          ]
+        })
+        return this
+      })
+    })
+
+    it('should report migration status per tenant schema', async () => {
+      await command.parseAsync(['node', 'test', '--all-tenants', '--json'])
+
+      const output = JSON.parse(consoleSpy.log.mock.calls[0][0])
+      expect(output.tenants).toEqual([
+        {
+          tenant: 'acme',
+          schema: 'tenant_acme',
+          executed: 1,
+          pending: 1,
+          drifted: 0,
+          error: null
+        },
+        {
+          tenant: 'globex',
+          schema: 'tenant_globex',
+          executed: 0,
+          pending: 0,
+          drifted: 0,
+          error: 'permission denied'
+        }
+      ])
+      expect(MigrationRunner).toHaveBeenCalledWith(
+        mockDb,
+        './migrations',
+        'kysera_migrations',
+        'tenant_acme'
+      )
+    })
+
+    it('should render a table of tenants', async () => {
+      await command.parseAsync(['node', 'test', '--all-tenants'])
+
+      const output = consoleSpy.log.mock.calls.map(c => c.join(' ')).join('\n')
+      expect(output).toContain('Migration Status (2 tenants)')
+      expect(output).toContain('1 tenant(s) have pending migrations')
+    })
+  })
+
   describe('error handling', () => {
     it('should throw error when database config is not found', async () => {
       ;(loadConfig as Mock).mockResolvedValue(null)
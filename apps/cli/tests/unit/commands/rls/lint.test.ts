@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Kysely, SqliteDialect } from 'kysely'
+import Database from 'better-sqlite3'
+
+vi.mock('@xec-sh/kit', () => ({
+  prism: {
+    cyan: (s: string) => s,
+    green: (s: string) => s,
+    yellow: (s: string) => s,
+    gray: (s: string) => s,
+    red: (s: string) => s,
+    bold: (s: string) => s
+  },
+  table: vi.fn()
+}))
+
+vi.mock('../../../../src/config/loader.js', () => ({
+  loadConfig: vi.fn()
+}))
+
+vi.mock('../../../../src/utils/with-database.js', () => ({
+  withDatabase: vi.fn()
+}))
+
+import { table } from '@xec-sh/kit'
+import { lintCommand, loadRLSSchema } from '../../../../src/commands/rls/lint.js'
+import { loadConfig } from '../../../../src/config/loader.js'
+import { withDatabase } from '../../../../src/utils/with-database.js'
+import { CLIError } from '../../../../src/utils/errors.js'
+
+const SCHEMA_SOURCE = `
+const ownPosts = (ctx: { auth: { userId: string }, row: any }) => ctx.row.author_id === ctx.auth.userId
+
+export const rlsSchema = {
+  posts: {
+    policies: [
+      { type: 'filter', operation: 'read', condition: (ctx: any) => ({ tenant_id: ctx.auth.tenantId }) },
+      { type: 'allow', operation: ['update', 'delete'], condition: ownPosts, name: 'own-posts' }
+    ]
+  }
+}
+`
+
+describe('rls lint command', () => {
+  let dir: string
+  let db: Kysely<any>
+  let consoleSpy: Mock
+
+  const run = async (...args: string[]): Promise<void> => {
+    await lintCommand().parseAsync(['node', 'lint', ...args])
+  }
+
+  const output = (): string => consoleSpy.mock.calls.map(call => call.join(' ')).join('\n')
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    dir = mkdtempSync(join(tmpdir(), 'kysera-rls-lint-'))
+    writeFileSync(join(dir, 'schema.ts'), SCHEMA_SOURCE)
+
+    db = new Kysely<any>({ dialect: new SqliteDialect({ database: new Database(':memory:') }) })
+    await db.schema
+      .createTable('posts')
+      .addColumn('id', 'integer', col => col.primaryKey())
+      .addColumn('tenant_id', 'text')
+      .addColumn('author_id', 'text')
+      .execute()
+    await db.schema.createTable('migrations').addColumn('name', 'text').execute()
+
+    const config = { migrations: { tableName: 'migrations' }, plugins: {} }
+    ;(loadConfig as Mock).mockResolvedValue(config)
+    ;(withDatabase as Mock).mockImplementation(
+      async (_options, handler) => await handler(db, config, 'public')
+    )
+
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {}) as unknown as Mock
+  })
+
+  afterEach(async () => {
+    consoleSpy.mockRestore()
+    rmSync(dir, { recursive: true, force: true })
+    await db.destroy()
+  })
+
+  describe('loadRLSSchema', () => {
+    it('should load a named schema export from a TypeScript module', async () => {
+      const schema = await loadRLSSchema(join(dir, 'schema.ts'))
+
+      expect(Object.keys(schema)).toEqual(['posts'])
+    })
+
+    it('should fail for missing modules and exports', async () => {
+      await expect(loadRLSSchema(join(dir, 'missing.ts'))).rejects.toThrow(
+        'RLS schema module not found'
+      )
+      await expect(loadRLSSchema(join(dir, 'schema.ts'), 'other')).rejects.toThrow(CLIError)
+    })
+  })
+
+  it('should print coverage and issues as JSON', async () => {
+    await run('--schema', join(dir, 'schema.ts'), '--format', 'json')
+
+    const report = JSON.parse(output())
+    expect(report.tables[0].operations.update.effect).toBe('guarded')
+    expect(report.issues).toEqual([
+      expect.objectContaining({ rule: 'missing-policy', operation: 'create', severity: 'info' })
+    ])
+    // Migration bookkeeping tables are not reported as uncovered
+    expect(report.summary).toEqual({ tables: 1, errors: 0, warnings: 0, infos: 1 })
+  })
+
+  it('should render tables', async () => {
+    await run('--schema', join(dir, 'schema.ts'))
+
+    expect(table).toHaveBeenCalledTimes(2)
+    expect(output()).toContain('0 error(s), 0 warning(s), 1 info')
+  })
+
+  it('should fail on errors', async () => {
+    await db.schema.alterTable('posts').dropColumn('tenant_id').execute()
+
+    await expect(run('--schema', join(dir, 'schema.ts'), '--format', 'json')).rejects.toThrow(
+      'RLS lint failed with 1 error(s) and 0 warning(s)'
+    )
+  })
+
+  it('should fail on warnings in strict mode', async () => {
+    await db.schema.createTable('comments').addColumn('id', 'integer').execute()
+
+    await run('--schema', join(dir, 'schema.ts'), '--format', 'json')
+    await expect(
+      run('--schema', join(dir, 'schema.ts'), '--format', 'json', '--strict')
+    ).rejects.toThrow('RLS lint failed with 0 error(s) and 1 warning(s)')
+    await run(
+      '--schema',
+      join(dir, 'schema.ts'),
+      '--format',
+      'json',
+      '--strict',
+      '--exclude',
+      'comments'
+    )
+  })
+
+  it('should skip database checks without introspection', async () => {
+    await db.schema.alterTable('posts').dropColumn('tenant_id').execute()
+
+    await run('--schema', join(dir, 'schema.ts'), '--format', 'json', '--no-introspect')
+
+    expect(withDatabase).not.toHaveBeenCalled()
+    expect(JSON.parse(output()).summary.errors).toBe(0)
+  })
+})
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest'
+
+const schemas = new Set<string>()
+
+vi.mock('@kysera/dialects', async importOriginal => {
+  const actual = await importOriginal<typeof import('@kysera/dialects')>()
+  // Tenant schemas live in memory instead of information_schema
+  const adapter = {
+    schemaExists: async (_db: unknown, name: string) => schemas.has(name),
+    getSchemas: async () => [...schemas],
+    createSchema: async (_db: unknown, name: string) => {
+      schemas.add(name)
+      return true
+    },
+    dropSchema: async (_db: unknown, name: string) => schemas.delete(name)
+  }
+  return {
+    ...actual,
+    createTenantManager: (db: any, options: any) =>
+      actual.createTenantManager(db, { ...options, adapter })
+  }
+})
+
+vi.mock('../../../../src/commands/migrate/runner.js', () => ({
+  MigrationRunner: vi.fn()
+}))
+
+vi.mock('../../../../src/utils/with-database.js', () => ({
+  withDatabase: vi.fn()
+}))
+
+vi.mock('@xec-sh/kit', () => ({
+  prism: {
+    cyan: (s: string) => s,
+    green: (s: string) => s,
+    yellow: (s: string) => s,
+    gray: (s: string) => s,
+    red: (s: string) => s,
+    bold: (s: string) => s
+  },
+  table: vi.fn(),
+  confirm: vi.fn(),
+  log: { success: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  spinner: vi.fn(() => ({ start: vi.fn(), stop: vi.fn(), message: vi.fn() }))
+}))
+
+import { MigrationRunner } from '../../../../src/commands/migrate/runner.js'
+import { withDatabase } from '../../../../src/utils/with-database.js'
+import { tenantCommand } from '../../../../src/commands/tenant/index.js'
+import { CLIError } from '../../../../src/utils/errors.js'
+
+describe('tenant commands', () => {
+  let config: any
+  let db: { withSchema: Mock }
+  let consoleSpy: Mock
+  /** Pending migrations per schema */
+  let pending: Record<string, string[]>
+  let failing: Set<string>
+  let releaseLock: Mock
+
+  const run = async (...args: string[]): Promise<void> => {
+    await tenantCommand().parseAsync(['node', 'tenant', ...args])
+  }
+
+  const output = (): string => consoleSpy.mock.calls.map(call => call.join(' ')).join('\n')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env['NODE_ENV'] = 'test'
+    schemas.clear()
+    for (const schema of ['public', 'tenant_acme', 'tenant_globex', 'tenant_initech']) {
+      schemas.add(schema)
+    }
+    pending = {}
+    failing = new Set()
+    releaseLock = vi.fn()
+
+    db = { withSchema: vi.fn().mockReturnThis() }
+    config = {
+      database: { dialect: 'postgres', connection: 'postgres://localhost/test' },
+      migrations: { directory: './migrations', tableName: 'kysera_migrations' }
+    }
+    ;(withDatabase as Mock).mockImplementation(
+      async (_options, handler) => await handler(db, config, 'public')
+    )
+    ;(MigrationRunner as unknown as Mock).mockImplementation(function (
+      this: any,
+      _db: unknown,
+      _dir: string,
+      _table: string,
+      schema: string
+    ) {
+      this.acquireLock = vi.fn().mockResolvedValue(releaseLock)
+      this.up = vi.fn(async (options: { dryRun?: boolean }) => {
+        if (failing.has(schema)) throw new Error(`Migration 002_posts failed in ${schema}`)
+        return { executed: options.dryRun ? [] : (pending[schema] ?? []), duration: 1 }
+      })
+      this.getMigrationStatus = vi.fn(async () =>
+        (pending[schema] ?? []).map(name => ({ name, timestamp: name, status: 'pending' }))
+      )
+      return this
+    })
+
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {}) as unknown as Mock
+  })
+
+  afterEach(() => {
+    consoleSpy.mockRestore()
+  })
+
+  it('should require PostgreSQL', async () => {
+    config.database.dialect = 'sqlite'
+
+    await expect(run('list')).rejects.toThrow('Tenant management is only available for PostgreSQL')
+  })
+
+  describe('create', () => {
+    it('should create a tenant schema and migrate it', async () => {
+      pending['tenant_hooli'] = ['001_users', '002_posts']
+
+      await run('create', 'hooli')
+
+      expect(schemas.has('tenant_hooli')).toBe(true)
+      expect(MigrationRunner).toHaveBeenCalledWith(
+        db,
+        './migrations',
+        'kysera_migrations',
+        'tenant_hooli'
+      )
+      expect(releaseLock).toHaveBeenCalled()
+      expect(output()).toContain('2 migrations applied')
+    })
+
+    it('should drop the schema again when migrations fail', async () => {
+      failing.add('tenant_hooli')
+
+      await expect(run('create', 'hooli')).rejects.toThrow(
+        'Failed to create tenant: Migration 002_posts failed in tenant_hooli'
+      )
+      expect(schemas.has('tenant_hooli')).toBe(false)
+    })
+
+    it('should skip migrations with --no-migrate and honor the configured prefix', async () => {
+      config.tenants = { prefix: 'org_' }
+
+      await run('create', 'hooli', '--no-migrate')
+
+      expect(schemas.has('org_hooli')).toBe(true)
+      expect(MigrationRunner).not.toHaveBeenCalled()
+    })
+
+    it('should fail for existing tenants', async () => {
+      await expect(run('create', 'acme')).rejects.toThrow('Tenant "acme" already exists')
+      await run('create', 'acme', '--if-not-exists')
+    })
+  })
+
+  describe('list', () => {
+    it('should list tenants as JSON', async () => {
+      await run('list', '--json')
+
+      expect(JSON.parse(output())).toEqual([
+        { id: 'acme', schema: 'tenant_acme' },
+        { id: 'globex', schema: 'tenant_globex' },
+        { id: 'initech', schema: 'tenant_initech' }
+      ])
+    })
+  })
+
+  describe('migrate', () => {
+    it('should migrate every tenant and report per-tenant results', async () => {
+      pending['tenant_acme'] = ['001_users']
+      pending['tenant_initech'] = ['001_users', '002_posts']
+
+      await run('migrate', '--json')
+
+      const report = JSON.parse(output())
+      expect(report.tenants).toEqual([
+        expect.objectContaining({ tenant: 'acme', status: 'succeeded', executed: ['001_users'] }),
+        expect.objectContaining({ tenant: 'globex', status: 'succeeded', executed: [] }),
+        expect.objectContaining({
+          tenant: 'initech',
+          status: 'succeeded',
+          executed: ['001_users', '002_posts']
+        })
+      ])
+      expect(report).toMatchObject({ succeeded: 3, failed: 0, skipped: 0, dryRun: false })
+      expect(releaseLock).toHaveBeenCalledTimes(3)
+    })
+
+    it('should stop after the first failure by default', async () => {
+      failing.add('tenant_acme')
+
+      await expect(run('migrate', '--concurrency', '1')).rejects.toThrow(
+        'Migrations failed for 1 of 3 tenant(s)'
+      )
+      expect(output()).toContain('✗ acme Migration 002_posts failed in tenant_acme')
+      expect(output()).toContain('- globex (skipped)')
+      expect(output()).toContain('0 succeeded, 1 failed, 2 skipped')
+    })
+
+    it('should continue after failures with --continue-on-error', async () => {
+      failing.add('tenant_globex')
+
+      const error = await run('migrate', '--continue-on-error', '--json').catch(e => e)
+
+      expect(error).toBeInstanceOf(CLIError)
+      expect(error.code).toBe('TENANT_MIGRATION_FAILED')
+      expect(JSON.parse(output()).tenants.map((t: any) => t.status)).toEqual([
+        'succeeded',
+        'failed',
+        'succeeded'
+      ])
+    })
+
+    it('should migrate selected tenants and list pending migrations in dry-run mode', async () => {
+      pending['tenant_initech'] = ['001_users']
+
+      await run('migrate', '--tenants', 'initech', 'acme', '--dry-run')
+
+      expect(MigrationRunner).toHaveBeenCalledTimes(2)
+      expect(output()).toContain('✓ initech 1 migration to apply')
+      expect(output()).toContain('✓ acme up to date')
+      expect(releaseLock).not.toHaveBeenCalled()
+    })
+
+    it('should reject unknown tenants', async () => {
+      await expect(run('migrate', '--tenants', 'hooli')).rejects.toThrow(
+        'Failed to migrate tenants: Unknown tenant(s): hooli'
+      )
+    })
+  })
+
+  describe('drop', () => {
+    it('should require confirmation', async () => {
+      await expect(run('drop', 'acme')).rejects.toThrow('Tenant drop requires confirmation')
+      expect(schemas.has('tenant_acme')).toBe(true)
+    })
+
+    it('should drop a tenant with --force', async () => {
+      await run('drop', 'acme', '--force')
+
+      expect(schemas.has('tenant_acme')).toBe(false)
+    })
+
+    it('should fail for missing tenants unless --if-exists is set', async () => {
+      await expect(run('drop', 'hooli', '--force')).rejects.toThrow("Tenant 'hooli' does not exist")
+      await run('drop', 'hooli', '--force', '--if-exists')
+    })
+  })
+})
@@ -514,6 +514,18 @@ describe('createCommandLoaders', () => {
     expect(loaders.has('audit')).toBe(true)
   })
 
+  it('should include rls command', () => {
+    const loaders = createCommandLoaders()
+
+    expect(loaders.has('rls')).toBe(true)
+  })
+
+  it('should include tenant command', () => {
+    const loaders = createCommandLoaders()
+
+    expect(loaders.has('tenant')).toBe(true)
+  })
+
   it('should include generate command', () => {
     const loaders = createCommandLoaders()
 
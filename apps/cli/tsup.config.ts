@@ -43,6 +43,7 @@ export default defineConfig({
     '@kysera/migrations',
     '@kysera/audit',
     '@kysera/soft-delete',
-    '@kysera/timestamps'
+    '@kysera/timestamps',
+    '@kysera/encryption'
   ]
 })
@@ -172,6 +172,11 @@ export default tseslint.config(
       'packages/audit/src/**/*.ts',
       'packages/soft-delete/src/**/*.ts',
       'packages/timestamps/src/**/*.ts',
+      'packages/versioning/src/**/*.ts',
+      'packages/outbox/src/**/*.ts',
+      'packages/encryption/src/**/*.ts',
+      'packages/telemetry/src/**/*.ts',
+      'packages/cache/src/**/*.ts',
       'packages/rls/src/**/*.ts'
     ],
     rules: {
@@ -1,9 +1,10 @@
 import type { Kysely } from 'kysely'
-import type { Plugin, BaseRepositoryLike } from '@kysera/executor'
+import type { Plugin, BaseRepositoryLike, QueryBuilderContext } from '@kysera/executor'
 import { isRepositoryLike } from '@kysera/executor'
-import { NotFoundError, AuditError, AuditRestoreError, AuditMissingValuesError, shouldApplyToTable, type KyseraLogger, silentLogger, formatTimestampForDb, detectDialect } from '@kysera/core'
+import { NotFoundError, AuditError, AuditRestoreError, AuditMissingValuesError, shouldApplyToTable, type KyseraLogger, silentLogger, formatTimestampForDb, detectDialect, resolveTableName } from '@kysera/core'
 import type { Dialect } from '@kysera/core'
 import { VERSION } from './version.js'
+import { captureWriteQuery } from './query-capture.js'
 
 // ============================================================================
 // Types
@@ -69,6 +70,14 @@ interface DynamicColumnBuilder {
   notNull: () => DynamicColumnBuilder
 }
 
+/**
+ * Where audit entries are captured
+ * - `'repository'`: wraps repository create/update/delete and bulk methods
+ * - `'query'`: intercepts every insert/update/delete/merge built through the executor
+ *   (repositories, DAL queries and direct executor calls)
+ */
+export type AuditMode = 'repository' | 'query'
+
 /**
  * Audit timestamp can be a Date or a string
  */
@@ -91,6 +100,13 @@ export interface AuditOptions {
    */
   primaryKeyColumn?: string
 
+  /**
+   * Capture mode.
+   * Use `'query'` to audit writes made with `@kysera/dal` or directly on the executor.
+   * @default 'repository'
+   */
+  mode?: AuditMode
+
   /**
    * Whether to capture old values in updates
    * @default true
@@ -298,6 +314,11 @@ interface ExtendedRepositoryInternal<T = unknown>
 // Helper Functions
 // ============================================================================
 
+/**
+ * Executor operations captured in query mode
+ */
+const CAPTURED_OPERATIONS = new Set<QueryBuilderContext['operation']>(['insert', 'replace', 'update', 'delete', 'merge'])
+
 /**
  * Per-executor lock for audit table creation to prevent race conditions.
  * Outer key: Kysely executor instance (WeakMap for automatic cleanup on GC).
@@ -1273,6 +1294,7 @@ export function auditPlugin(options: AuditOptions = {}): Plugin {
   const {
     auditTable = 'audit_logs',
     primaryKeyColumn = 'id',
+    mode = 'repository',
     captureOldValues = true,
     captureNewValues = true,
     skipSystemOperations = false,
@@ -1284,11 +1306,48 @@ export function auditPlugin(options: AuditOptions = {}): Plugin {
   // Detected dialect, set in onInit for dialect-aware timestamp formatting
   let detectedDialect: Dialect | undefined
 
+  /**
+   * Query mode: wrap write builders so their execution records audit entries.
+   * Runs last (lowest priority), so it sees filters added by RLS and other plugins.
+   */
+  const interceptQuery = <QB>(qb: QB, context: QueryBuilderContext): QB => {
+    if (!CAPTURED_OPERATIONS.has(context.operation) || !context.rawDb) {
+      return qb
+    }
+
+    const tableName = resolveTableName(context.table)
+    // Never audit the audit table itself
+    if (tableName === resolveTableName(auditTable)) {
+      return qb
+    }
+    if (!shouldApplyToTable(tableName, { tables: options.tables, excludeTables: options.excludeTables })) {
+      return qb
+    }
+
+    return captureWriteQuery(qb, context.rawDb, {
+      tableName,
+      tableExpression: context.table,
+      primaryKeyColumn,
+      captureOldValues,
+      captureNewValues,
+      dialect: detectedDialect,
+      logger,
+      createEntry: (entityId, operation, oldValues, newValues) =>
+        prepareAuditEntry(tableName, entityId, operation, oldValues, newValues, options, detectedDialect),
+      writeEntries: async (db, entries) => {
+        await createBulkAuditLogEntries(db, auditTable, entries)
+      }
+    })
+  }
+
   return {
     name: '@kysera/audit',
     version: VERSION,
     priority: 50, // AUDIT plugin: runs after security (1000), filters (500), and transforms (100)
 
+    // Only register an interceptor in query mode, so repository mode keeps the executor's fast path
+    ...(mode === 'query' && !skipSystemOperations && { interceptQuery }),
+
     async onInit<DB>(executor: Kysely<DB>): Promise<void> {
       lastExecutor = executor
       detectedDialect = detectDialect(executor)
@@ -1327,6 +1386,21 @@ export function auditPlugin(options: AuditOptions = {}): Plugin {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const mutableRepo = baseRepo as any as AuditBaseRepository
 
+      // In query mode writes are captured by interceptQuery; only add the audit query methods
+      if (mode === 'query') {
+        addAuditQueryMethods(
+          mutableRepo as ExtendedRepositoryInternal,
+          mutableRepo,
+          executor,
+          auditTable,
+          tableName,
+          primaryKeyColumn,
+          logger,
+          detectedDialect
+        )
+        return repo
+      }
+
       wrapCreateMethod(
         mutableRepo,
         executor,
@@ -0,0 +1,587 @@
+/**
+ * Query-level audit capture (`auditPlugin({ mode: 'query' })`).
+ *
+ * Write builders created through a KyseraExecutor are wrapped so that executing
+ * them also records audit entries. Rows matched by UPDATE/DELETE/MERGE are read
+ * before the write, affected rows are re-read afterwards, and the reads, the write
+ * and the audit inserts run on the connection the builder was created on - inside a
+ * transaction the audit entries commit or roll back together with the change.
+ * Outside a transaction the sequence runs in a transaction of its own.
+ *
+ * @module @kysera/audit
+ */
+
+import {
+  AliasNode,
+  DeleteQueryNode,
+  DeleteResult,
+  IdentifierNode,
+  InsertQueryNode,
+  InsertResult,
+  JoinNode,
+  MergeQueryNode,
+  MergeResult,
+  NoResultError,
+  PrimitiveValueListNode,
+  SelectionNode,
+  SelectQueryNode,
+  TableNode,
+  UpdateQueryNode,
+  UpdateResult,
+  ValueListNode,
+  ValueNode,
+  ValuesNode,
+  createQueryId,
+  sql,
+  type CompiledQuery,
+  type Kysely,
+  type LimitNode,
+  type OperationNode,
+  type OrderByNode,
+  type QueryNode,
+  type QueryResult,
+  type WhereNode,
+  type WithNode
+} from 'kysely'
+import { updatedColumnName, type Dialect, type KyseraLogger } from '@kysera/core'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type AuditRow = Record<string, unknown>
+
+type WriteQueryNode = InsertQueryNode | UpdateQueryNode | DeleteQueryNode | MergeQueryNode
+
+/**
+ * Audit operation recorded for a captured row
+ */
+export type CapturedOperation = 'INSERT' | 'UPDATE' | 'DELETE'
+
+/**
+ * Configuration for query-level capture, resolved by auditPlugin
+ */
+export interface QueryCaptureConfig {
+  /** Table name recorded in audit entries (without alias or schema) */
+  tableName: string
+  /** Table expression as passed to the builder (e.g. 'users as u') */
+  tableExpression: string
+  primaryKeyColumn: string
+  captureOldValues: boolean
+  captureNewValues: boolean
+  dialect: Dialect | undefined
+  logger: KyseraLogger
+  /** Build an audit log row for the given change */
+  createEntry: (
+    entityId: string | number,
+    operation: CapturedOperation,
+    oldValues: unknown,
+    newValues: unknown
+  ) => AuditRow
+  /** Insert audit log rows using the given connection */
+  writeEntries: (db: Kysely<unknown>, entries: AuditRow[]) => Promise<void>
+}
+
+/**
+ * Minimal shape of Kysely's insert/update/delete/merge builders
+ */
+interface WriteQueryBuilder {
+  execute: () => Promise<unknown[]>
+  compile: () => CompiledQuery
+  toOperationNode: () => OperationNode
+  returningAll?: () => WriteQueryBuilder
+}
+
+/**
+ * Rows targeted by an UPDATE/DELETE/MERGE, expressed as parts of a SELECT
+ */
+interface WriteTarget {
+  froms: readonly OperationNode[]
+  qualifier: TableNode
+  joins?: readonly JoinNode[] | undefined
+  where?: WhereNode | undefined
+  orderBy?: OrderByNode | undefined
+  limit?: LimitNode | undefined
+  with?: WithNode | undefined
+}
+
+/** Dialects that support `RETURNING` on INSERT */
+const RETURNING_DIALECTS = new Set<Dialect | undefined>(['postgres', 'sqlite'])
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isWriteQueryBuilder(value: unknown): value is WriteQueryBuilder {
+  if (typeof value !== 'object' || value === null) return false
+  const candidate = value as Partial<WriteQueryBuilder>
+  return (
+    typeof candidate.execute === 'function' &&
+    typeof candidate.compile === 'function' &&
+    typeof candidate.toOperationNode === 'function'
+  )
+}
+
+/**
+ * Column qualifier for a `table` or `table as alias` node
+ */
+function resolveQualifier(node: OperationNode | undefined): TableNode | undefined {
+  if (!node) return undefined
+  if (TableNode.is(node)) return node
+  if (AliasNode.is(node) && TableNode.is(node.node) && IdentifierNode.is(node.alias)) {
+    return TableNode.create(node.alias.name)
+  }
+  return undefined
+}
+
+/**
+ * Describe the rows a write will touch so they can be selected beforehand
+ */
+function resolveWriteTarget(node: OperationNode): WriteTarget | undefined {
+  if (UpdateQueryNode.is(node)) {
+    const qualifier = resolveQualifier(node.table)
+    if (!qualifier || !node.table) return undefined
+    return {
+      froms: [node.table, ...(node.from?.froms ?? [])],
+      qualifier,
+      joins: node.joins,
+      where: node.where,
+      orderBy: node.orderBy,
+      limit: node.limit,
+      with: node.with
+    }
+  }
+  if (DeleteQueryNode.is(node)) {
+    const qualifier = resolveQualifier(node.from.froms[0])
+    if (!qualifier) return undefined
+    return {
+      froms: [...node.from.froms, ...(node.using?.tables ?? [])],
+      qualifier,
+      joins: node.joins,
+      where: node.where,
+      orderBy: node.orderBy,
+      limit: node.limit,
+      with: node.with
+    }
+  }
+  if (MergeQueryNode.is(node)) {
+    const qualifier = resolveQualifier(node.into)
+    if (!qualifier) return undefined
+    // MERGE ... USING is a join of its own type; matched target rows are an inner join
+    const using = node.using?.on ? JoinNode.createWithOn('InnerJoin', node.using.table, node.using.on) : undefined
+    return { froms: [node.into], qualifier, joins: using ? [using] : undefined, with: node.with }
+  }
+  return undefined
+}
+
+function buildTargetSelect(target: WriteTarget): SelectQueryNode {
+  return {
+    ...SelectQueryNode.createFrom(target.froms, target.with),
+    selections: [SelectionNode.createSelectAllFromTable(target.qualifier)],
+    ...(target.joins && { joins: target.joins }),
+    ...(target.where && { where: target.where }),
+    ...(target.orderBy && { orderBy: target.orderBy }),
+    ...(target.limit && { limit: target.limit })
+  }
+}
+
+/**
+ * Compile and run a select node on the given connection, bypassing plugin interception
+ */
+async function executeSelect(db: Kysely<unknown>, node: SelectQueryNode): Promise<AuditRow[]> {
+  const executor = db.getExecutor()
+  const queryId = createQueryId()
+  const compiled = executor.compileQuery(executor.transformQuery(node, queryId), queryId)
+  const result = await db.executeQuery<AuditRow>(compiled)
+  return result.rows
+}
+
+/**
+ * Run a write on the given connection and return what the builder's execute() would:
+ * the returned rows, or the Insert/Update/Delete/MergeResult of the driver's result
+ */
+async function executeWrite(
+  db: Kysely<unknown>,
+  node: WriteQueryNode,
+  compiled: CompiledQuery
+): Promise<{ result: unknown[]; rows: AuditRow[] }> {
+  const queryResult = await db.executeQuery<AuditRow>(compiled)
+  return { result: toExecuteResult(db, node, queryResult), rows: queryResult.rows }
+}
+
+function toExecuteResult(db: Kysely<unknown>, node: WriteQueryNode, result: QueryResult<AuditRow>): unknown[] {
+  const { adapter } = db.getExecutor()
+  if ((node.returning && adapter.supportsReturning) || (node.output && adapter.supportsOutput)) {
+    return result.rows
+  }
+
+  const affectedRows = result.numAffectedRows ?? BigInt(0)
+  if (InsertQueryNode.is(node)) return [new InsertResult(result.insertId, affectedRows)]
+  if (UpdateQueryNode.is(node)) return [new UpdateResult(affectedRows, result.numChangedRows)]
+  if (DeleteQueryNode.is(node)) return [new DeleteResult(affectedRows)]
+  return [new MergeResult(result.numAffectedRows)]
+}
+
+/**
+ * Re-read rows by primary key (used for new values after a write)
+ */
+async function fetchRowsByIds(
+  db: Kysely<unknown>,
+  config: QueryCaptureConfig,
+  ids: readonly unknown[]
+): Promise<Map<unknown, AuditRow>> {
+  const rows = new Map<unknown, AuditRow>()
+  if (ids.length === 0) return rows
+
+  const dynamicDb = db as unknown as Kysely<Record<string, AuditRow>>
+  const fetched = await dynamicDb
+    .selectFrom(config.tableExpression)
+    .selectAll()
+    .where(config.primaryKeyColumn, 'in', ids as never)
+    .execute()
+
+  for (const row of fetched) {
+    rows.set(row[config.primaryKeyColumn], row)
+  }
+  return rows
+}
+
+/**
+ * Index rows by primary key, dropping duplicates produced by joins
+ */
+function indexByPrimaryKey(rows: readonly AuditRow[], config: QueryCaptureConfig): Map<unknown, AuditRow> {
+  const indexed = new Map<unknown, AuditRow>()
+  for (const row of rows) {
+    const id = row[config.primaryKeyColumn]
+    if (id === undefined || id === null) {
+      config.logger.warn(
+        `[Kysera Audit] Primary key '${config.primaryKeyColumn}' not found in ${config.tableName} row, skipping audit entry`
+      )
+      continue
+    }
+    indexed.set(id, row)
+  }
+  return indexed
+}
+
+// ============================================================================
+// INSERT
+// ============================================================================
+
+/**
+ * Primary key values written explicitly in a VALUES list
+ */
+function extractInsertedIds(node: InsertQueryNode, primaryKeyColumn: string): unknown[] | undefined {
+  const index = node.columns?.findIndex(column => column.column.name === primaryKeyColumn) ?? -1
+  if (index < 0 || !node.values || !ValuesNode.is(node.values)) return undefined
+
+  const ids: unknown[] = []
+  for (const item of node.values.values) {
+    if (PrimitiveValueListNode.is(item)) {
+      ids.push(item.values[index])
+    } else if (ValueListNode.is(item)) {
+      const value = item.values[index]
+      if (!value || !ValueNode.is(value)) return undefined
+      ids.push(value.value)
+    }
+  }
+  return ids
+}
+
+/**
+ * Derive generated ids from the driver's insert id (MySQL reports the first id, SQLite the last)
+ */
+function idsFromInsertResult(
+  result: InsertResult | undefined,
+  rowCount: number,
+  dialect: Dialect | undefined
+): unknown[] | undefined {
+  if (result?.insertId === undefined || rowCount === 0) return undefined
+  const insertId = Number(result.insertId)
+  const first = dialect === 'mysql' ? insertId : insertId - rowCount + 1
+  return Array.from({ length: rowCount }, (_, offset) => first + offset)
+}
+
+function countValueRows(node: InsertQueryNode): number {
+  return node.values && ValuesNode.is(node.values) ? node.values.values.length : 0
+}
+
+/**
+ * InsertResult the SQLite driver reports for an INSERT without RETURNING.
+ * With RETURNING it only reports the rows, so read the same values from the connection.
+ */
+async function readSqliteInsertResult(db: Kysely<unknown>): Promise<InsertResult> {
+  const { rows } = await sql<{
+    insertId: number | bigint
+    changes: number | bigint
+  }>`select last_insert_rowid() as "insertId", changes() as "changes"`.execute(db)
+  const [row] = rows
+  return new InsertResult(row && BigInt(row.insertId), BigInt(row?.changes ?? 0))
+}
+
+/**
+ * Run an INSERT and record an entry per inserted row.
+ *
+ * On PostgreSQL and SQLite an INSERT without `returning()` is run with `RETURNING *`, so
+ * generated keys and defaults are captured without re-reading the rows. The returned rows
+ * only feed the audit entries; the caller gets the InsertResult of the plain INSERT.
+ */
+async function executeInsert(
+  qb: WriteQueryBuilder,
+  node: InsertQueryNode,
+  db: Kysely<unknown>,
+  config: QueryCaptureConfig
+): Promise<unknown[]> {
+  const { primaryKeyColumn } = config
+
+  // Without RETURNING, ask for the inserted rows where the dialect allows it
+  if (!node.returning && qb.returningAll && RETURNING_DIALECTS.has(config.dialect)) {
+    const written = await executeWrite(db, node, qb.returningAll().compile())
+    // Read before the audit insert changes the connection's last insert id
+    const result = config.dialect === 'sqlite' ? [await readSqliteInsertResult(db)] : written.result
+    await writeInsertEntries(db, config, indexByPrimaryKey(written.rows, config))
+    return result
+  }
+
+  const { result } = await executeWrite(db, node, qb.compile())
+  const ids = node.returning
+    ? (result as AuditRow[]).map(row => row[primaryKeyColumn])
+    : extractInsertedIds(node, primaryKeyColumn) ??
+      idsFromInsertResult(result[0] as InsertResult | undefined, countValueRows(node), config.dialect)
+
+  if (!ids) {
+    config.logger.warn(
+      `[Kysera Audit] Could not determine inserted ids for ${config.tableName}, skipping audit entries`
+    )
+    return result
+  }
+
+  const inserted = config.captureNewValues
+    ? await fetchRowsByIds(db, config, ids)
+    : new Map(ids.map(id => [id, {}]))
+  await writeInsertEntries(db, config, inserted)
+  return result
+}
+
+async function writeInsertEntries(
+  db: Kysely<unknown>,
+  config: QueryCaptureConfig,
+  rows: Map<unknown, AuditRow>
+): Promise<void> {
+  const entries = [...rows].map(([id, row]) =>
+    config.createEntry(id as string | number, 'INSERT', null, config.captureNewValues ? row : null)
+  )
+  if (entries.length > 0) {
+    await config.writeEntries(db, entries)
+  }
+}
+
+// ============================================================================
+// UPDATE / DELETE / MERGE
+// ============================================================================
+
+/**
+ * Build entries by comparing rows before and after the write.
+ * Every row matched by an UPDATE is updated; rows that disappeared after a MERGE
+ * were deleted (MERGE ... THEN DELETE).
+ */
+function buildChangeEntries(
+  before: Map<unknown, AuditRow>,
+  after: Map<unknown, AuditRow>,
+  kind: 'UPDATE' | 'DELETE' | 'MERGE',
+  config: QueryCaptureConfig
+): AuditRow[] {
+  const entries: AuditRow[] = []
+  for (const [id, oldRow] of before) {
+    const oldValues = config.captureOldValues ? oldRow : null
+    const newRow = after.get(id)
+    const entityId = id as string | number
+
+    if (kind === 'DELETE' || (kind === 'MERGE' && !newRow)) {
+      entries.push(config.createEntry(entityId, 'DELETE', oldValues, null))
+    } else {
+      entries.push(config.createEntry(entityId, 'UPDATE', oldValues, config.captureNewValues ? (newRow ?? null) : null))
+    }
+  }
+  return entries
+}
+
+/**
+ * Primary key assigned by an UPDATE: its value, `'expression'` when it is computed, or
+ * undefined when the key is not changed
+ */
+function updatedPrimaryKey(
+  node: UpdateQueryNode,
+  primaryKeyColumn: string
+): { value: unknown } | 'expression' | undefined {
+  const assignment = node.updates?.find(update => updatedColumnName(update.column) === primaryKeyColumn)
+  if (!assignment) return undefined
+  return ValueNode.is(assignment.value) ? { value: assignment.value.value } : 'expression'
+}
+
+/**
+ * Re-read the rows an UPDATE matched, keyed by their primary key before the update.
+ * When the UPDATE assigns the primary key, the rows are read by the new value.
+ */
+async function fetchUpdatedRows(
+  db: Kysely<unknown>,
+  node: UpdateQueryNode,
+  before: Map<unknown, AuditRow>,
+  config: QueryCaptureConfig
+): Promise<Map<unknown, AuditRow>> {
+  const newKey = updatedPrimaryKey(node, config.primaryKeyColumn)
+  if (newKey === undefined) {
+    return await fetchRowsByIds(db, config, [...before.keys()])
+  }
+  if (newKey === 'expression') {
+    config.logger.warn(
+      `[Kysera Audit] Primary key of ${config.tableName} updated with an expression, new values not captured`
+    )
+    return new Map()
+  }
+
+  // A unique key can only be assigned to one row
+  const [row] = (await fetchRowsByIds(db, config, [newKey.value])).values()
+  return row ? new Map([...before.keys()].map(id => [id, row])) : new Map()
+}
+
+/**
+ * Rows inserted by MERGE ... WHEN NOT MATCHED, when the query returns them
+ */
+function buildMergeInsertEntries(
+  result: unknown[],
+  before: Map<unknown, AuditRow>,
+  config: QueryCaptureConfig
+): AuditRow[] {
+  const returned = indexByPrimaryKey(result as AuditRow[], config)
+  return [...returned]
+    .filter(([id]) => !before.has(id))
+    .map(([id, row]) =>
+      config.createEntry(id as string | number, 'INSERT', null, config.captureNewValues ? row : null)
+    )
+}
+
+async function executeChange(
+  qb: WriteQueryBuilder,
+  node: UpdateQueryNode | DeleteQueryNode | MergeQueryNode,
+  target: WriteTarget,
+  db: Kysely<unknown>,
+  config: QueryCaptureConfig
+): Promise<unknown[]> {
+  const before = indexByPrimaryKey(await executeSelect(db, buildTargetSelect(target)), config)
+  const { result } = await executeWrite(db, node, qb.compile())
+  if (before.size === 0 && !MergeQueryNode.is(node)) return result
+
+  const kind = DeleteQueryNode.is(node) ? 'DELETE' : MergeQueryNode.is(node) ? 'MERGE' : 'UPDATE'
+  let after = new Map<unknown, AuditRow>()
+  if (UpdateQueryNode.is(node) && config.captureNewValues) {
+    after = await fetchUpdatedRows(db, node, before, config)
+  } else if (kind === 'MERGE') {
+    after = await fetchRowsByIds(db, config, [...before.keys()])
+  }
+
+  const entries = buildChangeEntries(before, after, kind, config)
+  if (MergeQueryNode.is(node) && node.returning) {
+    entries.push(...buildMergeInsertEntries(result, before, config))
+  }
+
+  if (entries.length > 0) {
+    await config.writeEntries(db, entries)
+  }
+  return result
+}
+
+// ============================================================================
+// Builder wrapping
+// ============================================================================
+
+/**
+ * Run the write with its audit reads and inserts, in a transaction unless one is already open
+ */
+async function executeWithAudit(
+  qb: WriteQueryBuilder,
+  db: Kysely<unknown>,
+  config: QueryCaptureConfig
+): Promise<unknown[]> {
+  const node = qb.toOperationNode() as WriteQueryNode
+  let capture: (conn: Kysely<unknown>) => Promise<unknown[]>
+  if (InsertQueryNode.is(node)) {
+    capture = async conn => await executeInsert(qb, node, conn, config)
+  } else {
+    const target = resolveWriteTarget(node)
+    if (!target) {
+      config.logger.warn(
+        `[Kysera Audit] Unsupported ${node.kind} shape for ${config.tableName}, change not audited`
+      )
+      return await qb.execute()
+    }
+    capture = async conn => await executeChange(qb, node, target, conn, config)
+  }
+
+  if (db.isTransaction) {
+    return await capture(db)
+  }
+  return await db.transaction().execute(capture)
+}
+
+type NoResultErrorConstructor = new (node: QueryNode) => Error
+type NoResultErrorFactory = (node: QueryNode) => Error
+
+function createNoResultError(
+  node: QueryNode,
+  errorConstructor: NoResultErrorConstructor | NoResultErrorFactory = NoResultError
+): Error {
+  // Same check Kysely uses to tell error classes from factory functions
+  return Object.prototype.hasOwnProperty.call(errorConstructor, 'prototype')
+    ? new (errorConstructor as NoResultErrorConstructor)(node)
+    : (errorConstructor as NoResultErrorFactory)(node)
+}
+
+/**
+ * Wrap a write builder so every builder derived from it executes with audit capture
+ */
+function wrapBuilder(qb: WriteQueryBuilder, db: Kysely<unknown>, config: QueryCaptureConfig): WriteQueryBuilder {
+  return new Proxy(qb, {
+    get(target, prop) {
+      if (prop === 'execute') {
+        return async () => await executeWithAudit(target, db, config)
+      }
+      if (prop === 'executeTakeFirst') {
+        return async () => {
+          const [first] = await executeWithAudit(target, db, config)
+          return first
+        }
+      }
+      if (prop === 'executeTakeFirstOrThrow') {
+        return async (errorConstructor?: NoResultErrorConstructor | NoResultErrorFactory) => {
+          const [first] = await executeWithAudit(target, db, config)
+          if (first === undefined) {
+            throw createNoResultError(target.toOperationNode() as QueryNode, errorConstructor)
+          }
+          return first
+        }
+      }
+
+      const value: unknown = Reflect.get(target, prop, target)
+      if (typeof value !== 'function') return value
+
+      // Builders are immutable: re-wrap every builder returned by a chained call
+      return (...args: unknown[]) => {
+        const result: unknown = (value as (...a: unknown[]) => unknown).apply(target, args)
+        return isWriteQueryBuilder(result) ? wrapBuilder(result, db, config) : result
+      }
+    }
+  })
+}
+
+/**
+ * Wrap an insert/update/delete/merge builder so that executing it records audit entries.
+ *
+ * @param qb - Query builder returned by the executor
+ * @param db - Unwrapped connection (database or transaction) the builder was created on
+ * @param config - Resolved capture configuration
+ */
+export function captureWriteQuery<QB>(qb: QB, db: Kysely<unknown>, config: QueryCaptureConfig): QB {
+  if (!isWriteQueryBuilder(qb)) return qb
+  return wrapBuilder(qb, db, config) as unknown as QB
+}
@@ -30,6 +30,7 @@ import { z } from 'zod'
 export const AuditOptionsSchema = z.object({
   auditTable: z.string().optional(),
   primaryKeyColumn: z.string().optional(),
+  mode: z.enum(['repository', 'query']).optional(),
   captureOldValues: z.boolean().optional(),
   captureNewValues: z.boolean().optional(),
   skipSystemOperations: z.boolean().optional(),
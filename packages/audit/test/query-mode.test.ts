@@ -0,0 +1,362 @@
+// @ts-nocheck - Test file with dynamic plugin interactions
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { Kysely, SqliteDialect, InsertResult, NoResultError, type Generated } from 'kysely'
+import betterSqlite3 from 'better-sqlite3'
+import { createExecutor } from '@kysera/executor'
+import { auditPlugin } from '../src/index.js'
+import { createQuery, createContext, withTransaction } from '../../dal/src/index.js'
+import { createRepositoryFactory, createORM, nativeAdapter } from '../../repository/src/index.js'
+
+// ============================================================================
+// Test Database Schema
+// ============================================================================
+
+interface TestDatabase {
+  users: {
+    id: Generated<number>
+    email: string
+    name: string
+    status: string
+  }
+  sessions: {
+    id: Generated<number>
+    token: string
+  }
+  audit_logs: {
+    id: Generated<number>
+    table_name: string
+    entity_id: string
+    operation: string
+    old_values: string | null
+    new_values: string | null
+    changed_by: string | null
+    changed_at: string
+    metadata: string | null
+  }
+}
+
+async function createTestDatabase(): Promise<Kysely<TestDatabase>> {
+  const db = new Kysely<TestDatabase>({
+    dialect: new SqliteDialect({ database: new betterSqlite3(':memory:') })
+  })
+
+  await db.schema
+    .createTable('users')
+    .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+    .addColumn('email', 'text', col => col.notNull().unique())
+    .addColumn('name', 'text', col => col.notNull())
+    .addColumn('status', 'text', col => col.notNull().defaultTo('active'))
+    .execute()
+
+  await db.schema
+    .createTable('sessions')
+    .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+    .addColumn('token', 'text', col => col.notNull())
+    .execute()
+
+  await db
+    .insertInto('users')
+    .values([
+      { email: 'alice@example.com', name: 'Alice', status: 'active' },
+      { email: 'bob@example.com', name: 'Bob', status: 'active' },
+      { email: 'charlie@example.com', name: 'Charlie', status: 'inactive' }
+    ])
+    .execute()
+
+  return db
+}
+
+async function getAuditLogs(db: Kysely<TestDatabase>) {
+  const logs = await db.selectFrom('audit_logs').selectAll().orderBy('id').execute()
+  return logs.map(log => ({
+    ...log,
+    old_values: log.old_values ? JSON.parse(log.old_values) : null,
+    new_values: log.new_values ? JSON.parse(log.new_values) : null
+  }))
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Audit Plugin - query mode', () => {
+  let db: Kysely<TestDatabase>
+
+  beforeEach(async () => {
+    db = await createTestDatabase()
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+  })
+
+  describe('executor writes', () => {
+    it('should audit inserts with generated values', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query', getUserId: () => 'admin' })])
+
+      const result = await executor
+        .insertInto('users')
+        .values({ email: 'dave@example.com', name: 'Dave' })
+        .executeTakeFirst()
+
+      expect(Number(result.insertId)).toBe(4)
+      expect(Number(result.numInsertedOrUpdatedRows)).toBe(1)
+
+      const logs = await getAuditLogs(db)
+      expect(logs).toHaveLength(1)
+      expect(logs[0]).toMatchObject({
+        table_name: 'users',
+        entity_id: '4',
+        operation: 'INSERT',
+        old_values: null,
+        new_values: { id: 4, email: 'dave@example.com', name: 'Dave', status: 'active' },
+        changed_by: 'admin'
+      })
+    })
+
+    it('should keep the RETURNING result of inserts', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+
+      const rows = await executor
+        .insertInto('users')
+        .values([
+          { email: 'dave@example.com', name: 'Dave' },
+          { email: 'erin@example.com', name: 'Erin' }
+        ])
+        .returning(['id', 'name'])
+        .execute()
+
+      expect(rows).toEqual([
+        { id: 4, name: 'Dave' },
+        { id: 5, name: 'Erin' }
+      ])
+
+      const logs = await getAuditLogs(db)
+      expect(logs.map(log => log.entity_id)).toEqual(['4', '5'])
+      expect(logs[1].new_values.email).toBe('erin@example.com')
+    })
+
+    it('should audit multi-row updates with old and new values', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+
+      const result = await executor
+        .updateTable('users')
+        .set({ status: 'suspended' })
+        .where('status', '=', 'active')
+        .executeTakeFirstOrThrow()
+
+      expect(Number(result.numUpdatedRows)).toBe(2)
+
+      const logs = await getAuditLogs(db)
+      expect(logs).toHaveLength(2)
+      expect(logs.map(log => log.operation)).toEqual(['UPDATE', 'UPDATE'])
+      expect(logs.map(log => log.entity_id)).toEqual(['1', '2'])
+      expect(logs[0].old_values.status).toBe('active')
+      expect(logs[0].new_values.status).toBe('suspended')
+    })
+
+    it('should audit updates on aliased tables', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+
+      await executor.updateTable('users as u').set({ name: 'Bobby' }).where('u.email', '=', 'bob@example.com').execute()
+
+      const logs = await getAuditLogs(db)
+      expect(logs).toHaveLength(1)
+      expect(logs[0]).toMatchObject({ table_name: 'users', entity_id: '2' })
+      expect(logs[0].old_values.name).toBe('Bob')
+      expect(logs[0].new_values.name).toBe('Bobby')
+    })
+
+    it('should audit deletes with old values', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+
+      await executor.deleteFrom('users').where('id', 'in', [1, 3]).execute()
+
+      const logs = await getAuditLogs(db)
+      expect(logs.map(log => [log.operation, log.entity_id])).toEqual([
+        ['DELETE', '1'],
+        ['DELETE', '3']
+      ])
+      expect(logs[1].old_values.name).toBe('Charlie')
+      expect(logs[1].new_values).toBeNull()
+    })
+
+    it('should not write entries when nothing matches', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+
+      await executor.updateTable('users').set({ name: 'Nobody' }).where('id', '=', 999).execute()
+
+      expect(await getAuditLogs(db)).toHaveLength(0)
+    })
+
+    it('should respect captureOldValues and captureNewValues', async () => {
+      const executor = await createExecutor(db, [
+        auditPlugin({ mode: 'query', captureOldValues: false, captureNewValues: false })
+      ])
+
+      await executor.updateTable('users').set({ name: 'Al' }).where('id', '=', 1).execute()
+
+      const logs = await getAuditLogs(db)
+      expect(logs[0]).toMatchObject({ entity_id: '1', operation: 'UPDATE', old_values: null, new_values: null })
+    })
+
+    it('should read new values by the new primary key when an update changes it', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+
+      await executor.updateTable('users').set({ id: 10, name: 'Alicia' }).where('id', '=', 1).execute()
+      await executor
+        .updateTable('users')
+        .set(eb => ({ id: eb('id', '+', 100) }))
+        .where('id', '=', 2)
+        .execute()
+
+      const logs = await getAuditLogs(db)
+      expect(logs.map(log => [log.operation, log.entity_id])).toEqual([
+        ['UPDATE', '1'],
+        ['UPDATE', '2']
+      ])
+      expect(logs[0].old_values).toMatchObject({ id: 1, name: 'Alice' })
+      expect(logs[0].new_values).toMatchObject({ id: 10, name: 'Alicia' })
+      // Computed keys can't be re-read: recorded as an update without new values
+      expect(logs[1].old_values).toMatchObject({ id: 2 })
+      expect(logs[1].new_values).toBeNull()
+    })
+
+    it('should skip excluded tables and the audit table itself', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query', excludeTables: ['sessions'] })])
+
+      await executor.insertInto('sessions').values({ token: 'abc' }).execute()
+      await executor.deleteFrom('audit_logs').execute()
+
+      expect(await getAuditLogs(db)).toHaveLength(0)
+    })
+
+    it('should return the driver result of inserts', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+      const insertExisting = (qb: typeof db) =>
+        qb
+          .insertInto('users')
+          .values({ email: 'alice@example.com', name: 'Alice' })
+          .onConflict(oc => oc.column('email').doNothing())
+          .executeTakeFirst()
+
+      const result = await insertExisting(executor)
+
+      expect(result).toBeInstanceOf(InsertResult)
+      expect(result).toEqual(await insertExisting(db))
+      expect(await getAuditLogs(db)).toHaveLength(0)
+    })
+
+    it('should roll back the write when its audit entry fails outside a transaction', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+      await db.schema.dropTable('audit_logs').execute()
+
+      await expect(
+        executor.updateTable('users').set({ name: 'Alicia' }).where('id', '=', 1).execute()
+      ).rejects.toThrow()
+      await expect(
+        executor.insertInto('users').values({ email: 'dave@example.com', name: 'Dave' }).execute()
+      ).rejects.toThrow()
+
+      const users = await db.selectFrom('users').select(['id', 'name']).orderBy('id').execute()
+      expect(users).toEqual([
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+        { id: 3, name: 'Charlie' }
+      ])
+    })
+
+    it('should throw NoResultError from executeTakeFirstOrThrow with empty RETURNING', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+
+      await expect(
+        executor.deleteFrom('users').where('id', '=', 999).returningAll().executeTakeFirstOrThrow()
+      ).rejects.toThrow(NoResultError)
+    })
+  })
+
+  describe('DAL pattern', () => {
+    it('should audit writes made with createQuery', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+      const renameUser = createQuery((ctx, id: number, name: string) =>
+        ctx.db.updateTable('users').set({ name }).where('id', '=', id).execute()
+      )
+
+      await renameUser(createContext(executor), 3, 'Chuck')
+
+      const logs = await getAuditLogs(db)
+      expect(logs).toHaveLength(1)
+      expect(logs[0].old_values.name).toBe('Charlie')
+      expect(logs[0].new_values.name).toBe('Chuck')
+    })
+
+    it('should commit audit entries with the transaction', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+
+      await withTransaction(executor, async ctx => {
+        await ctx.db.insertInto('users').values({ email: 'dave@example.com', name: 'Dave' }).execute()
+        await ctx.db.deleteFrom('users').where('id', '=', 1).execute()
+      })
+
+      const logs = await getAuditLogs(db)
+      expect(logs.map(log => log.operation)).toEqual(['INSERT', 'DELETE'])
+    })
+
+    it('should roll back audit entries with the transaction', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+
+      await expect(
+        withTransaction(executor, async ctx => {
+          await ctx.db.updateTable('users').set({ status: 'deleted' }).execute()
+          throw new Error('Rollback')
+        })
+      ).rejects.toThrow('Rollback')
+
+      expect(await getAuditLogs(db)).toHaveLength(0)
+      const users = await db.selectFrom('users').select('status').execute()
+      expect(users.every(user => user.status !== 'deleted')).toBe(true)
+    })
+
+    it('should audit writes inside executor.transaction()', async () => {
+      const executor = await createExecutor(db, [auditPlugin({ mode: 'query' })])
+
+      await executor.transaction().execute(async trx => {
+        await trx.updateTable('users').set({ name: 'Alicia' }).where('id', '=', 1).execute()
+      })
+
+      const logs = await getAuditLogs(db)
+      expect(logs).toHaveLength(1)
+      expect(logs[0].new_values.name).toBe('Alicia')
+    })
+  })
+
+  describe('repository pattern', () => {
+    it('should record a single entry per write and keep audit query methods', async () => {
+      const orm = await createORM(db, [auditPlugin({ mode: 'query' })])
+      const userRepo = orm.createRepository(executor =>
+        createRepositoryFactory(executor).create({
+          tableName: 'users' as const,
+          mapRow: row => row,
+          schemas: { create: nativeAdapter(), update: nativeAdapter() }
+        })
+      )
+
+      const user = await userRepo.create({ email: 'dave@example.com', name: 'Dave' })
+      await userRepo.update(user.id, { name: 'David' })
+
+      const history = await userRepo.getAuditHistory(user.id)
+      expect(history).toHaveLength(2)
+      expect(history.map(entry => entry.operation).sort()).toEqual(['INSERT', 'UPDATE'])
+    })
+  })
+
+  describe('repository mode (default)', () => {
+    it('should not intercept executor writes', async () => {
+      const executor = await createExecutor(db, [auditPlugin()])
+
+      await executor.updateTable('users').set({ name: 'Al' }).where('id', '=', 1).execute()
+
+      expect(await getAuditLogs(db)).toHaveLength(0)
+    })
+  })
+})
@@ -825,6 +825,7 @@ describe('AuditOptionsSchema - Schema Structure', () => {
 
     expect(shape.auditTable).toBeDefined()
     expect(shape.primaryKeyColumn).toBeDefined()
+    expect(shape.mode).toBeDefined()
     expect(shape.captureOldValues).toBeDefined()
     expect(shape.captureNewValues).toBeDefined()
     expect(shape.skipSystemOperations).toBeDefined()
@@ -835,11 +836,11 @@ describe('AuditOptionsSchema - Schema Structure', () => {
     expect(shape.metadata).toBeDefined()
   })
 
-  it('should have 10 total fields', () => {
+  it('should have 11 total fields', () => {
     const shape = AuditOptionsSchema.shape
     const fieldCount = Object.keys(shape).length
 
-    expect(fieldCount).toBe(10)
+    expect(fieldCount).toBe(11)
   })
 
   it('should have all fields as optional', () => {
@@ -0,0 +1,90 @@
+/**
+ * Select query builders whose results are served from the cache.
+ *
+ * `interceptQuery` runs when the query builder is created, before the query is
+ * built, so the builder is wrapped in a proxy: builders returned by its methods
+ * are wrapped too, and the `execute*` methods of the final builder go through the cache.
+ *
+ * @module @kysera/cache
+ */
+
+import {
+  isNoResultErrorConstructor,
+  NoResultError,
+  type Compilable,
+  type NoResultErrorConstructor,
+  type OperationNodeSource,
+  type QueryNode
+} from 'kysely'
+
+/**
+ * Select query builder as seen by the cache
+ * @internal
+ */
+export interface CacheableQuery extends Compilable, OperationNodeSource {
+  execute(): Promise<unknown[]>
+  toOperationNode(): QueryNode
+}
+
+/**
+ * Run a query through the cache
+ * @internal
+ */
+export type CachedExecute = (query: CacheableQuery) => Promise<unknown[]>
+
+function isCacheableQuery(value: unknown): value is CacheableQuery {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Partial<CacheableQuery>).execute === 'function' &&
+    typeof (value as Partial<CacheableQuery>).compile === 'function' &&
+    typeof (value as Partial<CacheableQuery>).toOperationNode === 'function'
+  )
+}
+
+/**
+ * Wrap a select query builder so its results are read through `execute`
+ * @internal
+ */
+export function wrapCachedBuilder<QB>(qb: QB, execute: CachedExecute): QB {
+  if (!isCacheableQuery(qb)) {
+    return qb
+  }
+
+  return new Proxy(qb, {
+    get(target, prop, receiver) {
+      if (prop === 'execute') {
+        return () => execute(target)
+      }
+      if (prop === 'executeTakeFirst') {
+        return async () => (await execute(target))[0]
+      }
+      if (prop === 'executeTakeFirstOrThrow') {
+        return async (
+          errorConstructor: NoResultErrorConstructor | ((node: QueryNode) => Error) = NoResultError
+        ) => {
+          const [result] = await execute(target)
+          if (result === undefined) {
+            throw isNoResultErrorConstructor(errorConstructor)
+              ? new errorConstructor(target.toOperationNode())
+              : errorConstructor(target.toOperationNode())
+          }
+          return result
+        }
+      }
+
+      // Bound to the target: Kysely builders keep their state in private fields
+      const value: unknown = Reflect.get(target, prop, target)
+      if (typeof value !== 'function') {
+        return value
+      }
+      return (...args: unknown[]) => {
+        const result: unknown = (value as (...a: unknown[]) => unknown).apply(target, args)
+        if (result === target) {
+          return receiver
+        }
+        return isCacheableQuery(result) ? wrapCachedBuilder(result, execute) : result
+      }
+    }
+  })
+}
@@ -0,0 +1,415 @@
+import type {
+  Kysely,
+  KyselyPlugin,
+  Transaction,
+  PluginTransformQueryArgs,
+  PluginTransformResultArgs,
+  QueryId,
+  QueryResult,
+  RootOperationNode,
+  UnknownRow
+} from 'kysely'
+import {
+  applyPlugins,
+  getRawDb,
+  type KyseraExecutor,
+  type Plugin,
+  type QueryBuilderContext
+} from '@kysera/executor'
+import { shouldApplyToTable, silentLogger, type KyseraLogger } from '@kysera/core'
+import { VERSION } from './version.js'
+import { MemoryCacheStore, type CacheStore } from './store.js'
+import { buildCacheKey, loadDefaultCacheScope, type CacheScopeResolver } from './key.js'
+import { collectReadTables, collectWrittenTables } from './tables.js'
+import { wrapCachedBuilder, type CacheableQuery } from './builder.js'
+
+export {
+  MemoryCacheStore,
+  type CacheStore,
+  type CacheSetOptions,
+  type MemoryCacheStoreOptions
+} from './store.js'
+export {
+  rlsCacheScope,
+  stableStringify,
+  type CacheScopeResolver,
+  type RLSContextSource
+} from './key.js'
+export { collectReadTables, collectWrittenTables } from './tables.js'
+
+/** `context.metadata` key that opts a select query into caching */
+export const CACHE_METADATA_KEY = 'cache'
+
+/**
+ * Value of `context.metadata.cache`: `true` caches with the plugin's TTL
+ */
+export type QueryCacheMetadata = boolean | QueryCacheOptions
+
+/**
+ * Per-query cache options
+ */
+export interface QueryCacheOptions {
+  /** Time to live in milliseconds (default: the plugin's `ttl`) */
+  ttl?: number
+}
+
+/**
+ * Options for the cache plugin
+ */
+export interface CacheOptions {
+  /**
+   * Where results are stored
+   * @default new MemoryCacheStore() (in-memory LRU, 1000 entries)
+   */
+  store?: CacheStore
+
+  /**
+   * Default time to live in milliseconds
+   * @default 60000
+   */
+  ttl?: number
+
+  /**
+   * Prefix of cache keys. Give executors of different databases sharing a
+   * store different namespaces.
+   * @default 'kysera'
+   */
+  namespace?: string
+
+  /**
+   * Part of the cache key identifying who a query runs for.
+   * Entries are only shared between queries with equal scopes.
+   *
+   * Without it, the scope is `rlsCacheScope(rlsContext)` (RLS `auth` without
+   * `user`, and `meta`) when `@kysera/rls` is installed, and none otherwise.
+   * The default is loaded by `createExecutor()`; until then nothing is cached.
+   */
+  scope?: CacheScopeResolver
+
+  /**
+   * Tables whose queries can be cached. A query is cached only when every
+   * table it reads is included. Takes precedence over excludeTables.
+   */
+  tables?: string[]
+
+  /**
+   * Tables whose queries are never cached (e.g. ['sessions'])
+   */
+  excludeTables?: string[]
+
+  /**
+   * Logger for store failures and invalidations
+   * @default silentLogger (no output)
+   */
+  logger?: KyseraLogger
+}
+
+/**
+ * Cache plugin, with cache control methods
+ */
+export interface CachePlugin extends Plugin {
+  /** Store holding the cached results */
+  readonly store: CacheStore
+
+  /**
+   * View of an executor whose `selectFrom` queries opt into caching,
+   * as if they had `context.metadata.cache` set to `options`.
+   * The executor must have been created with this plugin.
+   */
+  cached<DB>(executor: KyseraExecutor<DB>, options?: QueryCacheOptions): KyseraExecutor<DB>
+
+  /**
+   * Drop cached results of queries that read any of the tables,
+   * e.g. after writing to them with raw SQL
+   */
+  invalidate(tables: string | readonly string[]): Promise<void>
+
+  /**
+   * Drop all cached results
+   */
+  clear(): Promise<void>
+}
+
+const DEFAULT_TTL = 60_000
+
+const WRITE_OPERATIONS = new Set<QueryBuilderContext['operation']>([
+  'insert',
+  'update',
+  'delete',
+  'replace',
+  'merge'
+])
+
+function assertTtl(ttl: number): void {
+  if (!Number.isFinite(ttl) || ttl <= 0) {
+    throw new Error(`Cache TTL must be a positive number of milliseconds, got ${String(ttl)}`)
+  }
+}
+
+/**
+ * Resolve the TTL of a query from `context.metadata.cache`, or undefined when
+ * the query doesn't opt into caching
+ */
+function resolveQueryTtl(
+  metadata: Record<string, unknown>,
+  defaultTtl: number
+): number | undefined {
+  const value = metadata[CACHE_METADATA_KEY] as QueryCacheMetadata | undefined
+  if (value === undefined || value === false) {
+    return undefined
+  }
+  const ttl = value === true ? defaultTtl : (value.ttl ?? defaultTtl)
+  assertTtl(ttl)
+  return ttl
+}
+
+/**
+ * Kysely plugin invalidating the tables a write query changed
+ */
+class InvalidationPlugin implements KyselyPlugin {
+  private readonly pending = new WeakMap<QueryId, string[]>()
+
+  constructor(
+    private readonly markChanged: (tables: readonly string[]) => void,
+    private readonly invalidate: (tables: readonly string[]) => Promise<void>
+  ) {}
+
+  transformQuery(args: PluginTransformQueryArgs): RootOperationNode {
+    const tables = collectWrittenTables(args.node)
+    if (tables.length > 0) {
+      // Reads running during the write must not store what they read
+      this.markChanged(tables)
+      this.pending.set(args.queryId, tables)
+    }
+    return args.node
+  }
+
+  async transformResult(args: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    const tables = this.pending.get(args.queryId)
+    if (tables) {
+      this.pending.delete(args.queryId)
+      await this.invalidate(tables)
+    }
+    return args.result
+  }
+}
+
+/**
+ * Cache Plugin
+ *
+ * Serves the results of select queries that opt in through `context.metadata.cache`
+ * from a cache, keyed by the compiled SQL, its parameters and the caller's scope
+ * (by default the active RLS context).
+ *
+ * ## Caching
+ *
+ * - A select is cached when `context.metadata.cache` is `true` or `{ ttl }`
+ *   (set with {@link CachePlugin.cached}, `withMetadata()` of a replica executor,
+ *   or `applyPlugins()`), and every table it reads passes `tables`/`excludeTables`
+ * - Queries in transactions are neither served from nor stored in the cache
+ * - Store failures are logged and the query runs against the database
+ *
+ * ## Invalidation
+ *
+ * Inserts, updates, deletes and merges made through the executor drop every
+ * cached result that read the written table, including through joins and
+ * subqueries, once the write has executed. Writes that bypass the executor
+ * (raw SQL, `getRawDb()`) need {@link CachePlugin.invalidate}. A write inside a
+ * transaction invalidates when it executes, and again once the transaction
+ * opened through the executor (`transaction()`, `withTransaction()` of `@kysera/dal`)
+ * commits, so results cached by other connections in between are dropped too.
+ *
+ * @example
+ * ```typescript
+ * import { createExecutor } from '@kysera/executor'
+ * import { cachePlugin } from '@kysera/cache'
+ *
+ * const cache = cachePlugin({ ttl: 30_000 })
+ * const executor = await createExecutor(db, [rlsPlugin({ schema }), cache])
+ *
+ * // Cached for 5 minutes, per RLS context
+ * const categories = await cache
+ *   .cached(executor, { ttl: 300_000 })
+ *   .selectFrom('categories')
+ *   .selectAll()
+ *   .execute()
+ *
+ * // Drops cached 'categories' results
+ * await executor.insertInto('categories').values({ name: 'Books' }).execute()
+ * ```
+ */
+export const cachePlugin = (options: CacheOptions = {}): CachePlugin => {
+  const {
+    store = new MemoryCacheStore(),
+    ttl: defaultTtl = DEFAULT_TTL,
+    namespace = 'kysera',
+    tables,
+    excludeTables,
+    logger = silentLogger
+  } = options
+  assertTtl(defaultTtl)
+
+  let scope: CacheScopeResolver | undefined = options.scope
+
+  // Bumped on every invalidation, so a read that overlapped a write doesn't store its result
+  let epoch = 0
+  const generations = new Map<string, number>()
+
+  const markChanged = (changed: readonly string[]): void => {
+    for (const table of changed) {
+      generations.set(table, (generations.get(table) ?? 0) + 1)
+    }
+  }
+
+  const generationOf = (read: readonly string[]): string =>
+    `${String(epoch)}:${read.map(table => String(generations.get(table) ?? 0)).join(',')}`
+
+  const invalidateAfterWrite = async (changed: readonly string[]): Promise<void> => {
+    markChanged(changed)
+    try {
+      await store.invalidate(changed)
+      logger.debug(`Invalidated cached queries of ${changed.join(', ')}`)
+    } catch (error) {
+      logger.error(`Failed to invalidate cached queries of ${changed.join(', ')}`, {
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  const invalidation = new InvalidationPlugin(markChanged, invalidateAfterWrite)
+
+  // Tables written by open transactions, invalidated again when they commit
+  const transactionWrites = new WeakMap<Transaction<unknown>, Set<string>>()
+
+  const transactionInvalidation = (trx: Transaction<unknown>): InvalidationPlugin =>
+    new InvalidationPlugin(markChanged, async changed => {
+      const written = transactionWrites.get(trx) ?? new Set<string>()
+      for (const table of changed) written.add(table)
+      transactionWrites.set(trx, written)
+      await invalidateAfterWrite(changed)
+    })
+
+  const executeCached = async (query: CacheableQuery, ttl: number): Promise<unknown[]> => {
+    const compiled = query.compile()
+    const read = collectReadTables(compiled.query)
+    if (
+      scope === undefined ||
+      read.length === 0 ||
+      !read.every(table => shouldApplyToTable(table, { tables, excludeTables }))
+    ) {
+      return await query.execute()
+    }
+
+    const key = buildCacheKey(namespace, scope(), compiled.sql, compiled.parameters)
+    try {
+      const hit = await store.get(key)
+      if (hit !== undefined) {
+        return hit
+      }
+    } catch (error) {
+      logger.warn('Failed to read from the query cache', {
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+
+    const generation = generationOf(read)
+    const rows = await query.execute()
+    if (generationOf(read) === generation) {
+      try {
+        await store.set(key, rows, { ttl, tables: read })
+      } catch (error) {
+        logger.warn('Failed to write to the query cache', {
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
+    return rows
+  }
+
+  const plugin: CachePlugin = {
+    name: '@kysera/cache',
+    version: VERSION,
+    store,
+
+    async onInit() {
+      scope ??= await loadDefaultCacheScope()
+    },
+
+    async onTransactionCommit(trx: Transaction<unknown>) {
+      const written = transactionWrites.get(trx)
+      if (written) {
+        transactionWrites.delete(trx)
+        await invalidateAfterWrite([...written])
+      }
+    },
+
+    onDestroy() {
+      logger.debug('Cache plugin destroyed')
+    },
+
+    interceptQuery<QB>(qb: QB, context: QueryBuilderContext): QB {
+      if (WRITE_OPERATIONS.has(context.operation)) {
+        const rawDb = context.rawDb
+        return (qb as unknown as { withPlugin(plugin: KyselyPlugin): QB }).withPlugin(
+          rawDb?.isTransaction
+            ? transactionInvalidation(rawDb as Transaction<unknown>)
+            : invalidation
+        )
+      }
+
+      const ttl = resolveQueryTtl(context.metadata, defaultTtl)
+      if (context.operation !== 'select' || ttl === undefined || context.rawDb?.isTransaction) {
+        return qb
+      }
+      return wrapCachedBuilder(qb, query => executeCached(query, ttl))
+    },
+
+    cached<DB>(
+      executor: KyseraExecutor<DB>,
+      queryOptions: QueryCacheOptions = {}
+    ): KyseraExecutor<DB> {
+      if (!executor.__plugins.includes(plugin)) {
+        throw new Error('cached() requires an executor created with this cache plugin')
+      }
+      if (queryOptions.ttl !== undefined) {
+        assertTtl(queryOptions.ttl)
+      }
+
+      const interceptors = executor.__plugins.filter(p => p.interceptQuery !== undefined)
+      const rawDb = getRawDb(executor)
+      const schema = executor.__schema
+
+      const selectFrom = (table: string): unknown => {
+        const qb = (rawDb.selectFrom as (t: string) => unknown).call(rawDb, table)
+        const context: QueryBuilderContext = {
+          operation: 'select',
+          table,
+          ...(schema !== undefined && { schema }),
+          metadata: { [CACHE_METADATA_KEY]: queryOptions },
+          rawDb: rawDb as Kysely<unknown>
+        }
+        return applyPlugins(qb, interceptors, context)
+      }
+
+      return new Proxy(executor, {
+        get(target, prop) {
+          if (prop === 'selectFrom') return selectFrom
+          return Reflect.get(target, prop)
+        }
+      })
+    },
+
+    async invalidate(invalidated: string | readonly string[]): Promise<void> {
+      const list = typeof invalidated === 'string' ? [invalidated] : [...invalidated]
+      markChanged(list)
+      await store.invalidate(list)
+    },
+
+    async clear(): Promise<void> {
+      epoch++
+      await store.clear()
+    }
+  }
+
+  return plugin
+}
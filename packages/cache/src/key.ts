@@ -0,0 +1,98 @@
+/**
+ * Cache keys.
+ *
+ * @module @kysera/cache
+ */
+
+/**
+ * Serialize a value to JSON with sorted object keys, so equal values always give
+ * the same string. Dates, bigints and binary values are encoded with a type tag.
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(normalize(value))
+}
+
+function normalize(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() }
+  }
+  if (value instanceof Date) {
+    return { $date: value.toISOString() }
+  }
+  if (value instanceof Uint8Array) {
+    return { $bytes: Array.from(value) }
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize)
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {}
+    for (const key of Object.keys(value).sort()) {
+      result[key] = normalize((value as Record<string, unknown>)[key])
+    }
+    return result
+  }
+  return value
+}
+
+/**
+ * Part of the cache key identifying who a query runs for.
+ *
+ * Entries are only shared between queries whose scopes serialize equally, so
+ * the scope must cover everything the query's results depend on besides its
+ * SQL and parameters (user, tenant, roles, ...).
+ */
+export type CacheScopeResolver = () => unknown
+
+/**
+ * Ambient RLS context as seen by {@link rlsCacheScope}
+ * (structurally compatible with `rlsContext` of `@kysera/rls`)
+ */
+export interface RLSContextSource {
+  getContextOrNull(): { auth: { user?: unknown }; meta?: unknown } | null
+}
+
+/**
+ * Scope of the active RLS context: its `auth` (without the `user` object) and
+ * `meta`, so results are never shared across users, tenants, roles or system contexts.
+ *
+ * @example
+ * ```typescript
+ * import { rlsContext } from '@kysera/rls'
+ *
+ * cachePlugin({ scope: rlsCacheScope(rlsContext) })
+ * ```
+ */
+export function rlsCacheScope(source: RLSContextSource): CacheScopeResolver {
+  return () => {
+    const context = source.getContextOrNull()
+    if (!context) return null
+    const { user: _user, ...auth } = context.auth
+    return { auth, meta: context.meta ?? null }
+  }
+}
+
+/**
+ * Default scope: {@link rlsCacheScope} when `@kysera/rls` is installed,
+ * no scope otherwise
+ */
+export async function loadDefaultCacheScope(): Promise<CacheScopeResolver> {
+  try {
+    const { rlsContext } = await import('@kysera/rls')
+    return rlsCacheScope(rlsContext)
+  } catch {
+    return () => null
+  }
+}
+
+/**
+ * Build the cache key of a compiled query for a resolved scope
+ */
+export function buildCacheKey(
+  namespace: string,
+  scope: unknown,
+  sql: string,
+  parameters: readonly unknown[]
+): string {
+  return `${namespace}:${stableStringify([scope, sql, parameters])}`
+}
@@ -0,0 +1,167 @@
+/**
+ * Cache stores.
+ *
+ * @module @kysera/cache
+ */
+
+/**
+ * Options for storing a query result
+ */
+export interface CacheSetOptions {
+  /** Time to live in milliseconds */
+  ttl: number
+  /** Tables the query read; the entry is dropped when one of them is invalidated */
+  tables: readonly string[]
+}
+
+/**
+ * Storage for cached query results.
+ *
+ * Entries are tagged with the tables their query read, so a store shared by
+ * several processes (e.g. Redis) also shares invalidations. Methods may be
+ * synchronous or return promises.
+ */
+export interface CacheStore {
+  /**
+   * Rows stored under `key`, or undefined when missing or expired
+   */
+  get(key: string): Promise<unknown[] | undefined> | unknown[] | undefined
+
+  /**
+   * Store rows under `key`, tagged with the tables the query read
+   */
+  set(key: string, rows: unknown[], options: CacheSetOptions): Promise<void> | void
+
+  /**
+   * Drop every entry tagged with one of the tables
+   */
+  invalidate(tables: readonly string[]): Promise<void> | void
+
+  /**
+   * Drop every entry
+   */
+  clear(): Promise<void> | void
+}
+
+/**
+ * Options for MemoryCacheStore
+ */
+export interface MemoryCacheStoreOptions {
+  /**
+   * Maximum number of entries; the least recently used entry is evicted first
+   * @default 1000
+   */
+  maxEntries?: number
+}
+
+/**
+ * Entry of a MemoryCacheStore
+ */
+interface MemoryEntry {
+  rows: unknown[]
+  tables: readonly string[]
+  expiresAt: number
+}
+
+/**
+ * In-memory LRU cache store.
+ *
+ * Rows are copied on the way out, so callers mutating a result don't change
+ * the cached rows (nested objects, such as JSON columns, are shared).
+ *
+ * @example
+ * ```typescript
+ * const cache = cachePlugin({ store: new MemoryCacheStore({ maxEntries: 5000 }) })
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly maxEntries: number
+  private readonly entries = new Map<string, MemoryEntry>()
+  private readonly keysByTable = new Map<string, Set<string>>()
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    const { maxEntries = 1000 } = options
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(`maxEntries must be a positive integer, got ${String(maxEntries)}`)
+    }
+    this.maxEntries = maxEntries
+  }
+
+  /**
+   * Number of entries, including expired entries not yet evicted
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  get(key: string): unknown[] | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key)
+      return undefined
+    }
+
+    // Move to the end (most recently used)
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    return entry.rows.map(row => (isPlainRow(row) ? { ...row } : row))
+  }
+
+  set(key: string, rows: unknown[], options: CacheSetOptions): void {
+    this.delete(key)
+    this.entries.set(key, {
+      rows: rows.map(row => (isPlainRow(row) ? { ...row } : row)),
+      tables: options.tables,
+      expiresAt: Date.now() + options.ttl
+    })
+    for (const table of options.tables) {
+      let keys = this.keysByTable.get(table)
+      if (!keys) {
+        keys = new Set()
+        this.keysByTable.set(table, keys)
+      }
+      keys.add(key)
+    }
+
+    // Evict the least recently used (first) entries
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.delete(oldest)
+    }
+  }
+
+  invalidate(tables: readonly string[]): void {
+    for (const table of tables) {
+      for (const key of [...(this.keysByTable.get(table) ?? [])]) {
+        this.delete(key)
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear()
+    this.keysByTable.clear()
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key)
+    if (!entry) return
+    this.entries.delete(key)
+    for (const table of entry.tables) {
+      const keys = this.keysByTable.get(table)
+      keys?.delete(key)
+      if (keys?.size === 0) {
+        this.keysByTable.delete(table)
+      }
+    }
+  }
+}
+
+function isPlainRow(row: unknown): row is Record<string, unknown> {
+  return typeof row === 'object' && row !== null && !Array.isArray(row)
+}
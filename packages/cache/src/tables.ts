@@ -0,0 +1,82 @@
+/**
+ * Tables read and written by queries, from their operation nodes.
+ *
+ * @module @kysera/cache
+ */
+
+import {
+  AliasNode,
+  ReferenceNode,
+  TableNode,
+  type OperationNode,
+  type RootOperationNode
+} from 'kysely'
+
+/**
+ * Name of the table in a table or aliased table node, without schema
+ */
+function tableName(node: OperationNode | undefined): string | undefined {
+  if (!node) return undefined
+  if (AliasNode.is(node)) return tableName(node.node)
+  if (TableNode.is(node)) return node.table.identifier.name
+  return undefined
+}
+
+/**
+ * Every table a query references, including joined tables, subqueries and CTEs
+ * (table names without schema, sorted)
+ */
+export function collectReadTables(node: OperationNode): string[] {
+  const tables = new Set<string>()
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit)
+      return
+    }
+    if (typeof value !== 'object' || value === null) {
+      return
+    }
+    const node = value as OperationNode
+    if (TableNode.is(node)) {
+      tables.add(node.table.identifier.name)
+      return
+    }
+    if (ReferenceNode.is(node)) {
+      // `u.id` qualifies a column with a table or alias already in the query
+      visit(node.column)
+      return
+    }
+    Object.values(value).forEach(visit)
+  }
+  visit(node)
+  return [...tables].sort()
+}
+
+/**
+ * Tables an insert, update, delete or merge query writes to (table names without schema)
+ */
+export function collectWrittenTables(node: RootOperationNode): string[] {
+  const targets: (OperationNode | undefined)[] = []
+
+  switch (node.kind) {
+    case 'InsertQueryNode':
+      targets.push(node.into)
+      break
+    case 'UpdateQueryNode':
+      targets.push(node.table)
+      break
+    case 'DeleteQueryNode':
+      targets.push(...node.from.froms)
+      break
+    case 'MergeQueryNode':
+      targets.push(node.into)
+      break
+  }
+
+  const tables = new Set<string>()
+  for (const target of targets) {
+    const name = tableName(target)
+    if (name !== undefined) tables.add(name)
+  }
+  return [...tables]
+}
@@ -0,0 +1,390 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Kysely, NoResultError, SqliteDialect, sql } from 'kysely'
+import Database from 'better-sqlite3'
+import {
+  applyPlugins,
+  createExecutor,
+  createExecutorSync,
+  createReplicaExecutor,
+  type KyseraExecutor
+} from '@kysera/executor'
+import { createRLSContext, rlsContext, withRLSContextAsync } from '@kysera/rls'
+import {
+  cachePlugin,
+  collectReadTables,
+  MemoryCacheStore,
+  rlsCacheScope,
+  type CachePlugin,
+  type CacheStore
+} from '../src/index.js'
+
+interface TestDatabase {
+  users: {
+    id?: number
+    email: string
+    tenant_id: number
+  }
+  posts: {
+    id?: number
+    user_id: number
+    title: string
+  }
+}
+
+describe('cachePlugin', () => {
+  let db: Kysely<TestDatabase>
+  let queries: string[]
+  let cache: CachePlugin
+  let executor: KyseraExecutor<TestDatabase>
+
+  beforeEach(async () => {
+    queries = []
+    db = new Kysely<TestDatabase>({
+      dialect: new SqliteDialect({ database: new Database(':memory:') }),
+      log: event => {
+        if (event.level === 'query') queries.push(event.query.sql)
+      }
+    })
+    await db.schema
+      .createTable('users')
+      .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+      .addColumn('email', 'text', col => col.notNull())
+      .addColumn('tenant_id', 'integer', col => col.notNull())
+      .execute()
+    await db.schema
+      .createTable('posts')
+      .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+      .addColumn('user_id', 'integer', col => col.notNull())
+      .addColumn('title', 'text', col => col.notNull())
+      .execute()
+    await db
+      .insertInto('users')
+      .values([
+        { email: 'a@example.com', tenant_id: 1 },
+        { email: 'b@example.com', tenant_id: 2 }
+      ])
+      .execute()
+    await db.insertInto('posts').values({ user_id: 1, title: 'Hello' }).execute()
+
+    cache = cachePlugin()
+    executor = await createExecutor(db, [cache])
+    queries = []
+  })
+
+  afterEach(async () => {
+    vi.useRealTimers()
+    await db.destroy()
+  })
+
+  it('should serve repeated selects from the cache', async () => {
+    const cached = cache.cached(executor)
+
+    const first = await cached.selectFrom('users').selectAll().orderBy('id').execute()
+    const second = await cached.selectFrom('users').selectAll().orderBy('id').execute()
+
+    expect(second).toEqual(first)
+    expect(first).toHaveLength(2)
+    expect(queries).toHaveLength(1)
+  })
+
+  it('should key entries by SQL and parameters', async () => {
+    const cached = cache.cached(executor)
+
+    const a = await cached.selectFrom('users').select('email').where('id', '=', 1).execute()
+    const b = await cached.selectFrom('users').select('email').where('id', '=', 2).execute()
+    await cached.selectFrom('users').select('email').where('id', '=', 1).execute()
+
+    expect(a).toEqual([{ email: 'a@example.com' }])
+    expect(b).toEqual([{ email: 'b@example.com' }])
+    expect(queries).toHaveLength(2)
+  })
+
+  it('should not cache queries that do not opt in', async () => {
+    await executor.selectFrom('users').selectAll().execute()
+    await executor.selectFrom('users').selectAll().execute()
+
+    expect(queries).toHaveLength(2)
+  })
+
+  it('should opt in through context.metadata', async () => {
+    const interceptors = executor.__plugins
+    const select = () =>
+      applyPlugins(db.selectFrom('users').selectAll(), interceptors, {
+        operation: 'select',
+        table: 'users',
+        metadata: { cache: { ttl: 1000 } },
+        rawDb: db as unknown as Kysely<unknown>
+      })
+
+    await select().execute()
+    await select().execute()
+
+    expect(queries).toHaveLength(1)
+  })
+
+  it('should opt in through withMetadata() of a replica executor', async () => {
+    const replicated = await createReplicaExecutor(db, [db], [cache])
+
+    await replicated.withMetadata({ cache: true }).selectFrom('users').selectAll().execute()
+    await replicated.withMetadata({ cache: true }).selectFrom('users').selectAll().execute()
+
+    expect(queries).toHaveLength(1)
+  })
+
+  it('should cache executeTakeFirst and executeTakeFirstOrThrow', async () => {
+    const cached = cache.cached(executor)
+    const byId = (id: number) => cached.selectFrom('users').select('email').where('id', '=', id)
+
+    expect(await byId(1).executeTakeFirst()).toEqual({ email: 'a@example.com' })
+    expect(await byId(1).executeTakeFirstOrThrow()).toEqual({ email: 'a@example.com' })
+    await expect(byId(99).executeTakeFirstOrThrow()).rejects.toBeInstanceOf(NoResultError)
+    await expect(byId(99).executeTakeFirstOrThrow()).rejects.toBeInstanceOf(NoResultError)
+
+    expect(queries).toHaveLength(2)
+  })
+
+  it('should invalidate entries when the table is written', async () => {
+    const cached = cache.cached(executor)
+    const count = async () => (await cached.selectFrom('users').select('id').execute()).length
+
+    expect(await count()).toBe(2)
+    await executor.insertInto('users').values({ email: 'c@example.com', tenant_id: 1 }).execute()
+    expect(await count()).toBe(3)
+    await executor.updateTable('users').set({ tenant_id: 3 }).where('id', '=', 3).execute()
+    expect(await count()).toBe(3)
+    await executor.deleteFrom('users').where('id', '=', 3).execute()
+    expect(await count()).toBe(2)
+
+    expect(queries.filter(query => query.startsWith('select'))).toHaveLength(4)
+  })
+
+  it('should invalidate entries of joined tables', async () => {
+    const cached = cache.cached(executor)
+    const titles = () =>
+      cached
+        .selectFrom('users as u')
+        .innerJoin('posts as p', 'p.user_id', 'u.id')
+        .select(['u.email', 'p.title'])
+        .execute()
+
+    expect(await titles()).toEqual([{ email: 'a@example.com', title: 'Hello' }])
+    await executor.updateTable('posts').set({ title: 'Updated' }).execute()
+    expect(await titles()).toEqual([{ email: 'a@example.com', title: 'Updated' }])
+  })
+
+  it('should keep entries of other tables', async () => {
+    const cached = cache.cached(executor)
+
+    await cached.selectFrom('users').selectAll().execute()
+    await executor.insertInto('posts').values({ user_id: 2, title: 'Other' }).execute()
+    await cached.selectFrom('users').selectAll().execute()
+
+    expect(queries.filter(query => query.startsWith('select'))).toHaveLength(1)
+  })
+
+  it('should expire entries after their TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const shortLived = cache.cached(executor, { ttl: 1000 })
+
+    await shortLived.selectFrom('users').selectAll().execute()
+    vi.advanceTimersByTime(999)
+    await shortLived.selectFrom('users').selectAll().execute()
+    vi.advanceTimersByTime(1)
+    await shortLived.selectFrom('users').selectAll().execute()
+
+    expect(queries).toHaveLength(2)
+  })
+
+  it('should never share entries across RLS contexts', async () => {
+    const cached = cache.cached(executor)
+    const users = () => cached.selectFrom('users').select('email').execute()
+    const as = (userId: number, tenantId: number) =>
+      createRLSContext({ auth: { userId, tenantId, roles: ['user'] } })
+
+    await withRLSContextAsync(as(1, 1), users)
+    await withRLSContextAsync(as(1, 1), users)
+    await withRLSContextAsync(as(2, 1), users)
+    await withRLSContextAsync(as(1, 2), users)
+    await users()
+
+    expect(queries).toHaveLength(4)
+  })
+
+  it('should bypass the cache in transactions', async () => {
+    await executor.transaction().execute(async trx => {
+      const cached = cache.cached(trx as unknown as KyseraExecutor<TestDatabase>)
+      await cached.selectFrom('users').selectAll().execute()
+      await cached.selectFrom('users').selectAll().execute()
+    })
+
+    expect(queries.filter(query => query.startsWith('select'))).toHaveLength(2)
+  })
+
+  it('should invalidate transaction writes again after commit', async () => {
+    const invalidated: string[] = []
+    const store = new MemoryCacheStore()
+    const invalidate = store.invalidate.bind(store)
+    store.invalidate = async tables => {
+      invalidated.push(tables.join(','))
+      await invalidate(tables)
+    }
+    const tracked = cachePlugin({ store })
+    const trackedExecutor = await createExecutor(db, [tracked])
+
+    await trackedExecutor.transaction().execute(async trx => {
+      await trx.insertInto('users').values({ email: 'c@example.com', tenant_id: 1 }).execute()
+      await trx.updateTable('posts').set({ title: 'Updated' }).execute()
+      expect(invalidated).toEqual(['users', 'posts'])
+    })
+    expect(invalidated).toEqual(['users', 'posts', 'users,posts'])
+
+    await expect(
+      trackedExecutor.transaction().execute(async trx => {
+        await trx.deleteFrom('posts').execute()
+        throw new Error('rollback')
+      })
+    ).rejects.toThrow('rollback')
+    expect(invalidated).toEqual(['users', 'posts', 'users,posts', 'posts'])
+  })
+
+  it('should not cache before the default scope is loaded', async () => {
+    const uninitialized = cachePlugin()
+    const cached = uninitialized.cached(createExecutorSync(db, [uninitialized]))
+    await cached.selectFrom('users').selectAll().execute()
+    await cached.selectFrom('users').selectAll().execute()
+
+    const scoped = cachePlugin({ scope: rlsCacheScope(rlsContext) })
+    const scopedCached = scoped.cached(createExecutorSync(db, [scoped]))
+    await scopedCached.selectFrom('users').selectAll().execute()
+    await scopedCached.selectFrom('users').selectAll().execute()
+
+    expect(queries).toHaveLength(3)
+  })
+
+  it('should not cache queries reading excluded tables', async () => {
+    const filtered = cachePlugin({ excludeTables: ['posts'] })
+    const cached = filtered.cached(await createExecutor(db, [filtered]))
+
+    await cached.selectFrom('users').selectAll().execute()
+    await cached.selectFrom('users').selectAll().execute()
+    await cached.selectFrom('posts').selectAll().execute()
+    await cached.selectFrom('posts').selectAll().execute()
+    await cached
+      .selectFrom('users')
+      .innerJoin('posts', 'posts.user_id', 'users.id')
+      .selectAll()
+      .execute()
+    await cached
+      .selectFrom('users')
+      .innerJoin('posts', 'posts.user_id', 'users.id')
+      .selectAll()
+      .execute()
+
+    expect(queries).toHaveLength(5)
+  })
+
+  it('should invalidate and clear on demand', async () => {
+    const cached = cache.cached(executor)
+
+    await cached.selectFrom('users').selectAll().execute()
+    await sql`update users set email = 'z@example.com' where id = 1`.execute(db)
+    await cache.invalidate('users')
+    const [first] = await cached.selectFrom('users').selectAll().orderBy('id').execute()
+    await cache.clear()
+    await cached.selectFrom('users').selectAll().orderBy('id').execute()
+
+    expect(first?.email).toBe('z@example.com')
+    expect(queries.filter(query => query.startsWith('select'))).toHaveLength(3)
+  })
+
+  it('should run queries when the store fails', async () => {
+    const failing: CacheStore = {
+      get: () => Promise.reject(new Error('connection refused')),
+      set: () => Promise.reject(new Error('connection refused')),
+      invalidate: () => Promise.reject(new Error('connection refused')),
+      clear: () => undefined
+    }
+    const logger = {
+      trace: vi.fn(),
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      fatal: vi.fn()
+    }
+    const unreliable = cachePlugin({ store: failing, logger })
+    const unreliableExecutor = await createExecutor(db, [unreliable])
+
+    const rows = await unreliable
+      .cached(unreliableExecutor)
+      .selectFrom('users')
+      .selectAll()
+      .execute()
+    await unreliableExecutor.deleteFrom('posts').execute()
+
+    expect(rows).toHaveLength(2)
+    expect(logger.warn).toHaveBeenCalledWith('Failed to read from the query cache', {
+      error: 'connection refused'
+    })
+    expect(logger.error).toHaveBeenCalledWith('Failed to invalidate cached queries of posts', {
+      error: 'connection refused'
+    })
+  })
+
+  it('should reject executors without the plugin and invalid TTLs', async () => {
+    const plain = await createExecutor(db, [])
+
+    expect(() => cache.cached(plain)).toThrow(
+      'cached() requires an executor created with this cache plugin'
+    )
+    expect(() => cache.cached(executor, { ttl: 0 })).toThrow(
+      'Cache TTL must be a positive number of milliseconds, got 0'
+    )
+    expect(() => cachePlugin({ ttl: -1 })).toThrow(
+      'Cache TTL must be a positive number of milliseconds, got -1'
+    )
+  })
+})
+
+describe('collectReadTables', () => {
+  it('should collect joined tables and subqueries', () => {
+    const db = new Kysely<TestDatabase>({
+      dialect: new SqliteDialect({ database: new Database(':memory:') })
+    })
+    const query = db
+      .selectFrom('users as u')
+      .leftJoin('posts', 'posts.user_id', 'u.id')
+      .where('u.id', 'in', eb => eb.selectFrom('posts').select('user_id'))
+      .selectAll()
+
+    expect(collectReadTables(query.toOperationNode())).toEqual(['posts', 'users'])
+  })
+})
+
+describe('MemoryCacheStore', () => {
+  it('should evict the least recently used entry', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 })
+    store.set('a', [1], { ttl: 1000, tables: ['users'] })
+    store.set('b', [2], { ttl: 1000, tables: ['users'] })
+    store.get('a')
+    store.set('c', [3], { ttl: 1000, tables: ['posts'] })
+
+    expect(store.get('a')).toEqual([1])
+    expect(store.get('b')).toBeUndefined()
+    expect(store.size).toBe(2)
+
+    store.invalidate(['users'])
+    expect(store.get('a')).toBeUndefined()
+    expect(store.get('c')).toEqual([3])
+  })
+
+  it('should return copies of cached rows', () => {
+    const store = new MemoryCacheStore()
+    store.set('users', [{ id: 1, email: 'a@example.com' }], { ttl: 1000, tables: ['users'] })
+
+    const [row] = store.get('users') as { email: string }[]
+    row!.email = 'changed'
+
+    expect(store.get('users')).toEqual([{ id: 1, email: 'a@example.com' }])
+  })
+})
@@ -11,7 +11,8 @@ import type { Dialect } from './types.js'
  *
  * **Detection strategy:**
  * 1. Primary: Generates a test query and analyzes identifier quoting in compiled SQL
- *    - Double quotes `"table"` → postgres
+ *    - Double quotes `"table"` with `$1` placeholders → postgres
+ *    - Double quotes `"table"` with `?` placeholders → sqlite
  *    - Backticks `` `table` `` → mysql
  *    - Square brackets `[table]` → mssql
  *    - No quotes (or double quotes in some cases) → sqlite
@@ -105,7 +106,7 @@ export function detectDialect<DB>(executor: Kysely<DB>): Dialect {
     // just to generate SQL for dialect detection
     const query = (executor as Kysely<any>)
       .selectFrom('_kysera_test')
-      .select(sql<number>`1`.as('test'))
+      .select(sql<number>`${1}`.as('test'))
       .limit(0)
 
     const compiled = query.compile()
@@ -113,8 +114,9 @@ export function detectDialect<DB>(executor: Kysely<DB>): Dialect {
 
     // Check for identifier quoting patterns in the compiled SQL
     if (compiledSql.includes('"_kysera_test"')) {
-      // PostgreSQL uses double quotes for identifiers
-      return 'postgres'
+      // PostgreSQL and SQLite both use double quotes for identifiers;
+      // SQLite uses `?` parameter placeholders where PostgreSQL uses `$1`
+      return compiledSql.includes('?') ? 'sqlite' : 'postgres'
     }
     if (compiledSql.includes('`_kysera_test`')) {
       // MySQL uses backticks for identifiers
@@ -135,7 +135,11 @@ export const PluginErrorCodes = {
   /** Timestamps error */
   TIMESTAMPS_ERROR: 'TIMESTAMPS_ERROR',
   /** Timestamp column missing */
-  TIMESTAMP_COLUMN_MISSING: 'TIMESTAMP_COLUMN_MISSING'
+  TIMESTAMP_COLUMN_MISSING: 'TIMESTAMP_COLUMN_MISSING',
+  /** Row version changed since it was read (optimistic locking) */
+  OPTIMISTIC_LOCK_ERROR: 'OPTIMISTIC_LOCK_ERROR',
+  /** Column encryption or decryption failed */
+  ENCRYPTION_ERROR: 'ENCRYPTION_ERROR'
 } as const
 
 // ============================================================================
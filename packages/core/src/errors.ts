@@ -783,6 +783,93 @@ export class TimestampColumnMissingError extends TimestampsError {
   }
 }
 
+/**
+ * Error thrown when an optimistic lock check fails.
+ *
+ * This occurs when a versioned row is updated with an expected version that no longer
+ * matches the version stored in the database, meaning another writer changed the row
+ * after it was read. The caller should re-read the row and retry (or report a conflict).
+ *
+ * @example
+ * ```typescript
+ * import { OptimisticLockError } from '@kysera/core'
+ *
+ * try {
+ *   await docRepo.update(doc.id, { title: 'New title', version: doc.version })
+ * } catch (error) {
+ *   if (error instanceof OptimisticLockError) {
+ *     console.log(`Expected v${error.expectedVersion}, found v${error.actualVersion}`)
+ *     // Reload the document and ask the user to merge their changes
+ *   }
+ * }
+ * ```
+ */
+export class OptimisticLockError extends DatabaseError {
+  /**
+   * Creates a new OptimisticLockError instance.
+   *
+   * @param tableName - Name of the table containing the record
+   * @param recordId - ID of the record that failed the version check (null if unknown)
+   * @param expectedVersion - Version the caller expected the record to have
+   * @param actualVersion - Version currently stored (null if unknown)
+   */
+  constructor(
+    public readonly tableName: string,
+    public readonly recordId: string | number | null,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number | null = null
+  ) {
+    const record = recordId === null ? 'Record' : `Record ${recordId}`
+    const found = actualVersion === null ? '' : `, found ${actualVersion}`
+    const message = `${record} in table ${tableName} was modified concurrently (expected version ${expectedVersion}${found})`
+    super(message, ErrorCodes.OPTIMISTIC_LOCK_ERROR)
+    this.name = 'OptimisticLockError'
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      tableName: this.tableName,
+      recordId: this.recordId,
+      expectedVersion: this.expectedVersion,
+      actualVersion: this.actualVersion
+    }
+  }
+}
+
+/**
+ * Error thrown by the column encryption plugin.
+ *
+ * Raised for invalid key configuration, values that cannot be encrypted,
+ * ciphertext written with an unknown key and ciphertext that fails authentication
+ * (tampered data or a wrong key).
+ *
+ * @example
+ * ```typescript
+ * import { EncryptionError } from '@kysera/core'
+ *
+ * try {
+ *   const user = await userRepo.findById(1)
+ * } catch (error) {
+ *   if (error instanceof EncryptionError) {
+ *     console.log(error.message) // 'Unknown encryption key "2023-01"'
+ *   }
+ * }
+ * ```
+ */
+export class EncryptionError extends DatabaseError {
+  /**
+   * Creates a new EncryptionError instance.
+   *
+   * @param message - Human-readable error message
+   * @param detail - Optional additional context about the error
+   */
+  constructor(message: string, detail?: string) {
+    super(message, ErrorCodes.ENCRYPTION_ERROR, detail)
+    this.name = 'EncryptionError'
+  }
+}
+
 /**
  * Database error with code property (internal type for parsing).
  * @internal
@@ -652,3 +652,48 @@ export function shouldApplyToTable(tableName: string, config: TableFilterConfig)
   // Allow all by default
   return true
 }
+
+/**
+ * Parsed table reference from a builder table expression
+ */
+export interface TableReference {
+  /** Table name without schema or alias (used for tables/excludeTables matching) */
+  table: string
+  /** Name to qualify columns with (alias, or the table reference as written) */
+  qualifier: string
+}
+
+/**
+ * Parse a table expression such as `'posts'`, `'posts as p'` or `'blog.posts'`,
+ * as passed to `selectFrom()`, `insertInto()`, `updateTable()` or a join.
+ *
+ * @param expression - Table expression as written in the query builder
+ * @returns Bare table name and the qualifier its columns are referenced by
+ *
+ * @example
+ * ```typescript
+ * import { parseTableReference } from '@kysera/core'
+ *
+ * parseTableReference('posts as p')  // { table: 'posts', qualifier: 'p' }
+ * parseTableReference('blog.posts')  // { table: 'posts', qualifier: 'blog.posts' }
+ * ```
+ */
+export function parseTableReference(expression: string): TableReference {
+  const [reference = expression, alias] = expression.trim().split(/\s+as\s+/i)
+  const table = reference.slice(reference.lastIndexOf('.') + 1)
+  return { table, qualifier: alias ?? reference }
+}
+
+/**
+ * Extract the bare table name from a builder table expression, for use with
+ * {@link shouldApplyToTable}.
+ *
+ * @example
+ * ```typescript
+ * resolveTableName('users as u')  // 'users'
+ * resolveTableName('app.users')   // 'users'
+ * ```
+ */
+export function resolveTableName(expression: string): string {
+  return parseTableReference(expression).table
+}
@@ -35,6 +35,9 @@ export * from './dialect-detection.js'
 // Helpers
 export * from './helpers.js'
 
+// Query node helpers
+export * from './query-nodes.js'
+
 // Types
 export * from './types.js'
 
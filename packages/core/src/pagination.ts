@@ -21,6 +21,7 @@ async function getCursorCrypto(): Promise<typeof import('./cursor-crypto.js')> {
  */
 const MAX_PAGE = 1_000_000 // Reasonable upper limit for page numbers
 const MAX_LIMIT = 10_000 // Maximum items per page
+const DEFAULT_BATCH_SIZE = 1000 // Rows per batch when streaming
 
 /**
  * Cross-runtime base64 encoding
@@ -338,6 +339,80 @@ export interface CursorOptions<T> {
   security?: CursorSecurityOptions | undefined
 }
 
+/**
+ * Keyset condition selecting the rows after `decoded` in `orderBy` order
+ *
+ * The values of all order-by columns must be present in `decoded`.
+ */
+function applyKeysetCondition<DB, TB extends keyof DB, O>(
+  query: SelectQueryBuilder<DB, TB, O>,
+  orderBy: CursorOptions<O>['orderBy'],
+  decoded: Record<string, unknown>
+): SelectQueryBuilder<DB, TB, O> {
+  if (orderBy.length === 1) {
+    // Simple single-column cursor
+    const firstOrder = orderBy[0]
+    if (firstOrder) {
+      const { column, direction } = firstOrder
+      const op = direction === 'asc' ? '>' : '<'
+      // Type assertion (as never) is required here because Kysely's type system
+      // cannot infer the exact column type at runtime. This is safe because:
+      // 1. The column is validated to exist in the decoded values
+      // 2. The value comes from a cursor or row which was created from actual data
+      return query.where(column as never, op, decoded[column] as never)
+    }
+  } else {
+    // Multi-column cursor - Build compound OR conditions
+    // For each level, create: (previous columns =) AND (current column >/<)
+    //
+    // Example for score ASC, created_at ASC with cursor (50, '2024-01-01'):
+    // WHERE (score > 50)
+    //    OR (score = 50 AND created_at > '2024-01-01')
+
+    return query.where((eb: ExpressionBuilder<DB, TB>) => {
+      const conditions: ReturnType<typeof eb>[] = []
+
+      for (let i = 0; i < orderBy.length; i++) {
+        const currentOrder = orderBy[i]
+        if (!currentOrder) continue
+
+        const { column, direction } = currentOrder
+        const value = decoded[column]
+        const op = direction === 'asc' ? '>' : '<'
+
+        // Build AND condition for this level
+        const andConditions: ReturnType<typeof eb>[] = []
+
+        // Equality on all previous columns
+        for (let j = 0; j < i; j++) {
+          const prevOrder = orderBy[j]
+          if (prevOrder) {
+            const prevCol = prevOrder.column
+            // Type assertion (as never) required for runtime column access
+            // Safe because column existence is validated by the caller
+            andConditions.push(eb(prevCol as never, '=', decoded[prevCol] as never))
+          }
+        }
+
+        // Comparison on current column
+        // Type assertion (as never) required for runtime column access
+        andConditions.push(eb(column as never, op, value as never))
+
+        // Combine with AND
+        if (andConditions.length === 1) {
+          conditions.push(andConditions[0]!)
+        } else {
+          conditions.push(eb.and(andConditions))
+        }
+      }
+
+      // Combine all conditions with OR
+      return eb.or(conditions)
+    })
+  }
+  return query
+}
+
 /**
  * Advanced cursor-based pagination with multi-column ordering
  *
@@ -420,67 +495,7 @@ export async function paginateCursor<DB, TB extends keyof DB, O>(
     }
 
     // Build compound WHERE clause for cursor
-    if (orderBy.length === 1) {
-      // Simple single-column cursor
-      const firstOrder = orderBy[0]
-      if (firstOrder) {
-        const { column, direction } = firstOrder
-        const op = direction === 'asc' ? '>' : '<'
-        // Type assertion (as never) is required here because Kysely's type system
-        // cannot infer the exact column type at runtime. This is safe because:
-        // 1. The column is validated to exist in the decoded cursor
-        // 2. The value comes from the cursor which was created from actual data
-        finalQuery = finalQuery.where(column as never, op, decoded[column] as never)
-      }
-    } else {
-      // Multi-column cursor - Build compound OR conditions
-      // For each level, create: (previous columns =) AND (current column >/<)
-      //
-      // Example for score ASC, created_at ASC with cursor (50, '2024-01-01'):
-      // WHERE (score > 50)
-      //    OR (score = 50 AND created_at > '2024-01-01')
-
-      finalQuery = finalQuery.where((eb: ExpressionBuilder<DB, TB>) => {
-        const conditions: ReturnType<typeof eb>[] = []
-
-        for (let i = 0; i < orderBy.length; i++) {
-          const currentOrder = orderBy[i]
-          if (!currentOrder) continue
-
-          const { column, direction } = currentOrder
-          const value = decoded[column]
-          const op = direction === 'asc' ? '>' : '<'
-
-          // Build AND condition for this level
-          const andConditions: ReturnType<typeof eb>[] = []
-
-          // Equality on all previous columns
-          for (let j = 0; j < i; j++) {
-            const prevOrder = orderBy[j]
-            if (prevOrder) {
-              const prevCol = prevOrder.column
-              // Type assertion (as never) required for runtime column access
-              // Safe because column existence is validated above
-              andConditions.push(eb(prevCol as never, '=', decoded[prevCol] as never))
-            }
-          }
-
-          // Comparison on current column
-          // Type assertion (as never) required for runtime column access
-          andConditions.push(eb(column as never, op, value as never))
-
-          // Combine with AND
-          if (andConditions.length === 1) {
-            conditions.push(andConditions[0]!)
-          } else {
-            conditions.push(eb.and(andConditions))
-          }
-        }
-
-        // Combine all conditions with OR
-        return eb.or(conditions)
-      })
-    }
+    finalQuery = applyKeysetCondition(finalQuery, orderBy, decoded)
   }
 
   // Apply ordering
@@ -602,3 +617,157 @@ export async function paginateCursorSimple<DB, TB extends keyof DB, O>(
 
   return paginateCursor(query, cursorOptions)
 }
+
+/**
+ * Options for keyset-paginated streaming
+ */
+export interface StreamOptions<T> {
+  /**
+   * Keyset ordering. Order-by columns must be selected and together identify a row
+   * (e.g. end with the primary key), otherwise rows are skipped. They must also be
+   * non-null: keyset batches throw BadRequestError on a NULL order-by value.
+   */
+  orderBy: Array<{
+    column: keyof T & string
+    direction: 'asc' | 'desc'
+  }>
+  /**
+   * Rows per batch (and per query), clamped between 1 and 10,000
+   * @default 1000
+   */
+  batchSize?: number | undefined
+  /**
+   * Stops the stream between batches; iteration then rejects with the signal's reason
+   */
+  signal?: AbortSignal | undefined
+  /**
+   * Database dialect for dialect-specific SQL generation
+   * Required for MSSQL which uses TOP instead of LIMIT
+   */
+  dialect?: Dialect | undefined
+  /**
+   * Stream rows with a single query through the driver (Kysely's `stream()`)
+   * instead of running one keyset query per batch.
+   * Requires a driver with streaming support: PostgreSQL (`cursor` set in the
+   * `PostgresDialect` config), MySQL, SQLite and MSSQL. The connection is held
+   * until the stream ends.
+   * @default false
+   */
+  native?: boolean | undefined
+}
+
+/**
+ * Values of the order-by columns of a row, to continue a stream after it.
+ *
+ * NULL can't be continued from: `column > NULL` matches no row, so the stream
+ * would end without an error, skipping the remaining rows.
+ */
+function keysetValues<T>(orderBy: StreamOptions<T>['orderBy'], row: T): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  for (const { column } of orderBy) {
+    if (!(column in (row as Record<string, unknown>))) {
+      throw new BadRequestError(`Cannot stream: rows are missing order-by column '${column}'`)
+    }
+    const value = (row as Record<string, unknown>)[column]
+    if (value === null || value === undefined) {
+      throw new BadRequestError(
+        `Cannot stream: order-by column '${column}' is NULL; keyset streaming requires non-null order-by columns`
+      )
+    }
+    values[column] = value
+  }
+  return values
+}
+
+/**
+ * Keyset-paginated streaming
+ *
+ * Iterates over all rows of a query in batches without loading them into memory
+ * at once. Each batch is fetched with the multi-column keyset condition used by
+ * `paginateCursor`, starting after the last row of the previous batch, so every
+ * query stays as cheap as the first one.
+ *
+ * @param query - The base Kysely select query to stream
+ * @param options - Stream options including orderBy specification and batch size
+ * @returns Async iterable of row batches
+ * @throws {BadRequestError} When no order-by column is given, or rows lack an order-by column
+ *   or have NULL in one (keyset batches only)
+ *
+ * @remarks
+ * - Order-by columns must be NOT NULL: a NULL in the last row of a batch can't be
+ *   continued from, so the stream throws instead of silently ending there.
+ *   `native` streams don't use keysets and accept NULLs
+ * - Batches are fetched on demand: the next query runs when the consumer asks for
+ *   the next batch, so slow consumers are never flooded (backpressure)
+ * - Breaking out of the loop stops the stream; with `native` the driver cursor is closed
+ * - `signal` is checked before and after every fetch
+ * - Plugins of a KyseraExecutor apply to every batch, as they are applied to `query`
+ *
+ * @example
+ * ```ts
+ * const query = db.selectFrom('events').selectAll()
+ * for await (const batch of streamCursor(query, {
+ *   orderBy: [
+ *     { column: 'created_at', direction: 'asc' },
+ *     { column: 'id', direction: 'asc' }
+ *   ],
+ *   batchSize: 5000,
+ *   signal: AbortSignal.timeout(60_000)
+ * })) {
+ *   await exportRows(batch)
+ * }
+ * ```
+ */
+export async function* streamCursor<DB, TB extends keyof DB, O>(
+  query: SelectQueryBuilder<DB, TB, O>,
+  options: StreamOptions<O>
+): AsyncGenerator<O[], void, undefined> {
+  const { orderBy, signal, dialect } = options
+  const batchSize = Math.min(MAX_LIMIT, Math.max(1, options.batchSize || DEFAULT_BATCH_SIZE))
+
+  if (orderBy.length === 0) {
+    throw new BadRequestError('Cannot stream: at least one order-by column is required')
+  }
+
+  // Type assertion (as never) required because Kysely cannot statically verify
+  // that the column type matches the table schema at runtime
+  let orderedQuery = query
+  for (const { column, direction } of orderBy) {
+    orderedQuery = orderedQuery.orderBy(column as never, direction)
+  }
+
+  signal?.throwIfAborted()
+
+  if (options.native) {
+    // Leaving the loop (break, throw or abort) closes the driver stream
+    let batch: O[] = []
+    for await (const row of orderedQuery.stream(batchSize)) {
+      batch.push(row)
+      if (batch.length === batchSize) {
+        signal?.throwIfAborted()
+        yield batch
+        signal?.throwIfAborted()
+        batch = []
+      }
+    }
+    signal?.throwIfAborted()
+    if (batch.length > 0) yield batch
+    return
+  }
+
+  let after: Record<string, unknown> | undefined
+  for (;;) {
+    const page = after ? applyKeysetCondition(orderedQuery, orderBy, after) : orderedQuery
+    const batch =
+      dialect === 'mssql'
+        ? await page.top(batchSize).execute()
+        : await page.limit(batchSize).execute()
+    signal?.throwIfAborted()
+
+    if (batch.length === 0) return
+    after = keysetValues(orderBy, batch[batch.length - 1] as O)
+    yield batch
+    if (batch.length < batchSize) return
+    signal?.throwIfAborted()
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Query Node Helpers
+ *
+ * Operation-node utilities shared by plugins that rewrite the final query tree
+ * in a Kysely plugin (e.g. timestamps and versioning column maintenance).
+ *
+ * @module @kysera/core/query-nodes
+ */
+
+import {
+  ColumnNode,
+  DefaultInsertValueNode,
+  PrimitiveValueListNode,
+  ReferenceNode,
+  ValueListNode,
+  ValueNode,
+  ValuesNode,
+  type InsertQueryNode,
+  type OperationNode
+} from 'kysely'
+
+/**
+ * Column name targeted by a `set()` entry (plain or table-qualified).
+ *
+ * @param node - The `column` of a ColumnUpdateNode
+ * @returns The column name, or undefined for other expressions
+ */
+export function updatedColumnName(node: OperationNode): string | undefined {
+  if (ColumnNode.is(node)) return node.column.name
+  if (ReferenceNode.is(node) && ColumnNode.is(node.column)) return node.column.column.name
+  return undefined
+}
+
+/**
+ * Set a column on every row of an `insert ... values` node.
+ *
+ * - When the column is missing from the insert, it is appended to every row
+ * - When the caller set it for only some rows, the rows that omitted it
+ *   (DEFAULT placeholders) are filled in
+ * - Rows that already have a value are left untouched
+ *
+ * `insert ... select` and `default values` inserts have no row list to extend
+ * and are returned unchanged.
+ *
+ * @param node - INSERT query node
+ * @param column - Column to set
+ * @param value - Value for rows that do not set the column
+ * @returns The updated INSERT query node
+ *
+ * @example
+ * ```typescript
+ * transformQuery(args) {
+ *   if (InsertQueryNode.is(args.node)) {
+ *     return withInsertColumn(args.node, 'version', 1)
+ *   }
+ *   return args.node
+ * }
+ * ```
+ */
+export function withInsertColumn(
+  node: InsertQueryNode,
+  column: string,
+  value: unknown
+): InsertQueryNode {
+  const values = node.values
+  if (!values || !ValuesNode.is(values)) return node
+
+  const columns = node.columns ?? []
+  const index = columns.findIndex(existing => existing.column.name === column)
+
+  if (index !== -1) {
+    const rows = values.values.map(row =>
+      ValueListNode.is(row) && row.values[index] && DefaultInsertValueNode.is(row.values[index])
+        ? ValueListNode.create(
+            row.values.map((existing, i) => (i === index ? ValueNode.create(value) : existing))
+          )
+        : row
+    )
+    return { ...node, values: ValuesNode.create(rows) }
+  }
+
+  const rows = values.values.map(row =>
+    PrimitiveValueListNode.is(row)
+      ? PrimitiveValueListNode.create([...row.values, value])
+      : ValueListNode.create([...row.values, ValueNode.create(value)])
+  )
+
+  return {
+    ...node,
+    columns: [...columns, ColumnNode.create(column)],
+    values: ValuesNode.create(rows)
+  }
+}
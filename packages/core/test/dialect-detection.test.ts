@@ -78,6 +78,12 @@ describe('detectDialect', () => {
       expect(dialect).toBe('mssql')
     })
 
+    it('detects SQLite by double quotes with ? placeholders', () => {
+      const db = createMockKysely('select ? as "test" from "_kysera_test" limit 0')
+      const dialect = detectDialect(db)
+      expect(dialect).toBe('sqlite')
+    })
+
     it('detects SQLite by lack of identifier quoting', () => {
       const db = createMockKysely('SELECT 1 AS test FROM _kysera_test LIMIT 0')
       const dialect = detectDialect(db)
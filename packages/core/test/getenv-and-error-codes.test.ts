@@ -194,10 +194,12 @@ describe('Error Code Categories - Complete Coverage', () => {
       expect(PluginErrorCodes.RECORD_NOT_DELETED).toBe('RECORD_NOT_DELETED')
       expect(PluginErrorCodes.TIMESTAMPS_ERROR).toBe('TIMESTAMPS_ERROR')
       expect(PluginErrorCodes.TIMESTAMP_COLUMN_MISSING).toBe('TIMESTAMP_COLUMN_MISSING')
+      expect(PluginErrorCodes.OPTIMISTIC_LOCK_ERROR).toBe('OPTIMISTIC_LOCK_ERROR')
+      expect(PluginErrorCodes.ENCRYPTION_ERROR).toBe('ENCRYPTION_ERROR')
     })
 
-    it('should have exactly 10 plugin error codes', () => {
-      expect(Object.keys(PluginErrorCodes)).toHaveLength(10)
+    it('should have exactly 12 plugin error codes', () => {
+      expect(Object.keys(PluginErrorCodes)).toHaveLength(12)
     })
   })
 
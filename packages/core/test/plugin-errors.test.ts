@@ -13,6 +13,8 @@ import {
   AuditMissingValuesError,
   TimestampsError,
   TimestampColumnMissingError,
+  OptimisticLockError,
+  EncryptionError,
   ErrorCodes
 } from '../src/index.js'
 
@@ -347,6 +349,66 @@ describe('Plugin Error Classes', () => {
     })
   })
 
+  describe('OptimisticLockError', () => {
+    it('should create optimistic lock error', () => {
+      const error = new OptimisticLockError('documents', 7, 3, 4)
+
+      expect(error).toBeInstanceOf(OptimisticLockError)
+      expect(error).toBeInstanceOf(DatabaseError)
+      expect(error.name).toBe('OptimisticLockError')
+      expect(error.message).toBe(
+        'Record 7 in table documents was modified concurrently (expected version 3, found 4)'
+      )
+      expect(error.code).toBe(ErrorCodes.OPTIMISTIC_LOCK_ERROR)
+      expect(error.tableName).toBe('documents')
+      expect(error.recordId).toBe(7)
+      expect(error.expectedVersion).toBe(3)
+      expect(error.actualVersion).toBe(4)
+    })
+
+    it('should default actualVersion to null', () => {
+      const error = new OptimisticLockError('documents', 'abc', 1)
+
+      expect(error.actualVersion).toBeNull()
+      expect(error.message).toBe('Record abc in table documents was modified concurrently (expected version 1)')
+    })
+
+    it('should omit an unknown record id from the message', () => {
+      const error = new OptimisticLockError('documents', null, 1)
+
+      expect(error.recordId).toBeNull()
+      expect(error.message).toBe('Record in table documents was modified concurrently (expected version 1)')
+    })
+
+    it('should serialize to JSON correctly', () => {
+      const error = new OptimisticLockError('documents', 7, 3, 4)
+
+      expect(error.toJSON()).toEqual({
+        name: 'OptimisticLockError',
+        message: 'Record 7 in table documents was modified concurrently (expected version 3, found 4)',
+        code: ErrorCodes.OPTIMISTIC_LOCK_ERROR,
+        detail: undefined,
+        tableName: 'documents',
+        recordId: 7,
+        expectedVersion: 3,
+        actualVersion: 4
+      })
+    })
+  })
+
+  describe('EncryptionError', () => {
+    it('should create encryption error', () => {
+      const error = new EncryptionError('Unknown encryption key "2023-01"', 'users.email')
+
+      expect(error).toBeInstanceOf(EncryptionError)
+      expect(error).toBeInstanceOf(DatabaseError)
+      expect(error.name).toBe('EncryptionError')
+      expect(error.message).toBe('Unknown encryption key "2023-01"')
+      expect(error.code).toBe(ErrorCodes.ENCRYPTION_ERROR)
+      expect(error.detail).toBe('users.email')
+    })
+  })
+
   describe('Error Inheritance and Type Guards', () => {
     it('should correctly identify error types in a hierarchy', () => {
       const errors = [
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import {
+  Kysely,
+  SqliteDialect,
+  InsertQueryNode,
+  type KyselyPlugin,
+  type RootOperationNode
+} from 'kysely'
+import Database from 'better-sqlite3'
+import { withInsertColumn, updatedColumnName } from '../src/query-nodes.js'
+
+interface TestDB {
+  items: { id: number; name: string; version: number }
+}
+
+const versionColumn: KyselyPlugin = {
+  transformQuery: ({ node }): RootOperationNode =>
+    InsertQueryNode.is(node) ? withInsertColumn(node, 'version', 1) : node,
+  transformResult: async args => args.result
+}
+
+describe('withInsertColumn', () => {
+  const db = new Kysely<TestDB>({
+    dialect: new SqliteDialect({ database: new Database(':memory:') })
+  }).withPlugin(versionColumn)
+
+  it('should append the column to every row', () => {
+    const { sql, parameters } = db
+      .insertInto('items')
+      .values([{ name: 'a' }, { name: 'b' }] as never)
+      .compile()
+
+    expect(sql).toBe('insert into "items" ("name", "version") values (?, ?), (?, ?)')
+    expect(parameters).toEqual(['a', 1, 'b', 1])
+  })
+
+  it('should only fill rows that omitted the column', () => {
+    const { parameters } = db
+      .insertInto('items')
+      .values([{ name: 'a', version: 5 }, { name: 'b' }] as never)
+      .compile()
+
+    expect(parameters).toEqual(['a', 5, 'b', 1])
+  })
+
+  it('should leave inserts without a row list unchanged', () => {
+    const { sql } = db.insertInto('items').defaultValues().compile()
+
+    expect(sql).toBe('insert into "items" default values')
+  })
+})
+
+describe('updatedColumnName', () => {
+  it('should resolve plain and qualified set() columns', () => {
+    const db = new Kysely<TestDB>({
+      dialect: new SqliteDialect({ database: new Database(':memory:') })
+    })
+    const node = db
+      .updateTable('items')
+      .set({ name: 'a' })
+      .set('items.version' as 'version', 2)
+      .toOperationNode()
+
+    expect(node.updates?.map(update => updatedColumnName(update.column))).toEqual([
+      'name',
+      'version'
+    ])
+  })
+})
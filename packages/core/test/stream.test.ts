@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import type { Kysely } from 'kysely'
+import { streamCursor } from '../src/pagination.js'
+import { BadRequestError } from '../src/errors.js'
+import {
+  createTestDatabase,
+  initializeTestSchema,
+  clearTestDatabase,
+  testFactories
+} from './setup/test-database.js'
+import type { TestDatabase } from './setup/test-database.js'
+
+async function collect<T>(batches: AsyncIterable<T[]>): Promise<T[][]> {
+  const result: T[][] = []
+  for await (const batch of batches) {
+    result.push(batch)
+  }
+  return result
+}
+
+describe('Keyset Streaming', () => {
+  let rawDb: Kysely<TestDatabase>
+  let db: Kysely<TestDatabase>
+  let queries: number
+
+  beforeAll(async () => {
+    rawDb = createTestDatabase()
+    await initializeTestSchema(rawDb)
+  })
+
+  beforeEach(async () => {
+    await clearTestDatabase(rawDb)
+
+    // 25 users, names repeating every 4 users to exercise multi-column keysets
+    const users = Array.from({ length: 25 }, (_, i) =>
+      testFactories.user({
+        email: `stream${i + 1}@example.com`,
+        name: `Group ${i % 4}`
+      })
+    )
+    await rawDb.insertInto('users').values(users).execute()
+
+    queries = 0
+    db = rawDb.withPlugin({
+      transformQuery: args => args.node,
+      transformResult: async args => {
+        queries++
+        return args.result
+      }
+    })
+  })
+
+  afterAll(async () => {
+    await rawDb.destroy()
+  })
+
+  it('should stream all rows in batches', async () => {
+    const batches = await collect(
+      streamCursor(db.selectFrom('users').selectAll(), {
+        orderBy: [{ column: 'id', direction: 'asc' }],
+        batchSize: 10
+      })
+    )
+
+    expect(batches.map(batch => batch.length)).toEqual([10, 10, 5])
+    expect(batches.flat().map(user => user.email)).toEqual(
+      Array.from({ length: 25 }, (_, i) => `stream${i + 1}@example.com`)
+    )
+    expect(queries).toBe(3)
+  })
+
+  it('should follow multi-column ordering with mixed directions', async () => {
+    const expected = await rawDb
+      .selectFrom('users')
+      .select(['id', 'name'])
+      .orderBy('name', 'desc')
+      .orderBy('id', 'asc')
+      .execute()
+
+    const batches = await collect(
+      streamCursor(db.selectFrom('users').select(['id', 'name']), {
+        orderBy: [
+          { column: 'name', direction: 'desc' },
+          { column: 'id', direction: 'asc' }
+        ],
+        batchSize: 3
+      })
+    )
+
+    expect(batches.flat()).toEqual(expected)
+  })
+
+  it('should keep the conditions of the base query', async () => {
+    const expected = await rawDb
+      .selectFrom('users')
+      .select('id')
+      .where('name', '=', 'Group 1')
+      .orderBy('id', 'desc')
+      .execute()
+
+    const batches = await collect(
+      streamCursor(db.selectFrom('users').selectAll().where('name', '=', 'Group 1'), {
+        orderBy: [{ column: 'id', direction: 'desc' }],
+        batchSize: 2
+      })
+    )
+
+    expect(batches.flat().map(user => user.id)).toEqual(expected.map(user => user.id))
+    expect(batches.map(batch => batch.length)).toEqual([2, 2, 2])
+  })
+
+  it('should run one query when the stream is empty or fits one batch', async () => {
+    await collect(
+      streamCursor(db.selectFrom('users').selectAll().where('id', '>', 100), {
+        orderBy: [{ column: 'id', direction: 'asc' }]
+      })
+    )
+    expect(queries).toBe(1)
+
+    const batches = await collect(
+      streamCursor(db.selectFrom('users').selectAll(), {
+        orderBy: [{ column: 'id', direction: 'asc' }]
+      })
+    )
+    expect(batches).toHaveLength(1)
+    expect(queries).toBe(2)
+  })
+
+  it('should only fetch the next batch when it is requested', async () => {
+    const iterator = streamCursor(db.selectFrom('users').selectAll(), {
+      orderBy: [{ column: 'id', direction: 'asc' }],
+      batchSize: 5
+    })
+
+    expect(queries).toBe(0)
+    await iterator.next()
+    expect(queries).toBe(1)
+
+    for await (const batch of iterator) {
+      expect(batch).toHaveLength(5)
+      break
+    }
+    expect(queries).toBe(2)
+    expect(await iterator.next()).toEqual({ done: true, value: undefined })
+  })
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController()
+    const seen: number[] = []
+
+    const run = async () => {
+      for await (const batch of streamCursor(db.selectFrom('users').selectAll(), {
+        orderBy: [{ column: 'id', direction: 'asc' }],
+        batchSize: 10,
+        signal: controller.signal
+      })) {
+        seen.push(batch.length)
+        controller.abort(new Error('export cancelled'))
+      }
+    }
+
+    await expect(run()).rejects.toThrow('export cancelled')
+    expect(seen).toEqual([10])
+    expect(queries).toBe(1)
+  })
+
+  it('should not query when the signal is already aborted', async () => {
+    const stream = streamCursor(db.selectFrom('users').selectAll(), {
+      orderBy: [{ column: 'id', direction: 'asc' }],
+      signal: AbortSignal.abort()
+    })
+
+    await expect(collect(stream)).rejects.toThrow()
+    expect(queries).toBe(0)
+  })
+
+  it('should reject rows without the order-by columns', async () => {
+    const stream = streamCursor(db.selectFrom('users').select(['email']), {
+      orderBy: [{ column: 'id' as 'email', direction: 'asc' }],
+      batchSize: 5
+    })
+
+    await expect(collect(stream)).rejects.toThrow(BadRequestError)
+    await expect(
+      collect(streamCursor(db.selectFrom('users').selectAll(), { orderBy: [] }))
+    ).rejects.toThrow('at least one order-by column is required')
+  })
+
+  it('should reject a NULL order-by value instead of ending early', async () => {
+    await rawDb.updateTable('users').set({ updated_at: null }).execute()
+    const stream = streamCursor(db.selectFrom('users').selectAll(), {
+      orderBy: [
+        { column: 'updated_at', direction: 'asc' },
+        { column: 'id', direction: 'asc' }
+      ],
+      batchSize: 10
+    })
+
+    await expect(collect(stream)).rejects.toThrow("order-by column 'updated_at' is NULL")
+  })
+
+  it('should clamp the batch size', async () => {
+    const batches = await collect(
+      streamCursor(db.selectFrom('users').selectAll(), {
+        orderBy: [{ column: 'id', direction: 'asc' }],
+        batchSize: -5
+      })
+    )
+
+    expect(batches).toHaveLength(25)
+  })
+
+  describe('Native streaming', () => {
+    it('should stream all rows through the driver', async () => {
+      const batches = await collect(
+        streamCursor(db.selectFrom('users').selectAll(), {
+          orderBy: [{ column: 'id', direction: 'desc' }],
+          batchSize: 10,
+          native: true
+        })
+      )
+
+      expect(batches.map(batch => batch.length)).toEqual([10, 10, 5])
+      expect(batches[0]![0]!.email).toBe('stream25@example.com')
+    })
+
+    it('should release the connection when the consumer stops early', async () => {
+      for await (const batch of streamCursor(db.selectFrom('users').selectAll(), {
+        orderBy: [{ column: 'id', direction: 'asc' }],
+        batchSize: 10,
+        native: true
+      })) {
+        expect(batch).toHaveLength(10)
+        break
+      }
+
+      // SQLite has a single connection, so this would hang if it was still held
+      const { count } = await rawDb
+        .selectFrom('users')
+        .select(eb => eb.fn.countAll().as('count'))
+        .executeTakeFirstOrThrow()
+      expect(Number(count)).toBe(25)
+    })
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController()
+      const run = async () => {
+        for await (const _batch of streamCursor(db.selectFrom('users').selectAll(), {
+          orderBy: [{ column: 'id', direction: 'asc' }],
+          batchSize: 10,
+          signal: controller.signal,
+          native: true
+        })) {
+          controller.abort()
+        }
+      }
+
+      await expect(run()).rejects.toThrow()
+      expect(await rawDb.selectFrom('users').select('id').execute()).toHaveLength(25)
+    })
+  })
+})
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { parseTableReference, resolveTableName } from '../src/helpers.js'
+
+describe('parseTableReference', () => {
+  it('should parse a plain table name', () => {
+    expect(parseTableReference('posts')).toEqual({ table: 'posts', qualifier: 'posts' })
+  })
+
+  it('should use the alias as qualifier', () => {
+    expect(parseTableReference('posts as p')).toEqual({ table: 'posts', qualifier: 'p' })
+    expect(parseTableReference('  posts  AS  p ')).toEqual({ table: 'posts', qualifier: 'p' })
+  })
+
+  it('should strip the schema from the table name', () => {
+    expect(parseTableReference('blog.posts')).toEqual({ table: 'posts', qualifier: 'blog.posts' })
+    expect(parseTableReference('blog.posts as p')).toEqual({ table: 'posts', qualifier: 'p' })
+  })
+})
+
+describe('resolveTableName', () => {
+  it('should return the bare table name', () => {
+    expect(resolveTableName('users')).toBe('users')
+    expect(resolveTableName('users as u')).toBe('users')
+    expect(resolveTableName('app.users')).toBe('users')
+    expect(resolveTableName('app.users as u')).toBe('users')
+  })
+})
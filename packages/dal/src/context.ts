@@ -7,7 +7,13 @@
 import type { Kysely, Transaction } from 'kysely'
 import { sql } from 'kysely'
 import type { KyseraExecutor, KyseraTransaction } from '@kysera/executor'
-import { isKyseraExecutor, getPlugins, wrapTransaction } from '@kysera/executor'
+import {
+  isKyseraExecutor,
+  getPlugins,
+  getRawDb,
+  wrapTransaction,
+  notifyTransactionCommit
+} from '@kysera/executor'
 import { silentLogger, type KyseraLogger, detectDialect } from '@kysera/core'
 import type { DbContext, TransactionOptions } from './types.js'
 import {
@@ -456,17 +462,25 @@ export async function withTransaction<DB, T>(
     }
   }
 
-  // Create transaction builder
-  const transactionBuilder = actualDb.transaction()
+  // Create transaction builder on the unwrapped instance: plugins are applied once by
+  // wrapTransaction below. The executor's own transaction() wraps the trx as well, so going
+  // through it would run every interceptor twice per query (duplicate filters, and plugins
+  // that act on execution, such as audit capture, would act twice)
+  const transactionBuilder = (isKyseraExecutor(actualDb) ? getRawDb(actualDb) : actualDb).transaction()
 
   // Apply isolation level if specified (only valid for top-level transaction)
   if (options.isolationLevel) {
     transactionBuilder.setIsolationLevel(options.isolationLevel)
   }
 
-  return await transactionBuilder.execute(async (trx: Transaction<DB>) => {
+  const plugins = isKyseraExecutor(actualDb) ? getPlugins(actualDb) : []
+  const opened: Transaction<DB>[] = []
+
+  const result = await transactionBuilder.execute(async (trx: Transaction<DB>) => {
+    opened.push(trx)
+
     // Wrap transaction with plugins if using KyseraExecutor
-    const wrappedTrx = isKyseraExecutor(actualDb) ? wrapTransaction(trx, getPlugins(actualDb)) : trx
+    const wrappedTrx = isKyseraExecutor(actualDb) ? wrapTransaction(trx, plugins) : trx
 
     // Mark the transaction as being in a transaction (for nested detection)
     markAsInTransaction(wrappedTrx)
@@ -488,6 +502,13 @@ export async function withTransaction<DB, T>(
 
     return await fn(ctx)
   })
+
+  // Plugins (e.g. cache invalidation) get to act once the writes are committed
+  for (const trx of opened) {
+    await notifyTransactionCommit(plugins, trx as unknown as Transaction<unknown>)
+  }
+
+  return result
 }
 
 /**
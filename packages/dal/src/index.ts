@@ -138,7 +138,10 @@ export {
 } from './context.js'
 
 // Query creation
-export { createQuery, createTransactionalQuery } from './query.js'
+export { createQuery, createTransactionalQuery, streamQuery } from './query.js'
+
+// Re-export stream options for convenience
+export type { StreamOptions } from '@kysera/core'
 
 // Composition
 export { compose, chain, parallel, conditional, mapResult, type ParallelResult } from './compose.js'
@@ -4,8 +4,10 @@
  * @module @kysera/dal
  */
 
-import type { Kysely } from 'kysely'
+import type { Kysely, SelectQueryBuilder } from 'kysely'
 import type { KyseraExecutor } from '@kysera/executor'
+import { getRawDb } from '@kysera/executor'
+import { detectDialect, streamCursor, type StreamOptions } from '@kysera/core'
 import type { DbContext, QueryFunction } from './types.js'
 import { toContext } from './context.js'
 import { TransactionRequiredError } from './errors.js'
@@ -125,3 +127,54 @@ export function createTransactionalQuery<DB, TArgs extends readonly unknown[], T
     return await queryFn(ctx, ...args)
   })
 }
+
+/**
+ * Stream the rows of a query in keyset-paginated batches.
+ *
+ * The query is built once from the context, so executor plugins (soft-delete,
+ * RLS, ...) filter every batch. Batches are fetched on demand, one query each,
+ * continuing after the last row of the previous batch (see `streamCursor` in
+ * `@kysera/core`). The dialect is detected from the context when not given.
+ *
+ * @param dbOrCtx - Database, executor, or context to stream from
+ * @param queryFn - Builds the select query to stream (without ORDER BY or LIMIT)
+ * @param options - Stream options including orderBy, batch size and abort signal
+ * @returns Async iterable of row batches
+ *
+ * @example Export a table
+ * ```typescript
+ * import { streamQuery } from '@kysera/dal';
+ *
+ * const controller = new AbortController();
+ *
+ * for await (const batch of streamQuery(
+ *   executor,
+ *   (ctx) => ctx.db.selectFrom('users').select(['id', 'email']),
+ *   { orderBy: [{ column: 'id', direction: 'asc' }], batchSize: 5000, signal: controller.signal }
+ * )) {
+ *   await writeCsv(batch);
+ * }
+ * ```
+ *
+ * @example Within a transaction
+ * ```typescript
+ * await withTransaction(db, async (ctx) => {
+ *   for await (const batch of streamQuery(ctx, getPendingOrders, { orderBy })) {
+ *     await processOrders(ctx, batch);
+ *   }
+ * });
+ * ```
+ */
+export function streamQuery<DB, TB extends keyof DB, O>(
+  dbOrCtx: Kysely<DB> | KyseraExecutor<DB> | DbContext<DB>,
+  queryFn: (ctx: DbContext<DB>) => SelectQueryBuilder<DB, TB, O>,
+  options: StreamOptions<O>
+): AsyncIterable<O[]> {
+  const ctx: DbContext<DB> = toContext(dbOrCtx)
+
+  return streamCursor(queryFn(ctx), {
+    ...options,
+    // Detect on the raw instance, so plugins don't intercept the probe query
+    dialect: options.dialect ?? detectDialect(getRawDb(ctx.db as Kysely<DB>))
+  })
+}
@@ -5,7 +5,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import type { Kysely, Transaction } from 'kysely'
+import { Kysely, SqliteDialect, type Transaction } from 'kysely'
+import Database from 'better-sqlite3'
 import {
   createExecutor,
   createExecutorSync,
@@ -224,6 +225,80 @@ describe('DAL with KyseraExecutor Integration', () => {
       })
     })
 
+    it('should apply each interceptor once per query within transaction', async () => {
+      const interceptQuery = vi.fn(qb => qb)
+      const executor = createExecutorSync(mockDb, [{ name: 'counter', version: '1.0.0', interceptQuery }])
+
+      await withTransaction(executor, async ctx => {
+        await ctx.db.selectFrom('users').selectAll().execute()
+      })
+
+      expect(interceptQuery).toHaveBeenCalledTimes(1)
+    })
+
+    it('should intercept each query once in a transaction on a real database', async () => {
+      const db = new Kysely<TestDB>({
+        dialect: new SqliteDialect({ database: new Database(':memory:') })
+      })
+      await db.schema
+        .createTable('users')
+        .addColumn('id', 'integer', col => col.primaryKey())
+        .addColumn('name', 'text')
+        .addColumn('deleted_at', 'text')
+        .execute()
+      await db
+        .insertInto('users')
+        .values([
+          { id: 1, name: 'Active', deleted_at: null },
+          { id: 2, name: 'Deleted', deleted_at: '2024-01-01' }
+        ])
+        .execute()
+
+      const writes: string[] = []
+      const executor = await createExecutor(db, [
+        createTestSoftDeletePlugin(),
+        {
+          name: 'write-recorder',
+          version: '1.0.0',
+          interceptQuery<QB>(qb: QB, context: QueryBuilderContext): QB {
+            if (context.operation !== 'select') writes.push(context.operation)
+            return qb
+          }
+        }
+      ])
+
+      const { sql, rows } = await withTransaction(executor, async ctx => {
+        await ctx.db.updateTable('users').set({ name: 'Renamed' }).where('id', '=', 1).execute()
+        const query = ctx.db.selectFrom('users').select('name')
+        return { sql: query.compile().sql, rows: await query.execute() }
+      })
+
+      expect(sql).toBe('select "name" from "users" where "deleted_at" is null')
+      expect(rows).toEqual([{ name: 'Renamed' }])
+      expect(writes).toEqual(['update'])
+      await db.destroy()
+    })
+
+    it('should notify plugins after the transaction commits', async () => {
+      const events: string[] = []
+      const executor = createExecutorSync(mockDb, [
+        {
+          name: 'commit-listener',
+          version: '1.0.0',
+          onTransactionCommit: trx => {
+            events.push('commit')
+            expect(trx.isTransaction).toBe(true)
+          }
+        }
+      ])
+
+      await withTransaction(executor, async () => {
+        events.push('done')
+      })
+
+      expect(events).toEqual(['done', 'commit'])
+    })
+
     it('should handle plain Kysely without plugins', async () => {
       await withTransaction(mockDb, async ctx => {
         expect(ctx.isTransaction).toBe(true)
@@ -0,0 +1,123 @@
+/**
+ * Tests for keyset-paginated streaming of query functions.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { Kysely, SqliteDialect, type SelectQueryBuilder } from 'kysely'
+import Database from 'better-sqlite3'
+import { createExecutor, type Plugin, type QueryBuilderContext } from '@kysera/executor'
+import { streamQuery } from '../src/query.js'
+import { withTransaction } from '../src/context.js'
+import type { DbContext } from '../src/types.js'
+
+interface TestDB {
+  users: { id: number; name: string; deleted_at: string | null }
+}
+
+const activeUsersOnly: Plugin = {
+  name: 'active-users',
+  version: '1.0.0',
+  interceptQuery<QB>(qb: QB, context: QueryBuilderContext): QB {
+    if (context.operation === 'select' && context.table === 'users') {
+      type GenericSelect = SelectQueryBuilder<TestDB, 'users', unknown>
+      return (qb as unknown as GenericSelect).where('deleted_at', 'is', null) as QB
+    }
+    return qb
+  }
+}
+
+const allUsers = (ctx: DbContext<TestDB>) => ctx.db.selectFrom('users').select(['id', 'name'])
+
+async function collect<T>(batches: AsyncIterable<T[]>): Promise<T[][]> {
+  const result: T[][] = []
+  for await (const batch of batches) {
+    result.push(batch)
+  }
+  return result
+}
+
+describe('streamQuery', () => {
+  let db: Kysely<TestDB>
+
+  beforeEach(async () => {
+    db = new Kysely<TestDB>({ dialect: new SqliteDialect({ database: new Database(':memory:') }) })
+    await db.schema
+      .createTable('users')
+      .addColumn('id', 'integer', col => col.primaryKey())
+      .addColumn('name', 'text', col => col.notNull())
+      .addColumn('deleted_at', 'text')
+      .execute()
+    await db
+      .insertInto('users')
+      .values(
+        Array.from({ length: 12 }, (_, i) => ({
+          id: i + 1,
+          name: `User ${i + 1}`,
+          deleted_at: i % 3 === 0 ? '2024-01-01' : null
+        }))
+      )
+      .execute()
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+  })
+
+  it('should stream batches from a Kysely instance', async () => {
+    const batches = await collect(
+      streamQuery(db, allUsers, { orderBy: [{ column: 'id', direction: 'asc' }], batchSize: 5 })
+    )
+
+    expect(batches.map(batch => batch.length)).toEqual([5, 5, 2])
+    expect(batches.flat().map(user => user.id)).toEqual(Array.from({ length: 12 }, (_, i) => i + 1))
+  })
+
+  it('should apply executor plugins to every batch', async () => {
+    const executor = await createExecutor(db, [activeUsersOnly])
+
+    const batches = await collect(
+      streamQuery(executor, allUsers, {
+        orderBy: [{ column: 'id', direction: 'desc' }],
+        batchSize: 3
+      })
+    )
+
+    expect(batches.flat().map(user => user.id)).toEqual([12, 11, 9, 8, 6, 5, 3, 2])
+  })
+
+  it('should stream within a transaction', async () => {
+    const ids = await withTransaction(db, async ctx => {
+      await ctx.db.deleteFrom('users').where('id', '>', 4).execute()
+
+      const seen: number[] = []
+      for await (const batch of streamQuery(ctx, allUsers, {
+        orderBy: [{ column: 'id', direction: 'asc' }],
+        batchSize: 2
+      })) {
+        seen.push(...batch.map(user => user.id))
+      }
+      return seen
+    })
+
+    expect(ids).toEqual([1, 2, 3, 4])
+  })
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController()
+    const seen: number[] = []
+
+    const run = async () => {
+      for await (const batch of streamQuery(db, allUsers, {
+        orderBy: [{ column: 'id', direction: 'asc' }],
+        batchSize: 5,
+        signal: controller.signal
+      })) {
+        seen.push(batch.length)
+        controller.abort(new Error('stopped'))
+      }
+    }
+
+    await expect(run()).rejects.toThrow('stopped')
+    expect(seen).toEqual([5])
+  })
+})
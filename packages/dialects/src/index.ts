@@ -31,6 +31,15 @@
  * await adapter.dropSchema(db, 'tenant_123', { cascade: true });
  *
  * @example
+ * // Schema-per-tenant management
+ * import { createTenantManager } from '@kysera/dialects';
+ *
+ * const tenants = createTenantManager(db);
+ * await tenants.create('acme');
+ * const summary = await tenants.forEachTenant(migrateTenant, { concurrency: 4 });
+ * await tenants.drop('acme');
+ *
+ * @example
  * // Using helper functions (backward compatible)
  * import { tableExists, escapeIdentifier, isUniqueConstraintError } from '@kysera/dialects';
  *
@@ -96,6 +105,22 @@ export {
   type MSSQLAdapterOptions
 } from './adapters/mssql.js'
 
+// Schema-per-tenant management
+export {
+  TenantManager,
+  createTenantManager,
+  type TenantSchemaAdapter,
+  type TenantManagerOptions,
+  type Tenant,
+  type TenantTask,
+  type CreateTenantOptions,
+  type DropTenantOptions,
+  type ForEachTenantOptions,
+  type TenantRunStatus,
+  type TenantRunResult,
+  type TenantRunSummary
+} from './tenants.js'
+
 // Connection utilities
 export { parseConnectionUrl, buildConnectionUrl, getDefaultPort } from './connection.js'
 
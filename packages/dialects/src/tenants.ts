@@ -0,0 +1,346 @@
+/**
+ * Schema-per-tenant Management
+ *
+ * Provisions, lists and retires tenant schemas named with the tenant
+ * helpers (`tenant_<id>` by default), and fans work such as migrations out
+ * to every tenant schema with bounded concurrency.
+ *
+ * Requires a dialect with schema support (PostgreSQL or MSSQL).
+ */
+
+import type { Kysely } from 'kysely'
+import { postgresAdapter } from './adapters/postgres.js'
+import { getTenantSchemaName, parseTenantSchemaName, type TenantSchemaConfig } from './helpers.js'
+
+/** Default number of tenants processed at once by forEachTenant() */
+const DEFAULT_TENANT_CONCURRENCY = 4
+
+/**
+ * Schema operations needed to manage tenants.
+ * Implemented by PostgresAdapter and MSSQLAdapter.
+ */
+export interface TenantSchemaAdapter {
+  schemaExists(db: Kysely<any>, schemaName: string): Promise<boolean>
+  getSchemas(db: Kysely<any>): Promise<string[]>
+  createSchema(db: Kysely<any>, schemaName: string): Promise<boolean>
+  dropSchema(
+    db: Kysely<any>,
+    schemaName: string,
+    options?: { ifExists?: boolean; cascade?: boolean }
+  ): Promise<boolean>
+}
+
+/**
+ * Tenant manager options
+ */
+export interface TenantManagerOptions extends TenantSchemaConfig {
+  /** Adapter performing schema operations (default: postgresAdapter) */
+  adapter?: TenantSchemaAdapter
+  /** Default number of tenants processed at once by forEachTenant() (default: 4) */
+  concurrency?: number
+}
+
+/**
+ * A tenant and its schema
+ */
+export interface Tenant {
+  id: string
+  schema: string
+}
+
+/**
+ * Work to run in a tenant schema.
+ * `db` is scoped to the tenant schema with `withSchema()`.
+ */
+export type TenantTask<T> = (tenant: Tenant, db: Kysely<any>) => Promise<T>
+
+/**
+ * Options for TenantManager.create()
+ */
+export interface CreateTenantOptions {
+  /** Do not fail when the tenant schema already exists */
+  ifNotExists?: boolean
+  /**
+   * Provision the new schema (e.g. run migrations).
+   * When it fails, the schema is dropped so no half-provisioned tenant remains.
+   */
+  migrate?: TenantTask<void>
+}
+
+/**
+ * Options for TenantManager.drop()
+ */
+export interface DropTenantOptions {
+  /** Do not fail when the tenant schema does not exist */
+  ifExists?: boolean
+  /** Drop all objects in the schema (default: true) */
+  cascade?: boolean
+}
+
+/**
+ * Options for TenantManager.forEachTenant()
+ */
+export interface ForEachTenantOptions<T> {
+  /** Tenant IDs to process (default: all tenants) */
+  tenants?: string[]
+  /** Number of tenants processed at once (default: the manager's concurrency) */
+  concurrency?: number
+  /**
+   * Stop starting new tenants after the first failure (default: true).
+   * Tenants already running finish; tenants not started are reported as skipped.
+   */
+  stopOnError?: boolean
+  /** Called as each tenant finishes */
+  onResult?: (result: TenantRunResult<T>) => void
+}
+
+/**
+ * Outcome of a task in one tenant schema
+ */
+export type TenantRunStatus = 'succeeded' | 'failed' | 'skipped'
+
+/**
+ * Result of a task in one tenant schema
+ */
+export interface TenantRunResult<T> {
+  tenant: Tenant
+  status: TenantRunStatus
+  /** Value returned by the task (succeeded only) */
+  value?: T
+  /** Error thrown by the task (failed only) */
+  error?: Error
+  /** Duration in milliseconds */
+  duration: number
+}
+
+/**
+ * Results of a task across tenant schemas, in tenant order
+ */
+export interface TenantRunSummary<T> {
+  results: TenantRunResult<T>[]
+  succeeded: number
+  failed: number
+  skipped: number
+  /** Total duration in milliseconds */
+  duration: number
+}
+
+/**
+ * Manages schema-per-tenant databases
+ *
+ * @example
+ * const tenants = createTenantManager(db)
+ * // Tenants migrated in parallel need their own migration lock
+ * const migrate = async (tenant: Tenant, tenantDb: Kysely<any>) =>
+ *   await runMigrations(tenantDb, migrations, { lockName: `${tenant.schema}_migrations_lock` })
+ *
+ * await tenants.create('acme', { migrate: async (t, tenantDb) => { await migrate(t, tenantDb) } })
+ *
+ * const summary = await tenants.forEachTenant(migrate, { concurrency: 8, stopOnError: false })
+ * for (const result of summary.results) {
+ *   console.log(result.tenant.id, result.status, result.error?.message)
+ * }
+ *
+ * await tenants.drop('acme')
+ */
+export class TenantManager {
+  private readonly adapter: TenantSchemaAdapter
+  private readonly config: TenantSchemaConfig
+  private readonly concurrency: number
+
+  constructor(
+    private readonly db: Kysely<any>,
+    options: TenantManagerOptions = {}
+  ) {
+    this.adapter = options.adapter ?? postgresAdapter
+    this.config = options.prefix !== undefined ? { prefix: options.prefix } : {}
+    this.concurrency = validateConcurrency(options.concurrency ?? DEFAULT_TENANT_CONCURRENCY)
+  }
+
+  /**
+   * Resolve a tenant ID to its tenant and schema name
+   *
+   * @throws Error if the resulting schema name is invalid
+   */
+  tenant(tenantId: string): Tenant {
+    return { id: tenantId, schema: getTenantSchemaName(tenantId, this.config) }
+  }
+
+  /**
+   * Check if a tenant schema exists
+   */
+  async exists(tenantId: string): Promise<boolean> {
+    return await this.adapter.schemaExists(this.db, this.tenant(tenantId).schema)
+  }
+
+  /**
+   * List all tenants, sorted by schema name
+   */
+  async list(): Promise<Tenant[]> {
+    const schemas = await this.adapter.getSchemas(this.db)
+    const tenants: Tenant[] = []
+    for (const schema of [...schemas].sort()) {
+      const id = parseTenantSchemaName(schema, this.config)
+      if (id !== null) {
+        tenants.push({ id, schema })
+      }
+    }
+    return tenants
+  }
+
+  /**
+   * Create a tenant schema and optionally provision it
+   *
+   * @returns The tenant, or null if it already existed and `ifNotExists` is set
+   * @throws Error if the tenant already exists, or the error of `migrate`
+   */
+  async create(tenantId: string, options: CreateTenantOptions = {}): Promise<Tenant | null> {
+    const tenant = this.tenant(tenantId)
+
+    // createSchema() also returns false when the schema was created concurrently
+    const created =
+      !(await this.adapter.schemaExists(this.db, tenant.schema)) &&
+      (await this.adapter.createSchema(this.db, tenant.schema))
+
+    if (!created) {
+      if (options.ifNotExists) return null
+      throw new Error(`Tenant "${tenantId}" already exists (schema ${tenant.schema})`)
+    }
+
+    if (options.migrate) {
+      try {
+        await options.migrate(tenant, this.db.withSchema(tenant.schema))
+      } catch (error) {
+        await this.adapter.dropSchema(this.db, tenant.schema, { ifExists: true, cascade: true })
+        throw error
+      }
+    }
+
+    return tenant
+  }
+
+  /**
+   * Drop a tenant schema and, by default, everything in it
+   *
+   * @returns true if the schema was dropped, false if it did not exist and `ifExists` is set
+   * @throws Error if the tenant does not exist
+   */
+  async drop(tenantId: string, options: DropTenantOptions = {}): Promise<boolean> {
+    const tenant = this.tenant(tenantId)
+
+    if (!(await this.adapter.schemaExists(this.db, tenant.schema))) {
+      if (options.ifExists) return false
+      throw new Error(`Tenant "${tenantId}" does not exist (schema ${tenant.schema})`)
+    }
+
+    return await this.adapter.dropSchema(this.db, tenant.schema, {
+      ifExists: true,
+      cascade: options.cascade ?? true
+    })
+  }
+
+  /**
+   * Run a task in every tenant schema, a bounded number of tenants at a time
+   *
+   * Failures are reported per tenant instead of rejecting, so the summary
+   * always covers every tenant.
+   *
+   * @throws Error if `tenants` names a tenant that does not exist
+   */
+  async forEachTenant<T>(
+    task: TenantTask<T>,
+    options: ForEachTenantOptions<T> = {}
+  ): Promise<TenantRunSummary<T>> {
+    const startTime = Date.now()
+    const tenants = await this.resolveTenants(options.tenants)
+    const concurrency = validateConcurrency(options.concurrency ?? this.concurrency)
+    const stopOnError = options.stopOnError ?? true
+
+    const results: TenantRunResult<T>[] = tenants.map(tenant => ({
+      tenant,
+      status: 'skipped',
+      duration: 0
+    }))
+    // Workers share one iterator, so each tenant is picked up exactly once
+    const queue = tenants.entries()
+    let stopped = false
+
+    const worker = async (): Promise<void> => {
+      for (const [index, tenant] of queue) {
+        if (stopped) return
+        const tenantStart = Date.now()
+        let result: TenantRunResult<T>
+
+        try {
+          const value = await task(tenant, this.db.withSchema(tenant.schema))
+          result = { tenant, status: 'succeeded', value, duration: Date.now() - tenantStart }
+        } catch (error) {
+          result = {
+            tenant,
+            status: 'failed',
+            error: error instanceof Error ? error : new Error(String(error)),
+            duration: Date.now() - tenantStart
+          }
+          if (stopOnError) stopped = true
+        }
+
+        results[index] = result
+        options.onResult?.(result)
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, tenants.length) }, worker))
+
+    return {
+      results,
+      succeeded: results.filter(r => r.status === 'succeeded').length,
+      failed: results.filter(r => r.status === 'failed').length,
+      skipped: results.filter(r => r.status === 'skipped').length,
+      duration: Date.now() - startTime
+    }
+  }
+
+  /**
+   * Resolve tenant IDs to existing tenants (all tenants when not given)
+   */
+  private async resolveTenants(tenantIds?: string[]): Promise<Tenant[]> {
+    const all = await this.list()
+    if (!tenantIds) return all
+
+    const known = new Set(all.map(tenant => tenant.id))
+    const unknown = tenantIds.filter(id => !known.has(id))
+    if (unknown.length > 0) {
+      throw new Error(`Unknown tenant(s): ${unknown.join(', ')}`)
+    }
+    return all.filter(tenant => tenantIds.includes(tenant.id))
+  }
+}
+
+/**
+ * Validate a tenant concurrency limit
+ */
+function validateConcurrency(concurrency: number): number {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(
+      `Invalid tenant concurrency: ${concurrency} (expected an integer of at least 1)`
+    )
+  }
+  return concurrency
+}
+
+/**
+ * Create a tenant manager
+ *
+ * @param db - Kysely database instance
+ * @param options - Tenant naming, schema adapter and concurrency
+ *
+ * @example
+ * const tenants = createTenantManager(db, { prefix: 'org_', concurrency: 8 })
+ * const all = await tenants.list()
+ */
+export function createTenantManager(
+  db: Kysely<any>,
+  options?: TenantManagerOptions
+): TenantManager {
+  return new TenantManager(db, options)
+}
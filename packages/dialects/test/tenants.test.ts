@@ -0,0 +1,219 @@
+/**
+ * Tenant Manager Tests
+ *
+ * Schema operations go through an in-memory adapter; PostgreSQL behavior of
+ * the adapter itself is covered by the schema integration tests.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Kysely, SqliteDialect } from 'kysely'
+import Database from 'better-sqlite3'
+import { createTenantManager, type TenantSchemaAdapter, type Tenant } from '../src/index.js'
+
+const createMemoryAdapter = (initial: string[]) => {
+  const schemas = new Set(initial)
+  const adapter: TenantSchemaAdapter = {
+    schemaExists: vi.fn(async (_db, name: string) => schemas.has(name)),
+    getSchemas: vi.fn(async () => [...schemas]),
+    createSchema: vi.fn(async (_db, name: string) => {
+      if (schemas.has(name)) return false
+      schemas.add(name)
+      return true
+    }),
+    dropSchema: vi.fn(async (_db, name: string) => schemas.delete(name))
+  }
+  return { adapter, schemas }
+}
+
+const sleep = async (ms: number): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, ms))
+}
+
+describe('TenantManager', () => {
+  let db: Kysely<any>
+  let memory: ReturnType<typeof createMemoryAdapter>
+
+  beforeEach(() => {
+    db = new Kysely<any>({ dialect: new SqliteDialect({ database: new Database(':memory:') }) })
+    memory = createMemoryAdapter(['public', 'tenant_b', 'auth', 'tenant_a', 'tenant_c'])
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+  })
+
+  describe('list', () => {
+    it('should list tenant schemas sorted by name', async () => {
+      const tenants = createTenantManager(db, { adapter: memory.adapter })
+
+      expect(await tenants.list()).toEqual([
+        { id: 'a', schema: 'tenant_a' },
+        { id: 'b', schema: 'tenant_b' },
+        { id: 'c', schema: 'tenant_c' }
+      ])
+    })
+
+    it('should use the configured prefix', async () => {
+      memory.schemas.add('org_acme')
+      const tenants = createTenantManager(db, { adapter: memory.adapter, prefix: 'org_' })
+
+      expect(await tenants.list()).toEqual([{ id: 'acme', schema: 'org_acme' }])
+      expect(tenants.tenant('globex')).toEqual({ id: 'globex', schema: 'org_globex' })
+      expect(await tenants.exists('acme')).toBe(true)
+    })
+  })
+
+  describe('create', () => {
+    it('should create and provision a tenant schema', async () => {
+      const tenants = createTenantManager(db, { adapter: memory.adapter })
+      const migrate = vi.fn(async () => {})
+
+      const tenant = await tenants.create('acme', { migrate })
+
+      expect(tenant).toEqual({ id: 'acme', schema: 'tenant_acme' })
+      expect(memory.schemas.has('tenant_acme')).toBe(true)
+      expect(migrate).toHaveBeenCalledWith(tenant, expect.any(Kysely))
+    })
+
+    it('should fail for existing tenants unless ifNotExists is set', async () => {
+      const tenants = createTenantManager(db, { adapter: memory.adapter })
+
+      await expect(tenants.create('a')).rejects.toThrow(
+        'Tenant "a" already exists (schema tenant_a)'
+      )
+      expect(await tenants.create('a', { ifNotExists: true })).toBeNull()
+    })
+
+    it('should drop the schema when provisioning fails', async () => {
+      const tenants = createTenantManager(db, { adapter: memory.adapter })
+
+      await expect(
+        tenants.create('acme', {
+          migrate: async () => {
+            throw new Error('migration failed')
+          }
+        })
+      ).rejects.toThrow('migration failed')
+
+      expect(memory.schemas.has('tenant_acme')).toBe(false)
+      expect(memory.adapter.dropSchema).toHaveBeenCalledWith(db, 'tenant_acme', {
+        ifExists: true,
+        cascade: true
+      })
+    })
+
+    it('should reject invalid tenant IDs', async () => {
+      const tenants = createTenantManager(db, { adapter: memory.adapter })
+
+      await expect(tenants.create('acme; drop')).rejects.toThrow('Invalid tenant schema name')
+      expect(memory.adapter.createSchema).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('drop', () => {
+    it('should drop a tenant schema with cascade by default', async () => {
+      const tenants = createTenantManager(db, { adapter: memory.adapter })
+
+      expect(await tenants.drop('a')).toBe(true)
+      expect(memory.adapter.dropSchema).toHaveBeenCalledWith(db, 'tenant_a', {
+        ifExists: true,
+        cascade: true
+      })
+      expect(memory.schemas.has('tenant_a')).toBe(false)
+    })
+
+    it('should fail for missing tenants unless ifExists is set', async () => {
+      const tenants = createTenantManager(db, { adapter: memory.adapter })
+
+      await expect(tenants.drop('missing')).rejects.toThrow('Tenant "missing" does not exist')
+      expect(await tenants.drop('missing', { ifExists: true })).toBe(false)
+    })
+  })
+
+  describe('forEachTenant', () => {
+    it('should run a task in every tenant with bounded concurrency', async () => {
+      memory.schemas.add('tenant_d')
+      const tenants = createTenantManager(db, { adapter: memory.adapter, concurrency: 2 })
+      let active = 0
+      let maxActive = 0
+
+      const summary = await tenants.forEachTenant(async tenant => {
+        active++
+        maxActive = Math.max(maxActive, active)
+        await sleep(5)
+        active--
+        return tenant.schema.toUpperCase()
+      })
+
+      expect(maxActive).toBe(2)
+      expect(summary.results.map(r => [r.tenant.id, r.status, r.value])).toEqual([
+        ['a', 'succeeded', 'TENANT_A'],
+        ['b', 'succeeded', 'TENANT_B'],
+        ['c', 'succeeded', 'TENANT_C'],
+        ['d', 'succeeded', 'TENANT_D']
+      ])
+      expect(summary).toMatchObject({ succeeded: 4, failed: 0, skipped: 0 })
+    })
+
+    it('should stop starting tenants after a failure by default', async () => {
+      const tenants = createTenantManager(db, { adapter: memory.adapter, concurrency: 1 })
+      const onResult = vi.fn()
+
+      const summary = await tenants.forEachTenant(
+        async (tenant: Tenant) => {
+          if (tenant.id === 'b') throw new Error('boom')
+        },
+        { onResult }
+      )
+
+      expect(summary.results.map(r => r.status)).toEqual(['succeeded', 'failed', 'skipped'])
+      expect(summary.results[1]?.error?.message).toBe('boom')
+      expect(summary).toMatchObject({ succeeded: 1, failed: 1, skipped: 1 })
+      expect(onResult).toHaveBeenCalledTimes(2)
+    })
+
+    it('should continue after failures when stopOnError is false', async () => {
+      const tenants = createTenantManager(db, { adapter: memory.adapter })
+
+      const summary = await tenants.forEachTenant(
+        async tenant => {
+          if (tenant.id === 'a') throw 'not an error'
+        },
+        { stopOnError: false, concurrency: 1 }
+      )
+
+      expect(summary.results.map(r => r.status)).toEqual(['failed', 'succeeded', 'succeeded'])
+      expect(summary.results[0]?.error).toEqual(new Error('not an error'))
+    })
+
+    it('should pass a database scoped to the tenant schema', async () => {
+      const tenants = createTenantManager(db, { adapter: memory.adapter })
+
+      const summary = await tenants.forEachTenant(
+        async (_tenant, tenantDb) => tenantDb.selectFrom('users').selectAll().compile().sql,
+        { tenants: ['c', 'a'] }
+      )
+
+      expect(summary.results.map(r => r.value)).toEqual([
+        'select * from "tenant_a"."users"',
+        'select * from "tenant_c"."users"'
+      ])
+    })
+
+    it('should reject unknown tenants and invalid concurrency', async () => {
+      const tenants = createTenantManager(db, { adapter: memory.adapter })
+      const task = vi.fn(async () => {})
+
+      await expect(tenants.forEachTenant(task, { tenants: ['a', 'x', 'y'] })).rejects.toThrow(
+        'Unknown tenant(s): x, y'
+      )
+      await expect(tenants.forEachTenant(task, { concurrency: 0 })).rejects.toThrow(
+        'Invalid tenant concurrency: 0'
+      )
+      expect(task).not.toHaveBeenCalled()
+      expect(() => createTenantManager(db, { concurrency: 1.5 })).toThrow(
+        'Invalid tenant concurrency'
+      )
+    })
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * AES-256-GCM value encryption with key IDs.
+ *
+ * Encrypted values are stored as `enc:v1:<keyId>:<iv>.<encrypted>.<authTag>` (hex-encoded,
+ * the same layout `@kysera/core/cursor-crypto` uses for cursors). The key ID selects the
+ * secret on decryption, so values written with retired keys stay readable while
+ * `reencrypt()` rotates them to the active key.
+ *
+ * @module @kysera/encryption
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'node:crypto'
+import { EncryptionError } from '@kysera/core'
+
+/**
+ * Prefix of every encrypted value
+ */
+export const ENCRYPTED_VALUE_PREFIX = 'enc:v1:'
+
+const KEY_ID_PATTERN = /^[\w-]+$/
+const ENCRYPTED_VALUE_PATTERN = /^enc:v1:([\w-]+):([0-9a-f]{24})\.([0-9a-f]*)\.([0-9a-f]{32})$/
+
+/**
+ * Encryption keys
+ */
+export interface EncryptionKeyOptions {
+  /**
+   * Secrets by key ID (minimum 32 characters each).
+   * Keep retired keys here until `reencrypt()` has rotated every value they encrypted.
+   */
+  keys: Record<string, string>
+
+  /**
+   * Key ID used to encrypt new values
+   */
+  activeKeyId: string
+}
+
+/**
+ * Options for ColumnCipher.encrypt()
+ */
+export interface EncryptValueOptions {
+  /**
+   * Derive the IV from the value so equal plaintexts produce equal ciphertexts
+   * (needed for equality lookups; reveals which rows share a value)
+   * @default false
+   */
+  deterministic?: boolean
+
+  /**
+   * Key to encrypt with
+   * @default activeKeyId
+   */
+  keyId?: string
+}
+
+interface DerivedKey {
+  /** AES-256 key */
+  key: Buffer
+  /** HMAC key for deterministic IVs */
+  ivKey: Buffer
+}
+
+/**
+ * Encrypts and decrypts column values with a set of versioned keys
+ *
+ * @example
+ * ```typescript
+ * import { ColumnCipher } from '@kysera/encryption'
+ *
+ * const cipher = new ColumnCipher({
+ *   keys: { '2025-01': process.env.PII_KEY_2025_01! },
+ *   activeKeyId: '2025-01'
+ * })
+ *
+ * const stored = cipher.encrypt('alice@example.com', { deterministic: true })
+ * cipher.decrypt(stored) // 'alice@example.com'
+ * ```
+ */
+export class ColumnCipher {
+  readonly activeKeyId: string
+  private readonly keys = new Map<string, DerivedKey>()
+
+  constructor(options: EncryptionKeyOptions) {
+    for (const [keyId, secret] of Object.entries(options.keys)) {
+      if (!KEY_ID_PATTERN.test(keyId)) {
+        throw new EncryptionError(
+          `Invalid encryption key ID "${keyId}" (use letters, digits, "_" and "-")`
+        )
+      }
+      if (!secret || secret.length < 32) {
+        throw new EncryptionError(`Encryption key "${keyId}" must be at least 32 characters long`)
+      }
+      // Separate derivation labels keep these keys distinct from cursor keys sharing a secret
+      this.keys.set(keyId, {
+        key: createHmac('sha256', secret).update('column-key-derivation').digest(),
+        ivKey: createHmac('sha256', secret).update('column-iv-derivation').digest()
+      })
+    }
+
+    if (!this.keys.has(options.activeKeyId)) {
+      throw new EncryptionError(`Active encryption key "${options.activeKeyId}" is not configured`)
+    }
+    this.activeKeyId = options.activeKeyId
+  }
+
+  /**
+   * IDs of all configured keys
+   */
+  get keyIds(): string[] {
+    return [...this.keys.keys()]
+  }
+
+  /**
+   * Encrypt a string value
+   */
+  encrypt(value: string, options: EncryptValueOptions = {}): string {
+    const keyId = options.keyId ?? this.activeKeyId
+    const { key, ivKey } = this.getKey(keyId)
+
+    const iv = options.deterministic
+      ? createHmac('sha256', ivKey).update(value, 'utf8').digest().subarray(0, 12)
+      : randomBytes(12)
+
+    const cipher = createCipheriv('aes-256-gcm', key, iv)
+    const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+    const authTag = cipher.getAuthTag()
+
+    return `${ENCRYPTED_VALUE_PREFIX}${keyId}:${iv.toString('hex')}.${encrypted.toString('hex')}.${authTag.toString('hex')}`
+  }
+
+  /**
+   * Decrypt a value produced by encrypt()
+   *
+   * @throws {EncryptionError} When the value is not encrypted, the key is unknown
+   *   or authentication fails
+   */
+  decrypt(value: string): string {
+    const match = ENCRYPTED_VALUE_PATTERN.exec(value)
+    if (!match) {
+      throw new EncryptionError('Invalid encrypted value format')
+    }
+
+    const [, keyId = '', ivHex = '', encryptedHex = '', authTagHex = ''] = match
+    const { key } = this.getKey(keyId)
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(ivHex, 'hex'))
+      decipher.setAuthTag(Buffer.from(authTagHex, 'hex'))
+      const decrypted = Buffer.concat([
+        decipher.update(Buffer.from(encryptedHex, 'hex')),
+        decipher.final()
+      ])
+      return decrypted.toString('utf8')
+    } catch (error) {
+      throw new EncryptionError(
+        `Failed to decrypt value with key "${keyId}": ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  /**
+   * Whether a value is in the encrypted format
+   */
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && ENCRYPTED_VALUE_PATTERN.test(value)
+  }
+
+  /**
+   * Key ID of an encrypted value (undefined for other values)
+   */
+  keyIdOf(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined
+    return ENCRYPTED_VALUE_PATTERN.exec(value)?.[1]
+  }
+
+  private getKey(keyId: string): DerivedKey {
+    const key = this.keys.get(keyId)
+    if (!key) {
+      throw new EncryptionError(`Unknown encryption key "${keyId}"`)
+    }
+    return key
+  }
+}
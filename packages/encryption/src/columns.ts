@@ -0,0 +1,65 @@
+import type { EncryptionKeyOptions } from './cipher.js'
+
+/**
+ * Options for an encrypted column
+ */
+export interface EncryptedColumnOptions {
+  /**
+   * Encrypt equal values to equal ciphertexts so `=` / `in` lookups keep working.
+   * Only use it for columns that are queried by value (e.g. email): it reveals which
+   * rows share a value.
+   * @default false
+   */
+  deterministic?: boolean
+}
+
+/**
+ * Encrypted columns by table: `{ users: { ssn: true, email: { deterministic: true } } }`
+ */
+export type EncryptedTables = Record<string, Record<string, EncryptedColumnOptions | true>>
+
+/**
+ * Options for the encryption plugin
+ */
+export interface EncryptionOptions extends EncryptionKeyOptions {
+  /**
+   * Encrypted columns by table. Encrypted columns must be text columns.
+   */
+  tables: EncryptedTables
+}
+
+/**
+ * Resolved encrypted column
+ * @internal
+ */
+export interface EncryptedColumn {
+  table: string
+  column: string
+  deterministic: boolean
+}
+
+/**
+ * Encrypted columns by table and column name
+ * @internal
+ */
+export type EncryptedColumnMap = ReadonlyMap<string, ReadonlyMap<string, EncryptedColumn>>
+
+/**
+ * Normalize the `tables` option
+ * @internal
+ */
+export function resolveEncryptedColumns(tables: EncryptedTables): EncryptedColumnMap {
+  const resolved = new Map<string, Map<string, EncryptedColumn>>()
+  for (const [table, columns] of Object.entries(tables)) {
+    const tableColumns = new Map<string, EncryptedColumn>()
+    for (const [column, options] of Object.entries(columns)) {
+      tableColumns.set(column, {
+        table,
+        column,
+        deterministic: options !== true && options.deterministic === true
+      })
+    }
+    resolved.set(table, tableColumns)
+  }
+  return resolved
+}
@@ -0,0 +1,95 @@
+import type { Plugin, QueryBuilderContext } from '@kysera/executor'
+import { resolveTableName } from '@kysera/core'
+import { VERSION } from './version.js'
+import { ColumnCipher } from './cipher.js'
+import { resolveEncryptedColumns, type EncryptionOptions } from './columns.js'
+import { EncryptionQueryPlugin } from './query-transform.js'
+
+export {
+  ColumnCipher,
+  ENCRYPTED_VALUE_PREFIX,
+  type EncryptionKeyOptions,
+  type EncryptValueOptions
+} from './cipher.js'
+export type { EncryptionOptions, EncryptedColumnOptions, EncryptedTables } from './columns.js'
+export {
+  reencrypt,
+  type ReencryptOptions,
+  type ReencryptProgress,
+  type ReencryptResult
+} from './reencrypt.js'
+
+/**
+ * Executor operations that write encrypted columns
+ */
+const WRITE_OPERATIONS = new Set<QueryBuilderContext['operation']>([
+  'insert',
+  'replace',
+  'update',
+  'delete',
+  'merge'
+])
+
+/**
+ * Encryption Plugin
+ *
+ * Column-level encryption with AES-256-GCM.
+ *
+ * ## How it works
+ *
+ * - INSERTs and UPDATEs (including upserts) on configured tables encrypt the values
+ *   written to encrypted columns with the active key
+ * - Encrypted columns in rows returned by SELECT queries and RETURNING clauses are
+ *   decrypted, including aliased columns and columns of joined tables
+ * - Deterministic columns support `=`, `<>`, `in` and `not in` lookups: the value is
+ *   compared against its ciphertext under every configured key, so lookups keep matching
+ *   during key rotation
+ *
+ * The rewrite happens at the executor level, so it applies to repositories and
+ * `@kysera/dal` queries alike. Every written string is encrypted, including values that
+ * already look encrypted, so callers cannot store ciphertexts of their own.
+ * Rotate keys by adding a new key, making it active and running {@link reencrypt}
+ * (or `kysera db reencrypt`).
+ *
+ * @example
+ * ```typescript
+ * import { encryptionPlugin } from '@kysera/encryption'
+ *
+ * const orm = await createORM(db, [
+ *   encryptionPlugin({
+ *     keys: { '2025-01': process.env.PII_KEY_2025_01! },
+ *     activeKeyId: '2025-01',
+ *     tables: {
+ *       users: { ssn: true, email: { deterministic: true } }
+ *     }
+ *   })
+ * ])
+ * const users = orm.createRepository(createUserRepository)
+ *
+ * await users.create({ email: 'alice@example.com', ssn: '078-05-1120' }) // stored encrypted
+ * await users.findOne({ where: { email: 'alice@example.com' } }) // deterministic lookup, decrypted result
+ * ```
+ */
+export const encryptionPlugin = (options: EncryptionOptions): Plugin => {
+  const columns = resolveEncryptedColumns(options.tables)
+  const queryPlugin = new EncryptionQueryPlugin(new ColumnCipher(options), columns)
+
+  return {
+    name: '@kysera/encryption',
+    version: VERSION,
+    priority: 100, // TRANSFORM plugin: runs after security (1000) and filters (500), before audit (50)
+
+    interceptQuery<QB>(qb: QB, context: QueryBuilderContext): QB {
+      // Selects on any table may join encrypted tables; writes only touch their own table
+      if (
+        WRITE_OPERATIONS.has(context.operation) &&
+        !columns.has(resolveTableName(context.table))
+      ) {
+        return qb
+      }
+      return (qb as unknown as { withPlugin(plugin: EncryptionQueryPlugin): QB }).withPlugin(
+        queryPlugin
+      )
+    }
+  }
+}
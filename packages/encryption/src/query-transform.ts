@@ -0,0 +1,434 @@
+/**
+ * Encryption of executor queries.
+ *
+ * `interceptQuery` runs before `values()`/`set()`/`where()` are called, so values are
+ * encrypted by a Kysely plugin attached to the builder, which sees the final query tree
+ * at compile time. The same plugin decrypts the rows the query returns.
+ *
+ * @module @kysera/encryption
+ */
+
+import {
+  AliasNode,
+  BinaryOperationNode,
+  ColumnNode,
+  ColumnUpdateNode,
+  DeleteQueryNode,
+  IdentifierNode,
+  InsertQueryNode,
+  OperationNodeTransformer,
+  OperatorNode,
+  PrimitiveValueListNode,
+  ReferenceNode,
+  SelectAllNode,
+  SelectQueryNode,
+  TableNode,
+  UpdateQueryNode,
+  ValueListNode,
+  ValueNode,
+  ValuesNode,
+  type JoinNode,
+  type KyselyPlugin,
+  type OperationNode,
+  type PluginTransformQueryArgs,
+  type PluginTransformResultArgs,
+  type QueryId,
+  type QueryResult,
+  type RootOperationNode,
+  type SelectionNode,
+  type UnknownRow
+} from 'kysely'
+import { EncryptionError } from '@kysera/core'
+import type { ColumnCipher } from './cipher.js'
+import type { EncryptedColumn, EncryptedColumnMap } from './columns.js'
+
+/**
+ * Operators whose right operand is compared to a deterministic column by value
+ */
+const LOOKUP_OPERATORS = new Set(['=', '==', '!=', '<>', 'in', 'not in'])
+const NEGATED_OPERATORS = new Set(['!=', '<>', 'not in'])
+
+/**
+ * Tables a query node reads or writes
+ */
+interface TableScope {
+  /** Table of unqualified column references (the first table of the query) */
+  table: string | undefined
+  /** Table names by alias and by name */
+  tables: Map<string, string>
+}
+
+function tableReference(
+  node: OperationNode | undefined
+): { table: string; alias: string } | undefined {
+  if (!node) return undefined
+  if (AliasNode.is(node)) {
+    const inner = tableReference(node.node)
+    return inner && IdentifierNode.is(node.alias)
+      ? { table: inner.table, alias: node.alias.name }
+      : inner
+  }
+  if (TableNode.is(node)) {
+    const table = node.table.identifier.name
+    return { table, alias: table }
+  }
+  return undefined
+}
+
+function createScope(nodes: readonly (OperationNode | undefined)[]): TableScope {
+  const scope: TableScope = { table: undefined, tables: new Map() }
+  for (const node of nodes) {
+    const reference = tableReference(node)
+    if (!reference) continue
+    scope.table ??= reference.table
+    scope.tables.set(reference.alias, reference.table)
+  }
+  return scope
+}
+
+/**
+ * Encrypted column a column or reference node points to
+ */
+function resolveColumn(
+  node: OperationNode,
+  scope: TableScope,
+  columns: EncryptedColumnMap
+): EncryptedColumn | undefined {
+  if (ColumnNode.is(node)) {
+    return scope.table ? columns.get(scope.table)?.get(node.column.name) : undefined
+  }
+  if (ReferenceNode.is(node) && ColumnNode.is(node.column)) {
+    const qualifier = node.table?.table.identifier.name
+    const table = qualifier ? (scope.tables.get(qualifier) ?? qualifier) : scope.table
+    return table ? columns.get(table)?.get(node.column.column.name) : undefined
+  }
+  return undefined
+}
+
+/**
+ * Tables a query reads or writes, with the selections its result rows are built from:
+ * its select list, or its RETURNING clause for writes
+ */
+function resultSelections(
+  node: RootOperationNode
+): { scope: TableScope; selections: readonly SelectionNode[] } | undefined {
+  const joins = (joinNodes: readonly JoinNode[] | undefined): OperationNode[] =>
+    (joinNodes ?? []).map(join => join.table)
+
+  if (SelectQueryNode.is(node)) {
+    return {
+      scope: createScope([...(node.from?.froms ?? []), ...joins(node.joins)]),
+      selections: node.selections ?? []
+    }
+  }
+  if (InsertQueryNode.is(node)) {
+    return { scope: createScope([node.into]), selections: node.returning?.selections ?? [] }
+  }
+  if (UpdateQueryNode.is(node)) {
+    return {
+      scope: createScope([node.table, ...(node.from?.froms ?? []), ...joins(node.joins)]),
+      selections: node.returning?.selections ?? []
+    }
+  }
+  if (DeleteQueryNode.is(node)) {
+    return {
+      scope: createScope([...node.from.froms, ...(node.using?.tables ?? []), ...joins(node.joins)]),
+      selections: node.returning?.selections ?? []
+    }
+  }
+  return undefined
+}
+
+/**
+ * Keys of the result rows of a query that hold encrypted columns
+ */
+function encryptedResultKeys(node: RootOperationNode, columns: EncryptedColumnMap): Set<string> {
+  const keys = new Set<string>()
+  const result = resultSelections(node)
+  if (!result) return keys
+
+  const { scope, selections } = result
+  const addTable = (table: string | undefined): void => {
+    for (const column of columns.get(table ?? '')?.keys() ?? []) {
+      keys.add(column)
+    }
+  }
+  for (const { selection } of selections) {
+    if (SelectAllNode.is(selection)) {
+      new Set(scope.tables.values()).forEach(addTable)
+    } else if (ReferenceNode.is(selection) && SelectAllNode.is(selection.column)) {
+      const qualifier = selection.table?.table.identifier.name
+      addTable(qualifier && (scope.tables.get(qualifier) ?? qualifier))
+    } else if (AliasNode.is(selection)) {
+      if (resolveColumn(selection.node, scope, columns) && IdentifierNode.is(selection.alias)) {
+        keys.add(selection.alias.name)
+      }
+    } else {
+      const column = resolveColumn(selection, scope, columns)
+      if (column) keys.add(column.column)
+    }
+  }
+  return keys
+}
+
+/**
+ * Values compared by a lookup (undefined when the operand is not a plain value)
+ */
+function lookupValues(node: OperationNode): readonly unknown[] | undefined {
+  if (ValueNode.is(node)) return [node.value]
+  if (PrimitiveValueListNode.is(node)) return node.values
+  if (ValueListNode.is(node) && node.values.every(value => ValueNode.is(value))) {
+    return node.values.map(value => (ValueNode.is(value) ? value.value : value))
+  }
+  return undefined
+}
+
+/**
+ * Encrypts values written to encrypted columns and values compared to deterministic columns
+ */
+class EncryptionTransformer extends OperationNodeTransformer {
+  private readonly scopes: TableScope[] = []
+
+  /**
+   * Value nodes holding ciphertexts this transformer wrote, left as they are when a
+   * query is transformed again. Other values are encrypted even when they look
+   * encrypted, so callers can't store ciphertexts of their own.
+   */
+  private readonly produced = new WeakSet<OperationNode>()
+
+  constructor(
+    private readonly cipher: ColumnCipher,
+    private readonly columns: EncryptedColumnMap
+  ) {
+    super()
+  }
+
+  protected override transformSelectQuery(
+    node: SelectQueryNode,
+    queryId?: QueryId
+  ): SelectQueryNode {
+    const scope = createScope([
+      ...(node.from?.froms ?? []),
+      ...(node.joins ?? []).map(join => join.table)
+    ])
+    return this.withScope(scope, () => super.transformSelectQuery(node, queryId))
+  }
+
+  protected override transformUpdateQuery(
+    node: UpdateQueryNode,
+    queryId?: QueryId
+  ): UpdateQueryNode {
+    const scope = createScope([
+      node.table,
+      ...(node.from?.froms ?? []),
+      ...(node.joins ?? []).map(join => join.table)
+    ])
+    return this.withScope(scope, () => super.transformUpdateQuery(node, queryId))
+  }
+
+  protected override transformDeleteQuery(
+    node: DeleteQueryNode,
+    queryId?: QueryId
+  ): DeleteQueryNode {
+    const scope = createScope([
+      ...node.from.froms,
+      ...(node.using?.tables ?? []),
+      ...(node.joins ?? []).map(join => join.table)
+    ])
+    return this.withScope(scope, () => super.transformDeleteQuery(node, queryId))
+  }
+
+  protected override transformInsertQuery(
+    node: InsertQueryNode,
+    queryId?: QueryId
+  ): InsertQueryNode {
+    return this.withScope(createScope([node.into]), () => {
+      const result = super.transformInsertQuery(node, queryId)
+      // insert ... select and default values have no row list to encrypt
+      if (!result.columns || !result.values || !ValuesNode.is(result.values)) {
+        return result
+      }
+
+      const targets = result.columns.map(column => this.encryptedColumn(column))
+      if (!targets.some(Boolean)) {
+        return result
+      }
+
+      const rows = result.values.values.map(row => {
+        if (PrimitiveValueListNode.is(row)) {
+          if (this.produced.has(row)) return row
+          return this.track(
+            PrimitiveValueListNode.create(
+              row.values.map((value, i) => {
+                const target = targets[i]
+                return target ? this.encryptValue(value, target) : value
+              })
+            )
+          )
+        }
+        return ValueListNode.create(
+          row.values.map((value, i) => {
+            const target = targets[i]
+            return target && ValueNode.is(value) && !this.produced.has(value)
+              ? this.track(ValueNode.create(this.encryptValue(value.value, target)))
+              : value
+          })
+        )
+      })
+      return { ...result, values: ValuesNode.create(rows) }
+    })
+  }
+
+  /**
+   * `set()` entries of updates and upserts
+   */
+  protected override transformColumnUpdate(
+    node: ColumnUpdateNode,
+    queryId?: QueryId
+  ): ColumnUpdateNode {
+    const result = super.transformColumnUpdate(node, queryId)
+    const target = this.encryptedColumn(result.column)
+    if (!target || !ValueNode.is(result.value) || this.produced.has(result.value)) {
+      return result
+    }
+    return ColumnUpdateNode.create(
+      result.column,
+      this.track(ValueNode.create(this.encryptValue(result.value.value, target)))
+    )
+  }
+
+  /**
+   * `where('email', '=', value)`: compare against the value's ciphertext under every key,
+   * so rows not yet rotated to the active key still match
+   */
+  protected override transformBinaryOperation(
+    node: BinaryOperationNode,
+    queryId?: QueryId
+  ): BinaryOperationNode {
+    const result = super.transformBinaryOperation(node, queryId)
+    if (!OperatorNode.is(result.operator) || !LOOKUP_OPERATORS.has(result.operator.operator)) {
+      return result
+    }
+
+    const target = this.encryptedColumn(result.leftOperand)
+    const values =
+      target && !this.produced.has(result.rightOperand) && lookupValues(result.rightOperand)
+    if (!target || !values) {
+      return result
+    }
+    if (!target.deterministic) {
+      throw new EncryptionError(
+        `Column ${target.table}.${target.column} is encrypted without deterministic mode and cannot be compared by value`
+      )
+    }
+
+    const ciphertexts = values.flatMap(value => this.lookupCiphertexts(value, target))
+    if (ValueNode.is(result.rightOperand) && ciphertexts.length === 1) {
+      return BinaryOperationNode.create(
+        result.leftOperand,
+        result.operator,
+        this.track(ValueNode.create(ciphertexts[0]))
+      )
+    }
+    const operator = NEGATED_OPERATORS.has(result.operator.operator) ? 'not in' : 'in'
+    return BinaryOperationNode.create(
+      result.leftOperand,
+      OperatorNode.create(operator),
+      this.track(PrimitiveValueListNode.create(ciphertexts))
+    )
+  }
+
+  private withScope<T>(scope: TableScope, transform: () => T): T {
+    this.scopes.push(scope)
+    try {
+      return transform()
+    } finally {
+      this.scopes.pop()
+    }
+  }
+
+  private track<T extends OperationNode>(node: T): T {
+    this.produced.add(node)
+    return node
+  }
+
+  /**
+   * Encrypted column a column or reference node points to
+   */
+  private encryptedColumn(node: OperationNode): EncryptedColumn | undefined {
+    const scope = this.scopes.at(-1)
+    return scope ? resolveColumn(node, scope, this.columns) : undefined
+  }
+
+  private encryptValue(value: unknown, target: EncryptedColumn): unknown {
+    if (value === null || value === undefined) {
+      return value
+    }
+    if (typeof value !== 'string') {
+      throw new EncryptionError(
+        `Cannot encrypt ${target.table}.${target.column}: expected a string, got ${typeof value}`
+      )
+    }
+    return this.cipher.encrypt(value, { deterministic: target.deterministic })
+  }
+
+  private lookupCiphertexts(value: unknown, target: EncryptedColumn): unknown[] {
+    if (typeof value !== 'string') {
+      return [this.encryptValue(value, target)]
+    }
+    return this.cipher.keyIds.map(keyId =>
+      this.cipher.encrypt(value, { deterministic: true, keyId })
+    )
+  }
+}
+
+/**
+ * Kysely plugin that encrypts written values and decrypts returned rows.
+ *
+ * Only result keys that select an encrypted column are decrypted: selected columns
+ * (aliased or not, of joined tables too), `*` of tables with encrypted columns, and
+ * the same in RETURNING clauses. Other columns are returned as they are, even when
+ * their values look encrypted.
+ *
+ * @internal Attached by encryptionPlugin().interceptQuery
+ */
+export class EncryptionQueryPlugin implements KyselyPlugin {
+  private readonly transformer: EncryptionTransformer
+  private readonly resultKeys = new WeakMap<QueryId, Set<string>>()
+
+  constructor(
+    private readonly cipher: ColumnCipher,
+    private readonly columns: EncryptedColumnMap
+  ) {
+    this.transformer = new EncryptionTransformer(cipher, columns)
+  }
+
+  transformQuery(args: PluginTransformQueryArgs): RootOperationNode {
+    const keys = encryptedResultKeys(args.node, this.columns)
+    if (keys.size > 0) {
+      this.resultKeys.set(args.queryId, keys)
+    }
+    return this.transformer.transformNode(args.node, args.queryId)
+  }
+
+  transformResult(args: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    const { result } = args
+    const keys = this.resultKeys.get(args.queryId)
+    if (!keys || result.rows.length === 0) {
+      return Promise.resolve(result)
+    }
+    return Promise.resolve({ ...result, rows: result.rows.map(row => this.decryptRow(row, keys)) })
+  }
+
+  private decryptRow(row: UnknownRow, keys: Set<string>): UnknownRow {
+    let decrypted: Record<string, unknown> | undefined
+    for (const key of keys) {
+      const value = row[key]
+      if (this.cipher.isEncrypted(value)) {
+        decrypted ??= { ...row }
+        decrypted[key] = this.cipher.decrypt(value)
+      }
+    }
+    return decrypted ?? row
+  }
+}
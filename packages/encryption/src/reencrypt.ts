@@ -0,0 +1,205 @@
+import type { Kysely } from 'kysely'
+import { getRawDb } from '@kysera/executor'
+import { BadRequestError, EncryptionError } from '@kysera/core'
+import { ColumnCipher } from './cipher.js'
+import { resolveEncryptedColumns, type EncryptedColumn, type EncryptionOptions } from './columns.js'
+
+type EncryptedDatabase = Record<string, Record<string, unknown>>
+
+/**
+ * Options for reencrypt()
+ */
+export interface ReencryptOptions {
+  /**
+   * Tables to process
+   * @default every table in the `tables` option
+   */
+  tables?: string[]
+
+  /**
+   * Primary key column, used to page through rows in order
+   * @default 'id'
+   */
+  primaryKey?: string
+
+  /**
+   * Rows read per batch
+   * @default 500
+   */
+  batchSize?: number
+
+  /**
+   * Count the rows that need re-encryption without writing them
+   * @default false
+   */
+  dryRun?: boolean
+
+  /**
+   * Called after every batch
+   */
+  onBatch?: (progress: ReencryptProgress) => void
+}
+
+/**
+ * Progress of a reencrypt() run, reported after every batch
+ */
+export interface ReencryptProgress {
+  table: string
+  /** Batch number (1-based) */
+  batch: number
+  /** Rows read so far in this table */
+  scanned: number
+  /** Rows re-encrypted so far (rows that need it in dry-run mode) */
+  updated: number
+}
+
+/**
+ * Result of reencrypt() for a table
+ */
+export interface ReencryptResult {
+  table: string
+  scanned: number
+  updated: number
+  batches: number
+  duration: number
+}
+
+/**
+ * New values for the encrypted columns of a row that are plaintext or use a retired key
+ */
+function rotateRow(
+  cipher: ColumnCipher,
+  row: Record<string, unknown>,
+  columns: readonly EncryptedColumn[]
+): Record<string, string> | undefined {
+  let changes: Record<string, string> | undefined
+  for (const { column, deterministic } of columns) {
+    const value = row[column]
+    if (typeof value !== 'string') continue
+
+    const keyId = cipher.keyIdOf(value)
+    if (keyId === cipher.activeKeyId) continue
+
+    const plaintext = keyId === undefined ? value : cipher.decrypt(value)
+    changes ??= {}
+    changes[column] = cipher.encrypt(plaintext, { deterministic })
+  }
+  return changes
+}
+
+async function reencryptTable(
+  db: Kysely<EncryptedDatabase>,
+  cipher: ColumnCipher,
+  table: string,
+  columns: readonly EncryptedColumn[],
+  options: Required<Pick<ReencryptOptions, 'primaryKey' | 'batchSize'>> & ReencryptOptions
+): Promise<ReencryptResult> {
+  const startTime = Date.now()
+  const { primaryKey, batchSize } = options
+  const result: ReencryptResult = { table, scanned: 0, updated: 0, batches: 0, duration: 0 }
+  let lastId: unknown
+
+  for (;;) {
+    let query = db
+      .selectFrom(table)
+      .select([primaryKey, ...columns.map(c => c.column)])
+      .orderBy(primaryKey)
+      .limit(batchSize)
+    if (lastId !== undefined) {
+      query = query.where(primaryKey, '>', lastId)
+    }
+
+    const rows = await query.execute()
+    if (rows.length === 0) break
+
+    for (const row of rows) {
+      const changes = rotateRow(cipher, row, columns)
+      if (!changes) continue
+
+      if (options.dryRun) {
+        result.updated++
+        continue
+      }
+
+      // Skip rows whose values changed since they were read (already written with the active key)
+      let update = db.updateTable(table).set(changes).where(primaryKey, '=', row[primaryKey])
+      for (const column of Object.keys(changes)) {
+        update = update.where(column, '=', row[column])
+      }
+      const { numUpdatedRows } = await update.executeTakeFirst()
+      result.updated += Number(numUpdatedRows)
+    }
+
+    result.scanned += rows.length
+    result.batches++
+    options.onBatch?.({
+      table,
+      batch: result.batches,
+      scanned: result.scanned,
+      updated: result.updated
+    })
+
+    if (rows.length < batchSize) break
+    lastId = rows[rows.length - 1]?.[primaryKey]
+  }
+
+  result.duration = Date.now() - startTime
+  return result
+}
+
+/**
+ * Re-encrypt encrypted columns with the active key, in batches.
+ *
+ * Values written with a retired key are decrypted and encrypted again with `activeKeyId`;
+ * plaintext values (rows written before a column was encrypted) are encrypted.
+ * Rows are paged by primary key and updated one by one, so the run can be interrupted
+ * and resumed at any time. Remove a retired key from `keys` once every table is done.
+ *
+ * Queries bypass executor plugins, so an executor with the encryption plugin can be passed.
+ *
+ * @example
+ * ```typescript
+ * import { reencrypt } from '@kysera/encryption'
+ *
+ * const results = await reencrypt(db, {
+ *   keys: { '2024-01': oldSecret, '2025-01': newSecret },
+ *   activeKeyId: '2025-01',
+ *   tables: { users: { ssn: true, email: { deterministic: true } } }
+ * }, { batchSize: 1000 })
+ * ```
+ */
+export async function reencrypt<DB>(
+  db: Kysely<DB>,
+  encryption: EncryptionOptions,
+  options: ReencryptOptions = {}
+): Promise<ReencryptResult[]> {
+  const { primaryKey = 'id', batchSize = 500 } = options
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new BadRequestError(
+      `Invalid batch size: ${batchSize} (expected an integer of at least 1)`
+    )
+  }
+
+  const cipher = new ColumnCipher(encryption)
+  const columns = resolveEncryptedColumns(encryption.tables)
+  const tables = options.tables ?? [...columns.keys()]
+
+  const unknown = tables.filter(table => !columns.has(table))
+  if (unknown.length > 0) {
+    throw new EncryptionError(`No encrypted columns configured for table(s): ${unknown.join(', ')}`)
+  }
+
+  const rawDb = getRawDb(db) as unknown as Kysely<EncryptedDatabase>
+  const results: ReencryptResult[] = []
+  for (const table of tables) {
+    const tableColumns = [...(columns.get(table)?.values() ?? [])]
+    results.push(
+      await reencryptTable(rawDb, cipher, table, tableColumns, {
+        ...options,
+        primaryKey,
+        batchSize
+      })
+    )
+  }
+  return results
+}
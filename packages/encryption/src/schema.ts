@@ -0,0 +1,49 @@
+/**
+ * Zod schemas for encryption plugin configuration.
+ * This file is separate from the main index to allow the package to work without Zod installed.
+ * Only import this file if you need Zod validation (e.g., for CLI or configuration validation).
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod'
+
+/**
+ * Zod schema for an encrypted column: `true` or `{ deterministic }`
+ */
+export const EncryptedColumnOptionsSchema = z.union([
+  z.literal(true),
+  z.object({
+    deterministic: z.boolean().optional()
+  })
+])
+
+/**
+ * Zod schema for EncryptionOptions
+ * Used for validation and configuration in the kysera-cli
+ *
+ * @example
+ * ```typescript
+ * import { EncryptionOptionsSchema } from '@kysera/encryption/schema'
+ *
+ * const result = EncryptionOptionsSchema.safeParse({
+ *   keys: { '2025-01': process.env.PII_KEY_2025_01 },
+ *   activeKeyId: '2025-01',
+ *   tables: { users: { ssn: true, email: { deterministic: true } } }
+ * })
+ *
+ * if (result.success) {
+ *   console.log('Valid options:', result.data)
+ * }
+ * ```
+ */
+export const EncryptionOptionsSchema = z.object({
+  keys: z.record(z.string(), z.string().min(32)),
+  activeKeyId: z.string(),
+  tables: z.record(z.string(), z.record(z.string(), EncryptedColumnOptionsSchema))
+})
+
+/**
+ * Type inferred from EncryptionOptionsSchema
+ */
+export type EncryptionOptionsSchemaType = z.infer<typeof EncryptionOptionsSchema>
@@ -0,0 +1,373 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { Kysely, SqliteDialect } from 'kysely'
+import Database from 'better-sqlite3'
+import { createORM, createRepositoryFactory, type Plugin } from '@kysera/repository'
+import { createExecutor } from '@kysera/executor'
+import { createQuery, type DbContext } from '@kysera/dal'
+import { EncryptionError } from '@kysera/core'
+import { ColumnCipher, encryptionPlugin, reencrypt, type EncryptionOptions } from '../src/index.js'
+import { EncryptionOptionsSchema } from '../src/schema.js'
+
+interface TestDatabase {
+  users: {
+    id?: number
+    email: string
+    ssn: string | null
+    name: string
+  }
+  orders: {
+    id?: number
+    user_id: number
+    total: number
+  }
+}
+
+const OLD_KEY = 'old-secret-key-with-at-least-32-characters'
+const NEW_KEY = 'new-secret-key-with-at-least-32-characters'
+
+const options: EncryptionOptions = {
+  keys: { k1: OLD_KEY },
+  activeKeyId: 'k1',
+  tables: { users: { ssn: true, email: { deterministic: true } } }
+}
+
+async function createTestRepository(db: Kysely<TestDatabase>, plugins: Plugin[]): Promise<any> {
+  const orm = await createORM<TestDatabase>(db, plugins)
+  return orm.createRepository(executor => {
+    const factory = createRepositoryFactory<TestDatabase>(executor)
+    return factory.create<'users', any>({
+      tableName: 'users',
+      mapRow: row => row,
+      schemas: {
+        create: { parse: (v: any) => v } as any,
+        update: { parse: (v: any) => v } as any
+      }
+    })
+  })
+}
+
+describe('ColumnCipher', () => {
+  const cipher = new ColumnCipher({ keys: { k1: OLD_KEY, k2: NEW_KEY }, activeKeyId: 'k2' })
+
+  it('should round-trip values with the active key', () => {
+    const encrypted = cipher.encrypt('078-05-1120')
+
+    expect(encrypted).toMatch(/^enc:v1:k2:[0-9a-f]{24}\.[0-9a-f]+\.[0-9a-f]{32}$/)
+    expect(cipher.isEncrypted(encrypted)).toBe(true)
+    expect(cipher.keyIdOf(encrypted)).toBe('k2')
+    expect(cipher.decrypt(encrypted)).toBe('078-05-1120')
+    expect(cipher.decrypt(cipher.encrypt(''))).toBe('')
+  })
+
+  it('should use random IVs unless deterministic', () => {
+    expect(cipher.encrypt('alice')).not.toBe(cipher.encrypt('alice'))
+    expect(cipher.encrypt('alice', { deterministic: true })).toBe(
+      cipher.encrypt('alice', { deterministic: true })
+    )
+    expect(cipher.encrypt('alice', { deterministic: true })).not.toBe(
+      cipher.encrypt('alice', { deterministic: true, keyId: 'k1' })
+    )
+  })
+
+  it('should reject tampered values and unknown keys', () => {
+    const encrypted = cipher.encrypt('alice')
+    const tampered = encrypted.replace(
+      /\.([0-9a-f])/,
+      (_, c: string) => `.${c === '0' ? '1' : '0'}`
+    )
+
+    expect(() => cipher.decrypt(tampered)).toThrow(EncryptionError)
+    expect(() => cipher.decrypt(encrypted.replace('enc:v1:k2:', 'enc:v1:k9:'))).toThrow(
+      'Unknown encryption key "k9"'
+    )
+    expect(() => cipher.decrypt('alice')).toThrow('Invalid encrypted value format')
+  })
+
+  it('should validate the key configuration', () => {
+    expect(() => new ColumnCipher({ keys: { k1: 'short' }, activeKeyId: 'k1' })).toThrow(
+      'Encryption key "k1" must be at least 32 characters long'
+    )
+    expect(() => new ColumnCipher({ keys: { 'k:1': OLD_KEY }, activeKeyId: 'k:1' })).toThrow(
+      'Invalid encryption key ID "k:1"'
+    )
+    expect(() => new ColumnCipher({ keys: { k1: OLD_KEY }, activeKeyId: 'k2' })).toThrow(
+      'Active encryption key "k2" is not configured'
+    )
+  })
+})
+
+describe('Encryption Plugin', () => {
+  let db: Kysely<TestDatabase>
+
+  beforeEach(async () => {
+    db = new Kysely<TestDatabase>({
+      dialect: new SqliteDialect({ database: new Database(':memory:') })
+    })
+
+    await db.schema
+      .createTable('users')
+      .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+      .addColumn('email', 'text', col => col.notNull())
+      .addColumn('ssn', 'text')
+      .addColumn('name', 'text', col => col.notNull())
+      .execute()
+
+    await db.schema
+      .createTable('orders')
+      .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+      .addColumn('user_id', 'integer', col => col.notNull())
+      .addColumn('total', 'integer', col => col.notNull())
+      .execute()
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+  })
+
+  async function getStoredUsers() {
+    return await db.selectFrom('users').selectAll().orderBy('id').execute()
+  }
+
+  describe('repositories', () => {
+    it('should encrypt on create and decrypt the returned entity', async () => {
+      const repo = await createTestRepository(db, [encryptionPlugin(options)])
+
+      const user = await repo.create({
+        email: 'alice@example.com',
+        ssn: '078-05-1120',
+        name: 'Alice'
+      })
+
+      expect(user).toMatchObject({ email: 'alice@example.com', ssn: '078-05-1120', name: 'Alice' })
+      const [stored] = await getStoredUsers()
+      expect(stored?.email).toMatch(/^enc:v1:k1:/)
+      expect(stored?.ssn).toMatch(/^enc:v1:k1:/)
+      expect(stored?.name).toBe('Alice')
+    })
+
+    it('should encrypt updates and keep nulls', async () => {
+      const repo = await createTestRepository(db, [encryptionPlugin(options)])
+      const user = await repo.create({ email: 'alice@example.com', ssn: null, name: 'Alice' })
+
+      const updated = await repo.update(user.id, { ssn: '078-05-1120' })
+
+      expect(updated.ssn).toBe('078-05-1120')
+      const [stored] = await getStoredUsers()
+      expect(stored?.ssn).toMatch(/^enc:v1:k1:/)
+
+      await repo.update(user.id, { ssn: null })
+      expect((await getStoredUsers())[0]?.ssn).toBeNull()
+    })
+
+    it('should find rows by deterministic columns', async () => {
+      const repo = await createTestRepository(db, [encryptionPlugin(options)])
+      await repo.bulkCreate([
+        { email: 'alice@example.com', ssn: '1', name: 'Alice' },
+        { email: 'bob@example.com', ssn: '2', name: 'Bob' }
+      ])
+
+      const bob = await repo.findOne({ where: { email: 'bob@example.com' } })
+
+      expect(bob).toMatchObject({ name: 'Bob', ssn: '2' })
+      expect(await repo.find({ where: { email: 'carol@example.com' } })).toEqual([])
+    })
+
+    it('should reject value lookups on randomized columns', async () => {
+      const repo = await createTestRepository(db, [encryptionPlugin(options)])
+
+      await expect(repo.findOne({ where: { ssn: '078-05-1120' } })).rejects.toThrow(
+        'Column users.ssn is encrypted without deterministic mode and cannot be compared by value'
+      )
+    })
+
+    it('should reject non-string values', async () => {
+      const repo = await createTestRepository(db, [encryptionPlugin(options)])
+
+      await expect(
+        repo.create({ email: 'alice@example.com', ssn: 1120, name: 'Alice' })
+      ).rejects.toThrow('Cannot encrypt users.ssn: expected a string, got number')
+    })
+  })
+
+  describe('DAL and executor queries', () => {
+    it('should decrypt DAL select results, including joined and aliased columns', async () => {
+      const executor = await createExecutor(db, [encryptionPlugin(options)])
+      await executor
+        .insertInto('users')
+        .values({ email: 'alice@example.com', ssn: '1', name: 'Alice' })
+        .execute()
+      await executor.insertInto('orders').values({ user_id: 1, total: 42 }).execute()
+
+      const getOrders = createQuery((ctx: DbContext<TestDatabase>, email: string) =>
+        ctx.db
+          .selectFrom('orders')
+          .innerJoin('users as u', 'u.id', 'orders.user_id')
+          .select(['orders.total', 'u.email as customer', 'u.ssn'])
+          .where('u.email', '=', email)
+          .execute()
+      )
+
+      expect(await getOrders(executor, 'alice@example.com')).toEqual([
+        { total: 42, customer: 'alice@example.com', ssn: '1' }
+      ])
+    })
+
+    it('should encrypt upserts and in-list lookups', async () => {
+      const executor = await createExecutor(db, [encryptionPlugin(options)])
+      await executor
+        .insertInto('users')
+        .values([
+          { email: 'alice@example.com', ssn: '1', name: 'Alice' },
+          { email: 'bob@example.com', ssn: '2', name: 'Bob' }
+        ])
+        .execute()
+
+      await executor
+        .insertInto('users')
+        .values({ id: 1, email: 'alice@example.com', ssn: '3', name: 'Alice' })
+        .onConflict(oc => oc.column('id').doUpdateSet({ ssn: '3' }))
+        .execute()
+
+      const rows = await executor
+        .selectFrom('users')
+        .select(['name', 'ssn'])
+        .where('email', 'in', ['alice@example.com', 'bob@example.com'])
+        .where('email', '<>', 'bob@example.com')
+        .execute()
+
+      expect(rows).toEqual([{ name: 'Alice', ssn: '3' }])
+      expect((await getStoredUsers())[0]?.ssn).toMatch(/^enc:v1:k1:/)
+    })
+
+    it('should only decrypt encrypted columns', async () => {
+      const executor = await createExecutor(db, [encryptionPlugin(options)])
+      const lookalike = `enc:v1:k1:${'0'.repeat(24)}.${'0'.repeat(4)}.${'0'.repeat(32)}`
+      await executor
+        .insertInto('users')
+        .values({ email: 'alice@example.com', ssn: '1', name: lookalike })
+        .execute()
+
+      expect(await executor.selectFrom('users').select(['id', 'name']).execute()).toEqual([
+        { id: 1, name: lookalike }
+      ])
+      expect(
+        await executor.selectFrom('users').selectAll().executeTakeFirstOrThrow()
+      ).toMatchObject({ email: 'alice@example.com', ssn: '1', name: lookalike })
+    })
+
+    it('should encrypt values that look encrypted', async () => {
+      const executor = await createExecutor(db, [encryptionPlugin(options)])
+      const cipher = new ColumnCipher(options)
+      const foreign = cipher.encrypt('078-05-1120')
+      await executor
+        .insertInto('users')
+        .values({ email: 'alice@example.com', ssn: foreign, name: 'Alice' })
+        .execute()
+
+      const [stored] = await getStoredUsers()
+      expect(stored?.ssn).not.toBe(foreign)
+      expect(await executor.selectFrom('users').select('ssn').executeTakeFirstOrThrow()).toEqual({
+        ssn: foreign
+      })
+    })
+
+    it('should not touch tables without encrypted columns', async () => {
+      const executor = await createExecutor(db, [encryptionPlugin(options)])
+
+      await executor.insertInto('orders').values({ user_id: 1, total: 42 }).execute()
+
+      expect(await db.selectFrom('orders').select('total').execute()).toEqual([{ total: 42 }])
+    })
+  })
+
+  describe('key rotation', () => {
+    const rotated: EncryptionOptions = {
+      ...options,
+      keys: { k1: OLD_KEY, k2: NEW_KEY },
+      activeKeyId: 'k2'
+    }
+
+    beforeEach(async () => {
+      const executor = await createExecutor(db, [encryptionPlugin(options)])
+      for (let i = 1; i <= 5; i++) {
+        await executor
+          .insertInto('users')
+          .values({ email: `user${i}@example.com`, ssn: `ssn-${i}`, name: `User ${i}` })
+          .execute()
+      }
+      // Written before the column was encrypted
+      await db
+        .insertInto('users')
+        .values({ email: 'legacy@example.com', ssn: 'ssn-6', name: 'Legacy' })
+        .execute()
+    })
+
+    it('should read and look up values written with retired keys', async () => {
+      const executor = await createExecutor(db, [encryptionPlugin(rotated)])
+
+      const row = await executor
+        .selectFrom('users')
+        .select(['email', 'ssn'])
+        .where('email', '=', 'user3@example.com')
+        .executeTakeFirst()
+
+      expect(row).toEqual({ email: 'user3@example.com', ssn: 'ssn-3' })
+    })
+
+    it('should re-encrypt rows with the active key in batches', async () => {
+      const batches: number[] = []
+
+      const results = await reencrypt(db, rotated, {
+        batchSize: 2,
+        onBatch: progress => batches.push(progress.scanned)
+      })
+
+      expect(results).toEqual([
+        expect.objectContaining({ table: 'users', scanned: 6, updated: 6, batches: 3 })
+      ])
+      expect(batches).toEqual([2, 4, 6])
+      for (const user of await getStoredUsers()) {
+        expect(user.email).toMatch(/^enc:v1:k2:/)
+        expect(user.ssn).toMatch(/^enc:v1:k2:/)
+      }
+
+      const executor = await createExecutor(db, [
+        encryptionPlugin({ ...rotated, keys: { k2: NEW_KEY } })
+      ])
+      const legacy = await executor
+        .selectFrom('users')
+        .select('ssn')
+        .where('email', '=', 'legacy@example.com')
+        .executeTakeFirst()
+      expect(legacy).toEqual({ ssn: 'ssn-6' })
+
+      expect(await reencrypt(db, rotated)).toEqual([
+        expect.objectContaining({ scanned: 6, updated: 0 })
+      ])
+    })
+
+    it('should count rows without writing in dry-run mode', async () => {
+      const before = await getStoredUsers()
+
+      const [result] = await reencrypt(db, rotated, { dryRun: true })
+
+      expect(result).toMatchObject({ scanned: 6, updated: 6 })
+      expect(await getStoredUsers()).toEqual(before)
+    })
+
+    it('should reject tables without encrypted columns', async () => {
+      await expect(reencrypt(db, rotated, { tables: ['orders'] })).rejects.toThrow(
+        'No encrypted columns configured for table(s): orders'
+      )
+    })
+  })
+
+  describe('schema', () => {
+    it('should validate plugin options', () => {
+      expect(EncryptionOptionsSchema.safeParse(options).success).toBe(true)
+      expect(EncryptionOptionsSchema.safeParse({ ...options, keys: { k1: 'short' } }).success).toBe(
+        false
+      )
+    })
+  })
+})
@@ -332,9 +332,10 @@ function createInterceptedMethod<DB>(
 
     // Apply interceptors with schema context
     // Use spread to conditionally include schema only when defined
+    const rawDb = db as unknown as Kysely<unknown>
     const context: QueryBuilderContext = currentSchema !== undefined
-      ? { operation, table, schema: currentSchema, metadata: {} }
-      : { operation, table, metadata: {} }
+      ? { operation, table, schema: currentSchema, metadata: {}, rawDb }
+      : { operation, table, metadata: {}, rawDb }
 
     for (const plugin of interceptors) {
       if (plugin.interceptQuery) {
@@ -622,7 +623,9 @@ function createProxy<DB>(
         if (!cachedTransactionWrapper) {
           cachedTransactionWrapper = () => ({
             execute: async <T>(fn: (trx: Transaction<DB>) => Promise<T>): Promise<T> => {
-              return await target.transaction().execute(async trx => {
+              const opened: Transaction<DB>[] = []
+              const result = await target.transaction().execute(async trx => {
+                opened.push(trx)
                 /**
                  * TYPE ASSERTION #2a: Transaction to Kysely for proxy creation
                  *
@@ -658,6 +661,10 @@ function createProxy<DB>(
                  */
                 return await fn(wrappedTrx as unknown as Transaction<DB>)
               })
+              for (const trx of opened) {
+                await notifyTransactionCommit(allPlugins, trx as unknown as Transaction<unknown>)
+              }
+              return result
             }
           })
         }
@@ -831,6 +838,20 @@ export function wrapTransaction<DB>(
   ) as unknown as KyseraTransaction<DB>
 }
 
+/**
+ * Call the onTransactionCommit hook of every plugin, after `trx` has committed.
+ * For code that opens transactions on the raw database and wraps them with
+ * {@link wrapTransaction}.
+ */
+export async function notifyTransactionCommit(
+  plugins: readonly Plugin[],
+  trx: Transaction<unknown>
+): Promise<void> {
+  for (const plugin of plugins) {
+    await plugin.onTransactionCommit?.(trx)
+  }
+}
+
 /**
  * Apply plugins to a query builder manually
  * Useful for complex queries that bypass normal interception
@@ -45,7 +45,12 @@ export type {
   KyseraExecutorMarker,
   PluginValidationDetails,
   PluginValidationErrorType,
-  BaseRepositoryLike
+  BaseRepositoryLike,
+  ReplicaStrategy,
+  ReplicaExecutorConfig,
+  ReplicaHealthReport,
+  ReplicaExecutorMethods,
+  ReplicaExecutor
 } from './types.js'
 
 // Type guard function
@@ -59,6 +64,7 @@ export {
   getPlugins,
   getRawDb,
   wrapTransaction,
+  notifyTransactionCommit,
   applyPlugins,
   validatePlugins,
   resolvePluginOrder,
@@ -67,6 +73,9 @@ export {
   INTERCEPTED_METHODS
 } from './executor.js'
 
+// Read replica routing
+export { createReplicaExecutor, USE_PRIMARY_METADATA_KEY } from './replica.js'
+
 // Export InterceptedMethod type for advanced users
 export type { InterceptedMethod } from './executor.js'
 
@@ -0,0 +1,193 @@
+/**
+ * @kysera/executor - Read Replica Routing
+ * @module @kysera/executor
+ *
+ * Routes `selectFrom` queries made outside a transaction to a replica.
+ * Everything else (writes, transactions, CTEs, raw SQL) runs on the primary.
+ */
+
+import type { Kysely } from 'kysely'
+import type {
+  Plugin,
+  QueryBuilderContext,
+  KyseraExecutor,
+  ReplicaExecutor,
+  ReplicaExecutorConfig,
+  ReplicaHealthReport,
+  ReplicaStrategy
+} from './types.js'
+import { createExecutor, applyPlugins } from './executor.js'
+
+/** `context.metadata` key that forces a read onto the primary */
+export const USE_PRIMARY_METADATA_KEY = 'usePrimary'
+
+/** Properties added by the replica router on top of the primary executor */
+const REPLICA_PROPS = new Set<string | symbol>(['reportReplicaHealth', 'withMetadata'])
+
+/**
+ * Routing state shared by the executor and all its withSchema/withMetadata views
+ * @internal
+ */
+interface ReplicaState<DB> {
+  readonly primary: Kysely<DB>
+  readonly replicas: readonly Kysely<DB>[]
+  readonly interceptors: readonly Plugin[]
+  readonly strategy: ReplicaStrategy
+  readonly health: (ReplicaHealthReport | undefined)[]
+  cursor: number
+}
+
+/**
+ * Pick the replica for the next read, or undefined when no replica is healthy
+ * @internal
+ */
+function selectReplica<DB>(state: ReplicaState<DB>): number | undefined {
+  const candidates: number[] = []
+  for (let i = 0; i < state.replicas.length; i++) {
+    if (state.health[i]?.status !== 'unhealthy') {
+      candidates.push(i)
+    }
+  }
+  if (candidates.length === 0) {
+    return undefined
+  }
+
+  if (state.strategy === 'least-latency') {
+    let best: number | undefined
+    let bestLatency = Number.POSITIVE_INFINITY
+    for (const i of candidates) {
+      const latency = state.health[i]?.metrics?.checkLatency
+      if (latency !== undefined && latency < bestLatency) {
+        best = i
+        bestLatency = latency
+      }
+    }
+    // No latency reported yet: fall back to round-robin
+    if (best !== undefined) {
+      return best
+    }
+  }
+
+  const index = candidates[state.cursor % candidates.length]
+  state.cursor = (state.cursor + 1) % Number.MAX_SAFE_INTEGER
+  return index
+}
+
+/**
+ * Create the routing proxy over the primary executor
+ * @internal
+ */
+function createReplicaProxy<DB>(
+  state: ReplicaState<DB>,
+  target: KyseraExecutor<DB>,
+  metadata: Readonly<Record<string, unknown>>,
+  currentSchema?: string
+): ReplicaExecutor<DB> {
+  const selectFrom = (table: string): unknown => {
+    // Fresh metadata per query, as with the primary's own interception
+    const queryMetadata: Record<string, unknown> = { ...metadata }
+    const replica =
+      queryMetadata[USE_PRIMARY_METADATA_KEY] === true ? undefined : selectReplica(state)
+
+    const connection = replica === undefined ? state.primary : state.replicas[replica]!
+    const db = currentSchema !== undefined ? connection.withSchema(currentSchema) : connection
+    const qb = (db.selectFrom as (t: string) => unknown).call(db, table)
+
+    // Same plugin chain on every connection, with rawDb pointing at the one used
+    const rawDb = db as unknown as Kysely<unknown>
+    const context: QueryBuilderContext = currentSchema !== undefined
+      ? { operation: 'select', table, schema: currentSchema, metadata: queryMetadata, rawDb }
+      : { operation: 'select', table, metadata: queryMetadata, rawDb }
+    return applyPlugins(qb, state.interceptors, context)
+  }
+
+  const reportReplicaHealth = (replica: number, report: ReplicaHealthReport): void => {
+    if (!Number.isInteger(replica) || replica < 0 || replica >= state.replicas.length) {
+      throw new Error(`Replica index ${String(replica)} is out of range (${String(state.replicas.length)} replicas)`)
+    }
+    state.health[replica] = report
+  }
+
+  const withMetadata = (extra: Record<string, unknown>): ReplicaExecutor<DB> =>
+    createReplicaProxy(state, target, { ...metadata, ...extra }, currentSchema)
+
+  const withSchema = (schema: string): ReplicaExecutor<DB> =>
+    createReplicaProxy(state, target.withSchema(schema) as KyseraExecutor<DB>, metadata, schema)
+
+  return new Proxy(target, {
+    has(proxyTarget, prop) {
+      if (REPLICA_PROPS.has(prop)) return true
+      return Reflect.has(proxyTarget, prop)
+    },
+    get(proxyTarget, prop) {
+      if (prop === 'selectFrom') return selectFrom
+      if (prop === 'withSchema') return withSchema
+      if (prop === 'withMetadata') return withMetadata
+      if (prop === 'reportReplicaHealth') return reportReplicaHealth
+      if (prop === '__schema') return currentSchema
+      // Everything else is the primary executor's (already bound, plugin-aware) property
+      return Reflect.get(proxyTarget, prop)
+    }
+  }) as ReplicaExecutor<DB>
+}
+
+/**
+ * Create a plugin-aware executor over a primary and read replicas
+ *
+ * `selectFrom` queries outside a transaction go to a healthy replica; writes,
+ * transactions (including `withTransaction` from `@kysera/dal`), CTEs and raw
+ * SQL go to the primary. The plugin chain runs the same way on every connection,
+ * with `context.rawDb` set to the connection the query was built on.
+ *
+ * Plugins are initialized once, on the primary. Replicas marked unhealthy via
+ * `reportReplicaHealth` get no reads; when none is healthy, reads go to the primary.
+ *
+ * @param primary - Kysely instance for the primary database
+ * @param replicas - Kysely instances for the read replicas
+ * @param plugins - Array of plugins to apply
+ * @param config - Optional configuration
+ * @returns Replica-aware executor
+ *
+ * @example
+ * ```typescript
+ * import { createReplicaExecutor } from '@kysera/executor';
+ * import { HealthMonitor } from '@kysera/infra';
+ *
+ * const executor = await createReplicaExecutor(primary, [replica1, replica2], [softDeletePlugin()], {
+ *   strategy: 'least-latency'
+ * });
+ *
+ * // Feed health checks into replica selection
+ * [replica1, replica2].forEach((replica, i) => {
+ *   new HealthMonitor(replica).start(result => executor.reportReplicaHealth(i, result));
+ * });
+ *
+ * await executor.selectFrom('users').selectAll().execute();  // replica
+ * await executor.insertInto('users').values(user).execute(); // primary
+ *
+ * // Read your own write from the primary
+ * await executor.withMetadata({ usePrimary: true }).selectFrom('users').selectAll().execute();
+ * ```
+ */
+export async function createReplicaExecutor<DB>(
+  primary: Kysely<DB>,
+  replicas: readonly Kysely<DB>[],
+  plugins: readonly Plugin[] = [],
+  config: ReplicaExecutorConfig = {}
+): Promise<ReplicaExecutor<DB>> {
+  const { strategy = 'round-robin', ...executorConfig } = config
+  const primaryExecutor = await createExecutor(primary, plugins, executorConfig)
+  const { enabled = true } = executorConfig
+
+  const state: ReplicaState<DB> = {
+    primary,
+    replicas,
+    // __plugins is sorted by createExecutor when interception is enabled
+    interceptors: enabled ? primaryExecutor.__plugins.filter(p => p.interceptQuery) : [],
+    strategy,
+    health: replicas.map(() => undefined),
+    cursor: 0
+  }
+
+  return createReplicaProxy(state, primaryExecutor, {})
+}
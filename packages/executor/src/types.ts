@@ -20,6 +20,12 @@ export interface QueryBuilderContext {
   readonly schema?: string
   /** Additional metadata */
   readonly metadata: Record<string, unknown>
+  /**
+   * Unwrapped Kysely instance (or transaction) the query builder was created on.
+   * Lets plugins run side queries on the same connection without re-triggering interceptors.
+   * undefined when plugins are applied manually (e.g. via applyPlugins).
+   */
+  readonly rawDb?: Kysely<unknown>
 }
 
 /**
@@ -97,6 +103,22 @@ export interface Plugin {
    */
   interceptQuery?<QB>(qb: QB, context: QueryBuilderContext): QB
 
+  /**
+   * Ambient context the plugin's query interception depends on
+   * (e.g. the active RLS context).
+   * Code that shares query results between callers (such as request loaders in
+   * `@kysera/repository`) only shares them between calls whose keys are identical (`Object.is`).
+   */
+  contextKey?(): unknown
+
+  /**
+   * Called after a transaction opened through the executor (`executor.transaction()`,
+   * `withTransaction()` of `@kysera/dal`) has committed, with the raw Transaction its
+   * queries ran on (the `rawDb` of their QueryBuilderContext).
+   * Use for work that must only happen once the transaction's writes are visible.
+   */
+  onTransactionCommit?(trx: Transaction<unknown>): Promise<void> | void
+
   /**
    * Repository extensions: Add methods to repositories (Repository pattern only)
    */
@@ -142,6 +164,55 @@ export interface ExecutorConfig {
   readonly enabled?: boolean
 }
 
+/**
+ * How a replica executor picks the replica for a read
+ * - `round-robin`: rotate through the healthy replicas
+ * - `least-latency`: the healthy replica with the lowest reported latency
+ */
+export type ReplicaStrategy = 'round-robin' | 'least-latency'
+
+/**
+ * Configuration for replica executor creation
+ */
+export interface ReplicaExecutorConfig extends ExecutorConfig {
+  /** Replica selection strategy (default: 'round-robin') */
+  readonly strategy?: ReplicaStrategy
+}
+
+/**
+ * Health report for a replica.
+ * Structurally compatible with `HealthCheckResult` from `@kysera/infra`,
+ * so `HealthMonitor` results can be passed as they are.
+ */
+export interface ReplicaHealthReport {
+  /** Unhealthy replicas receive no reads until a later report says otherwise */
+  readonly status: 'healthy' | 'degraded' | 'unhealthy'
+  readonly metrics?: {
+    /** Check latency in milliseconds, used by the 'least-latency' strategy */
+    readonly checkLatency?: number
+  }
+}
+
+/**
+ * Replica routing methods of a ReplicaExecutor
+ */
+export interface ReplicaExecutorMethods<DB = unknown> {
+  /**
+   * Record a health check result for a replica (index into the replicas array)
+   */
+  reportReplicaHealth(replica: number, report: ReplicaHealthReport): void
+  /**
+   * Executor whose queries start with the given `context.metadata`.
+   * Set `usePrimary: true` to read from the primary, e.g. right after a write.
+   */
+  withMetadata(metadata: Record<string, unknown>): ReplicaExecutor<DB>
+}
+
+/**
+ * Plugin-aware executor that routes reads to replicas
+ */
+export type ReplicaExecutor<DB> = KyseraExecutor<DB> & ReplicaExecutorMethods<DB>
+
 /**
  * Plugin validation error details
  */
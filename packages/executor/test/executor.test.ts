@@ -189,6 +189,38 @@ describe('@kysera/executor', () => {
         expect(interceptCalled).toBe(true)
       })
     })
+
+    it('notifies plugins after the transaction commits', async () => {
+      const events: string[] = []
+      let rawDb: unknown
+
+      const plugin: Plugin = {
+        name: 'test',
+        version: '1.0.0',
+        interceptQuery<QB>(qb: QB, context: QueryBuilderContext): QB {
+          rawDb = context.rawDb
+          return qb
+        },
+        onTransactionCommit(trx) {
+          events.push('commit')
+          expect(trx).toBe(rawDb)
+        }
+      }
+
+      const executor = await createExecutor(db, [plugin])
+
+      await executor.transaction().execute(async trx => {
+        await trx.updateTable('users').set({ name: 'Alicia' }).where('id', '=', 1).execute()
+        events.push('write')
+      })
+      await expect(
+        executor.transaction().execute(async () => {
+          throw new Error('rollback')
+        })
+      ).rejects.toThrow('rollback')
+
+      expect(events).toEqual(['write', 'commit'])
+    })
   })
 
   describe('validatePlugins', () => {
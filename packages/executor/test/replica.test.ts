@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { Kysely, SqliteDialect } from 'kysely'
+import BetterSqlite3 from 'better-sqlite3'
+import {
+  createReplicaExecutor,
+  getRawDb,
+  destroyExecutor,
+  USE_PRIMARY_METADATA_KEY,
+  type Plugin,
+  type QueryBuilderContext
+} from '../src/index.js'
+
+interface TestDatabase {
+  users: {
+    id: number
+    name: string
+    deleted_at: string | null
+  }
+}
+
+function createDb(name: string): Kysely<TestDatabase> {
+  const sqlite = new BetterSqlite3(':memory:')
+  sqlite.exec('CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, deleted_at TEXT)')
+  sqlite.exec(`INSERT INTO users (name) VALUES ('${name}')`)
+  sqlite.exec(`INSERT INTO users (name, deleted_at) VALUES ('${name}-deleted', '2024-01-01')`)
+  return new Kysely<TestDatabase>({ dialect: new SqliteDialect({ database: sqlite }) })
+}
+
+describe('createReplicaExecutor', () => {
+  let primary: Kysely<TestDatabase>
+  let replicas: Kysely<TestDatabase>[]
+  let contexts: QueryBuilderContext[]
+  let softDelete: Plugin
+
+  const readName = async (db: Kysely<TestDatabase>): Promise<string | undefined> =>
+    (await db.selectFrom('users').select('name').executeTakeFirst())?.name
+
+  beforeEach(() => {
+    primary = createDb('primary')
+    replicas = [createDb('replica-0'), createDb('replica-1')]
+    contexts = []
+    softDelete = {
+      name: 'soft-delete',
+      version: '1.0.0',
+      interceptQuery<QB>(qb: QB, context: QueryBuilderContext): QB {
+        contexts.push(context)
+        if (context.operation === 'select') {
+          return (qb as any).where('deleted_at', 'is', null) as QB
+        }
+        return qb
+      }
+    }
+  })
+
+  afterEach(async () => {
+    await Promise.all([primary, ...replicas].map(db => db.destroy()))
+  })
+
+  it('should round-robin selects across replicas', async () => {
+    const executor = await createReplicaExecutor(primary, replicas)
+
+    expect(await readName(executor)).toBe('replica-0')
+    expect(await readName(executor)).toBe('replica-1')
+    expect(await readName(executor)).toBe('replica-0')
+  })
+
+  it('should run writes on the primary', async () => {
+    const executor = await createReplicaExecutor(primary, replicas)
+
+    await executor.insertInto('users').values({ id: 10, name: 'written', deleted_at: null }).execute()
+
+    expect(await primary.selectFrom('users').where('id', '=', 10).select('name').executeTakeFirst()).toEqual({
+      name: 'written'
+    })
+    for (const replica of replicas) {
+      expect(await replica.selectFrom('users').where('id', '=', 10).selectAll().execute()).toEqual([])
+    }
+  })
+
+  it('should keep transactions on the primary', async () => {
+    const executor = await createReplicaExecutor(primary, replicas)
+
+    const names = await executor.transaction().execute(async trx => [await readName(trx), await readName(trx)])
+
+    expect(names).toEqual(['primary', 'primary'])
+    expect(getRawDb<TestDatabase>(executor)).toBe(primary)
+  })
+
+  it('should apply the same plugin chain on every connection', async () => {
+    const executor = await createReplicaExecutor(primary, replicas, [softDelete])
+
+    const fromReplica = await executor.selectFrom('users').select('name').execute()
+    const fromPrimary = await executor.withMetadata({ usePrimary: true }).selectFrom('users').select('name').execute()
+
+    expect(fromReplica).toEqual([{ name: 'replica-0' }])
+    expect(fromPrimary).toEqual([{ name: 'primary' }])
+    expect(contexts.map(c => c.rawDb)).toEqual([replicas[0], primary])
+  })
+
+  it('should force the primary through the metadata flag and expose it to plugins', async () => {
+    const executor = await createReplicaExecutor(primary, replicas, [softDelete])
+    const onPrimary = executor.withMetadata({ [USE_PRIMARY_METADATA_KEY]: true })
+
+    expect(await readName(onPrimary)).toBe('primary')
+    expect(await readName(onPrimary)).toBe('primary')
+    expect(contexts[0]?.metadata).toEqual({ usePrimary: true })
+    // Metadata is copied per query
+    expect(contexts[0]?.metadata).not.toBe(contexts[1]?.metadata)
+  })
+
+  it('should keep routing after withSchema', async () => {
+    const executor = await createReplicaExecutor(primary, replicas, [softDelete])
+
+    expect(await readName(executor.withSchema('main'))).toBe('replica-0')
+    expect(contexts[0]).toMatchObject({ schema: 'main', rawDb: expect.anything() })
+    expect(contexts[0]?.rawDb).not.toBe(primary)
+  })
+
+  it('should skip unhealthy replicas and fall back to the primary', async () => {
+    const executor = await createReplicaExecutor(primary, replicas)
+
+    executor.reportReplicaHealth(0, { status: 'unhealthy' })
+    expect(await readName(executor)).toBe('replica-1')
+    expect(await readName(executor)).toBe('replica-1')
+
+    executor.reportReplicaHealth(1, { status: 'unhealthy' })
+    expect(await readName(executor)).toBe('primary')
+
+    executor.reportReplicaHealth(0, { status: 'degraded' })
+    expect(await readName(executor)).toBe('replica-0')
+  })
+
+  it('should pick the replica with the lowest latency', async () => {
+    const executor = await createReplicaExecutor(primary, replicas, [], { strategy: 'least-latency' })
+
+    executor.reportReplicaHealth(0, { status: 'degraded', metrics: { checkLatency: 250 } })
+    executor.reportReplicaHealth(1, { status: 'healthy', metrics: { checkLatency: 20 } })
+    expect(await readName(executor)).toBe('replica-1')
+    expect(await readName(executor)).toBe('replica-1')
+
+    executor.reportReplicaHealth(1, { status: 'unhealthy' })
+    expect(await readName(executor)).toBe('replica-0')
+  })
+
+  it('should reject health reports for unknown replicas', async () => {
+    const executor = await createReplicaExecutor(primary, replicas)
+
+    expect(() => executor.reportReplicaHealth(2, { status: 'healthy' })).toThrow('out of range')
+  })
+
+  it('should read from the primary without replicas', async () => {
+    const executor = await createReplicaExecutor(primary, [], [softDelete])
+
+    expect(await executor.selectFrom('users').select('name').execute()).toEqual([{ name: 'primary' }])
+  })
+
+  it('should expose the plugins for destroyExecutor', async () => {
+    let destroyed = false
+    const plugin: Plugin = {
+      ...softDelete,
+      onDestroy() {
+        destroyed = true
+      }
+    }
+    const executor = await createReplicaExecutor(primary, replicas, [plugin])
+
+    await destroyExecutor<TestDatabase>(executor)
+
+    expect(destroyed).toBe(true)
+  })
+})
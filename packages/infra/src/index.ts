@@ -1,8 +1,8 @@
 /**
  * @kysera/infra - Infrastructure utilities for Kysera
  *
- * Provides health checks, resilience patterns, and graceful shutdown
- * for production database applications.
+ * Provides health checks, resilience patterns, Prometheus metrics, and graceful
+ * shutdown for production database applications.
  *
  * @module @kysera/infra
  *
@@ -81,6 +81,26 @@ export {
   isMetricsPool
 } from './pool/index.js'
 
+// Metrics module
+export {
+  type MetricLabels,
+  type MetricType,
+  type Counter,
+  type Gauge,
+  type Histogram,
+  type MetricsRegistryOptions,
+  MetricsRegistry,
+  type QueryDescription,
+  QueryMetricsPlugin,
+  describeQuery,
+  describeSql,
+  type MetricsRequest,
+  type MetricsResponse,
+  type MetricsHandler,
+  PROMETHEUS_CONTENT_TYPE,
+  createMetricsHandler
+} from './metrics/index.js'
+
 // Shutdown module
 export {
   type ShutdownOptions,
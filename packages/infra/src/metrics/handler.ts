@@ -0,0 +1,85 @@
+/**
+ * HTTP handler serving a MetricsRegistry to Prometheus.
+ *
+ * @module @kysera/infra/metrics
+ */
+
+import type { MetricsRegistry } from './registry.js'
+
+/**
+ * Content type of the Prometheus text exposition format.
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * The part of an HTTP request the handler reads (Node.js `IncomingMessage`).
+ */
+export interface MetricsRequest {
+  method?: string | undefined
+}
+
+/**
+ * The part of an HTTP response the handler writes (Node.js `ServerResponse`).
+ */
+export interface MetricsResponse {
+  statusCode: number
+  setHeader(name: string, value: string): unknown
+  end(body?: string): unknown
+}
+
+/**
+ * Request handler with the `(req, res)` signature of Node.js HTTP servers.
+ */
+export type MetricsHandler = (req: MetricsRequest, res: MetricsResponse) => void
+
+/**
+ * Create a request handler that responds with the rendered metrics.
+ *
+ * The handler answers `GET` and `HEAD` requests and responds with 405 to
+ * other methods. It can be passed to `http.createServer()` or mounted as a
+ * route in Express, Connect and other servers with Node.js request and
+ * response objects. Servers built on the Fetch API can return
+ * `new Response(registry.render(), { headers: { 'Content-Type': PROMETHEUS_CONTENT_TYPE } })`.
+ *
+ * @param registry - Registry to render
+ * @returns Request handler
+ *
+ * @example
+ * ```typescript
+ * import http from 'node:http';
+ * import { MetricsRegistry, createMetricsHandler } from '@kysera/infra/metrics';
+ *
+ * const registry = new MetricsRegistry();
+ * http.createServer(createMetricsHandler(registry)).listen(9464);
+ *
+ * // Express
+ * app.get('/metrics', createMetricsHandler(registry));
+ * ```
+ */
+export function createMetricsHandler(registry: MetricsRegistry): MetricsHandler {
+  return (req, res) => {
+    const method = req.method ?? 'GET'
+    if (method !== 'GET' && method !== 'HEAD') {
+      res.statusCode = 405
+      res.setHeader('Allow', 'GET, HEAD')
+      res.end()
+      return
+    }
+
+    let body: string
+    try {
+      body = registry.render()
+    } catch (error) {
+      res.statusCode = 500
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+      res.end(
+        `Failed to collect metrics: ${error instanceof Error ? error.message : String(error)}`
+      )
+      return
+    }
+
+    res.statusCode = 200
+    res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE)
+    res.end(method === 'HEAD' ? undefined : body)
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Metrics registry and Prometheus exposition.
+ *
+ * @module @kysera/infra/metrics
+ */
+
+// Registry
+export {
+  type MetricLabels,
+  type MetricType,
+  type Counter,
+  type Gauge,
+  type Histogram,
+  type MetricsRegistryOptions,
+  MetricsRegistry
+} from './registry.js'
+
+// Query plugin
+export {
+  type QueryDescription,
+  QueryMetricsPlugin,
+  describeQuery,
+  describeSql
+} from './query-plugin.js'
+
+// HTTP handler
+export {
+  type MetricsRequest,
+  type MetricsResponse,
+  type MetricsHandler,
+  PROMETHEUS_CONTENT_TYPE,
+  createMetricsHandler
+} from './handler.js'
@@ -0,0 +1,131 @@
+/**
+ * Kysely plugin recording per-table query counts and durations.
+ *
+ * @module @kysera/infra/metrics
+ */
+
+import {
+  AliasNode,
+  TableNode,
+  type KyselyPlugin,
+  type OperationNode,
+  type PluginTransformQueryArgs,
+  type PluginTransformResultArgs,
+  type QueryId,
+  type QueryResult,
+  type RootOperationNode,
+  type UnknownRow
+} from 'kysely'
+import { resolveTableName } from '@kysera/core'
+import type { MetricsRegistry } from './registry.js'
+
+/**
+ * Table and operation of a query, as reported in metric labels.
+ */
+export interface QueryDescription {
+  /** Table the query reads from or writes to, `unknown` when there is none */
+  table: string
+  /** `select`, `insert`, `update`, `delete`, `merge`, `raw` or `other` */
+  operation: string
+}
+
+/**
+ * Query that has been compiled and not returned yet.
+ */
+interface PendingQuery extends QueryDescription {
+  startTime: number
+}
+
+const UNKNOWN_TABLE = 'unknown'
+
+const OPERATIONS: Readonly<Record<string, string>> = {
+  SelectQueryNode: 'select',
+  InsertQueryNode: 'insert',
+  UpdateQueryNode: 'update',
+  DeleteQueryNode: 'delete',
+  MergeQueryNode: 'merge',
+  RawNode: 'raw'
+}
+
+/**
+ * Name of the table in a table or aliased table node.
+ */
+function tableName(node: OperationNode | undefined): string | undefined {
+  if (!node) return undefined
+  if (AliasNode.is(node)) return tableName(node.node)
+  if (TableNode.is(node)) return node.table.identifier.name
+  return undefined
+}
+
+/**
+ * Describe a query from its operation node.
+ */
+export function describeQuery(node: RootOperationNode): QueryDescription {
+  const operation = OPERATIONS[node.kind] ?? 'other'
+  let table: string | undefined
+
+  switch (node.kind) {
+    case 'SelectQueryNode':
+      table = tableName(node.from?.froms[0])
+      break
+    case 'InsertQueryNode':
+      table = tableName(node.into)
+      break
+    case 'UpdateQueryNode':
+      table = tableName(node.table)
+      break
+    case 'DeleteQueryNode':
+      table = tableName(node.from.froms[0])
+      break
+    case 'MergeQueryNode':
+      table = tableName(node.into)
+      break
+  }
+
+  return { table: table ?? UNKNOWN_TABLE, operation }
+}
+
+/**
+ * Describe a query from its SQL, for queries recorded without their operation node.
+ */
+export function describeSql(sql: string): QueryDescription {
+  const keyword = /^\s*(\w+)/.exec(sql)?.[1]?.toLowerCase()
+  const operation =
+    keyword && ['select', 'insert', 'update', 'delete', 'merge'].includes(keyword)
+      ? keyword
+      : 'other'
+
+  const identifier = /\b(?:from|into|update)\s+((?:[`"[]?[\w$]+[`"\]]?\.)?[`"[]?[\w$]+[`"\]]?)/i
+  const reference = identifier.exec(sql)?.[1]
+  const table = reference ? resolveTableName(reference.replace(/[`"[\]]/g, '')) : UNKNOWN_TABLE
+
+  return { table, operation }
+}
+
+/**
+ * Kysely plugin reporting executed queries to a MetricsRegistry.
+ *
+ * Created with `registry.queryPlugin()`. `transformQuery` runs right before a query
+ * is executed and `transformResult` right after, so the time between them is the
+ * execution time. Kysely plugins don't see driver errors, so failed queries are
+ * not recorded.
+ */
+export class QueryMetricsPlugin implements KyselyPlugin {
+  private readonly pending = new WeakMap<QueryId, PendingQuery>()
+
+  constructor(private readonly registry: MetricsRegistry) {}
+
+  transformQuery(args: PluginTransformQueryArgs): RootOperationNode {
+    this.pending.set(args.queryId, { ...describeQuery(args.node), startTime: performance.now() })
+    return args.node
+  }
+
+  transformResult(args: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    const query = this.pending.get(args.queryId)
+    if (query) {
+      this.pending.delete(args.queryId)
+      this.registry.recordQuery(query.table, query.operation, performance.now() - query.startTime)
+    }
+    return Promise.resolve(args.result)
+  }
+}
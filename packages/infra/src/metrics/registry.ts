@@ -0,0 +1,514 @@
+/**
+ * Metrics registry with Prometheus text exposition.
+ *
+ * @module @kysera/infra/metrics
+ */
+
+import type { QueryMetrics } from '@kysera/core'
+import type { HealthCheckResult, HealthStatus } from '../health/types.js'
+import type { MetricsPool } from '../pool/metrics.js'
+import type { CircuitState } from '../resilience/circuit-breaker.js'
+import { describeSql, QueryMetricsPlugin } from './query-plugin.js'
+
+/**
+ * Label names and values of a time series.
+ */
+export type MetricLabels = Readonly<Record<string, string>>
+
+/**
+ * Prometheus metric type.
+ */
+export type MetricType = 'counter' | 'gauge' | 'histogram'
+
+/**
+ * Monotonically increasing value.
+ */
+export interface Counter {
+  /** Increase the series with the given labels (by 1 unless `value` is set) */
+  inc(labels?: MetricLabels, value?: number): void
+}
+
+/**
+ * Value that can go up and down.
+ */
+export interface Gauge {
+  /** Set the series with the given labels */
+  set(labels: MetricLabels, value: number): void
+  /** Remove the series with the given labels from the output */
+  remove(labels: MetricLabels): void
+}
+
+/**
+ * Distribution of observed values over cumulative buckets.
+ */
+export interface Histogram {
+  /** Add an observation to the series with the given labels */
+  observe(labels: MetricLabels, value: number): void
+}
+
+/**
+ * Options for MetricsRegistry.
+ */
+export interface MetricsRegistryOptions {
+  /**
+   * Upper bounds (in seconds) of the query duration histogram buckets.
+   * @default [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+   */
+  queryDurationBuckets?: readonly number[]
+}
+
+/**
+ * Time series of a metric family.
+ * @internal
+ */
+interface Series {
+  labels: MetricLabels
+  value: number
+  /** Histograms: observations per bucket (cumulative), sum of observations */
+  bucketCounts?: number[]
+  sum?: number
+}
+
+/**
+ * Metric family: name, help text, type and its time series.
+ * @internal
+ */
+interface MetricFamily {
+  name: string
+  help: string
+  type: MetricType
+  buckets?: readonly number[]
+  series: Map<string, Series>
+}
+
+const DEFAULT_DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/
+
+const CIRCUIT_STATES: readonly CircuitState[] = ['closed', 'open', 'half-open']
+
+const HEALTH_STATUSES: readonly HealthStatus[] = ['healthy', 'degraded', 'unhealthy']
+
+/**
+ * Key identifying a series within its family.
+ */
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels))
+}
+
+/**
+ * Format a sample value (`+Inf`, `-Inf` and `NaN` as Prometheus spells them).
+ */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN'
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+}
+
+/**
+ * Render one sample line: `name{label="value",...} value`.
+ */
+function formatSample(name: string, labels: MetricLabels, value: number): string {
+  const entries = Object.entries(labels)
+  const labelSet =
+    entries.length === 0
+      ? ''
+      : `{${entries.map(([key, val]) => `${key}="${escapeLabelValue(val)}"`).join(',')}}`
+  return `${name}${labelSet} ${formatValue(value)}`
+}
+
+/**
+ * Metrics registry.
+ *
+ * Collects pool, circuit breaker, retry, health check and query metrics of a
+ * Kysera application, and renders them in the Prometheus text exposition format
+ * (version 0.0.4) for scraping. Serve `render()` with {@link createMetricsHandler}
+ * or from any route that returns text.
+ *
+ * | Metric                                     | Type      | Labels                  |
+ * | ------------------------------------------ | --------- | ----------------------- |
+ * | `kysera_pool_active_connections`           | gauge     | `pool`                  |
+ * | `kysera_pool_idle_connections`             | gauge     | `pool`                  |
+ * | `kysera_pool_waiting_requests`             | gauge     | `pool`                  |
+ * | `kysera_circuit_breaker_state`             | gauge     | `breaker`, `state`      |
+ * | `kysera_circuit_breaker_transitions_total` | counter   | `breaker`, `from`, `to` |
+ * | `kysera_retry_attempts_total`              | counter   | `operation`             |
+ * | `kysera_health_check_latency_seconds`      | gauge     |                         |
+ * | `kysera_health_status`                     | gauge     | `status`                |
+ * | `kysera_health_checks_total`               | counter   | `status`                |
+ * | `kysera_queries_total`                     | counter   | `table`, `operation`    |
+ * | `kysera_query_duration_seconds`            | histogram | `table`, `operation`    |
+ *
+ * Metrics without samples are left out of the output.
+ *
+ * @example
+ * ```typescript
+ * import { MetricsRegistry, createMetricsHandler } from '@kysera/infra/metrics';
+ *
+ * const registry = new MetricsRegistry();
+ * const db = baseDb.withPlugin(registry.queryPlugin());
+ *
+ * registry.registerPool(createMetricsPool(pgPool));
+ * const breaker = new CircuitBreaker({ onStateChange: registry.circuitBreakerListener('primary') });
+ * new HealthMonitor(db).start(result => registry.recordHealthCheck(result));
+ *
+ * http.createServer(createMetricsHandler(registry)).listen(9464);
+ * ```
+ */
+export class MetricsRegistry {
+  private readonly families = new Map<string, MetricFamily>()
+  private readonly collectors = new Set<() => void>()
+
+  private readonly poolActive: Gauge
+  private readonly poolIdle: Gauge
+  private readonly poolWaiting: Gauge
+  private readonly circuitState: Gauge
+  private readonly circuitTransitions: Counter
+  private readonly retryAttempts: Counter
+  private readonly healthLatency: Gauge
+  private readonly healthStatus: Gauge
+  private readonly healthChecks: Counter
+  private readonly queries: Counter
+  private readonly queryDuration: Histogram
+
+  constructor(options: MetricsRegistryOptions = {}) {
+    this.poolActive = this.gauge(
+      'kysera_pool_active_connections',
+      'Connections in use by the connection pool'
+    )
+    this.poolIdle = this.gauge(
+      'kysera_pool_idle_connections',
+      'Idle connections in the connection pool'
+    )
+    this.poolWaiting = this.gauge(
+      'kysera_pool_waiting_requests',
+      'Requests waiting for a connection from the pool'
+    )
+    this.circuitState = this.gauge(
+      'kysera_circuit_breaker_state',
+      'Circuit breaker state (1 for the current state)'
+    )
+    this.circuitTransitions = this.counter(
+      'kysera_circuit_breaker_transitions_total',
+      'Circuit breaker state changes'
+    )
+    this.retryAttempts = this.counter('kysera_retry_attempts_total', 'Retries of failed operations')
+    this.healthLatency = this.gauge(
+      'kysera_health_check_latency_seconds',
+      'Latency of the last database health check'
+    )
+    this.healthStatus = this.gauge(
+      'kysera_health_status',
+      'Status of the last database health check (1 for the current status)'
+    )
+    this.healthChecks = this.counter('kysera_health_checks_total', 'Database health checks')
+    this.queries = this.counter('kysera_queries_total', 'Queries executed')
+    this.queryDuration = this.histogram(
+      'kysera_query_duration_seconds',
+      'Query execution duration',
+      options.queryDurationBuckets ?? DEFAULT_DURATION_BUCKETS
+    )
+  }
+
+  /**
+   * Get or create a counter.
+   *
+   * @throws Error if the name is invalid or already used by another metric type
+   */
+  counter(name: string, help: string): Counter {
+    const family = this.family(name, help, 'counter')
+    return {
+      inc: (labels = {}, value = 1) => {
+        if (value < 0) {
+          throw new Error(`Counter ${name} cannot be decreased, got ${String(value)}`)
+        }
+        this.series(family, labels).value += value
+      }
+    }
+  }
+
+  /**
+   * Get or create a gauge.
+   *
+   * @throws Error if the name is invalid or already used by another metric type
+   */
+  gauge(name: string, help: string): Gauge {
+    const family = this.family(name, help, 'gauge')
+    return {
+      set: (labels, value) => {
+        this.series(family, labels).value = value
+      },
+      remove: labels => {
+        family.series.delete(seriesKey(labels))
+      }
+    }
+  }
+
+  /**
+   * Get or create a histogram.
+   *
+   * @param buckets - Upper bounds of the buckets, ascending (`+Inf` is added)
+   * @throws Error if the name is invalid or already used by another metric type
+   */
+  histogram(
+    name: string,
+    help: string,
+    buckets: readonly number[] = DEFAULT_DURATION_BUCKETS
+  ): Histogram {
+    const family = this.family(
+      name,
+      help,
+      'histogram',
+      [...buckets].sort((a, b) => a - b)
+    )
+    const bounds = family.buckets ?? []
+    return {
+      observe: (labels, value) => {
+        const series = this.series(family, labels)
+        const counts = (series.bucketCounts ??= bounds.map(() => 0))
+        bounds.forEach((bound, index) => {
+          if (value <= bound) counts[index] = (counts[index] ?? 0) + 1
+        })
+        series.sum = (series.sum ?? 0) + value
+        series.value += 1
+      }
+    }
+  }
+
+  /**
+   * Register a function that updates metrics right before they are rendered,
+   * for values that are read rather than recorded.
+   *
+   * @returns Function that unregisters the collector
+   */
+  addCollector(collect: () => void): () => void {
+    this.collectors.add(collect)
+    return () => {
+      this.collectors.delete(collect)
+    }
+  }
+
+  /**
+   * Report active, idle and waiting counts of a pool, read from
+   * `pool.getMetrics()` on every render.
+   *
+   * @param pool - Pool created with `createMetricsPool()`
+   * @param name - `pool` label value
+   * @returns Function that stops reporting the pool and removes its series
+   */
+  registerPool(pool: MetricsPool, name = 'default'): () => void {
+    const labels = { pool: name }
+    const unregister = this.addCollector(() => {
+      const metrics = pool.getMetrics()
+      this.poolActive.set(labels, metrics.active)
+      this.poolIdle.set(labels, metrics.idle)
+      this.poolWaiting.set(labels, metrics.waiting)
+    })
+    return () => {
+      unregister()
+      this.poolActive.remove(labels)
+      this.poolIdle.remove(labels)
+      this.poolWaiting.remove(labels)
+    }
+  }
+
+  /**
+   * Create an `onStateChange` callback for a `CircuitBreaker` that tracks its
+   * state and counts its transitions. The breaker is reported as closed until
+   * its first state change.
+   *
+   * @param name - `breaker` label value
+   *
+   * @example
+   * ```typescript
+   * const breaker = new CircuitBreaker({
+   *   threshold: 5,
+   *   onStateChange: registry.circuitBreakerListener('primary')
+   * });
+   * ```
+   */
+  circuitBreakerListener(
+    name = 'default'
+  ): (newState: CircuitState, previousState: CircuitState) => void {
+    this.setCircuitState(name, 'closed')
+    return (newState, previousState) => {
+      this.setCircuitState(name, newState)
+      this.circuitTransitions.inc({ breaker: name, from: previousState, to: newState })
+    }
+  }
+
+  /**
+   * Create an `onRetry` callback for `withRetry()` that counts retry attempts.
+   *
+   * @param operation - `operation` label value
+   *
+   * @example
+   * ```typescript
+   * await withRetry(() => loadUsers(db), { onRetry: registry.retryListener('load-users') });
+   * ```
+   */
+  retryListener(operation = 'default'): (attempt: number, error: unknown) => void {
+    return () => {
+      this.retryAttempts.inc({ operation })
+    }
+  }
+
+  /**
+   * Record the latency and status of a health check.
+   *
+   * @example
+   * ```typescript
+   * monitor.start(result => registry.recordHealthCheck(result));
+   * ```
+   */
+  recordHealthCheck(result: HealthCheckResult): void {
+    const latency = result.metrics?.checkLatency
+    if (latency !== undefined) {
+      this.healthLatency.set({}, latency / 1000)
+    }
+    for (const status of HEALTH_STATUSES) {
+      this.healthStatus.set({ status }, status === result.status ? 1 : 0)
+    }
+    this.healthChecks.inc({ status: result.status })
+  }
+
+  /**
+   * Record an executed query.
+   *
+   * @param durationMs - Execution duration in milliseconds
+   */
+  recordQuery(table: string, operation: string, durationMs: number): void {
+    const labels = { table, operation }
+    this.queries.inc(labels)
+    this.queryDuration.observe(labels, durationMs / 1000)
+  }
+
+  /**
+   * Record queries collected elsewhere, such as `db.getMetrics()` of a database
+   * wrapped with `withDebug()`. Table and operation are read from the SQL.
+   * Each query is counted again on every call, so pass every query once.
+   */
+  recordQueryMetrics(queries: readonly QueryMetrics[]): void {
+    for (const query of queries) {
+      const { table, operation } = describeSql(query.sql)
+      this.recordQuery(table, operation, query.duration)
+    }
+  }
+
+  /**
+   * Create a Kysely plugin that records the table, operation and duration of
+   * every query executed through the instance it is added to. Failed queries
+   * are not recorded.
+   *
+   * @example
+   * ```typescript
+   * const db = new Kysely<Database>({ dialect }).withPlugin(registry.queryPlugin());
+   * ```
+   */
+  queryPlugin(): QueryMetricsPlugin {
+    return new QueryMetricsPlugin(this)
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format (version 0.0.4).
+   */
+  render(): string {
+    for (const collect of this.collectors) {
+      collect()
+    }
+
+    const lines: string[] = []
+    for (const family of this.families.values()) {
+      if (family.series.size === 0) continue
+
+      lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`)
+      lines.push(`# TYPE ${family.name} ${family.type}`)
+
+      for (const series of family.series.values()) {
+        if (family.type !== 'histogram') {
+          lines.push(formatSample(family.name, series.labels, series.value))
+          continue
+        }
+        ;(family.buckets ?? []).forEach((bound, index) => {
+          lines.push(
+            formatSample(
+              `${family.name}_bucket`,
+              { ...series.labels, le: formatValue(bound) },
+              series.bucketCounts?.[index] ?? 0
+            )
+          )
+        })
+        lines.push(
+          formatSample(`${family.name}_bucket`, { ...series.labels, le: '+Inf' }, series.value)
+        )
+        lines.push(formatSample(`${family.name}_sum`, series.labels, series.sum ?? 0))
+        lines.push(formatSample(`${family.name}_count`, series.labels, series.value))
+      }
+    }
+
+    return lines.length === 0 ? '' : `${lines.join('\n')}\n`
+  }
+
+  /**
+   * Remove all recorded series. Metrics and collectors stay registered.
+   */
+  reset(): void {
+    for (const family of this.families.values()) {
+      family.series.clear()
+    }
+  }
+
+  private setCircuitState(breaker: string, current: CircuitState): void {
+    for (const state of CIRCUIT_STATES) {
+      this.circuitState.set({ breaker, state }, state === current ? 1 : 0)
+    }
+  }
+
+  private family(
+    name: string,
+    help: string,
+    type: MetricType,
+    buckets?: readonly number[]
+  ): MetricFamily {
+    if (!METRIC_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`)
+    }
+
+    const existing = this.families.get(name)
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`)
+      }
+      return existing
+    }
+
+    const family: MetricFamily = {
+      name,
+      help,
+      type,
+      series: new Map(),
+      ...(buckets && { buckets })
+    }
+    this.families.set(name, family)
+    return family
+  }
+
+  private series(family: MetricFamily, labels: MetricLabels): Series {
+    const key = seriesKey(labels)
+    let series = family.series.get(key)
+    if (!series) {
+      series = { labels: { ...labels }, value: 0 }
+      family.series.set(key, series)
+    }
+    return series
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * Tests for the metrics registry and Prometheus exposition.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { Kysely, SqliteDialect, sql } from 'kysely'
+import Database from 'better-sqlite3'
+import {
+  MetricsRegistry,
+  PROMETHEUS_CONTENT_TYPE,
+  createMetricsHandler,
+  describeSql
+} from '../src/metrics/index.js'
+import { CircuitBreaker, withRetry } from '../src/resilience/index.js'
+import { checkDatabaseHealth } from '../src/health/index.js'
+import type { MetricsPool } from '../src/pool/index.js'
+
+interface TestDatabase {
+  users: {
+    id?: number
+    email: string
+  }
+}
+
+/**
+ * Sample lines of a metric (without HELP/TYPE comments)
+ */
+function samples(output: string, name: string): string[] {
+  return output
+    .split('\n')
+    .filter(line => line.startsWith(`${name}{`) || line.startsWith(`${name} `))
+}
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry
+
+  beforeEach(() => {
+    registry = new MetricsRegistry()
+  })
+
+  describe('render', () => {
+    it('should render nothing without samples', () => {
+      expect(registry.render()).toBe('')
+    })
+
+    it('should render counters and gauges in text format', () => {
+      registry.counter('app_jobs_total', 'Jobs processed').inc({ queue: 'mail' }, 2)
+      registry.gauge('app_temperature', 'Temperature\nin "C"').set({}, -1.5)
+
+      expect(registry.render()).toBe(
+        [
+          '# HELP app_jobs_total Jobs processed',
+          '# TYPE app_jobs_total counter',
+          'app_jobs_total{queue="mail"} 2',
+          '# HELP app_temperature Temperature\\nin "C"',
+          '# TYPE app_temperature gauge',
+          'app_temperature -1.5',
+          ''
+        ].join('\n')
+      )
+    })
+
+    it('should escape label values', () => {
+      registry.gauge('app_info', 'Info').set({ path: 'C:\\data\n"x"' }, 1)
+
+      expect(samples(registry.render(), 'app_info')).toEqual([
+        'app_info{path="C:\\\\data\\n\\"x\\""} 1'
+      ])
+    })
+
+    it('should render cumulative histogram buckets', () => {
+      const histogram = registry.histogram('app_latency_seconds', 'Latency', [0.5, 0.1])
+      histogram.observe({ route: '/' }, 0.05)
+      histogram.observe({ route: '/' }, 0.3)
+      histogram.observe({ route: '/' }, 2)
+
+      expect(registry.render().split('\n').slice(2, 8)).toEqual([
+        'app_latency_seconds_bucket{route="/",le="0.1"} 1',
+        'app_latency_seconds_bucket{route="/",le="0.5"} 2',
+        'app_latency_seconds_bucket{route="/",le="+Inf"} 3',
+        'app_latency_seconds_sum{route="/"} 2.35',
+        'app_latency_seconds_count{route="/"} 3',
+        ''
+      ])
+    })
+
+    it('should reject invalid names, type conflicts and counter decrements', () => {
+      expect(() => registry.counter('app-jobs', 'Jobs')).toThrow('Invalid metric name: app-jobs')
+      expect(() => registry.gauge('kysera_queries_total', 'Queries')).toThrow(
+        'Metric kysera_queries_total is already registered as a counter'
+      )
+      expect(() => registry.counter('app_jobs_total', 'Jobs').inc({}, -1)).toThrow(
+        'Counter app_jobs_total cannot be decreased, got -1'
+      )
+    })
+
+    it('should forget samples on reset', () => {
+      registry.counter('app_jobs_total', 'Jobs').inc()
+      registry.reset()
+
+      expect(registry.render()).toBe('')
+    })
+  })
+
+  describe('pools', () => {
+    it('should read pool metrics on every render until unregistered', () => {
+      let waiting = 0
+      const pool: MetricsPool = {
+        end: () => undefined,
+        getMetrics: () => ({ total: 10, idle: 7, active: 3, waiting })
+      }
+      const unregister = registry.registerPool(pool, 'primary')
+
+      expect(samples(registry.render(), 'kysera_pool_waiting_requests')).toEqual([
+        'kysera_pool_waiting_requests{pool="primary"} 0'
+      ])
+
+      waiting = 4
+      const output = registry.render()
+      expect(samples(output, 'kysera_pool_active_connections')).toEqual([
+        'kysera_pool_active_connections{pool="primary"} 3'
+      ])
+      expect(samples(output, 'kysera_pool_idle_connections')).toEqual([
+        'kysera_pool_idle_connections{pool="primary"} 7'
+      ])
+      expect(samples(output, 'kysera_pool_waiting_requests')).toEqual([
+        'kysera_pool_waiting_requests{pool="primary"} 4'
+      ])
+
+      unregister()
+      expect(registry.render()).toBe('')
+    })
+  })
+
+  describe('resilience', () => {
+    it('should track circuit breaker state changes', async () => {
+      const breaker = new CircuitBreaker({
+        threshold: 1,
+        resetTimeMs: 60000,
+        onStateChange: registry.circuitBreakerListener('primary')
+      })
+
+      expect(samples(registry.render(), 'kysera_circuit_breaker_state')).toEqual([
+        'kysera_circuit_breaker_state{breaker="primary",state="closed"} 1',
+        'kysera_circuit_breaker_state{breaker="primary",state="open"} 0',
+        'kysera_circuit_breaker_state{breaker="primary",state="half-open"} 0'
+      ])
+
+      await expect(breaker.execute(() => Promise.reject(new Error('down')))).rejects.toThrow('down')
+
+      const output = registry.render()
+      expect(samples(output, 'kysera_circuit_breaker_state')).toContain(
+        'kysera_circuit_breaker_state{breaker="primary",state="open"} 1'
+      )
+      expect(samples(output, 'kysera_circuit_breaker_transitions_total')).toEqual([
+        'kysera_circuit_breaker_transitions_total{breaker="primary",from="closed",to="open"} 1'
+      ])
+    })
+
+    it('should count retry attempts', async () => {
+      let calls = 0
+      const result = await withRetry(
+        () => {
+          calls++
+          if (calls < 3) {
+            return Promise.reject(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))
+          }
+          return Promise.resolve('ok')
+        },
+        { maxAttempts: 3, delayMs: 1, onRetry: registry.retryListener('load-users') }
+      )
+
+      expect(result).toBe('ok')
+      expect(samples(registry.render(), 'kysera_retry_attempts_total')).toEqual([
+        'kysera_retry_attempts_total{operation="load-users"} 2'
+      ])
+    })
+  })
+
+  describe('health checks', () => {
+    it('should record latency and status', () => {
+      registry.recordHealthCheck({
+        status: 'degraded',
+        checks: [],
+        metrics: { checkLatency: 250 },
+        timestamp: new Date()
+      })
+
+      const output = registry.render()
+      expect(samples(output, 'kysera_health_check_latency_seconds')).toEqual([
+        'kysera_health_check_latency_seconds 0.25'
+      ])
+      expect(samples(output, 'kysera_health_status')).toEqual([
+        'kysera_health_status{status="healthy"} 0',
+        'kysera_health_status{status="degraded"} 1',
+        'kysera_health_status{status="unhealthy"} 0'
+      ])
+      expect(samples(output, 'kysera_health_checks_total')).toEqual([
+        'kysera_health_checks_total{status="degraded"} 1'
+      ])
+    })
+  })
+
+  describe('queries', () => {
+    let db: Kysely<TestDatabase>
+
+    beforeEach(async () => {
+      const baseDb = new Kysely<TestDatabase>({
+        dialect: new SqliteDialect({ database: new Database(':memory:') })
+      })
+      await baseDb.schema
+        .createTable('users')
+        .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+        .addColumn('email', 'text', col => col.notNull())
+        .execute()
+      db = baseDb.withPlugin(registry.queryPlugin())
+    })
+
+    afterEach(async () => {
+      await db.destroy()
+    })
+
+    it('should count queries and durations per table and operation', async () => {
+      await db.insertInto('users').values({ email: 'a@example.com' }).execute()
+      await db.selectFrom('users as u').selectAll().execute()
+      await db.selectFrom('users').select('email').execute()
+      await db.updateTable('users').set({ email: 'b@example.com' }).execute()
+      await db.deleteFrom('users').execute()
+      await sql`select 1`.execute(db)
+
+      const output = registry.render()
+      expect(samples(output, 'kysera_queries_total')).toEqual([
+        'kysera_queries_total{table="users",operation="insert"} 1',
+        'kysera_queries_total{table="users",operation="select"} 2',
+        'kysera_queries_total{table="users",operation="update"} 1',
+        'kysera_queries_total{table="users",operation="delete"} 1',
+        'kysera_queries_total{table="unknown",operation="raw"} 1'
+      ])
+      expect(samples(output, 'kysera_query_duration_seconds_count')).toContain(
+        'kysera_query_duration_seconds_count{table="users",operation="select"} 2'
+      )
+      expect(samples(output, 'kysera_query_duration_seconds_bucket')).toContain(
+        'kysera_query_duration_seconds_bucket{table="users",operation="select",le="10"} 2'
+      )
+    })
+
+    it('should record health checks run through the plugin', async () => {
+      registry.recordHealthCheck(await checkDatabaseHealth(db))
+
+      const output = registry.render()
+      expect(samples(output, 'kysera_health_checks_total')).toEqual([
+        'kysera_health_checks_total{status="healthy"} 1'
+      ])
+      expect(samples(output, 'kysera_queries_total')).toEqual([
+        'kysera_queries_total{table="unknown",operation="select"} 1'
+      ])
+    })
+
+    it('should record queries collected by a profiler', () => {
+      registry.recordQueryMetrics([
+        { sql: 'select * from "app"."users" where "id" = $1', duration: 4, timestamp: 0 },
+        { sql: 'insert into `orders` (`total`) values (?)', duration: 12, timestamp: 0 },
+        { sql: 'create table "t" ("id" integer)', duration: 1, timestamp: 0 }
+      ])
+
+      expect(samples(registry.render(), 'kysera_queries_total')).toEqual([
+        'kysera_queries_total{table="users",operation="select"} 1',
+        'kysera_queries_total{table="orders",operation="insert"} 1',
+        'kysera_queries_total{table="unknown",operation="other"} 1'
+      ])
+    })
+  })
+})
+
+describe('describeSql', () => {
+  it('should read table and operation from SQL', () => {
+    expect(describeSql('UPDATE [dbo].[users] SET [name] = @1')).toEqual({
+      table: 'users',
+      operation: 'update'
+    })
+    expect(describeSql('delete from posts')).toEqual({ table: 'posts', operation: 'delete' })
+    expect(describeSql('select 1')).toEqual({ table: 'unknown', operation: 'select' })
+  })
+})
+
+describe('createMetricsHandler', () => {
+  let server: http.Server
+  let url: string
+
+  beforeEach(async () => {
+    const registry = new MetricsRegistry()
+    registry.counter('app_jobs_total', 'Jobs processed').inc()
+    server = http.createServer(createMetricsHandler(registry))
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${String((server.address() as AddressInfo).port)}/metrics`
+  })
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('should serve metrics in Prometheus text format', async () => {
+    const response = await fetch(url)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe(PROMETHEUS_CONTENT_TYPE)
+    expect(await response.text()).toContain('app_jobs_total 1\n')
+  })
+
+  it('should reject other methods', async () => {
+    const response = await fetch(url, { method: 'POST' })
+
+    expect(response.status).toBe(405)
+    expect(response.headers.get('allow')).toBe('GET, HEAD')
+  })
+})
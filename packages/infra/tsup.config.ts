@@ -6,6 +6,7 @@ export default defineConfig({
     'src/health/index.ts',
     'src/resilience/index.ts',
     'src/pool/index.ts',
+    'src/metrics/index.ts',
     'src/shutdown.ts'
   ],
   format: ['esm'],
@@ -0,0 +1,38 @@
+/**
+ * Migration checksums for drift detection.
+ *
+ * Uses the Web Crypto API (available in Node.js 20+, Bun and Deno) so the
+ * package does not depend on `node:crypto`.
+ *
+ * @module @kysera/migrations/checksum
+ */
+
+import type { Migration } from './index.js'
+
+/**
+ * SHA-256 hex digest of a string
+ *
+ * @example
+ * ```typescript
+ * const checksum = await computeChecksum(readFileSync(path, 'utf8'))
+ * ```
+ */
+export async function computeChecksum(content: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Checksum of a migration: its explicit `checksum` when set, otherwise a
+ * digest of the `up`/`down` function source.
+ *
+ * Function source depends on how the code is compiled, so migrations that are
+ * bundled or minified differently between environments should set `checksum`.
+ */
+export async function getMigrationChecksum<DB>(migration: Migration<DB>): Promise<string> {
+  if (migration.checksum !== undefined) {
+    return migration.checksum
+  }
+  const down = migration.down ? migration.down.toString() : ''
+  return await computeChecksum(`${migration.up.toString()}\n${down}`)
+}
@@ -1,7 +1,7 @@
-import type { Kysely } from 'kysely'
+import type { Generated, Kysely } from 'kysely'
 import { sql } from 'kysely'
 import type { KyseraLogger } from '@kysera/core'
-import { DatabaseError, NotFoundError, BadRequestError, ErrorCodes, silentLogger } from '@kysera/core'
+import { DatabaseError, NotFoundError, BadRequestError, ErrorCodes, silentLogger, detectDialect } from '@kysera/core'
 import { VERSION } from './version.js'
 
 // ============================================================================
@@ -37,7 +37,20 @@ export {
   safeParseMigrationDefinition
 } from './schemas.js'
 
+export { computeChecksum, getMigrationChecksum } from './checksum.js'
+
+export {
+  acquireMigrationLock,
+  MigrationLockError,
+  DEFAULT_LOCK_NAME,
+  DEFAULT_LOCK_TIMEOUT,
+  type MigrationLockOptions,
+  type ReleaseMigrationLock
+} from './lock.js'
+
 import { MigrationRunnerOptionsSchema } from './schemas.js'
+import { getMigrationChecksum } from './checksum.js'
+import { acquireMigrationLock } from './lock.js'
 
 // ============================================================================
 // Types and Interfaces
@@ -55,6 +68,13 @@ export interface Migration<DB = unknown> {
   up: (db: Kysely<DB>) => Promise<void>
   /** Optional migration down function - reverts changes */
   down?: (db: Kysely<DB>) => Promise<void>
+  /**
+   * Content checksum stored when the migration is applied.
+   * Defaults to a digest of the `up`/`down` source, which differs between
+   * builds, so a changed source digest is only logged. Set it (e.g. to a hash
+   * of the migration file) to have `up()` refuse to run modified migrations.
+   */
+  checksum?: string
 }
 
 /**
@@ -83,6 +103,22 @@ export interface MigrationStatus {
   pending: string[]
   /** Total migration count */
   total: number
+  /** Executed migrations whose checksum no longer matches the applied one */
+  modified: string[]
+  /** Executed migrations that are no longer in the migration list */
+  missing: string[]
+  /** Pending migrations listed before an already executed migration */
+  outOfOrder: string[]
+}
+
+/**
+ * Migration record stored in the migrations table
+ */
+export interface ExecutedMigration {
+  name: string
+  executedAt: Date | string
+  /** null for migrations applied before checksums were recorded */
+  checksum: string | null
 }
 
 /**
@@ -104,6 +140,36 @@ export interface MigrationRunnerOptions {
   stopOnError?: boolean
   /** Show detailed metadata in logs (default: true) */
   verbose?: boolean
+  /**
+   * Run up() even when applied migrations were modified or removed
+   * (default: false). Drift is still logged as a warning.
+   */
+  allowDrift?: boolean
+  /**
+   * Only warn when the `up`/`down` source of an applied migration without an
+   * explicit `checksum` changed (default: false). Function source depends on
+   * how migrations are compiled, so set this when the same migrations are
+   * bundled or minified differently between environments.
+   */
+  ignoreSourceDrift?: boolean
+  /**
+   * Hold a database lock while up()/down() run so concurrent runners
+   * (e.g. app replicas migrating on boot) wait for each other (default: true).
+   * On PostgreSQL, MySQL and MSSQL the lock holds one pool connection, so the
+   * pool needs at least two; on SQLite it creates a `migrations_lock` table.
+   * Set to false to run without a lock.
+   */
+  useLock?: boolean
+  /**
+   * Time to wait for the migration lock in milliseconds (default: 10000).
+   * 0 tries once and fails immediately if another runner holds the lock.
+   */
+  lockTimeout?: number
+  /**
+   * Name of the migration lock (default: 'migrations_lock').
+   * Runners migrating different schemas in parallel need different lock names.
+   */
+  lockName?: string
 }
 
 /**
@@ -118,6 +184,7 @@ export interface MigrationDefinition<DB = unknown> {
   breaking?: boolean
   estimatedDuration?: number
   tags?: string[]
+  checksum?: string
 }
 
 /**
@@ -152,6 +219,7 @@ export const MigrationErrorCodes = {
   UP_FAILED: ErrorCodes.MIGRATION_UP_FAILED,
   DOWN_FAILED: ErrorCodes.MIGRATION_DOWN_FAILED,
   VALIDATION_FAILED: ErrorCodes.MIGRATION_VALIDATION_FAILED,
+  LOCK_FAILED: ErrorCodes.MIGRATION_LOCK_FAILED,
 } as const
 
 export type MigrationErrorCode = (typeof MigrationErrorCodes)[keyof typeof MigrationErrorCodes]
@@ -190,10 +258,28 @@ export class MigrationError extends DatabaseError {
 // Setup Functions
 // ============================================================================
 
+/**
+ * Schema that unqualified table names resolve to, on dialects with schemas
+ */
+async function currentSchema(db: Kysely<unknown>): Promise<string | undefined> {
+  const dialect = detectDialect(db)
+  if (dialect === 'postgres') {
+    const { rows } = await sql<{ name: string }>`select current_schema() as name`.execute(db)
+    return rows[0]?.name
+  }
+  if (dialect === 'mssql') {
+    const { rows } = await sql<{ name: string }>`select schema_name() as name`.execute(db)
+    return rows[0]?.name
+  }
+  return undefined
+}
+
 /**
  * Setup migrations table in database
  * Idempotent - safe to run multiple times
  * Uses Kysely<unknown> as migrations work with any database schema
+ *
+ * Tables created by earlier versions get the `checksum` column added.
  */
 export async function setupMigrations(db: Kysely<unknown>): Promise<void> {
   await db.schema
@@ -201,8 +287,17 @@ export async function setupMigrations(db: Kysely<unknown>): Promise<void> {
     .ifNotExists()
     .addColumn('name', 'varchar(255)', col => col.primaryKey())
     .addColumn('executed_at', 'timestamp', col => col.notNull().defaultTo(sql`CURRENT_TIMESTAMP`))
+    .addColumn('checksum', 'varchar(64)')
     .execute()
 
+  // Introspection lists tables of every schema on PostgreSQL and MSSQL
+  const schema = await currentSchema(db)
+  const tables = await db.introspection.getTables()
+  const table = tables.find(t => t.name === 'migrations' && (schema === undefined || t.schema === schema))
+  if (table && !table.columns.some(c => c.name === 'checksum')) {
+    await db.schema.alterTable('migrations').addColumn('checksum', 'varchar(64)').execute()
+  }
+
   // Create index on name column for faster lookups
   // Using IF NOT EXISTS equivalent: ignore errors if index already exists
   try {
@@ -235,6 +330,51 @@ function formatError(error: unknown): string {
   return String(error)
 }
 
+/**
+ * Shape of the internal migrations table
+ */
+interface MigrationsTableSchema {
+  migrations: {
+    name: string
+    executed_at: Generated<Date | string>
+    checksum: string | null
+  }
+}
+
+/**
+ * Compare the migration list with the migrations table
+ */
+async function detectDrift<DB>(
+  migrations: Migration<DB>[],
+  executed: ExecutedMigration[]
+): Promise<Pick<MigrationStatus, 'modified' | 'missing' | 'outOfOrder'>> {
+  const byName = new Map(migrations.map((m, index) => [m.name, { migration: m, index }]))
+  const executedNames = new Set(executed.map(r => r.name))
+  const modified: string[] = []
+  const missing: string[] = []
+  let lastExecutedIndex = -1
+
+  for (const record of executed) {
+    const entry = byName.get(record.name)
+    if (!entry) {
+      missing.push(record.name)
+      continue
+    }
+    lastExecutedIndex = Math.max(lastExecutedIndex, entry.index)
+    // Rows recorded before checksums were tracked can't be verified
+    if (record.checksum !== null && record.checksum !== (await getMigrationChecksum(entry.migration))) {
+      modified.push(record.name)
+    }
+  }
+
+  const outOfOrder = migrations
+    .slice(0, lastExecutedIndex + 1)
+    .filter(m => !executedNames.has(m.name))
+    .map(m => m.name)
+
+  return { modified, missing, outOfOrder }
+}
+
 /**
  * Validate migrations for duplicate names
  * @throws {BadRequestError} When duplicate migration names are found
@@ -282,13 +422,25 @@ export class MigrationRunner<DB = unknown> {
       logger: this.logger,
       useTransactions: parsed.data.useTransactions,
       stopOnError: parsed.data.stopOnError,
-      verbose: parsed.data.verbose
+      verbose: parsed.data.verbose,
+      allowDrift: parsed.data.allowDrift,
+      ignoreSourceDrift: parsed.data.ignoreSourceDrift,
+      useLock: parsed.data.useLock,
+      lockTimeout: parsed.data.lockTimeout,
+      lockName: parsed.data.lockName
     }
 
     // Validate migrations on construction
     validateMigrations(migrations)
   }
 
+  /**
+   * The internal migrations table, which is not part of the user's DB schema
+   */
+  private get migrationsTable(): Kysely<MigrationsTableSchema> {
+    return this.db as unknown as Kysely<MigrationsTableSchema>
+  }
+
   /**
    * Ensure migrations table exists (idempotent, cached after first call)
    */
@@ -317,13 +469,120 @@ export class MigrationRunner<DB = unknown> {
     return rows.map(r => r.name)
   }
 
+  /**
+   * Get executed migration records (name, execution time and checksum)
+   * Note: Uses type assertions for migrations table as it's not part of the user schema
+   */
+  async getExecutedMigrationRecords(): Promise<ExecutedMigration[]> {
+    await this.ensureSetup()
+
+    const rows = await this.migrationsTable
+      .selectFrom('migrations')
+      .select(['name', 'executed_at', 'checksum'])
+      .orderBy('executed_at', 'asc')
+      .execute()
+
+    return rows.map(r => ({ name: r.name, executedAt: r.executed_at, checksum: r.checksum }))
+  }
+
   /**
    * Mark a migration as executed
    * Note: Uses type assertions for migrations table as it's not part of the user schema
    */
-  async markAsExecuted(name: string): Promise<void> {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await (this.db as any).insertInto('migrations').values({ name }).execute()
+  async markAsExecuted(name: string, checksum?: string): Promise<void> {
+    await this.migrationsTable
+      .insertInto('migrations')
+      .values({ name, checksum: checksum ?? null })
+      .execute()
+  }
+
+  /**
+   * Record checksums for migrations applied before checksums were tracked,
+   * so later changes to them are detected
+   */
+  protected async backfillChecksums(executed: ExecutedMigration[]): Promise<void> {
+    if (this.runnerOptions.dryRun) return
+    for (const record of executed) {
+      if (record.checksum !== null) continue
+      const migration = this.migrations.find(m => m.name === record.name)
+      if (!migration) continue
+      await this.migrationsTable
+        .updateTable('migrations')
+        .set({ checksum: await getMigrationChecksum(migration) })
+        .where('name', '=', record.name)
+        .execute()
+    }
+  }
+
+  /**
+   * Run fn while holding the migration lock.
+   * Dry runs make no changes and skip the lock.
+   */
+  protected async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (!this.runnerOptions.useLock || this.runnerOptions.dryRun) {
+      return await fn()
+    }
+
+    const release = await acquireMigrationLock(this.db as Kysely<unknown>, {
+      lockName: this.runnerOptions.lockName,
+      timeout: this.runnerOptions.lockTimeout
+    })
+    try {
+      return await fn()
+    } finally {
+      await release()
+    }
+  }
+
+  /**
+   * Check applied migrations against the migration list.
+   * Throws MigrationError when applied migrations were removed or modified,
+   * unless `allowDrift` is set. With `ignoreSourceDrift`, changed `up`/`down`
+   * source of migrations without an explicit `checksum` is only logged.
+   * Out-of-order migrations are only logged.
+   */
+  protected async checkDrift(executed: ExecutedMigration[]): Promise<void> {
+    const drift = await detectDrift(this.migrations, executed)
+    const { missing, outOfOrder } = drift
+
+    if (outOfOrder.length > 0) {
+      this.logger.warn(`Pending migrations before already executed ones: ${outOfOrder.join(', ')}`)
+    }
+
+    let modified = drift.modified
+    if (this.runnerOptions.ignoreSourceDrift) {
+      const explicit = new Set(
+        this.migrations.filter(m => m.checksum !== undefined).map(m => m.name)
+      )
+      const sourceChanged = modified.filter(name => !explicit.has(name))
+      if (sourceChanged.length > 0) {
+        this.logger.warn(
+          `Source of applied migrations changed since they ran: ${sourceChanged.join(', ')} - ` +
+            'continuing because ignoreSourceDrift is set'
+        )
+      }
+      modified = modified.filter(name => explicit.has(name))
+    }
+
+    if (modified.length === 0 && missing.length === 0) return
+
+    const details = [
+      modified.length > 0 ? `modified: ${modified.join(', ')}` : undefined,
+      missing.length > 0 ? `missing: ${missing.join(', ')}` : undefined
+    ]
+      .filter(detail => detail !== undefined)
+      .join('; ')
+
+    if (this.runnerOptions.allowDrift) {
+      this.logger.warn(`Applied migrations have drifted (${details}) - continuing because allowDrift is set`)
+      return
+    }
+
+    throw new MigrationError(
+      `Applied migrations have drifted (${details}). Restore the original migrations or set allowDrift to run anyway`,
+      modified[0] ?? missing[0] ?? '',
+      'up'
+    )
   }
 
   /**
@@ -399,85 +658,91 @@ export class MigrationRunner<DB = unknown> {
       onError?: (migration: Migration<DB>, error: unknown) => Promise<void>
     }
   ): Promise<MigrationResult> {
-    const startTime = Date.now()
-    const result: MigrationResult = {
-      executed: [],
-      skipped: [],
-      failed: [],
-      duration: 0,
-      dryRun: this.runnerOptions.dryRun
-    }
+    return await this.withLock(async () => {
+      const startTime = Date.now()
+      const result: MigrationResult = {
+        executed: [],
+        skipped: [],
+        failed: [],
+        duration: 0,
+        dryRun: this.runnerOptions.dryRun
+      }
 
-    const executedList = await this.getExecutedMigrations()
-    const executedSet = new Set(executedList)
+      const records = await this.getExecutedMigrationRecords()
+      await this.checkDrift(records)
+      await this.backfillChecksums(records)
 
-    const pending = migrationsToConsider.filter(m => !executedSet.has(m.name))
+      const executedList = records.map(r => r.name)
+      const executedSet = new Set(executedList)
 
-    if (pending.length === 0) {
-      this.logger.info('No pending migrations')
-      result.skipped = executedList
-      result.duration = Date.now() - startTime
-      return result
-    }
+      const pending = migrationsToConsider.filter(m => !executedSet.has(m.name))
 
-    if (this.runnerOptions.dryRun) {
-      this.logger.info('DRY RUN - No changes will be made')
-    }
+      if (pending.length === 0) {
+        this.logger.info('No pending migrations')
+        result.skipped = executedList
+        result.duration = Date.now() - startTime
+        return result
+      }
 
-    for (const migration of migrationsToConsider) {
-      if (executedSet.has(migration.name)) {
-        this.logger.info(`${migration.name} (already executed)`)
-        result.skipped.push(migration.name)
-        continue
+      if (this.runnerOptions.dryRun) {
+        this.logger.info('DRY RUN - No changes will be made')
       }
 
-      const migrationStart = Date.now()
+      for (const migration of migrationsToConsider) {
+        if (executedSet.has(migration.name)) {
+          this.logger.info(`${migration.name} (already executed)`)
+          result.skipped.push(migration.name)
+          continue
+        }
+
+        const migrationStart = Date.now()
 
-      try {
-        await hooks?.before?.(migration)
+        try {
+          await hooks?.before?.(migration)
 
-        this.logger.info(`Running ${migration.name}...`)
-        this.logMigrationMeta(migration)
+          this.logger.info(`Running ${migration.name}...`)
+          this.logMigrationMeta(migration)
 
-        if (!this.runnerOptions.dryRun) {
-          await this.executeMigration(migration, 'up')
-          await this.markAsExecuted(migration.name)
-        }
+          if (!this.runnerOptions.dryRun) {
+            await this.executeMigration(migration, 'up')
+            await this.markAsExecuted(migration.name, await getMigrationChecksum(migration))
+          }
 
-        await hooks?.after?.(migration, Date.now() - migrationStart)
+          await hooks?.after?.(migration, Date.now() - migrationStart)
 
-        this.logger.info(`${migration.name} completed`)
-        result.executed.push(migration.name)
-      } catch (error) {
-        await hooks?.onError?.(migration, error)
+          this.logger.info(`${migration.name} completed`)
+          result.executed.push(migration.name)
+        } catch (error) {
+          await hooks?.onError?.(migration, error)
 
-        const errorMsg = formatError(error)
-        this.logger.error(`${migration.name} failed: ${errorMsg}`)
-        result.failed.push(migration.name)
+          const errorMsg = formatError(error)
+          this.logger.error(`${migration.name} failed: ${errorMsg}`)
+          result.failed.push(migration.name)
 
-        if (this.runnerOptions.stopOnError) {
-          throw new MigrationError(
-            `Migration ${migration.name} failed: ${errorMsg}`,
-            migration.name,
-            'up',
-            error instanceof Error ? error : undefined
-          )
+          if (this.runnerOptions.stopOnError) {
+            throw new MigrationError(
+              `Migration ${migration.name} failed: ${errorMsg}`,
+              migration.name,
+              'up',
+              error instanceof Error ? error : undefined
+            )
+          }
         }
       }
-    }
 
-    if (!this.runnerOptions.dryRun) {
-      if (result.failed.length > 0) {
-        this.logger.warn(`Migrations completed with ${String(result.failed.length)} failure(s)`)
+      if (!this.runnerOptions.dryRun) {
+        if (result.failed.length > 0) {
+          this.logger.warn(`Migrations completed with ${String(result.failed.length)} failure(s)`)
+        } else {
+          this.logger.info('All migrations completed successfully')
+        }
       } else {
-        this.logger.info('All migrations completed successfully')
+        this.logger.info('Dry run completed - no changes made')
       }
-    } else {
-      this.logger.info('Dry run completed - no changes made')
-    }
 
-    result.duration = Date.now() - startTime
-    return result
+      result.duration = Date.now() - startTime
+      return result
+    })
   }
 
   /**
@@ -499,91 +764,93 @@ export class MigrationRunner<DB = unknown> {
       onError?: (migration: Migration<DB>, error: unknown) => Promise<void>
     }
   ): Promise<MigrationResult> {
-    const startTime = Date.now()
-    const result: MigrationResult = {
-      executed: [],
-      skipped: [],
-      failed: [],
-      duration: 0,
-      dryRun: this.runnerOptions.dryRun
-    }
+    return await this.withLock(async () => {
+      const startTime = Date.now()
+      const result: MigrationResult = {
+        executed: [],
+        skipped: [],
+        failed: [],
+        duration: 0,
+        dryRun: this.runnerOptions.dryRun
+      }
 
-    const executed = await this.getExecutedMigrations()
+      const executed = await this.getExecutedMigrations()
 
-    if (executed.length === 0) {
-      this.logger.warn('No executed migrations to rollback')
-      result.duration = Date.now() - startTime
-      return result
-    }
+      if (executed.length === 0) {
+        this.logger.warn('No executed migrations to rollback')
+        result.duration = Date.now() - startTime
+        return result
+      }
 
-    const toRollback = executed.slice(-steps).reverse()
+      const toRollback = executed.slice(-steps).reverse()
 
-    if (this.runnerOptions.dryRun) {
-      this.logger.info('DRY RUN - No changes will be made')
-    }
+      if (this.runnerOptions.dryRun) {
+        this.logger.info('DRY RUN - No changes will be made')
+      }
 
-    for (const name of toRollback) {
-      const migration = this.migrations.find(m => m.name === name)
+      for (const name of toRollback) {
+        const migration = this.migrations.find(m => m.name === name)
 
-      if (!migration) {
-        this.logger.warn(`Migration ${name} not found in codebase`)
-        result.skipped.push(name)
-        continue
-      }
+        if (!migration) {
+          this.logger.warn(`Migration ${name} not found in codebase`)
+          result.skipped.push(name)
+          continue
+        }
 
-      if (!migration.down) {
-        this.logger.warn(`Migration ${name} has no down method - skipping`)
-        result.skipped.push(name)
-        continue
-      }
+        if (!migration.down) {
+          this.logger.warn(`Migration ${name} has no down method - skipping`)
+          result.skipped.push(name)
+          continue
+        }
 
-      const migrationStart = Date.now()
+        const migrationStart = Date.now()
 
-      try {
-        await hooks?.before?.(migration)
+        try {
+          await hooks?.before?.(migration)
 
-        this.logger.info(`Rolling back ${name}...`)
-        this.logMigrationMeta(migration)
+          this.logger.info(`Rolling back ${name}...`)
+          this.logMigrationMeta(migration)
 
-        if (!this.runnerOptions.dryRun) {
-          await this.executeMigration(migration, 'down')
-          await this.markAsRolledBack(name)
-        }
+          if (!this.runnerOptions.dryRun) {
+            await this.executeMigration(migration, 'down')
+            await this.markAsRolledBack(name)
+          }
 
-        await hooks?.after?.(migration, Date.now() - migrationStart)
+          await hooks?.after?.(migration, Date.now() - migrationStart)
 
-        this.logger.info(`${name} rolled back`)
-        result.executed.push(name)
-      } catch (error) {
-        await hooks?.onError?.(migration, error)
+          this.logger.info(`${name} rolled back`)
+          result.executed.push(name)
+        } catch (error) {
+          await hooks?.onError?.(migration, error)
 
-        const errorMsg = formatError(error)
-        this.logger.error(`${name} rollback failed: ${errorMsg}`)
-        result.failed.push(name)
+          const errorMsg = formatError(error)
+          this.logger.error(`${name} rollback failed: ${errorMsg}`)
+          result.failed.push(name)
 
-        if (this.runnerOptions.stopOnError) {
-          throw new MigrationError(
-            `Rollback of ${name} failed: ${errorMsg}`,
-            name,
-            'down',
-            error instanceof Error ? error : undefined
-          )
+          if (this.runnerOptions.stopOnError) {
+            throw new MigrationError(
+              `Rollback of ${name} failed: ${errorMsg}`,
+              name,
+              'down',
+              error instanceof Error ? error : undefined
+            )
+          }
         }
       }
-    }
 
-    if (!this.runnerOptions.dryRun) {
-      if (result.failed.length > 0) {
-        this.logger.warn(`Rollback completed with ${String(result.failed.length)} failure(s)`)
+      if (!this.runnerOptions.dryRun) {
+        if (result.failed.length > 0) {
+          this.logger.warn(`Rollback completed with ${String(result.failed.length)} failure(s)`)
+        } else {
+          this.logger.info('Rollback completed successfully')
+        }
       } else {
-        this.logger.info('Rollback completed successfully')
+        this.logger.info('Dry run completed - no changes made')
       }
-    } else {
-      this.logger.info('Dry run completed - no changes made')
-    }
 
-    result.duration = Date.now() - startTime
-    return result
+      result.duration = Date.now() - startTime
+      return result
+    })
   }
 
   /**
@@ -592,8 +859,10 @@ export class MigrationRunner<DB = unknown> {
   async status(): Promise<MigrationStatus> {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     await this.ensureSetup()
-    const executed = await this.getExecutedMigrations()
+    const records = await this.getExecutedMigrationRecords()
+    const executed = records.map(r => r.name)
     const pending = this.migrations.filter(m => !executed.includes(m.name)).map(m => m.name)
+    const { modified, missing, outOfOrder } = await detectDrift(this.migrations, records)
 
     this.logger.info('Migration Status:')
     this.logger.info(`  Executed: ${executed.length}`)
@@ -627,7 +896,17 @@ export class MigrationRunner<DB = unknown> {
       }
     }
 
-    return { executed, pending, total: this.migrations.length }
+    if (modified.length > 0) {
+      this.logger.warn(`Modified since applied: ${modified.join(', ')}`)
+    }
+    if (missing.length > 0) {
+      this.logger.warn(`Applied but missing from the migration list: ${missing.join(', ')}`)
+    }
+    if (outOfOrder.length > 0) {
+      this.logger.warn(`Pending before already executed migrations: ${outOfOrder.join(', ')}`)
+    }
+
+    return { executed, pending, total: this.migrations.length, modified, missing, outOfOrder }
   }
 
   /**
@@ -748,6 +1027,7 @@ export function createMigrationWithMeta<DB = unknown>(
     breaking?: boolean
     estimatedDuration?: number
     tags?: string[]
+    checksum?: string
   }
 ): MigrationWithMeta<DB> {
   const migration: MigrationWithMeta<DB> = {
@@ -769,6 +1049,9 @@ export function createMigrationWithMeta<DB = unknown>(
   if (options.tags !== undefined) {
     migration.tags = options.tags
   }
+  if (options.checksum !== undefined) {
+    migration.checksum = options.checksum
+  }
   return migration
 }
 
@@ -804,6 +1087,9 @@ export function defineMigrations<DB = unknown>(
     if (def.tags !== undefined) {
       migration.tags = def.tags
     }
+    if (def.checksum !== undefined) {
+      migration.checksum = def.checksum
+    }
     return migration
   })
 }
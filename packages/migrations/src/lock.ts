@@ -0,0 +1,325 @@
+/**
+ * Dialect-aware migration locking.
+ *
+ * Prevents several processes (e.g. app replicas running migrations on boot)
+ * from migrating the same database at once:
+ * - PostgreSQL: `pg_advisory_lock`
+ * - MySQL: `GET_LOCK`
+ * - MSSQL: `sp_getapplock`
+ * - SQLite: a lock table with a heartbeat
+ *
+ * Advisory locks are held by a dedicated connection, so the database drops
+ * them when the process dies. SQLite has no session locks; a lock whose
+ * heartbeat is older than {@link STALE_LOCK_AGE} is treated as abandoned.
+ *
+ * @module @kysera/migrations/lock
+ */
+
+import type { Kysely } from 'kysely'
+import { sql } from 'kysely'
+import { DatabaseError, ErrorCodes, detectDialect } from '@kysera/core'
+import type { Dialect } from '@kysera/core'
+
+/** Default time to wait for the lock, in milliseconds */
+export const DEFAULT_LOCK_TIMEOUT = 10000
+
+/** Default lock name (and lock table name on SQLite) */
+export const DEFAULT_LOCK_NAME = 'migrations_lock'
+
+/** How often the SQLite lock holder refreshes its heartbeat */
+const HEARTBEAT_INTERVAL = 5000
+
+/** SQLite locks without a heartbeat for this long are considered abandoned */
+const STALE_LOCK_AGE = 60000
+
+/** Delay between attempts while waiting for a SQLite lock */
+const POLL_INTERVAL = 100
+
+/**
+ * Migration lock options
+ */
+export interface MigrationLockOptions {
+  /** Lock name; also the lock table name on SQLite (default: 'migrations_lock') */
+  lockName?: string
+  /** Time to wait for the lock in milliseconds; 0 tries once (default: 10000) */
+  timeout?: number
+}
+
+/**
+ * Releases a migration lock
+ */
+export type ReleaseMigrationLock = () => Promise<void>
+
+/**
+ * Thrown when the migration lock is not acquired within the timeout because
+ * another process is running migrations
+ */
+export class MigrationLockError extends DatabaseError {
+  public readonly lockName: string
+
+  constructor(message: string, lockName: string) {
+    super(message, ErrorCodes.MIGRATION_LOCK_FAILED, lockName)
+    this.name = 'MigrationLockError'
+    this.lockName = lockName
+  }
+}
+
+/**
+ * Acquire the migration lock, waiting up to `timeout` milliseconds.
+ * Resolves to a function that releases the lock.
+ *
+ * On PostgreSQL, MySQL and MSSQL the lock holds one pool connection until it
+ * is released, so the pool needs at least two connections.
+ *
+ * @throws {MigrationLockError} When the lock is not acquired within the timeout.
+ *   Other database errors are rethrown as-is.
+ *
+ * @example
+ * ```typescript
+ * const release = await acquireMigrationLock(db, { timeout: 30000 })
+ * try {
+ *   await migrate(db)
+ * } finally {
+ *   await release()
+ * }
+ * ```
+ */
+export async function acquireMigrationLock(
+  db: Kysely<unknown>,
+  options: MigrationLockOptions = {}
+): Promise<ReleaseMigrationLock> {
+  const lockName = options.lockName ?? DEFAULT_LOCK_NAME
+  const timeout = options.timeout ?? DEFAULT_LOCK_TIMEOUT
+  const dialect: Dialect = detectDialect(db)
+
+  switch (dialect) {
+    case 'postgres':
+      return await acquireSessionLock(
+        db,
+        lockName,
+        {
+          lock: async conn => {
+            // lock_timeout = 0 disables the timeout, so a zero timeout tries once instead
+            if (timeout === 0) {
+              const { rows } = await sql<{
+                acquired: boolean
+              }>`SELECT pg_try_advisory_lock(${advisoryLockKey(lockName)}) AS acquired`.execute(
+                conn
+              )
+              return rows[0]?.acquired === true
+            }
+            // lock_timeout also bounds advisory lock waits (SQLSTATE 55P03)
+            await sql`SELECT set_config('lock_timeout', ${`${String(timeout)}ms`}, false)`.execute(
+              conn
+            )
+            try {
+              await sql`SELECT pg_advisory_lock(${advisoryLockKey(lockName)})`.execute(conn)
+              return true
+            } catch (error) {
+              if ((error as { code?: string }).code === '55P03') return false
+              throw error
+            } finally {
+              await sql`SET lock_timeout = DEFAULT`.execute(conn)
+            }
+          },
+          unlock: async conn => {
+            await sql`SELECT pg_advisory_unlock(${advisoryLockKey(lockName)})`.execute(conn)
+          }
+        },
+        timeout
+      )
+
+    case 'mysql':
+      return await acquireSessionLock(
+        db,
+        lockName,
+        {
+          lock: async conn => {
+            const seconds = Math.ceil(timeout / 1000)
+            const { rows } = await sql<{
+              acquired: number | null
+            }>`SELECT GET_LOCK(${lockName}, ${seconds}) AS acquired`.execute(conn)
+            return Number(rows[0]?.acquired) === 1
+          },
+          unlock: async conn => {
+            await sql`SELECT RELEASE_LOCK(${lockName})`.execute(conn)
+          }
+        },
+        timeout
+      )
+
+    case 'mssql':
+      return await acquireSessionLock(
+        db,
+        lockName,
+        {
+          lock: async conn => {
+            // sp_getapplock returns >= 0 when granted, -1 on timeout
+            const { rows } = await sql<{ result: number }>`
+            DECLARE @result int;
+            EXEC @result = sp_getapplock @Resource = ${lockName}, @LockMode = 'Exclusive', @LockOwner = 'Session', @LockTimeout = ${timeout};
+            SELECT @result AS result;
+          `.execute(conn)
+            return Number(rows[0]?.result) >= 0
+          },
+          unlock: async conn => {
+            await sql`EXEC sp_releaseapplock @Resource = ${lockName}, @LockOwner = 'Session'`.execute(
+              conn
+            )
+          }
+        },
+        timeout
+      )
+
+    case 'sqlite':
+      return await acquireTableLock(db, lockName, timeout)
+  }
+}
+
+// ============================================================================
+// Session locks (PostgreSQL, MySQL, MSSQL)
+// ============================================================================
+
+/**
+ * Session lock implementation for one dialect.
+ * `lock` waits at most the timeout and resolves to false when it expires.
+ */
+interface SessionLockQueries {
+  lock: (conn: Kysely<unknown>) => Promise<boolean>
+  unlock: (conn: Kysely<unknown>) => Promise<void>
+}
+
+/**
+ * Take a session-level lock on a reserved connection and keep the connection
+ * until the lock is released. If the process dies the connection closes and
+ * the database releases the lock.
+ */
+async function acquireSessionLock(
+  db: Kysely<unknown>,
+  lockName: string,
+  queries: SessionLockQueries,
+  timeout: number
+): Promise<ReleaseMigrationLock> {
+  let releaseConnection!: () => void
+  const released = new Promise<void>(resolve => {
+    releaseConnection = resolve
+  })
+
+  return await new Promise<ReleaseMigrationLock>((resolve, reject) => {
+    const held = db.connection().execute(async conn => {
+      if (!(await queries.lock(conn))) {
+        throw lockTimeoutError(lockName, timeout)
+      }
+
+      resolve(async () => {
+        releaseConnection()
+        await held
+      })
+
+      await released
+      await queries.unlock(conn)
+    })
+
+    // Rejections after the lock was granted surface through `await held` on release
+    held.catch(reject)
+  })
+}
+
+/**
+ * 32-bit key for pg_advisory_lock derived from the lock name (FNV-1a)
+ */
+function advisoryLockKey(lockName: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < lockName.length; i++) {
+    hash ^= lockName.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash | 0
+}
+
+// ============================================================================
+// Lock table (SQLite)
+// ============================================================================
+
+/**
+ * Shape of the SQLite lock table, keyed by lock name
+ */
+type LockTableSchema = Record<
+  string,
+  {
+    id: number
+    holder: string
+    heartbeat_at: number
+  }
+>
+
+/**
+ * Take the lock by inserting the single lock row. The holder refreshes
+ * `heartbeat_at` while it runs; rows with an old heartbeat are left by a
+ * crashed process and get taken over.
+ */
+async function acquireTableLock(
+  db: Kysely<unknown>,
+  lockName: string,
+  timeout: number
+): Promise<ReleaseMigrationLock> {
+  const lockDb = db as unknown as Kysely<LockTableSchema>
+  const holder = globalThis.crypto.randomUUID()
+  const deadline = Date.now() + timeout
+
+  await lockDb.schema
+    .createTable(lockName)
+    .ifNotExists()
+    .addColumn('id', 'integer', col => col.primaryKey())
+    .addColumn('holder', 'varchar(36)', col => col.notNull())
+    .addColumn('heartbeat_at', 'bigint', col => col.notNull())
+    .execute()
+
+  for (;;) {
+    await lockDb
+      .deleteFrom(lockName)
+      .where('id', '=', 1)
+      .where('heartbeat_at', '<', Date.now() - STALE_LOCK_AGE)
+      .execute()
+
+    const inserted = await lockDb
+      .insertInto(lockName)
+      .values({ id: 1, holder, heartbeat_at: Date.now() })
+      .onConflict(oc => oc.doNothing())
+      .executeTakeFirst()
+
+    if (Number(inserted.numInsertedOrUpdatedRows ?? 0) > 0) break
+
+    if (Date.now() >= deadline) {
+      throw lockTimeoutError(lockName, timeout)
+    }
+    await new Promise(resolve =>
+      setTimeout(resolve, Math.min(POLL_INTERVAL, deadline - Date.now()))
+    )
+  }
+
+  const heartbeat = setInterval(() => {
+    lockDb
+      .updateTable(lockName)
+      .set({ heartbeat_at: Date.now() })
+      .where('id', '=', 1)
+      .where('holder', '=', holder)
+      .execute()
+      .catch(() => {
+        // A missed heartbeat only matters if it stays missing past STALE_LOCK_AGE
+      })
+  }, HEARTBEAT_INTERVAL)
+  heartbeat.unref()
+
+  return async () => {
+    clearInterval(heartbeat)
+    await lockDb.deleteFrom(lockName).where('id', '=', 1).where('holder', '=', holder).execute()
+  }
+}
+
+function lockTimeoutError(lockName: string, timeout: number): MigrationLockError {
+  return new MigrationLockError(
+    `Could not acquire migration lock "${lockName}" within ${String(timeout)}ms - migrations are running in another process`,
+    lockName
+  )
+}
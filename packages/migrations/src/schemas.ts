@@ -33,7 +33,17 @@ export const MigrationRunnerOptionsSchema = z.object({
   /** Stop on first error */
   stopOnError: z.boolean().default(true),
   /** Show detailed metadata in logs */
-  verbose: z.boolean().default(true)
+  verbose: z.boolean().default(true),
+  /** Run up() even when applied migrations were modified or removed */
+  allowDrift: z.boolean().default(false),
+  /** Only warn when the function source of an applied migration changed */
+  ignoreSourceDrift: z.boolean().default(false),
+  /** Hold a database lock while migrating */
+  useLock: z.boolean().default(true),
+  /** Time to wait for the migration lock in milliseconds */
+  lockTimeout: z.number().int().nonnegative().default(10000),
+  /** Name of the migration lock */
+  lockName: z.string().min(1).default('migrations_lock')
 })
 
 // ============================================================================
@@ -54,7 +64,9 @@ export const MigrationDefinitionSchema = z.object({
   /** Tags for categorization (e.g., ['schema', 'data', 'index']) */
   tags: z.array(z.string()).default([]),
   /** Estimated duration as human-readable string (e.g., '30s', '2m') */
-  estimatedDuration: z.string().optional()
+  estimatedDuration: z.string().optional(),
+  /** Explicit content checksum used for drift detection */
+  checksum: z.string().optional()
 })
 
 // ============================================================================
@@ -110,7 +122,13 @@ export const MigrationStatusSchema = z.object({
   /** List of pending migration names */
   pending: z.array(z.string()),
   /** Total migration count */
-  total: z.number().int().nonnegative()
+  total: z.number().int().nonnegative(),
+  /** Executed migrations whose checksum changed */
+  modified: z.array(z.string()).default([]),
+  /** Executed migrations missing from the migration list */
+  missing: z.array(z.string()).default([]),
+  /** Pending migrations listed before executed ones */
+  outOfOrder: z.array(z.string()).default([])
 })
 
 // ============================================================================
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  Kysely,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  SqliteDialect,
+  type DatabaseConnection,
+  type Driver
+} from 'kysely'
+import Database from 'better-sqlite3'
+import {
+  MigrationRunner,
+  MigrationLockError,
+  acquireMigrationLock,
+  createMigration,
+  type Migration
+} from '../src/index.js'
+import { safeDbDestroy, safeSqliteClose } from './helpers/cleanup.js'
+
+describe('Migration Locking', () => {
+  let db: Kysely<any>
+  let database: Database.Database
+
+  beforeEach(() => {
+    database = new Database(':memory:')
+    db = new Kysely({
+      dialect: new SqliteDialect({
+        database
+      })
+    })
+  })
+
+  afterEach(async () => {
+    await safeDbDestroy(db)
+    safeSqliteClose(database)
+  })
+
+  const createTableMigration = (name: string, table: string): Migration =>
+    createMigration(name, async db => {
+      await db.schema
+        .createTable(table)
+        .addColumn('id', 'integer', col => col.primaryKey())
+        .execute()
+    })
+
+  describe('acquireMigrationLock', () => {
+    it('should only grant the lock once until it is released', async () => {
+      const release = await acquireMigrationLock(db, { timeout: 50 })
+
+      const error = await acquireMigrationLock(db, { timeout: 50 }).catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(MigrationLockError)
+      expect((error as MigrationLockError).code).toBe('MIGRATION_LOCK_FAILED')
+      expect((error as MigrationLockError).lockName).toBe('migrations_lock')
+
+      await release()
+
+      const releaseAgain = await acquireMigrationLock(db, { timeout: 50 })
+      await releaseAgain()
+    })
+
+    it('should wait for the lock to be released', async () => {
+      const release = await acquireMigrationLock(db)
+      setTimeout(() => void release(), 50)
+
+      const releaseAgain = await acquireMigrationLock(db, { timeout: 2000 })
+      await releaseAgain()
+    })
+
+    it('should use separate locks for different lock names', async () => {
+      const release = await acquireMigrationLock(db, { lockName: 'tenant_a_lock', timeout: 50 })
+      const releaseOther = await acquireMigrationLock(db, { lockName: 'tenant_b_lock', timeout: 50 })
+
+      await release()
+      await releaseOther()
+    })
+
+    it('should take over a lock abandoned by a crashed process', async () => {
+      const release = await acquireMigrationLock(db)
+      await release()
+      await db.insertInto('migrations_lock').values({ id: 1, holder: 'crashed', heartbeat_at: 0 }).execute()
+
+      const releaseAgain = await acquireMigrationLock(db, { timeout: 50 })
+      await releaseAgain()
+    })
+
+    it('should try the PostgreSQL advisory lock once when the timeout is 0', async () => {
+      const queries: string[] = []
+      const connection: DatabaseConnection = {
+        executeQuery: async compiled => {
+          queries.push(compiled.sql)
+          return { rows: [{ acquired: false }] as never[] }
+        },
+        streamQuery: () => {
+          throw new Error('not supported')
+        }
+      }
+      const driver: Driver = {
+        init: async () => {},
+        acquireConnection: async () => connection,
+        beginTransaction: async () => {},
+        commitTransaction: async () => {},
+        rollbackTransaction: async () => {},
+        releaseConnection: async () => {},
+        destroy: async () => {}
+      }
+      const pgDb = new Kysely<any>({
+        dialect: {
+          createAdapter: () => new PostgresAdapter(),
+          createDriver: () => driver,
+          createIntrospector: db => new PostgresIntrospector(db),
+          createQueryCompiler: () => new PostgresQueryCompiler()
+        }
+      })
+
+      await expect(acquireMigrationLock(pgDb, { timeout: 0 })).rejects.toThrow(MigrationLockError)
+      expect(queries).toEqual(['SELECT pg_try_advisory_lock($1) AS acquired'])
+    })
+  })
+
+  describe('MigrationRunner', () => {
+    it('should fail with MigrationLockError when another process holds the lock', async () => {
+      const release = await acquireMigrationLock(db)
+      const runner = new MigrationRunner(db, [createTableMigration('001_users', 'users')], {
+        lockTimeout: 50
+      })
+
+      await expect(runner.up()).rejects.toThrow(MigrationLockError)
+      await expect(runner.down()).rejects.toThrow(MigrationLockError)
+      await release()
+
+      expect(await runner.getExecutedMigrations()).toEqual([])
+    })
+
+    it('should run concurrent runners one after another', async () => {
+      const migrations = [
+        createTableMigration('001_users', 'users'),
+        createTableMigration('002_posts', 'posts')
+      ]
+
+      const results = await Promise.all([
+        new MigrationRunner(db, migrations).up(),
+        new MigrationRunner(db, migrations).up()
+      ])
+
+      expect(results.map(r => r.executed.length).sort()).toEqual([0, 2])
+    })
+
+    it('should release the lock when a migration fails', async () => {
+      const runner = new MigrationRunner(db, [
+        createMigration('001_failing', async () => {
+          throw new Error('boom')
+        })
+      ])
+
+      await expect(runner.up()).rejects.toThrow('boom')
+
+      const release = await acquireMigrationLock(db, { timeout: 50 })
+      await release()
+    })
+
+    it('should not lock when useLock is false', async () => {
+      const release = await acquireMigrationLock(db)
+      const runner = new MigrationRunner(db, [createTableMigration('001_users', 'users')], {
+        useLock: false,
+        lockTimeout: 50
+      })
+
+      const result = await runner.up()
+      await release()
+
+      expect(result.executed).toEqual(['001_users'])
+    })
+
+    it('should use the configured lock name', async () => {
+      const release = await acquireMigrationLock(db)
+      const runner = new MigrationRunner(db, [createTableMigration('001_users', 'users')], {
+        lockName: 'tenant_acme_migrations_lock',
+        lockTimeout: 50
+      })
+
+      const result = await runner.up()
+      await release()
+
+      // The default lock was held the whole time
+      expect(result.executed).toEqual(['001_users'])
+    })
+
+    it('should not lock in dry run mode', async () => {
+      const release = await acquireMigrationLock(db)
+      const runner = new MigrationRunner(db, [createTableMigration('001_users', 'users')], {
+        dryRun: true,
+        lockTimeout: 50
+      })
+
+      const result = await runner.up()
+      await release()
+
+      expect(result.executed).toEqual(['001_users'])
+    })
+  })
+})
@@ -11,6 +11,7 @@ import {
   runMigrations,
   rollbackMigrations,
   getMigrationStatus,
+  getMigrationChecksum,
   MigrationError,
   createLoggingPlugin,
   createMetricsPlugin,
@@ -388,6 +389,165 @@ describe('Migration System', () => {
       })
     })
 
+    describe('checksums and drift', () => {
+      const noop = async (): Promise<void> => {}
+
+      it('should store a checksum for executed migrations', async () => {
+        const migrations = createTestMigrations()
+        const runner = new MigrationRunner(db, migrations, {})
+
+        await runner.up()
+
+        const records = await runner.getExecutedMigrationRecords()
+        expect(records).toHaveLength(3)
+        expect(records[0]?.checksum).toBe(await getMigrationChecksum(migrations[0]!))
+        expect(records[0]?.checksum).toMatch(/^[0-9a-f]{64}$/)
+      })
+
+      it('should use an explicit checksum when provided', async () => {
+        const runner = new MigrationRunner(db, [{ name: '001_explicit', up: noop, checksum: 'v1' }], {})
+
+        await runner.up()
+
+        const records = await runner.getExecutedMigrationRecords()
+        expect(records[0]?.checksum).toBe('v1')
+      })
+
+      it('should report modified, missing and out-of-order migrations', async () => {
+        await new MigrationRunner(
+          db,
+          [
+            { name: '001_a', up: noop, checksum: 'a' },
+            { name: '003_c', up: noop, checksum: 'c' },
+            { name: '004_d', up: noop, checksum: 'd' }
+          ],
+          {}
+        ).up()
+
+        const status = await new MigrationRunner(
+          db,
+          [
+            { name: '001_a', up: noop, checksum: 'a-edited' },
+            { name: '002_b', up: noop, checksum: 'b' },
+            { name: '003_c', up: noop, checksum: 'c' },
+            { name: '005_e', up: noop, checksum: 'e' }
+          ],
+          {}
+        ).status()
+
+        expect(status.modified).toEqual(['001_a'])
+        expect(status.missing).toEqual(['004_d'])
+        expect(status.outOfOrder).toEqual(['002_b'])
+        expect(status.pending).toEqual(['002_b', '005_e'])
+      })
+
+      it('should refuse to run up() when applied migrations drifted', async () => {
+        await new MigrationRunner(db, [{ name: '001_a', up: noop, checksum: 'a' }], {}).up()
+
+        const runner = new MigrationRunner(
+          db,
+          [
+            { name: '001_a', up: noop, checksum: 'a-edited' },
+            { name: '002_b', up: noop, checksum: 'b' }
+          ],
+          {}
+        )
+
+        const error = await runner.up().catch((e: unknown) => e)
+        expect(error).toBeInstanceOf(MigrationError)
+        expect((error as MigrationError).migrationName).toBe('001_a')
+        expect((error as MigrationError).message).toContain('modified: 001_a')
+        expect(await runner.getExecutedMigrations()).toEqual(['001_a'])
+      })
+
+      it('should refuse to run up() when the source of an applied migration changed', async () => {
+        await new MigrationRunner(db, [{ name: '001_a', up: async () => {} }], {}).up()
+
+        const runner = new MigrationRunner(
+          db,
+          [
+            { name: '001_a', up: async () => { await Promise.resolve() } },
+            { name: '002_b', up: noop }
+          ],
+          {}
+        )
+
+        const error = await runner.up().catch((e: unknown) => e)
+        expect(error).toBeInstanceOf(MigrationError)
+        expect((error as MigrationError).message).toContain('modified: 001_a')
+        expect(await runner.getExecutedMigrations()).toEqual(['001_a'])
+      })
+
+      it('should only warn about changed source when ignoreSourceDrift is set', async () => {
+        await new MigrationRunner(db, [{ name: '001_a', up: async () => {} }], {}).up()
+        const logs: string[] = []
+
+        const result = await new MigrationRunner(
+          db,
+          [
+            { name: '001_a', up: async () => { await Promise.resolve() } },
+            { name: '002_b', up: noop }
+          ],
+          { ignoreSourceDrift: true, logger: createTestLogger(logs) }
+        ).up()
+
+        expect(result.executed).toEqual(['002_b'])
+        expect(logs.some(log => log.includes('Source of applied migrations changed since they ran: 001_a'))).toBe(true)
+      })
+
+      it('should refuse to run up() when applied migrations are missing', async () => {
+        await new MigrationRunner(db, [{ name: '001_a', up: noop, checksum: 'a' }], {}).up()
+
+        const runner = new MigrationRunner(db, [{ name: '002_b', up: noop, checksum: 'b' }], {})
+
+        await expect(runner.up()).rejects.toThrow('missing: 001_a')
+      })
+
+      it('should run despite drift when allowDrift is set', async () => {
+        await new MigrationRunner(db, [{ name: '001_a', up: noop, checksum: 'a' }], {}).up()
+        const logs: string[] = []
+
+        const result = await new MigrationRunner(
+          db,
+          [
+            { name: '001_a', up: noop, checksum: 'a-edited' },
+            { name: '002_b', up: noop, checksum: 'b' }
+          ],
+          { allowDrift: true, logger: createTestLogger(logs) }
+        ).up()
+
+        expect(result.executed).toEqual(['002_b'])
+        expect(logs.some(log => log.includes('drifted'))).toBe(true)
+      })
+
+      it('should backfill checksums recorded before checksums were tracked', async () => {
+        const runner = new MigrationRunner(db, [{ name: '001_a', up: noop, checksum: 'a' }], {})
+        await setupMigrations(db)
+        await runner.markAsExecuted('001_a')
+
+        expect((await runner.status()).modified).toEqual([])
+        await runner.up()
+
+        const records = await runner.getExecutedMigrationRecords()
+        expect(records[0]?.checksum).toBe('a')
+      })
+
+      it('should add the checksum column to an existing migrations table', async () => {
+        await db.schema
+          .createTable('migrations')
+          .addColumn('name', 'varchar(255)', col => col.primaryKey())
+          .addColumn('executed_at', 'timestamp', col => col.notNull().defaultTo(sql`CURRENT_TIMESTAMP`))
+          .execute()
+        await db.insertInto('migrations').values({ name: '001_a' }).execute()
+
+        const runner = new MigrationRunner(db, [{ name: '001_a', up: noop, checksum: 'a' }], {})
+        await runner.up()
+
+        const records = await runner.getExecutedMigrationRecords()
+        expect(records).toEqual([expect.objectContaining({ name: '001_a', checksum: 'a' })])
+      })
+    })
+
     describe('reset', () => {
       it('should rollback all migrations', async () => {
         const migrations = createTestMigrations()
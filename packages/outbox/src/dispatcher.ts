@@ -0,0 +1,498 @@
+import type { Expression, ExpressionBuilder, Kysely, SqlBool } from 'kysely'
+import { detectDialect, silentLogger, type KyseraLogger } from '@kysera/core'
+import {
+  CircuitBreaker,
+  CircuitBreakerError,
+  withRetry,
+  type CircuitBreakerOptions,
+  type RetryOptions
+} from '@kysera/infra/resilience'
+import { createShutdownController, type RegisterShutdownOptions } from '@kysera/infra/shutdown'
+import { DEFAULT_OUTBOX_TABLE, type OutboxDatabase, type OutboxRow } from './table.js'
+
+/**
+ * Event delivered to the dispatcher handler
+ */
+export interface OutboxEvent<TPayload = unknown> {
+  id: number
+  type: string
+  payload: TPayload
+  aggregateType: string | null
+  aggregateId: string | null
+  /** Failed deliveries so far */
+  attempts: number
+  createdAt: Date
+}
+
+/**
+ * Delivers one event, e.g. publishes it to a message broker.
+ * Events are delivered at least once, so handlers must be idempotent.
+ */
+export type OutboxHandler<TPayload = unknown> = (event: OutboxEvent<TPayload>) => Promise<void>
+
+/**
+ * Options for OutboxDispatcher
+ */
+export interface OutboxDispatcherOptions<TPayload = unknown> {
+  /** Delivers each event */
+  handler: OutboxHandler<TPayload>
+
+  /**
+   * Outbox table name
+   * @default 'outbox_events'
+   */
+  tableName?: string
+
+  /**
+   * Maximum number of events claimed per batch
+   * @default 50
+   */
+  batchSize?: number
+
+  /**
+   * Delay between polls when the outbox is empty, in milliseconds
+   * @default 1000
+   */
+  pollIntervalMs?: number
+
+  /**
+   * How long a claimed event stays reserved for this dispatcher, in milliseconds.
+   * The lease is extended right before each delivery, so it has to cover one
+   * delivery including in-process retries, not the whole batch.
+   * Events still unfinished after the lease (e.g. the process died) are claimed again.
+   * @default 30000
+   */
+  leaseMs?: number
+
+  /**
+   * Failed deliveries after which an event is marked `failed` and no longer retried
+   * @default 10
+   */
+  maxAttempts?: number
+
+  /**
+   * Delay before the first redelivery of a failed event, doubled on each
+   * further failure (capped at one hour), in milliseconds
+   * @default 5000
+   */
+  retryDelayMs?: number
+
+  /**
+   * In-process retries of the handler for one delivery, passed to `withRetry`.
+   * Unlike `withRetry`'s default, every error is retried.
+   * @default { maxAttempts: 3, delayMs: 100, maxDelayMs: 1000 }
+   */
+  retry?: RetryOptions
+
+  /**
+   * Circuit breaker around the handler. When it opens, the rest of the batch is
+   * released without counting an attempt and delivery resumes once it closes.
+   * @default new CircuitBreaker({ threshold: 5, resetTimeMs: 30000 })
+   */
+  circuitBreaker?: CircuitBreaker | CircuitBreakerOptions
+
+  /**
+   * Logger for dispatcher operations
+   * @default silentLogger
+   */
+  logger?: KyseraLogger
+}
+
+/**
+ * Result of one dispatch batch
+ */
+export interface OutboxBatchResult {
+  /** Events claimed from the outbox */
+  claimed: number
+  /** Events the handler delivered */
+  delivered: number
+  /** Events whose delivery failed (rescheduled or marked failed) */
+  failed: number
+  /** Events released unprocessed because the circuit breaker was open */
+  released: number
+  /** Events skipped because their lease ran out and another dispatcher claimed them */
+  skipped: number
+}
+
+/** Upper bound for the redelivery delay */
+const MAX_RETRY_DELAY = 60 * 60 * 1000
+
+/** Longest error message stored in `last_error` */
+const MAX_ERROR_LENGTH = 2000
+
+/**
+ * Polling dispatcher for the transactional outbox.
+ *
+ * Each batch claims due events in a short transaction and delivers them after the
+ * commit, so a slow handler doesn't hold row locks. On PostgreSQL and MySQL claims
+ * use `FOR UPDATE SKIP LOCKED`, letting several dispatchers share the outbox; on
+ * other dialects an event is claimed with a conditional update, which has the same
+ * effect with more round trips.
+ *
+ * Delivery goes through `withRetry` and a `CircuitBreaker` from `@kysera/infra`.
+ * Events that still fail are rescheduled with exponential backoff and marked
+ * `failed` after `maxAttempts`.
+ *
+ * @example
+ * ```typescript
+ * import { OutboxDispatcher } from '@kysera/outbox'
+ *
+ * const dispatcher = new OutboxDispatcher(db, {
+ *   handler: async event => {
+ *     await broker.publish(event.type, event.payload, { messageId: String(event.id) })
+ *   }
+ * })
+ *
+ * dispatcher.start()
+ *
+ * // Stop polling, finish the current batch, then close the database
+ * dispatcher.createShutdownController().registerSignals()
+ * ```
+ */
+export class OutboxDispatcher<DB = unknown, TPayload = unknown> {
+  private readonly db: Kysely<OutboxDatabase>
+  private readonly handler: OutboxHandler<TPayload>
+  private readonly tableName: string
+  private readonly batchSize: number
+  private readonly pollIntervalMs: number
+  private readonly leaseMs: number
+  private readonly maxAttempts: number
+  private readonly retryDelayMs: number
+  private readonly retryOptions: RetryOptions
+  private readonly circuitBreaker: CircuitBreaker
+  private readonly logger: KyseraLogger
+  private readonly skipLocked: boolean
+
+  private running = false
+  private timer: ReturnType<typeof setTimeout> | undefined
+  private currentBatch: Promise<unknown> | undefined
+
+  /**
+   * Create a dispatcher.
+   *
+   * @param db - Kysely database instance
+   * @param options - Dispatcher options
+   */
+  constructor(
+    private readonly kysely: Kysely<DB>,
+    options: OutboxDispatcherOptions<TPayload>
+  ) {
+    this.db = kysely as unknown as Kysely<OutboxDatabase>
+    this.handler = options.handler
+    this.tableName = options.tableName ?? DEFAULT_OUTBOX_TABLE
+    this.batchSize = options.batchSize ?? 50
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000
+    this.leaseMs = options.leaseMs ?? 30000
+    this.maxAttempts = options.maxAttempts ?? 10
+    this.retryDelayMs = options.retryDelayMs ?? 5000
+    this.retryOptions = {
+      maxAttempts: 3,
+      delayMs: 100,
+      maxDelayMs: 1000,
+      shouldRetry: () => true,
+      ...options.retry
+    }
+    this.circuitBreaker =
+      options.circuitBreaker instanceof CircuitBreaker
+        ? options.circuitBreaker
+        : new CircuitBreaker({ threshold: 5, resetTimeMs: 30000, ...options.circuitBreaker })
+    this.logger = options.logger ?? silentLogger
+
+    const dialect = detectDialect(kysely)
+    this.skipLocked = dialect === 'postgres' || dialect === 'mysql'
+  }
+
+  /**
+   * Start polling. Does nothing if already running.
+   */
+  start(): void {
+    if (this.running) {
+      return
+    }
+    this.running = true
+    this.logger.debug(`Starting outbox dispatcher for ${this.tableName}`)
+    this.schedule(0)
+  }
+
+  /**
+   * Stop polling and wait for the batch in progress to finish.
+   * Safe to call multiple times.
+   */
+  async stop(): Promise<void> {
+    if (this.running) {
+      this.logger.debug(`Stopping outbox dispatcher for ${this.tableName}`)
+    }
+    this.running = false
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+    await this.currentBatch?.catch(() => undefined)
+  }
+
+  /**
+   * Whether the dispatcher is polling
+   */
+  isRunning(): boolean {
+    return this.running
+  }
+
+  /**
+   * Create a shutdown controller (see `createShutdownController` in `@kysera/infra`)
+   * that stops the dispatcher before closing the database.
+   *
+   * @param options - Shutdown options; `onShutdown` runs after the dispatcher stopped
+   */
+  createShutdownController(
+    options: RegisterShutdownOptions = {}
+  ): ReturnType<typeof createShutdownController> {
+    return createShutdownController(this.kysely, {
+      logger: this.logger,
+      ...options,
+      onShutdown: async () => {
+        await this.stop()
+        await options.onShutdown?.()
+      }
+    })
+  }
+
+  /**
+   * Claim and deliver one batch of due events.
+   * Called by the polling loop; can also be called directly, e.g. from a cron job or tests.
+   */
+  async dispatchBatch(): Promise<OutboxBatchResult> {
+    const batch = this.runBatch()
+    this.currentBatch = batch
+    try {
+      return await batch
+    } finally {
+      if (this.currentBatch === batch) {
+        this.currentBatch = undefined
+      }
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (!this.running) {
+      return
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.dispatchBatch()
+        .then(result => {
+          // A full batch means more events are probably waiting
+          this.schedule(result.claimed === this.batchSize && result.released === 0 ? 0 : this.pollIntervalMs)
+        })
+        .catch((error: unknown) => {
+          this.logger.error('Outbox dispatch failed:', error)
+          this.schedule(this.pollIntervalMs)
+        })
+    }, delay)
+  }
+
+  private async runBatch(): Promise<OutboxBatchResult> {
+    const { rows, lockedUntil } = await this.claim()
+    const result: OutboxBatchResult = {
+      claimed: rows.length,
+      delivered: 0,
+      failed: 0,
+      released: 0,
+      skipped: 0
+    }
+
+    for (const [index, row] of rows.entries()) {
+      // Earlier deliveries may have used up the lease taken when the batch was claimed
+      const lease = await this.renewLease(row, lockedUntil)
+      if (lease === undefined) {
+        result.skipped++
+        continue
+      }
+
+      try {
+        await this.circuitBreaker.execute(() =>
+          withRetry(() => this.handler(toEvent<TPayload>(row)), this.retryOptions)
+        )
+      } catch (error) {
+        if (error instanceof CircuitBreakerError) {
+          const remaining = rows.slice(index)
+          this.logger.warn(`Circuit breaker open, releasing ${String(remaining.length)} outbox events`)
+          await this.release(remaining, [lease, lockedUntil])
+          result.released = remaining.length
+          break
+        }
+        await this.markFailed(row, lease, error)
+        result.failed++
+        continue
+      }
+      await this.markDelivered(row, lease)
+      result.delivered++
+    }
+
+    return result
+  }
+
+  /**
+   * Reserve due events until `lockedUntil`
+   */
+  private async claim(): Promise<{ rows: OutboxRow[]; lockedUntil: number }> {
+    const now = Date.now()
+    const lockedUntil = now + this.leaseMs
+    const { tableName } = this
+
+    // Pending events that are due, and claimed events whose lease expired
+    const claimable = (eb: ExpressionBuilder<OutboxDatabase, string>): Expression<SqlBool> =>
+      eb.or([
+        eb.and([eb('status', '=', 'pending'), eb('available_at', '<=', now)]),
+        eb.and([eb('status', '=', 'processing'), eb('locked_until', '<', now)])
+      ])
+
+    const rows = await this.db.transaction().execute(async trx => {
+      let query = trx
+        .selectFrom(tableName)
+        .selectAll()
+        .where(claimable)
+        .orderBy('id')
+        .limit(this.batchSize)
+      if (this.skipLocked) {
+        query = query.forUpdate().skipLocked()
+      }
+      const candidates = await query.execute()
+      if (candidates.length === 0) {
+        return []
+      }
+
+      if (this.skipLocked) {
+        await trx
+          .updateTable(tableName)
+          .set({ status: 'processing', locked_until: lockedUntil })
+          .where('id', 'in', candidates.map(row => row.id))
+          .execute()
+        return candidates
+      }
+
+      // Without row locks another dispatcher may have claimed a row since the select
+      const claimed: OutboxRow[] = []
+      for (const row of candidates) {
+        const update = await trx
+          .updateTable(tableName)
+          .set({ status: 'processing', locked_until: lockedUntil })
+          .where('id', '=', row.id)
+          .where(claimable)
+          .executeTakeFirst()
+        if (Number(update.numUpdatedRows) > 0) {
+          claimed.push(row)
+        }
+      }
+      return claimed
+    })
+
+    if (rows.length > 0) {
+      this.logger.debug(`Claimed ${String(rows.length)} outbox events`)
+    }
+    return { rows, lockedUntil }
+  }
+
+  /**
+   * Extend the lease of a claimed event to `leaseMs` from now.
+   * Returns the new lease, or undefined when another dispatcher claimed the event
+   * after its lease expired.
+   */
+  private async renewLease(row: OutboxRow, lockedUntil: number): Promise<number | undefined> {
+    const lease = Date.now() + this.leaseMs
+    const update = await this.db
+      .updateTable(this.tableName)
+      .set({ locked_until: lease })
+      .where('id', '=', row.id)
+      .where('status', '=', 'processing')
+      .where('locked_until', '=', lockedUntil)
+      .executeTakeFirst()
+
+    if (Number(update.numUpdatedRows) === 0) {
+      this.logger.warn(`Outbox event ${String(row.id)} was claimed again after its lease expired, skipping it`)
+      return undefined
+    }
+    return lease
+  }
+
+  private async markDelivered(row: OutboxRow, lockedUntil: number): Promise<void> {
+    await this.updateClaimed(row, lockedUntil, {
+      status: 'delivered',
+      locked_until: null,
+      processed_at: Date.now()
+    })
+  }
+
+  private async markFailed(row: OutboxRow, lockedUntil: number, error: unknown): Promise<void> {
+    const attempts = row.attempts + 1
+    const message = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH)
+
+    if (attempts >= this.maxAttempts) {
+      this.logger.error(`Outbox event ${String(row.id)} (${row.event_type}) failed ${String(attempts)} times, giving up: ${message}`)
+      await this.updateClaimed(row, lockedUntil, {
+        status: 'failed',
+        attempts,
+        locked_until: null,
+        last_error: message,
+        processed_at: Date.now()
+      })
+      return
+    }
+
+    const delay = Math.min(this.retryDelayMs * Math.pow(2, attempts - 1), MAX_RETRY_DELAY)
+    this.logger.warn(`Outbox event ${String(row.id)} (${row.event_type}) failed, retrying in ${String(delay)}ms: ${message}`)
+    await this.updateClaimed(row, lockedUntil, {
+      status: 'pending',
+      attempts,
+      available_at: Date.now() + delay,
+      locked_until: null,
+      last_error: message
+    })
+  }
+
+  /**
+   * Put claimed events back to `pending`. `leases` are the lease values this
+   * dispatcher holds: the renewed one of the current event and the one of the claim.
+   */
+  private async release(rows: OutboxRow[], leases: number[]): Promise<void> {
+    await this.db
+      .updateTable(this.tableName)
+      .set({ status: 'pending', locked_until: null })
+      .where('id', 'in', rows.map(row => row.id))
+      .where('status', '=', 'processing')
+      .where('locked_until', 'in', leases)
+      .execute()
+  }
+
+  /**
+   * Update an event unless its lease expired and another dispatcher claimed it
+   */
+  private async updateClaimed(
+    row: OutboxRow,
+    lockedUntil: number,
+    values: Partial<OutboxRow>
+  ): Promise<void> {
+    const update = await this.db
+      .updateTable(this.tableName)
+      .set(values)
+      .where('id', '=', row.id)
+      .where('status', '=', 'processing')
+      .where('locked_until', '=', lockedUntil)
+      .executeTakeFirst()
+
+    if (Number(update.numUpdatedRows) === 0) {
+      this.logger.warn(`Outbox event ${String(row.id)} was claimed again after its lease expired`)
+    }
+  }
+}
+
+function toEvent<TPayload>(row: OutboxRow): OutboxEvent<TPayload> {
+  return {
+    id: Number(row.id),
+    type: row.event_type,
+    payload: JSON.parse(row.payload) as TPayload,
+    aggregateType: row.aggregate_type,
+    aggregateId: row.aggregate_id,
+    attempts: row.attempts,
+    createdAt: new Date(Number(row.created_at))
+  }
+}
@@ -0,0 +1,99 @@
+import type { Kysely, Transaction } from 'kysely'
+import { isDbContext, TransactionRequiredError, type DbContext } from '@kysera/dal'
+import { DEFAULT_OUTBOX_TABLE, type OutboxDatabase, type OutboxRow } from './table.js'
+
+/**
+ * Event to add to the outbox
+ */
+export interface OutboxEventInput<TPayload = unknown> {
+  /** Event type, e.g. 'order.created' */
+  type: string
+  /** JSON-serializable payload */
+  payload: TPayload
+  /** Kind of entity the event is about, e.g. 'order' */
+  aggregateType?: string
+  /** Id of the entity the event is about */
+  aggregateId?: string | number
+  /** Deliver no earlier than this time (default: as soon as the transaction commits) */
+  availableAt?: Date
+}
+
+/**
+ * Options for enqueueEvent()
+ */
+export interface EnqueueOptions {
+  /**
+   * Outbox table name
+   * @default 'outbox_events'
+   */
+  tableName?: string
+}
+
+/**
+ * Add events to the outbox inside the current transaction.
+ *
+ * The events are inserted with the same transaction as the data they describe,
+ * so they are committed (or rolled back) together. A dispatcher delivers them
+ * after the commit.
+ *
+ * @param executor - Transaction, or DbContext from `withTransaction()`
+ * @param events - One event or several
+ * @throws {TransactionRequiredError} When called outside a transaction
+ *
+ * @example
+ * ```typescript
+ * import { withTransaction } from '@kysera/dal'
+ * import { enqueueEvent } from '@kysera/outbox'
+ *
+ * await withTransaction(db, async ctx => {
+ *   const order = await createOrder(ctx, input)
+ *   await enqueueEvent(ctx, {
+ *     type: 'order.created',
+ *     aggregateType: 'order',
+ *     aggregateId: order.id,
+ *     payload: order
+ *   })
+ * })
+ * ```
+ */
+export async function enqueueEvent<DB>(
+  executor: Kysely<DB> | Transaction<DB> | DbContext<DB>,
+  events: OutboxEventInput | OutboxEventInput[],
+  options: EnqueueOptions = {}
+): Promise<void> {
+  const db = (isDbContext<DB>(executor) ? executor.db : executor) as unknown as Kysely<OutboxDatabase>
+  if (!db.isTransaction) {
+    throw new TransactionRequiredError(
+      'Outbox events must be enqueued inside a transaction. Use withTransaction() so events commit with the data.'
+    )
+  }
+
+  const list = Array.isArray(events) ? events : [events]
+  if (list.length === 0) {
+    return
+  }
+
+  const tableName = options.tableName ?? DEFAULT_OUTBOX_TABLE
+  const now = Date.now()
+
+  await db
+    .insertInto(tableName)
+    .values(list.map(event => toRow(event, now)))
+    .execute()
+}
+
+function toRow(event: OutboxEventInput, now: number): Omit<OutboxRow, 'id'> {
+  return {
+    event_type: event.type,
+    aggregate_type: event.aggregateType ?? null,
+    aggregate_id: event.aggregateId === undefined ? null : String(event.aggregateId),
+    payload: JSON.stringify(event.payload ?? null),
+    status: 'pending',
+    attempts: 0,
+    available_at: event.availableAt?.getTime() ?? now,
+    locked_until: null,
+    last_error: null,
+    created_at: now,
+    processed_at: null
+  }
+}
@@ -0,0 +1,123 @@
+import type { Plugin } from '@kysera/executor'
+import { isRepositoryLike } from '@kysera/executor'
+import type { Kysely } from 'kysely'
+import { silentLogger } from '@kysera/core'
+import type { KyseraLogger } from '@kysera/core'
+import { VERSION } from './version.js'
+import { enqueueEvent, type OutboxEventInput } from './enqueue.js'
+import { DEFAULT_OUTBOX_TABLE } from './table.js'
+
+export {
+  enqueueEvent,
+  type OutboxEventInput,
+  type EnqueueOptions
+} from './enqueue.js'
+export {
+  OutboxDispatcher,
+  type OutboxEvent,
+  type OutboxHandler,
+  type OutboxDispatcherOptions,
+  type OutboxBatchResult
+} from './dispatcher.js'
+export {
+  createOutboxTable,
+  DEFAULT_OUTBOX_TABLE,
+  type OutboxRow,
+  type OutboxEventStatus
+} from './table.js'
+
+/**
+ * Outbox methods added to repositories
+ */
+export interface OutboxMethods {
+  /**
+   * Add events to the outbox through the repository's executor.
+   * `aggregateType` defaults to the repository's table name.
+   *
+   * @throws {TransactionRequiredError} When the repository is not bound to a transaction
+   */
+  enqueueEvent(events: OutboxEventInput | OutboxEventInput[]): Promise<void>
+}
+
+/**
+ * Options for the outbox plugin
+ */
+export interface OutboxOptions {
+  /**
+   * Outbox table name
+   * @default 'outbox_events'
+   */
+  tableName?: string
+
+  /**
+   * Logger for plugin operations.
+   * Uses KyseraLogger interface from @kysera/core.
+   *
+   * @default silentLogger (no output)
+   */
+  logger?: KyseraLogger
+}
+
+/**
+ * Outbox Plugin
+ *
+ * Transactional outbox: events are written to an outbox table in the same
+ * transaction as the data they describe, and an {@link OutboxDispatcher}
+ * delivers them after the commit. An event is never lost because the process
+ * died between the commit and the publish; it may be delivered more than once.
+ *
+ * The plugin adds `enqueueEvent()` to repositories. DAL code calls the
+ * standalone {@link enqueueEvent} with its transaction context.
+ *
+ * @example
+ * ```typescript
+ * import { outboxPlugin } from '@kysera/outbox'
+ *
+ * await db.transaction().execute(async trx => {
+ *   // Repositories inside a transaction use the transaction executor
+ *   const orders = await withPlugins(createOrderRepository, trx, [outboxPlugin()])
+ *
+ *   const order = await orders.create(input)
+ *   await orders.enqueueEvent({ type: 'order.created', aggregateId: order.id, payload: order })
+ * })
+ * ```
+ */
+export const outboxPlugin = (options: OutboxOptions = {}): Plugin => {
+  const { tableName = DEFAULT_OUTBOX_TABLE, logger = silentLogger } = options
+
+  return {
+    name: '@kysera/outbox',
+    version: VERSION,
+    priority: 0,
+
+    /**
+     * Lifecycle: Cleanup resources when executor is destroyed
+     */
+    onDestroy() {
+      logger.debug('Outbox plugin destroyed')
+    },
+
+    extendRepository<T extends object>(repo: T): T {
+      if (!isRepositoryLike(repo)) {
+        return repo
+      }
+
+      const baseRepo = repo as T & { tableName: string; executor: Kysely<unknown> }
+      const { executor, tableName: aggregateType } = baseRepo
+
+      logger.debug(`Extending repository for table ${aggregateType} with outbox methods`)
+
+      const methods: OutboxMethods = {
+        async enqueueEvent(events: OutboxEventInput | OutboxEventInput[]): Promise<void> {
+          const list = (Array.isArray(events) ? events : [events]).map(event => ({
+            aggregateType,
+            ...event
+          }))
+          await enqueueEvent(executor, list, { tableName })
+        }
+      }
+
+      return { ...baseRepo, ...methods }
+    }
+  }
+}
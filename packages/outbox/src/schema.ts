@@ -0,0 +1,47 @@
+/**
+ * Zod schemas for outbox plugin configuration.
+ * This file is separate from the main index to allow the package to work without Zod installed.
+ * Only import this file if you need Zod validation (e.g., for CLI or configuration validation).
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod'
+
+/**
+ * Zod schema for OutboxOptions
+ * Used for validation and configuration in the kysera-cli
+ *
+ * @example
+ * ```typescript
+ * import { OutboxOptionsSchema } from '@kysera/outbox/schema'
+ *
+ * const result = OutboxOptionsSchema.safeParse({ tableName: 'domain_events' })
+ * ```
+ */
+export const OutboxOptionsSchema = z.object({
+  tableName: z.string().optional()
+})
+
+/**
+ * Type inferred from OutboxOptionsSchema
+ */
+export type OutboxOptionsSchemaType = z.infer<typeof OutboxOptionsSchema>
+
+/**
+ * Zod schema for the serializable OutboxDispatcherOptions (everything but the handler,
+ * circuit breaker instance and logger)
+ */
+export const OutboxDispatcherOptionsSchema = z.object({
+  tableName: z.string().optional(),
+  batchSize: z.number().int().positive().optional(),
+  pollIntervalMs: z.number().int().nonnegative().optional(),
+  leaseMs: z.number().int().positive().optional(),
+  maxAttempts: z.number().int().positive().optional(),
+  retryDelayMs: z.number().int().nonnegative().optional()
+})
+
+/**
+ * Type inferred from OutboxDispatcherOptionsSchema
+ */
+export type OutboxDispatcherOptionsSchemaType = z.infer<typeof OutboxDispatcherOptionsSchema>
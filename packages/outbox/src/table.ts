@@ -0,0 +1,94 @@
+import type { Generated, Kysely } from 'kysely'
+import { detectDialect } from '@kysera/core'
+
+/** Default outbox table name */
+export const DEFAULT_OUTBOX_TABLE = 'outbox_events'
+
+/**
+ * Delivery status of an outbox event
+ *
+ * - `pending`: waiting for delivery (or for its next retry at `available_at`)
+ * - `processing`: claimed by a dispatcher until `locked_until`
+ * - `delivered`: the handler succeeded
+ * - `failed`: the handler failed `maxAttempts` times; the event is no longer retried
+ */
+export type OutboxEventStatus = 'pending' | 'processing' | 'delivered' | 'failed'
+
+/**
+ * Row stored in the outbox table.
+ * Times are epoch milliseconds so that they compare the same way on every dialect.
+ * Some drivers return `bigint` columns as strings (e.g. PostgreSQL int8).
+ */
+export interface OutboxRow {
+  id: number | string
+  event_type: string
+  aggregate_type: string | null
+  aggregate_id: string | null
+  /** JSON-encoded payload */
+  payload: string
+  status: OutboxEventStatus
+  attempts: number
+  available_at: number | string
+  locked_until: number | string | null
+  last_error: string | null
+  created_at: number | string
+  processed_at: number | string | null
+}
+
+/**
+ * Database shape used internally for the outbox table, keyed by table name
+ * @internal
+ */
+export type OutboxDatabase = Record<string, Omit<OutboxRow, 'id'> & { id: Generated<number | string> }>
+
+/**
+ * Create the outbox table and its polling index.
+ * Does nothing if the table already exists. Call it from a migration.
+ *
+ * @example
+ * ```typescript
+ * import { createOutboxTable } from '@kysera/outbox'
+ *
+ * export async function up(db: Kysely<any>): Promise<void> {
+ *   await createOutboxTable(db)
+ * }
+ * ```
+ */
+export async function createOutboxTable<DB>(
+  db: Kysely<DB>,
+  tableName: string = DEFAULT_OUTBOX_TABLE
+): Promise<void> {
+  const dialect = detectDialect(db)
+
+  // MySQL has no CREATE INDEX IF NOT EXISTS, so check for the table instead
+  const tables = await db.introspection.getTables()
+  if (tables.some(table => table.name === tableName)) {
+    return
+  }
+
+  await db.schema
+    .createTable(tableName)
+    .addColumn('id', dialect === 'postgres' ? 'bigserial' : dialect === 'sqlite' ? 'integer' : 'bigint', col => {
+      if (dialect === 'mysql') return col.primaryKey().autoIncrement()
+      if (dialect === 'mssql') return col.primaryKey().identity()
+      return col.primaryKey()
+    })
+    .addColumn('event_type', 'varchar(255)', col => col.notNull())
+    .addColumn('aggregate_type', 'varchar(255)')
+    .addColumn('aggregate_id', 'varchar(255)')
+    .addColumn('payload', 'text', col => col.notNull())
+    .addColumn('status', 'varchar(20)', col => col.notNull().defaultTo('pending'))
+    .addColumn('attempts', 'integer', col => col.notNull().defaultTo(0))
+    .addColumn('available_at', 'bigint', col => col.notNull())
+    .addColumn('locked_until', 'bigint')
+    .addColumn('last_error', 'text')
+    .addColumn('created_at', 'bigint', col => col.notNull())
+    .addColumn('processed_at', 'bigint')
+    .execute()
+
+  await db.schema
+    .createIndex(`${tableName}_status_available_at_index`)
+    .on(tableName)
+    .columns(['status', 'available_at'])
+    .execute()
+}
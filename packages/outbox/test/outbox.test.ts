@@ -0,0 +1,357 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Kysely, SqliteDialect, type Generated } from 'kysely'
+import Database from 'better-sqlite3'
+import { createORM, createRepositoryFactory, type Plugin } from '@kysera/repository'
+import { withTransaction, TransactionRequiredError } from '@kysera/dal'
+import { CircuitBreaker } from '@kysera/infra'
+import {
+  OutboxDispatcher,
+  createOutboxTable,
+  enqueueEvent,
+  outboxPlugin,
+  type OutboxEvent,
+  type OutboxRow
+} from '../src/index.js'
+import { OutboxDispatcherOptionsSchema, OutboxOptionsSchema } from '../src/schema.js'
+
+interface TestDatabase {
+  orders: {
+    id: Generated<number>
+    total: number
+  }
+  outbox_events: OutboxRow
+}
+
+async function createTestRepository(db: Kysely<TestDatabase>, plugins: Plugin[]): Promise<any> {
+  const orm = await createORM<TestDatabase>(db, plugins)
+  return orm.createRepository(executor => {
+    const factory = createRepositoryFactory<TestDatabase>(executor)
+    return factory.create<'orders', any>({
+      tableName: 'orders',
+      mapRow: row => row,
+      schemas: {
+        create: { parse: (v: any) => v } as any,
+        update: { parse: (v: any) => v } as any
+      }
+    })
+  })
+}
+
+describe('Outbox', () => {
+  let db: Kysely<TestDatabase>
+
+  beforeEach(async () => {
+    db = new Kysely<TestDatabase>({
+      dialect: new SqliteDialect({ database: new Database(':memory:') })
+    })
+
+    await db.schema
+      .createTable('orders')
+      .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+      .addColumn('total', 'integer', col => col.notNull())
+      .execute()
+
+    await createOutboxTable(db)
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+  })
+
+  const getEvents = () => db.selectFrom('outbox_events').selectAll().orderBy('id').execute()
+
+  const enqueue = async (count: number): Promise<void> => {
+    await withTransaction(db, async ctx => {
+      await enqueueEvent(
+        ctx,
+        Array.from({ length: count }, (_, i) => ({ type: 'order.created', payload: { n: i + 1 } }))
+      )
+    })
+  }
+
+  describe('createOutboxTable', () => {
+    it('should do nothing when the table exists', async () => {
+      await expect(createOutboxTable(db)).resolves.toBeUndefined()
+    })
+  })
+
+  describe('enqueueEvent', () => {
+    it('should commit events with the transaction', async () => {
+      await withTransaction(db, async ctx => {
+        const order = await ctx.db
+          .insertInto('orders')
+          .values({ total: 100 })
+          .returningAll()
+          .executeTakeFirstOrThrow()
+        await enqueueEvent(ctx, {
+          type: 'order.created',
+          aggregateType: 'order',
+          aggregateId: order.id,
+          payload: { total: order.total }
+        })
+      })
+
+      const events = await getEvents()
+      expect(events).toHaveLength(1)
+      expect(events[0]).toMatchObject({
+        event_type: 'order.created',
+        aggregate_type: 'order',
+        aggregate_id: '1',
+        payload: '{"total":100}',
+        status: 'pending',
+        attempts: 0
+      })
+    })
+
+    it('should roll back events with the transaction', async () => {
+      await expect(
+        withTransaction(db, async ctx => {
+          await enqueueEvent(ctx, { type: 'order.created', payload: {} })
+          throw new Error('boom')
+        })
+      ).rejects.toThrow('boom')
+
+      expect(await getEvents()).toEqual([])
+    })
+
+    it('should accept a raw Kysely transaction', async () => {
+      await db.transaction().execute(async trx => {
+        await enqueueEvent(trx, { type: 'order.created', payload: {} })
+      })
+
+      expect(await getEvents()).toHaveLength(1)
+    })
+
+    it('should throw TransactionRequiredError outside a transaction', async () => {
+      await expect(enqueueEvent(db, { type: 'order.created', payload: {} })).rejects.toThrow(
+        TransactionRequiredError
+      )
+    })
+  })
+
+  describe('outboxPlugin', () => {
+    it('should add enqueueEvent to repositories with the table name as aggregate type', async () => {
+      await db.transaction().execute(async trx => {
+        const orders = await createTestRepository(trx, [outboxPlugin()])
+        const order = await orders.create({ total: 50 })
+        await orders.enqueueEvent({ type: 'order.created', aggregateId: order.id, payload: order })
+      })
+
+      const [event] = await getEvents()
+      expect(event).toMatchObject({ aggregate_type: 'orders', aggregate_id: '1' })
+    })
+  })
+
+  describe('OutboxDispatcher', () => {
+    it('should deliver pending events in order and mark them delivered', async () => {
+      await enqueue(3)
+      const delivered: OutboxEvent[] = []
+      const dispatcher = new OutboxDispatcher(db, {
+        handler: async event => {
+          delivered.push(event)
+        }
+      })
+
+      const result = await dispatcher.dispatchBatch()
+
+      expect(result).toEqual({ claimed: 3, delivered: 3, failed: 0, released: 0, skipped: 0 })
+      expect(delivered.map(e => e.payload)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }])
+      expect(delivered[0]).toMatchObject({ type: 'order.created', attempts: 0 })
+      expect((await getEvents()).map(e => e.status)).toEqual(['delivered', 'delivered', 'delivered'])
+
+      expect((await dispatcher.dispatchBatch()).claimed).toBe(0)
+    })
+
+    it('should claim at most batchSize events', async () => {
+      await enqueue(3)
+      const dispatcher = new OutboxDispatcher(db, { handler: async () => {}, batchSize: 2 })
+
+      expect((await dispatcher.dispatchBatch()).delivered).toBe(2)
+      expect((await dispatcher.dispatchBatch()).delivered).toBe(1)
+    })
+
+    it('should retry the handler before counting a failed attempt', async () => {
+      await enqueue(1)
+      const handler = vi
+        .fn<(event: OutboxEvent) => Promise<void>>()
+        .mockRejectedValueOnce(new Error('broker unavailable'))
+        .mockResolvedValueOnce(undefined)
+      const dispatcher = new OutboxDispatcher(db, { handler, retry: { delayMs: 1, maxDelayMs: 1 } })
+
+      const result = await dispatcher.dispatchBatch()
+
+      expect(result.delivered).toBe(1)
+      expect(handler).toHaveBeenCalledTimes(2)
+    })
+
+    it('should reschedule failed events with backoff', async () => {
+      await enqueue(1)
+      const dispatcher = new OutboxDispatcher(db, {
+        handler: () => Promise.reject(new Error('broker unavailable')),
+        retry: { maxAttempts: 1 },
+        retryDelayMs: 60000
+      })
+
+      const before = Date.now()
+      const result = await dispatcher.dispatchBatch()
+
+      expect(result).toMatchObject({ delivered: 0, failed: 1 })
+      const [event] = await getEvents()
+      expect(event).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        last_error: 'broker unavailable',
+        locked_until: null
+      })
+      expect(Number(event!.available_at)).toBeGreaterThanOrEqual(before + 60000)
+
+      // Not due yet
+      expect((await dispatcher.dispatchBatch()).claimed).toBe(0)
+    })
+
+    it('should mark events failed after maxAttempts', async () => {
+      await enqueue(1)
+      const dispatcher = new OutboxDispatcher(db, {
+        handler: () => Promise.reject(new Error('invalid payload')),
+        retry: { maxAttempts: 1 },
+        maxAttempts: 2,
+        retryDelayMs: 0
+      })
+
+      await dispatcher.dispatchBatch()
+      await dispatcher.dispatchBatch()
+
+      const [event] = await getEvents()
+      expect(event).toMatchObject({ status: 'failed', attempts: 2, last_error: 'invalid payload' })
+      expect((await dispatcher.dispatchBatch()).claimed).toBe(0)
+    })
+
+    it('should release the rest of the batch when the circuit breaker opens', async () => {
+      await enqueue(3)
+      const dispatcher = new OutboxDispatcher(db, {
+        handler: () => Promise.reject(new Error('broker unavailable')),
+        retry: { maxAttempts: 1 },
+        circuitBreaker: new CircuitBreaker({ threshold: 1, resetTimeMs: 60000 })
+      })
+
+      const result = await dispatcher.dispatchBatch()
+
+      expect(result).toEqual({ claimed: 3, delivered: 0, failed: 1, released: 2, skipped: 0 })
+      const events = await getEvents()
+      expect(events.map(e => [e.status, e.attempts])).toEqual([
+        ['pending', 1],
+        ['pending', 0],
+        ['pending', 0]
+      ])
+    })
+
+    it('should reclaim events whose lease expired', async () => {
+      await enqueue(1)
+      await db
+        .updateTable('outbox_events')
+        .set({ status: 'processing', locked_until: Date.now() - 1 })
+        .execute()
+      const handler = vi.fn(async () => {})
+      const dispatcher = new OutboxDispatcher(db, { handler })
+
+      expect((await dispatcher.dispatchBatch()).delivered).toBe(1)
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('should extend the lease per event and skip events claimed by another dispatcher', async () => {
+      await enqueue(4)
+      const start = Date.now()
+      let elapsed = 0
+      vi.spyOn(Date, 'now').mockImplementation(() => start + elapsed)
+
+      const delivered: number[] = []
+      const other = new OutboxDispatcher(db, {
+        handler: async event => {
+          delivered.push(event.id)
+        }
+      })
+      let otherClaimed = 0
+      const dispatcher = new OutboxDispatcher(db, {
+        leaseMs: 100,
+        handler: async event => {
+          delivered.push(event.id)
+          elapsed += 40
+          if (event.id === 3) {
+            // Past the lease of the claim: only event 4 is still waiting on it
+            otherClaimed = (await other.dispatchBatch()).claimed
+          }
+        }
+      })
+
+      try {
+        const result = await dispatcher.dispatchBatch()
+        expect(result).toEqual({ claimed: 4, delivered: 3, failed: 0, released: 0, skipped: 1 })
+      } finally {
+        vi.mocked(Date.now).mockRestore()
+      }
+      expect(otherClaimed).toBe(1)
+      expect(delivered).toEqual([1, 2, 3, 4])
+      const events = await getEvents()
+      expect(events.every(e => e.status === 'delivered')).toBe(true)
+    })
+
+    it('should not deliver an event twice with concurrent dispatchers', async () => {
+      await enqueue(10)
+      const delivered: number[] = []
+      const handler = async (event: OutboxEvent): Promise<void> => {
+        delivered.push(event.id)
+      }
+
+      await Promise.all([
+        new OutboxDispatcher(db, { handler, batchSize: 4 }).dispatchBatch(),
+        new OutboxDispatcher(db, { handler, batchSize: 4 }).dispatchBatch(),
+        new OutboxDispatcher(db, { handler, batchSize: 4 }).dispatchBatch()
+      ])
+
+      expect(delivered.sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+    })
+
+    it('should poll until stopped', async () => {
+      const delivered: number[] = []
+      const dispatcher = new OutboxDispatcher(db, {
+        handler: async event => {
+          delivered.push(event.id)
+        },
+        pollIntervalMs: 10
+      })
+
+      dispatcher.start()
+      expect(dispatcher.isRunning()).toBe(true)
+      await enqueue(2)
+      await vi.waitFor(() => {
+        expect(delivered).toEqual([1, 2])
+      })
+
+      await dispatcher.stop()
+      expect(dispatcher.isRunning()).toBe(false)
+    })
+
+    it('should stop before closing the database on shutdown', async () => {
+      const dispatcher = new OutboxDispatcher(db, { handler: async () => {}, pollIntervalMs: 10 })
+      const onShutdown = vi.fn(() => {
+        expect(dispatcher.isRunning()).toBe(false)
+      })
+      const destroy = vi.spyOn(db, 'destroy')
+
+      dispatcher.start()
+      const shutdown = dispatcher.createShutdownController({ onShutdown })
+      await shutdown.execute()
+
+      expect(shutdown.isShuttingDown()).toBe(true)
+      expect(onShutdown).toHaveBeenCalledTimes(1)
+      expect(destroy).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('schemas', () => {
+    it('should validate plugin and dispatcher options', () => {
+      expect(OutboxOptionsSchema.safeParse({ tableName: 'domain_events' }).success).toBe(true)
+      expect(OutboxDispatcherOptionsSchema.safeParse({ batchSize: 0 }).success).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,22 @@
+import { defineConfig } from 'tsup'
+import { readFileSync } from 'node:fs'
+
+const pkg = JSON.parse(readFileSync('./package.json', 'utf-8'))
+
+export default defineConfig({
+  entry: ['src/index.ts', 'src/schema.ts'],
+  format: ['esm'],
+  dts: true,
+  splitting: false,
+  sourcemap: true,
+  clean: true,
+  minify: true,
+  treeshake: true,
+  external: ['kysely', 'zod', '@kysera/dal', '@kysera/executor', '@kysera/infra'],
+  target: 'esnext',
+  platform: 'neutral',
+  tsconfig: './tsconfig.build.json',
+  define: {
+    __VERSION__: JSON.stringify(pkg.version)
+  }
+})
@@ -13,15 +13,43 @@ import { NotFoundError, getEnv, type KyseraLogger, silentLogger } from '@kysera/
 import type { ValidationSchema } from './validation-adapter.js'
 import { extractPrimaryKey } from './primary-key-utils.js'
 import { withTransaction } from '@kysera/dal'
-import type { FindOptions, WhereClause } from './operators.js'
+import type { FindOptions, StreamFindOptions, WhereClause } from './operators.js'
+import {
+  loadRelations,
+  relationKeyColumns,
+  type IncludeOptions,
+  type NoRelations,
+  type RelationMap,
+  type RelationName,
+  type WithRelations
+} from './relations.js'
+
+/**
+ * Row shape returned by find()/findOne() for a column selection
+ */
+type Selected<Entity, Cols extends keyof Entity> = [Cols] extends [keyof Entity]
+  ? Pick<Entity, Cols>
+  : Entity
 
 /**
  * Core repository interface
  * Designed to work with any entity type and database schema
  * Supports custom primary keys (single, composite, UUID)
+ * and declared relations (eager-loaded through `include`)
  */
-export interface BaseRepository<DB, Entity, PK = number> {
-  findById(id: PK): Promise<Entity | null>
+export interface BaseRepository<DB, Entity, PK = number, R = NoRelations> {
+  /**
+   * Find an entity by primary key.
+   *
+   * @example
+   * ```typescript
+   * const user = await repo.findById(1, { include: ['posts'] })
+   * ```
+   */
+  findById<I extends RelationName<R> = never>(
+    id: PK,
+    options?: IncludeOptions<I>
+  ): Promise<WithRelations<Entity, R, I> | null>
   findAll(): Promise<Entity[]>
   create(input: unknown): Promise<Entity>
   update(id: PK, input: unknown): Promise<Entity>
@@ -64,19 +92,25 @@ export interface BaseRepository<DB, Entity, PK = number> {
    *   where: { active: true },
    *   select: ['id', 'name', 'email']
    * })
+   *
+   * // With eager-loaded relations (one batched query per relation)
+   * await repo.find({
+   *   where: { active: true },
+   *   include: ['posts', 'profile']
+   * })
    * ```
    */
-  find<Cols extends keyof Entity = keyof Entity>(
-    options?: FindOptions<Entity, Cols>
-  ): Promise<[Cols] extends [keyof Entity] ? Pick<Entity, Cols>[] : Entity[]>
+  find<Cols extends keyof Entity = keyof Entity, I extends RelationName<R> = never>(
+    options?: FindOptions<Entity, Cols, I>
+  ): Promise<WithRelations<Selected<Entity, Cols>, R, I>[]>
 
   /**
    * Find a single entity matching the given options.
    * Returns null if no entity matches.
    */
-  findOne<Cols extends keyof Entity = keyof Entity>(
-    options?: FindOptions<Entity, Cols>
-  ): Promise<([Cols] extends [keyof Entity] ? Pick<Entity, Cols> : Entity) | null>
+  findOne<Cols extends keyof Entity = keyof Entity, I extends RelationName<R> = never>(
+    options?: FindOptions<Entity, Cols, I>
+  ): Promise<WithRelations<Selected<Entity, Cols>, R, I> | null>
 
   /**
    * Count entities matching the given where clause.
@@ -105,20 +139,25 @@ export interface BaseRepository<DB, Entity, PK = number> {
    * console.log(`Showing ${items.length} of ${total} results`)
    * ```
    */
-  findAndCount<Cols extends keyof Entity = keyof Entity>(
-    options?: FindOptions<Entity, Cols>
+  findAndCount<Cols extends keyof Entity = keyof Entity, I extends RelationName<R> = never>(
+    options?: FindOptions<Entity, Cols, I>
   ): Promise<{
-    items: [Cols] extends [keyof Entity] ? Pick<Entity, Cols>[] : Entity[]
+    items: WithRelations<Selected<Entity, Cols>, R, I>[]
     total: number
   }>
 
-  transaction<R>(fn: (trx: Transaction<DB>) => Promise<R>): Promise<R>
-  paginate(options: {
+  transaction<T>(fn: (trx: Transaction<DB>) => Promise<T>): Promise<T>
+  paginate<I extends RelationName<R> = never>(options: {
     limit: number
     offset?: number
     orderBy?: string
     orderDirection?: 'asc' | 'desc'
-  }): Promise<{ items: Entity[]; total: number; limit: number; offset: number }>
+  } & IncludeOptions<I>): Promise<{
+    items: WithRelations<Entity, R, I>[]
+    total: number
+    limit: number
+    offset: number
+  }>
   paginateCursor<K extends keyof Entity>(options: {
     limit: number
     cursor?: {
@@ -132,12 +171,27 @@ export interface BaseRepository<DB, Entity, PK = number> {
     nextCursor: { value: Entity[K]; id: PK } | null
     hasMore: boolean
   }>
+
+  /**
+   * Stream entities in keyset-paginated batches, for exports and backfills too large
+   * to load at once. Batches are ordered by `orderBy` (if given), then the primary key,
+   * and each is fetched when the consumer asks for it. `orderBy` must be a NOT NULL
+   * column: a NULL value in it throws BadRequestError (unless `native` is set).
+   *
+   * @example
+   * ```typescript
+   * for await (const users of repo.stream({ where: { status: 'active' }, batchSize: 500 })) {
+   *   await exportUsers(users)
+   * }
+   * ```
+   */
+  stream(options?: StreamFindOptions<Entity>): AsyncIterable<Entity[]>
 }
 
 /**
  * Configuration for creating a repository
  */
-export interface RepositoryConfig<Table, Entity> {
+export interface RepositoryConfig<Table, Entity, R extends RelationMap = NoRelations> {
   tableName: string
   /**
    * PostgreSQL schema for this repository.
@@ -204,6 +258,21 @@ export interface RepositoryConfig<Table, Entity> {
    * @default silentLogger
    */
   logger?: KyseraLogger
+  /**
+   * Relations available for eager loading via the `include` option.
+   *
+   * @example
+   * ```typescript
+   * relations: {
+   *   author: belongsTo<User>('users', { foreignKey: 'user_id' }),
+   *   comments: hasMany<Comment>('comments', { foreignKey: 'post_id' }),
+   *   tags: manyToMany<Tag>('tags', {
+   *     through: { table: 'post_tags', sourceKey: 'post_id', targetKey: 'tag_id' }
+   *   })
+   * }
+   * ```
+   */
+  relations?: R
 }
 
 /**
@@ -238,6 +307,12 @@ export interface TableOperations<Table> {
     orderDirection: 'asc' | 'desc'
   }): Promise<Selectable<Table>[]>
 
+  /**
+   * Select in keyset-paginated batches.
+   * @internal Used by BaseRepository.stream()
+   */
+  selectStream(options: StreamFindOptions<Selectable<Table>>): AsyncIterable<Selectable<Table>[]>
+
   /**
    * Select with advanced query options (operators, sorting, column selection).
    * @internal Used by BaseRepository.find()
@@ -277,11 +352,17 @@ function extractPrimaryKeyFromEntity<Entity, PK>(entity: Entity, pkConfig: Prima
  * This function creates a repository with full CRUD operations
  */
 // eslint-disable-next-line max-lines-per-function
-export function createBaseRepository<DB, Table, Entity, PK = number>(
+export function createBaseRepository<
+  DB,
+  Table,
+  Entity,
+  PK = number,
+  R extends RelationMap = NoRelations
+>(
   operations: TableOperations<Table>,
-  config: RepositoryConfig<Table, Entity>,
+  config: RepositoryConfig<Table, Entity, R>,
   db: Executor<DB>
-): BaseRepository<DB, Entity, PK> {
+): BaseRepository<DB, Entity, PK, R> {
   const {
     mapRow,
     schemas,
@@ -289,7 +370,8 @@ export function createBaseRepository<DB, Table, Entity, PK = number>(
     primaryKeyType,
     validateDbResults = getEnv('NODE_ENV') === 'development',
     validationStrategy = 'strict',
-    logger = silentLogger
+    logger = silentLogger,
+    relations = {}
   } = config
 
   const pkConfig = normalizePrimaryKeyConfig(primaryKey, primaryKeyType)
@@ -309,6 +391,51 @@ export function createBaseRepository<DB, Table, Entity, PK = number>(
       : entities
   }
 
+  // Relation queries share the repository executor (and schema) so plugins apply
+  const relationDb = config.schema ? db.withSchema(config.schema) : db
+
+  // Helper to attach included relations to already-mapped entities
+  const attachRelations = async <T>(
+    rows: Selectable<Table>[],
+    entities: T[],
+    include?: readonly string[]
+  ): Promise<T[]> => {
+    if (!include || include.length === 0 || entities.length === 0) return entities
+    const loaded = await loadRelations(
+      relationDb,
+      rows as unknown as Record<string, unknown>[],
+      relations as RelationMap,
+      include
+    )
+    return entities.map((entity, index) => ({ ...entity, ...loaded[index] }))
+  }
+
+  // Helper to add the key columns included relations need to a column selection.
+  // Returns the columns added, which are left out of the mapped entities.
+  const selectRelationKeys = <T extends { select?: unknown[] }>(
+    options: T,
+    include?: readonly string[]
+  ): { options: T; added: string[] } => {
+    if (!options.select || !include || include.length === 0) return { options, added: [] }
+    const selected = options.select.map(String)
+    const added = relationKeyColumns(relations as RelationMap, include).filter(
+      column => !selected.includes(column)
+    )
+    if (added.length === 0) return { options, added }
+    return { options: { ...options, select: [...options.select, ...added] }, added }
+  }
+
+  // Helper to drop columns only selected for relation loading
+  const withoutColumns = (rows: Selectable<Table>[], columns: string[]): Selectable<Table>[] => {
+    if (columns.length === 0) return rows
+    return rows.map(
+      row =>
+        Object.fromEntries(
+          Object.entries(row as Record<string, unknown>).filter(([column]) => !columns.includes(column))
+        ) as Selectable<Table>
+    )
+  }
+
   // Helper to validate input
   const validateInput = (input: unknown, schema: ValidationSchema): unknown => {
     return validationStrategy === 'none' ? input : schema.parse(input)
@@ -364,9 +491,14 @@ export function createBaseRepository<DB, Table, Entity, PK = number>(
   }
 
   return {
-    async findById(id: PK): Promise<Entity | null> {
+    async findById<I extends RelationName<R> = never>(
+      id: PK,
+      options?: IncludeOptions<I>
+    ): Promise<WithRelations<Entity, R, I> | null> {
       const row = await operations.selectById(toPrimaryKeyInput(id))
-      return row ? processRow(row) : null
+      if (!row) return null
+      const [entity] = await attachRelations([row], [processRow(row)], options?.include)
+      return entity as WithRelations<Entity, R, I>
     },
 
     async findAll(): Promise<Entity[]> {
@@ -444,46 +576,59 @@ export function createBaseRepository<DB, Table, Entity, PK = number>(
       return deleted
     },
 
-    async find<Cols extends keyof Entity = keyof Entity>(
-      options?: FindOptions<Entity, Cols>
-    ): Promise<[Cols] extends [keyof Entity] ? Pick<Entity, Cols>[] : Entity[]> {
-      if (needsAdvancedQuery(options)) {
+    async find<Cols extends keyof Entity = keyof Entity, I extends RelationName<R> = never>(
+      options?: FindOptions<Entity, Cols, I>
+    ): Promise<WithRelations<Selected<Entity, Cols>, R, I>[]> {
+      const { include, ...requested } = options ?? {}
+      const { options: findOptions, added } = selectRelationKeys(requested, include)
+      let rows: Selectable<Table>[]
+
+      if (needsAdvancedQuery(findOptions)) {
         // Use the new selectWithOptions method
         // Type assertion through unknown is safe here because:
         // 1. Entity and Selectable<Table> have the same runtime structure
         // 2. FindOptions only affects the query building, not the actual data
-        const rows = await operations.selectWithOptions(
-          options as unknown as FindOptions<Selectable<Table>, string & keyof Selectable<Table>>
+        rows = await operations.selectWithOptions(
+          findOptions as unknown as FindOptions<Selectable<Table>, string & keyof Selectable<Table>>
         )
-        return processRows(rows) as [Cols] extends [keyof Entity] ? Pick<Entity, Cols>[] : Entity[]
+      } else {
+        // Backwards compatible path for simple equality conditions
+        rows = findOptions.where
+          ? await operations.selectWhere(findOptions.where as Record<string, unknown>)
+          : await operations.selectAll()
       }
 
-      // Backwards compatible path for simple equality conditions
-      const rows = options?.where
-        ? await operations.selectWhere(options.where as Record<string, unknown>)
-        : await operations.selectAll()
-      return processRows(rows) as [Cols] extends [keyof Entity] ? Pick<Entity, Cols>[] : Entity[]
+      const entities = await attachRelations(rows, processRows(withoutColumns(rows, added)), include)
+      return entities as WithRelations<Selected<Entity, Cols>, R, I>[]
     },
 
-    async findOne<Cols extends keyof Entity = keyof Entity>(
-      options?: FindOptions<Entity, Cols>
-    ): Promise<([Cols] extends [keyof Entity] ? Pick<Entity, Cols> : Entity) | null> {
-      if (needsAdvancedQuery(options)) {
+    async findOne<Cols extends keyof Entity = keyof Entity, I extends RelationName<R> = never>(
+      options?: FindOptions<Entity, Cols, I>
+    ): Promise<WithRelations<Selected<Entity, Cols>, R, I> | null> {
+      const { include, ...requested } = options ?? {}
+      const { options: findOptions, added } = selectRelationKeys(requested, include)
+      let row: Selectable<Table> | undefined
+
+      if (needsAdvancedQuery(findOptions)) {
         // Use the new selectOneWithOptions method
-        const row = await operations.selectOneWithOptions(
-          options as unknown as FindOptions<Selectable<Table>, string & keyof Selectable<Table>>
+        row = await operations.selectOneWithOptions(
+          findOptions as unknown as FindOptions<Selectable<Table>, string & keyof Selectable<Table>>
         )
-        return row ? processRow(row) as ([Cols] extends [keyof Entity] ? Pick<Entity, Cols> : Entity) : null
-      }
-
-      // Backwards compatible path
-      if (!options?.where) {
+      } else if (!findOptions.where) {
+        // Backwards compatible path
         const rows = await operations.selectAll()
-        return rows[0] ? processRow(rows[0]) as ([Cols] extends [keyof Entity] ? Pick<Entity, Cols> : Entity) : null
+        row = rows[0]
+      } else {
+        row = await operations.selectOneWhere(findOptions.where as Record<string, unknown>)
       }
 
-      const row = await operations.selectOneWhere(options.where as Record<string, unknown>)
-      return row ? processRow(row) as ([Cols] extends [keyof Entity] ? Pick<Entity, Cols> : Entity) : null
+      if (!row) return null
+      const [entity] = await attachRelations(
+        [row],
+        processRows(withoutColumns([row], added)),
+        include
+      )
+      return entity as WithRelations<Selected<Entity, Cols>, R, I>
     },
 
     async count(options?: { where?: WhereClause<Entity> | Record<string, unknown> }): Promise<number> {
@@ -498,10 +643,10 @@ export function createBaseRepository<DB, Table, Entity, PK = number>(
       return countResult > 0
     },
 
-    async findAndCount<Cols extends keyof Entity = keyof Entity>(
-      options?: FindOptions<Entity, Cols>
+    async findAndCount<Cols extends keyof Entity = keyof Entity, I extends RelationName<R> = never>(
+      options?: FindOptions<Entity, Cols, I>
     ): Promise<{
-      items: [Cols] extends [keyof Entity] ? Pick<Entity, Cols>[] : Entity[]
+      items: WithRelations<Selected<Entity, Cols>, R, I>[]
       total: number
     }> {
       // Run both queries in parallel for efficiency
@@ -511,13 +656,10 @@ export function createBaseRepository<DB, Table, Entity, PK = number>(
         this.count(whereClause ? { where: whereClause } : undefined)
       ])
 
-      return {
-        items: items as [Cols] extends [keyof Entity] ? Pick<Entity, Cols>[] : Entity[],
-        total
-      }
+      return { items, total }
     },
 
-    async transaction<R>(fn: (trx: Transaction<DB>) => Promise<R>): Promise<R> {
+    async transaction<T>(fn: (trx: Transaction<DB>) => Promise<T>): Promise<T> {
       // Delegate to DAL's withTransaction for:
       // 1. Savepoint support (nested transactions)
       // 2. Plugin propagation (soft-delete, RLS, etc.)
@@ -528,13 +670,24 @@ export function createBaseRepository<DB, Table, Entity, PK = number>(
       })
     },
 
-    async paginate(options: {
+    async paginate<I extends RelationName<R> = never>(options: {
       limit: number
       offset?: number
       orderBy?: string
       orderDirection?: 'asc' | 'desc'
-    }): Promise<{ items: Entity[]; total: number; limit: number; offset: number }> {
-      const { limit, offset = 0, orderBy = defaultOrderColumn, orderDirection = 'asc' } = options
+    } & IncludeOptions<I>): Promise<{
+      items: WithRelations<Entity, R, I>[]
+      total: number
+      limit: number
+      offset: number
+    }> {
+      const {
+        limit,
+        offset = 0,
+        orderBy = defaultOrderColumn,
+        orderDirection = 'asc',
+        include
+      } = options
 
       const total = await operations.count()
       const rows = await operations.paginate({
@@ -544,10 +697,10 @@ export function createBaseRepository<DB, Table, Entity, PK = number>(
         orderDirection
       })
 
-      const items = processRows(rows)
+      const items = await attachRelations(rows, processRows(rows), include)
 
       return {
-        items,
+        items: items as WithRelations<Entity, R, I>[],
         total,
         limit,
         offset
@@ -602,6 +755,13 @@ export function createBaseRepository<DB, Table, Entity, PK = number>(
         nextCursor,
         hasMore
       }
+    },
+
+    async *stream(options: StreamFindOptions<Entity> = {}): AsyncGenerator<Entity[], void, undefined> {
+      const batches = operations.selectStream(options as StreamFindOptions<Selectable<Table>>)
+      for await (const rows of batches) {
+        yield processRows(rows)
+      }
     }
   }
 }
@@ -12,6 +12,8 @@ export * from './context-aware.js'
 export * from './primary-key-utils.js'
 export * from './column-validation.js'
 export * from './operators.js'
+export * from './relations.js'
+export * from './loader.js'
 
 // Re-export core types from @kysera/executor for convenience
 export type { Plugin, QueryBuilderContext } from '@kysera/executor'
@@ -0,0 +1,290 @@
+/**
+ * Request-scoped batching of primary key lookups.
+ *
+ * @module @kysera/repository
+ */
+
+import { getPlugins, isKyseraExecutor } from '@kysera/executor'
+import type { Executor } from './helpers.js'
+import type { PrimaryKeyConfig, PrimaryKeyInput } from './types.js'
+import { getPrimaryKeyColumns, normalizePrimaryKeyInput } from './types.js'
+import { extractPrimaryKey } from './primary-key-utils.js'
+
+/**
+ * Options for a request loader
+ */
+export interface RequestLoaderOptions {
+  /**
+   * Additional context lookups depend on, for context no executor plugin reports
+   * (e.g. native PostgreSQL RLS through `createRLSContextDialect()`). Lookups are only
+   * batched and cached together when the values are identical (`Object.is`).
+   *
+   * @example
+   * ```typescript
+   * createRequestLoader({ scope: () => rlsContext.getContextOrNull() })
+   * ```
+   */
+  scope?: () => unknown
+
+  /**
+   * Maximum number of keys per query; larger batches are split
+   * @default 1000
+   */
+  maxBatchSize?: number
+
+  /**
+   * Keep loaded rows for the lifetime of the loader
+   * @default true
+   */
+  cache?: boolean
+}
+
+/**
+ * Table a loader looks up rows in
+ * @internal Created by createTableOperations()
+ */
+export interface LoaderSource<Row> {
+  executor: Executor<any>
+  table: string
+  schema?: string
+  pkConfig: PrimaryKeyConfig
+  /** Fetch the rows with the given keys, in any order */
+  fetch(keys: PrimaryKeyInput[]): Promise<Row[]>
+}
+
+/**
+ * Request-scoped loader merging primary key lookups into batched queries.
+ *
+ * Create one per request (e.g. per GraphQL operation) and pass it to
+ * `repository.withLoader()`. Rows are cached until the loader is discarded,
+ * writes made through a repository using the loader clear its table.
+ */
+export interface RequestLoader {
+  /**
+   * Look up a row by primary key. Lookups of the same table made in the same
+   * tick are merged into one `WHERE pk IN (...)` query.
+   */
+  load<Row>(source: LoaderSource<Row>, key: PrimaryKeyInput): Promise<Row | undefined>
+
+  /**
+   * Look up rows by primary key, in the order of `keys`, without duplicates.
+   * Keys without a row are left out.
+   */
+  loadMany<Row>(source: LoaderSource<Row>, keys: PrimaryKeyInput[]): Promise<Row[]>
+
+  /**
+   * Drop cached rows of a table (all schemas), or of every table.
+   * Needed after writes the loader doesn't see, such as raw SQL.
+   */
+  clear(table?: string): void
+}
+
+/**
+ * Lookup waiting for its batch
+ */
+interface PendingLookup {
+  key: PrimaryKeyInput
+  promise: Promise<unknown>
+  resolve(row: unknown): void
+  reject(error: unknown): void
+}
+
+/**
+ * Lookups of a table made in one context
+ */
+interface Partition {
+  scope: readonly unknown[]
+  cache: Map<string, Promise<unknown>>
+  queue: Map<string, PendingLookup>
+}
+
+/**
+ * Lookups of a table through one executor
+ */
+interface TableState {
+  table: string
+  partitions: Partition[]
+}
+
+const DEFAULT_MAX_BATCH_SIZE = 1000
+
+/**
+ * Run `dispatch` once the promise jobs queued in the current tick have run,
+ * so lookups made by resolvers awaiting the same promise share a batch
+ */
+function scheduleDispatch(dispatch: () => void): void {
+  void Promise.resolve().then(() => {
+    // Node.js / Bun / Deno
+    const runtime = (globalThis as { process?: { nextTick?(fn: () => void): void } }).process
+    if (runtime?.nextTick) {
+      runtime.nextTick(dispatch)
+    } else {
+      setTimeout(dispatch, 0)
+    }
+  })
+}
+
+/**
+ * String identifying a primary key value. Values are compared as strings, so
+ * `'42'` (e.g. a GraphQL ID) finds the row with `id = 42`.
+ */
+function keyString(pkConfig: PrimaryKeyConfig, key: PrimaryKeyInput): string {
+  const record = normalizePrimaryKeyInput(pkConfig.columns, key)
+  return JSON.stringify(
+    getPrimaryKeyColumns(pkConfig.columns).map(column => String(record[column]))
+  )
+}
+
+function sameScope(a: readonly unknown[], b: readonly unknown[]): boolean {
+  return a.length === b.length && a.every((value, index) => Object.is(value, b[index]))
+}
+
+/**
+ * Create a request-scoped loader.
+ *
+ * Lookups are batched and cached per executor, table and context: the context
+ * keys of the executor's plugins (the active RLS context with `rlsPlugin`) and
+ * the `scope` option. Batched queries are built in the context of the first
+ * lookup of their batch, through the executor, so plugins apply as they would
+ * to a single lookup.
+ *
+ * @example
+ * ```typescript
+ * const loader = createRequestLoader()
+ * const users = userRepo.withLoader(loader)
+ *
+ * // One query: SELECT * FROM users WHERE id IN (1, 2)
+ * const [alice, bob, again] = await Promise.all([
+ *   users.findById(1),
+ *   users.findById(2),
+ *   users.findById(1)
+ * ])
+ * ```
+ */
+export function createRequestLoader(options: RequestLoaderOptions = {}): RequestLoader {
+  const { scope, maxBatchSize = DEFAULT_MAX_BATCH_SIZE, cache = true } = options
+
+  if (!Number.isInteger(maxBatchSize) || maxBatchSize < 1) {
+    throw new Error(`maxBatchSize must be a positive integer, got ${String(maxBatchSize)}`)
+  }
+
+  // The loader lives for one request, so executors are held strongly
+  const states = new Map<object, Map<string, TableState>>()
+
+  const currentScope = (executor: Executor<any>): unknown[] => {
+    const keys: unknown[] = []
+    for (const plugin of isKyseraExecutor(executor) ? getPlugins(executor) : []) {
+      if (plugin.contextKey) keys.push(plugin.contextKey())
+    }
+    if (scope) keys.push(scope())
+    return keys
+  }
+
+  const partitionOf = <Row>(source: LoaderSource<Row>): Partition => {
+    let tables = states.get(source.executor)
+    if (!tables) {
+      tables = new Map()
+      states.set(source.executor, tables)
+    }
+    const id = source.schema ? `${source.schema}.${source.table}` : source.table
+    let state = tables.get(id)
+    if (!state) {
+      state = { table: source.table, partitions: [] }
+      tables.set(id, state)
+    }
+
+    const scopeValues = currentScope(source.executor)
+    let partition = state.partitions.find(candidate => sameScope(candidate.scope, scopeValues))
+    if (!partition) {
+      partition = { scope: scopeValues, cache: new Map(), queue: new Map() }
+      state.partitions.push(partition)
+    }
+    return partition
+  }
+
+  const fetchBatch = async <Row>(
+    source: LoaderSource<Row>,
+    partition: Partition,
+    batch: [string, PendingLookup][]
+  ): Promise<void> => {
+    try {
+      const rows = await source.fetch(batch.map(([, pending]) => pending.key))
+      const byKey = new Map<string, Row>()
+      for (const row of rows) {
+        byKey.set(keyString(source.pkConfig, extractPrimaryKey(row, source.pkConfig)), row)
+      }
+      for (const [key, pending] of batch) {
+        pending.resolve(byKey.get(key))
+      }
+    } catch (error) {
+      for (const [key, pending] of batch) {
+        // Failed lookups are retried by the next load
+        if (partition.cache.get(key) === pending.promise) {
+          partition.cache.delete(key)
+        }
+        pending.reject(error)
+      }
+    }
+  }
+
+  const dispatch = <Row>(source: LoaderSource<Row>, partition: Partition): void => {
+    const lookups = [...partition.queue]
+    partition.queue = new Map()
+    for (let start = 0; start < lookups.length; start += maxBatchSize) {
+      void fetchBatch(source, partition, lookups.slice(start, start + maxBatchSize))
+    }
+  }
+
+  const load = <Row>(source: LoaderSource<Row>, key: PrimaryKeyInput): Promise<Row | undefined> => {
+    const partition = partitionOf(source)
+    const id = keyString(source.pkConfig, key)
+
+    const cached = partition.cache.get(id) ?? partition.queue.get(id)?.promise
+    if (cached) {
+      return cached as Promise<Row | undefined>
+    }
+
+    if (partition.queue.size === 0) {
+      scheduleDispatch(() => {
+        dispatch(source, partition)
+      })
+    }
+
+    let resolve!: (row: unknown) => void
+    let reject!: (error: unknown) => void
+    const promise = new Promise<unknown>((res, rej) => {
+      resolve = res
+      reject = rej
+    })
+    partition.queue.set(id, { key, promise, resolve, reject })
+    if (cache) {
+      partition.cache.set(id, promise)
+    }
+    return promise as Promise<Row | undefined>
+  }
+
+  return {
+    load,
+
+    async loadMany<Row>(source: LoaderSource<Row>, keys: PrimaryKeyInput[]): Promise<Row[]> {
+      const unique = new Map<string, PrimaryKeyInput>()
+      for (const key of keys) {
+        const id = keyString(source.pkConfig, key)
+        if (!unique.has(id)) unique.set(id, key)
+      }
+      const rows = await Promise.all([...unique.values()].map(key => load(source, key)))
+      return rows.filter((row): row is Awaited<Row> => row !== undefined) as Row[]
+    },
+
+    clear(table?: string): void {
+      for (const tables of states.values()) {
+        for (const state of tables.values()) {
+          if (table !== undefined && state.table !== table) continue
+          for (const partition of state.partitions) {
+            partition.cache.clear()
+          }
+        }
+      }
+    }
+  }
+}
@@ -130,7 +130,11 @@ export interface SortSpec<Entity> {
 /**
  * Options for find() and related methods
  */
-export interface FindOptions<Entity, Columns extends keyof Entity = keyof Entity> {
+export interface FindOptions<
+  Entity,
+  Columns extends keyof Entity = keyof Entity,
+  Include extends string = string
+> {
   /** Filter conditions with operator support */
   where?: WhereClause<Entity> | Record<string, unknown>
   /** Column to sort by (single column shorthand) */
@@ -145,6 +149,21 @@ export interface FindOptions<Entity, Columns extends keyof Entity = keyof Entity
   limit?: number
   /** Number of results to skip */
   offset?: number
+  /** Relations to eager-load (declared via `relations` in the repository config) */
+  include?: readonly Include[]
+}
+
+/**
+ * Options for stream()
+ */
+export interface StreamFindOptions<Entity>
+  extends Pick<FindOptions<Entity>, 'where' | 'orderBy' | 'orderDirection'> {
+  /** Rows per batch (and per query), clamped between 1 and 10,000. Default: 1000 */
+  batchSize?: number
+  /** Stops the stream between batches; iteration then rejects with the signal's reason */
+  signal?: AbortSignal
+  /** Stream through the driver with a single query (see `streamCursor` in `@kysera/core`) */
+  native?: boolean
 }
 
 /**
@@ -0,0 +1,529 @@
+/**
+ * Declarative Relations and Batched Eager Loading
+ *
+ * Relations are declared once in the repository config and loaded on demand
+ * through the `include` option of `find()`, `findOne()`, `findById()` and
+ * `paginate()`. Each included relation is resolved with batched `IN (...)`
+ * queries of up to 1000 keys, so loading posts for 100 users costs one extra
+ * query, not 100.
+ *
+ * Relation queries are issued through the repository executor, which means
+ * plugin interceptors (soft-delete, RLS, etc.) apply to related rows exactly
+ * as they apply to the root table.
+ *
+ * @example
+ * ```typescript
+ * const userRepo = factory.create({
+ *   tableName: 'users',
+ *   mapRow: (row) => row,
+ *   schemas: { create: nativeAdapter() },
+ *   relations: {
+ *     posts: hasMany<Post>('posts', { foreignKey: 'user_id' }),
+ *     profile: hasOne<Profile>('profiles', { foreignKey: 'user_id' }),
+ *     roles: manyToMany<Role>('roles', {
+ *       through: { table: 'user_roles', sourceKey: 'user_id', targetKey: 'role_id' }
+ *     })
+ *   }
+ * })
+ *
+ * const user = await userRepo.findById(1, { include: ['posts', 'roles'] })
+ * user?.posts   // Post[]
+ * user?.roles   // Role[]
+ * ```
+ *
+ * @module @kysera/repository
+ */
+
+import type { Kysely, SelectQueryBuilder } from 'kysely'
+import { BadRequestError } from '@kysera/core'
+import type { Executor } from './helpers.js'
+
+// ============================================================================
+// Relation Definitions
+// ============================================================================
+
+/**
+ * Supported relation kinds
+ */
+export type RelationType = 'belongsTo' | 'hasOne' | 'hasMany' | 'manyToMany'
+
+/**
+ * Row mapper for related records
+ */
+export type RelationRowMapper<Target> = (row: Record<string, unknown>) => Target
+
+/**
+ * Fields shared by all relation kinds
+ */
+interface RelationBase<Target> {
+  /** Related table name */
+  readonly table: string
+  /** Maps a raw related row to the target type (identity by default) */
+  readonly mapRow: RelationRowMapper<Target>
+}
+
+/**
+ * The source row holds a foreign key pointing at the target.
+ * Resolves to a single record or null.
+ */
+export interface BelongsToRelation<Target = Record<string, unknown>> extends RelationBase<Target> {
+  readonly type: 'belongsTo'
+  /** Column on the source table referencing the target */
+  readonly foreignKey: string
+  /** Referenced column on the target table */
+  readonly targetKey: string
+}
+
+/**
+ * The target row holds a foreign key pointing at the source.
+ * Resolves to a single record or null.
+ */
+export interface HasOneRelation<Target = Record<string, unknown>> extends RelationBase<Target> {
+  readonly type: 'hasOne'
+  /** Column on the target table referencing the source */
+  readonly foreignKey: string
+  /** Referenced column on the source table */
+  readonly sourceKey: string
+}
+
+/**
+ * The target rows hold a foreign key pointing at the source.
+ * Resolves to an array (empty when nothing matches).
+ */
+export interface HasManyRelation<Target = Record<string, unknown>> extends RelationBase<Target> {
+  readonly type: 'hasMany'
+  /** Column on the target table referencing the source */
+  readonly foreignKey: string
+  /** Referenced column on the source table */
+  readonly sourceKey: string
+}
+
+/**
+ * Join table used by many-to-many relations
+ */
+export interface JoinTableConfig {
+  /** Join table name */
+  readonly table: string
+  /** Column in the join table referencing the source */
+  readonly sourceKey: string
+  /** Column in the join table referencing the target */
+  readonly targetKey: string
+}
+
+/**
+ * Source and target are linked through a join table.
+ * Resolves to an array (empty when nothing matches).
+ */
+export interface ManyToManyRelation<Target = Record<string, unknown>> extends RelationBase<Target> {
+  readonly type: 'manyToMany'
+  /** Join table configuration */
+  readonly through: JoinTableConfig
+  /** Referenced column on the source table */
+  readonly sourceKey: string
+  /** Referenced column on the target table */
+  readonly targetKey: string
+}
+
+/**
+ * Any relation definition
+ */
+export type RelationDefinition<Target = unknown> =
+  | BelongsToRelation<Target>
+  | HasOneRelation<Target>
+  | HasManyRelation<Target>
+  | ManyToManyRelation<Target>
+
+/**
+ * Map of relation names to definitions, as declared in RepositoryConfig
+ */
+export type RelationMap = Record<string, RelationDefinition>
+
+/**
+ * Relation map for repositories without relations
+ */
+export type NoRelations = Record<never, never>
+
+// ============================================================================
+// Type Inference Helpers
+// ============================================================================
+
+/**
+ * Names of the relations declared in a relation map
+ */
+export type RelationName<R> = keyof R & string
+
+/**
+ * Target type of a relation (inferred from its mapRow)
+ */
+export type RelationTarget<Rel> = Rel extends { readonly mapRow: (row: never) => infer T } ? T : never
+
+/**
+ * Loaded value of a relation: an array for to-many relations, a nullable record otherwise
+ */
+export type RelationResult<Rel> = Rel extends { readonly type: 'hasMany' | 'manyToMany' }
+  ? RelationTarget<Rel>[]
+  : RelationTarget<Rel> | null
+
+/**
+ * Entity type extended with the included relations.
+ * Resolves to the plain entity when nothing is included.
+ */
+export type WithRelations<Entity, R, I extends keyof R> = [I] extends [never]
+  ? Entity
+  : Entity & { [K in I]: RelationResult<R[K]> }
+
+/**
+ * Include option accepted by relation-aware repository methods
+ */
+export interface IncludeOptions<Include extends string = string> {
+  /** Relations to eager-load, each with one batched query */
+  include?: readonly Include[]
+}
+
+// ============================================================================
+// Relation Builders
+// ============================================================================
+
+const identityMapper = <Target>(row: Record<string, unknown>): Target => row as Target
+
+/**
+ * Declare a belongs-to relation (source holds the foreign key).
+ *
+ * @example
+ * ```typescript
+ * author: belongsTo<User>('users', { foreignKey: 'user_id' })
+ * ```
+ */
+export function belongsTo<Target = Record<string, unknown>>(
+  table: string,
+  options: {
+    foreignKey: string
+    /** @default 'id' */
+    targetKey?: string
+    mapRow?: RelationRowMapper<Target>
+  }
+): BelongsToRelation<Target> {
+  return {
+    type: 'belongsTo',
+    table,
+    foreignKey: options.foreignKey,
+    targetKey: options.targetKey ?? 'id',
+    mapRow: options.mapRow ?? identityMapper
+  }
+}
+
+/**
+ * Declare a has-one relation (target holds the foreign key).
+ *
+ * @example
+ * ```typescript
+ * profile: hasOne<Profile>('profiles', { foreignKey: 'user_id' })
+ * ```
+ */
+export function hasOne<Target = Record<string, unknown>>(
+  table: string,
+  options: {
+    foreignKey: string
+    /** @default 'id' */
+    sourceKey?: string
+    mapRow?: RelationRowMapper<Target>
+  }
+): HasOneRelation<Target> {
+  return {
+    type: 'hasOne',
+    table,
+    foreignKey: options.foreignKey,
+    sourceKey: options.sourceKey ?? 'id',
+    mapRow: options.mapRow ?? identityMapper
+  }
+}
+
+/**
+ * Declare a has-many relation (target rows hold the foreign key).
+ *
+ * @example
+ * ```typescript
+ * posts: hasMany<Post>('posts', { foreignKey: 'user_id' })
+ * ```
+ */
+export function hasMany<Target = Record<string, unknown>>(
+  table: string,
+  options: {
+    foreignKey: string
+    /** @default 'id' */
+    sourceKey?: string
+    mapRow?: RelationRowMapper<Target>
+  }
+): HasManyRelation<Target> {
+  return {
+    type: 'hasMany',
+    table,
+    foreignKey: options.foreignKey,
+    sourceKey: options.sourceKey ?? 'id',
+    mapRow: options.mapRow ?? identityMapper
+  }
+}
+
+/**
+ * Declare a many-to-many relation through a join table.
+ *
+ * @example
+ * ```typescript
+ * tags: manyToMany<Tag>('tags', {
+ *   through: { table: 'post_tags', sourceKey: 'post_id', targetKey: 'tag_id' }
+ * })
+ * ```
+ */
+export function manyToMany<Target = Record<string, unknown>>(
+  table: string,
+  options: {
+    through: JoinTableConfig
+    /** @default 'id' */
+    sourceKey?: string
+    /** @default 'id' */
+    targetKey?: string
+    mapRow?: RelationRowMapper<Target>
+  }
+): ManyToManyRelation<Target> {
+  return {
+    type: 'manyToMany',
+    table,
+    through: options.through,
+    sourceKey: options.sourceKey ?? 'id',
+    targetKey: options.targetKey ?? 'id',
+    mapRow: options.mapRow ?? identityMapper
+  }
+}
+
+// ============================================================================
+// Batched Loading
+// ============================================================================
+
+/**
+ * Dynamic database shape used for relation queries.
+ * Table and column names come from relation definitions at runtime.
+ */
+type DynamicDb = Kysely<Record<string, Record<string, unknown>>>
+type DynamicSelect = SelectQueryBuilder<
+  Record<string, Record<string, unknown>>,
+  string,
+  Record<string, unknown>
+>
+
+/** Alias for the join-table source key selected in many-to-many queries */
+const SOURCE_KEY_ALIAS = '__kysera_source_key'
+
+/** Maximum number of keys in one `IN (...)` list; larger key sets are split */
+const MAX_KEYS_PER_QUERY = 1000
+
+/**
+ * Split keys into chunks of at most MAX_KEYS_PER_QUERY
+ */
+function chunkKeys(keys: unknown[]): unknown[][] {
+  const chunks: unknown[][] = []
+  for (let start = 0; start < keys.length; start += MAX_KEYS_PER_QUERY) {
+    chunks.push(keys.slice(start, start + MAX_KEYS_PER_QUERY))
+  }
+  return chunks
+}
+
+/**
+ * Normalize a key for map lookups so that 1, 1n and '1' match
+ * (drivers differ in how they return integer columns).
+ */
+function toLookupKey(value: unknown): string {
+  return String(value)
+}
+
+/**
+ * Collect distinct non-null values of a column
+ */
+function collectKeys(rows: readonly Record<string, unknown>[], column: string): unknown[] {
+  const seen = new Map<string, unknown>()
+  for (const row of rows) {
+    const value = row[column]
+    if (value !== null && value !== undefined) {
+      seen.set(toLookupKey(value), value)
+    }
+  }
+  return [...seen.values()]
+}
+
+/**
+ * Group rows by the value of a column
+ */
+function groupBy(
+  rows: readonly Record<string, unknown>[],
+  column: string
+): Map<string, Record<string, unknown>[]> {
+  const groups = new Map<string, Record<string, unknown>[]>()
+  for (const row of rows) {
+    const key = toLookupKey(row[column])
+    const group = groups.get(key)
+    if (group) {
+      group.push(row)
+    } else {
+      groups.set(key, [row])
+    }
+  }
+  return groups
+}
+
+/**
+ * Fetch target rows whose `column` is in `keys` (one query per chunk of keys)
+ */
+async function selectIn(
+  db: DynamicDb,
+  table: string,
+  column: string,
+  keys: unknown[]
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = []
+  for (const chunk of chunkKeys(keys)) {
+    const chunkRows = await db
+      .selectFrom(table)
+      .selectAll()
+      .where(`${table}.${column}` as never, 'in', chunk as never)
+      .execute()
+    rows.push(...chunkRows)
+  }
+  return rows
+}
+
+/**
+ * Resolve one relation for all source rows.
+ * Returns the loaded value for each source row, in source order.
+ */
+async function resolveRelation(
+  db: DynamicDb,
+  rows: readonly Record<string, unknown>[],
+  relation: RelationDefinition
+): Promise<unknown[]> {
+  switch (relation.type) {
+    case 'belongsTo': {
+      const keys = collectKeys(rows, relation.foreignKey)
+      const targets = await selectIn(db, relation.table, relation.targetKey, keys)
+      const byKey = groupBy(targets, relation.targetKey)
+      return rows.map(row => {
+        const match = byKey.get(toLookupKey(row[relation.foreignKey]))?.[0]
+        return match ? relation.mapRow(match) : null
+      })
+    }
+
+    case 'hasOne':
+    case 'hasMany': {
+      const keys = collectKeys(rows, relation.sourceKey)
+      const targets = await selectIn(db, relation.table, relation.foreignKey, keys)
+      const byKey = groupBy(targets, relation.foreignKey)
+      return rows.map(row => {
+        const matches = byKey.get(toLookupKey(row[relation.sourceKey])) ?? []
+        if (relation.type === 'hasMany') return matches.map(relation.mapRow)
+        const first = matches[0]
+        return first ? relation.mapRow(first) : null
+      })
+    }
+
+    case 'manyToMany':
+      return resolveManyToMany(db, rows, relation)
+  }
+}
+
+/**
+ * Resolve a many-to-many relation with one joined query per chunk of keys.
+ * The selectFrom() targets the related table so plugin interceptors
+ * filter related rows, not join rows.
+ */
+async function resolveManyToMany(
+  db: DynamicDb,
+  rows: readonly Record<string, unknown>[],
+  relation: ManyToManyRelation<unknown>
+): Promise<unknown[]> {
+  const keys = collectKeys(rows, relation.sourceKey)
+  if (keys.length === 0) return rows.map(() => [])
+
+  const { table, through } = relation
+  const joined: Record<string, unknown>[] = []
+  for (const chunk of chunkKeys(keys)) {
+    const query = (db.selectFrom(table) as DynamicSelect)
+      .innerJoin(
+        through.table,
+        `${through.table}.${through.targetKey}` as never,
+        `${table}.${relation.targetKey}` as never
+      )
+      .selectAll(table as never)
+      .select(`${through.table}.${through.sourceKey} as ${SOURCE_KEY_ALIAS}` as never)
+      .where(`${through.table}.${through.sourceKey}` as never, 'in', chunk as never) as DynamicSelect
+    joined.push(...(await query.execute()))
+  }
+  const byKey = groupBy(joined, SOURCE_KEY_ALIAS)
+
+  return rows.map(row => {
+    const matches = byKey.get(toLookupKey(row[relation.sourceKey])) ?? []
+    return matches.map(({ [SOURCE_KEY_ALIAS]: _sourceKey, ...target }) => relation.mapRow(target))
+  })
+}
+
+/**
+ * Source-row columns the included relations are resolved by.
+ * Column selections must contain them for relations to load.
+ * @internal Used by BaseRepository.find()/findOne()
+ */
+export function relationKeyColumns(relations: RelationMap, include: readonly string[]): string[] {
+  const columns = new Set<string>()
+  for (const name of include) {
+    if (!Object.hasOwn(relations, name)) continue
+    const relation = relations[name]!
+    columns.add(relation.type === 'belongsTo' ? relation.foreignKey : relation.sourceKey)
+  }
+  return [...columns]
+}
+
+/**
+ * Load included relations for a set of source rows.
+ *
+ * Issues one query per included relation and chunk of 1000 keys.
+ * Queries go through the given executor, so plugin interceptors apply.
+ *
+ * @param db - Executor used for relation queries (plugin-aware executor or transaction)
+ * @param rows - Raw source rows (before mapRow), used to read key columns
+ * @param relations - Relation definitions declared on the repository
+ * @param include - Names of the relations to load
+ * @returns One object per source row with the loaded relation values
+ * @throws {BadRequestError} If an included relation is not declared
+ *
+ * @example
+ * ```typescript
+ * const rows = await db.selectFrom('users').selectAll().execute()
+ * const loaded = await loadRelations(db, rows, relations, ['posts'])
+ * // loaded[i].posts contains the posts of rows[i]
+ * ```
+ */
+export async function loadRelations<DB>(
+  db: Executor<DB>,
+  rows: readonly Record<string, unknown>[],
+  relations: RelationMap,
+  include: readonly string[]
+): Promise<Record<string, unknown>[]> {
+  const loaded = rows.map(() => ({}) as Record<string, unknown>)
+  if (rows.length === 0 || include.length === 0) return loaded
+
+  // Validate all names before issuing any query
+  const requested = [...new Set(include)]
+  for (const name of requested) {
+    if (!Object.hasOwn(relations, name)) {
+      throw new BadRequestError(
+        `Unknown relation "${name}". Declared relations: ${Object.keys(relations).join(', ') || '(none)'}`
+      )
+    }
+  }
+
+  const dynamicDb = db as unknown as DynamicDb
+  for (const name of requested) {
+    const values = await resolveRelation(dynamicDb, rows, relations[name]!)
+    values.forEach((value, index) => {
+      loaded[index]![name] = value
+    })
+  }
+
+  return loaded
+}
@@ -10,15 +10,24 @@ import type { Executor } from './helpers.js'
 import type { PrimaryKeyColumn, PrimaryKeyTypeHint, DialectConfig, Dialect } from './types.js'
 import { normalizePrimaryKeyConfig } from './types.js'
 import { nativeAdapter, type ValidationSchema } from './validation-adapter.js'
+import type { NoRelations, RelationMap } from './relations.js'
+import type { RequestLoader } from './loader.js'
 
 /**
  * Extended repository interface that includes database and table information
  * for plugin compatibility
  */
-export interface Repository<Entity, DB, PK = number> extends BaseRepository<DB, Entity, PK> {
+export interface Repository<Entity, DB, PK = number, R = NoRelations>
+  extends BaseRepository<DB, Entity, PK, R> {
   readonly executor: Executor<DB>
   readonly tableName: string
-  withTransaction(trx: Transaction<DB>): Repository<Entity, DB, PK>
+  withTransaction(trx: Transaction<DB>): Repository<Entity, DB, PK, R>
+  /**
+   * Repository whose `findById`/`findByIds` lookups go through a request loader:
+   * lookups made in the same tick are merged into one query and cached for the request.
+   * Writes made through the returned repository drop the loader's rows of the table.
+   */
+  withLoader(loader: RequestLoader): Repository<Entity, DB, PK, R>
 }
 
 /**
@@ -53,10 +62,31 @@ export interface Repository<Entity, DB, PK = number> extends BaseRepository<DB,
  *   },
  * });
  * ```
+ *
+ * @example With relations
+ * ```typescript
+ * import { createRepositoryFactory, hasMany, nativeAdapter } from '@kysera/repository';
+ *
+ * const userRepo = factory.create({
+ *   tableName: 'users',
+ *   mapRow: (row) => row,
+ *   schemas: { create: nativeAdapter() },
+ *   relations: {
+ *     posts: hasMany<Post>('posts', { foreignKey: 'user_id' }),
+ *   },
+ * });
+ *
+ * const user = await userRepo.findById(1, { include: ['posts'] }); // user.posts: Post[]
+ * ```
  */
 export function createRepositoryFactory<DB>(executor: Executor<DB>): {
   executor: Executor<DB>
-  create<TableName extends keyof DB & string, Entity, PK = number>(config: {
+  create<
+    TableName extends keyof DB & string,
+    Entity,
+    PK = number,
+    R extends RelationMap = NoRelations
+  >(config: {
     tableName: TableName
     /**
      * PostgreSQL schema for this repository.
@@ -81,12 +111,21 @@ export function createRepositoryFactory<DB>(executor: Executor<DB>): {
     }
     validateDbResults?: boolean
     validationStrategy?: 'none' | 'strict'
-  }): Repository<Entity, DB, PK>
+    /** Relations available for eager loading via `include` */
+    relations?: R
+    /** Request loader batching `findById`/`findByIds` (see `withLoader()`) */
+    loader?: RequestLoader
+  }): Repository<Entity, DB, PK, R>
 } {
   return {
     executor,
 
-    create<TableName extends keyof DB & string, Entity, PK = number>(config: {
+    create<
+      TableName extends keyof DB & string,
+      Entity,
+      PK = number,
+      R extends RelationMap = NoRelations
+    >(config: {
       tableName: TableName
       /** PostgreSQL schema for this repository */
       schema?: string
@@ -101,37 +140,47 @@ export function createRepositoryFactory<DB>(executor: Executor<DB>): {
       }
       validateDbResults?: boolean
       validationStrategy?: 'none' | 'strict'
-    }): Repository<Entity, DB, PK> {
-      const { tableName, primaryKey, primaryKeyType, dialect, schema } = config
+      relations?: R
+      loader?: RequestLoader
+    }): Repository<Entity, DB, PK, R> {
+      const { tableName, primaryKey, primaryKeyType, dialect, schema, loader } = config
 
       const pkConfig = normalizePrimaryKeyConfig(primaryKey, primaryKeyType)
 
       // Create table operations for this specific table
       // Pass schema and dialect options - use conditional to satisfy exactOptionalPropertyTypes
       const tableOpsOptions: Parameters<typeof createTableOperations>[3] = (() => {
-        const opts: { dialect?: Dialect; schema?: string } = {}
+        const opts: { dialect?: Dialect; schema?: string; loader?: RequestLoader } = {}
         if (dialect?.dialect) opts.dialect = dialect.dialect
         if (schema) opts.schema = schema
+        if (loader) opts.loader = loader
         return Object.keys(opts).length > 0 ? opts : undefined
       })()
       const operations = createTableOperations(executor, tableName, pkConfig, tableOpsOptions)
 
       // Create base repository
-      const baseRepo = createBaseRepository<DB, DB[TableName], Entity, PK>(
+      const baseRepo = createBaseRepository<DB, DB[TableName], Entity, PK, R>(
         operations,
-        config as RepositoryConfig<DB[TableName], Entity>,
+        config as RepositoryConfig<DB[TableName], Entity, R>,
         executor
       )
 
       // Extend with additional properties and methods
-      const repository: Repository<Entity, DB, PK> = {
+      const repository: Repository<Entity, DB, PK, R> = {
         ...baseRepo,
         executor,
         tableName,
 
-        withTransaction(trx: Transaction<DB>): Repository<Entity, DB, PK> {
+        withTransaction(trx: Transaction<DB>): Repository<Entity, DB, PK, R> {
           const factory = createRepositoryFactory(trx)
-          return factory.create<TableName, Entity, PK>(config)
+          return factory.create<TableName, Entity, PK, R>(config)
+        },
+
+        withLoader(requestLoader: RequestLoader): Repository<Entity, DB, PK, R> {
+          return createRepositoryFactory(executor).create<TableName, Entity, PK, R>({
+            ...config,
+            loader: requestLoader
+          })
         }
       }
 
@@ -14,12 +14,20 @@ import type {
 } from './types.js'
 import type { DialectConfig } from './types.js'
 import { getPrimaryKeyColumns, normalizePrimaryKeyInput, isCompositeKey } from './types.js'
-import { DatabaseError, getEnv, detectDialect, silentLogger, type KyseraLogger } from '@kysera/core'
+import {
+  DatabaseError,
+  getEnv,
+  detectDialect,
+  silentLogger,
+  streamCursor,
+  type KyseraLogger
+} from '@kysera/core'
 import { extractPrimaryKey } from './primary-key-utils.js'
 import type { ColumnValidationOptions } from './column-validation.js'
 import { validateConditions } from './column-validation.js'
-import type { FindOptions } from './operators.js'
+import type { FindOptions, StreamFindOptions } from './operators.js'
 import { applyWhereClause, hasOperators, validateOperators, extractColumns } from './operators.js'
+import type { LoaderSource, RequestLoader } from './loader.js'
 
 /**
  * Type helper to convert unknown results to typed results.
@@ -297,6 +305,35 @@ function buildDynamicWhere<DB, TableName extends keyof DB>(
   return result
 }
 
+/**
+ * Helper to apply find() where conditions (with or without operators)
+ */
+function buildFindWhere<DB, TableName extends keyof DB>(
+  query: DynamicSelectQuery<DB, TableName>,
+  where: Record<string, unknown> | undefined,
+  pkConfig: PrimaryKeyConfig
+): DynamicSelectQuery<DB, TableName> {
+  if (!where || Object.keys(where).length === 0) {
+    return query
+  }
+
+  // Validate operators if present
+  if (hasOperators(where)) {
+    validateOperators(where)
+    // Validate column names
+    const columns = extractColumns(where)
+    validateConditions(Object.fromEntries(columns.map(c => [c, true])), pkConfig)
+
+    // Apply operator-aware where clause
+    return query.where((eb: ExpressionBuilder<DB, TableName>) =>
+      applyWhereClause(eb, where)
+    ) as DynamicSelectQuery<DB, TableName>
+  }
+
+  // Simple equality conditions - use existing buildDynamicWhere
+  return buildDynamicWhere(query, where, pkConfig)
+}
+
 /**
  * Helper to build orderBy and pagination
  */
@@ -357,6 +394,10 @@ export interface TableOperationsOptions {
    * @default silentLogger
    */
   logger?: KyseraLogger
+  /**
+   * Request loader batching and caching `selectById`/`selectByIds`
+   */
+  loader?: RequestLoader
 }
 
 /* eslint-disable @typescript-eslint/no-deprecated -- DialectConfig kept for backwards compatibility */
@@ -377,7 +418,7 @@ export function createTableOperations<DB, TableName extends keyof DB & string>(
     typeof opt === 'object' && opt !== null && 'dialect' in opt && typeof (opt as DialectConfig).dialect === 'string'
 
   const opts: TableOperationsOptions = options
-    ? isDialectConfig(options) && !('schema' in options)
+    ? isDialectConfig(options) && Object.keys(options).length === 1
       ? { dialect: options.dialect }
       : (options as TableOperationsOptions)
     : {}
@@ -397,7 +438,7 @@ export function createTableOperations<DB, TableName extends keyof DB & string>(
   const defaultOrderColumn = pkColumns[0] ?? 'id'
   const firstPkColumn = pkColumns[0]
 
-  return {
+  const operations: TableOperations<Table> = {
     async selectAll(): Promise<SelectTable[]> {
       const result = await dbWithSchema.selectFrom(tableName).selectAll().execute()
 
@@ -772,6 +813,32 @@ export function createTableOperations<DB, TableName extends keyof DB & string>(
       return castResults<SelectTable[]>(result, logger)
     },
 
+    selectStream(options: StreamFindOptions<SelectTable>): AsyncIterable<SelectTable[]> {
+      const { where, orderBy, orderDirection = 'asc', batchSize, signal, native } = options
+
+      let query = dbWithSchema.selectFrom(tableName).selectAll() as DynamicSelectQuery<DB, TableName>
+      query = buildFindWhere(query, where as Record<string, unknown> | undefined, pkConfig)
+
+      // The primary key makes the keyset unique, so no row is skipped or repeated
+      const keyset = [...pkColumns]
+      if (orderBy !== undefined) {
+        const orderByStr = String(orderBy)
+        validateConditions({ [orderByStr]: true }, pkConfig)
+        if (!keyset.includes(orderByStr)) keyset.unshift(orderByStr)
+      }
+
+      return streamCursor(query as SelectQueryBuilder<DB, TableName, SelectTable>, {
+        orderBy: keyset.map(column => ({
+          column: column as keyof SelectTable & string,
+          direction: orderDirection
+        })),
+        batchSize,
+        signal,
+        native,
+        dialect: opts.dialect ?? detectDialect(dbWithSchema)
+      })
+    },
+
     async selectWithOptions<Cols extends string = string>(
       options: FindOptions<SelectTable, Cols & keyof SelectTable>
     ): Promise<SelectTable[]> {
@@ -798,23 +865,7 @@ export function createTableOperations<DB, TableName extends keyof DB & string>(
       }
 
       // Apply where conditions
-      if (where && Object.keys(where).length > 0) {
-        // Validate operators if present
-        if (hasOperators(where as Record<string, unknown>)) {
-          validateOperators(where as Record<string, unknown>)
-          // Validate column names
-          const columns = extractColumns(where as Record<string, unknown>)
-          validateConditions(Object.fromEntries(columns.map(c => [c, true])), pkConfig)
-
-          // Apply operator-aware where clause
-          query = query.where((eb: ExpressionBuilder<DB, TableName>) =>
-            applyWhereClause(eb, where as Record<string, unknown>)
-          ) as DynamicSelectQuery<DB, TableName>
-        } else {
-          // Simple equality conditions - use existing buildDynamicWhere
-          query = buildDynamicWhere(query, where as Record<string, unknown>, pkConfig)
-        }
-      }
+      query = buildFindWhere(query, where as Record<string, unknown> | undefined, pkConfig)
 
       // Apply sorting
       if (sort && sort.length > 0) {
@@ -891,4 +942,44 @@ export function createTableOperations<DB, TableName extends keyof DB & string>(
       return result?.count ? Number(result.count) : 0
     }
   }
+
+  if (!opts.loader) {
+    return operations
+  }
+  return withRequestLoader(operations, opts.loader, {
+    executor: db,
+    table: tableName,
+    ...(opts.schema && { schema: opts.schema }),
+    pkConfig,
+    fetch: ids => operations.selectByIds(ids)
+  })
+}
+
+/**
+ * Route primary key lookups of table operations through a request loader,
+ * and drop the loader's rows of the table after writes
+ */
+function withRequestLoader<Table>(
+  operations: TableOperations<Table>,
+  loader: RequestLoader,
+  source: LoaderSource<Selectable<Table>>
+): TableOperations<Table> {
+  const afterWrite = async <T>(write: Promise<T>): Promise<T> => {
+    try {
+      return await write
+    } finally {
+      loader.clear(source.table)
+    }
+  }
+
+  return {
+    ...operations,
+    selectById: id => loader.load(source, id),
+    selectByIds: ids => loader.loadMany(source, ids),
+    insert: data => afterWrite(operations.insert(data)),
+    insertMany: data => afterWrite(operations.insertMany(data)),
+    updateById: (id, data) => afterWrite(operations.updateById(id, data)),
+    deleteById: id => afterWrite(operations.deleteById(id)),
+    deleteByIds: ids => afterWrite(operations.deleteByIds(ids))
+  }
 }
@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { sql, type Kysely, type Selectable } from 'kysely'
+import type { Database as SQLiteDatabase } from 'better-sqlite3'
+import { createExecutor, type Plugin, type QueryBuilderContext } from '@kysera/executor'
+import { softDeletePlugin } from '../../soft-delete/src/index.js'
+import { createTestDatabase, seedTestData, type TestDatabase } from './setup/database.js'
+import {
+  createRepositoryFactory,
+  createRequestLoader,
+  createTableOperations,
+  nativeAdapter
+} from '../src/index.js'
+
+type User = Selectable<TestDatabase['users']>
+
+interface OrderItem {
+  order_id: number
+  product_id: number
+  quantity: number
+}
+
+describe('Request loader', () => {
+  let db: Kysely<TestDatabase>
+  let sqlite: SQLiteDatabase
+  let cleanup: () => void
+  let queries: string[]
+
+  const createUsers = (executor: Kysely<TestDatabase>) =>
+    createRepositoryFactory(executor).create({
+      tableName: 'users',
+      mapRow: (row): User => row,
+      schemas: { create: nativeAdapter(), update: nativeAdapter() }
+    })
+
+  beforeEach(async () => {
+    const setup = createTestDatabase()
+    sqlite = setup.sqlite
+    cleanup = setup.cleanup
+    await seedTestData(setup.db)
+
+    // Record executed queries to verify batching (compiled-only queries are left out)
+    queries = []
+    const kinds = new WeakMap<object, string>()
+    db = setup.db.withPlugin({
+      transformQuery: args => {
+        kinds.set(args.queryId, args.node.kind)
+        return args.node
+      },
+      transformResult: async args => {
+        queries.push(kinds.get(args.queryId) ?? 'unknown')
+        return args.result
+      }
+    })
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('should merge lookups made in the same tick into one query', async () => {
+    const users = createUsers(db).withLoader(createRequestLoader())
+
+    const [alice, bob, missing, again] = await Promise.all([
+      users.findById(1),
+      users.findById(2),
+      users.findById(99),
+      users.findById(1)
+    ])
+
+    expect(alice?.name).toBe('Alice')
+    expect(bob?.name).toBe('Bob')
+    expect(missing).toBeNull()
+    expect(again).toEqual(alice)
+    expect(queries).toEqual(['SelectQueryNode'])
+  })
+
+  it('should merge lookups of resolvers awaiting the same promise', async () => {
+    const users = createUsers(db).withLoader(createRequestLoader())
+    const parent = Promise.resolve([1, 2, 3])
+
+    const names = await Promise.all(
+      [0, 1, 2].map(async index => {
+        const ids = await parent
+        return (await users.findById(ids[index]!))?.name
+      })
+    )
+
+    expect(names).toEqual(['Alice', 'Bob', 'Charlie'])
+    expect(queries).toHaveLength(1)
+  })
+
+  it('should return findByIds results in input order without duplicates', async () => {
+    const users = createUsers(db).withLoader(createRequestLoader())
+
+    const found = await users.findByIds([3, 1, 99, 3, 2])
+
+    expect(found.map(user => user.name)).toEqual(['Charlie', 'Alice', 'Bob'])
+    expect(queries).toHaveLength(1)
+  })
+
+  it('should cache rows for the lifetime of the loader', async () => {
+    const loader = createRequestLoader()
+    const users = createUsers(db).withLoader(loader)
+
+    await users.findById(1)
+    await users.findByIds([1, 2])
+    await createUsers(db).withLoader(loader).findById(2)
+
+    expect(queries).toHaveLength(2)
+
+    await sql`update users set name = 'Alicia' where id = 1`.execute(db)
+    expect((await users.findById(1))?.name).toBe('Alice')
+    loader.clear('users')
+    expect((await users.findById(1))?.name).toBe('Alicia')
+  })
+
+  it('should not cache rows when caching is disabled', async () => {
+    const users = createUsers(db).withLoader(createRequestLoader({ cache: false }))
+
+    await Promise.all([users.findById(1), users.findById(1)])
+    await users.findById(1)
+
+    expect(queries).toHaveLength(2)
+  })
+
+  it('should drop cached rows after writes through the repository', async () => {
+    const users = createUsers(db).withLoader(createRequestLoader())
+
+    await users.findById(1)
+    await users.update(1, { name: 'Alicia' })
+
+    expect((await users.findById(1))?.name).toBe('Alicia')
+  })
+
+  it('should match string keys with numeric primary keys', async () => {
+    const users = createUsers(db).withLoader(createRequestLoader())
+
+    const [byString, byNumber] = await Promise.all([
+      users.findById('2' as unknown as number),
+      users.findById(2)
+    ])
+
+    expect(byString?.name).toBe('Bob')
+    expect(byNumber).toEqual(byString)
+    expect(queries).toHaveLength(1)
+  })
+
+  it('should split batches larger than maxBatchSize', async () => {
+    const users = createUsers(db).withLoader(createRequestLoader({ maxBatchSize: 2 }))
+
+    const found = await users.findByIds([1, 2, 3])
+
+    expect(found).toHaveLength(3)
+    expect(queries).toHaveLength(2)
+  })
+
+  it('should reject every lookup of a failed batch and retry them later', async () => {
+    const loader = createRequestLoader()
+    const users = createUsers(db).withLoader(loader)
+    sqlite.exec('ALTER TABLE users RENAME TO people')
+
+    const results = await Promise.allSettled([users.findById(1), users.findById(2)])
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected'])
+    sqlite.exec('ALTER TABLE people RENAME TO users')
+    expect((await users.findById(1))?.name).toBe('Alice')
+  })
+
+  it('should reject invalid batch sizes', () => {
+    expect(() => createRequestLoader({ maxBatchSize: 0 })).toThrow(
+      'maxBatchSize must be a positive integer, got 0'
+    )
+  })
+
+  it('should batch composite primary keys', async () => {
+    sqlite.exec(`
+      CREATE TABLE order_items (
+        order_id INTEGER NOT NULL,
+        product_id INTEGER NOT NULL,
+        quantity INTEGER NOT NULL,
+        PRIMARY KEY (order_id, product_id)
+      );
+      INSERT INTO order_items VALUES (1, 1, 5), (1, 2, 3), (2, 1, 7);
+    `)
+    type OrderDatabase = { order_items: OrderItem }
+    const ops = createTableOperations(
+      db as unknown as Kysely<OrderDatabase>,
+      'order_items',
+      { columns: ['order_id', 'product_id'], type: 'number' },
+      { loader: createRequestLoader() }
+    )
+
+    const [first, third, missing] = await Promise.all([
+      ops.selectById({ order_id: 1, product_id: 1 }),
+      ops.selectById({ product_id: 1, order_id: 2 }),
+      ops.selectById({ order_id: 2, product_id: 2 })
+    ])
+    const many = await ops.selectByIds([
+      { order_id: 2, product_id: 1 },
+      { order_id: 1, product_id: 2 }
+    ])
+
+    expect(first?.quantity).toBe(5)
+    expect(third?.quantity).toBe(7)
+    expect(missing).toBeUndefined()
+    expect(many.map(item => item.quantity)).toEqual([7, 3])
+    expect(queries).toHaveLength(2)
+  })
+
+  it('should build batched queries through executor plugins', async () => {
+    const executor = await createExecutor(db, [softDeletePlugin()])
+    await db
+      .updateTable('users')
+      .set({ deleted_at: '2024-01-01' as never })
+      .where('id', '=', 2)
+      .execute()
+    queries = []
+    const users = createUsers(executor).withLoader(createRequestLoader())
+
+    const [alice, deleted] = await Promise.all([users.findById(1), users.findById(2)])
+
+    expect(alice?.name).toBe('Alice')
+    expect(deleted).toBeNull()
+    expect(queries).toHaveLength(1)
+  })
+
+  it('should batch separately per plugin context key', async () => {
+    const tenant = new AsyncLocalStorage<string>()
+    const builtFor: (string | undefined)[] = []
+    const tenantPlugin: Plugin = {
+      name: 'tenant',
+      version: '1.0.0',
+      contextKey: () => tenant.getStore(),
+      interceptQuery<QB>(qb: QB, context: QueryBuilderContext): QB {
+        if (context.operation === 'select') builtFor.push(tenant.getStore())
+        return qb
+      }
+    }
+    const executor = await createExecutor(db, [tenantPlugin])
+    const users = createUsers(executor).withLoader(createRequestLoader())
+    // Dialect detection builds a select while the repository is created
+    builtFor.length = 0
+
+    await Promise.all([
+      tenant.run('acme', () => users.findById(1)),
+      tenant.run('beta', () => users.findById(1)),
+      tenant.run('acme', () => users.findById(2))
+    ])
+    await tenant.run('beta', () => users.findById(1))
+
+    expect(builtFor).toEqual(['acme', 'beta'])
+    expect(queries).toHaveLength(2)
+  })
+
+  it('should batch separately per scope', async () => {
+    const request = new AsyncLocalStorage<object>()
+    const users = createUsers(db).withLoader(
+      createRequestLoader({ scope: () => request.getStore() })
+    )
+
+    await Promise.all([
+      request.run({}, () => users.findById(1)),
+      request.run({}, () => users.findById(1))
+    ])
+
+    expect(queries).toHaveLength(2)
+  })
+})
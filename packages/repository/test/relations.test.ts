@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach, expectTypeOf } from 'vitest'
+import type { Kysely, Selectable } from 'kysely'
+import type { Database as SQLiteDatabase } from 'better-sqlite3'
+import { BadRequestError } from '@kysera/core'
+import { softDeletePlugin } from '../../soft-delete/src/index.js'
+import { createTestDatabase, seedTestData, type TestDatabase } from './setup/database.js'
+import {
+  createORM,
+  createRepositoryFactory,
+  nativeAdapter,
+  belongsTo,
+  hasOne,
+  hasMany,
+  manyToMany,
+  loadRelations
+} from '../src/index.js'
+
+type User = Selectable<TestDatabase['users']>
+type Post = Selectable<TestDatabase['posts']>
+type Comment = Selectable<TestDatabase['comments']>
+
+interface Tag {
+  id: number
+  name: string
+}
+
+function createTagTables(sqlite: SQLiteDatabase): void {
+  sqlite.exec(`
+    CREATE TABLE tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL
+    );
+    CREATE TABLE post_tags (
+      post_id INTEGER NOT NULL,
+      tag_id INTEGER NOT NULL,
+      PRIMARY KEY (post_id, tag_id)
+    );
+    INSERT INTO tags (name) VALUES ('typescript'), ('sql'), ('kysely');
+    INSERT INTO post_tags (post_id, tag_id) VALUES (1, 1), (1, 3), (2, 2), (3, 1);
+  `)
+}
+
+const postRelations = {
+  author: belongsTo<User>('users', { foreignKey: 'user_id' }),
+  comments: hasMany<Comment>('comments', { foreignKey: 'post_id' }),
+  firstComment: hasOne<Comment>('comments', { foreignKey: 'post_id' }),
+  tags: manyToMany<Tag>('tags', {
+    through: { table: 'post_tags', sourceKey: 'post_id', targetKey: 'tag_id' }
+  })
+}
+
+const userRelations = {
+  posts: hasMany<Post>('posts', { foreignKey: 'user_id' })
+}
+
+function createRepos(executor: Kysely<TestDatabase>) {
+  const factory = createRepositoryFactory(executor)
+  return {
+    posts: factory.create({
+      tableName: 'posts',
+      mapRow: (row): Post => row,
+      schemas: { create: nativeAdapter() },
+      relations: postRelations
+    }),
+    users: factory.create({
+      tableName: 'users',
+      mapRow: (row): User => row,
+      schemas: { create: nativeAdapter() },
+      relations: userRelations
+    })
+  }
+}
+
+describe('Repository relations', () => {
+  let db: Kysely<TestDatabase>
+  let sqlite: SQLiteDatabase
+  let cleanup: () => void
+  let queries: string[]
+
+  beforeEach(async () => {
+    const setup = createTestDatabase()
+    sqlite = setup.sqlite
+    cleanup = setup.cleanup
+    await seedTestData(setup.db)
+    createTagTables(sqlite)
+
+    // Record executed queries to verify batching
+    queries = []
+    db = setup.db.withPlugin({
+      transformQuery: args => {
+        queries.push(args.node.kind)
+        return args.node
+      },
+      transformResult: async args => args.result
+    })
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  describe('belongsTo', () => {
+    it('should load the parent record', async () => {
+      const { posts } = createRepos(db)
+
+      const post = await posts.findById(3, { include: ['author'] })
+
+      expect(post?.author?.name).toBe('Bob')
+    })
+
+    it('should resolve to null when the foreign key has no match', async () => {
+      sqlite.exec('PRAGMA foreign_keys = OFF')
+      sqlite.exec(`INSERT INTO posts (user_id, title, content) VALUES (999, 'Orphan', 'x')`)
+      const { posts } = createRepos(db)
+
+      const post = await posts.findOne({ where: { title: 'Orphan' }, include: ['author'] })
+
+      expect(post?.author).toBeNull()
+    })
+  })
+
+  describe('hasMany', () => {
+    it('should load children grouped by parent', async () => {
+      const { users } = createRepos(db)
+
+      const result = await users.find({ orderBy: 'id', include: ['posts'] })
+
+      expect(result.map(u => u.posts.length)).toEqual([2, 1, 0])
+      expect(result[0]?.posts.every(p => p.user_id === result[0]?.id)).toBe(true)
+    })
+
+    it('should batch all parents into a single query per relation', async () => {
+      const { users } = createRepos(db)
+
+      queries = []
+      await users.find({ include: ['posts'] })
+
+      // One query for users, one for all their posts
+      expect(queries).toHaveLength(2)
+    })
+
+    it('should not query relations when no rows are found', async () => {
+      const { users } = createRepos(db)
+
+      queries = []
+      const result = await users.find({ where: { name: 'Nobody' }, include: ['posts'] })
+
+      expect(result).toEqual([])
+      expect(queries).toHaveLength(1)
+    })
+  })
+
+  describe('hasOne', () => {
+    it('should load a single child or null', async () => {
+      const { posts } = createRepos(db)
+
+      const result = await posts.find({ orderBy: 'id', include: ['firstComment'] })
+
+      expect(result[0]?.firstComment?.post_id).toBe(1)
+      expect(result[1]?.firstComment).toBeNull()
+    })
+  })
+
+  describe('manyToMany', () => {
+    it('should load targets through the join table', async () => {
+      const { posts } = createRepos(db)
+
+      const result = await posts.find({ orderBy: 'id', include: ['tags'] })
+
+      expect(result[0]?.tags.map(t => t.name).sort()).toEqual(['kysely', 'typescript'])
+      expect(result[1]?.tags.map(t => t.name)).toEqual(['sql'])
+      expect(result[2]?.tags.map(t => t.name)).toEqual(['typescript'])
+    })
+
+    it('should not leak join columns into target rows', async () => {
+      const { posts } = createRepos(db)
+
+      const post = await posts.findById(2, { include: ['tags'] })
+
+      expect(post?.tags[0]).toEqual({ id: 2, name: 'sql' })
+    })
+  })
+
+  describe('include option', () => {
+    it('should load several relations at once', async () => {
+      const { posts } = createRepos(db)
+
+      const post = await posts.findById(1, { include: ['author', 'comments', 'tags'] })
+
+      expect(post?.author?.name).toBe('Alice')
+      expect(post?.comments).toHaveLength(2)
+      expect(post?.tags).toHaveLength(2)
+    })
+
+    it('should support paginate', async () => {
+      const { users } = createRepos(db)
+
+      const page = await users.paginate({ limit: 2, orderBy: 'id', include: ['posts'] })
+
+      expect(page.total).toBe(3)
+      expect(page.items.map(u => u.posts.length)).toEqual([2, 1])
+    })
+
+    it('should leave entities unchanged without include', async () => {
+      const { users } = createRepos(db)
+
+      const user = await users.findById(1)
+
+      expect(user).not.toHaveProperty('posts')
+    })
+
+    it('should select the key columns relations need', async () => {
+      const { users, posts } = createRepos(db)
+
+      const found = await users.find({ select: ['name'], orderBy: 'id', include: ['posts'] })
+      const post = await posts.findOne({ select: ['title'], where: { id: 1 }, include: ['author', 'tags'] })
+
+      expect(found.map(u => u.posts.length)).toEqual([2, 1, 0])
+      expect(found[0]).not.toHaveProperty('id')
+      expect(post?.author?.name).toBe('Alice')
+      expect(post?.tags).toHaveLength(2)
+      expect(post).not.toHaveProperty('user_id')
+      expect(post).not.toHaveProperty('id')
+    })
+
+    it('should reject unknown relation names', async () => {
+      const { users } = createRepos(db)
+
+      await expect(
+        users.find({ include: ['missing' as never] })
+      ).rejects.toThrow(BadRequestError)
+    })
+
+    it('should infer relation types', async () => {
+      const { posts } = createRepos(db)
+
+      const post = await posts.findById(1, { include: ['author', 'tags'] })
+      const plain = await posts.findById(1)
+
+      expectTypeOf(post!.author).toEqualTypeOf<User | null>()
+      expectTypeOf(post!.tags).toEqualTypeOf<Tag[]>()
+      expectTypeOf(plain).toEqualTypeOf<Post | null>()
+    })
+  })
+
+  describe('plugin integration', () => {
+    it('should apply soft-delete filtering to related rows', async () => {
+      await db.updateTable('posts').set({ deleted_at: new Date().toISOString() as never }).where('id', '=', 1).execute()
+
+      const orm = await createORM(db, [softDeletePlugin({ tables: ['users', 'posts'] })])
+      const users = orm.createRepository(executor => createRepos(executor).users)
+
+      const alice = await users.findById(1, { include: ['posts'] })
+
+      expect(alice?.posts.map(p => p.id)).toEqual([2])
+    })
+
+    it('should load relations inside transactions', async () => {
+      const { users } = createRepos(db)
+
+      await users.transaction(async trx => {
+        await trx.insertInto('posts').values({ user_id: 3, title: 'New', content: 'x', published: 0 }).execute()
+        const charlie = await users.withTransaction(trx).findById(3, { include: ['posts'] })
+        expect(charlie?.posts).toHaveLength(1)
+      })
+    })
+  })
+
+  describe('loadRelations', () => {
+    it('should split large key sets into several queries', async () => {
+      const rows = Array.from({ length: 2500 }, (_, i) => ({ id: i + 1 }))
+      queries = []
+
+      const loaded = await loadRelations(db, rows, userRelations, ['posts'])
+      const tags = await loadRelations(db, rows, postRelations, ['tags'])
+
+      expect(queries).toHaveLength(6)
+      expect((loaded[0]?.['posts'] as Post[]).length).toBe(2)
+      expect((tags[0]?.['tags'] as Tag[]).length).toBe(2)
+      expect(loaded[2499]?.['posts']).toEqual([])
+    })
+
+    it('should return one entry per source row', async () => {
+      const rows = await db.selectFrom('users').selectAll().orderBy('id').execute()
+
+      const loaded = await loadRelations(db, rows, userRelations, ['posts'])
+
+      expect(loaded).toHaveLength(3)
+      expect((loaded[1]?.['posts'] as Post[])[0]?.title).toBe("Bob's Post")
+    })
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import type { Kysely, Selectable } from 'kysely'
+import { createExecutor } from '@kysera/executor'
+import { softDeletePlugin } from '../../soft-delete/src/index.js'
+import { createTestDatabase, seedTestData, type TestDatabase } from './setup/database.js'
+import { createRepositoryFactory, createRequestLoader, nativeAdapter } from '../src/index.js'
+
+interface User {
+  id: number
+  email: string
+  name: string
+  deleted: boolean
+}
+
+const mapUser = (row: Selectable<TestDatabase['users']>): User => ({
+  id: row.id,
+  email: row.email,
+  name: row.name,
+  deleted: row.deleted_at !== null
+})
+
+async function collect<T>(batches: AsyncIterable<T[]>): Promise<T[][]> {
+  const result: T[][] = []
+  for await (const batch of batches) {
+    result.push(batch)
+  }
+  return result
+}
+
+describe('Repository stream', () => {
+  let db: Kysely<TestDatabase>
+  let cleanup: () => void
+  let queries: number
+
+  const createUsers = (executor: Kysely<TestDatabase>) =>
+    createRepositoryFactory(executor).create({
+      tableName: 'users',
+      mapRow: mapUser,
+      schemas: { create: nativeAdapter() }
+    })
+
+  beforeEach(async () => {
+    const setup = createTestDatabase()
+    cleanup = setup.cleanup
+    await seedTestData(setup.db)
+    // 3 seeded users + 7 more, every third one soft-deleted
+    await setup.db
+      .insertInto('users')
+      .values(
+        Array.from({ length: 7 }, (_, i) => ({
+          email: `user${i + 4}@example.com`,
+          name: i % 2 === 0 ? 'Even' : 'Odd',
+          deleted_at: (i % 3 === 0 ? '2024-01-01' : null) as never
+        }))
+      )
+      .execute()
+
+    queries = 0
+    db = setup.db.withPlugin({
+      transformQuery: args => args.node,
+      transformResult: async args => {
+        queries++
+        return args.result
+      }
+    })
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('should stream mapped entities in primary key order', async () => {
+    const users = createUsers(db)
+    queries = 0
+
+    const batches = await collect(users.stream({ batchSize: 4 }))
+
+    expect(batches.map(batch => batch.length)).toEqual([4, 4, 2])
+    expect(batches.flat().map(user => user.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+    expect(batches[0]![0]).toEqual({
+      id: 1,
+      email: 'alice@example.com',
+      name: 'Alice',
+      deleted: false
+    })
+    expect(queries).toBe(3)
+  })
+
+  it('should filter with where conditions and operators', async () => {
+    const users = createUsers(db)
+
+    const equality = await collect(users.stream({ where: { name: 'Even' }, batchSize: 2 }))
+    const operators = await collect(
+      users.stream({ where: { id: { $gt: 5 }, name: { $in: ['Odd'] } }, batchSize: 2 })
+    )
+
+    expect(equality.flat().map(user => user.id)).toEqual([4, 6, 8, 10])
+    expect(operators.flat().map(user => user.id)).toEqual([7, 9])
+  })
+
+  it('should order by a column with the primary key as tie-breaker', async () => {
+    const users = createUsers(db)
+
+    const batches = await collect(
+      users.stream({ orderBy: 'name', orderDirection: 'desc', batchSize: 3 })
+    )
+
+    expect(batches.flat().map(user => `${user.name}:${user.id}`)).toEqual([
+      'Odd:9',
+      'Odd:7',
+      'Odd:5',
+      'Even:10',
+      'Even:8',
+      'Even:6',
+      'Even:4',
+      'Charlie:3',
+      'Bob:2',
+      'Alice:1'
+    ])
+  })
+
+  it('should reject invalid order-by columns', async () => {
+    const users = createUsers(db)
+
+    await expect(collect(users.stream({ orderBy: 'name; DROP TABLE users' }))).rejects.toThrow()
+  })
+
+  it('should apply executor plugins to every batch', async () => {
+    const executor = await createExecutor(db, [softDeletePlugin()])
+    const users = createUsers(executor)
+
+    const batches = await collect(users.stream({ batchSize: 2 }))
+
+    expect(batches.flat().map(user => user.id)).toEqual([1, 2, 3, 5, 6, 8, 9])
+    expect(batches.flat().every(user => !user.deleted)).toBe(true)
+  })
+
+  it('should stream through repositories using a request loader', async () => {
+    const users = createUsers(db).withLoader(createRequestLoader())
+
+    const batches = await collect(users.stream({ batchSize: 5 }))
+
+    expect(batches.flat()).toHaveLength(10)
+  })
+
+  it('should stream within a transaction', async () => {
+    const users = createUsers(db)
+
+    const ids = await users.transaction(async trx => {
+      await trx.deleteFrom('users').where('id', '>', 3).execute()
+      const scoped = createUsers(trx)
+      return (await collect(scoped.stream({ batchSize: 2 }))).flat().map(user => user.id)
+    })
+
+    expect(ids).toEqual([1, 2, 3])
+  })
+
+  it('should stop when the signal is aborted', async () => {
+    const users = createUsers(db)
+    queries = 0
+    const controller = new AbortController()
+    const seen: number[] = []
+
+    const run = async () => {
+      for await (const batch of users.stream({ batchSize: 3, signal: controller.signal })) {
+        seen.push(...batch.map(user => user.id))
+        controller.abort(new Error('backfill cancelled'))
+      }
+    }
+
+    await expect(run()).rejects.toThrow('backfill cancelled')
+    expect(seen).toEqual([1, 2, 3])
+    expect(queries).toBe(1)
+  })
+
+  it('should stream through the driver with native', async () => {
+    const users = createUsers(db)
+
+    const batches = await collect(users.stream({ batchSize: 4, native: true }))
+
+    expect(batches.map(batch => batch.length)).toEqual([4, 4, 2])
+    expect(batches.flat().map(user => user.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+  })
+})
@@ -0,0 +1,501 @@
+/**
+ * RLS Schema Analyzer
+ *
+ * Statically checks an RLS schema for coverage gaps, unreachable deny policies,
+ * misleading priorities and references to columns that do not exist.
+ *
+ * @module @kysera/rls/analysis/analyzer
+ */
+
+import type { Kysely } from 'kysely'
+import type {
+  ConditionalPolicyDefinition,
+  PolicyDefinition,
+  PolicyEvaluationContext,
+  PolicyType,
+  RLSAuthContext,
+  RLSSchema,
+  TableRLSConfig
+} from '../policy/types.js'
+import { normalizeOperations } from '../utils/helpers.js'
+import type {
+  AnalyzedOperation,
+  RLSAnalysisOptions,
+  RLSAnalysisReport,
+  RLSLintIssue,
+  RLSLintRule,
+  RLSLintSeverity,
+  RLSOperationCoverage,
+  RLSTableCoverage
+} from './types.js'
+
+const OPERATIONS: readonly AnalyzedOperation[] = ['read', 'create', 'update', 'delete']
+
+/**
+ * Properties read by runtimes and libraries rather than by policy code
+ */
+const IGNORED_PROPERTIES = new Set(['then', 'toJSON', 'constructor', 'valueOf', 'toString'])
+
+/**
+ * Auth context used to evaluate conditions when none is given
+ */
+const DEFAULT_AUTH: RLSAuthContext = {
+  userId: 'rls-lint',
+  roles: [],
+  tenantId: 'rls-lint',
+  organizationIds: [],
+  permissions: [],
+  attributes: {},
+  isSystem: false
+}
+
+/**
+ * Policy with the information gathered by evaluating its condition
+ */
+interface AnalyzedPolicy {
+  name: string
+  type: PolicyType
+  operations: AnalyzedOperation[]
+  priority: number
+  /** Result of a condition that does not read the context */
+  constant?: boolean
+  /** Whether the policy has no activation condition */
+  alwaysActive: boolean
+  /** Columns read from ctx.row/ctx.data or returned by a filter */
+  columns: Set<string>
+  /** Why the condition could not be analyzed */
+  unanalyzable?: string
+}
+
+type IssueSink = (
+  rule: RLSLintRule,
+  severity: RLSLintSeverity,
+  issue: Omit<RLSLintIssue, 'rule' | 'severity'>
+) => void
+
+/**
+ * Analyze an RLS schema
+ *
+ * Evaluates every policy condition against a sample context (recording the
+ * columns it reads) and reports:
+ * - operations without a restricting policy (`missing-policy`)
+ * - tables with `defaultDeny: false` (`no-default-deny`)
+ * - deny policies that can never be the one that matches (`unreachable-deny`)
+ * - allow priorities that look like they override denies (`overlapping-priority`)
+ * - columns, tables and database tables unknown to the other side
+ *   (`unknown-column`, `unknown-table`, `uncovered-table`; requires `columns`)
+ *
+ * The analysis never throws for bad policies; conditions that cannot be
+ * evaluated are reported as `unanalyzable-policy`.
+ *
+ * @param schema - RLS schema to analyze
+ * @param options - Analysis options
+ * @returns Coverage per table and issues found
+ *
+ * @example
+ * ```typescript
+ * const report = analyzeRLSSchema(schema, {
+ *   columns: await introspectRLSColumns(db),
+ *   excludeTables: ['kysely_migration']
+ * });
+ *
+ * if (report.summary.errors > 0) {
+ *   console.error(report.issues);
+ * }
+ * ```
+ */
+export function analyzeRLSSchema<DB = unknown>(
+  schema: RLSSchema<DB>,
+  options: RLSAnalysisOptions = {}
+): RLSAnalysisReport {
+  const excluded = new Set(options.excludeTables ?? [])
+  const auth: RLSAuthContext = { ...DEFAULT_AUTH, ...options.auth }
+  const issues: RLSLintIssue[] = []
+
+  const report: IssueSink = (rule, severity, issue) => {
+    const override = options.rules?.[rule]
+    if (override === 'off') return
+    issues.push({ rule, severity: override ?? severity, ...issue })
+  }
+
+  const tables: RLSTableCoverage[] = []
+
+  for (const [table, config] of Object.entries(schema) as [string, TableRLSConfig | undefined][]) {
+    if (!config || excluded.has(table)) continue
+
+    const policies = config.policies.map((policy, index) =>
+      analyzePolicy(policy, table, index, auth)
+    )
+    const coverage = buildCoverage(table, config, policies)
+    tables.push(coverage)
+
+    const columns = options.columns?.[table]
+    if (options.columns && !columns) {
+      report('unknown-table', 'error', {
+        table,
+        message: `Table "${table}" has RLS policies but does not exist in the database`
+      })
+    }
+
+    checkCoverage(coverage, report)
+    checkUnreachableDenies(table, policies, report)
+    checkPriorities(table, policies, report)
+    checkPolicies(table, policies, columns, report)
+  }
+
+  if (options.columns) {
+    for (const table of Object.keys(options.columns).sort()) {
+      if (excluded.has(table) || table in schema) continue
+      report('uncovered-table', 'warning', {
+        table,
+        message: `Table "${table}" has no RLS configuration: queries on it are not restricted`
+      })
+    }
+  }
+
+  return {
+    tables,
+    issues,
+    summary: {
+      tables: tables.length,
+      errors: issues.filter(i => i.severity === 'error').length,
+      warnings: issues.filter(i => i.severity === 'warning').length,
+      infos: issues.filter(i => i.severity === 'info').length
+    }
+  }
+}
+
+/**
+ * Read the columns of all database tables for analyzeRLSSchema
+ *
+ * @param db - Kysely instance
+ * @returns Column names per table name
+ */
+export async function introspectRLSColumns<DB>(db: Kysely<DB>): Promise<Record<string, string[]>> {
+  const tables = await db.introspection.getTables()
+  return Object.fromEntries(tables.map(t => [t.name, t.columns.map(c => c.name)]))
+}
+
+// ============================================================================
+// Policy evaluation
+// ============================================================================
+
+/**
+ * Evaluate a policy condition against a recording context
+ */
+function analyzePolicy(
+  policy: PolicyDefinition,
+  table: string,
+  index: number,
+  auth: RLSAuthContext
+): AnalyzedPolicy {
+  const analyzed: AnalyzedPolicy = {
+    // Same defaults as PolicyRegistry, so names match runtime errors
+    name: policy.name ?? `${table}_policy_${index}`,
+    type: policy.type,
+    operations:
+      policy.type === 'filter'
+        ? ['read']
+        : (normalizeOperations(policy.operation) as AnalyzedOperation[]),
+    priority: policy.priority ?? defaultPriority(policy.type),
+    alwaysActive: (policy as ConditionalPolicyDefinition).activationCondition === undefined,
+    columns: new Set()
+  }
+
+  const condition: unknown = policy.condition
+  if (typeof condition === 'string') {
+    // SQL expression for native RLS
+    return analyzed
+  }
+
+  if (typeof condition !== 'function') {
+    if (policy.type === 'filter' && condition !== null && typeof condition === 'object') {
+      addColumns(analyzed.columns, Object.keys(condition))
+    }
+    return analyzed
+  }
+
+  let touched = false
+  const base: PolicyEvaluationContext = {
+    auth,
+    row: createColumnRecorder(analyzed.columns),
+    data: createColumnRecorder(analyzed.columns),
+    meta: {},
+    table,
+    operation: analyzed.operations[0] ?? 'read'
+  }
+  const ctx = new Proxy(base, {
+    get(target, prop, receiver) {
+      touched = true
+      return Reflect.get(target, prop, receiver)
+    }
+  })
+
+  let result: unknown
+  try {
+    result = (condition as (ctx: PolicyEvaluationContext) => unknown)(ctx)
+  } catch (error) {
+    // Conditions throw on the recorder's undefined row values; columns read so far still count
+    if (policy.type === 'filter') {
+      analyzed.unanalyzable = `condition throws: ${error instanceof Error ? error.message : String(error)}`
+    }
+    return analyzed
+  }
+
+  if (isThenable(result)) {
+    result.then(undefined, () => undefined)
+    if (policy.type === 'filter') {
+      analyzed.unanalyzable = 'condition is async'
+    }
+    return analyzed
+  }
+
+  if (policy.type === 'filter') {
+    if (result !== null && typeof result === 'object') {
+      addColumns(analyzed.columns, Object.keys(result))
+    } else {
+      analyzed.unanalyzable = 'condition does not return an object'
+    }
+  } else if (!touched && typeof result === 'boolean') {
+    analyzed.constant = result
+  }
+
+  return analyzed
+}
+
+/**
+ * Object that records every property read from it
+ */
+function createColumnRecorder(columns: Set<string>): Record<string, unknown> {
+  return new Proxy(
+    {},
+    {
+      get(_target, prop) {
+        if (typeof prop === 'string' && !IGNORED_PROPERTIES.has(prop)) {
+          columns.add(prop)
+        }
+        return undefined
+      },
+      has(_target, prop) {
+        if (typeof prop === 'string') {
+          columns.add(prop)
+        }
+        return false
+      }
+    }
+  )
+}
+
+function addColumns(columns: Set<string>, keys: string[]): void {
+  for (const key of keys) {
+    // Strip table qualifiers ('posts.tenant_id')
+    columns.add(key.slice(key.lastIndexOf('.') + 1))
+  }
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as { then?: unknown }).then === 'function'
+  )
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Build the per-operation coverage of a table
+ */
+function buildCoverage(
+  table: string,
+  config: TableRLSConfig,
+  policies: AnalyzedPolicy[]
+): RLSTableCoverage {
+  const defaultDeny = config.defaultDeny ?? true
+  const operations = {} as Record<AnalyzedOperation, RLSOperationCoverage>
+
+  for (const operation of OPERATIONS) {
+    const applying = policies.filter(p => p.operations.includes(operation))
+    const names = (type: PolicyType): string[] =>
+      applying.filter(p => p.type === type).map(p => p.name)
+
+    const coverage: RLSOperationCoverage = {
+      effect: 'open',
+      allows: names('allow'),
+      denies: names('deny'),
+      filters: names('filter'),
+      validates: names('validate')
+    }
+
+    if (operation === 'read') {
+      // SELECT queries are only restricted by filters
+      coverage.effect = coverage.filters.length > 0 ? 'filtered' : 'open'
+    } else if (applying.some(p => p.type === 'deny' && p.constant === true && p.alwaysActive)) {
+      coverage.effect = 'denied'
+    } else if (coverage.allows.length > 0) {
+      coverage.effect = 'guarded'
+    } else if (defaultDeny) {
+      coverage.effect = 'denied'
+    } else if (coverage.denies.length > 0 || coverage.validates.length > 0) {
+      coverage.effect = 'guarded'
+    }
+
+    operations[operation] = coverage
+  }
+
+  return { table, defaultDeny, skipFor: config.skipFor ?? [], operations }
+}
+
+/**
+ * Report operations that are not restricted, or denied to everyone
+ */
+function checkCoverage(coverage: RLSTableCoverage, report: IssueSink): void {
+  const { table } = coverage
+
+  if (!coverage.defaultDeny) {
+    report('no-default-deny', 'warning', {
+      table,
+      message: `Table "${table}" sets defaultDeny: false: mutations without a matching allow policy are permitted`
+    })
+  }
+
+  for (const operation of OPERATIONS) {
+    const { effect, allows } = coverage.operations[operation]
+
+    if (operation === 'read' && effect === 'open') {
+      report('missing-policy', 'warning', {
+        table,
+        operation,
+        message: `Table "${table}" has no filter policy: every row is visible to reads`
+      })
+    } else if (effect === 'open') {
+      report('missing-policy', 'warning', {
+        table,
+        operation,
+        message: `Table "${table}" has no ${operation} policies and defaultDeny is false: anyone can ${operation} rows`
+      })
+    } else if (effect === 'denied' && allows.length === 0) {
+      report('missing-policy', 'info', {
+        table,
+        operation,
+        message: `Table "${table}" has no allow policy for ${operation}: it is denied to everyone except bypass roles`
+      })
+    }
+  }
+}
+
+/**
+ * Report deny policies that never match, or are always preceded by a deny that does
+ */
+function checkUnreachableDenies(
+  table: string,
+  policies: AnalyzedPolicy[],
+  report: IssueSink
+): void {
+  // Same order as PolicyRegistry (stable sort, highest priority first)
+  const denies = policies.filter(p => p.type === 'deny').sort((a, b) => b.priority - a.priority)
+
+  for (const [index, deny] of denies.entries()) {
+    if (deny.constant === false) {
+      report('unreachable-deny', 'warning', {
+        table,
+        policy: deny.name,
+        message: `Deny policy "${deny.name}" never matches: its condition is always false`
+      })
+      continue
+    }
+
+    const shadowing = deny.operations.map(operation =>
+      denies
+        .slice(0, index)
+        .find(d => d.constant === true && d.alwaysActive && d.operations.includes(operation))
+    )
+
+    if (shadowing.length > 0 && shadowing.every(d => d !== undefined)) {
+      const names = [...new Set(shadowing.map(d => `"${d.name}"`))].join(', ')
+      report('unreachable-deny', 'warning', {
+        table,
+        policy: deny.name,
+        message: `Deny policy "${deny.name}" is unreachable: ${names} always denies first`
+      })
+    }
+  }
+}
+
+/**
+ * Report priorities that suggest an evaluation order that does not hold
+ */
+function checkPriorities(table: string, policies: AnalyzedPolicy[], report: IssueSink): void {
+  for (const [i, first] of policies.entries()) {
+    for (const second of policies.slice(i + 1)) {
+      const shared = first.operations.filter(op => second.operations.includes(op))
+      if (shared.length === 0) continue
+
+      const allow = first.type === 'allow' ? first : second.type === 'allow' ? second : undefined
+      const deny = first.type === 'deny' ? first : second.type === 'deny' ? second : undefined
+
+      if (allow && deny && allow.priority >= deny.priority) {
+        report('overlapping-priority', 'warning', {
+          table,
+          policy: allow.name,
+          message:
+            `Allow policy "${allow.name}" (priority ${allow.priority}) does not override deny policy ` +
+            `"${deny.name}" (priority ${deny.priority}) on ${shared.join(', ')}: deny policies are always evaluated first`
+        })
+      } else if (
+        first.type === second.type &&
+        first.type !== 'filter' &&
+        first.priority === second.priority &&
+        first.priority !== defaultPriority(first.type)
+      ) {
+        report('overlapping-priority', 'info', {
+          table,
+          policy: second.name,
+          message:
+            `Policies "${first.name}" and "${second.name}" share priority ${first.priority} ` +
+            `on ${shared.join(', ')}: they are evaluated in definition order`
+        })
+      }
+    }
+  }
+}
+
+/**
+ * Report unknown columns and conditions that could not be analyzed
+ */
+function checkPolicies(
+  table: string,
+  policies: AnalyzedPolicy[],
+  columns: readonly string[] | undefined,
+  report: IssueSink
+): void {
+  const known = columns ? new Set(columns) : undefined
+
+  for (const policy of policies) {
+    if (policy.unanalyzable) {
+      report('unanalyzable-policy', 'info', {
+        table,
+        policy: policy.name,
+        message: `Policy "${policy.name}" could not be analyzed: ${policy.unanalyzable}`
+      })
+    }
+
+    if (!known) continue
+
+    for (const column of policy.columns) {
+      if (known.has(column)) continue
+      report('unknown-column', 'error', {
+        table,
+        policy: policy.name,
+        column,
+        message: `Policy "${policy.name}" references column "${column}", which does not exist in "${table}"`
+      })
+    }
+  }
+}
+
+function defaultPriority(type: PolicyType): number {
+  return type === 'deny' ? 100 : 0
+}
@@ -0,0 +1,23 @@
+/**
+ * Schema Analysis Module
+ *
+ * Provides static analysis (linting) of RLS schemas.
+ *
+ * @module @kysera/rls/analysis
+ */
+
+// Types
+export type {
+  AnalyzedOperation,
+  RLSLintSeverity,
+  RLSLintRule,
+  RLSLintIssue,
+  RLSOperationEffect,
+  RLSOperationCoverage,
+  RLSTableCoverage,
+  RLSAnalysisOptions,
+  RLSAnalysisReport
+} from './types.js'
+
+// Analyzer
+export { analyzeRLSSchema, introspectRLSColumns } from './analyzer.js'
@@ -0,0 +1,162 @@
+/**
+ * Schema Analysis Types
+ *
+ * Types for static analysis (linting) of RLS schemas.
+ *
+ * @module @kysera/rls/analysis/types
+ */
+
+import type { Operation, RLSAuthContext } from '../policy/types.js'
+
+/**
+ * Concrete operation analyzed per table ('all' is expanded)
+ */
+export type AnalyzedOperation = Exclude<Operation, 'all'>
+
+/**
+ * Severity of a lint issue
+ */
+export type RLSLintSeverity = 'error' | 'warning' | 'info'
+
+/**
+ * Lint rules reported by analyzeRLSSchema
+ *
+ * - `missing-policy`: an operation has no policy that restricts it
+ * - `no-default-deny`: a table sets `defaultDeny: false`
+ * - `unreachable-deny`: a deny policy can never be the one that matches
+ * - `overlapping-priority`: policy priorities suggest an evaluation order that does not hold
+ * - `unknown-column`: a policy references a column that does not exist
+ * - `unknown-table`: a schema table does not exist in the database
+ * - `uncovered-table`: a database table has no RLS configuration
+ * - `unanalyzable-policy`: a policy condition could not be evaluated statically
+ */
+export type RLSLintRule =
+  | 'missing-policy'
+  | 'no-default-deny'
+  | 'unreachable-deny'
+  | 'overlapping-priority'
+  | 'unknown-column'
+  | 'unknown-table'
+  | 'uncovered-table'
+  | 'unanalyzable-policy'
+
+/**
+ * A single finding of the schema analysis
+ */
+export interface RLSLintIssue {
+  /** Rule that produced the issue */
+  rule: RLSLintRule
+
+  /** Issue severity */
+  severity: RLSLintSeverity
+
+  /** Table the issue belongs to */
+  table: string
+
+  /** Human-readable description */
+  message: string
+
+  /** Policy name, if the issue concerns a policy */
+  policy?: string
+
+  /** Operation, if the issue concerns a single operation */
+  operation?: AnalyzedOperation
+
+  /** Column name, for `unknown-column` issues */
+  column?: string
+}
+
+/**
+ * Effective behavior of an operation on a table
+ *
+ * - `filtered`: reads are restricted by filter policies
+ * - `guarded`: mutations are checked by allow/deny/validate policies
+ * - `denied`: the operation is always denied (except for bypass roles)
+ * - `open`: the operation is not restricted at all
+ */
+export type RLSOperationEffect = 'filtered' | 'guarded' | 'denied' | 'open'
+
+/**
+ * Policies applying to one operation of a table
+ */
+export interface RLSOperationCoverage {
+  /** Effective behavior of the operation */
+  effect: RLSOperationEffect
+
+  /** Names of allow policies */
+  allows: string[]
+
+  /** Names of deny policies */
+  denies: string[]
+
+  /** Names of filter policies */
+  filters: string[]
+
+  /** Names of validate policies */
+  validates: string[]
+}
+
+/**
+ * Policy coverage of a table
+ */
+export interface RLSTableCoverage {
+  /** Table name */
+  table: string
+
+  /** Effective defaultDeny setting */
+  defaultDeny: boolean
+
+  /** Roles that bypass the table's policies */
+  skipFor: string[]
+
+  /** Coverage per operation */
+  operations: Record<AnalyzedOperation, RLSOperationCoverage>
+}
+
+/**
+ * Options for analyzeRLSSchema
+ */
+export interface RLSAnalysisOptions {
+  /**
+   * Columns per table, usually from introspectRLSColumns()
+   * Enables the `unknown-column`, `unknown-table` and `uncovered-table` rules
+   */
+  columns?: Record<string, readonly string[]>
+
+  /**
+   * Tables to leave out of the analysis (e.g. migration bookkeeping tables)
+   */
+  excludeTables?: string[]
+
+  /**
+   * Override the severity of rules, or turn them off
+   *
+   * @example { 'uncovered-table': 'off', 'missing-policy': 'error' }
+   */
+  rules?: Partial<Record<RLSLintRule, RLSLintSeverity | 'off'>>
+
+  /**
+   * Auth context used to evaluate policy conditions
+   * Defaults to a regular user without roles
+   */
+  auth?: Partial<RLSAuthContext>
+}
+
+/**
+ * Result of analyzeRLSSchema
+ */
+export interface RLSAnalysisReport {
+  /** Coverage of every analyzed table */
+  tables: RLSTableCoverage[]
+
+  /** Issues found, grouped by table */
+  issues: RLSLintIssue[]
+
+  /** Issue counts */
+  summary: {
+    tables: number
+    errors: number
+    warnings: number
+    infos: number
+  }
+}
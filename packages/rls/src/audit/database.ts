@@ -0,0 +1,488 @@
+/**
+ * Database Audit Adapter
+ *
+ * Stores RLS audit events in a database table through Kysely.
+ *
+ * @module @kysera/rls/audit/database
+ */
+
+import type { Generated, Kysely, SelectQueryBuilder } from 'kysely'
+import { detectDialect, type Dialect } from '@kysera/core'
+import type { Operation } from '../policy/types.js'
+import type {
+  RLSAuditEvent,
+  RLSAuditAdapter,
+  AuditDecision,
+  AuditQueryParams,
+  AuditStats
+} from './types.js'
+
+/** Default audit table name */
+export const DEFAULT_RLS_AUDIT_TABLE = 'rls_audit_log'
+
+/**
+ * Row stored in the audit table.
+ * Times are epoch milliseconds so that they compare the same way on every dialect.
+ * Some drivers return `bigint` columns as strings (e.g. PostgreSQL int8).
+ */
+export interface RLSAuditRow {
+  id: number | string
+  created_at: number | string
+  user_id: string
+  tenant_id: string | null
+  operation: string
+  table_name: string
+  policy_name: string | null
+  decision: string
+  reason: string | null
+  /** JSON-encoded context */
+  context: string | null
+  /** JSON-encoded row IDs */
+  row_ids: string | null
+  query_hash: string | null
+  request_id: string | null
+  ip_address: string | null
+  user_agent: string | null
+  duration_ms: number | null
+}
+
+/**
+ * Database shape used internally for the audit table, keyed by table name
+ * @internal
+ */
+type RLSAuditDatabase = Record<string, Omit<RLSAuditRow, 'id'> & { id: Generated<number | string> }>
+
+/**
+ * Options for DatabaseAuditAdapter
+ */
+export interface DatabaseAuditAdapterOptions {
+  /**
+   * Audit table name
+   * @default 'rls_audit_log'
+   */
+  tableName?: string
+
+  /**
+   * Number of buffered events that triggers a write, and maximum rows per INSERT
+   * @default 100
+   */
+  batchSize?: number
+
+  /**
+   * Maximum time to buffer events before writing them (ms); 0 disables the timer
+   * @default 5000 (5 seconds)
+   */
+  flushInterval?: number
+
+  /**
+   * Error handler for writes started by the flush timer
+   */
+  onError?: (error: Error, events: RLSAuditEvent[]) => void
+}
+
+/**
+ * Database audit adapter
+ *
+ * Writes audit events to a table created with {@link createRLSAuditTable}.
+ * Events passed to `log()` are buffered and written in batches when `batchSize`
+ * is reached, when the flush timer fires or on `flush()`; `logBatch()` writes
+ * immediately. Failed buffered writes are kept for the next flush.
+ *
+ * Pass a Kysely instance without the RLS plugin, so that audit writes are not
+ * subject to RLS themselves.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new DatabaseAuditAdapter(db, { batchSize: 50 });
+ * const audit = createAuditLogger({ adapter });
+ *
+ * const denials = await adapter.query({ decision: 'deny', table: 'posts', limit: 20 });
+ * const stats = await adapter.getStats({ startTime: lastWeek });
+ *
+ * await audit.close(); // Flushes and closes the adapter
+ * ```
+ */
+export class DatabaseAuditAdapter implements RLSAuditAdapter {
+  private db: Kysely<RLSAuditDatabase>
+  private dialect: Dialect
+  private tableName: string
+  private batchSize: number
+  private onError: DatabaseAuditAdapterOptions['onError']
+  private buffer: RLSAuditEvent[] = []
+  private pending: Promise<void> = Promise.resolve()
+  private flushTimer: NodeJS.Timeout | null = null
+  private closed = false
+
+  constructor(db: Kysely<unknown>, options: DatabaseAuditAdapterOptions = {}) {
+    this.db = db as unknown as Kysely<RLSAuditDatabase>
+    this.dialect = detectDialect(db)
+    this.tableName = options.tableName ?? DEFAULT_RLS_AUDIT_TABLE
+    this.batchSize = Math.max(1, options.batchSize ?? 100)
+    this.onError = options.onError
+
+    const flushInterval = options.flushInterval ?? 5000
+    if (flushInterval > 0) {
+      this.flushTimer = setInterval(() => {
+        const events = [...this.buffer]
+        this.flush().catch((error: unknown) => {
+          this.onError?.(error instanceof Error ? error : new Error(String(error)), events)
+        })
+      }, flushInterval)
+
+      // Don't block process exit
+      this.flushTimer.unref()
+    }
+  }
+
+  /**
+   * Buffer an event (written immediately once the adapter is closed)
+   */
+  async log(event: RLSAuditEvent): Promise<void> {
+    this.buffer.push(event)
+    if (this.closed || this.buffer.length >= this.batchSize) {
+      await this.flush()
+    }
+  }
+
+  /**
+   * Write events in batches of `batchSize` rows
+   */
+  async logBatch(events: RLSAuditEvent[]): Promise<void> {
+    await this.enqueue(() => this.write(events))
+  }
+
+  /**
+   * Write all buffered events
+   */
+  async flush(): Promise<void> {
+    await this.enqueue(async () => {
+      const events = this.buffer
+      this.buffer = []
+      try {
+        await this.write(events)
+      } catch (error) {
+        // Keep the events for the next flush, in order
+        this.buffer = [...events, ...this.buffer]
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Stop the flush timer and write buffered events
+   */
+  async close(): Promise<void> {
+    this.closed = true
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+      this.flushTimer = null
+    }
+    await this.flush()
+  }
+
+  /**
+   * Query stored events, oldest first. Buffered events are written first.
+   * User and tenant IDs are returned as strings.
+   */
+  async query(params: AuditQueryParams = {}): Promise<RLSAuditEvent[]> {
+    await this.flush()
+
+    let query = this.applyFilters(this.db.selectFrom(this.tableName).selectAll(), params)
+      .orderBy('created_at')
+      .orderBy('id')
+    query = this.paginate(query, params.limit, params.offset)
+
+    const rows = await query.execute()
+    return rows.map(row => this.toEvent(row as RLSAuditRow))
+  }
+
+  /**
+   * Aggregate statistics in SQL. Buffered events are written first.
+   */
+  async getStats(params: Omit<AuditQueryParams, 'limit' | 'offset'> = {}): Promise<AuditStats> {
+    await this.flush()
+
+    const select = (): SelectQueryBuilder<RLSAuditDatabase, string, object> =>
+      this.applyFilters(this.db.selectFrom(this.tableName), params)
+
+    const countBy = async (
+      column: 'decision' | 'operation' | 'table_name'
+    ): Promise<{ key: string; count: number | string }[]> =>
+      await select()
+        .select(eb => [eb.ref(column).as('key'), eb.fn.countAll<number | string>().as('count')])
+        .groupBy(column)
+        .execute()
+
+    const byDecision: Record<AuditDecision, number> = { allow: 0, deny: 0, filter: 0 }
+    for (const row of await countBy('decision')) {
+      byDecision[row.key as AuditDecision] = Number(row.count)
+    }
+
+    const byOperation: Record<Operation, number> = {
+      read: 0,
+      create: 0,
+      update: 0,
+      delete: 0,
+      all: 0
+    }
+    for (const row of await countBy('operation')) {
+      byOperation[row.key as Operation] = Number(row.count)
+    }
+
+    const byTable: Record<string, number> = {}
+    for (const row of await countBy('table_name')) {
+      byTable[row.key] = Number(row.count)
+    }
+
+    const denied = await this.paginate(
+      select()
+        .select(eb => ['user_id', eb.fn.countAll<number | string>().as('count')])
+        .where('decision', '=', 'deny')
+        .groupBy('user_id')
+        .orderBy('count', 'desc')
+        .orderBy('user_id'),
+      10
+    ).execute()
+
+    const range = await select()
+      .select(eb => [
+        eb.fn.countAll<number | string>().as('total'),
+        eb.fn.min('created_at').as('start'),
+        eb.fn.max('created_at').as('end')
+      ])
+      .executeTakeFirstOrThrow()
+
+    return {
+      totalEvents: Number(range.total),
+      byDecision,
+      byOperation,
+      byTable,
+      topDeniedUsers: denied.map(row => ({ userId: row.user_id, count: Number(row.count) })),
+      timeRange: {
+        start: range.start === null ? new Date() : new Date(Number(range.start)),
+        end: range.end === null ? new Date() : new Date(Number(range.end))
+      }
+    }
+  }
+
+  /**
+   * Number of buffered events
+   */
+  get bufferSize(): number {
+    return this.buffer.length
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Run writes one after another
+   */
+  private async enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.pending.then(task)
+    this.pending = run.catch(() => undefined)
+    await run
+  }
+
+  /**
+   * Insert events in chunks of batchSize rows
+   */
+  private async write(events: RLSAuditEvent[]): Promise<void> {
+    for (let i = 0; i < events.length; i += this.batchSize) {
+      await this.db
+        .insertInto(this.tableName)
+        .values(events.slice(i, i + this.batchSize).map(toRow))
+        .execute()
+    }
+  }
+
+  /**
+   * Apply query parameters as WHERE conditions
+   */
+  private applyFilters<O>(
+    query: SelectQueryBuilder<RLSAuditDatabase, string, O>,
+    params: Omit<AuditQueryParams, 'limit' | 'offset'>
+  ): SelectQueryBuilder<RLSAuditDatabase, string, O> {
+    if (params.userId !== undefined) {
+      query = query.where('user_id', '=', String(params.userId))
+    }
+    if (params.tenantId !== undefined) {
+      query = query.where('tenant_id', '=', String(params.tenantId))
+    }
+    if (params.table) {
+      query = query.where('table_name', '=', params.table)
+    }
+    if (params.operation) {
+      query = query.where('operation', '=', params.operation)
+    }
+    if (params.decision) {
+      query = query.where('decision', '=', params.decision)
+    }
+    if (params.startTime) {
+      query = query.where('created_at', '>=', params.startTime.getTime())
+    }
+    if (params.endTime) {
+      query = query.where('created_at', '<', params.endTime.getTime())
+    }
+    if (params.requestId) {
+      query = query.where('request_id', '=', params.requestId)
+    }
+    return query
+  }
+
+  /**
+   * Apply LIMIT / OFFSET (OFFSET ... FETCH on MSSQL)
+   */
+  private paginate<O>(
+    query: SelectQueryBuilder<RLSAuditDatabase, string, O>,
+    limit?: number,
+    offset?: number
+  ): SelectQueryBuilder<RLSAuditDatabase, string, O> {
+    if (this.dialect === 'mssql') {
+      if (limit === undefined && offset === undefined) {
+        return query
+      }
+      query = query.offset(offset ?? 0)
+      return limit === undefined ? query : query.fetch(limit)
+    }
+
+    if (limit !== undefined) {
+      query = query.limit(limit)
+    } else if (offset !== undefined) {
+      // SQLite and MySQL only accept OFFSET after LIMIT
+      query = query.limit(Number.MAX_SAFE_INTEGER)
+    }
+    return offset === undefined ? query : query.offset(offset)
+  }
+
+  /**
+   * Convert a stored row to an audit event
+   */
+  private toEvent(row: RLSAuditRow): RLSAuditEvent {
+    const event: RLSAuditEvent = {
+      timestamp: new Date(Number(row.created_at)),
+      userId: row.user_id,
+      operation: row.operation as Operation,
+      table: row.table_name,
+      decision: row.decision as AuditDecision
+    }
+
+    if (row.tenant_id !== null) event.tenantId = row.tenant_id
+    if (row.policy_name !== null) event.policyName = row.policy_name
+    if (row.reason !== null) event.reason = row.reason
+    if (row.context !== null) event.context = JSON.parse(row.context) as Record<string, unknown>
+    if (row.row_ids !== null) event.rowIds = JSON.parse(row.row_ids) as (string | number)[]
+    if (row.query_hash !== null) event.queryHash = row.query_hash
+    if (row.request_id !== null) event.requestId = row.request_id
+    if (row.ip_address !== null) event.ipAddress = row.ip_address
+    if (row.user_agent !== null) event.userAgent = row.user_agent
+    if (row.duration_ms !== null) event.durationMs = row.duration_ms
+
+    return event
+  }
+}
+
+/**
+ * Convert an audit event to a row
+ * @internal
+ */
+function toRow(event: RLSAuditEvent): Omit<RLSAuditRow, 'id'> {
+  return {
+    created_at: event.timestamp.getTime(),
+    user_id: String(event.userId),
+    tenant_id: event.tenantId === undefined ? null : String(event.tenantId),
+    operation: event.operation,
+    table_name: event.table,
+    policy_name: event.policyName ?? null,
+    decision: event.decision,
+    reason: event.reason ?? null,
+    context: event.context === undefined ? null : JSON.stringify(event.context),
+    row_ids: event.rowIds === undefined ? null : JSON.stringify(event.rowIds),
+    query_hash: event.queryHash ?? null,
+    request_id: event.requestId ?? null,
+    ip_address: event.ipAddress ?? null,
+    user_agent: event.userAgent ?? null,
+    duration_ms: event.durationMs ?? null
+  }
+}
+
+/**
+ * Create the audit table and its indexes.
+ * Does nothing if the table already exists. Call it from a migration.
+ *
+ * @example
+ * ```typescript
+ * import { createRLSAuditTable, dropRLSAuditTable } from '@kysera/rls'
+ *
+ * export async function up(db: Kysely<any>): Promise<void> {
+ *   await createRLSAuditTable(db)
+ * }
+ *
+ * export async function down(db: Kysely<any>): Promise<void> {
+ *   await dropRLSAuditTable(db)
+ * }
+ * ```
+ */
+export async function createRLSAuditTable<DB>(
+  db: Kysely<DB>,
+  tableName: string = DEFAULT_RLS_AUDIT_TABLE
+): Promise<void> {
+  const dialect = detectDialect(db)
+
+  // MySQL has no CREATE INDEX IF NOT EXISTS, so check for the table instead
+  const tables = await db.introspection.getTables()
+  if (tables.some(table => table.name === tableName)) {
+    return
+  }
+
+  await db.schema
+    .createTable(tableName)
+    .addColumn(
+      'id',
+      dialect === 'postgres' ? 'bigserial' : dialect === 'sqlite' ? 'integer' : 'bigint',
+      col => {
+        if (dialect === 'mysql') return col.primaryKey().autoIncrement()
+        if (dialect === 'mssql') return col.primaryKey().identity()
+        return col.primaryKey()
+      }
+    )
+    .addColumn('created_at', 'bigint', col => col.notNull())
+    .addColumn('user_id', 'varchar(255)', col => col.notNull())
+    .addColumn('tenant_id', 'varchar(255)')
+    .addColumn('operation', 'varchar(20)', col => col.notNull())
+    .addColumn('table_name', 'varchar(255)', col => col.notNull())
+    .addColumn('policy_name', 'varchar(255)')
+    .addColumn('decision', 'varchar(20)', col => col.notNull())
+    .addColumn('reason', 'text')
+    .addColumn('context', 'text')
+    .addColumn('row_ids', 'text')
+    .addColumn('query_hash', 'varchar(255)')
+    .addColumn('request_id', 'varchar(255)')
+    .addColumn('ip_address', 'varchar(64)')
+    .addColumn('user_agent', 'text')
+    .addColumn('duration_ms', 'double precision')
+    .execute()
+
+  await db.schema
+    .createIndex(`${tableName}_created_at_index`)
+    .on(tableName)
+    .column('created_at')
+    .execute()
+
+  await db.schema
+    .createIndex(`${tableName}_user_id_created_at_index`)
+    .on(tableName)
+    .columns(['user_id', 'created_at'])
+    .execute()
+}
+
+/**
+ * Drop the audit table (and its indexes)
+ */
+export async function dropRLSAuditTable<DB>(
+  db: Kysely<DB>,
+  tableName: string = DEFAULT_RLS_AUDIT_TABLE
+): Promise<void> {
+  await db.schema.dropTable(tableName).ifExists().execute()
+}
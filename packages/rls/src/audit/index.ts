@@ -21,5 +21,15 @@ export type {
 // Adapters
 export { ConsoleAuditAdapter, InMemoryAuditAdapter } from './types.js'
 
+// Database adapter
+export {
+  DatabaseAuditAdapter,
+  createRLSAuditTable,
+  dropRLSAuditTable,
+  DEFAULT_RLS_AUDIT_TABLE,
+  type DatabaseAuditAdapterOptions,
+  type RLSAuditRow
+} from './database.js'
+
 // Logger
 export { AuditLogger, createAuditLogger } from './logger.js'
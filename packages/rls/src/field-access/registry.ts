@@ -239,7 +239,9 @@ export class FieldAccessRegistry<DB = unknown> {
       canRead: config.read ?? (() => true),
       canWrite: config.write ?? (() => true),
       maskedValue: config.maskedValue ?? null,
-      omitWhenHidden: config.omitWhenHidden ?? false
+      omitWhenHidden: config.omitWhenHidden ?? false,
+      // Keep the mask function of maskedField() configs for the processor
+      ...('maskFn' in config && { maskFn: config.maskFn })
     }
   }
 }
@@ -49,6 +49,10 @@ export {
   type CreateRLSContextOptions
 } from './context/index.js'
 
+// Native RLS session context (exported here, not from @kysera/rls/native,
+// so it shares the rlsContext storage of this entry point)
+export { createRLSContextDialect, type RLSContextDialectOptions } from './native/session.js'
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -124,6 +128,7 @@ export {
   type CompositeResolvedData,
   type ResolverCacheProvider,
   type ResolverManagerOptions,
+  type ResolverInvalidationEvent,
   type OrganizationResolvedData,
   type TenantResolvedData,
   type HierarchyResolvedData,
@@ -133,7 +138,11 @@ export {
   ResolverManager,
   // Factory functions
   createResolverManager,
-  createResolver
+  createResolver,
+  // Context creation
+  createResolvedRLSContext,
+  withResolvedRLSContextAsync,
+  getResolvedData
 } from './resolvers/index.js'
 
 // ============================================================================
@@ -250,11 +259,38 @@ export {
   // Adapters
   ConsoleAuditAdapter,
   InMemoryAuditAdapter,
+  DatabaseAuditAdapter,
+  type DatabaseAuditAdapterOptions,
+  type RLSAuditRow,
+  // Migration helpers
+  createRLSAuditTable,
+  dropRLSAuditTable,
+  DEFAULT_RLS_AUDIT_TABLE,
   // Logger
   AuditLogger,
   createAuditLogger
 } from './audit/index.js'
 
+// ============================================================================
+// Schema Analysis
+// ============================================================================
+
+export {
+  // Types
+  type AnalyzedOperation,
+  type RLSLintSeverity,
+  type RLSLintRule,
+  type RLSLintIssue,
+  type RLSOperationEffect,
+  type RLSOperationCoverage,
+  type RLSTableCoverage,
+  type RLSAnalysisOptions,
+  type RLSAnalysisReport,
+  // Analyzer
+  analyzeRLSSchema,
+  introspectRLSColumns
+} from './analysis/index.js'
+
 // ============================================================================
 // Testing Utilities (Phase 3)
 // ============================================================================
@@ -264,6 +300,7 @@ export {
   type PolicyEvaluationResult,
   type FilterEvaluationResult,
   type TestContext,
+  type PolicyTesterOptions,
   // Tester
   PolicyTester,
   createPolicyTester,
@@ -0,0 +1,744 @@
+import type {
+  RLSSchema,
+  TableRLSConfig,
+  PolicyDefinition,
+  PolicyEvaluationContext,
+  Operation,
+  RLSContext,
+  ConditionalPolicyDefinition
+} from '../policy/types.js'
+import type { ReBAcSchema, CompiledReBAcPolicy } from '../rebac/types.js'
+import { ReBAcRegistry } from '../rebac/registry.js'
+import { ReBAcTransformer } from '../rebac/transformer.js'
+import { RLSSchemaError } from '../errors.js'
+
+/**
+ * Pattern for valid SQL identifiers
+ */
+const SAFE_IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*$/
+
+/**
+ * Pattern for SQL type names used in casts (e.g. integer, uuid, varchar(64))
+ */
+const SAFE_TYPE = /^[a-zA-Z_][a-zA-Z0-9_ ]*(\(\d+\))?$/
+
+/**
+ * RLSAuthContext fields synced to PostgreSQL settings by syncContextToPostgres
+ */
+const CONTEXT_SETTINGS = {
+  userId: 'app.user_id',
+  tenantId: 'app.tenant_id',
+  roles: 'app.roles',
+  permissions: 'app.permissions',
+  isSystem: 'app.is_system'
+} as const
+
+type SyncedAuthField = keyof typeof CONTEXT_SETTINGS
+
+/**
+ * Operations ReBAC policies are compiled for (they filter existing rows)
+ */
+const RELATIONSHIP_OPERATIONS = ['read', 'update', 'delete'] as const
+
+/**
+ * Operations filter policies are compiled for, in statement order.
+ * `all` filters existing rows like the ORM does: reads, updates and deletes.
+ */
+const FILTER_OPERATIONS = ['read', 'create', 'update', 'delete'] as const
+
+/**
+ * Scalar context values whose truthiness a condition could branch on
+ */
+const SCALAR_FIELDS = ['userId', 'tenantId', 'isSystem'] as const
+
+/**
+ * Values of the context fields when probing conditions for branches
+ */
+const TRUTHY_PROBE = {
+  userId: 'probe_user',
+  tenantId: 'probe_tenant',
+  roles: ['probe_role'],
+  permissions: ['probe_permission'],
+  isSystem: true
+}
+const FALSY_PROBE = { userId: null, tenantId: null, isSystem: false }
+
+/**
+ * Options for native policy compilation
+ */
+export interface NativePolicyCompilerOptions {
+  /**
+   * SQL types of the scalar context values. With a type, the setting is cast
+   * (`NULLIF(current_setting('app.user_id', true), '')::integer`) so indexes on the
+   * column stay usable; without one, the column is compared as text.
+   */
+  contextTypes?: {
+    userId?: string
+    tenantId?: string
+  }
+  /** Prefix for compiled policy names (default: rls) */
+  policyPrefix?: string
+}
+
+/**
+ * Native policy compiled from Kysera policies
+ */
+export interface CompiledNativePolicy {
+  /** Table name */
+  table: string
+  /** PostgreSQL policy name */
+  name: string
+  /** Operation the policy is created for ('all' = FOR ALL) */
+  operation: Operation
+  /** Permissive policies are OR-ed together, restrictive policies are AND-ed */
+  type: 'permissive' | 'restrictive'
+  /** USING expression (none for INSERT policies) */
+  using?: string
+  /** WITH CHECK expression */
+  withCheck?: string
+  /** Names of the Kysera policies the expressions were compiled from */
+  sources: string[]
+}
+
+/**
+ * Kysera policy that cannot be expressed as native SQL
+ */
+export interface UntranslatablePolicy {
+  /** Table name */
+  table: string
+  /** Kysera policy name */
+  policy: string
+  /** Policy kind */
+  kind: 'filter' | 'rebac'
+  /** Why the policy cannot be translated */
+  reason: string
+}
+
+/**
+ * Result of native policy compilation
+ */
+export interface NativePolicyCompilation {
+  /** Compiled policies, in statement order */
+  policies: CompiledNativePolicy[]
+  /** Policies left out of the compiled policies */
+  untranslatable: UntranslatablePolicy[]
+}
+
+/**
+ * Compilation state of a single Kysera policy
+ * @internal
+ */
+interface Translation {
+  /** Context references that cannot be translated */
+  issues: string[]
+  /** Context markers handed to the policy */
+  markers: WeakMap<object, SyncedAuthField>
+}
+
+/**
+ * Native Policy Compiler
+ * Compiles Kysera filter policies and ReBAC relationship policies into PostgreSQL
+ * USING / WITH CHECK expressions that read the auth context through
+ * `current_setting('app.*')`, as set by syncContextToPostgres.
+ *
+ * Conditions are evaluated with a symbolic context: they must map columns to
+ * literals or to context values (`ctx.auth.userId`, `tenantId`, `roles`, `permissions`,
+ * `isSystem`). Conditions that transform or branch on context values, read other
+ * context fields, are async or use activation conditions are reported as untranslatable.
+ * Branches are found by evaluating the condition again with concrete truthy and falsy
+ * context values: a mapping that changes shape with them is not translated.
+ *
+ * @example
+ * ```typescript
+ * const compiler = new NativePolicyCompiler({ contextTypes: { tenantId: 'integer' } });
+ * const { policies, untranslatable } = compiler.compile(rlsSchema, rebacSchema);
+ * // posts: "tenant_id" = NULLIF(current_setting('app.tenant_id', true), '')::integer
+ * ```
+ */
+export class NativePolicyCompiler {
+  private contextTypes: NonNullable<NativePolicyCompilerOptions['contextTypes']>
+  private policyPrefix: string
+
+  constructor(options: NativePolicyCompilerOptions = {}) {
+    this.contextTypes = options.contextTypes ?? {}
+    this.policyPrefix = options.policyPrefix ?? 'rls'
+
+    for (const [field, type] of Object.entries(this.contextTypes)) {
+      if (type !== undefined && !SAFE_TYPE.test(type)) {
+        throw new RLSSchemaError(`Unsafe SQL type for ${field}: "${type}"`, { field, type })
+      }
+    }
+  }
+
+  /**
+   * Compile the filter policies of an RLS schema and the policies of a ReBAC schema
+   *
+   * Per table, filters and ReBAC policies become one RESTRICTIVE policy per operation:
+   * `read` filters restrict SELECT, `update` and `delete` filters the rows UPDATE and
+   * DELETE can modify (USING), `create` filters the rows INSERT can add (WITH CHECK). Tables without a hand-written
+   * permissive policy get a permissive base policy, since PostgreSQL hides every row
+   * unless a permissive policy passes. System context and `skipFor` roles bypass the
+   * compiled expressions, as in the ORM.
+   *
+   * @param schema - RLS schema
+   * @param rebac - Optional ReBAC schema
+   * @returns Compiled and untranslatable policies
+   */
+  compile<DB>(schema: RLSSchema<DB>, rebac?: ReBAcSchema<DB>): NativePolicyCompilation {
+    const result: NativePolicyCompilation = { policies: [], untranslatable: [] }
+    const rebacRegistry = rebac ? new ReBAcRegistry<DB>(rebac) : undefined
+    const rebacTransformer = rebacRegistry
+      ? new ReBAcTransformer<DB>(rebacRegistry, { dialect: 'postgres' })
+      : undefined
+
+    const tables = new Set([...Object.keys(schema), ...Object.keys(rebac ?? {})])
+    for (const table of tables) {
+      const config = (schema as Record<string, TableRLSConfig | undefined>)[table]
+      const compiled: CompiledNativePolicy[] = []
+
+      compiled.push(...this.compileFilters(table, config, result.untranslatable))
+      if (rebacRegistry && rebacTransformer) {
+        compiled.push(
+          ...this.compileRelationships(
+            table,
+            rebacRegistry,
+            rebacTransformer,
+            result.untranslatable
+          )
+        )
+      }
+      if (compiled.length === 0) {
+        continue
+      }
+
+      // Bypass for system context and skipFor roles
+      const bypass = this.bypassCondition(config?.skipFor ?? [])
+      for (const policy of compiled) {
+        if (policy.using !== undefined) {
+          policy.using = `${bypass} OR (${policy.using})`
+        }
+        if (policy.withCheck !== undefined) {
+          policy.withCheck = `${bypass} OR (${policy.withCheck})`
+        }
+      }
+
+      const hasPermissive = config?.policies.some(
+        p => p.type === 'allow' && (p.using !== undefined || p.withCheck !== undefined)
+      )
+      if (!hasPermissive) {
+        result.policies.push({
+          table,
+          name: `${this.policyPrefix}_${table}_base`,
+          operation: 'all',
+          type: 'permissive',
+          using: 'true',
+          withCheck: 'true',
+          sources: []
+        })
+      }
+      result.policies.push(...compiled)
+    }
+
+    return result
+  }
+
+  /**
+   * Compile the filter policies of a table into one restrictive policy per operation
+   */
+  private compileFilters(
+    table: string,
+    config: TableRLSConfig | undefined,
+    untranslatable: UntranslatablePolicy[]
+  ): CompiledNativePolicy[] {
+    const expressions = new Map<Operation, string[]>()
+    const sources = new Map<Operation, string[]>()
+
+    config?.policies.forEach((policy, i) => {
+      if (policy.type !== 'filter') {
+        return
+      }
+      // Same default name as PolicyRegistry
+      const name = policy.name ?? `${table}_policy_${i}`
+      const translation = createTranslation()
+      const expression = this.compileFilter(policy, translation)
+
+      if (expression === undefined || translation.issues.length > 0) {
+        untranslatable.push({
+          table,
+          policy: name,
+          kind: 'filter',
+          reason: [...new Set(translation.issues)].join('; ')
+        })
+        return
+      }
+      const operations = Array.isArray(policy.operation) ? policy.operation : [policy.operation]
+      for (const operation of FILTER_OPERATIONS) {
+        if (
+          operations.includes(operation) ||
+          (operations.includes('all') && operation !== 'create')
+        ) {
+          expressions.set(operation, [...(expressions.get(operation) ?? []), expression])
+          sources.set(operation, [...(sources.get(operation) ?? []), name])
+        }
+      }
+    })
+
+    return FILTER_OPERATIONS.flatMap(operation => {
+      const compiled = expressions.get(operation)
+      if (!compiled) {
+        return []
+      }
+      const expression = compiled.map(e => `(${e})`).join(' AND ')
+      return [
+        {
+          table,
+          name: `${this.policyPrefix}_${table}_filter_${operation}`,
+          operation,
+          type: 'restrictive' as const,
+          // New rows of an INSERT are checked, existing rows of the other operations filtered
+          ...(operation === 'create' ? { withCheck: expression } : { using: expression }),
+          sources: sources.get(operation) ?? []
+        }
+      ]
+    })
+  }
+
+  /**
+   * Compile a single filter policy into a SQL expression
+   */
+  private compileFilter(policy: PolicyDefinition, translation: Translation): string | undefined {
+    if ((policy as ConditionalPolicyDefinition).activationCondition !== undefined) {
+      translation.issues.push('activation conditions are evaluated at runtime')
+      return undefined
+    }
+    if (typeof policy.condition !== 'function') {
+      translation.issues.push('static filter mappings are not supported')
+      return undefined
+    }
+
+    let conditions: unknown
+    try {
+      conditions = (policy.condition as (ctx: PolicyEvaluationContext) => unknown)(
+        createSymbolicEvalContext(translation)
+      )
+    } catch (error) {
+      // Reading a runtime-only value usually causes the error: report that instead
+      if (translation.issues.length === 0) {
+        translation.issues.push(
+          `condition throws: ${error instanceof Error ? error.message : String(error)}`
+        )
+      }
+      return undefined
+    }
+
+    if (conditions instanceof Promise) {
+      conditions.catch(() => undefined)
+      translation.issues.push('async conditions are not supported')
+      return undefined
+    }
+    if (typeof conditions !== 'object' || conditions === null) {
+      translation.issues.push('condition does not return a column mapping')
+      return undefined
+    }
+    if (translation.issues.length === 0) {
+      const branch = findContextBranch(
+        policy.condition as (ctx: PolicyEvaluationContext) => unknown,
+        conditions as Record<string, unknown>,
+        translation
+      )
+      if (branch !== undefined) {
+        translation.issues.push(branch)
+        return undefined
+      }
+    }
+
+    const parts: string[] = []
+    for (const [column, value] of Object.entries(conditions)) {
+      if (!SAFE_IDENTIFIER.test(column)) {
+        translation.issues.push(`unsupported column reference "${column}"`)
+        continue
+      }
+      const part = this.compileComparison(`"${column}"`, value, translation)
+      if (part !== undefined) {
+        parts.push(part)
+      }
+    }
+
+    return parts.length > 0 ? parts.join(' AND ') : 'true'
+  }
+
+  /**
+   * Compile the ReBAC policies of a table into one restrictive policy per operation
+   */
+  private compileRelationships<DB>(
+    table: string,
+    registry: ReBAcRegistry<DB>,
+    transformer: ReBAcTransformer<DB>,
+    untranslatable: UntranslatablePolicy[]
+  ): CompiledNativePolicy[] {
+    const compiled: CompiledNativePolicy[] = []
+    const reported = new Set<string>()
+
+    for (const operation of RELATIONSHIP_OPERATIONS) {
+      const allows: string[] = []
+      const denies: string[] = []
+      const sources: string[] = []
+
+      for (const policy of registry.getPolicies(table, operation)) {
+        const translation = createTranslation()
+        const expression = this.compileRelationship(
+          policy,
+          table,
+          operation,
+          transformer,
+          translation
+        )
+
+        if (expression === undefined || translation.issues.length > 0) {
+          if (!reported.has(policy.name)) {
+            reported.add(policy.name)
+            untranslatable.push({
+              table,
+              policy: policy.name,
+              kind: 'rebac',
+              reason: [...new Set(translation.issues)].join('; ')
+            })
+          }
+          continue
+        }
+        ;(policy.type === 'deny' ? denies : allows).push(expression)
+        sources.push(policy.name)
+      }
+
+      // Any allow relationship grants access, every deny relationship revokes it
+      const parts = [...(allows.length > 0 ? [allows.join(' OR ')] : []), ...denies]
+      if (parts.length === 0) {
+        continue
+      }
+      compiled.push({
+        table,
+        name: `${this.policyPrefix}_${table}_rebac_${operation}`,
+        operation,
+        type: 'restrictive',
+        using: parts.map(p => `(${p})`).join(' AND '),
+        sources
+      })
+    }
+
+    return compiled
+  }
+
+  /**
+   * Compile a single ReBAC policy into an EXISTS / NOT EXISTS expression
+   */
+  private compileRelationship<DB>(
+    policy: CompiledReBAcPolicy,
+    table: string,
+    operation: Operation,
+    transformer: ReBAcTransformer<DB>,
+    translation: Translation
+  ): string | undefined {
+    let generated: { sql: string; params: unknown[] }
+    try {
+      generated = transformer.generateExistsSql(
+        policy,
+        createSymbolicRLSContext(translation),
+        table,
+        undefined,
+        operation
+      )
+    } catch (error) {
+      // Reading a runtime-only value usually causes the error: report that instead
+      if (translation.issues.length === 0) {
+        translation.issues.push(
+          `end condition throws: ${error instanceof Error ? error.message : String(error)}`
+        )
+      }
+      return undefined
+    }
+
+    const { params } = generated
+    // Comparisons first (they may need a cast), then the remaining placeholders (IN lists)
+    return generated.sql
+      .replace(/("[^"]+"\."[^"]+") = \$(\d+)/g, (_match, column: string, index: string) => {
+        return this.compileComparison(column, params[Number(index) - 1], translation) ?? 'false'
+      })
+      .replace(/\$(\d+)/g, (_match, index: string) => {
+        return compileLiteral(params[Number(index) - 1], translation) ?? 'NULL'
+      })
+  }
+
+  /**
+   * Compile `column = value` for a literal or a context value
+   */
+  private compileComparison(
+    column: string,
+    value: unknown,
+    translation: Translation
+  ): string | undefined {
+    if (value === undefined) {
+      return undefined // Skipped, as in the ORM
+    }
+    if (value === null) {
+      return `${column} IS NULL`
+    }
+
+    const field = typeof value === 'object' ? translation.markers.get(value) : undefined
+    if (field !== undefined) {
+      return this.compileContextComparison(column, field)
+    }
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        return 'false'
+      }
+      const literals = value.map(item => compileLiteral(item, translation))
+      return `${column} IN (${literals.join(', ')})`
+    }
+
+    return `${column} = ${compileLiteral(value, translation)}`
+  }
+
+  /**
+   * Compile `column = <context value>` through current_setting()
+   */
+  private compileContextComparison(column: string, field: SyncedAuthField): string {
+    const setting = `current_setting('${CONTEXT_SETTINGS[field]}', true)`
+
+    switch (field) {
+      case 'roles':
+      case 'permissions':
+        return `${column}::text = ANY(string_to_array(${setting}, ','))`
+      case 'isSystem':
+        return `${column} = (${setting} = 'true')`
+      default: {
+        const type = this.contextTypes[field]
+        return type !== undefined
+          ? `${column} = NULLIF(${setting}, '')::${type}`
+          : `${column}::text = ${setting}`
+      }
+    }
+  }
+
+  /**
+   * Condition under which compiled policies do not apply
+   */
+  private bypassCondition(skipFor: string[]): string {
+    const system = `current_setting('${CONTEXT_SETTINGS.isSystem}', true) = 'true'`
+    if (skipFor.length === 0) {
+      return system
+    }
+    const roles = skipFor.map(role => `'${role.replace(/'/g, "''")}'`).join(', ')
+    return `${system} OR string_to_array(current_setting('${CONTEXT_SETTINGS.roles}', true), ',') && ARRAY[${roles}]::text[]`
+  }
+}
+
+/**
+ * Evaluate a condition with concrete context values and compare the result with
+ * its symbolic mapping. Markers are objects and always truthy, so a condition that
+ * branches on a context value (`ctx.auth.isSystem ? {} : { ... }`) gives a mapping
+ * of one branch only. Probes set every scalar field truthy, then each one falsy.
+ *
+ * @returns Why the condition cannot be translated, or undefined
+ * @internal
+ */
+function findContextBranch(
+  condition: (ctx: PolicyEvaluationContext) => unknown,
+  symbolic: Record<string, unknown>,
+  translation: Translation
+): string | undefined {
+  const probes: [string | undefined, Record<string, unknown>][] = [
+    [undefined, TRUTHY_PROBE],
+    ...SCALAR_FIELDS.map((field): [string, Record<string, unknown>] => [
+      field,
+      { ...TRUTHY_PROBE, [field]: FALSY_PROBE[field] }
+    ])
+  ]
+
+  for (const [field, auth] of probes) {
+    const reason =
+      field === undefined
+        ? 'condition depends on the values of ctx.auth'
+        : `condition branches on ctx.auth.${field}`
+
+    let result: unknown
+    try {
+      result = condition({ auth } as unknown as PolicyEvaluationContext)
+    } catch {
+      return reason
+    }
+
+    const expected = Object.fromEntries(
+      Object.entries(symbolic).map(([column, value]) => {
+        const marker =
+          typeof value === 'object' && value !== null ? translation.markers.get(value) : undefined
+        return [column, marker === undefined ? value : auth[marker]]
+      })
+    )
+    if (!isSameMapping(expected, result)) {
+      return reason
+    }
+  }
+  return undefined
+}
+
+/**
+ * Compare two column mappings (values compared by identity, lists element-wise)
+ * @internal
+ */
+function isSameMapping(expected: Record<string, unknown>, actual: unknown): boolean {
+  if (typeof actual !== 'object' || actual === null) {
+    return false
+  }
+  const entries = Object.entries(actual)
+  if (entries.length !== Object.keys(expected).length) {
+    return false
+  }
+  return entries.every(([column, value]) => {
+    if (!(column in expected)) {
+      return false
+    }
+    const other = expected[column]
+    if (Array.isArray(value) && Array.isArray(other)) {
+      return value.length === other.length && value.every((item, i) => Object.is(item, other[i]))
+    }
+    if (value instanceof Date && other instanceof Date) {
+      return value.getTime() === other.getTime()
+    }
+    return Object.is(value, other)
+  })
+}
+
+/**
+ * Create the compilation state of a policy
+ * @internal
+ */
+function createTranslation(): Translation {
+  return { issues: [], markers: new WeakMap() }
+}
+
+/**
+ * Compile a literal value
+ * @internal
+ */
+function compileLiteral(value: unknown, translation: Translation): string | undefined {
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "''")}'`
+  }
+  if ((typeof value === 'number' && Number.isFinite(value)) || typeof value === 'bigint') {
+    return String(value)
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false'
+  }
+  if (value instanceof Date) {
+    return `'${value.toISOString()}'`
+  }
+  if (value === null) {
+    return 'NULL'
+  }
+  translation.issues.push(
+    typeof value === 'object' && translation.markers.has(value)
+      ? `ctx.auth.${translation.markers.get(value)} is used inside a list`
+      : `unsupported value: ${String(value)}`
+  )
+  return undefined
+}
+
+/**
+ * Create a marker standing for a context value
+ * @internal
+ */
+function createMarker(field: SyncedAuthField, translation: Translation): object {
+  const report = (): string => {
+    translation.issues.push(`ctx.auth.${field} is transformed or compared at runtime`)
+    return ''
+  }
+
+  const marker: object =
+    field === 'roles' || field === 'permissions'
+      ? new Proxy([], {
+          get(target, prop, receiver) {
+            if (typeof prop === 'string') {
+              translation.issues.push(`ctx.auth.${field} is inspected at runtime`)
+            }
+            return Reflect.get(target, prop, receiver) as unknown
+          }
+        })
+      : { [Symbol.toPrimitive]: report, toString: report, valueOf: report, toJSON: report }
+
+  translation.markers.set(marker, field)
+  return marker
+}
+
+/**
+ * Create an auth context whose synced fields are markers
+ * @internal
+ */
+function createSymbolicAuth(translation: Translation): RLSContext['auth'] {
+  const markers = new Map<string, object>()
+  return new Proxy({} as RLSContext['auth'], {
+    get(_target, prop) {
+      if (typeof prop !== 'string') {
+        return undefined
+      }
+      if (prop in CONTEXT_SETTINGS) {
+        const field = prop as SyncedAuthField
+        if (!markers.has(prop)) {
+          markers.set(prop, createMarker(field, translation))
+        }
+        return markers.get(prop)
+      }
+      translation.issues.push(`ctx.auth.${prop} is not synced to PostgreSQL`)
+      return undefined
+    }
+  })
+}
+
+/**
+ * Create an object that reports every property read
+ * @internal
+ */
+function createRuntimeOnly(name: string, translation: Translation): Record<string, unknown> {
+  return new Proxy(
+    {},
+    {
+      get(_target, prop) {
+        if (typeof prop === 'string') {
+          translation.issues.push(`${name}.${prop} is only available at runtime`)
+        }
+        return undefined
+      }
+    }
+  )
+}
+
+/**
+ * Create the evaluation context passed to filter conditions
+ * @internal
+ */
+function createSymbolicEvalContext(translation: Translation): PolicyEvaluationContext {
+  const auth = createSymbolicAuth(translation)
+  return new Proxy({ auth } as PolicyEvaluationContext, {
+    get(target, prop) {
+      if (prop === 'auth') {
+        return target.auth
+      }
+      if (typeof prop === 'string') {
+        translation.issues.push(`ctx.${prop} is only available at runtime`)
+      }
+      return undefined
+    }
+  })
+}
+
+/**
+ * Create the RLS context passed to ReBAC end conditions
+ * @internal
+ */
+function createSymbolicRLSContext(translation: Translation): RLSContext {
+  return {
+    auth: createSymbolicAuth(translation),
+    meta: createRuntimeOnly('ctx.meta', translation)
+  }
+}
@@ -6,3 +6,14 @@ export {
 } from './postgres.js'
 
 export { RLSMigrationGenerator, type MigrationOptions } from './migration.js'
+
+export {
+  NativePolicyCompiler,
+  type NativePolicyCompilerOptions,
+  type NativePolicyCompilation,
+  type CompiledNativePolicy,
+  type UntranslatablePolicy
+} from './compiler.js'
+
+// createRLSContextDialect (./session.ts) is exported from '@kysera/rls': it reads
+// rlsContext, whose storage belongs to the main entry point
@@ -4,7 +4,7 @@ import { PostgresRLSGenerator, type PostgresRLSOptions } from './postgres.js'
 /**
  * Options for migration generation
  */
-export interface MigrationOptions extends PostgresRLSOptions {
+export interface MigrationOptions<DB = unknown> extends PostgresRLSOptions<DB> {
   /** Migration name */
   name?: string
   /** Include context functions in migration */
@@ -21,7 +21,7 @@ export class RLSMigrationGenerator {
   /**
    * Generate migration file content
    */
-  generateMigration<DB>(schema: RLSSchema<DB>, options: MigrationOptions = {}): string {
+  generateMigration<DB>(schema: RLSSchema<DB>, options: MigrationOptions<DB> = {}): string {
     const { name = 'rls_policies', includeContextFunctions = true, ...generatorOptions } = options
 
     const upStatements = this.generator.generateStatements(schema, generatorOptions)
@@ -1,7 +1,14 @@
 import type { Kysely } from 'kysely'
 import { sql } from 'kysely'
 import type { RLSSchema, TableRLSConfig, PolicyDefinition, Operation } from '../policy/types.js'
+import type { ReBAcSchema } from '../rebac/types.js'
 import { RLSSchemaError } from '../errors.js'
+import {
+  NativePolicyCompiler,
+  type NativePolicyCompilerOptions,
+  type CompiledNativePolicy,
+  type UntranslatablePolicy
+} from './compiler.js'
 
 /**
  * Pattern for valid SQL identifiers (prevents injection in DDL statements)
@@ -39,13 +46,24 @@ function quoteLiteral(value: string, context: string): string {
 /**
  * Options for PostgreSQL RLS generation
  */
-export interface PostgresRLSOptions {
+export interface PostgresRLSOptions<DB = unknown> {
   /** Force RLS on table owners */
   force?: boolean
   /** Schema name (default: public) */
   schemaName?: string
   /** Prefix for generated policy names */
   policyPrefix?: string
+  /** Compile filter policies (and ReBAC policies) to native policies */
+  compilePolicies?: boolean
+  /** ReBAC policies to compile (requires compilePolicies) */
+  rebac?: ReBAcSchema<DB>
+  /** SQL types of the scalar context values, see NativePolicyCompilerOptions */
+  contextTypes?: NativePolicyCompilerOptions['contextTypes']
+  /**
+   * Called for every policy that cannot be compiled. Without it, untranslatable
+   * policies make generation fail with an RLSSchemaError.
+   */
+  onUntranslatable?: (policy: UntranslatablePolicy) => void
 }
 
 /**
@@ -55,19 +73,23 @@ export interface PostgresRLSOptions {
 export class PostgresRLSGenerator {
   /**
    * Generate all PostgreSQL RLS statements from schema
+   *
+   * With `compilePolicies`, filter policies and ReBAC policies are compiled by
+   * NativePolicyCompiler and emitted after the hand-written policies of each table.
    */
-  generateStatements<DB>(schema: RLSSchema<DB>, options: PostgresRLSOptions = {}): string[] {
+  generateStatements<DB>(schema: RLSSchema<DB>, options: PostgresRLSOptions<DB> = {}): string[] {
     const { force = true, schemaName = 'public', policyPrefix = 'rls' } = options
 
     const statements: string[] = []
     const quotedSchema = quoteIdent(schemaName, 'schema name')
+    const compiled = this.compilePolicies(schema, options)
 
-    for (const [table, config] of Object.entries(schema)) {
-      if (!config) continue
+    for (const table of this.getTables(schema, options)) {
+      const config = (schema as Record<string, TableRLSConfig | undefined>)[table]
+      if (!config && !compiled.some(p => p.table === table)) continue
 
       const quotedTable = quoteIdent(table, 'table name')
       const qualifiedTable = `${quotedSchema}.${quotedTable}`
-      const tableConfig = config as TableRLSConfig
 
       // Enable RLS on table
       statements.push(`ALTER TABLE ${qualifiedTable} ENABLE ROW LEVEL SECURITY;`)
@@ -78,18 +100,73 @@ export class PostgresRLSGenerator {
 
       // Generate policies
       let policyIndex = 0
-      for (const policy of tableConfig.policies) {
+      for (const policy of config?.policies ?? []) {
         const rawPolicyName = policy.name ?? `${policyPrefix}_${table}_${policy.type}_${policyIndex++}`
         const policySQL = this.generatePolicy(qualifiedTable, rawPolicyName, policy)
         if (policySQL) {
           statements.push(policySQL)
         }
       }
+
+      // Compiled policies
+      for (const policy of compiled.filter(p => p.table === table)) {
+        statements.push(
+          this.renderPolicy(qualifiedTable, policy.name, {
+            restrictive: policy.type === 'restrictive',
+            role: 'public',
+            operation: policy.operation,
+            using: policy.using,
+            withCheck: policy.withCheck
+          })
+        )
+      }
     }
 
     return statements
   }
 
+  /**
+   * Tables to generate statements for (ReBAC tables only when compiling)
+   */
+  private getTables<DB>(schema: RLSSchema<DB>, options: PostgresRLSOptions<DB>): string[] {
+    const tables = Object.keys(schema)
+    if (options.compilePolicies && options.rebac) {
+      tables.push(...Object.keys(options.rebac).filter(table => !tables.includes(table)))
+    }
+    return tables
+  }
+
+  /**
+   * Compile filter and ReBAC policies when enabled
+   * @throws RLSSchemaError if a policy cannot be compiled and no onUntranslatable handler is set
+   */
+  private compilePolicies<DB>(
+    schema: RLSSchema<DB>,
+    options: PostgresRLSOptions<DB>
+  ): CompiledNativePolicy[] {
+    if (!options.compilePolicies) {
+      return []
+    }
+
+    const compiler = new NativePolicyCompiler({
+      policyPrefix: options.policyPrefix ?? 'rls',
+      ...(options.contextTypes !== undefined && { contextTypes: options.contextTypes })
+    })
+    const { policies, untranslatable } = compiler.compile(schema, options.rebac)
+
+    if (untranslatable.length > 0) {
+      if (!options.onUntranslatable) {
+        const list = untranslatable.map(p => `${p.table}.${p.policy} (${p.reason})`).join(', ')
+        throw new RLSSchemaError(`Policies cannot be compiled to native RLS: ${list}`, {
+          policies: untranslatable.map(p => `${p.table}.${p.policy}`)
+        })
+      }
+      untranslatable.forEach(options.onUntranslatable)
+    }
+
+    return policies
+  }
+
   /**
    * Generate a single policy statement
    */
@@ -104,19 +181,37 @@ export class PostgresRLSGenerator {
       return null
     }
 
+    return this.renderPolicy(table, name, {
+      restrictive: policy.type === 'deny',
+      role: policy.role ?? 'public',
+      operation: policy.operation,
+      using: policy.using,
+      withCheck: policy.withCheck
+    })
+  }
+
+  /**
+   * Render a CREATE POLICY statement
+   */
+  private renderPolicy(
+    table: string,
+    name: string,
+    policy: {
+      restrictive: boolean
+      role: string
+      operation: Operation | Operation[]
+      using: string | undefined
+      withCheck: string | undefined
+    }
+  ): string {
     const quotedName = quoteIdent(name, 'policy name')
     const parts: string[] = [`CREATE POLICY ${quotedName}`, `ON ${table}`]
 
     // Policy type
-    if (policy.type === 'deny') {
-      parts.push('AS RESTRICTIVE')
-    } else {
-      parts.push('AS PERMISSIVE')
-    }
+    parts.push(policy.restrictive ? 'AS RESTRICTIVE' : 'AS PERMISSIVE')
 
     // Target role — validate to prevent injection
-    const role = policy.role ?? 'public'
-    parts.push(`TO ${quoteIdent(role, 'role name')}`)
+    parts.push(`TO ${quoteIdent(policy.role, 'role name')}`)
 
     // Operation
     parts.push(`FOR ${this.mapOperation(policy.operation)}`)
@@ -221,7 +316,7 @@ AS $$ SELECT COALESCE(current_setting('app.is_system', true), 'false')::boolean
   /**
    * Generate DROP statements for cleaning up
    */
-  generateDropStatements<DB>(schema: RLSSchema<DB>, options: PostgresRLSOptions = {}): string[] {
+  generateDropStatements<DB>(schema: RLSSchema<DB>, options: PostgresRLSOptions<DB> = {}): string[] {
     const { schemaName = 'public', policyPrefix = 'rls' } = options
     const statements: string[] = []
     const quotedSchema = quoteIdent(schemaName, 'schema name')
@@ -234,7 +329,7 @@ AS $$ SELECT COALESCE(current_setting('app.is_system', true), 'false')::boolean
       )
     }
 
-    for (const table of Object.keys(schema)) {
+    for (const table of this.getTables(schema, options)) {
       const quotedTable = quoteIdent(table, 'table name')
       const qualifiedTable = `${quotedSchema}.${quotedTable}`
 
@@ -263,7 +358,8 @@ END $$;`
 
 /**
  * Sync RLS context to PostgreSQL session settings
- * Call this at the start of each request/transaction
+ * Call this at the start of each transaction: the settings are transaction-local.
+ * createRLSContextDialect (from '@kysera/rls') does this automatically.
  */
 export async function syncContextToPostgres<DB>(
   db: Kysely<DB>,
@@ -0,0 +1,301 @@
+/**
+ * PostgreSQL Session Context Propagation
+ *
+ * Wraps a Kysely dialect so that every transaction starts with the current
+ * rlsContext written to transaction-local PostgreSQL settings, the ones read by
+ * native RLS policies. Settings never outlive their transaction, so pooled
+ * connections cannot leak one request's identity to the next.
+ *
+ * @module @kysera/rls/native/session
+ */
+
+import { CompiledQuery } from 'kysely'
+import type {
+  DatabaseConnection,
+  Dialect,
+  Driver,
+  QueryCompiler,
+  QueryResult,
+  TransactionSettings
+} from 'kysely'
+import { rlsContext } from '../context/manager.js'
+import type { RLSContext } from '../policy/types.js'
+
+/**
+ * Options for createRLSContextDialect
+ */
+export interface RLSContextDialectOptions {
+  /**
+   * Run queries issued outside a transaction in a transaction of their own
+   * (BEGIN, settings, query, COMMIT) when an RLS context is active.
+   * Without it, only explicit transactions see the context.
+   *
+   * @default true
+   */
+  wrapQueries?: boolean
+}
+
+/**
+ * Statements after which transaction-local settings may have been reverted
+ */
+const ROLLBACK_TO_SAVEPOINT = /^\s*rollback\s+to\b/i
+
+/**
+ * Wrap a PostgreSQL dialect to propagate rlsContext into session settings
+ *
+ * - Every transaction (`db.transaction()`, `withTransaction()`, executor transactions)
+ *   runs `set_config(..., true)` for `app.user_id`, `app.tenant_id`, `app.roles`,
+ *   `app.permissions` and `app.is_system` right after BEGIN
+ * - Inside a transaction, the settings are written again when the context
+ *   changes (e.g. `rlsContext.asSystem()`), so native and app-level RLS agree
+ * - Queries outside a transaction are wrapped in one while a context is active
+ *
+ * Queries without an active context run unchanged, with empty settings.
+ *
+ * @param dialect - PostgreSQL dialect to wrap
+ * @param options - Propagation options
+ * @returns Dialect to pass to Kysely
+ *
+ * @example
+ * ```typescript
+ * import { Kysely, PostgresDialect } from 'kysely';
+ * import { createRLSContextDialect, rlsContext } from '@kysera/rls';
+ *
+ * const db = new Kysely<Database>({
+ *   dialect: createRLSContextDialect(new PostgresDialect({ pool }))
+ * });
+ *
+ * await rlsContext.runAsync(ctx, async () => {
+ *   // Native policies see current_setting('app.user_id') = ctx.auth.userId
+ *   await db.selectFrom('posts').selectAll().execute();
+ * });
+ * ```
+ */
+export function createRLSContextDialect(
+  dialect: Dialect,
+  options: RLSContextDialectOptions = {}
+): Dialect {
+  return {
+    createDriver: () => new RLSContextDriver(dialect.createDriver(), options.wrapQueries ?? true),
+    createQueryCompiler: () => dialect.createQueryCompiler(),
+    createAdapter: () => dialect.createAdapter(),
+    createIntrospector: db => dialect.createIntrospector(db)
+  }
+}
+
+/**
+ * Build the query writing an RLS context to transaction-local settings
+ *
+ * Without a context, all settings are cleared.
+ */
+function contextSettingsQuery(context: RLSContext | null): CompiledQuery {
+  const auth = context?.auth
+
+  return CompiledQuery.raw(
+    `select set_config('app.user_id', $1, true), set_config('app.tenant_id', $2, true), ` +
+      `set_config('app.roles', $3, true), set_config('app.permissions', $4, true), ` +
+      `set_config('app.is_system', $5, true)`,
+    [
+      auth ? String(auth.userId) : '',
+      auth?.tenantId !== undefined ? String(auth.tenantId) : '',
+      (auth?.roles ?? []).join(','),
+      (auth?.permissions ?? []).join(','),
+      auth?.isSystem ? 'true' : 'false'
+    ]
+  )
+}
+
+/**
+ * Connection that tracks its transaction and the context synced into it
+ */
+class RLSContextConnection implements DatabaseConnection {
+  inTransaction = false
+  /** Context last written to the settings (undefined: unknown) */
+  synced: RLSContext | null | undefined
+
+  constructor(
+    readonly inner: DatabaseConnection,
+    private readonly wrapQueries: boolean
+  ) {}
+
+  async executeQuery<R>(compiledQuery: CompiledQuery): Promise<QueryResult<R>> {
+    if (this.inTransaction) {
+      await this.sync()
+      const result = await this.inner.executeQuery<R>(compiledQuery)
+      this.afterQuery(compiledQuery)
+      return result
+    }
+
+    const context = rlsContext.getContextOrNull()
+    if (!context || !this.wrapQueries) {
+      return await this.inner.executeQuery<R>(compiledQuery)
+    }
+
+    await this.begin(context)
+    try {
+      const result = await this.inner.executeQuery<R>(compiledQuery)
+      await this.inner.executeQuery(CompiledQuery.raw('commit'))
+      return result
+    } catch (error) {
+      await this.rollback()
+      throw error
+    }
+  }
+
+  async *streamQuery<R>(
+    compiledQuery: CompiledQuery,
+    chunkSize?: number
+  ): AsyncIterableIterator<QueryResult<R>> {
+    if (this.inTransaction) {
+      await this.sync()
+      yield* this.inner.streamQuery<R>(compiledQuery, chunkSize)
+      return
+    }
+
+    const context = rlsContext.getContextOrNull()
+    if (!context || !this.wrapQueries) {
+      yield* this.inner.streamQuery<R>(compiledQuery, chunkSize)
+      return
+    }
+
+    await this.begin(context)
+    let open = true
+    try {
+      yield* this.inner.streamQuery<R>(compiledQuery, chunkSize)
+    } catch (error) {
+      open = false
+      await this.rollback()
+      throw error
+    } finally {
+      // Also reached when the consumer stops iterating early
+      if (open) {
+        await this.inner.executeQuery(CompiledQuery.raw('commit'))
+      }
+    }
+  }
+
+  /**
+   * Write the current context to the settings if it changed
+   */
+  async sync(): Promise<void> {
+    const context = rlsContext.getContextOrNull()
+    if (context === this.synced) return
+
+    await this.inner.executeQuery(contextSettingsQuery(context))
+    this.synced = context
+  }
+
+  /**
+   * Forget the synced context when a rollback may have reverted the settings
+   */
+  afterQuery(compiledQuery: CompiledQuery): void {
+    if (ROLLBACK_TO_SAVEPOINT.test(compiledQuery.sql)) {
+      this.synced = undefined
+    }
+  }
+
+  private async begin(context: RLSContext): Promise<void> {
+    await this.inner.executeQuery(CompiledQuery.raw('begin'))
+    try {
+      await this.inner.executeQuery(contextSettingsQuery(context))
+    } catch (error) {
+      await this.rollback()
+      throw error
+    }
+  }
+
+  private async rollback(): Promise<void> {
+    try {
+      await this.inner.executeQuery(CompiledQuery.raw('rollback'))
+    } catch {
+      // The original error is more important than a failed rollback
+    }
+  }
+}
+
+/**
+ * Driver that syncs the RLS context at the start of every transaction
+ */
+class RLSContextDriver implements Driver {
+  constructor(
+    private readonly inner: Driver,
+    private readonly wrapQueries: boolean
+  ) {}
+
+  async init(): Promise<void> {
+    await this.inner.init()
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    return new RLSContextConnection(await this.inner.acquireConnection(), this.wrapQueries)
+  }
+
+  async beginTransaction(
+    connection: DatabaseConnection,
+    settings: TransactionSettings
+  ): Promise<void> {
+    const conn = connection as RLSContextConnection
+    await this.inner.beginTransaction(conn.inner, settings)
+    conn.inTransaction = true
+    // Fresh transaction: settings are empty until synced
+    conn.synced = null
+    await conn.sync()
+  }
+
+  async commitTransaction(connection: DatabaseConnection): Promise<void> {
+    const conn = connection as RLSContextConnection
+    conn.inTransaction = false
+    await this.inner.commitTransaction(conn.inner)
+  }
+
+  async rollbackTransaction(connection: DatabaseConnection): Promise<void> {
+    const conn = connection as RLSContextConnection
+    conn.inTransaction = false
+    await this.inner.rollbackTransaction(conn.inner)
+  }
+
+  async savepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery']
+  ): Promise<void> {
+    const conn = connection as RLSContextConnection
+    if (!this.inner.savepoint) {
+      throw new Error('The `savepoint` method is not supported by this driver')
+    }
+    await this.inner.savepoint(conn.inner, savepointName, compileQuery)
+  }
+
+  async rollbackToSavepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery']
+  ): Promise<void> {
+    const conn = connection as RLSContextConnection
+    if (!this.inner.rollbackToSavepoint) {
+      throw new Error('The `rollbackToSavepoint` method is not supported by this driver')
+    }
+    await this.inner.rollbackToSavepoint(conn.inner, savepointName, compileQuery)
+    conn.synced = undefined
+  }
+
+  async releaseSavepoint(
+    connection: DatabaseConnection,
+    savepointName: string,
+    compileQuery: QueryCompiler['compileQuery']
+  ): Promise<void> {
+    const conn = connection as RLSContextConnection
+    if (!this.inner.releaseSavepoint) {
+      throw new Error('The `releaseSavepoint` method is not supported by this driver')
+    }
+    await this.inner.releaseSavepoint(conn.inner, savepointName, compileQuery)
+  }
+
+  async releaseConnection(connection: DatabaseConnection): Promise<void> {
+    await this.inner.releaseConnection((connection as RLSContextConnection).inner)
+  }
+
+  async destroy(): Promise<void> {
+    await this.inner.destroy()
+  }
+}
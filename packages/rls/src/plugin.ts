@@ -2,8 +2,10 @@
  * RLS Plugin for Kysera Repository
  *
  * Implements Row-Level Security as a Kysera plugin, providing:
- * - Automatic query filtering for SELECT operations
+ * - Automatic query filtering for SELECT, UPDATE and DELETE operations
  * - Policy enforcement for CREATE, UPDATE, DELETE operations
+ * - Relationship-based (ReBAC) filtering with EXISTS subqueries
+ * - Field-level access control (column masking and write protection)
  * - Repository method extensions for RLS-aware operations
  * - System context bypass for privileged operations
  *
@@ -18,10 +20,23 @@ import type { RLSSchema, Operation } from './policy/types.js'
 import { PolicyRegistry } from './policy/registry.js'
 import { SelectTransformer } from './transformer/select.js'
 import { MutationGuard } from './transformer/mutation.js'
+import { FieldAccessTransformer } from './transformer/field-access.js'
+import { FieldAccessRegistry } from './field-access/registry.js'
+import { FieldAccessProcessor } from './field-access/processor.js'
+import type { FieldAccessSchema } from './field-access/types.js'
+import { ReBAcRegistry } from './rebac/registry.js'
+import { ReBAcTransformer } from './rebac/transformer.js'
+import type { ReBAcSchema } from './rebac/types.js'
 import { rlsContext } from './context/manager.js'
 import { VERSION } from './version.js'
 import { RLSContextError, RLSPolicyViolation, RLSError, RLSErrorCodes } from './errors.js'
-import { silentLogger, shouldApplyToTable, type KyseraLogger } from '@kysera/core'
+import {
+  silentLogger,
+  shouldApplyToTable,
+  detectDialect,
+  parseTableReference,
+  type KyseraLogger
+} from '@kysera/core'
 import {
   transformQueryBuilder,
   selectFromDynamicTable,
@@ -102,12 +117,31 @@ export interface RLSPluginOptions<DB = unknown> {
    * @default 'id'
    */
   primaryKeyColumn?: string
+
+  /**
+   * Field-level access control schema.
+   * Read-restricted columns are masked (or omitted) in SELECT and RETURNING results
+   * and dropped from `select()` lists when hidden for every row; writes to
+   * write-restricted columns throw RLSPolicyViolation.
+   * Bypassed by system context and `bypassRoles`, like row policies.
+   */
+  fieldAccess?: FieldAccessSchema<DB>
+
+  /**
+   * Relationship-based access control schema.
+   * ReBAC policies become EXISTS / NOT EXISTS conditions on SELECT, UPDATE and
+   * DELETE queries, next to the filter policies of `schema`: a row must have at
+   * least one allowed relationship (when the operation has allow policies) and
+   * no denied relationship.
+   * Bypassed by system context, `bypassRoles` and the table's `skipFor` roles.
+   */
+  rebac?: ReBAcSchema<DB>
 }
 
 /**
  * Zod schema for RLSPluginOptions
  * Used for validation and configuration in the kysera-cli.
- * Note: 'schema' and 'onViolation' are not included as they are complex runtime objects.
+ * Note: 'schema', 'fieldAccess', 'rebac' and 'onViolation' are not included as they are complex runtime objects.
  */
 export const RLSPluginOptionsSchema = z.object({
   tables: z.array(z.string()).optional(),
@@ -185,13 +219,111 @@ export function rlsPlugin<DB>(options: RLSPluginOptions<DB>): Plugin {
     allowUnfilteredQueries = false, // SECURITY: Explicit opt-in for unfiltered queries
     auditDecisions = false,
     onViolation,
-    primaryKeyColumn = 'id'
+    primaryKeyColumn = 'id',
+    fieldAccess,
+    rebac
   } = options
 
   // Registry and transformers (initialized in onInit)
   let registry: PolicyRegistry<DB>
   let selectTransformer: SelectTransformer<DB>
   let mutationGuard: MutationGuard<DB>
+  let fieldAccessRegistry: FieldAccessRegistry<DB> | undefined
+  let fieldAccessTransformer: FieldAccessTransformer<DB> | undefined
+  let rebacRegistry: ReBAcRegistry<DB> | undefined
+  let rebacTransformer: ReBAcTransformer<DB> | undefined
+
+  /**
+   * Apply ReBAC policies to SELECT, UPDATE and DELETE queries
+   * (skipFor roles of the RLS schema bypass them, like filter policies)
+   */
+  const applyRelationships = <QB>(
+    qb: QB,
+    operation: string,
+    table: string,
+    qualifier: string,
+    roles: string[]
+  ): QB => {
+    if (!rebacTransformer || registry.getSkipFor(table).some(role => roles.includes(role))) {
+      return qb
+    }
+    const alias = qualifier === table ? undefined : qualifier
+    if (operation === 'select') {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return rebacTransformer.transform(qb as any, table, 'read', alias) as QB
+    }
+    if (operation === 'update' || operation === 'delete') {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return rebacTransformer.transformMutation(qb as any, table, operation, alias) as QB
+    }
+    return qb
+  }
+
+  /**
+   * Apply field-level access control: mask read-restricted columns in results
+   * and reject writes to write-restricted columns
+   */
+  const applyFieldAccess = <QB>(
+    qb: QB,
+    context: QueryBuilderContext,
+    table: string,
+    userId: unknown
+  ): QB => {
+    if (!fieldAccessTransformer) {
+      return qb
+    }
+    // REPLACE writes the same columns as INSERT
+    const operation = context.operation === 'replace' ? 'insert' : context.operation
+    return fieldAccessTransformer.transform(qb, operation, table, context.rawDb, violation => {
+      onViolation?.(violation)
+      if (auditDecisions) {
+        logger.warn?.('[RLS] Field write denied', { table, userId, reason: violation.reason })
+      }
+    })
+  }
+
+  /**
+   * Enforce policies on DAL mutation queries: filter policies become WHERE
+   * conditions of UPDATE/DELETE, and INSERT/REPLACE values are checked against
+   * create policies when the query is executed. MERGE statements on protected
+   * tables are rejected, as the rows they modify cannot be checked.
+   */
+  const guardMutation = <QB>(
+    qb: QB,
+    operation: QueryBuilderContext['operation'],
+    table: string,
+    qualifier: string,
+    userId: unknown
+  ): QB => {
+    if (operation === 'update' || operation === 'delete') {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return selectTransformer.transformMutation(qb as any, table, qualifier) as QB
+    }
+
+    if (operation === 'merge' && registry.hasTable(table)) {
+      const violation = new RLSPolicyViolation(
+        'update',
+        table,
+        'Cannot check policies for MERGE statements'
+      )
+      onViolation?.(violation)
+      if (auditDecisions) {
+        logger.warn?.('[RLS] Merge denied', { table, userId, reason: violation.reason })
+      }
+      throw violation
+    }
+
+    if ((operation === 'insert' || operation === 'replace') && registry.hasTable(table)) {
+      return mutationGuard.guardInsert(qb, table, violation => {
+        onViolation?.(violation)
+        if (auditDecisions) {
+          logger.warn?.('[RLS] Create denied', { table, userId, reason: violation.reason })
+        }
+      })
+    }
+
+    return qb
+  }
 
   return {
     name: '@kysera/rls',
@@ -206,7 +338,7 @@ export function rlsPlugin<DB>(options: RLSPluginOptions<DB>): Plugin {
     /**
      * Initialize plugin - compile policies
      */
-    onInit<TDB>(_executor: Kysely<TDB>): void {
+    onInit<TDB>(executor: Kysely<TDB>): void {
       logger.info?.('[RLS] Initializing RLS plugin', {
         tables: Object.keys(schema).length,
         excludeTables: excludeTables?.length ?? 0,
@@ -223,6 +355,22 @@ export function rlsPlugin<DB>(options: RLSPluginOptions<DB>): Plugin {
       selectTransformer = new SelectTransformer<DB>(registry)
       mutationGuard = new MutationGuard<DB>(registry)
 
+      if (rebac) {
+        const dialect = detectDialect(executor)
+        rebacRegistry = new ReBAcRegistry<DB>(rebac, { logger })
+        rebacTransformer = new ReBAcTransformer<DB>(rebacRegistry, {
+          dialect: dialect === 'mysql' || dialect === 'sqlite' ? dialect : 'postgres'
+        })
+      }
+
+      if (fieldAccess) {
+        fieldAccessRegistry = new FieldAccessRegistry<DB>(fieldAccess, { logger })
+        fieldAccessTransformer = new FieldAccessTransformer<DB>(
+          fieldAccessRegistry,
+          new FieldAccessProcessor<DB>(fieldAccessRegistry)
+        )
+      }
+
       logger.info?.('[RLS] RLS plugin initialized successfully')
     },
 
@@ -231,18 +379,34 @@ export function rlsPlugin<DB>(options: RLSPluginOptions<DB>): Plugin {
      */
     onDestroy() {
       registry.clear()
+      rebacRegistry?.clear()
+      fieldAccessRegistry?.clear()
       logger.info?.('[RLS] RLS plugin destroyed, cleared policy registry')
     },
 
+    /**
+     * Queries are filtered for the active RLS context, so results are only
+     * shared between callers in the same context
+     */
+    contextKey(): unknown {
+      return rlsContext.getContextOrNull()
+    },
+
     /**
      * Intercept queries to apply RLS filtering
      *
-     * This hook is called for every query builder operation. For SELECT queries,
-     * it applies filter policies as WHERE conditions. For mutations, it marks
-     * that RLS validation is required (performed in extendRepository).
+     * This hook is called for every query builder operation. For SELECT, UPDATE
+     * and DELETE queries, it applies filter policies as WHERE conditions. INSERT
+     * queries check create policies against their values when executed; REPLACE,
+     * upserts and MERGE on protected tables are rejected. Policies are looked up
+     * by the bare table name and filters use the table's alias. ReBAC
+     * policies add EXISTS conditions to SELECT, UPDATE and DELETE. Field access
+     * rules, when configured, mask results and check written columns. Row-level
+     * allow/deny checks for update and delete are performed in extendRepository.
      */
     interceptQuery<QB>(qb: QB, context: QueryBuilderContext): QB {
-      const { operation, table, metadata } = context
+      const { operation, metadata } = context
+      const { table, qualifier } = parseTableReference(context.table)
 
       // Skip if table is excluded
       if (!shouldApplyToTable(table, { tables, excludeTables })) {
@@ -288,9 +452,18 @@ export function rlsPlugin<DB>(options: RLSPluginOptions<DB>): Plugin {
               ) as typeof selectQb
             })
           }
-          // For mutations, we'll let them through but log warning
-          // The extendRepository will handle mutation checks
-          return qb
+          // UPDATE/DELETE affect no rows, like SELECT returns none
+          if (operation === 'update' || operation === 'delete') {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            return (qb as any).where(createRawCondition('FALSE')) as QB
+          }
+          // Writes have no rows to hide, so without a user to check create
+          // policies against they are denied
+          throw new RLSContextError(
+            `RLS context required but not found for ${operation} on ${table}. ` +
+              `Writes are denied without context. ` +
+              `Either provide RLS context or set 'allowUnfilteredQueries: true' if intentional.`
+          )
         }
 
         // allowUnfilteredQueries is true - allow but log warning
@@ -317,11 +490,17 @@ export function rlsPlugin<DB>(options: RLSPluginOptions<DB>): Plugin {
       // Apply SELECT filtering
       if (operation === 'select') {
         try {
-          const transformed = transformQueryBuilder(
-            qb,
+          const transformed = applyRelationships(
+            transformQueryBuilder(
+              qb,
+              operation,
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              selectQb => selectTransformer.transform(selectQb as any, table, qualifier) as any
+            ),
             operation,
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            selectQb => selectTransformer.transform(selectQb as any, table) as any
+            table,
+            qualifier,
+            ctx.auth.roles
           )
 
           if (auditDecisions) {
@@ -332,20 +511,26 @@ export function rlsPlugin<DB>(options: RLSPluginOptions<DB>): Plugin {
             })
           }
 
-          return transformed
+          return applyFieldAccess(transformed, context, table, ctx.auth.userId)
         } catch (error) {
           logger.error?.('[RLS] Error applying filter', { table, error })
           throw error
         }
       }
 
-      // For mutations, mark that RLS check is needed (done in extendRepository)
-      if (operation === 'insert' || operation === 'update' || operation === 'delete') {
-        metadata['__rlsRequired'] = true
-        metadata['__rlsTable'] = table
-      }
-
-      return qb
+      // For mutations, mark that RLS check is needed (row-level allow/deny checks
+      // for update and delete are done in extendRepository)
+      metadata['__rlsRequired'] = true
+      metadata['__rlsTable'] = table
+
+      const guarded = applyRelationships(
+        guardMutation(qb, operation, table, qualifier, ctx.auth.userId),
+        operation,
+        table,
+        qualifier,
+        ctx.auth.roles
+      )
+      return applyFieldAccess(guarded, context, table, ctx.auth.userId)
     },
 
     /**
@@ -7,7 +7,13 @@
  * @module @kysera/rls/rebac/transformer
  */
 
-import type { SelectQueryBuilder } from 'kysely'
+import type {
+  SelectQueryBuilder,
+  UpdateQueryBuilder,
+  DeleteQueryBuilder,
+  RawBuilder,
+  SqlBool
+} from 'kysely'
 import { sql } from 'kysely'
 import type { ReBAcRegistry } from './registry.js'
 import type { CompiledReBAcPolicy, ReBAcQueryOptions, ReBAcPolicyDefinition } from './types.js'
@@ -21,8 +27,11 @@ import { rlsContext } from '../context/manager.js'
 /**
  * ReBAC query transformer
  *
- * Applies relationship-based access control to SELECT queries by generating
- * EXISTS subqueries that follow relationship paths.
+ * Applies relationship-based access control to SELECT, UPDATE and DELETE queries
+ * by generating EXISTS subqueries that follow relationship paths.
+ *
+ * A row passes when at least one allow policy's relationship exists (if the
+ * operation has allow policies) and no deny policy's relationship exists.
  *
  * @example
  * ```typescript
@@ -62,12 +71,14 @@ export class ReBAcTransformer<DB = unknown> {
    * @param qb - Query builder to transform
    * @param table - Table being queried
    * @param operation - Operation being performed
+   * @param alias - Alias of the table in the query (defaults to the mainTableAlias option)
    * @returns Transformed query builder
    */
   transform<TB extends keyof DB & string, O>(
     qb: SelectQueryBuilder<DB, TB, O>,
     table: string,
-    operation: Operation = 'read'
+    operation: Operation = 'read',
+    alias?: string
   ): SelectQueryBuilder<DB, TB, O> {
     const ctx = rlsContext.getContextOrNull()
     if (!ctx) {
@@ -86,15 +97,91 @@ export class ReBAcTransformer<DB = unknown> {
       return qb
     }
 
-    // Apply each policy
+    // Any allow relationship grants access, every deny relationship revokes it
+    const allows = policies.filter(p => p.type === 'allow')
+    const denies = policies.filter(p => p.type === 'deny')
+
+    // Type casts are necessary because the EXISTS conditions are raw SQL
+    // built at runtime, while where() requires compile-time known types
     let result = qb
-    for (const policy of policies) {
-      result = this.applyPolicy(result, policy, ctx, table)
+    if (allows.length > 0) {
+      const conditions = allows.map(p => this.getCondition(p, ctx, table, operation, alias))
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      result = result.where(eb => eb.or(conditions) as any) as SelectQueryBuilder<DB, TB, O>
+    }
+    for (const policy of denies) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      result = result.where(this.getCondition(policy, ctx, table, operation, alias) as any)
     }
 
     return result
   }
 
+  /**
+   * Transform an UPDATE or DELETE query by applying ReBAC policies, so that
+   * only rows with the required relationships are modified
+   *
+   * @param qb - The update or delete query builder to transform
+   * @param table - Table being modified
+   * @param operation - Operation being performed
+   * @param alias - Alias of the table in the query (defaults to the mainTableAlias option)
+   * @returns Transformed query builder
+   *
+   * @example
+   * ```typescript
+   * let query = db.deleteFrom('products').where('id', '=', 1);
+   * query = transformer.transformMutation(query, 'products', 'delete');
+   * // DELETE FROM products WHERE id = ? AND EXISTS (...)
+   * ```
+   */
+  transformMutation<
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    QB extends UpdateQueryBuilder<DB, any, any, any> | DeleteQueryBuilder<DB, any, any>
+  >(qb: QB, table: string, operation: 'update' | 'delete', alias?: string): QB {
+    // UPDATE and DELETE builders take the same where() conditions as SELECT builders
+    return this.transform(
+      qb as unknown as SelectQueryBuilder<DB, keyof DB & string, unknown>,
+      table,
+      operation,
+      alias
+    ) as unknown as QB
+  }
+
+  /**
+   * Build the EXISTS (allow) or NOT EXISTS (deny) condition of a policy
+   * as a Kysely expression, with parameters bound by the query's dialect
+   *
+   * @param policy - ReBAC policy to build the condition for
+   * @param ctx - RLS context
+   * @param table - Main query table
+   * @param operation - Operation being performed
+   * @param alias - Alias of the main table (defaults to the mainTableAlias option)
+   * @returns Boolean SQL expression for where()
+   */
+  getCondition(
+    policy: CompiledReBAcPolicy,
+    ctx: RLSContext,
+    table: string,
+    operation: Operation = 'read',
+    alias: string | undefined = this.options.mainTableAlias
+  ): RawBuilder<SqlBool> {
+    const { sql: existsSql, params } = this.generateExistsSql(policy, ctx, table, alias, operation)
+
+    // Replace the dialect's placeholders with sql template parameters
+    const placeholder = this.options.dialect === 'postgres' ? /\$\d+/ : /\?/
+    const sqlParts = existsSql.split(placeholder)
+
+    return sql.join(
+      sqlParts.map((part, i) => {
+        if (i < params.length) {
+          return sql`${sql.raw(part)}${params[i]}`
+        }
+        return sql.raw(part)
+      }),
+      sql.raw('')
+    ) as RawBuilder<SqlBool>
+  }
+
   /**
    * Generate EXISTS condition SQL for a policy
    *
@@ -104,16 +191,18 @@ export class ReBAcTransformer<DB = unknown> {
    * @param ctx - RLS context
    * @param mainTable - Main query table
    * @param mainTableAlias - Alias for main table
+   * @param operation - Operation being performed (passed to end conditions)
    * @returns SQL string and parameters
    */
   generateExistsSql(
     policy: CompiledReBAcPolicy,
     ctx: RLSContext,
     mainTable: string,
-    mainTableAlias?: string
+    mainTableAlias?: string,
+    operation: Operation = 'read'
   ): { sql: string; params: unknown[] } {
     const { relationshipPath } = policy
-    const evalCtx = this.createEvalContext(ctx, mainTable)
+    const evalCtx = this.createEvalContext(ctx, mainTable, operation)
     const endConditions = policy.getEndConditions(evalCtx)
 
     const alias = mainTableAlias ?? mainTable
@@ -208,51 +297,18 @@ export class ReBAcTransformer<DB = unknown> {
   // Private Methods
   // ============================================================================
 
-  /**
-   * Apply a single ReBAC policy to a query
-   *
-   * NOTE: Uses type casting for dynamic SQL because Kysely's type system
-   * requires compile-time known types, but ReBAC policies work with
-   * runtime-generated EXISTS clauses.
-   */
-  private applyPolicy<TB extends keyof DB & string, O>(
-    qb: SelectQueryBuilder<DB, TB, O>,
-    policy: CompiledReBAcPolicy,
-    ctx: RLSContext,
-    table: string
-  ): SelectQueryBuilder<DB, TB, O> {
-    const { sql: existsSql, params } = this.generateExistsSql(policy, ctx, table, this.options.mainTableAlias)
-
-    // Build the SQL template parts for parameterization
-    // Replace $N placeholders with sql template placeholders
-    const sqlParts = existsSql.split(/\$\d+/)
-
-    // Use Kysely's sql template function with tagged template literal
-    // Build a raw sql expression with proper parameter binding
-    const rawBuilder = sql.join(
-      sqlParts.map((part, i) => {
-        if (i < params.length) {
-          return sql`${sql.raw(part)}${params[i]}`
-        }
-        return sql.raw(part)
-      })
-    )
-
-    // Add the EXISTS/NOT EXISTS condition to the WHERE clause
-    // Type cast is necessary because sql.join returns RawBuilder<unknown>
-    // but where() requires ExpressionOrFactory<SqlBool>
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return qb.where(rawBuilder as any) as SelectQueryBuilder<DB, TB, O>
-  }
-
   /**
    * Create evaluation context for policy conditions
    */
-  private createEvalContext(ctx: RLSContext, table: string): PolicyEvaluationContext {
+  private createEvalContext(
+    ctx: RLSContext,
+    table: string,
+    operation: Operation
+  ): PolicyEvaluationContext {
     return {
       auth: ctx.auth,
       table,
-      operation: 'read',
+      operation,
       ...(ctx.meta !== undefined && { meta: ctx.meta as Record<string, unknown> })
     }
   }
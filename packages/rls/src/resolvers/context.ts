@@ -0,0 +1,109 @@
+/**
+ * Resolver-aware Context Creation
+ *
+ * Builds RLS contexts whose auth carries the data of registered context resolvers,
+ * so that policies can read it synchronously.
+ *
+ * @module @kysera/rls/resolvers/context
+ */
+
+import type { RLSAuthContext } from '../policy/types.js'
+import type { ResolvedData, EnhancedRLSContext } from './types.js'
+import type { ResolverManager } from './manager.js'
+import { createRLSContext, rlsContext, type CreateRLSContextOptions } from '../context/manager.js'
+import { RLSContextError } from '../errors.js'
+
+/**
+ * Create an RLS context with pre-resolved data
+ *
+ * Validates the options like createRLSContext, then runs the resolvers registered
+ * on the manager (with its caching and timeouts) and attaches the merged result
+ * as `ctx.auth.resolved`.
+ *
+ * @param manager - Resolver manager
+ * @param options - Context options
+ * @returns Context with resolved data
+ * @throws RLSError if a required resolver fails or times out
+ *
+ * @example
+ * ```typescript
+ * const ctx = await createResolvedRLSContext<OrgData>(resolvers, {
+ *   auth: { userId: '123', roles: ['user'] }
+ * });
+ *
+ * await rlsContext.runAsync(ctx, async () => {
+ *   // filter('read', ctx => ({ organization_id: getResolvedData<OrgData>(ctx).organizationIds }))
+ * });
+ * ```
+ */
+export async function createResolvedRLSContext<
+  TResolved extends ResolvedData = ResolvedData,
+  TUser = unknown,
+  TMeta = unknown
+>(
+  manager: ResolverManager<TResolved>,
+  options: CreateRLSContextOptions<TUser, TMeta>
+): Promise<EnhancedRLSContext<TUser, TResolved, TMeta>> {
+  const context = createRLSContext(options)
+
+  const enhanced = await manager.resolve({
+    auth: context.auth,
+    timestamp: context.timestamp ?? new Date(),
+    ...(context.meta !== undefined && { meta: context.meta })
+  })
+
+  return {
+    ...context,
+    auth: { ...context.auth, resolved: enhanced.auth.resolved }
+  }
+}
+
+/**
+ * Resolve context data and run async code within the resulting RLS context
+ *
+ * @param manager - Resolver manager
+ * @param options - Context options
+ * @param fn - Function to run
+ * @returns Result of fn
+ *
+ * @example
+ * ```typescript
+ * app.use(async (req, res, next) => {
+ *   await withResolvedRLSContextAsync(resolvers, { auth: req.auth }, async () => next());
+ * });
+ * ```
+ */
+export async function withResolvedRLSContextAsync<T, TResolved extends ResolvedData = ResolvedData>(
+  manager: ResolverManager<TResolved>,
+  options: CreateRLSContextOptions,
+  fn: () => Promise<T>
+): Promise<T> {
+  const context = await createResolvedRLSContext(manager, options)
+  return await rlsContext.runAsync(context, fn)
+}
+
+/**
+ * Get the pre-resolved data of a policy evaluation context
+ *
+ * @param ctx - Policy evaluation context (or any context with auth)
+ * @returns Resolved data
+ * @throws RLSContextError if the context was not created with resolvers
+ *
+ * @example
+ * ```typescript
+ * filter('read', ctx => ({
+ *   organization_id: getResolvedData<OrgData>(ctx).organizationIds
+ * }))
+ * ```
+ */
+export function getResolvedData<TResolved extends ResolvedData = ResolvedData>(ctx: {
+  auth: RLSAuthContext
+}): TResolved {
+  const { resolved } = ctx.auth as RLSAuthContext & { resolved?: TResolved }
+  if (!resolved) {
+    throw new RLSContextError(
+      'No resolved data in RLS context. Create the context with createResolvedRLSContext()'
+    )
+  }
+  return resolved
+}
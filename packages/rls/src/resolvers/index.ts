@@ -16,6 +16,7 @@ export type {
   CompositeResolvedData,
   ResolverCacheProvider,
   ResolverManagerOptions,
+  ResolverInvalidationEvent,
   OrganizationResolvedData,
   TenantResolvedData,
   HierarchyResolvedData,
@@ -28,3 +29,10 @@ export { ResolverManager } from './manager.js'
 
 // Factory functions
 export { createResolverManager, createResolver } from './manager.js'
+
+// Context creation
+export {
+  createResolvedRLSContext,
+  withResolvedRLSContextAsync,
+  getResolvedData
+} from './context.js'
@@ -61,13 +61,17 @@ export class ResolverManager<TResolved extends ResolvedData = ResolvedData> {
   private defaultCacheTtl: number
   private parallelResolution: boolean
   private resolverTimeout: number
+  private onInvalidate: ResolverManagerOptions['onInvalidate']
   private logger: ResolverManagerOptions['logger']
+  /** Cache keys written by this manager, by user ID and resolver name */
+  private cachedKeys = new Map<string, Map<string, Set<string>>>()
 
   constructor(options: ResolverManagerOptions = {}) {
     this.cacheProvider = options.cacheProvider ?? new InMemoryCacheProvider()
     this.defaultCacheTtl = options.defaultCacheTtl ?? 300
     this.parallelResolution = options.parallelResolution ?? true
     this.resolverTimeout = options.resolverTimeout ?? 5000
+    this.onInvalidate = options.onInvalidate
     this.logger = options.logger
   }
 
@@ -213,20 +217,47 @@ export class ResolverManager<TResolved extends ResolvedData = ResolvedData> {
   /**
    * Invalidate cached data for a user
    *
+   * Deletes the entries this manager cached for the user, plus (without a resolver name)
+   * the keys matching `rls:*:<userId>:*` for entries written by other instances.
+   * The onInvalidate hook is called afterwards.
+   *
    * @param userId - User ID whose cache should be invalidated
    * @param resolverName - Optional specific resolver to invalidate
    */
   async invalidateCache(userId: string | number, resolverName?: string): Promise<void> {
+    const tracked = this.cachedKeys.get(String(userId))
+    const keys = new Set<string>()
+
     if (resolverName) {
       const resolver = this.resolvers.get(resolverName)
       if (resolver?.cacheKey) {
         const key = resolver.cacheKey({ auth: { userId, roles: [] }, timestamp: new Date() })
         if (key) {
-          await this.cacheProvider.delete(key)
-          this.logger?.debug?.(`[ResolverManager] Invalidated cache for ${resolverName}: ${key}`)
+          keys.add(key)
         }
       }
+      for (const key of tracked?.get(resolverName) ?? []) {
+        keys.add(key)
+      }
+      tracked?.delete(resolverName)
+
+      for (const key of keys) {
+        await this.cacheProvider.delete(key)
+      }
+      this.logger?.debug?.(`[ResolverManager] Invalidated cache for ${resolverName}`, {
+        keys: [...keys]
+      })
     } else {
+      for (const resolverKeys of tracked?.values() ?? []) {
+        for (const key of resolverKeys) {
+          keys.add(key)
+        }
+      }
+      this.cachedKeys.delete(String(userId))
+
+      for (const key of keys) {
+        await this.cacheProvider.delete(key)
+      }
       // Invalidate all resolvers for this user
       const pattern = `rls:*:${userId}:*`
       if (this.cacheProvider.deletePattern) {
@@ -234,18 +265,31 @@ export class ResolverManager<TResolved extends ResolvedData = ResolvedData> {
       }
       this.logger?.debug?.(`[ResolverManager] Invalidated all cache for user ${userId}`)
     }
+
+    await this.onInvalidate?.({
+      userId,
+      ...(resolverName !== undefined && { resolverName }),
+      keys: [...keys]
+    })
   }
 
   /**
    * Clear all cached data
    */
   async clearCache(): Promise<void> {
+    const keys = [...this.cachedKeys.values()].flatMap(resolverKeys =>
+      [...resolverKeys.values()].flatMap(set => [...set])
+    )
+    this.cachedKeys.clear()
+
     if (this.cacheProvider instanceof InMemoryCacheProvider) {
       this.cacheProvider.clear()
     } else if (this.cacheProvider.deletePattern) {
       await this.cacheProvider.deletePattern('rls:*')
     }
     this.logger?.info?.('[ResolverManager] Cleared all cache')
+
+    await this.onInvalidate?.({ keys })
   }
 
   // ============================================================================
@@ -384,10 +428,11 @@ export class ResolverManager<TResolved extends ResolvedData = ResolvedData> {
       }
 
       // Resolve with timeout
+      const timeout = resolver.timeout ?? this.resolverTimeout
       const data = await this.withTimeout(
         resolver.resolve(baseContext),
-        this.resolverTimeout,
-        `Resolver "${resolver.name}" timed out after ${this.resolverTimeout}ms`
+        timeout,
+        `Resolver "${resolver.name}" timed out after ${timeout}ms`
       )
 
       // Cache the result
@@ -396,6 +441,7 @@ export class ResolverManager<TResolved extends ResolvedData = ResolvedData> {
         if (cacheKey) {
           const ttl = resolver.cacheTtl ?? this.defaultCacheTtl
           await this.cacheProvider.set(cacheKey, data, ttl)
+          this.trackCacheKey(baseContext.auth.userId, resolver.name, cacheKey)
           this.logger?.debug?.(`[ResolverManager] Cached ${resolver.name}`, { cacheKey, ttl })
         }
       }
@@ -426,10 +472,36 @@ export class ResolverManager<TResolved extends ResolvedData = ResolvedData> {
    * Execute a promise with timeout
    */
   private async withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
-    return await Promise.race([
-      promise,
-      new Promise<T>((_, reject) => setTimeout(() => { reject(new Error(message)); }, timeoutMs))
-    ])
+    let timer: ReturnType<typeof setTimeout> | undefined
+    try {
+      return await Promise.race([
+        promise,
+        new Promise<T>((_, reject) => {
+          timer = setTimeout(() => {
+            reject(new Error(message))
+          }, timeoutMs)
+        })
+      ])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Remember a cache key written for a user, for invalidation
+   */
+  private trackCacheKey(userId: string | number, resolverName: string, key: string): void {
+    let resolverKeys = this.cachedKeys.get(String(userId))
+    if (!resolverKeys) {
+      resolverKeys = new Map()
+      this.cachedKeys.set(String(userId), resolverKeys)
+    }
+    let keys = resolverKeys.get(resolverName)
+    if (!keys) {
+      keys = new Set()
+      resolverKeys.set(resolverName, keys)
+    }
+    keys.add(key)
   }
 
   /**
@@ -177,6 +177,12 @@ export interface ContextResolver<TResolved extends ResolvedData = ResolvedData>
    */
   cacheTtl?: number
 
+  /**
+   * Maximum time (ms) to wait for this resolver
+   * @default ResolverManagerOptions.resolverTimeout
+   */
+  timeout?: number
+
   /**
    * Whether this resolver is required
    * If true, resolution failure will throw an error
@@ -305,6 +311,18 @@ export class InMemoryCacheProvider implements ResolverCacheProvider {
   }
 }
 
+/**
+ * Cache invalidation performed by ResolverManager
+ */
+export interface ResolverInvalidationEvent {
+  /** User whose data was invalidated (undefined when the whole cache was cleared) */
+  userId?: string | number
+  /** Resolver whose data was invalidated (undefined for all resolvers) */
+  resolverName?: string
+  /** Cache keys that were deleted */
+  keys: string[]
+}
+
 /**
  * Options for ResolverManager
  */
@@ -333,6 +351,12 @@ export interface ResolverManagerOptions {
    */
   resolverTimeout?: number
 
+  /**
+   * Called after cached data was invalidated
+   * Use this to propagate invalidations, e.g. to other application instances
+   */
+  onInvalidate?: (event: ResolverInvalidationEvent) => void | Promise<void>
+
   /**
    * Logger for resolver operations
    */
@@ -1,7 +1,8 @@
 /**
  * Policy Testing Utilities
  *
- * Provides tools for unit testing RLS policies without a database.
+ * Provides tools for unit testing RLS policies without a database,
+ * and ReBAC policies against a (typically in-memory SQLite) database.
  *
  * @module @kysera/rls/testing
  */
@@ -13,7 +14,14 @@ import type {
   RLSAuthContext,
   CompiledPolicy
 } from '../policy/types.js'
+import type { Kysely } from 'kysely'
+import { detectDialect } from '@kysera/core'
 import { PolicyRegistry } from '../policy/registry.js'
+import { ReBAcRegistry } from '../rebac/registry.js'
+import { ReBAcTransformer } from '../rebac/transformer.js'
+import type { ReBAcSchema, CompiledReBAcPolicy } from '../rebac/types.js'
+import { RLSError, RLSErrorCodes } from '../errors.js'
+import { selectFromDynamicTable, createQualifiedColumn, whereIdEquals } from '../utils/type-utils.js'
 
 // ============================================================================
 // Types
@@ -93,6 +101,32 @@ export interface TestContext<TRow = Record<string, unknown>> {
   meta?: Record<string, unknown>
 }
 
+/**
+ * Policy tester options
+ */
+export interface PolicyTesterOptions<DB = unknown> {
+  /**
+   * ReBAC schema, evaluated for read, update and delete
+   */
+  rebac?: ReBAcSchema<DB>
+
+  /**
+   * Database holding the related rows (required to evaluate ReBAC policies)
+   */
+  db?: Kysely<DB>
+
+  /**
+   * Primary key column used to find `context.row` in the database
+   * @default 'id'
+   */
+  primaryKeyColumn?: string
+}
+
+/**
+ * Operations ReBAC policies are applied to
+ */
+const RELATIONSHIP_OPERATIONS: readonly Operation[] = ['read', 'update', 'delete']
+
 // ============================================================================
 // Policy Tester
 // ============================================================================
@@ -138,17 +172,47 @@ export interface TestContext<TRow = Record<string, unknown>> {
  *   });
  * });
  * ```
+ *
+ * @example
+ * ```typescript
+ * // ReBAC policies run their EXISTS subqueries against a real database
+ * const tester = createPolicyTester(rlsSchema, { rebac: rebacSchema, db: sqliteDb });
+ *
+ * const result = await tester.evaluate('products', 'read', {
+ *   auth: { userId: 'user-1', roles: [] },
+ *   row: { id: 1, shop_id: 10 }
+ * });
+ * ```
  */
 export class PolicyTester<DB = unknown> {
   private registry: PolicyRegistry<DB>
+  private rebacRegistry: ReBAcRegistry<DB> | undefined
+  private rebacTransformer: ReBAcTransformer<DB> | undefined
+  private db: Kysely<DB> | undefined
+  private primaryKeyColumn: string
 
-  constructor(schema: RLSSchema<DB>) {
+  constructor(schema: RLSSchema<DB>, options: PolicyTesterOptions<DB> = {}) {
     this.registry = new PolicyRegistry<DB>(schema)
+    this.db = options.db
+    this.primaryKeyColumn = options.primaryKeyColumn ?? 'id'
+
+    if (options.rebac) {
+      const dialect = options.db ? detectDialect(options.db) : 'postgres'
+      this.rebacRegistry = new ReBAcRegistry<DB>(options.rebac)
+      this.rebacTransformer = new ReBAcTransformer<DB>(this.rebacRegistry, {
+        dialect: dialect === 'mysql' || dialect === 'sqlite' ? dialect : 'postgres'
+      })
+    }
   }
 
   /**
    * Evaluate policies for an operation
    *
+   * ReBAC policies (when configured) are evaluated after the RLS policies allow
+   * the operation, by running their EXISTS subqueries for `context.row` against
+   * the tester's database. Allow relationships count as the operation's allow
+   * policies when the RLS schema defines none.
+   *
    * @param table - Table name
    * @param operation - Operation to test
    * @param context - Test context
@@ -158,6 +222,43 @@ export class PolicyTester<DB = unknown> {
     table: string,
     operation: Operation,
     context: TestContext
+  ): Promise<PolicyEvaluationResult> {
+    const relationships = this.getRelationshipPolicies(table, operation)
+
+    // ReBAC-only tables have no RLS policies to deny by default
+    const result =
+      relationships.length > 0 && !this.registry.hasTable(table)
+        ? {
+            allowed: true,
+            decisionType: 'default' as const,
+            reason: 'Table has no RLS policies',
+            evaluatedPolicies: []
+          }
+        : await this.evaluatePolicies(table, operation, context)
+
+    if (relationships.length === 0 || this.bypassesPolicies(table, context)) {
+      return result
+    }
+
+    // Allow relationships stand in for missing allow policies under default deny
+    const allowsPending =
+      result.decisionType === 'default' &&
+      this.registry.getAllows(table, operation).length === 0 &&
+      relationships.some(policy => policy.type === 'allow')
+    if (!result.allowed && !allowsPending) {
+      return result
+    }
+
+    return await this.evaluateRelationships(table, operation, context, result)
+  }
+
+  /**
+   * Evaluate RLS schema policies for an operation
+   */
+  private async evaluatePolicies(
+    table: string,
+    operation: Operation,
+    context: TestContext
   ): Promise<PolicyEvaluationResult> {
     const evaluatedPolicies: PolicyEvaluationResult['evaluatedPolicies'] = []
 
@@ -437,6 +538,98 @@ export class PolicyTester<DB = unknown> {
     return this.registry.getTables()
   }
 
+  /**
+   * Get the ReBAC policies that apply to an operation
+   */
+  private getRelationshipPolicies(table: string, operation: Operation): CompiledReBAcPolicy[] {
+    if (!this.rebacRegistry || !RELATIONSHIP_OPERATIONS.includes(operation)) {
+      return []
+    }
+    return this.rebacRegistry.getPolicies(table, operation)
+  }
+
+  /**
+   * Check if the context bypasses policies (system user or skipFor role)
+   */
+  private bypassesPolicies(table: string, context: TestContext): boolean {
+    const skipFor = this.registry.getSkipFor(table)
+    return context.auth.isSystem === true || skipFor.some(role => context.auth.roles.includes(role))
+  }
+
+  /**
+   * Evaluate ReBAC policies by running each policy's EXISTS condition for the row
+   */
+  private async evaluateRelationships(
+    table: string,
+    operation: Operation,
+    context: TestContext,
+    result: PolicyEvaluationResult
+  ): Promise<PolicyEvaluationResult> {
+    const db = this.db
+    const rowId = context.row?.[this.primaryKeyColumn]
+    if (!db || rowId === undefined) {
+      throw new RLSError(
+        `Evaluating ReBAC policies on "${table}" requires a database and a row with "${this.primaryKeyColumn}"`,
+        RLSErrorCodes.RLS_POLICY_INVALID
+      )
+    }
+
+    const evaluatedPolicies = [...result.evaluatedPolicies]
+    const rlsCtx = { auth: context.auth, ...(context.meta !== undefined && { meta: context.meta }) }
+    let allowedBy: string | undefined
+    let hasAllows = false
+
+    // A matching deny relationship always wins over allows
+    for (const policy of this.getRelationshipPolicies(table, operation)) {
+      const condition = this.rebacTransformer!.getCondition(policy, rlsCtx, table, operation)
+      const query = whereIdEquals(
+        selectFromDynamicTable(db, table),
+        rowId,
+        createQualifiedColumn(table, this.primaryKeyColumn)
+      )
+      const matched = await query.where(condition).executeTakeFirst()
+
+      // A deny policy's NOT EXISTS fails when its relationship exists
+      const relationshipExists = policy.type === 'deny' ? matched === undefined : matched !== undefined
+      evaluatedPolicies.push({ name: policy.name, type: policy.type, result: relationshipExists })
+
+      if (policy.type === 'deny' && relationshipExists) {
+        return {
+          allowed: false,
+          policyName: policy.name,
+          decisionType: 'deny',
+          reason: `Denied by relationship policy: ${policy.name}`,
+          evaluatedPolicies
+        }
+      }
+      if (policy.type === 'allow') {
+        hasAllows = true
+        allowedBy ??= relationshipExists ? policy.name : undefined
+      }
+    }
+
+    if (hasAllows && allowedBy === undefined) {
+      return {
+        allowed: false,
+        decisionType: 'default',
+        reason: 'No relationship policies matched',
+        evaluatedPolicies
+      }
+    }
+
+    if (result.decisionType === 'default' && allowedBy !== undefined) {
+      return {
+        allowed: true,
+        policyName: allowedBy,
+        decisionType: 'allow',
+        reason: `Allowed by relationship policy: ${allowedBy}`,
+        evaluatedPolicies
+      }
+    }
+
+    return { ...result, evaluatedPolicies }
+  }
+
   /**
    * Evaluate a single policy
    */
@@ -461,10 +654,14 @@ export class PolicyTester<DB = unknown> {
  * Create a policy tester
  *
  * @param schema - RLS schema to test
+ * @param options - ReBAC schema and database for relationship policies
  * @returns PolicyTester instance
  */
-export function createPolicyTester<DB = unknown>(schema: RLSSchema<DB>): PolicyTester<DB> {
-  return new PolicyTester<DB>(schema)
+export function createPolicyTester<DB = unknown>(
+  schema: RLSSchema<DB>,
+  options?: PolicyTesterOptions<DB>
+): PolicyTester<DB> {
+  return new PolicyTester<DB>(schema, options)
 }
 
 // ============================================================================
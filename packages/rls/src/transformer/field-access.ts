@@ -0,0 +1,841 @@
+/**
+ * Field Access Transformer
+ * Applies field-level access control to query builders: hidden columns are removed
+ * from select lists, returned rows are masked and writes to protected fields are rejected
+ */
+
+import {
+  AliasNode,
+  ColumnNode,
+  ReferenceNode,
+  SelectAllNode,
+  SelectQueryNode,
+  SelectionNode,
+  TableNode,
+  sql
+} from 'kysely'
+import type { Kysely, KyselyPlugin, OperationNode, SqlBool } from 'kysely'
+import type { FieldAccessRegistry } from '../field-access/registry.js'
+import type { FieldAccessProcessor } from '../field-access/processor.js'
+import type { CompiledTableFieldAccess } from '../field-access/types.js'
+import type { PolicyEvaluationContext } from '../policy/types.js'
+import { rlsContext } from '../context/manager.js'
+import { RLSPolicyViolation } from '../errors.js'
+import { selectFromDynamicTable } from '../utils/type-utils.js'
+
+/**
+ * Query builder methods that run the query and return rows
+ */
+const EXECUTE_METHODS = new Set<string | symbol>([
+  'execute',
+  'executeTakeFirst',
+  'executeTakeFirstOrThrow'
+])
+
+type Row = Record<string, unknown>
+
+/**
+ * Minimal shape of the insert/update query nodes read by the transformer
+ * @internal
+ */
+interface MutationNode extends OperationNode {
+  readonly table?: OperationNode
+  readonly columns?: readonly OperationNode[]
+  readonly values?: OperationNode
+  readonly updates?: readonly { readonly column: OperationNode; readonly value: OperationNode }[]
+  readonly where?: { readonly where: OperationNode }
+  readonly from?: OperationNode
+  readonly joins?: readonly OperationNode[]
+  readonly returning?: OperationNode
+}
+
+/**
+ * Table read by a SELECT, with the name its columns are qualified with
+ * @internal
+ */
+interface SelectSource {
+  readonly table: string
+  readonly qualifier: string
+}
+
+/**
+ * Key of result rows holding a column of a source table
+ * @internal
+ */
+interface SourcedColumn {
+  readonly key: string
+  readonly column: string
+  readonly source: SelectSource
+}
+
+/**
+ * Key of result rows holding an expression, with the columns of configured
+ * tables it reads
+ * @internal
+ */
+interface ComputedColumn {
+  readonly key: string
+  readonly references: readonly Omit<SourcedColumn, 'key'>[]
+}
+
+/**
+ * SELECT node with field access applied, and where its result columns come from
+ * @internal
+ */
+interface SelectPlan {
+  readonly node: SelectQueryNode
+  readonly main: SelectSource
+  readonly columns: readonly SourcedColumn[]
+  readonly computed: readonly ComputedColumn[]
+}
+
+/**
+ * Field access transformer
+ * Wraps query builders so that field access rules apply to DAL queries
+ * as well as to repository methods built on them
+ */
+export class FieldAccessTransformer<DB = unknown> {
+  constructor(
+    private registry: FieldAccessRegistry<DB>,
+    private processor: FieldAccessProcessor<DB>
+  ) {}
+
+  /** Introspected columns per table, null for tables that were not found */
+  private readonly tableColumns = new Map<string, readonly string[] | null>()
+
+  /**
+   * Apply field access control to a query builder
+   *
+   * - SELECT: columns hidden from the current user (`omitWhenHidden` fields whose
+   *   read rule does not depend on the row, and unconfigured columns of `default: 'deny'`
+   *   tables) are removed from the select list, and `selectAll()` is expanded to the
+   *   other columns. This applies to the selected table and to every joined table
+   *   with a field access config. Result columns are masked with the rules of the
+   *   table they are read from, whatever they are aliased to. Expressions (e.g.
+   *   aggregates) pass through unless they read a protected column, in which case
+   *   they are hidden or masked like that column. A query selecting only hidden
+   *   columns is rejected.
+   * - INSERT/UPDATE: written columns are checked with write rules before execution;
+   *   UPDATE rules are evaluated against the rows the update matches, fetching only
+   *   the columns the rules read
+   * - Rows returned by `returning()` are masked
+   *
+   * @param qb - Query builder, right after selectFrom/insertInto/updateTable/deleteFrom
+   * @param operation - Operation type
+   * @param table - Table name
+   * @param rawDb - Connection for fetching the rows an UPDATE matches and the columns
+   *   `selectAll()` expands to (bypasses plugins)
+   * @param onViolation - Called with violations before they are thrown
+   * @returns Query builder with field access applied
+   *
+   * @example
+   * ```typescript
+   * const query = transformer.transform(db.selectFrom('users'), 'select', 'users');
+   * // password_hash is never fetched, email is masked for other users
+   * const users = await query.select(['id', 'email', 'password_hash']).execute();
+   * ```
+   */
+  transform<QB>(
+    qb: QB,
+    operation: string,
+    table: string,
+    rawDb?: Kysely<unknown>,
+    onViolation?: (violation: RLSPolicyViolation) => void
+  ): QB {
+    if (!['select', 'insert', 'update', 'delete'].includes(operation)) {
+      return qb
+    }
+    if (operation === 'select') {
+      return this.transformSelect(qb, table, rawDb, onViolation)
+    }
+    if (!this.registry.getTableConfig(table)) {
+      return qb
+    }
+
+    const checkWrites = async (builder: object): Promise<void> => {
+      try {
+        await this.checkWrites(builder, operation, table, rawDb)
+      } catch (error) {
+        if (error instanceof RLSPolicyViolation) {
+          onViolation?.(error)
+        }
+        throw error
+      }
+    }
+
+    const maskRows = async (builder: object, rows: unknown[]): Promise<unknown[]> => {
+      if (getNode(builder).returning === undefined) {
+        return rows // InsertResult/UpdateResult/DeleteResult
+      }
+      const masked = await this.processor.maskRows(table, rows as Row[])
+      return masked.map(result => result.data)
+    }
+
+    return wrapBuilder(qb, checkWrites, maskRows)
+  }
+
+  /**
+   * Apply field access control to a SELECT query builder.
+   * The select list is rewritten by a Kysely plugin, so that it applies to the
+   * final query, joins included.
+   */
+  private transformSelect<QB>(
+    qb: QB,
+    table: string,
+    rawDb?: Kysely<unknown>,
+    onViolation?: (violation: RLSPolicyViolation) => void
+  ): QB {
+    const plugin: KyselyPlugin = {
+      transformQuery: args => {
+        if (!SelectQueryNode.is(args.node)) {
+          return args.node
+        }
+        try {
+          return this.planSelect(args.node, table).node
+        } catch (error) {
+          if (error instanceof RLSPolicyViolation) {
+            onViolation?.(error)
+          }
+          throw error
+        }
+      },
+      transformResult: args => Promise.resolve(args.result)
+    }
+
+    const loadColumns = async (builder: object): Promise<void> => {
+      const node = getNode(builder)
+      if (!rawDb || !SelectQueryNode.is(node)) {
+        return
+      }
+      const sources = getSelectSources(node)
+      if (sources.some(source => this.registry.getTableConfig(source.table))) {
+        await this.loadTableColumns(
+          rawDb,
+          sources.map(source => source.table)
+        )
+      }
+    }
+
+    const maskRows = async (builder: object, rows: unknown[]): Promise<unknown[]> => {
+      const node = getNode(builder)
+      if (!SelectQueryNode.is(node)) {
+        return rows
+      }
+      const plan = this.planSelect(node, table)
+      return await Promise.all(rows.map(row => this.maskSelectedRow(plan, row as Row)))
+    }
+
+    const withRewrite = (qb as unknown as { withPlugin(plugin: KyselyPlugin): QB }).withPlugin(
+      plugin
+    )
+    return wrapBuilder(withRewrite, loadColumns, maskRows)
+  }
+
+  /**
+   * Remove hidden columns from the select list of a SELECT node and expand its
+   * `*` selections, for the selected table and every joined table.
+   * Unqualified columns belong to the selected table.
+   *
+   * @throws RLSPolicyViolation when every selected column is hidden
+   */
+  private planSelect(node: SelectQueryNode, table: string): SelectPlan {
+    const sources = getSelectSources(node)
+    const main = sources.find(source => source.table === table) ?? { table, qualifier: table }
+    if (!sources.some(source => this.registry.getTableConfig(source.table))) {
+      return { node, main, columns: [], computed: [] }
+    }
+
+    const hiddenChecks = new Map<SelectSource, (column: string) => boolean>()
+    for (const source of sources) {
+      const tableConfig = this.registry.getTableConfig(source.table)
+      const isHidden = tableConfig ? this.getHiddenColumnCheck(tableConfig) : undefined
+      if (isHidden) {
+        hiddenChecks.set(source, isHidden)
+      }
+    }
+
+    // `*` of these sources is expanded: hidden columns are removed, and joined
+    // columns are masked with their own table's rules
+    const expanded = new Set(
+      sources.filter(
+        source =>
+          hiddenChecks.has(source) ||
+          (source !== main && this.registry.getTableConfig(source.table) !== undefined)
+      )
+    )
+
+    const columns: SourcedColumn[] = []
+    const computed: ComputedColumn[] = []
+
+    // Expand `*` of a source into its visible columns, when its columns are known
+    const expand = (source: SelectSource): SelectionNode[] | undefined => {
+      const known = this.tableColumns.get(source.table)
+      if (!known) {
+        return undefined
+      }
+      const isHidden = hiddenChecks.get(source)
+      const visible = isHidden ? known.filter(column => !isHidden(column)) : known
+      for (const column of visible) {
+        columns.push({ key: column, column, source })
+      }
+      return visible.map(column =>
+        SelectionNode.create(
+          ReferenceNode.create(ColumnNode.create(column), TableNode.create(source.qualifier))
+        )
+      )
+    }
+
+    const selections: SelectionNode[] = []
+    for (const selection of node.selections ?? []) {
+      const item = selection.selection
+
+      if (SelectAllNode.is(item)) {
+        if (expanded.size === 0) {
+          selections.push(selection)
+          continue
+        }
+        for (const source of sources) {
+          selections.push(
+            ...(expand(source) ?? [
+              SelectionNode.create(
+                ReferenceNode.createSelectAll(TableNode.create(source.qualifier))
+              )
+            ])
+          )
+        }
+        continue
+      }
+
+      const reference = getSelectedReference(item)
+      if (!reference) {
+        const expression = this.planExpression(item, sources, main, hiddenChecks)
+        if (expression) {
+          computed.push(...expression)
+          selections.push(selection)
+        }
+        continue
+      }
+
+      const source =
+        reference.qualifier === undefined
+          ? main
+          : sources.find(candidate => candidate.qualifier === reference.qualifier)
+      if (!source) {
+        selections.push(selection)
+        continue
+      }
+
+      if (reference.column === undefined) {
+        // qualifier.*
+        selections.push(...((expanded.has(source) ? expand(source) : undefined) ?? [selection]))
+        continue
+      }
+
+      if (hiddenChecks.get(source)?.(reference.column)) {
+        continue
+      }
+      columns.push({ key: reference.key, column: reference.column, source })
+      selections.push(selection)
+    }
+
+    if (selections.length === 0 && (node.selections?.length ?? 0) > 0) {
+      throw new RLSPolicyViolation('read', table, 'All selected columns are hidden')
+    }
+    return { node: { ...node, selections }, main, columns, computed }
+  }
+
+  /**
+   * Find the columns of configured tables an expression selection reads.
+   * Returns undefined when it reads a hidden column, and nothing to track when it
+   * has no alias.
+   */
+  private planExpression(
+    item: OperationNode,
+    sources: readonly SelectSource[],
+    main: SelectSource,
+    hiddenChecks: ReadonlyMap<SelectSource, (column: string) => boolean>
+  ): ComputedColumn[] | undefined {
+    const references = getReferencedColumns(item).flatMap(({ column, qualifier }) => {
+      const source =
+        qualifier === undefined
+          ? main
+          : sources.find(candidate => candidate.qualifier === qualifier)
+      return source && this.registry.getTableConfig(source.table) ? [{ column, source }] : []
+    })
+    if (references.some(({ column, source }) => hiddenChecks.get(source)?.(column))) {
+      return undefined
+    }
+    const key = AliasNode.is(item) ? (item.alias as { name?: string }).name : undefined
+    return key === undefined ? [] : [{ key, references }]
+  }
+
+  /**
+   * Mask a result row. Each key is resolved to the column it was selected from and
+   * masked with the rules of that column's table, so aliases don't escape masking.
+   * Keys the plan doesn't know (`*` of tables whose columns weren't introspected)
+   * are columns of the selected table. Expressions take the masking of the
+   * protected columns they read.
+   */
+  private async maskSelectedRow(plan: SelectPlan, row: Row): Promise<Row> {
+    const computedKeys = new Set(plan.computed.map(computed => computed.key))
+    const bySource = new Map<SelectSource, SourcedColumn[]>()
+    const add = (column: SourcedColumn): void => {
+      bySource.set(column.source, [...(bySource.get(column.source) ?? []), column])
+    }
+
+    const planned = new Set<string>()
+    for (const column of plan.columns) {
+      if (column.key in row && !planned.has(column.key)) {
+        planned.add(column.key)
+        add(column)
+      }
+    }
+    for (const key of Object.keys(row)) {
+      if (!planned.has(key) && !computedKeys.has(key)) {
+        add({ key, column: key, source: plan.main })
+      }
+    }
+
+    const values = new Map<string, unknown>()
+    const sourceRows = new Map<SelectSource, Row>()
+    for (const [source, sourced] of bySource) {
+      const sourceRow = Object.fromEntries(sourced.map(column => [column.column, row[column.key]]))
+      sourceRows.set(source, sourceRow)
+      const masked: Row = (await this.processor.maskRow(source.table, sourceRow)).data
+      for (const column of sourced) {
+        if (column.column in masked) {
+          values.set(column.key, masked[column.column])
+        }
+      }
+    }
+
+    for (const { key, references } of plan.computed) {
+      if (!(key in row)) {
+        continue
+      }
+      let value = row[key]
+      let visible = true
+      for (const { column, source } of references) {
+        const masked: Row = (
+          await this.processor.maskRow(source.table, { ...sourceRows.get(source), [column]: value })
+        ).data
+        if (!(column in masked)) {
+          visible = false
+          break
+        }
+        value = masked[column]
+      }
+      if (visible) {
+        values.set(key, value)
+      }
+    }
+
+    return Object.fromEntries(
+      Object.keys(row)
+        .filter(key => values.has(key))
+        .map(key => [key, values.get(key)])
+    )
+  }
+
+  /**
+   * Load the columns of tables through database introspection.
+   * Failures are ignored: `*` selections of those tables are then masked after fetching.
+   */
+  private async loadTableColumns(rawDb: Kysely<unknown>, tables: string[]): Promise<void> {
+    const missing = tables.filter(table => !this.tableColumns.has(table))
+    if (missing.length === 0) {
+      return
+    }
+    try {
+      const metadata = await rawDb.introspection.getTables()
+      for (const table of missing) {
+        const found = metadata.find(candidate => candidate.name === table)
+        this.tableColumns.set(table, found ? found.columns.map(column => column.name) : null)
+      }
+    } catch {
+      // Masked after fetching
+    }
+  }
+
+  /**
+   * Build a check for columns that are hidden from the current user regardless of the row.
+   * Read rules are evaluated once with a row that records access: a rule that returns
+   * false without reading the row hides its column for every row.
+   */
+  private getHiddenColumnCheck(
+    tableConfig: CompiledTableFieldAccess
+  ): ((column: string) => boolean) | undefined {
+    const ctx = rlsContext.getContextOrNull()
+    if (
+      !ctx ||
+      ctx.auth.isSystem ||
+      tableConfig.skipFor.some(role => ctx.auth.roles.includes(role))
+    ) {
+      return undefined
+    }
+
+    const hidden = new Set<string>()
+    for (const [field, config] of tableConfig.fields) {
+      if (!config.omitWhenHidden) {
+        continue // Masked, not omitted: the value is still needed
+      }
+
+      let rowAccessed = false
+      const row = new Proxy(
+        {},
+        {
+          get() {
+            rowAccessed = true
+            return undefined
+          },
+          has() {
+            rowAccessed = true
+            return false
+          }
+        }
+      )
+      const evalCtx: PolicyEvaluationContext = {
+        auth: ctx.auth,
+        row,
+        table: tableConfig.table,
+        ...(ctx.meta !== undefined && { meta: ctx.meta as Record<string, unknown> })
+      }
+
+      try {
+        const result = config.canRead(evalCtx)
+        if (result instanceof Promise) {
+          // Async rules are decided per row when masking
+          result.catch(() => undefined)
+        } else if (!result && !rowAccessed) {
+          hidden.add(field)
+        }
+      } catch {
+        // Decided per row when masking (fails closed there)
+      }
+    }
+
+    const defaultDeny = tableConfig.defaultAccess === 'deny'
+    return column => hidden.has(column) || (defaultDeny && !tableConfig.fields.has(column))
+  }
+
+  /**
+   * Check written columns against write rules
+   */
+  private async checkWrites(
+    builder: object,
+    operation: string,
+    table: string,
+    rawDb?: Kysely<unknown>
+  ): Promise<void> {
+    if (operation === 'insert') {
+      for (const row of getInsertRows(getNode(builder))) {
+        // The new row is its own owner context (e.g. ownerOnly('user_id'))
+        await this.processor.validateWrite(table, row, row)
+      }
+      return
+    }
+
+    if (operation !== 'update') {
+      return
+    }
+
+    const node = getNode(builder)
+    const data = getUpdateData(node)
+    const columns = Object.keys(data)
+    if (columns.length === 0) {
+      return
+    }
+
+    // Rules of unconfigured columns do not depend on the row
+    const rowDependent = columns.some(column => this.registry.getFieldConfig(table, column))
+    if (!rowDependent || !rawDb || node.from !== undefined || node.joins !== undefined) {
+      await this.processor.validateWrite(table, data)
+      return
+    }
+
+    // Evaluate write rules against the rows the update will modify. Only the columns
+    // the rules read are fetched, and rows alike in those columns are fetched once.
+    await this.loadTableColumns(rawDb, [table])
+    const known = this.tableColumns.get(table)
+    const read = new Set<string>()
+    const recordReads = (row: Row): Row =>
+      new Proxy(row, {
+        get(target, key) {
+          if (typeof key === 'string') read.add(key)
+          return Reflect.get(target, key) as unknown
+        },
+        has(target, key) {
+          if (typeof key === 'string') read.add(key)
+          return Reflect.has(target, key)
+        }
+      })
+
+    // Find the columns the rules read, with a row that has none
+    await this.processor.validateWrite(table, data, recordReads({})).catch(() => undefined)
+
+    // A rule may read further columns for some rows: fetch again with those
+    for (;;) {
+      const fetched = known ? known.filter(column => read.has(column)) : undefined
+      if (fetched?.length === 0) {
+        // The rules don't depend on the row
+        await this.processor.validateWrite(table, data)
+        return
+      }
+      const rows = await selectUpdatedRows(rawDb, node, table, fetched)
+      let complete = true
+      for (const row of rows) {
+        await this.processor.validateWrite(table, data, recordReads(row))
+        if (fetched && known?.some(column => read.has(column) && !fetched.includes(column))) {
+          complete = false
+          break
+        }
+      }
+      if (complete) {
+        return
+      }
+    }
+  }
+}
+
+/**
+ * Select the rows an UPDATE matches, with its WHERE clause and table alias.
+ * With `columns`, only those columns are selected and duplicate rows are dropped.
+ * @internal
+ */
+async function selectUpdatedRows(
+  rawDb: Kysely<unknown>,
+  node: MutationNode,
+  table: string,
+  columns: readonly string[] | undefined
+): Promise<Row[]> {
+  const target = node.table && AliasNode.is(node.table) ? node.table : undefined
+  const alias = target ? (target.alias as { name?: string }).name : undefined
+  const from = alias === undefined ? table : `${table} as ${alias}`
+
+  const db = rawDb as unknown as Kysely<Record<string, Row>>
+  let query = columns
+    ? db
+        .selectFrom(from)
+        .select(columns.map(column => sql.ref(column).as(column)))
+        .distinct()
+    : selectFromDynamicTable(db, from)
+  const where = node.where?.where
+  if (where) {
+    query = query.where(sql<SqlBool>`${{ toOperationNode: () => where }}`)
+  }
+  return await query.execute()
+}
+
+/**
+ * Get the operation node of a query builder
+ * @internal
+ */
+function getNode(builder: object): MutationNode {
+  return (builder as { toOperationNode(): MutationNode }).toOperationNode()
+}
+
+/**
+ * Check if a method result continues the query builder chain
+ * @internal
+ */
+function isQueryBuilder(value: unknown): value is object {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Record<string, unknown>)['toOperationNode'] === 'function' &&
+    typeof (value as Record<string, unknown>)['execute'] === 'function'
+  )
+}
+
+/**
+ * Get the column name of a ColumnNode or ReferenceNode
+ * @internal
+ */
+function getColumnName(node: OperationNode): string | undefined {
+  const columnNode =
+    node.kind === 'ReferenceNode' ? (node as unknown as { column: OperationNode }).column : node
+  if (columnNode.kind !== 'ColumnNode') {
+    return undefined
+  }
+  return (columnNode as unknown as { column: { name: string } }).column.name
+}
+
+/**
+ * Get the value of a value node, or the node itself for expressions.
+ * Primitive value lists hold plain values.
+ * @internal
+ */
+function getNodeValue(node: unknown): unknown {
+  if (typeof node !== 'object' || node === null) {
+    return node
+  }
+  const valueNode = node as { kind?: string; value?: unknown }
+  return valueNode.kind === 'ValueNode' ? valueNode.value : node
+}
+
+/**
+ * Get the rows written by an INSERT query
+ * @internal
+ */
+function getInsertRows(node: MutationNode): Row[] {
+  const columns = (node.columns ?? []).map(getColumnName)
+  const values = node.values as
+    | { kind: string; values?: readonly { values: readonly unknown[] }[] }
+    | undefined
+
+  if (values?.kind !== 'ValuesNode' || !values.values) {
+    // INSERT ... SELECT or DEFAULT VALUES: the columns are known, the values are not
+    return [Object.fromEntries(columns.filter(c => c !== undefined).map(c => [c, undefined]))]
+  }
+
+  return values.values.map(list => {
+    const row: Row = {}
+    columns.forEach((column, i) => {
+      if (column !== undefined) {
+        row[column] = getNodeValue(list.values[i])
+      }
+    })
+    return row
+  })
+}
+
+/**
+ * Get the column values set by an UPDATE query
+ * @internal
+ */
+function getUpdateData(node: MutationNode): Row {
+  const data: Row = {}
+  for (const update of node.updates ?? []) {
+    const column = getColumnName(update.column)
+    if (column !== undefined) {
+      data[column] = getNodeValue(update.value)
+    }
+  }
+  return data
+}
+
+/**
+ * Wrap a query builder chain so that `prepare` runs before the query executes
+ * and returned rows go through `mask`
+ * @internal
+ */
+function wrapBuilder<QB>(
+  qb: QB,
+  prepare: (builder: object) => Promise<void>,
+  mask: (builder: object, rows: unknown[]) => Promise<unknown[]>
+): QB {
+  const wrap = (builder: object): unknown =>
+    new Proxy(builder, {
+      get(target, prop) {
+        const value: unknown = Reflect.get(target, prop, target)
+        if (typeof value !== 'function') {
+          return value
+        }
+        const method = value as (...args: unknown[]) => unknown
+
+        if (EXECUTE_METHODS.has(prop)) {
+          return async (...args: unknown[]): Promise<unknown> => {
+            await prepare(target)
+            const result = await method.apply(target, args)
+            if (prop === 'execute') {
+              return await mask(target, result as unknown[])
+            }
+            return result === undefined ? result : (await mask(target, [result]))[0]
+          }
+        }
+
+        if (prop === 'stream') {
+          return async function* (...args: unknown[]): AsyncIterableIterator<unknown> {
+            await prepare(target)
+            for await (const row of method.apply(target, args) as AsyncIterable<unknown>) {
+              yield (await mask(target, [row]))[0]
+            }
+          }
+        }
+
+        return (...args: unknown[]): unknown => {
+          const result = method.apply(target, args)
+          return isQueryBuilder(result) ? wrap(result) : result
+        }
+      }
+    })
+
+  return wrap(qb as object) as QB
+}
+
+/**
+ * Get the tables a SELECT reads in its FROM clause and joins
+ * @internal
+ */
+function getSelectSources(node: SelectQueryNode): SelectSource[] {
+  const sources: SelectSource[] = []
+  for (const item of [...(node.from?.froms ?? []), ...(node.joins ?? []).map(join => join.table)]) {
+    if (TableNode.is(item)) {
+      const table = item.table.identifier.name
+      sources.push({ table, qualifier: table })
+    } else if (AliasNode.is(item) && TableNode.is(item.node)) {
+      const alias = item.alias as { name?: string }
+      const table = item.node.table.identifier.name
+      sources.push({ table, qualifier: alias.name ?? table })
+    }
+  }
+  return sources
+}
+
+/**
+ * Get the column (undefined for `table.*`), its table qualifier and the result key
+ * of a selection that references a column
+ * @internal
+ */
+function getSelectedReference(
+  item: OperationNode
+): { column?: string; qualifier?: string; key: string } | undefined {
+  let node = item
+  let alias: string | undefined
+  if (AliasNode.is(node)) {
+    alias = (node.alias as { name?: string }).name
+    node = node.node
+  }
+
+  if (ColumnNode.is(node)) {
+    const column = node.column.name
+    return { column, key: alias ?? column }
+  }
+  if (!ReferenceNode.is(node)) {
+    return undefined
+  }
+
+  const qualifier = node.table?.table.identifier.name
+  if (SelectAllNode.is(node.column)) {
+    return { key: '*', ...(qualifier !== undefined && { qualifier }) }
+  }
+  const column = node.column.column.name
+  return { column, key: alias ?? column, ...(qualifier !== undefined && { qualifier }) }
+}
+
+/**
+ * Get the columns an expression reads, with their table qualifiers
+ * @internal
+ */
+function getReferencedColumns(node: OperationNode): { column: string; qualifier?: string }[] {
+  if (ReferenceNode.is(node)) {
+    const qualifier = node.table?.table.identifier.name
+    return ColumnNode.is(node.column)
+      ? [{ column: node.column.column.name, ...(qualifier !== undefined && { qualifier }) }]
+      : []
+  }
+  if (ColumnNode.is(node)) {
+    return [{ column: node.column.name }]
+  }
+
+  const found: { column: string; qualifier?: string }[] = []
+  for (const value of Object.values(node)) {
+    const children: unknown[] = Array.isArray(value) ? value : [value]
+    for (const child of children) {
+      if (typeof child === 'object' && child !== null && 'kind' in child) {
+        found.push(...getReferencedColumns(child as OperationNode))
+      }
+    }
+  }
+  return found
+}
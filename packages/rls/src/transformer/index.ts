@@ -1,2 +1,3 @@
 export { SelectTransformer } from './select.js'
 export { MutationGuard } from './mutation.js'
+export { FieldAccessTransformer } from './field-access.js'
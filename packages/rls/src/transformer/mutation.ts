@@ -3,6 +3,7 @@
  * Validates CREATE, UPDATE, DELETE operations against RLS policies
  */
 
+import { InsertQueryBuilder, type InsertQueryNode } from 'kysely'
 import type { PolicyRegistry } from '../policy/registry.js'
 import type { PolicyEvaluationContext, Operation } from '../policy/types.js'
 import type { RLSContext } from '../context/types.js'
@@ -14,6 +15,25 @@ import { RLSPolicyViolation, RLSPolicyEvaluationError } from '../errors.js'
  */
 const DEFAULT_CHUNK_SIZE = 100
 
+/**
+ * Insert query builder methods that run the query
+ */
+const INSERT_EXECUTE_METHODS = new Set<string | symbol>([
+  'execute',
+  'executeTakeFirst',
+  'executeTakeFirstOrThrow'
+])
+
+/**
+ * Rows collected from an INSERT query builder for create policy checks
+ * @internal
+ */
+interface InsertRows {
+  readonly rows: readonly Record<string, unknown>[]
+  /** Why the inserted rows cannot be known before execution (callback values, INSERT ... SELECT) */
+  readonly unverifiable?: string
+}
+
 /**
  * Mutation guard
  * Validates mutations (CREATE, UPDATE, DELETE) against allow/deny/validate policies
@@ -114,6 +134,102 @@ export class MutationGuard<DB = unknown> {
     await this.checkMutation(table, 'delete', existingRow)
   }
 
+  /**
+   * Guard an INSERT query builder with create policies
+   *
+   * The rows passed to `values()` are checked with {@link checkCreate} when the
+   * query is executed, so DAL code calling `db.insertInto(...)` directly is held
+   * to the same policies as repository `create()`. Inserts whose rows cannot be
+   * known up front (`values()` with a callback, `expression()`) are rejected.
+   *
+   * Statements that can overwrite existing rows (`replaceInto()`,
+   * `onConflict(oc => oc.doUpdateSet(...))`, `onDuplicateKeyUpdate()`) are
+   * rejected as well: the rows they modify are only known to the database, so
+   * update policies and filters cannot be applied to them.
+   *
+   * @param qb - Insert query builder, right after `insertInto()`
+   * @param table - Table name
+   * @param onViolation - Called with the violation before it is thrown
+   * @returns Query builder that checks create policies before executing
+   *
+   * @example
+   * ```typescript
+   * const query = guard.guardInsert(db.insertInto('posts'), 'posts');
+   * // Throws RLSPolicyViolation if a create policy rejects the row
+   * await query.values({ title: 'Hello', tenant_id: 2 }).execute();
+   * ```
+   */
+  guardInsert<QB>(
+    qb: QB,
+    table: string,
+    onViolation?: (violation: RLSPolicyViolation) => void
+  ): QB {
+    const check = async (builder: object, state: InsertRows): Promise<void> => {
+      try {
+        const overwrite = describeOverwrite(
+          (builder as { toOperationNode(): InsertQueryNode }).toOperationNode()
+        )
+        if (overwrite !== undefined) {
+          throw new RLSPolicyViolation(
+            'update',
+            table,
+            `Cannot check update policies for ${overwrite}`
+          )
+        }
+        if (state.unverifiable !== undefined) {
+          throw new RLSPolicyViolation(
+            'create',
+            table,
+            `Cannot check create policies for ${state.unverifiable}`
+          )
+        }
+        for (const row of state.rows) {
+          await this.checkCreate(table, row)
+        }
+      } catch (error) {
+        if (error instanceof RLSPolicyViolation) {
+          onViolation?.(error)
+        }
+        throw error
+      }
+    }
+
+    const wrap = (builder: object, state: InsertRows): unknown =>
+      new Proxy(builder, {
+        get(target, prop) {
+          const value: unknown = Reflect.get(target, prop, target)
+          if (typeof value !== 'function') {
+            return value
+          }
+
+          if (INSERT_EXECUTE_METHODS.has(prop)) {
+            return async (...args: unknown[]): Promise<unknown> => {
+              await check(target, state)
+              return await (value as (...a: unknown[]) => Promise<unknown>).apply(target, args)
+            }
+          }
+
+          if (prop === 'stream') {
+            return async function* (...args: unknown[]): AsyncIterableIterator<unknown> {
+              await check(target, state)
+              yield* (value as (...a: unknown[]) => AsyncIterableIterator<unknown>).apply(target, args)
+            }
+          }
+
+          return (...args: unknown[]): unknown => {
+            const result: unknown = (value as (...a: unknown[]) => unknown).apply(target, args)
+            // compile(), toOperationNode() etc. leave the builder chain
+            if (!(result instanceof InsertQueryBuilder)) {
+              return result
+            }
+            return wrap(result, collectInsertRows(state, prop, args))
+          }
+        }
+      })
+
+    return wrap(qb as object, { rows: [] }) as QB
+  }
+
   /**
    * Check if READ operation is allowed on a specific row
    *
@@ -410,3 +526,37 @@ export class MutationGuard<DB = unknown> {
     return results
   }
 }
+
+/**
+ * Describe how an INSERT statement can modify existing rows, if it can
+ * @internal
+ */
+function describeOverwrite(node: InsertQueryNode): string | undefined {
+  if (node.replace) return 'REPLACE'
+  if (node.onConflict?.updates) return 'ON CONFLICT DO UPDATE'
+  if (node.onDuplicateKey) return 'ON DUPLICATE KEY UPDATE'
+  return undefined
+}
+
+/**
+ * Track the rows an INSERT builder method adds
+ * @internal
+ */
+function collectInsertRows(state: InsertRows, method: string | symbol, args: unknown[]): InsertRows {
+  switch (method) {
+    case 'values': {
+      const values = args[0]
+      if (typeof values === 'function') {
+        return { ...state, unverifiable: 'values given as a callback' }
+      }
+      const rows = (Array.isArray(values) ? values : [values]) as Record<string, unknown>[]
+      return { ...state, rows: [...state.rows, ...rows] }
+    }
+    case 'defaultValues':
+      return { ...state, rows: [...state.rows, {}] }
+    case 'expression':
+      return { ...state, unverifiable: 'INSERT ... SELECT' }
+    default:
+      return state
+  }
+}
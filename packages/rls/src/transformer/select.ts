@@ -3,7 +3,7 @@
  * Applies filter policies to SELECT queries by adding WHERE conditions
  */
 
-import type { SelectQueryBuilder } from 'kysely'
+import type { SelectQueryBuilder, UpdateQueryBuilder, DeleteQueryBuilder } from 'kysely'
 import type { PolicyRegistry } from '../policy/registry.js'
 import type { PolicyEvaluationContext } from '../policy/types.js'
 import type { RLSContext } from '../context/types.js'
@@ -27,6 +27,7 @@ export class SelectTransformer<DB = unknown> {
    *
    * @param qb - The query builder to transform
    * @param table - Table name being queried
+   * @param qualifier - Name the table's columns are referenced by (its alias, if any)
    * @returns Transformed query builder with RLS filters applied
    *
    * @example
@@ -39,7 +40,8 @@ export class SelectTransformer<DB = unknown> {
    */
   transform<TB extends keyof DB & string, O>(
     qb: SelectQueryBuilder<DB, TB, O>,
-    table: string
+    table: string,
+    qualifier: string = table
   ): SelectQueryBuilder<DB, TB, O> {
     // Check for context
     const ctx = rlsContext.getContextOrNull()
@@ -77,12 +79,40 @@ export class SelectTransformer<DB = unknown> {
     let result = qb
     for (const filter of filters) {
       const conditions = this.evaluateFilter(filter, ctx, table)
-      result = this.applyConditions(result, conditions, table)
+      result = this.applyConditions(result, conditions, qualifier)
     }
 
     return result
   }
 
+  /**
+   * Transform an UPDATE or DELETE query by applying filter policies, so that
+   * only rows the user can read are modified
+   *
+   * @param qb - The update or delete query builder to transform
+   * @param table - Table name being modified
+   * @param qualifier - Name the table's columns are referenced by (its alias, if any)
+   * @returns Transformed query builder with RLS filters applied
+   *
+   * @example
+   * ```typescript
+   * let query = db.updateTable('posts').set({ status: 'archived' });
+   * query = transformer.transformMutation(query, 'posts');
+   * // UPDATE posts SET status = ? WHERE posts.tenant_id = ?
+   * ```
+   */
+  transformMutation<
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    QB extends UpdateQueryBuilder<DB, any, any, any> | DeleteQueryBuilder<DB, any, any>
+  >(qb: QB, table: string, qualifier: string = table): QB {
+    // UPDATE and DELETE builders take the same where() conditions as SELECT builders
+    return this.transform(
+      qb as unknown as SelectQueryBuilder<DB, keyof DB & string, unknown>,
+      table,
+      qualifier
+    ) as unknown as QB
+  }
+
   /**
    * Evaluate a filter policy to get WHERE conditions
    *
@@ -135,19 +165,19 @@ export class SelectTransformer<DB = unknown> {
    *
    * @param qb - Query builder to modify
    * @param conditions - WHERE clause conditions
-   * @param table - Table name (for qualified column names)
+   * @param qualifier - Table name or alias (for qualified column names)
    * @returns Modified query builder
    */
   private applyConditions<TB extends keyof DB & string, O>(
     qb: SelectQueryBuilder<DB, TB, O>,
     conditions: Record<string, unknown>,
-    table: string
+    qualifier: string
   ): SelectQueryBuilder<DB, TB, O> {
     let result = qb
 
     for (const [column, value] of Object.entries(conditions)) {
       // Use table-qualified column name to avoid ambiguity in joins
-      const qualifiedColumn = createQualifiedColumn(table, column)
+      const qualifiedColumn = createQualifiedColumn(qualifier, column)
 
       if (value === null) {
         // NULL check
@@ -0,0 +1,245 @@
+/**
+ * SQLite Integration Tests for the database audit adapter in @kysera/rls
+ *
+ * Tests that RLS audit events are stored in batches, queried and aggregated
+ * against a real in-memory SQLite database.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Kysely, SqliteDialect } from 'kysely'
+import Database from 'better-sqlite3'
+import {
+  DatabaseAuditAdapter,
+  createRLSAuditTable,
+  dropRLSAuditTable,
+  createAuditLogger,
+  rlsContext,
+  type RLSAuditEvent
+} from '../../src/index.js'
+
+const at = (minute: number): Date => new Date(Date.UTC(2024, 0, 1, 12, minute))
+
+function createEvent(overrides: Partial<RLSAuditEvent> = {}): RLSAuditEvent {
+  return {
+    timestamp: at(0),
+    userId: '123',
+    operation: 'read',
+    table: 'posts',
+    decision: 'allow',
+    ...overrides
+  }
+}
+
+describe('SQLite Audit Adapter Integration Tests', () => {
+  let db: Kysely<any>
+  let adapter: DatabaseAuditAdapter
+
+  beforeEach(async () => {
+    db = new Kysely<any>({ dialect: new SqliteDialect({ database: new Database(':memory:') }) })
+    await createRLSAuditTable(db)
+    adapter = new DatabaseAuditAdapter(db, { batchSize: 3, flushInterval: 0 })
+  })
+
+  afterEach(async () => {
+    await adapter.close()
+    await db.destroy()
+  })
+
+  const storedCount = async (): Promise<number> =>
+    (
+      await db
+        .selectFrom('rls_audit_log')
+        .select(eb => eb.fn.countAll<number>().as('n'))
+        .executeTakeFirstOrThrow()
+    ).n
+
+  describe('migration helpers', () => {
+    it('should create the table once and drop it', async () => {
+      await createRLSAuditTable(db) // Already exists
+
+      const tables = await db.introspection.getTables()
+      expect(tables.map(t => t.name)).toContain('rls_audit_log')
+
+      await dropRLSAuditTable(db)
+      expect((await db.introspection.getTables()).map(t => t.name)).not.toContain('rls_audit_log')
+    })
+  })
+
+  describe('writing', () => {
+    it('should buffer events until the batch size is reached', async () => {
+      await adapter.log(createEvent())
+      await adapter.log(createEvent())
+      expect(await storedCount()).toBe(0)
+      expect(adapter.bufferSize).toBe(2)
+
+      await adapter.log(createEvent())
+      expect(await storedCount()).toBe(3)
+      expect(adapter.bufferSize).toBe(0)
+    })
+
+    it('should write buffered events on flush and close', async () => {
+      await adapter.log(createEvent())
+      await adapter.flush()
+      expect(await storedCount()).toBe(1)
+
+      await adapter.log(createEvent())
+      await adapter.close()
+      expect(await storedCount()).toBe(2)
+
+      // Closed adapters write immediately
+      await adapter.log(createEvent())
+      expect(await storedCount()).toBe(3)
+    })
+
+    it('should write batches in chunks', async () => {
+      await adapter.logBatch(Array.from({ length: 7 }, (_, i) => createEvent({ rowIds: [i] })))
+
+      const events = await adapter.query()
+      expect(events.map(e => e.rowIds)).toEqual([[0], [1], [2], [3], [4], [5], [6]])
+    })
+
+    it('should keep buffered events when a write fails', async () => {
+      await adapter.log(createEvent())
+      await dropRLSAuditTable(db)
+
+      await expect(adapter.flush()).rejects.toThrow()
+      expect(adapter.bufferSize).toBe(1)
+
+      await createRLSAuditTable(db)
+      await adapter.flush()
+      expect(await storedCount()).toBe(1)
+    })
+
+    it('should flush on a timer', async () => {
+      vi.useFakeTimers()
+      try {
+        const timed = new DatabaseAuditAdapter(db, { flushInterval: 1000 })
+        await timed.log(createEvent())
+
+        await vi.advanceTimersByTimeAsync(1000)
+        vi.useRealTimers()
+        await timed.close()
+
+        expect(await storedCount()).toBe(1)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
+
+  describe('query', () => {
+    beforeEach(async () => {
+      await adapter.logBatch([
+        createEvent({
+          timestamp: at(1),
+          tenantId: 7,
+          policyName: 'ownership',
+          context: { roles: ['user'] },
+          requestId: 'req-1',
+          ipAddress: '10.0.0.1',
+          durationMs: 1.5
+        }),
+        createEvent({
+          timestamp: at(2),
+          userId: 456,
+          decision: 'deny',
+          operation: 'update',
+          reason: 'Not owner'
+        }),
+        createEvent({ timestamp: at(3), decision: 'filter', table: 'comments' }),
+        createEvent({ timestamp: at(4), userId: 456, decision: 'deny', operation: 'delete' })
+      ])
+    })
+
+    it('should return stored events with all fields', async () => {
+      const [event] = await adapter.query({ requestId: 'req-1' })
+
+      expect(event).toEqual({
+        timestamp: at(1),
+        userId: '123',
+        tenantId: '7',
+        operation: 'read',
+        table: 'posts',
+        policyName: 'ownership',
+        decision: 'allow',
+        context: { roles: ['user'] },
+        requestId: 'req-1',
+        ipAddress: '10.0.0.1',
+        durationMs: 1.5
+      })
+    })
+
+    it('should filter, order and paginate', async () => {
+      const minutes = (events: RLSAuditEvent[]) => events.map(e => e.timestamp.getUTCMinutes())
+
+      expect(minutes(await adapter.query({ userId: 456 }))).toEqual([2, 4])
+      expect(minutes(await adapter.query({ decision: 'deny', operation: 'delete' }))).toEqual([4])
+      expect(minutes(await adapter.query({ table: 'comments' }))).toEqual([3])
+      expect(minutes(await adapter.query({ tenantId: 7 }))).toEqual([1])
+      expect(minutes(await adapter.query({ startTime: at(2), endTime: at(4) }))).toEqual([2, 3])
+      expect(minutes(await adapter.query({ limit: 2, offset: 1 }))).toEqual([2, 3])
+      expect(minutes(await adapter.query({ offset: 3 }))).toEqual([4])
+    })
+
+    it('should include buffered events', async () => {
+      await adapter.log(createEvent({ timestamp: at(5) }))
+
+      expect(await adapter.query({ startTime: at(5) })).toHaveLength(1)
+    })
+  })
+
+  describe('getStats', () => {
+    it('should aggregate events in SQL', async () => {
+      await adapter.logBatch([
+        createEvent({ timestamp: at(1) }),
+        createEvent({ timestamp: at(2), userId: 456, decision: 'deny', operation: 'update' }),
+        createEvent({ timestamp: at(3), decision: 'deny', table: 'comments', operation: 'delete' }),
+        createEvent({ timestamp: at(4), userId: 456, decision: 'deny', operation: 'delete' }),
+        createEvent({ timestamp: at(5), decision: 'filter' })
+      ])
+
+      const stats = await adapter.getStats()
+
+      expect(stats).toEqual({
+        totalEvents: 5,
+        byDecision: { allow: 1, deny: 3, filter: 1 },
+        byOperation: { read: 2, create: 0, update: 1, delete: 2, all: 0 },
+        byTable: { posts: 4, comments: 1 },
+        topDeniedUsers: [
+          { userId: '456', count: 2 },
+          { userId: '123', count: 1 }
+        ],
+        timeRange: { start: at(1), end: at(5) }
+      })
+
+      const windowed = await adapter.getStats({ startTime: at(2), endTime: at(4) })
+      expect(windowed.totalEvents).toBe(2)
+      expect(windowed.timeRange).toEqual({ start: at(2), end: at(3) })
+    })
+  })
+
+  describe('with AuditLogger', () => {
+    it('should store decisions logged through the audit logger', async () => {
+      const logger = createAuditLogger({ adapter, bufferSize: 10, flushInterval: 0 })
+
+      await rlsContext.runAsync(
+        { auth: { userId: 'alice', tenantId: 'acme', roles: ['user'], isSystem: false } },
+        async () => {
+          await logger.logDeny('update', 'posts', 'ownership', { reason: 'Not owner', rowIds: [1] })
+        }
+      )
+      await logger.close()
+
+      const [event] = await adapter.query()
+      expect(event).toMatchObject({
+        userId: 'alice',
+        tenantId: 'acme',
+        decision: 'deny',
+        policyName: 'ownership',
+        reason: 'Not owner',
+        rowIds: [1],
+        context: { roles: ['user'] }
+      })
+    })
+  })
+})
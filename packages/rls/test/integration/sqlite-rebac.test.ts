@@ -0,0 +1,218 @@
+/**
+ * SQLite Integration Tests for ReBAC policies in @kysera/rls
+ *
+ * Tests relationship-based policies registered on rlsPlugin and evaluated
+ * by PolicyTester against a real in-memory SQLite database.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { Kysely, SqliteDialect } from 'kysely'
+import Database from 'better-sqlite3'
+import { createExecutor } from '@kysera/executor'
+import {
+  defineRLSSchema,
+  filter,
+  rlsContext,
+  rlsPlugin,
+  allowRelation,
+  denyRelation,
+  shopOrgMembershipPath,
+  createPolicyTester,
+  type ReBAcSchema,
+  type RLSContext
+} from '../../src/index.js'
+
+interface ReBAcTestDatabase {
+  organizations: { id: number; name: string }
+  employees: { id: number; user_id: string; organization_id: number; status: string }
+  shops: { id: number; name: string; organization_id: number }
+  products: { id: number; name: string; shop_id: number; archived: number }
+}
+
+const membership = shopOrgMembershipPath('products', 'shop_id')
+
+const rebac: ReBAcSchema<ReBAcTestDatabase> = {
+  products: {
+    relationships: [membership],
+    policies: [
+      allowRelation(['read', 'update', 'delete'], membership.name, ctx => ({
+        user_id: ctx.auth.userId,
+        status: 'active'
+      })),
+      denyRelation('delete', membership.name, ctx => ({
+        user_id: ctx.auth.userId,
+        status: 'suspended'
+      }))
+    ]
+  }
+}
+
+const schema = defineRLSSchema<ReBAcTestDatabase>({
+  products: {
+    policies: [filter('read', () => ({ archived: 0 }))],
+    skipFor: ['auditor']
+  }
+})
+
+const asUser = (userId: string, roles: string[] = ['user']): RLSContext => ({
+  auth: { userId, roles, isSystem: false }
+})
+
+describe('SQLite ReBAC Integration Tests', () => {
+  let db: Kysely<ReBAcTestDatabase>
+
+  beforeEach(async () => {
+    const sqlite = new Database(':memory:')
+    sqlite.exec(`
+      CREATE TABLE organizations (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+      CREATE TABLE employees (
+        id INTEGER PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        organization_id INTEGER NOT NULL REFERENCES organizations(id),
+        status TEXT NOT NULL
+      );
+      CREATE TABLE shops (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        organization_id INTEGER NOT NULL REFERENCES organizations(id)
+      );
+      CREATE TABLE products (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        shop_id INTEGER NOT NULL REFERENCES shops(id),
+        archived INTEGER NOT NULL DEFAULT 0
+      );
+
+      INSERT INTO organizations (id, name) VALUES (1, 'Acme'), (2, 'Beta');
+      -- alice works for Acme, bob for Beta; carol is suspended at Acme but active at Beta
+      INSERT INTO employees (user_id, organization_id, status) VALUES
+        ('alice', 1, 'active'), ('bob', 2, 'active'), ('carol', 1, 'suspended'), ('carol', 2, 'active');
+      INSERT INTO shops (id, name, organization_id) VALUES (10, 'Acme Store', 1), (20, 'Beta Store', 2);
+      INSERT INTO products (id, name, shop_id, archived) VALUES
+        (1, 'Anvil', 10, 0), (2, 'Rocket', 10, 0), (3, 'Old Anvil', 10, 1), (4, 'Bolt', 20, 0);
+    `)
+    db = new Kysely<ReBAcTestDatabase>({ dialect: new SqliteDialect({ database: sqlite }) })
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+  })
+
+  const productIds = async (executor: Kysely<ReBAcTestDatabase>, ctx: RLSContext) =>
+    (
+      await rlsContext.runAsync(ctx, () =>
+        executor.selectFrom('products').select('id').orderBy('id').execute()
+      )
+    ).map(row => row.id)
+
+  describe('rlsPlugin', () => {
+    it('should filter SELECT by relationships and filter policies together', async () => {
+      const executor = await createExecutor(db, [rlsPlugin({ schema, rebac })])
+
+      // Archived product 3 is removed by the filter policy
+      expect(await productIds(executor, asUser('alice'))).toEqual([1, 2])
+      expect(await productIds(executor, asUser('bob'))).toEqual([4])
+      expect(await productIds(executor, asUser('carol'))).toEqual([4])
+      expect(await productIds(executor, asUser('mallory'))).toEqual([])
+    })
+
+    it('should apply relationships to UPDATE and DELETE', async () => {
+      const executor = await createExecutor(db, [rlsPlugin({ schema, rebac })])
+
+      const updated = await rlsContext.runAsync(asUser('bob'), () =>
+        executor.updateTable('products').set({ name: 'Renamed' }).executeTakeFirst()
+      )
+      expect(Number(updated.numUpdatedRows)).toBe(1)
+
+      await rlsContext.runAsync(asUser('alice'), () =>
+        executor.deleteFrom('products').where('id', 'in', [1, 4]).execute()
+      )
+
+      const rows = await db.selectFrom('products').select(['id', 'name']).orderBy('id').execute()
+      expect(rows).toEqual([
+        { id: 2, name: 'Rocket' },
+        { id: 3, name: 'Old Anvil' },
+        { id: 4, name: 'Renamed' }
+      ])
+    })
+
+    it('should let deny relationships override allowed ones', async () => {
+      const executor = await createExecutor(db, [rlsPlugin({ schema, rebac })])
+      await db
+        .insertInto('employees')
+        .values({ id: 5, user_id: 'bob', organization_id: 2, status: 'suspended' })
+        .execute()
+
+      const deleted = await rlsContext.runAsync(asUser('bob'), () =>
+        executor.deleteFrom('products').executeTakeFirst()
+      )
+
+      expect(Number(deleted.numDeletedRows)).toBe(0)
+    })
+
+    it('should bypass relationships for system users, bypass roles and skipFor roles', async () => {
+      const executor = await createExecutor(db, [
+        rlsPlugin({ schema, rebac, bypassRoles: ['admin'] })
+      ])
+
+      expect(await productIds(executor, asUser('mallory', ['admin']))).toEqual([1, 2, 3, 4])
+      expect(await productIds(executor, asUser('mallory', ['auditor']))).toEqual([1, 2, 3, 4])
+      expect(
+        await rlsContext.runAsync(asUser('mallory'), () =>
+          rlsContext.asSystemAsync(
+            async () => (await executor.selectFrom('products').select('id').execute()).length
+          )
+        )
+      ).toBe(4)
+    })
+  })
+
+  describe('PolicyTester', () => {
+    it('should evaluate relationship policies against the database', async () => {
+      const tester = createPolicyTester(schema, { rebac, db })
+      const product = { id: 1, shop_id: 10 }
+
+      const allowed = await tester.evaluate('products', 'read', {
+        ...asUser('alice'),
+        row: product
+      })
+      expect(allowed).toMatchObject({ allowed: true, decisionType: 'allow' })
+      expect(allowed.policyName).toBe('products_rebac_policy_0')
+
+      const denied = await tester.evaluate('products', 'read', { ...asUser('bob'), row: product })
+      expect(denied).toMatchObject({ allowed: false, reason: 'No relationship policies matched' })
+    })
+
+    it('should report deny relationships', async () => {
+      const tester = createPolicyTester(schema, { rebac, db })
+
+      const result = await tester.evaluate('products', 'delete', {
+        ...asUser('carol'),
+        row: { id: 1, shop_id: 10 }
+      })
+
+      expect(result).toMatchObject({
+        allowed: false,
+        decisionType: 'deny',
+        policyName: 'products_rebac_policy_1'
+      })
+      expect(result.evaluatedPolicies).toContainEqual({
+        name: 'products_rebac_policy_1',
+        type: 'deny',
+        result: true
+      })
+    })
+
+    it('should require a database for relationship policies', async () => {
+      const tester = createPolicyTester(schema, { rebac })
+
+      await expect(
+        tester.evaluate('products', 'read', { ...asUser('alice'), row: { id: 1 } })
+      ).rejects.toThrow('requires a database')
+
+      // Operations without relationship policies need no database
+      const created = await tester.evaluate('products', 'create', { ...asUser('alice'), data: {} })
+      expect(created.allowed).toBe(false)
+    })
+  })
+})
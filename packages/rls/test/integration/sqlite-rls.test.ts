@@ -7,6 +7,13 @@
 
 import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest'
 import { Kysely } from 'kysely'
+import { createExecutor } from '@kysera/executor'
+import {
+  createORM,
+  createRepositoryFactory,
+  createRequestLoader,
+  nativeAdapter
+} from '@kysera/repository'
 import {
   createTestDb,
   initializeSchema,
@@ -21,10 +28,14 @@ import {
   filter,
   validate,
   rlsContext,
+  rlsPlugin,
   createRLSContext,
   withRLSContext,
   PolicyRegistry,
-  // RLSPolicyViolation,
+  RLSPolicyViolation,
+  maskedField,
+  readOnly,
+  rolesOnly,
   type RLSContext
 } from '../../src/index.js'
 import { SelectTransformer } from '../../src/transformer/select.js'
@@ -526,6 +537,469 @@ describe('SQLite Integration Tests', () => {
     })
   })
 
+  describe('DAL Mutations', () => {
+    const dalSchema = defineRLSSchema<RLSTestDatabase>({
+      posts: {
+        policies: [
+          filter('read', ctx => ({ tenant_id: ctx.auth!.tenantId })),
+          allow('create', ctx => ctx.auth!.roles.includes('author')),
+          validate('create', ctx => (ctx.data as any).tenant_id === ctx.auth!.tenantId)
+        ]
+      }
+    })
+
+    const author: RLSContext = {
+      auth: { userId: '1', roles: ['author'], isSystem: false, tenantId: 1 }
+    }
+
+    let userId: number
+
+    beforeEach(async () => {
+      userId = (await db.selectFrom('users').select('id').executeTakeFirstOrThrow()).id
+    })
+
+    const newPost = (tenantId: number) => ({
+      user_id: userId,
+      tenant_id: tenantId,
+      title: 'DAL Post',
+      content: null,
+      status: 'draft',
+      is_public: 0 as unknown as boolean,
+      updated_at: null
+    })
+
+    const countPosts = async (tenantId: number, status: string): Promise<number> => {
+      const rows = await db
+        .selectFrom('posts')
+        .select('id')
+        .where('tenant_id', '=', tenantId)
+        .where('status', '=', status)
+        .execute()
+      return rows.length
+    }
+
+    it('should apply filter policies to UPDATE', async () => {
+      const executor = await createExecutor(db, [rlsPlugin({ schema: dalSchema })])
+
+      const result = await rlsContext.runAsync(author, () =>
+        executor.updateTable('posts').set({ status: 'archived' }).executeTakeFirst()
+      )
+
+      expect(Number(result.numUpdatedRows)).toBe(4)
+      expect(await countPosts(2, 'archived')).toBe(0)
+    })
+
+    it('should apply filter policies to DELETE', async () => {
+      const executor = await createExecutor(db, [rlsPlugin({ schema: dalSchema })])
+
+      await rlsContext.runAsync(author, () => executor.deleteFrom('posts').execute())
+
+      const remaining = await db.selectFrom('posts').select('tenant_id').execute()
+      expect(remaining).toEqual([{ tenant_id: 2 }])
+    })
+
+    it('should check create policies against INSERT values', async () => {
+      const violations: RLSPolicyViolation[] = []
+      const executor = await createExecutor(db, [
+        rlsPlugin({ schema: dalSchema, onViolation: v => violations.push(v) })
+      ])
+      const drafts = await countPosts(1, 'draft')
+
+      await rlsContext.runAsync(author, () =>
+        executor.insertInto('posts').values(newPost(1)).execute()
+      )
+      expect(await countPosts(1, 'draft')).toBe(drafts + 1)
+
+      await expect(
+        rlsContext.runAsync(author, () =>
+          executor.insertInto('posts').values([newPost(1), newPost(2)]).execute()
+        )
+      ).rejects.toThrow(RLSPolicyViolation)
+      expect(violations).toHaveLength(1)
+
+      const reader: RLSContext = { auth: { ...author.auth, roles: ['user'] } }
+      await expect(
+        rlsContext.runAsync(reader, () =>
+          executor.insertInto('posts').values(newPost(1)).returningAll().executeTakeFirst()
+        )
+      ).rejects.toThrow('No allow policies matched')
+
+      // Nothing written by the rejected inserts
+      expect(await countPosts(1, 'draft')).toBe(drafts + 1)
+      expect(await countPosts(2, 'draft')).toBe(0)
+    })
+
+    it('should reject inserts whose rows cannot be checked', async () => {
+      const executor = await createExecutor(db, [rlsPlugin({ schema: dalSchema })])
+
+      await expect(
+        rlsContext.runAsync(author, () =>
+          executor
+            .insertInto('posts')
+            .columns(['user_id', 'tenant_id', 'title', 'status'])
+            .expression(eb => eb.selectFrom('posts').select(['user_id', 'tenant_id', 'title', 'status']))
+            .execute()
+        )
+      ).rejects.toThrow('Cannot check create policies for INSERT ... SELECT')
+    })
+
+    it('should reject REPLACE and upserts on protected tables', async () => {
+      const violations: RLSPolicyViolation[] = []
+      const executor = await createExecutor(db, [
+        rlsPlugin({ schema: dalSchema, onViolation: v => violations.push(v) })
+      ])
+      const target = await db
+        .selectFrom('posts')
+        .select('id')
+        .where('tenant_id', '=', 2)
+        .executeTakeFirstOrThrow()
+
+      await expect(
+        rlsContext.runAsync(author, () =>
+          executor.replaceInto('posts').values({ ...newPost(1), id: target.id }).execute()
+        )
+      ).rejects.toThrow('Cannot check update policies for REPLACE')
+      await expect(
+        rlsContext.runAsync(author, () =>
+          executor
+            .insertInto('posts')
+            .values({ ...newPost(1), id: target.id })
+            .onConflict(oc => oc.column('id').doUpdateSet({ tenant_id: 1 }))
+            .execute()
+        )
+      ).rejects.toThrow('Cannot check update policies for ON CONFLICT DO UPDATE')
+      await expect(
+        rlsContext.runAsync(author, () =>
+          executor
+            .insertInto('posts')
+            .values(newPost(1))
+            .onDuplicateKeyUpdate({ tenant_id: 1 })
+            .execute()
+        )
+      ).rejects.toThrow('Cannot check update policies for ON DUPLICATE KEY UPDATE')
+      expect(violations).toHaveLength(3)
+
+      // Upserts that never touch existing rows are still allowed
+      await rlsContext.runAsync(author, () =>
+        executor
+          .insertInto('posts')
+          .values({ ...newPost(1), id: target.id })
+          .onConflict(oc => oc.column('id').doNothing())
+          .execute()
+      )
+      const stored = await db
+        .selectFrom('posts')
+        .select('tenant_id')
+        .where('id', '=', target.id)
+        .executeTakeFirstOrThrow()
+      expect(stored.tenant_id).toBe(2)
+    })
+
+    it('should reject MERGE on protected tables', async () => {
+      const executor = await createExecutor(db, [rlsPlugin({ schema: dalSchema })])
+
+      await expect(
+        rlsContext.runAsync(author, async () => executor.mergeInto('posts'))
+      ).rejects.toThrow('Cannot check policies for MERGE statements')
+    })
+
+    it('should apply filter policies to aliased tables', async () => {
+      const executor = await createExecutor(db, [rlsPlugin({ schema: dalSchema })])
+
+      const visible = await rlsContext.runAsync(author, () =>
+        executor.selectFrom('posts as p').select('p.tenant_id').execute()
+      )
+      expect(visible).toHaveLength(4)
+      expect(visible.every(post => post.tenant_id === 1)).toBe(true)
+
+      const result = await rlsContext.runAsync(author, () =>
+        executor.updateTable('posts as p').set({ status: 'archived' }).executeTakeFirst()
+      )
+      expect(Number(result.numUpdatedRows)).toBe(4)
+      expect(await countPosts(2, 'archived')).toBe(0)
+
+      await rlsContext.runAsync(author, () => executor.deleteFrom('posts as p').execute())
+      const remaining = await db.selectFrom('posts').select('tenant_id').execute()
+      expect(remaining).toEqual([{ tenant_id: 2 }])
+    })
+
+    it('should deny writes without context', async () => {
+      const executor = await createExecutor(db, [
+        rlsPlugin({ schema: dalSchema, requireContext: false })
+      ])
+
+      expect(() => executor.insertInto('posts')).toThrow('Writes are denied without context')
+      expect(() => executor.replaceInto('posts')).toThrow('Writes are denied without context')
+
+      const result = await executor.updateTable('posts').set({ status: 'archived' }).executeTakeFirst()
+      expect(Number(result.numUpdatedRows)).toBe(0)
+    })
+
+    it('should let system users mutate without checks', async () => {
+      const executor = await createExecutor(db, [rlsPlugin({ schema: dalSchema })])
+
+      await rlsContext.runAsync(author, () =>
+        rlsContext.asSystemAsync(async () => {
+          await executor.insertInto('posts').values(newPost(2)).execute()
+          await executor.updateTable('posts').set({ status: 'archived' }).execute()
+        })
+      )
+
+      expect(await countPosts(2, 'archived')).toBe(2)
+    })
+  })
+
+  describe('Field Access', () => {
+    const usersSchema = defineRLSSchema<RLSTestDatabase>({
+      users: {
+        policies: [filter('read', ctx => ({ tenant_id: ctx.auth!.tenantId }))]
+      }
+    })
+
+    const fieldAccess = {
+      users: {
+        fields: {
+          email: maskedField(
+            () => '***',
+            ctx => String(ctx.auth.userId) === String((ctx.row as any).id)
+          ),
+          role: { ...rolesOnly(['admin']), omitWhenHidden: true },
+          tenant_id: readOnly()
+        }
+      }
+    }
+
+    let alice: { id: number; email: string }
+    let member: RLSContext
+
+    beforeEach(async () => {
+      alice = await db
+        .selectFrom('users')
+        .select(['id', 'email'])
+        .where('email', '=', 'alice@acme.com')
+        .executeTakeFirstOrThrow()
+      member = { auth: { userId: alice.id, roles: ['user'], isSystem: false, tenantId: 1 } }
+    })
+
+    const createFieldAccessExecutor = (onViolation?: (v: RLSPolicyViolation) => void) =>
+      createExecutor(db, [rlsPlugin({ schema: usersSchema, fieldAccess, onViolation })])
+
+    it('should not fetch hidden columns and mask restricted ones', async () => {
+      const executor = await createFieldAccessExecutor()
+
+      const { sql, rows } = await rlsContext.runAsync(member, async () => {
+        const query = executor.selectFrom('users').select(['id', 'email', 'role']).orderBy('id')
+        return { sql: query.compile().sql, rows: await query.execute() }
+      })
+
+      expect(sql).not.toContain('"role"')
+      expect(rows.length).toBeGreaterThan(1)
+      expect(rows[0]).toEqual({ id: alice.id, email: alice.email })
+      expect(rows.slice(1).every(row => row.email === '***' && !('role' in row))).toBe(true)
+    })
+
+    it('should mask selectAll results and leave privileged users alone', async () => {
+      const executor = await createFieldAccessExecutor()
+
+      const own = await rlsContext.runAsync(member, () =>
+        executor
+          .selectFrom('users')
+          .selectAll()
+          .where('id', '=', alice.id)
+          .executeTakeFirstOrThrow()
+      )
+      expect(own.email).toBe(alice.email)
+      expect(own).not.toHaveProperty('role')
+
+      const admin: RLSContext = { auth: { ...member.auth, userId: 0, roles: ['admin'] } }
+      const rows = await rlsContext.runAsync(admin, () =>
+        executor.selectFrom('users').select(['email', 'role']).execute()
+      )
+      expect(rows.every(row => row.email === '***' && typeof row.role === 'string')).toBe(true)
+    })
+
+    it('should expand selectAll to the visible columns', async () => {
+      const executor = await createFieldAccessExecutor()
+
+      const sql = await rlsContext.runAsync(member, async () => {
+        const query = executor.selectFrom('users').selectAll().where('id', '=', alice.id)
+        await query.execute()
+        return query.compile().sql
+      })
+
+      expect(sql).toContain('"users"."email"')
+      expect(sql).not.toContain('"role"')
+      expect(sql).not.toContain('*')
+    })
+
+    it('should mask and hide aliased columns', async () => {
+      const executor = await createFieldAccessExecutor()
+
+      const { sql, rows } = await rlsContext.runAsync(member, async () => {
+        const query = executor
+          .selectFrom('users')
+          .select(['id', 'email as contact', 'role as level'])
+          .orderBy('id')
+        return { sql: query.compile().sql, rows: await query.execute() }
+      })
+
+      expect(sql).not.toContain('"role"')
+      expect(rows[0]).toEqual({ id: alice.id, contact: alice.email })
+      expect(rows.slice(1).every(row => row.contact === '***' && !('level' in row))).toBe(true)
+    })
+
+    it('should pass expressions through unless they read a protected column', async () => {
+      const executor = await createExecutor(db, [
+        rlsPlugin({
+          schema: usersSchema,
+          fieldAccess: {
+            users: {
+              default: 'deny' as const,
+              fields: { id: {}, email: fieldAccess.users.fields.email }
+            }
+          }
+        })
+      ])
+
+      const { counted, emails } = await rlsContext.runAsync(member, async () => ({
+        counted: await executor
+          .selectFrom('users')
+          .select(eb => eb.fn.countAll().as('n'))
+          .executeTakeFirstOrThrow(),
+        emails: await executor
+          .selectFrom('users')
+          .select(eb => [
+            'id',
+            eb.fn('lower', ['email']).as('lowered'),
+            eb.fn.max('name').as('top')
+          ])
+          .groupBy('id')
+          .orderBy('id')
+          .execute()
+      }))
+
+      expect(Number(counted.n)).toBeGreaterThan(1)
+      expect(emails[0]).toEqual({ id: alice.id, lowered: alice.email })
+      expect(emails.slice(1).every(row => row.lowered === '***')).toBe(true)
+      // name is unconfigured on a default-deny table
+      expect(emails.some(row => 'top' in row)).toBe(false)
+    })
+
+    it('should reject queries selecting only hidden columns', async () => {
+      const violations: RLSPolicyViolation[] = []
+      const executor = await createFieldAccessExecutor(v => violations.push(v))
+
+      await expect(
+        rlsContext.runAsync(member, () => executor.selectFrom('users').select('role').execute())
+      ).rejects.toThrow('All selected columns are hidden')
+      expect(violations).toHaveLength(1)
+    })
+
+    it('should apply the field access of joined tables', async () => {
+      const executor = await createFieldAccessExecutor()
+
+      const { sql, rows } = await rlsContext.runAsync(member, async () => {
+        const query = executor
+          .selectFrom('posts as p')
+          .innerJoin('users as u', 'u.id', 'p.user_id')
+          .select(['p.title', 'u.id as author_id', 'u.email', 'u.role'])
+          .where('p.tenant_id', '=', 1)
+        return { sql: query.compile().sql, rows: await query.execute() }
+      })
+
+      expect(sql).not.toContain('"role"')
+      expect(rows.some(row => row.author_id === alice.id)).toBe(true)
+      expect(rows.some(row => row.author_id !== alice.id)).toBe(true)
+      for (const row of rows) {
+        expect(row).not.toHaveProperty('role')
+        expect(row.email).toBe(row.author_id === alice.id ? alice.email : '***')
+      }
+    })
+
+    it('should reject writes to write-restricted columns', async () => {
+      const violations: RLSPolicyViolation[] = []
+      const executor = await createFieldAccessExecutor(v => violations.push(v))
+
+      await expect(
+        rlsContext.runAsync(member, () =>
+          executor.updateTable('users').set({ tenant_id: 2 }).where('id', '=', alice.id).execute()
+        )
+      ).rejects.toThrow('Cannot write to protected fields: tenant_id')
+
+      // email is writable on the user's own row only
+      await rlsContext.runAsync(member, () =>
+        executor
+          .updateTable('users')
+          .set({ email: 'alice@new.com' })
+          .where('id', '=', alice.id)
+          .execute()
+      )
+      await expect(
+        rlsContext.runAsync(member, () =>
+          executor
+            .updateTable('users')
+            .set({ email: 'taken@acme.com' })
+            .where('id', '!=', alice.id)
+            .execute()
+        )
+      ).rejects.toThrow(RLSPolicyViolation)
+
+      await expect(
+        rlsContext.runAsync(member, () =>
+          executor
+            .insertInto('users')
+            .values({
+              email: 'new@acme.com',
+              name: null,
+              tenant_id: 1,
+              role: 'admin',
+              is_active: 1 as unknown as boolean,
+              updated_at: null,
+              deleted_at: null
+            })
+            .execute()
+        )
+      ).rejects.toThrow('Cannot write to protected fields: email, tenant_id, role')
+
+      // Aliased update tables are checked with their alias
+      await expect(
+        rlsContext.runAsync(member, () =>
+          executor
+            .updateTable('users as u')
+            .set({ email: 'taken@acme.com' })
+            .where('u.id', '!=', alice.id)
+            .execute()
+        )
+      ).rejects.toThrow(RLSPolicyViolation)
+
+      expect(violations).toHaveLength(4)
+      const emails = await db
+        .selectFrom('users')
+        .select('email')
+        .where('tenant_id', '=', 1)
+        .execute()
+      expect(emails.map(row => row.email)).toContain('alice@new.com')
+      expect(emails.map(row => row.email)).not.toContain('taken@acme.com')
+      expect(emails.map(row => row.email)).not.toContain('new@acme.com')
+    })
+
+    it('should mask repository results', async () => {
+      const orm = await createORM(db, [rlsPlugin({ schema: usersSchema, fieldAccess })])
+      const userRepo = orm.createRepository(executor =>
+        createRepositoryFactory(executor).create<'users', Record<string, unknown>>({
+          tableName: 'users',
+          mapRow: row => row
+        })
+      )
+
+      const users = await rlsContext.runAsync(member, () => userRepo.findAll())
+
+      expect(users.find(user => user['id'] === alice.id)?.['email']).toBe(alice.email)
+      expect(users.filter(user => user['email'] === '***')).toHaveLength(users.length - 1)
+      expect(users.some(user => 'role' in user)).toBe(false)
+    })
+  })
+
   describe('Context Management', () => {
     it('should properly isolate nested contexts', async () => {
       const outerCtx: RLSContext = {
@@ -587,6 +1061,60 @@ describe('SQLite Integration Tests', () => {
     })
   })
 
+  describe('Request Loaders', () => {
+    const tenantSchema = defineRLSSchema<RLSTestDatabase>({
+      users: {
+        policies: [filter('read', ctx => ({ tenant_id: ctx.auth!.tenantId }))]
+      }
+    })
+
+    it('should batch and cache lookups per RLS context', async () => {
+      const queries: string[] = []
+      const logged = db.withPlugin({
+        transformQuery: args => {
+          queries.push(args.node.kind)
+          return args.node
+        },
+        transformResult: async args => args.result
+      })
+      const orm = await createORM(logged, [rlsPlugin({ schema: tenantSchema })])
+      const loader = createRequestLoader()
+      const userRepo = orm.createRepository(executor =>
+        createRepositoryFactory(executor).create<'users', Record<string, unknown>>({
+          tableName: 'users',
+          mapRow: row => row,
+          schemas: { create: nativeAdapter() },
+          loader
+        })
+      )
+
+      const ids = await db.selectFrom('users').select(['id', 'email']).execute()
+      const idOf = (email: string) => ids.find(user => user.email === email)!.id
+      const alice = idOf('alice@acme.com')
+      const diana = idOf('diana@beta.com')
+      const acme = createRLSContext({ auth: { userId: '1', roles: ['user'], tenantId: 1 } })
+      const beta = createRLSContext({ auth: { userId: '5', roles: ['user'], tenantId: 2 } })
+
+      const [acmeAlice, acmeDiana, betaAlice, betaDiana] = await Promise.all([
+        withRLSContext(acme, () => userRepo.findById(alice)),
+        withRLSContext(acme, () => userRepo.findById(diana)),
+        withRLSContext(beta, () => userRepo.findById(alice)),
+        withRLSContext(beta, () => userRepo.findById(diana))
+      ])
+
+      expect(acmeAlice?.['email']).toBe('alice@acme.com')
+      expect(acmeDiana).toBeNull()
+      expect(betaAlice).toBeNull()
+      expect(betaDiana?.['email']).toBe('diana@beta.com')
+      // One batched query per context
+      expect(queries).toEqual(['SelectQueryNode', 'SelectQueryNode'])
+
+      // Cached per context
+      expect(await withRLSContext(beta, () => userRepo.findById(diana))).toEqual(betaDiana)
+      expect(queries).toHaveLength(2)
+    })
+  })
+
   describe('Combined Filter and Allow Policies', () => {
     const combinedSchema = defineRLSSchema<RLSTestDatabase>({
       comments: {
@@ -0,0 +1,340 @@
+/**
+ * Schema Analysis Tests
+ *
+ * Tests for static analysis (linting) of RLS schemas.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { Kysely, SqliteDialect } from 'kysely'
+import Database from 'better-sqlite3'
+import {
+  analyzeRLSSchema,
+  introspectRLSColumns,
+  type RLSLintIssue
+} from '../../src/analysis/index.js'
+import { defineRLSSchema } from '../../src/policy/schema.js'
+import { allow, deny, filter, validate, whenEnvironment } from '../../src/policy/builder.js'
+import type { PolicyEvaluationContext, RLSSchema } from '../../src/policy/types.js'
+
+const row = (ctx: PolicyEvaluationContext): Record<string, any> => ctx.row as Record<string, any>
+const data = (ctx: PolicyEvaluationContext): Record<string, any> => ctx.data as Record<string, any>
+
+const rules = (issues: RLSLintIssue[]): string[] =>
+  issues.map(i => `${i.rule}:${i.table}${i.policy ? `:${i.policy}` : ''}`)
+
+describe('analyzeRLSSchema', () => {
+  describe('coverage', () => {
+    it('should report the effect of every operation', () => {
+      const schema = defineRLSSchema<any>({
+        posts: {
+          policies: [
+            filter('read', ctx => ({ tenant_id: ctx.auth.tenantId })),
+            allow('update', ctx => ctx.auth.userId === row(ctx)['author_id'], { name: 'owner' }),
+            deny('delete', ctx => row(ctx)['locked'], { name: 'locked' })
+          ]
+        }
+      })
+
+      const [posts] = analyzeRLSSchema(schema).tables
+
+      expect(posts).toMatchObject({ table: 'posts', defaultDeny: true, skipFor: [] })
+      expect(posts?.operations.read).toEqual({
+        effect: 'filtered',
+        allows: [],
+        denies: [],
+        filters: ['posts_policy_0'],
+        validates: []
+      })
+      expect(posts?.operations.create.effect).toBe('denied')
+      expect(posts?.operations.update).toMatchObject({ effect: 'guarded', allows: ['owner'] })
+      expect(posts?.operations.delete).toMatchObject({ effect: 'denied', denies: ['locked'] })
+    })
+
+    it('should report unfiltered reads and denied mutations', () => {
+      const schema = defineRLSSchema<any>({
+        posts: {
+          policies: [
+            allow(['create', 'update', 'delete'], ctx => ctx.auth.roles.includes('editor'))
+          ]
+        },
+        tags: { policies: [] }
+      })
+
+      const { issues } = analyzeRLSSchema(schema)
+
+      expect(issues.filter(i => i.rule === 'missing-policy')).toEqual([
+        expect.objectContaining({ table: 'posts', operation: 'read', severity: 'warning' }),
+        expect.objectContaining({ table: 'tags', operation: 'read', severity: 'warning' }),
+        expect.objectContaining({ table: 'tags', operation: 'create', severity: 'info' }),
+        expect.objectContaining({ table: 'tags', operation: 'update', severity: 'info' }),
+        expect.objectContaining({ table: 'tags', operation: 'delete', severity: 'info' })
+      ])
+    })
+
+    it('should warn about tables without defaultDeny', () => {
+      const schema = defineRLSSchema<any>({
+        posts: {
+          policies: [
+            filter('read', () => ({ published: true })),
+            deny('delete', ctx => row(ctx)['locked'])
+          ],
+          defaultDeny: false
+        }
+      })
+
+      const report = analyzeRLSSchema(schema)
+
+      expect(report.tables[0]?.operations.delete.effect).toBe('guarded')
+      expect(rules(report.issues)).toEqual([
+        'no-default-deny:posts',
+        'missing-policy:posts',
+        'missing-policy:posts'
+      ])
+      expect(report.issues.slice(1).map(i => i.operation)).toEqual(['create', 'update'])
+      expect(report.summary).toEqual({ tables: 1, errors: 0, warnings: 3, infos: 0 })
+    })
+  })
+
+  describe('unreachable denies', () => {
+    it('should report denies that never match or are shadowed', () => {
+      const schema = defineRLSSchema<any>({
+        posts: {
+          policies: [
+            filter('read', () => ({ published: true })),
+            allow('all', () => true),
+            deny('delete', () => true, { name: 'no-deletes', priority: 200 }),
+            deny('delete', ctx => row(ctx)['locked'], { name: 'locked' }),
+            deny(['update', 'delete'], ctx => row(ctx)['archived'], { name: 'archived' }),
+            deny('update', () => false, { name: 'disabled' }),
+            deny('delete', () => true, { name: 'staging-only' })
+          ]
+        }
+      })
+
+      const report = analyzeRLSSchema(schema)
+
+      expect(report.issues.filter(i => i.rule === 'unreachable-deny')).toEqual([
+        expect.objectContaining({
+          policy: 'locked',
+          message: 'Deny policy "locked" is unreachable: "no-deletes" always denies first'
+        }),
+        expect.objectContaining({
+          policy: 'disabled',
+          message: 'Deny policy "disabled" never matches: its condition is always false'
+        }),
+        expect.objectContaining({ policy: 'staging-only' })
+      ])
+      expect(report.tables[0]?.operations.delete.effect).toBe('denied')
+      expect(report.tables[0]?.operations.update.effect).toBe('guarded')
+    })
+
+    it('should not treat conditionally activated denies as always matching', () => {
+      const schema = defineRLSSchema<any>({
+        posts: {
+          policies: [
+            whenEnvironment(['production'], () => deny('delete', () => true, { name: 'freeze' })),
+            deny('delete', ctx => row(ctx)['locked'], { name: 'locked' })
+          ]
+        }
+      })
+
+      const { issues } = analyzeRLSSchema(schema)
+
+      expect(issues.filter(i => i.rule === 'unreachable-deny')).toEqual([])
+    })
+  })
+
+  describe('priorities', () => {
+    it('should warn about allows that look like they override denies', () => {
+      const schema = defineRLSSchema<any>({
+        posts: {
+          policies: [
+            deny('update', ctx => row(ctx)['locked'], { name: 'locked', priority: 50 }),
+            allow(['read', 'update'], ctx => ctx.auth.roles.includes('admin'), {
+              name: 'admin',
+              priority: 50
+            }),
+            allow('update', ctx => ctx.auth.userId === row(ctx)['author_id'], { name: 'owner' })
+          ]
+        }
+      })
+
+      const issues = analyzeRLSSchema(schema).issues.filter(i => i.rule === 'overlapping-priority')
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          severity: 'warning',
+          policy: 'admin',
+          message:
+            'Allow policy "admin" (priority 50) does not override deny policy "locked" (priority 50) ' +
+            'on update: deny policies are always evaluated first'
+        })
+      ])
+    })
+
+    it('should report policies sharing an explicit priority', () => {
+      const schema = defineRLSSchema<any>({
+        posts: {
+          policies: [
+            validate('create', ctx => data(ctx)['title'] !== '', { name: 'title', priority: 5 }),
+            validate('create', ctx => data(ctx)['body'] !== '', {
+              name: 'body',
+              priority: 5
+            }),
+            allow('create', () => true, { name: 'a' }),
+            allow('create', () => true, { name: 'b' })
+          ]
+        }
+      })
+
+      const issues = analyzeRLSSchema(schema).issues.filter(i => i.rule === 'overlapping-priority')
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          severity: 'info',
+          policy: 'body',
+          message:
+            'Policies "title" and "body" share priority 5 on create: they are evaluated in definition order'
+        })
+      ])
+    })
+  })
+
+  describe('columns', () => {
+    const schema = defineRLSSchema<any>({
+      posts: {
+        policies: [
+          filter('read', ctx => ({
+            'posts.tenant_id': ctx.auth.tenantId,
+            orgId: ctx.auth.organizationIds
+          })),
+          allow('update', ctx => ctx.auth.userId === row(ctx)['author_id'], { name: 'owner' }),
+          validate(
+            'create',
+            ctx => data(ctx)['status'] === 'draft' || data(ctx)['state'] === 'new',
+            {
+              name: 'status'
+            }
+          )
+        ]
+      },
+      comments: { policies: [filter('read', () => ({ post_id: 1 }))] }
+    })
+
+    it('should report unknown columns, tables and uncovered tables', () => {
+      const report = analyzeRLSSchema(schema, {
+        columns: {
+          posts: ['id', 'tenant_id', 'author_id', 'status', 'deleted'],
+          users: ['id'],
+          kysely_migration: ['name']
+        },
+        excludeTables: ['kysely_migration']
+      })
+
+      expect(report.issues.filter(i => i.severity === 'error')).toEqual([
+        expect.objectContaining({
+          rule: 'unknown-column',
+          policy: 'posts_policy_0',
+          column: 'orgId'
+        }),
+        expect.objectContaining({ rule: 'unknown-column', policy: 'status', column: 'state' }),
+        expect.objectContaining({
+          rule: 'unknown-table',
+          table: 'comments',
+          message: 'Table "comments" has RLS policies but does not exist in the database'
+        })
+      ])
+      expect(rules(report.issues.filter(i => i.rule === 'uncovered-table'))).toEqual([
+        'uncovered-table:users'
+      ])
+    })
+
+    it('should skip column checks without introspected columns', () => {
+      const { issues } = analyzeRLSSchema(schema)
+
+      expect(issues.filter(i => i.severity === 'error')).toEqual([])
+    })
+
+    it('should evaluate filters with the given auth context', () => {
+      const tenantOnly = defineRLSSchema<any>({
+        posts: {
+          policies: [
+            filter('read', ctx => {
+              if (!ctx.auth.roles.includes('member')) throw new Error('members only')
+              return { tenant_id: ctx.auth.tenantId }
+            })
+          ]
+        }
+      })
+
+      expect(rules(analyzeRLSSchema(tenantOnly).issues)).toContain(
+        'unanalyzable-policy:posts:posts_policy_0'
+      )
+
+      const report = analyzeRLSSchema(tenantOnly, {
+        auth: { roles: ['member'] },
+        columns: { posts: ['id'] }
+      })
+      expect(report.issues.find(i => i.rule === 'unknown-column')?.column).toBe('tenant_id')
+    })
+
+    it('should not wait for async conditions', () => {
+      const asyncSchema: RLSSchema<any> = {
+        posts: {
+          policies: [
+            allow(
+              'update',
+              async ctx => row(ctx)['author_id'] === (await Promise.reject(new Error('db')))
+            ),
+            filter('read', (async () => ({ id: 1 })) as any)
+          ]
+        }
+      }
+
+      const { issues } = analyzeRLSSchema(asyncSchema, { columns: { posts: ['id'] } })
+
+      expect(issues.filter(i => i.rule === 'unknown-column').map(i => i.column)).toEqual([
+        'author_id'
+      ])
+      expect(issues.find(i => i.rule === 'unanalyzable-policy')?.message).toBe(
+        'Policy "posts_policy_1" could not be analyzed: condition is async'
+      )
+    })
+  })
+
+  describe('options', () => {
+    it('should apply rule overrides', () => {
+      const schema = defineRLSSchema<any>({
+        posts: { policies: [], defaultDeny: false }
+      })
+
+      const report = analyzeRLSSchema(schema, {
+        rules: { 'missing-policy': 'off', 'no-default-deny': 'error' }
+      })
+
+      expect(report.issues).toEqual([
+        expect.objectContaining({ rule: 'no-default-deny', severity: 'error' })
+      ])
+      expect(report.summary.errors).toBe(1)
+    })
+  })
+})
+
+describe('introspectRLSColumns', () => {
+  it('should read the columns of all tables', async () => {
+    const db = new Kysely<any>({
+      dialect: new SqliteDialect({ database: new Database(':memory:') })
+    })
+    try {
+      await db.schema
+        .createTable('posts')
+        .addColumn('id', 'integer', col => col.primaryKey())
+        .addColumn('tenant_id', 'text')
+        .execute()
+
+      expect(await introspectRLSColumns(db)).toEqual({ posts: ['id', 'tenant_id'] })
+    } finally {
+      await db.destroy()
+    }
+  })
+})
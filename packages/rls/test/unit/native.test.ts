@@ -1,9 +1,26 @@
 import { describe, it, expect, vi } from 'vitest'
 import { PostgresRLSGenerator, syncContextToPostgres } from '../../src/native/postgres.js'
 import { RLSMigrationGenerator } from '../../src/native/migration.js'
-import { defineRLSSchema } from '../../src/policy/index.js'
+import { NativePolicyCompiler, type UntranslatablePolicy } from '../../src/native/compiler.js'
+import { defineRLSSchema, filter } from '../../src/policy/index.js'
+import { allowRelation, denyRelation } from '../../src/rebac/transformer.js'
+import { orgMembershipPath, type ReBAcSchema } from '../../src/rebac/types.js'
+import { RLSSchemaError } from '../../src/errors.js'
 import type { RLSSchema } from '../../src/policy/types.js'
-import { sql as _sql } from 'kysely'
+import { createRLSContextDialect } from '../../src/native/session.js'
+import { rlsContext } from '../../src/context/manager.js'
+import {
+  sql,
+  CompiledQuery,
+  Kysely,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  type DatabaseConnection,
+  type QueryResult,
+  type Dialect,
+  type Driver
+} from 'kysely'
 
 // Test database schema
 interface TestDB {
@@ -442,6 +459,74 @@ describe('PostgresRLSGenerator', () => {
       expect(policyStatements[0]).toContain('tenant_read')
       expect(policyStatements[1]).toContain('self_update')
     })
+    it('should append compiled policies with compilePolicies', () => {
+      const schema = defineRLSSchema<TestDB>({
+        posts: {
+          policies: [filter('read', ctx => ({ tenant_id: ctx.auth.tenantId }))]
+        }
+      })
+
+      const generator = new PostgresRLSGenerator()
+      expect(generator.generateStatements(schema).join('\n')).not.toContain('CREATE POLICY')
+
+      const statements = generator.generateStatements(schema, {
+        compilePolicies: true,
+        rebac: {
+          resources: {
+            relationships: [orgMembershipPath('resources', 'tenant_id')],
+            policies: [
+              allowRelation('read', 'resources_org_membership', ctx => ({
+                user_id: ctx.auth.userId
+              }))
+            ]
+          }
+        },
+        contextTypes: { tenantId: 'uuid' }
+      })
+      const sql = statements.join('\n')
+
+      expect(sql).toContain('ALTER TABLE "public"."resources" ENABLE ROW LEVEL SECURITY;')
+      expect(sql).toContain(
+        'CREATE POLICY "rls_posts_base"\n  ON "public"."posts"\n  AS PERMISSIVE'
+      )
+      expect(sql).toContain(
+        `CREATE POLICY "rls_posts_filter_read"\n  ON "public"."posts"\n  AS RESTRICTIVE\n  TO "public"\n  FOR SELECT`
+      )
+      expect(sql).toContain(
+        `"tenant_id" = NULLIF(current_setting('app.tenant_id', true), '')::uuid`
+      )
+      expect(sql).toContain('CREATE POLICY "rls_resources_rebac_read"')
+      expect(sql).toContain('FOR SELECT')
+    })
+
+    it('should fail on untranslatable policies unless onUntranslatable is set', () => {
+      const schema = defineRLSSchema<TestDB>({
+        posts: {
+          policies: [filter('read', ctx => ({ status: ctx.meta }))]
+        }
+      })
+
+      const generator = new PostgresRLSGenerator()
+      expect(() => generator.generateStatements(schema, { compilePolicies: true })).toThrow(
+        /posts\.posts_policy_0 \(ctx\.meta is only available at runtime\)/
+      )
+
+      const reported: UntranslatablePolicy[] = []
+      const statements = generator.generateStatements(schema, {
+        compilePolicies: true,
+        onUntranslatable: policy => reported.push(policy)
+      })
+
+      expect(reported).toEqual([
+        {
+          table: 'posts',
+          policy: 'posts_policy_0',
+          kind: 'filter',
+          reason: 'ctx.meta is only available at runtime'
+        }
+      ])
+      expect(statements.join('\n')).not.toContain('CREATE POLICY')
+    })
   })
 
   describe('generateContextFunctions()', () => {
@@ -820,6 +905,21 @@ describe('RLSMigrationGenerator', () => {
       expect(migration).toContain('"app_schema"."users"')
       expect(migration).not.toContain('FORCE ROW LEVEL SECURITY')
     })
+
+    it('should include compiled policies', () => {
+      const schema = defineRLSSchema<TestDB>({
+        posts: {
+          policies: [filter('read', ctx => ({ tenant_id: ctx.auth.tenantId }))]
+        }
+      })
+
+      const generator = new RLSMigrationGenerator()
+      const migration = generator.generateMigration(schema, { compilePolicies: true })
+
+      expect(migration).toContain('CREATE POLICY "rls_posts_filter_read"')
+      expect(migration).toContain(`current_setting('app.tenant_id', true)`)
+      expect(migration).toContain("policyname LIKE 'rls_%'")
+    })
   })
 
   describe('generateFilename()', () => {
@@ -864,6 +964,199 @@ describe('RLSMigrationGenerator', () => {
   })
 })
 
+describe('NativePolicyCompiler', () => {
+  const membership = orgMembershipPath('resources', 'tenant_id')
+
+  const rebac: ReBAcSchema<TestDB> = {
+    resources: {
+      relationships: [membership],
+      policies: [
+        allowRelation('read', membership.name, ctx => ({
+          user_id: ctx.auth.userId,
+          role: ['owner', 'member']
+        })),
+        denyRelation('delete', membership.name, { status: 'suspended' })
+      ]
+    }
+  }
+
+  it('should compile filters to a restrictive policy reading current_setting()', () => {
+    const schema = defineRLSSchema<TestDB>({
+      posts: {
+        policies: [
+          filter('read', ctx => ({ tenant_id: ctx.auth.tenantId, status: 'published' })),
+          filter('read', ctx => ({ author_id: ctx.auth.userId }), { name: 'own_posts' })
+        ]
+      }
+    })
+
+    const { policies, untranslatable } = new NativePolicyCompiler({
+      contextTypes: { userId: 'integer' }
+    }).compile(schema)
+
+    expect(untranslatable).toEqual([])
+    expect(policies.map(p => p.name)).toEqual(['rls_posts_base', 'rls_posts_filter_read'])
+
+    const compiled = policies[1]!
+    expect(compiled).toMatchObject({
+      operation: 'read',
+      type: 'restrictive',
+      sources: ['posts_policy_0', 'own_posts']
+    })
+    expect(compiled.using).toContain(
+      `("tenant_id"::text = current_setting('app.tenant_id', true) AND "status" = 'published')`
+    )
+    expect(compiled.using).toContain(
+      `("author_id" = NULLIF(current_setting('app.user_id', true), '')::integer)`
+    )
+    expect(compiled.using).toMatch(/^current_setting\('app\.is_system', true\) = 'true' OR /)
+    expect(compiled.withCheck).toBeUndefined()
+  })
+
+  it('should compile filters to one policy per operation', () => {
+    const schema = defineRLSSchema<TestDB>({
+      posts: {
+        policies: [
+          filter('read', () => ({ status: 'published' }), { name: 'published' }),
+          {
+            ...filter('read', () => ({ locked: false }), { name: 'unlocked' }),
+            operation: 'update'
+          },
+          {
+            ...filter('read', () => ({ status: 'draft' }), { name: 'drafts' }),
+            operation: 'create'
+          },
+          { ...filter('read', () => ({ deleted: false }), { name: 'live' }), operation: 'all' }
+        ]
+      }
+    })
+
+    const { policies } = new NativePolicyCompiler().compile(schema)
+
+    expect(policies.map(p => [p.name, p.operation, p.sources])).toEqual([
+      ['rls_posts_base', 'all', []],
+      ['rls_posts_filter_read', 'read', ['published', 'live']],
+      ['rls_posts_filter_create', 'create', ['drafts']],
+      ['rls_posts_filter_update', 'update', ['unlocked', 'live']],
+      ['rls_posts_filter_delete', 'delete', ['live']]
+    ])
+    const create = policies[2]!
+    expect(create.using).toBeUndefined()
+    expect(create.withCheck).toContain(`("status" = 'draft')`)
+    expect(policies[3]!.using).toContain(`("locked" = false) AND ("deleted" = false)`)
+  })
+
+  it('should compile roles, nulls, lists and escaped literals', () => {
+    const schema = defineRLSSchema<TestDB>({
+      users: {
+        policies: [
+          filter('read', ctx => ({
+            role: ctx.auth.roles,
+            tenant_id: null,
+            name: ["o'brien", 'smith'],
+            id: undefined
+          }))
+        ]
+      }
+    })
+
+    const [, compiled] = new NativePolicyCompiler().compile(schema).policies
+
+    expect(compiled!.using).toContain(
+      `"role"::text = ANY(string_to_array(current_setting('app.roles', true), ',')) AND "tenant_id" IS NULL AND "name" IN ('o''brien', 'smith')`
+    )
+  })
+
+  it('should let system context and skipFor roles bypass compiled policies', () => {
+    const schema = defineRLSSchema<TestDB>({
+      posts: {
+        policies: [filter('read', () => ({ status: 'published' }))],
+        skipFor: ['admin', 'auditor']
+      }
+    })
+
+    const [, compiled] = new NativePolicyCompiler().compile(schema).policies
+
+    expect(compiled!.using).toBe(
+      `current_setting('app.is_system', true) = 'true' OR string_to_array(current_setting('app.roles', true), ',') && ARRAY['admin', 'auditor']::text[] OR (("status" = 'published'))`
+    )
+  })
+
+  it('should not add a base policy next to hand-written permissive policies', () => {
+    const schema = defineRLSSchema<TestDB>({
+      posts: {
+        policies: [
+          { type: 'allow', operation: 'all', condition: '', using: 'true' },
+          filter('read', () => ({ status: 'published' }))
+        ]
+      }
+    })
+
+    const { policies } = new NativePolicyCompiler().compile(schema)
+
+    expect(policies.map(p => p.name)).toEqual(['rls_posts_filter_read'])
+  })
+
+  it('should report policies that cannot be translated', () => {
+    const schema = defineRLSSchema<TestDB>({
+      posts: {
+        policies: [
+          filter('read', ctx => ({ author_id: Number(ctx.auth.userId) })),
+          filter('read', ctx => ({ tenant_id: ctx.auth.organizationIds })),
+          filter('read', ctx => ({ status: (ctx.meta as { status: string }).status })),
+          filter('read', ctx => (ctx.auth.roles.includes('editor') ? {} : { status: 'published' })),
+          filter('read', async () => ({ status: 'published' })),
+          filter('read', ctx => (ctx.auth.isSystem ? {} : { author_id: ctx.auth.userId })),
+          filter('read', ctx =>
+            ctx.auth.tenantId ? { tenant_id: ctx.auth.tenantId } : { public: true }
+          ),
+          filter('read', ctx => ({ author_id: ctx.auth.userId || 0 })),
+          filter('read', () => ({ status: 'published' }), { name: 'published' })
+        ]
+      }
+    })
+
+    const { policies, untranslatable } = new NativePolicyCompiler().compile(schema)
+
+    expect(untranslatable.map(p => [p.policy, p.reason])).toEqual([
+      ['posts_policy_0', 'ctx.auth.userId is transformed or compared at runtime'],
+      ['posts_policy_1', 'ctx.auth.organizationIds is not synced to PostgreSQL'],
+      ['posts_policy_2', 'ctx.meta is only available at runtime'],
+      ['posts_policy_3', 'ctx.auth.roles is inspected at runtime'],
+      ['posts_policy_4', 'async conditions are not supported'],
+      ['posts_policy_5', 'condition branches on ctx.auth.isSystem'],
+      ['posts_policy_6', 'condition branches on ctx.auth.tenantId'],
+      ['posts_policy_7', 'condition branches on ctx.auth.userId']
+    ])
+    expect(policies[1]!.sources).toEqual(['published'])
+  })
+
+  it('should compile ReBAC policies to EXISTS policies per operation', () => {
+    const { policies, untranslatable } = new NativePolicyCompiler().compile(
+      defineRLSSchema<TestDB>({}),
+      rebac
+    )
+
+    expect(untranslatable).toEqual([])
+    expect(policies.map(p => [p.name, p.operation])).toEqual([
+      ['rls_resources_base', 'all'],
+      ['rls_resources_rebac_read', 'read'],
+      ['rls_resources_rebac_delete', 'delete']
+    ])
+    expect(policies[1]!.using).toContain(
+      `EXISTS (SELECT 1 FROM "organizations" JOIN "employees" ON "organizations"."id" = "employees"."organization_id" WHERE "organizations"."id" = "resources"."tenant_id" AND "employees"."user_id"::text = current_setting('app.user_id', true) AND "employees"."role" IN ('owner', 'member'))`
+    )
+    expect(policies[2]!.using).toContain(`(NOT EXISTS (SELECT 1 FROM "organizations"`)
+    expect(policies[2]!.using).toContain(`"employees"."status" = 'suspended'`)
+  })
+
+  it('should reject unsafe context types', () => {
+    expect(
+      () => new NativePolicyCompiler({ contextTypes: { tenantId: 'uuid; DROP TABLE users' } })
+    ).toThrow(RLSSchemaError)
+  })
+})
+
 describe('syncContextToPostgres', () => {
   /**
    * Create a mock Kysely db that supports sql template tag execution
@@ -1066,3 +1359,190 @@ describe('syncContextToPostgres', () => {
     ).resolves.not.toThrow()
   })
 })
+
+describe('createRLSContextDialect', () => {
+  /**
+   * PostgreSQL dialect whose driver records the executed statements
+   */
+  function createRecordingDialect(log: string[]): Dialect {
+    const connection: DatabaseConnection = {
+      async executeQuery(query) {
+        log.push(
+          query.parameters.length > 0 ? `${query.sql} [${query.parameters.join('|')}]` : query.sql
+        )
+        if (query.sql.includes('fail')) throw new Error('query failed')
+        return { rows: [] }
+      },
+      async *streamQuery<R>(query: CompiledQuery): AsyncIterableIterator<QueryResult<R>> {
+        log.push(query.sql)
+        yield { rows: [{ id: 1 }] as R[] }
+        yield { rows: [{ id: 2 }] as R[] }
+      }
+    }
+
+    const driver: Driver = {
+      init: async () => {},
+      acquireConnection: async () => connection,
+      beginTransaction: async conn => {
+        await conn.executeQuery(CompiledQuery.raw('begin'))
+      },
+      commitTransaction: async conn => {
+        await conn.executeQuery(CompiledQuery.raw('commit'))
+      },
+      rollbackTransaction: async conn => {
+        await conn.executeQuery(CompiledQuery.raw('rollback'))
+      },
+      releaseConnection: async () => {},
+      destroy: async () => {}
+    }
+
+    return {
+      createDriver: () => driver,
+      createAdapter: () => new PostgresAdapter(),
+      createQueryCompiler: () => new PostgresQueryCompiler(),
+      createIntrospector: db => new PostgresIntrospector(db)
+    }
+  }
+
+  const context = {
+    auth: { userId: 7, tenantId: 't1', roles: ['user', 'editor'], isSystem: false }
+  }
+  const settings = (values: string): string =>
+    `select set_config('app.user_id', $1, true), set_config('app.tenant_id', $2, true), ` +
+    `set_config('app.roles', $3, true), set_config('app.permissions', $4, true), ` +
+    `set_config('app.is_system', $5, true) [${values}]`
+  const select = 'select * from "posts"'
+
+  function setup(options?: { wrapQueries?: boolean }): { db: Kysely<any>; log: string[] } {
+    const log: string[] = []
+    const db = new Kysely<any>({
+      dialect: createRLSContextDialect(createRecordingDialect(log), options)
+    })
+    return { db, log }
+  }
+
+  it('should run queries unchanged without a context', async () => {
+    const { db, log } = setup()
+
+    await db.selectFrom('posts').selectAll().execute()
+
+    expect(log).toEqual([select])
+  })
+
+  it('should wrap queries outside a transaction in one', async () => {
+    const { db, log } = setup()
+
+    await rlsContext.runAsync(context, async () => {
+      await db.selectFrom('posts').selectAll().execute()
+    })
+
+    expect(log).toEqual(['begin', settings('7|t1|user,editor||false'), select, 'commit'])
+  })
+
+  it('should roll back wrapped queries that fail', async () => {
+    const { db, log } = setup()
+
+    await expect(
+      rlsContext.runAsync(context, async () => {
+        await sql`select fail`.execute(db)
+      })
+    ).rejects.toThrow('query failed')
+
+    expect(log).toEqual(['begin', settings('7|t1|user,editor||false'), 'select fail', 'rollback'])
+  })
+
+  it('should not wrap queries when disabled', async () => {
+    const { db, log } = setup({ wrapQueries: false })
+
+    await rlsContext.runAsync(context, async () => {
+      await db.selectFrom('posts').selectAll().execute()
+    })
+
+    expect(log).toEqual([select])
+  })
+
+  it('should sync the context at the start of every transaction', async () => {
+    const { db, log } = setup()
+
+    await rlsContext.runAsync(context, async () => {
+      await db.transaction().execute(async trx => {
+        await trx.selectFrom('posts').selectAll().execute()
+        await trx.selectFrom('posts').selectAll().execute()
+      })
+    })
+    await db.transaction().execute(async trx => {
+      await trx.selectFrom('posts').selectAll().execute()
+    })
+
+    expect(log).toEqual([
+      'begin',
+      settings('7|t1|user,editor||false'),
+      select,
+      select,
+      'commit',
+      // No context: the transaction-local settings stay empty
+      'begin',
+      select,
+      'commit'
+    ])
+  })
+
+  it('should sync again when the context changes within a transaction', async () => {
+    const { db, log } = setup()
+
+    await rlsContext.runAsync(context, async () => {
+      await db.transaction().execute(async trx => {
+        await rlsContext.asSystemAsync(async () => {
+          await trx.selectFrom('posts').selectAll().execute()
+        })
+        await trx.selectFrom('posts').selectAll().execute()
+      })
+    })
+
+    expect(log).toEqual([
+      'begin',
+      settings('7|t1|user,editor||false'),
+      settings('7|t1|user,editor||true'),
+      select,
+      settings('7|t1|user,editor||false'),
+      select,
+      'commit'
+    ])
+  })
+
+  it('should sync again after rolling back to a savepoint', async () => {
+    const { db, log } = setup()
+
+    await rlsContext.runAsync(context, async () => {
+      await db.transaction().execute(async trx => {
+        await sql`rollback to savepoint sp_1`.execute(trx)
+        await trx.selectFrom('posts').selectAll().execute()
+      })
+    })
+
+    expect(log).toEqual([
+      'begin',
+      settings('7|t1|user,editor||false'),
+      'rollback to savepoint sp_1',
+      settings('7|t1|user,editor||false'),
+      select,
+      'commit'
+    ])
+  })
+
+  it('should wrap streamed queries', async () => {
+    const { db, log } = setup()
+
+    const rows = await rlsContext.runAsync(context, async () => {
+      const result: unknown[] = []
+      for await (const row of db.selectFrom('posts').selectAll().stream()) {
+        result.push(row)
+        break
+      }
+      return result
+    })
+
+    expect(rows).toEqual([{ id: 1 }])
+    expect(log).toEqual(['begin', settings('7|t1|user,editor||false'), select, 'commit'])
+  })
+})
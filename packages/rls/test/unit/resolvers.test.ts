@@ -10,9 +10,16 @@ import {
   createResolverManager,
   createResolver,
   InMemoryCacheProvider,
+  createResolvedRLSContext,
+  withResolvedRLSContextAsync,
+  getResolvedData,
   type ContextResolver,
   type ResolvedData
 } from '../../src/resolvers/index.js'
+import { rlsContext } from '../../src/context/index.js'
+import { defineRLSSchema, filter } from '../../src/policy/index.js'
+import { createPolicyTester } from '../../src/testing/index.js'
+import { RLSContextError, RLSContextValidationError } from '../../src/errors.js'
 
 // ============================================================================
 // Test Data Types
@@ -287,3 +294,162 @@ describe('createResolver', () => {
     expect(resolver.cacheKey).toBeDefined()
   })
 })
+
+// ============================================================================
+// Caching, Invalidation and Timeouts
+// ============================================================================
+
+describe('ResolverManager caching', () => {
+  const base = { auth: { userId: '123', roles: [] }, timestamp: new Date() }
+
+  const countingResolver = (): ContextResolver<OrgData> & { calls: number } => {
+    const resolver = {
+      name: 'organization',
+      calls: 0,
+      resolve: async () => {
+        resolver.calls++
+        return {
+          resolvedAt: new Date(),
+          organizationId: 'org-1',
+          organizationName: 'Test Org',
+          memberRole: 'admin'
+        }
+      },
+      cacheKey: (ctx: { auth: { userId: string | number } }) => `org:${ctx.auth.userId}`
+    }
+    return resolver
+  }
+
+  it('should serve cached data until the user is invalidated', async () => {
+    const onInvalidate = vi.fn()
+    const manager = createResolverManager({ onInvalidate })
+    const resolver = countingResolver()
+    manager.register(resolver)
+
+    await manager.resolve(base)
+    await manager.resolve(base)
+    expect(resolver.calls).toBe(1)
+
+    await manager.invalidateCache('123')
+    await manager.resolve(base)
+
+    expect(resolver.calls).toBe(2)
+    expect(onInvalidate).toHaveBeenCalledWith({ userId: '123', keys: ['org:123'] })
+  })
+
+  it('should invalidate a single resolver', async () => {
+    const onInvalidate = vi.fn()
+    const manager = createResolverManager({ onInvalidate })
+    const resolver = countingResolver()
+    manager.register(resolver)
+
+    await manager.resolve(base)
+    await manager.invalidateCache('123', 'organization')
+    await manager.resolve(base)
+
+    expect(resolver.calls).toBe(2)
+    expect(onInvalidate).toHaveBeenCalledWith({
+      userId: '123',
+      resolverName: 'organization',
+      keys: ['org:123']
+    })
+  })
+
+  it('should apply per-resolver timeouts', async () => {
+    const manager = createResolverManager({ resolverTimeout: 5000 })
+    manager.register({
+      name: 'slow',
+      timeout: 10,
+      resolve: () => new Promise<ResolvedData>(() => undefined)
+    })
+
+    await expect(manager.resolve(base)).rejects.toThrow(
+      'Required resolver "slow" failed: Resolver "slow" timed out after 10ms'
+    )
+  })
+
+  it('should skip optional resolvers that time out', async () => {
+    const manager = createResolverManager()
+    manager.register({
+      name: 'slow',
+      timeout: 10,
+      required: false,
+      resolve: () => new Promise<ResolvedData>(() => undefined)
+    })
+    manager.register(countingResolver())
+
+    const result = await manager.resolve(base)
+
+    expect(result.auth.resolved).toHaveProperty('organization')
+    expect(result.auth.resolved).not.toHaveProperty('slow')
+  })
+})
+
+// ============================================================================
+// Resolver-aware Context Creation
+// ============================================================================
+
+describe('createResolvedRLSContext', () => {
+  let manager: ResolverManager<OrgData>
+
+  beforeEach(() => {
+    manager = createResolverManager<OrgData>()
+    manager.register({
+      name: 'organization',
+      resolve: async ctx => ({
+        resolvedAt: new Date(),
+        organizationId: `org-${ctx.auth.userId}`,
+        organizationName: 'Test Org',
+        memberRole: ctx.auth.roles.includes('admin') ? 'owner' : 'member'
+      })
+    })
+  })
+
+  it('should attach resolved data to the auth context', async () => {
+    const ctx = await createResolvedRLSContext(manager, {
+      auth: { userId: '123', roles: ['admin'] },
+      request: { ipAddress: '127.0.0.1' },
+      meta: { source: 'api' }
+    })
+
+    expect(ctx.auth).toMatchObject({ userId: '123', isSystem: false })
+    expect(ctx.auth.resolved).toMatchObject({ organizationId: 'org-123', memberRole: 'owner' })
+    expect(ctx.request?.ipAddress).toBe('127.0.0.1')
+    expect(ctx.meta).toEqual({ source: 'api' })
+  })
+
+  it('should validate the auth context before resolving', async () => {
+    const resolve = vi.spyOn(manager, 'resolve')
+
+    await expect(
+      createResolvedRLSContext(manager, { auth: { userId: '123' } as never })
+    ).rejects.toThrow(RLSContextValidationError)
+    expect(resolve).not.toHaveBeenCalled()
+  })
+
+  it('should let policies read resolved data synchronously', async () => {
+    const tester = createPolicyTester(
+      defineRLSSchema({
+        projects: {
+          policies: [
+            filter('read', ctx => ({
+              organization_id: getResolvedData<OrgData>(ctx).organizationId
+            }))
+          ]
+        }
+      })
+    )
+
+    const { conditions } = await withResolvedRLSContextAsync(
+      manager,
+      { auth: { userId: '42', roles: [] } },
+      async () => tester.getFilters('projects', 'read', { auth: rlsContext.getAuth() })
+    )
+
+    expect(conditions).toEqual({ organization_id: 'org-42' })
+  })
+
+  it('should reject contexts without resolved data', () => {
+    expect(() => getResolvedData({ auth: { userId: '1', roles: [] } })).toThrow(RLSContextError)
+  })
+})
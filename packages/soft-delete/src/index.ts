@@ -1,9 +1,12 @@
 import type { Plugin, QueryBuilderContext, BaseRepositoryLike } from '@kysera/executor'
 import { getRawDb, isRepositoryLike } from '@kysera/executor'
-import type { SelectQueryBuilder } from 'kysely'
-import { NotFoundError, SoftDeleteError, RecordNotDeletedError, silentLogger, formatTimestampForDb, detectDialect, shouldApplyToTable } from '@kysera/core'
+import type { Kysely, SelectQueryBuilder } from 'kysely'
+import { NotFoundError, SoftDeleteError, RecordNotDeletedError, silentLogger, formatTimestampForDb, detectDialect, shouldApplyToTable, parseTableReference } from '@kysera/core'
 import type { KyseraLogger, Dialect } from '@kysera/core'
 import { VERSION } from './version.js'
+import { SoftDeleteJoinPlugin } from './join-filter.js'
+
+export { parseTableReference, type TableReference } from '@kysera/core'
 
 /**
  * Configuration options for the soft delete plugin.
@@ -51,6 +54,19 @@ export interface SoftDeleteOptions {
    */
   excludeTables?: string[]
 
+  /**
+   * Filter soft-deleted rows out of joined tables as well.
+   * Inner and left joins on tables covered by `tables`/`excludeTables` get
+   * `<table or alias>.<deletedAtColumn> IS NULL` added to their ON clause.
+   * Without `tables`, only joined tables found to have `deletedAtColumn` when
+   * the plugin is initialized are filtered.
+   *
+   * Can be disabled per query with `metadata.includeDeletedJoins`.
+   *
+   * @default true
+   */
+  filterJoins?: boolean
+
   /**
    * Primary key column name used for identifying records.
    * Tables with different primary key names (uuid, user_id, etc.) can be configured.
@@ -213,20 +229,45 @@ export const softDeletePlugin = (options: SoftDeleteOptions = {}): Plugin => {
     includeDeleted = false,
     tables,
     excludeTables,
+    filterJoins = true,
     primaryKeyColumn = 'id',
     logger = silentLogger
   } = options
 
+  // Without a tables whitelist, joins are only filtered on tables that have the column
+  let softDeleteTables: ReadonlySet<string> | undefined = tables ? undefined : new Set<string>()
+
+  type GenericSelectQueryBuilder = SelectQueryBuilder<
+    Record<string, unknown>,
+    string,
+    Record<string, unknown>
+  >
+
   return {
     name: '@kysera/soft-delete',
     version: VERSION,
     priority: 500, // FILTER plugin: runs after security (RLS=1000), before transforms
 
     /**
-     * Lifecycle: No initialization needed for soft-delete plugin
+     * Lifecycle: Find the tables that have the soft delete column, so joins
+     * on other tables are left alone when no `tables` whitelist is configured
      */
-    onInit() {
-      // No initialization required
+    async onInit<DB>(db: Kysely<DB>) {
+      if (!filterJoins || tables) return
+      try {
+        const introspected = await db.introspection.getTables()
+        softDeleteTables = new Set(
+          introspected
+            .filter(table => table.columns.some(column => column.name === deletedAtColumn))
+            .map(table => table.name)
+        )
+      } catch (error) {
+        logger.warn(
+          `Could not find tables with ${deletedAtColumn}, joined tables will not be filtered: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      }
     },
 
     /**
@@ -241,6 +282,7 @@ export const softDeletePlugin = (options: SoftDeleteOptions = {}): Plugin => {
      *
      * NOTE: This plugin uses the Method Override pattern, not full query interception.
      * - SELECT queries are automatically filtered to exclude soft-deleted records
+     * - Inner and left joins on soft-delete tables get the same filter in their ON clause
      * - DELETE operations are NOT automatically converted to soft deletes
      * - Use the softDelete() method instead of delete() to perform soft deletes
      * - Use hardDelete() method to bypass soft delete and perform a real DELETE
@@ -250,35 +292,40 @@ export const softDeletePlugin = (options: SoftDeleteOptions = {}): Plugin => {
      * Works with both Repository and DAL patterns through the unified executor layer.
      */
     interceptQuery<QB>(qb: QB, context: QueryBuilderContext): QB {
-      // Check if table supports soft delete
-      const supportsSoftDelete = shouldApplyToTable(context.table, { tables, excludeTables })
-
-      // Only filter SELECT queries when not explicitly including deleted
-      if (
-        supportsSoftDelete &&
-        context.operation === 'select' &&
-        !context.metadata['includeDeleted'] &&
-        !includeDeleted
-      ) {
+      // Only SELECT queries are filtered, and nothing is filtered when deleted rows are requested
+      if (context.operation !== 'select' || includeDeleted || context.metadata['includeDeleted']) {
+        // Note: DELETE operations are NOT intercepted here
+        // Use softDelete() method instead of delete() to perform soft deletes
+        // This is by design - method override is simpler and more explicit
+        return qb
+      }
+
+      let result = qb as unknown as GenericSelectQueryBuilder
+      const { table, qualifier } = parseTableReference(context.table)
+
+      // Check if the root table supports soft delete
+      if (shouldApplyToTable(table, { tables, excludeTables })) {
         logger.debug(`Filtering soft-deleted records from ${context.table}`)
         // Add WHERE deleted_at IS NULL to the query builder
-        type GenericSelectQueryBuilder = SelectQueryBuilder<
-          Record<string, unknown>,
-          string,
-          Record<string, unknown>
-        >
-        return (qb as unknown as GenericSelectQueryBuilder).where(
-          `${context.table}.${deletedAtColumn}` as never,
-          'is',
-          null
-        ) as QB
+        result = result.where(`${qualifier}.${deletedAtColumn}` as never, 'is', null)
       }
 
-      // Note: DELETE operations are NOT intercepted here
-      // Use softDelete() method instead of delete() to perform soft deletes
-      // This is by design - method override is simpler and more explicit
+      // Joins are added after selectFrom(), so they are filtered at compile time
+      // metadata.includeDeletedJoins: true skips all joins, string[] skips the listed tables
+      const includeDeletedJoins = context.metadata['includeDeletedJoins'] as boolean | string[] | undefined
+      if (filterJoins && includeDeletedJoins !== true) {
+        result = result.withPlugin(
+          new SoftDeleteJoinPlugin({
+            deletedAtColumn,
+            tables,
+            excludeTables,
+            skipTables: Array.isArray(includeDeletedJoins) ? includeDeletedJoins : undefined,
+            softDeleteTables
+          })
+        )
+      }
 
-      return qb
+      return result as unknown as QB
     },
 
     /**
@@ -330,6 +377,11 @@ export const softDeletePlugin = (options: SoftDeleteOptions = {}): Plugin => {
         return cachedDialect
       }
 
+      // Original findById, used when options (e.g. relation includes) are passed.
+      // It already queries through the executor, so the soft-delete filter applies.
+      const originalFindById = (baseRepo as { findById?: (id: unknown, options?: unknown) => Promise<unknown> })
+        .findById?.bind(baseRepo)
+
       const extendedRepo = {
         ...baseRepo,
 
@@ -338,7 +390,10 @@ export const softDeletePlugin = (options: SoftDeleteOptions = {}): Plugin => {
           return await baseRepo.executor.selectFrom(baseRepo.tableName).selectAll().execute() as unknown[]
         },
 
-        async findById(id: number | string): Promise<unknown> {
+        async findById(id: number | string, options?: unknown): Promise<unknown> {
+          if (options !== undefined && originalFindById) {
+            return await originalFindById(id, options)
+          }
           const result = await baseRepo.executor
             .selectFrom(baseRepo.tableName)
             .selectAll()
@@ -0,0 +1,113 @@
+/**
+ * Soft-delete filtering for joined tables.
+ *
+ * `interceptQuery` runs when `selectFrom()` is called, before any joins are
+ * added to the builder. Joined tables are therefore filtered by a Kysely plugin
+ * attached to the select builder, which sees the final query tree at compile time
+ * and adds `<alias>.<deletedAtColumn> IS NULL` to the ON clause of each join.
+ *
+ * @module @kysera/soft-delete
+ */
+
+import {
+  AliasNode,
+  BinaryOperationNode,
+  ColumnNode,
+  IdentifierNode,
+  JoinNode,
+  OperationNodeTransformer,
+  OperatorNode,
+  ReferenceNode,
+  TableNode,
+  ValueNode,
+  type JoinType,
+  type KyselyPlugin,
+  type OperationNode,
+  type PluginTransformQueryArgs,
+  type PluginTransformResultArgs,
+  type QueryId,
+  type QueryResult,
+  type RootOperationNode,
+  type UnknownRow
+} from 'kysely'
+import { shouldApplyToTable, type TableFilterConfig } from '@kysera/core'
+
+/**
+ * Join types whose ON clause can filter the joined table.
+ * Right/full joins preserve the joined side, and cross/lateral/apply joins
+ * have no ON clause or target subqueries, so they are left untouched.
+ */
+const FILTERABLE_JOIN_TYPES: ReadonlySet<JoinType> = new Set<JoinType>(['InnerJoin', 'LeftJoin'])
+
+/**
+ * Options for the join filter
+ */
+export interface JoinFilterOptions extends TableFilterConfig {
+  /** Soft delete column name */
+  deletedAtColumn: string
+  /** Tables whose deleted rows should stay visible for this query */
+  skipTables?: readonly string[] | undefined
+  /** Tables known to have the soft delete column; when set, joins on other tables are not filtered */
+  softDeleteTables?: ReadonlySet<string> | undefined
+}
+
+/**
+ * Resolve the table name and column qualifier of a join target.
+ * Returns undefined for subqueries and other non-table targets.
+ */
+function resolveJoinTarget(node: OperationNode): { table: string; qualifier: TableNode } | undefined {
+  if (TableNode.is(node)) {
+    return { table: node.table.identifier.name, qualifier: node }
+  }
+  if (AliasNode.is(node) && TableNode.is(node.node) && IdentifierNode.is(node.alias)) {
+    return { table: node.node.table.identifier.name, qualifier: TableNode.create(node.alias.name) }
+  }
+  return undefined
+}
+
+/**
+ * Adds the deleted-at predicate to the ON clause of qualifying joins
+ */
+class SoftDeleteJoinTransformer extends OperationNodeTransformer {
+  constructor(private readonly options: JoinFilterOptions) {
+    super()
+  }
+
+  protected override transformJoin(node: JoinNode, queryId?: QueryId): JoinNode {
+    const join = super.transformJoin(node, queryId)
+    if (!join.on || !FILTERABLE_JOIN_TYPES.has(join.joinType)) return join
+
+    const target = resolveJoinTarget(join.table)
+    if (!target || this.options.skipTables?.includes(target.table)) return join
+    if (!shouldApplyToTable(target.table, this.options)) return join
+    if (this.options.softDeleteTables && !this.options.softDeleteTables.has(target.table)) return join
+
+    const isNotDeleted = BinaryOperationNode.create(
+      ReferenceNode.create(ColumnNode.create(this.options.deletedAtColumn), target.qualifier),
+      OperatorNode.create('is'),
+      ValueNode.createImmediate(null)
+    )
+    return JoinNode.cloneWithOn(join, isNotDeleted)
+  }
+}
+
+/**
+ * Kysely plugin that filters soft-deleted rows out of joined tables.
+ *
+ * @internal Attached by softDeletePlugin().interceptQuery to SELECT builders
+ */
+export class SoftDeleteJoinPlugin implements KyselyPlugin {
+  private readonly transformer: SoftDeleteJoinTransformer
+
+  constructor(options: JoinFilterOptions) {
+    this.transformer = new SoftDeleteJoinTransformer(options)
+  }
+
+  transformQuery(args: PluginTransformQueryArgs): RootOperationNode {
+    return this.transformer.transformNode(args.node, args.queryId)
+  }
+
+  transformResult(args: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    return Promise.resolve(args.result)
+  }
+}
@@ -0,0 +1,217 @@
+// @ts-nocheck - Test file with dynamic query shapes
+/**
+ * Join filtering tests for Soft Delete Plugin
+ *
+ * Verifies that soft-deleted rows are filtered out of joined tables, that
+ * aliases are respected, and that the filter can be disabled per query.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createTestDatabase, seedTestData, type TestDatabase } from './setup/database.js'
+import { softDeletePlugin, parseTableReference } from '../src/index.js'
+import { createExecutor } from '@kysera/executor'
+import type { Kysely } from 'kysely'
+
+describe('Soft Delete Plugin - Join Filtering', () => {
+  let db: Kysely<TestDatabase>
+  let cleanup: () => void
+
+  beforeEach(async () => {
+    const setup = createTestDatabase()
+    db = setup.db
+    cleanup = setup.cleanup
+    await seedTestData(db)
+
+    // Soft delete Alice's "Second Post" and Bob
+    await db.updateTable('posts').set({ deleted_at: '2024-01-01 00:00:00' }).where('title', '=', 'Second Post').execute()
+    await db.updateTable('users').set({ deleted_at: '2024-01-01 00:00:00' }).where('name', '=', 'Bob').execute()
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  describe('parseTableReference', () => {
+    it('should parse plain, aliased and schema-qualified references', () => {
+      expect(parseTableReference('posts')).toEqual({ table: 'posts', qualifier: 'posts' })
+      expect(parseTableReference('posts as p')).toEqual({ table: 'posts', qualifier: 'p' })
+      expect(parseTableReference('blog.posts')).toEqual({ table: 'posts', qualifier: 'blog.posts' })
+      expect(parseTableReference('blog.posts AS p')).toEqual({ table: 'posts', qualifier: 'p' })
+    })
+  })
+
+  describe('inner joins', () => {
+    it('should exclude soft-deleted rows of the joined table', async () => {
+      const executor = await createExecutor(db, [softDeletePlugin()])
+
+      const rows = await executor
+        .selectFrom('users')
+        .innerJoin('posts', 'posts.user_id', 'users.id')
+        .select(['users.name', 'posts.title'])
+        .orderBy('posts.title')
+        .execute()
+
+      expect(rows).toEqual([{ name: 'Alice', title: 'First Post' }])
+    })
+
+    it('should filter joined tables by alias', async () => {
+      const executor = await createExecutor(db, [softDeletePlugin()])
+
+      const query = executor
+        .selectFrom('users as u')
+        .innerJoin('posts as p', 'p.user_id', 'u.id')
+        .select(['u.name', 'p.title'])
+
+      expect(query.compile().sql).toContain('"p"."deleted_at" is null')
+      expect(query.compile().sql).toContain('"u"."deleted_at" is null')
+      expect(await query.execute()).toEqual([{ name: 'Alice', title: 'First Post' }])
+    })
+
+    it('should filter every join in the query', async () => {
+      const executor = await createExecutor(db, [softDeletePlugin()])
+
+      const rows = await executor
+        .selectFrom('posts')
+        .innerJoin('comments', 'comments.post_id', 'posts.id')
+        .innerJoin('users', 'users.id', 'comments.user_id')
+        .select(['comments.content'])
+        .execute()
+
+      expect(rows).toEqual([{ content: 'Thanks for sharing' }])
+    })
+  })
+
+  describe('left joins', () => {
+    it('should keep the parent row when the joined row is soft-deleted', async () => {
+      const executor = await createExecutor(db, [softDeletePlugin()])
+
+      const rows = await executor
+        .selectFrom('posts')
+        .leftJoin('users', 'users.id', 'posts.user_id')
+        .select(['posts.title', 'users.name'])
+        .orderBy('posts.title')
+        .execute()
+
+      expect(rows).toEqual([
+        { title: "Bob's Post", name: null },
+        { title: 'First Post', name: 'Alice' }
+      ])
+    })
+  })
+
+  describe('configuration', () => {
+    it('should only filter joined tables listed in tables', async () => {
+      const executor = await createExecutor(db, [softDeletePlugin({ tables: ['users'] })])
+
+      const rows = await executor
+        .selectFrom('users')
+        .innerJoin('posts', 'posts.user_id', 'users.id')
+        .select(['posts.title'])
+        .orderBy('posts.title')
+        .execute()
+
+      expect(rows.map(r => r.title)).toEqual(['First Post', 'Second Post'])
+    })
+
+    it('should skip joined tables listed in excludeTables', async () => {
+      const executor = await createExecutor(db, [softDeletePlugin({ excludeTables: ['users'] })])
+
+      const rows = await executor
+        .selectFrom('posts')
+        .innerJoin('users', 'users.id', 'posts.user_id')
+        .select(['posts.title'])
+        .orderBy('posts.title')
+        .execute()
+
+      expect(rows.map(r => r.title)).toEqual(["Bob's Post", 'First Post'])
+    })
+
+    it('should not filter joined tables without the soft delete column', async () => {
+      await db.schema
+        .createTable('tags')
+        .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+        .addColumn('post_id', 'integer', col => col.notNull())
+        .addColumn('name', 'text', col => col.notNull())
+        .execute()
+      await db.insertInto('tags').values({ post_id: 1, name: 'intro' }).execute()
+      const executor = await createExecutor(db, [softDeletePlugin()])
+
+      const query = executor
+        .selectFrom('posts')
+        .innerJoin('tags', 'tags.post_id', 'posts.id')
+        .innerJoin('users', 'users.id', 'posts.user_id')
+        .select(['posts.title', 'tags.name'])
+
+      expect(query.compile().sql).not.toContain('"tags"."deleted_at"')
+      expect(query.compile().sql).toContain('"users"."deleted_at" is null')
+      expect(await query.execute()).toEqual([{ title: 'First Post', name: 'intro' }])
+    })
+
+    it('should not filter joins when filterJoins is false', async () => {
+      const executor = await createExecutor(db, [softDeletePlugin({ filterJoins: false })])
+
+      const rows = await executor
+        .selectFrom('users')
+        .innerJoin('posts', 'posts.user_id', 'users.id')
+        .select(['posts.title'])
+        .orderBy('posts.title')
+        .execute()
+
+      expect(rows.map(r => r.title)).toEqual(['First Post', 'Second Post'])
+    })
+
+    it('should not filter joins when includeDeleted is true', async () => {
+      const executor = await createExecutor(db, [softDeletePlugin({ includeDeleted: true })])
+
+      const rows = await executor
+        .selectFrom('users')
+        .innerJoin('posts', 'posts.user_id', 'users.id')
+        .select(['posts.title'])
+        .execute()
+
+      expect(rows).toHaveLength(3)
+    })
+  })
+
+  describe('per-query metadata', () => {
+    const plugin = softDeletePlugin()
+
+    beforeEach(async () => {
+      await plugin.onInit(db)
+    })
+
+    function intercept(qb, metadata: Record<string, unknown>) {
+      return plugin.interceptQuery(qb, { operation: 'select', table: 'posts', metadata })
+    }
+
+    it('should keep deleted joined rows with includeDeletedJoins: true', async () => {
+      const qb = db.selectFrom('posts')
+
+      const rows = await intercept(qb, { includeDeletedJoins: true })
+        .innerJoin('users', 'users.id', 'posts.user_id')
+        .select(['posts.title'])
+        .orderBy('posts.title')
+        .execute()
+
+      // Root filter still applies, the deleted join target (Bob) does not
+      expect(rows.map(r => r.title)).toEqual(["Bob's Post", 'First Post'])
+    })
+
+    it('should keep deleted rows only for tables listed in includeDeletedJoins', async () => {
+      await db.updateTable('comments').set({ deleted_at: '2024-01-01 00:00:00' }).execute()
+      const qb = db.selectFrom('posts')
+
+      const rows = await intercept(qb, { includeDeletedJoins: ['users'] })
+        .innerJoin('users', 'users.id', 'posts.user_id')
+        .leftJoin('comments', 'comments.post_id', 'posts.id')
+        .select(['posts.title', 'comments.content'])
+        .orderBy('posts.title')
+        .execute()
+
+      expect(rows).toEqual([
+        { title: "Bob's Post", content: null },
+        { title: 'First Post', content: null }
+      ])
+    })
+  })
+})
@@ -0,0 +1,50 @@
+/**
+ * Span names, attribute names and metric names, following the OpenTelemetry
+ * semantic conventions for database clients where one exists.
+ *
+ * @module @kysera/telemetry
+ */
+
+import type { Dialect } from '@kysera/core'
+
+/** Database system (`postgresql`, `mysql`, `sqlite`, `mssql`) */
+export const ATTR_DB_SYSTEM = 'db.system'
+/** SQL of the query, with parameter placeholders and collapsed whitespace */
+export const ATTR_DB_STATEMENT = 'db.statement'
+/** Executor operation (`select`, `insert`, `update`, `delete`, `replace`, `merge`) */
+export const ATTR_DB_OPERATION = 'db.operation'
+/** Table the query builder was created for */
+export const ATTR_DB_SQL_TABLE = 'db.sql.table'
+/** Schema set with `withSchema()` */
+export const ATTR_DB_NAMESPACE = 'db.namespace'
+/** Number of rows the query returned */
+export const ATTR_DB_RETURNED_ROWS = 'db.response.returned_rows'
+/** Number of rows an INSERT, UPDATE or DELETE affected, when the driver reports it */
+export const ATTR_KYSERA_AFFECTED_ROWS = 'kysera.affected_rows'
+/** Isolation level of a transaction span, when one was set */
+export const ATTR_KYSERA_ISOLATION_LEVEL = 'kysera.transaction.isolation_level'
+/** Connection state of the pool connection gauge (`idle` or `used`) */
+export const ATTR_DB_CONNECTION_STATE = 'db.client.connection.state'
+
+/** Span around a top-level `withTransaction()` */
+export const SPAN_TRANSACTION = 'transaction'
+/** Span around a nested `withTransaction()`, which runs in a savepoint */
+export const SPAN_SAVEPOINT = 'savepoint'
+
+/** Histogram of query durations, in seconds */
+export const METRIC_DB_OPERATION_DURATION = 'db.client.operation.duration'
+/** Gauge of pool connections by state */
+export const METRIC_DB_CONNECTION_COUNT = 'db.client.connection.count'
+/** Gauge of requests waiting for a pool connection */
+export const METRIC_DB_CONNECTION_PENDING_REQUESTS = 'db.client.connection.pending_requests'
+
+/**
+ * `db.system` values of the dialects Kysera detects
+ * @internal
+ */
+export const DB_SYSTEMS: Record<Dialect, string> = {
+  postgres: 'postgresql',
+  mysql: 'mysql',
+  sqlite: 'sqlite',
+  mssql: 'mssql'
+}
@@ -0,0 +1,213 @@
+import type { Kysely } from 'kysely'
+import {
+  getRawDb,
+  type KyseraExecutor,
+  type Plugin,
+  type QueryBuilderContext
+} from '@kysera/executor'
+import type { DbContext, TransactionOptionsWithLogger } from '@kysera/dal'
+import { detectDialect, PLUGIN_PRIORITIES } from '@kysera/core'
+import type { MetricsPool } from '@kysera/infra/pool'
+import { VERSION } from './version.js'
+import { DB_SYSTEMS, METRIC_DB_OPERATION_DURATION } from './conventions.js'
+import { QueryTracingPlugin, type QueryInstrumentation } from './query-tracing.js'
+import { traceTransaction } from './transaction.js'
+import { registerPoolGauges } from './pool.js'
+import type { TelemetryMeter, TelemetryTracer } from './types.js'
+
+export {
+  SpanKind,
+  SpanStatusCode,
+  type AttributeValue,
+  type Attributes,
+  type SpanStatus,
+  type TelemetrySpanOptions,
+  type TelemetrySpan,
+  type TelemetryTracer,
+  type TelemetryInstrumentOptions,
+  type TelemetryHistogram,
+  type TelemetryObservableResult,
+  type TelemetryObservableCallback,
+  type TelemetryObservableGauge,
+  type TelemetryMeter
+} from './types.js'
+export {
+  ATTR_DB_SYSTEM,
+  ATTR_DB_STATEMENT,
+  ATTR_DB_OPERATION,
+  ATTR_DB_SQL_TABLE,
+  ATTR_DB_NAMESPACE,
+  ATTR_DB_RETURNED_ROWS,
+  ATTR_KYSERA_AFFECTED_ROWS,
+  ATTR_KYSERA_ISOLATION_LEVEL,
+  ATTR_DB_CONNECTION_STATE,
+  SPAN_TRANSACTION,
+  SPAN_SAVEPOINT,
+  METRIC_DB_OPERATION_DURATION,
+  METRIC_DB_CONNECTION_COUNT,
+  METRIC_DB_CONNECTION_PENDING_REQUESTS
+} from './conventions.js'
+
+/**
+ * Options for the telemetry plugin
+ */
+export interface TelemetryOptions {
+  /**
+   * Tracer for query, transaction and savepoint spans,
+   * e.g. `trace.getTracer('my-service')` from `@opentelemetry/api`.
+   * No spans are recorded without it.
+   */
+  tracer?: TelemetryTracer
+
+  /**
+   * Meter for the query duration histogram and pool gauges,
+   * e.g. `metrics.getMeter('my-service')` from `@opentelemetry/api`.
+   * No metrics are recorded without it.
+   */
+  meter?: TelemetryMeter
+
+  /**
+   * Connection pool reported by the pool gauges (requires `meter`),
+   * e.g. `createMetricsPool(pgPool)` from `@kysera/infra/pool`
+   */
+  pool?: MetricsPool
+
+  /**
+   * `db.system` attribute value
+   * @default detected from the database dialect ('postgresql', 'mysql', 'sqlite' or 'mssql')
+   */
+  dbSystem?: string
+
+  /**
+   * Add the query SQL to spans as `db.statement`.
+   * The SQL contains parameter placeholders, never parameter values.
+   * @default true
+   */
+  includeStatement?: boolean
+}
+
+/**
+ * Telemetry plugin, with transaction tracing
+ */
+export interface TelemetryPlugin extends Plugin {
+  /**
+   * `withTransaction()` from `@kysera/dal`, in a `transaction` span.
+   * Nested calls run in a savepoint and get a `savepoint` span.
+   * Query spans of the transaction are children of its span.
+   */
+  withTransaction<DB, T>(
+    db: Kysely<DB> | KyseraExecutor<DB> | DbContext<DB>,
+    fn: (ctx: DbContext<DB>) => Promise<T>,
+    options?: TransactionOptionsWithLogger
+  ): Promise<T>
+}
+
+/**
+ * Telemetry Plugin
+ *
+ * OpenTelemetry tracing and metrics for executor queries.
+ *
+ * ## What is recorded
+ *
+ * - A `CLIENT` span per executed query, named `<operation> <table>`, with `db.system`,
+ *   `db.statement` (placeholders only, whitespace collapsed with `minifySQL` from
+ *   `@kysera/debug`), `db.operation`, `db.sql.table` and `db.response.returned_rows`
+ * - `transaction` and `savepoint` spans via {@link TelemetryPlugin.withTransaction}
+ * - A `db.client.operation.duration` histogram (seconds) per query
+ * - `db.client.connection.count` and `db.client.connection.pending_requests` gauges
+ *   read from `pool.getMetrics()`
+ *
+ * Tracer and meter are structurally compatible with `@opentelemetry/api`, which this
+ * package doesn't depend on. Spans are parented through the active OpenTelemetry context,
+ * so register a context manager (the Node SDK does) for query spans to nest under
+ * transaction and request spans. `@kysera/telemetry/testing` provides an in-memory
+ * exporter for tests.
+ *
+ * Kysely plugins don't see driver errors, so a query that fails records no span of its
+ * own; inside `withTransaction()` the error is recorded on the transaction span.
+ *
+ * @example
+ * ```typescript
+ * import { trace, metrics } from '@opentelemetry/api'
+ * import { createMetricsPool } from '@kysera/infra/pool'
+ * import { telemetryPlugin } from '@kysera/telemetry'
+ *
+ * const telemetry = telemetryPlugin({
+ *   tracer: trace.getTracer('orders-service'),
+ *   meter: metrics.getMeter('orders-service'),
+ *   pool: createMetricsPool(pgPool)
+ * })
+ * const executor = await createExecutor(db, [telemetry])
+ *
+ * await telemetry.withTransaction(executor, async ctx => {
+ *   await createOrder(ctx, input) // 'insert orders' span inside a 'transaction' span
+ * })
+ * ```
+ */
+export const telemetryPlugin = (options: TelemetryOptions = {}): TelemetryPlugin => {
+  const { tracer, meter, pool, includeStatement = true } = options
+  let dbSystem = options.dbSystem
+
+  // Detected from the first database seen, on the raw instance so no query is intercepted
+  const resolveDbSystem = (db?: Kysely<unknown>): string => {
+    if (dbSystem === undefined && db) {
+      dbSystem = DB_SYSTEMS[detectDialect(getRawDb(db))]
+    }
+    return dbSystem ?? 'other_sql'
+  }
+
+  const instrumentation: QueryInstrumentation = {
+    ...(tracer && { tracer }),
+    ...(meter && {
+      duration: meter.createHistogram(METRIC_DB_OPERATION_DURATION, {
+        description: 'Duration of database queries',
+        unit: 's'
+      })
+    }),
+    includeStatement,
+    dbSystem: () => resolveDbSystem()
+  }
+
+  let unregisterPoolGauges: (() => void) | undefined
+  if (meter && pool) {
+    unregisterPoolGauges = registerPoolGauges(meter, pool, () => resolveDbSystem())
+  }
+
+  return {
+    name: '@kysera/telemetry',
+    version: VERSION,
+    priority: PLUGIN_PRIORITIES.DEBUG, // Runs last, so spans show the query other plugins produced
+
+    onInit<DB>(db: Kysely<DB>): void {
+      resolveDbSystem(db as Kysely<unknown>)
+    },
+
+    onDestroy() {
+      unregisterPoolGauges?.()
+      unregisterPoolGauges = undefined
+    },
+
+    interceptQuery<QB>(qb: QB, context: QueryBuilderContext): QB {
+      if (!tracer && !meter) {
+        return qb
+      }
+      resolveDbSystem(context.rawDb)
+      return (qb as unknown as { withPlugin(plugin: QueryTracingPlugin): QB }).withPlugin(
+        new QueryTracingPlugin(instrumentation, context)
+      )
+    },
+
+    async withTransaction<DB, T>(
+      db: Kysely<DB> | KyseraExecutor<DB> | DbContext<DB>,
+      fn: (ctx: DbContext<DB>) => Promise<T>,
+      transactionOptions?: TransactionOptionsWithLogger
+    ): Promise<T> {
+      return await traceTransaction(
+        { ...(tracer && { tracer }), dbSystem: resolveDbSystem },
+        db,
+        fn,
+        transactionOptions
+      )
+    }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Connection pool gauges.
+ *
+ * @module @kysera/telemetry
+ */
+
+import type { MetricsPool } from '@kysera/infra/pool'
+import {
+  ATTR_DB_CONNECTION_STATE,
+  ATTR_DB_SYSTEM,
+  METRIC_DB_CONNECTION_COUNT,
+  METRIC_DB_CONNECTION_PENDING_REQUESTS
+} from './conventions.js'
+import type { TelemetryMeter, TelemetryObservableCallback } from './types.js'
+
+/**
+ * Register observable gauges reporting `pool.getMetrics()` on every metric collection
+ *
+ * - `db.client.connection.count` with `db.client.connection.state` `idle` and `used`
+ * - `db.client.connection.pending_requests`
+ *
+ * @returns Function removing the gauge callbacks
+ * @internal
+ */
+export function registerPoolGauges(
+  meter: TelemetryMeter,
+  pool: MetricsPool,
+  dbSystem: () => string
+): () => void {
+  const connections = meter.createObservableGauge(METRIC_DB_CONNECTION_COUNT, {
+    description: 'Number of connections in the pool, by state',
+    unit: '{connection}'
+  })
+  const pending = meter.createObservableGauge(METRIC_DB_CONNECTION_PENDING_REQUESTS, {
+    description: 'Number of requests waiting for a connection',
+    unit: '{request}'
+  })
+
+  const observeConnections: TelemetryObservableCallback = result => {
+    const { idle, active } = pool.getMetrics()
+    const system = dbSystem()
+    result.observe(idle, { [ATTR_DB_SYSTEM]: system, [ATTR_DB_CONNECTION_STATE]: 'idle' })
+    result.observe(active, { [ATTR_DB_SYSTEM]: system, [ATTR_DB_CONNECTION_STATE]: 'used' })
+  }
+  const observePending: TelemetryObservableCallback = result => {
+    result.observe(pool.getMetrics().waiting, { [ATTR_DB_SYSTEM]: dbSystem() })
+  }
+
+  connections.addCallback(observeConnections)
+  pending.addCallback(observePending)
+
+  return () => {
+    connections.removeCallback(observeConnections)
+    pending.removeCallback(observePending)
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Query spans and latency histogram.
+ *
+ * `interceptQuery` runs when the query builder is created, before the query is
+ * built and executed, so spans are opened by a Kysely plugin attached to the builder:
+ * `transformQuery` runs right before execution and `transformResult` right after.
+ *
+ * @module @kysera/telemetry
+ */
+
+import {
+  DefaultQueryCompiler,
+  type KyselyPlugin,
+  type PluginTransformQueryArgs,
+  type PluginTransformResultArgs,
+  type QueryId,
+  type QueryResult,
+  type RootOperationNode,
+  type UnknownRow
+} from 'kysely'
+import type { QueryBuilderContext } from '@kysera/executor'
+import { resolveTableName } from '@kysera/core'
+import { minifySQL } from '@kysera/debug'
+import {
+  ATTR_DB_NAMESPACE,
+  ATTR_DB_OPERATION,
+  ATTR_DB_RETURNED_ROWS,
+  ATTR_DB_SQL_TABLE,
+  ATTR_DB_STATEMENT,
+  ATTR_DB_SYSTEM,
+  ATTR_KYSERA_AFFECTED_ROWS
+} from './conventions.js'
+import {
+  SpanKind,
+  type Attributes,
+  type TelemetryHistogram,
+  type TelemetrySpan,
+  type TelemetryTracer
+} from './types.js'
+
+/**
+ * Instruments and settings shared by the query plugins of a telemetry plugin
+ * @internal
+ */
+export interface QueryInstrumentation {
+  tracer?: TelemetryTracer
+  duration?: TelemetryHistogram
+  includeStatement: boolean
+  /** `db.system` of the database the query runs on */
+  dbSystem(): string
+}
+
+/**
+ * Query that has been compiled and not returned yet
+ */
+interface PendingQuery {
+  span: TelemetrySpan | undefined
+  startTime: number
+}
+
+/**
+ * Kysely plugin recording one span and one duration measurement per executed query
+ * of a query builder
+ * @internal
+ */
+export class QueryTracingPlugin implements KyselyPlugin {
+  private readonly pending = new WeakMap<QueryId, PendingQuery>()
+
+  constructor(
+    private readonly instrumentation: QueryInstrumentation,
+    private readonly context: QueryBuilderContext
+  ) {}
+
+  transformQuery(args: PluginTransformQueryArgs): RootOperationNode {
+    const { tracer, includeStatement } = this.instrumentation
+    let span: TelemetrySpan | undefined
+
+    if (tracer) {
+      const attributes = this.metricAttributes()
+      if (this.context.schema !== undefined) {
+        attributes[ATTR_DB_NAMESPACE] = this.context.schema
+      }
+      if (includeStatement) {
+        const compiled = new DefaultQueryCompiler().compileQuery(args.node, args.queryId)
+        attributes[ATTR_DB_STATEMENT] = minifySQL(compiled.sql)
+      }
+      span = tracer.startSpan(
+        `${this.context.operation} ${String(attributes[ATTR_DB_SQL_TABLE])}`,
+        { kind: SpanKind.CLIENT, attributes }
+      )
+    }
+
+    this.pending.set(args.queryId, { span, startTime: performance.now() })
+    return args.node
+  }
+
+  transformResult(args: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    const query = this.pending.get(args.queryId)
+    if (query) {
+      this.pending.delete(args.queryId)
+      const { result } = args
+
+      this.instrumentation.duration?.record(
+        (performance.now() - query.startTime) / 1000,
+        this.metricAttributes()
+      )
+
+      if (query.span) {
+        query.span.setAttribute(ATTR_DB_RETURNED_ROWS, result.rows.length)
+        if (result.numAffectedRows !== undefined) {
+          query.span.setAttribute(ATTR_KYSERA_AFFECTED_ROWS, Number(result.numAffectedRows))
+        }
+        query.span.end()
+      }
+    }
+
+    return Promise.resolve(args.result)
+  }
+
+  /**
+   * Attributes shared by the span and the duration histogram
+   */
+  private metricAttributes(): Attributes {
+    return {
+      [ATTR_DB_SYSTEM]: this.instrumentation.dbSystem(),
+      [ATTR_DB_OPERATION]: this.context.operation,
+      [ATTR_DB_SQL_TABLE]: resolveTableName(this.context.table)
+    }
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * In-memory tracer and meter for tests.
+ *
+ * @module @kysera/telemetry/testing
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import {
+  SpanKind,
+  SpanStatusCode,
+  type AttributeValue,
+  type Attributes,
+  type SpanStatus,
+  type TelemetryHistogram,
+  type TelemetryMeter,
+  type TelemetryObservableCallback,
+  type TelemetryObservableGauge,
+  type TelemetrySpan,
+  type TelemetrySpanOptions,
+  type TelemetryTracer
+} from './types.js'
+
+/**
+ * Span recorded by an InMemoryExporter
+ */
+export interface FinishedSpan {
+  /** Unique within the exporter (1-based) */
+  spanId: number
+  /** Span that was active when this span started */
+  parentSpanId: number | undefined
+  name: string
+  kind: number
+  attributes: Record<string, AttributeValue>
+  status: SpanStatus
+  exceptions: (Error | string)[]
+  /** Duration in milliseconds */
+  duration: number
+}
+
+/**
+ * Value recorded on a histogram
+ */
+export interface HistogramRecord {
+  value: number
+  attributes: Record<string, AttributeValue>
+}
+
+/**
+ * Value observed by a gauge callback
+ */
+export interface GaugeObservation {
+  name: string
+  value: number
+  attributes: Record<string, AttributeValue>
+}
+
+/**
+ * Copy attributes without undefined values
+ */
+function definedAttributes(attributes: Attributes | undefined): Record<string, AttributeValue> {
+  const result: Record<string, AttributeValue> = {}
+  for (const [key, value] of Object.entries(attributes ?? {})) {
+    if (value !== undefined) {
+      result[key] = value
+    }
+  }
+  return result
+}
+
+class InMemorySpan implements TelemetrySpan {
+  private readonly kind: number
+  private readonly attributes: Record<string, AttributeValue>
+  private readonly exceptions: (Error | string)[] = []
+  private status: SpanStatus = { code: SpanStatusCode.UNSET }
+  private readonly startTime = performance.now()
+  private ended = false
+
+  constructor(
+    private readonly onEnd: (span: FinishedSpan) => void,
+    readonly spanId: number,
+    private readonly parentSpanId: number | undefined,
+    private readonly name: string,
+    options: TelemetrySpanOptions
+  ) {
+    this.kind = options.kind ?? SpanKind.INTERNAL
+    this.attributes = definedAttributes(options.attributes)
+  }
+
+  setAttribute(key: string, value: AttributeValue): this {
+    this.attributes[key] = value
+    return this
+  }
+
+  setAttributes(attributes: Attributes): this {
+    Object.assign(this.attributes, definedAttributes(attributes))
+    return this
+  }
+
+  setStatus(status: SpanStatus): this {
+    this.status = status
+    return this
+  }
+
+  recordException(exception: Error | string): void {
+    this.exceptions.push(exception)
+  }
+
+  end(): void {
+    // Like OpenTelemetry spans, a span is exported once
+    if (this.ended) return
+    this.ended = true
+    this.onEnd({
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      attributes: { ...this.attributes },
+      status: this.status,
+      exceptions: [...this.exceptions],
+      duration: performance.now() - this.startTime
+    })
+  }
+}
+
+/**
+ * In-memory exporter with a tracer and a meter to pass to `telemetryPlugin()`.
+ *
+ * Ended spans and histogram records are kept in memory; gauges are read with
+ * `collectGauges()`. The active span is tracked with AsyncLocalStorage, so spans
+ * started inside `startActiveSpan()` record it as their parent.
+ *
+ * @example
+ * ```typescript
+ * import { telemetryPlugin } from '@kysera/telemetry'
+ * import { InMemoryExporter } from '@kysera/telemetry/testing'
+ *
+ * const exporter = new InMemoryExporter()
+ * const executor = await createExecutor(db, [
+ *   telemetryPlugin({ tracer: exporter.tracer, meter: exporter.meter })
+ * ])
+ *
+ * await executor.selectFrom('users').selectAll().execute()
+ *
+ * expect(exporter.getFinishedSpans()).toMatchObject([{ name: 'select users' }])
+ * ```
+ */
+export class InMemoryExporter {
+  readonly tracer: TelemetryTracer
+  readonly meter: TelemetryMeter
+
+  private readonly activeSpan = new AsyncLocalStorage<InMemorySpan>()
+  private readonly spans: FinishedSpan[] = []
+  private readonly histograms = new Map<string, HistogramRecord[]>()
+  private readonly gauges = new Map<string, Set<TelemetryObservableCallback>>()
+  private nextSpanId = 1
+
+  constructor() {
+    this.tracer = {
+      startSpan: (name, options = {}) => this.startSpan(name, options),
+      startActiveSpan: (name, options, fn) => {
+        const span = this.startSpan(name, options)
+        return this.activeSpan.run(span, () => fn(span)) as ReturnType<typeof fn>
+      }
+    }
+    this.meter = {
+      createHistogram: name => this.createHistogram(name),
+      createObservableGauge: name => this.createObservableGauge(name)
+    }
+  }
+
+  /**
+   * Spans ended so far, in the order they ended
+   */
+  getFinishedSpans(): FinishedSpan[] {
+    return [...this.spans]
+  }
+
+  /**
+   * Values recorded on a histogram so far
+   */
+  getHistogramRecords(name: string): HistogramRecord[] {
+    return [...(this.histograms.get(name) ?? [])]
+  }
+
+  /**
+   * Run the callbacks of all gauges and return what they observed
+   */
+  collectGauges(): GaugeObservation[] {
+    const observations: GaugeObservation[] = []
+    for (const [name, callbacks] of this.gauges) {
+      for (const callback of callbacks) {
+        callback({
+          observe: (value, attributes) => {
+            observations.push({ name, value, attributes: definedAttributes(attributes) })
+          }
+        })
+      }
+    }
+    return observations
+  }
+
+  /**
+   * Forget finished spans and histogram records (gauge callbacks stay registered)
+   */
+  reset(): void {
+    this.spans.length = 0
+    this.histograms.clear()
+  }
+
+  private startSpan(name: string, options: TelemetrySpanOptions): InMemorySpan {
+    const parent = this.activeSpan.getStore()
+    return new InMemorySpan(
+      span => this.spans.push(span),
+      this.nextSpanId++,
+      parent?.spanId,
+      name,
+      options
+    )
+  }
+
+  private createHistogram(name: string): TelemetryHistogram {
+    return {
+      record: (value, attributes) => {
+        const records = this.histograms.get(name) ?? []
+        records.push({ value, attributes: definedAttributes(attributes) })
+        this.histograms.set(name, records)
+      }
+    }
+  }
+
+  private createObservableGauge(name: string): TelemetryObservableGauge {
+    const callbacks = this.gauges.get(name) ?? new Set<TelemetryObservableCallback>()
+    this.gauges.set(name, callbacks)
+    return {
+      addCallback: callback => {
+        callbacks.add(callback)
+      },
+      removeCallback: callback => {
+        callbacks.delete(callback)
+      }
+    }
+  }
+}
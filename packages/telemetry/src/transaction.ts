@@ -0,0 +1,83 @@
+/**
+ * Transaction and savepoint spans.
+ *
+ * @module @kysera/telemetry
+ */
+
+import type { Kysely } from 'kysely'
+import type { KyseraExecutor } from '@kysera/executor'
+import {
+  IN_TRANSACTION_SYMBOL,
+  isDbContext,
+  withTransaction,
+  type DbContext,
+  type TransactionOptionsWithLogger
+} from '@kysera/dal'
+import {
+  ATTR_DB_SYSTEM,
+  ATTR_KYSERA_ISOLATION_LEVEL,
+  SPAN_SAVEPOINT,
+  SPAN_TRANSACTION
+} from './conventions.js'
+import { SpanKind, SpanStatusCode, type Attributes, type TelemetryTracer } from './types.js'
+
+/**
+ * Tracer and settings used by transaction spans
+ * @internal
+ */
+export interface TransactionInstrumentation {
+  tracer?: TelemetryTracer
+  /** `db.system` of the database the transaction runs on */
+  dbSystem(db: Kysely<unknown>): string
+}
+
+/**
+ * Run `withTransaction()` from `@kysera/dal` in a `transaction` span,
+ * or a `savepoint` span when called inside a transaction.
+ *
+ * The span is active while `fn` runs, so query spans become its children.
+ * Errors thrown by `fn` are recorded on the span and rethrown.
+ *
+ * @internal
+ */
+export async function traceTransaction<DB, T>(
+  instrumentation: TransactionInstrumentation,
+  db: Kysely<DB> | KyseraExecutor<DB> | DbContext<DB>,
+  fn: (ctx: DbContext<DB>) => Promise<T>,
+  options: TransactionOptionsWithLogger = {}
+): Promise<T> {
+  const { tracer } = instrumentation
+  if (!tracer) {
+    return await withTransaction(db, fn, options)
+  }
+
+  // Same check as withTransaction(): marked instances run nested calls in a savepoint
+  const actualDb = isDbContext<DB>(db) ? db.db : db
+  const nested = (actualDb as unknown as Record<symbol, unknown>)[IN_TRANSACTION_SYMBOL] === true
+
+  const attributes: Attributes = {
+    [ATTR_DB_SYSTEM]: instrumentation.dbSystem(actualDb as Kysely<unknown>)
+  }
+  if (!nested && options.isolationLevel) {
+    attributes[ATTR_KYSERA_ISOLATION_LEVEL] = options.isolationLevel
+  }
+
+  return await tracer.startActiveSpan(
+    nested ? SPAN_SAVEPOINT : SPAN_TRANSACTION,
+    { kind: SpanKind.CLIENT, attributes },
+    async span => {
+      try {
+        return await withTransaction(db, fn, options)
+      } catch (error) {
+        span.recordException(error instanceof Error ? error : String(error))
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: error instanceof Error ? error.message : String(error)
+        })
+        throw error
+      } finally {
+        span.end()
+      }
+    }
+  )
+}
@@ -0,0 +1,138 @@
+/**
+ * OpenTelemetry-compatible tracer and meter interfaces.
+ *
+ * These are the subsets of `Tracer`, `Span` and `Meter` from `@opentelemetry/api`
+ * that the plugin uses, so `trace.getTracer()` and `metrics.getMeter()` can be passed
+ * as they are, without this package depending on OpenTelemetry.
+ *
+ * @module @kysera/telemetry
+ */
+
+/**
+ * Span or metric attribute value
+ */
+export type AttributeValue =
+  | string
+  | number
+  | boolean
+  | (string | null | undefined)[]
+  | (number | null | undefined)[]
+  | (boolean | null | undefined)[]
+
+/**
+ * Span or metric attributes
+ */
+export type Attributes = Record<string, AttributeValue | undefined>
+
+/**
+ * Span kinds (values of OpenTelemetry's `SpanKind`)
+ */
+export const SpanKind = {
+  INTERNAL: 0,
+  SERVER: 1,
+  CLIENT: 2,
+  PRODUCER: 3,
+  CONSUMER: 4
+} as const
+
+/**
+ * Span status codes (values of OpenTelemetry's `SpanStatusCode`)
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2
+} as const
+
+/**
+ * Span status
+ */
+export interface SpanStatus {
+  code: number
+  message?: string
+}
+
+/**
+ * Options for starting a span
+ */
+export interface TelemetrySpanOptions {
+  kind?: number
+  attributes?: Attributes
+}
+
+/**
+ * Span, structurally compatible with OpenTelemetry's `Span`
+ */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: AttributeValue): this
+  setAttributes(attributes: Attributes): this
+  setStatus(status: SpanStatus): this
+  recordException(exception: Error | string): void
+  end(): void
+}
+
+/**
+ * Tracer, structurally compatible with OpenTelemetry's `Tracer`
+ */
+export interface TelemetryTracer {
+  /**
+   * Start a span that is a child of the active span
+   */
+  startSpan(name: string, options?: TelemetrySpanOptions): TelemetrySpan
+
+  /**
+   * Start a span and make it the active span while `fn` runs,
+   * so spans started inside `fn` (including across `await`) become its children
+   */
+  startActiveSpan<F extends (span: TelemetrySpan) => unknown>(
+    name: string,
+    options: TelemetrySpanOptions,
+    fn: F
+  ): ReturnType<F>
+}
+
+/**
+ * Options for creating an instrument
+ */
+export interface TelemetryInstrumentOptions {
+  description?: string
+  unit?: string
+}
+
+/**
+ * Histogram, structurally compatible with OpenTelemetry's `Histogram`
+ */
+export interface TelemetryHistogram {
+  record(value: number, attributes?: Attributes): void
+}
+
+/**
+ * Result passed to observable instrument callbacks
+ */
+export interface TelemetryObservableResult {
+  observe(value: number, attributes?: Attributes): void
+}
+
+/**
+ * Callback of an observable instrument, run on every metric collection
+ */
+export type TelemetryObservableCallback = (result: TelemetryObservableResult) => void
+
+/**
+ * Observable gauge, structurally compatible with OpenTelemetry's `ObservableGauge`
+ */
+export interface TelemetryObservableGauge {
+  addCallback(callback: TelemetryObservableCallback): void
+  removeCallback(callback: TelemetryObservableCallback): void
+}
+
+/**
+ * Meter, structurally compatible with OpenTelemetry's `Meter`
+ */
+export interface TelemetryMeter {
+  createHistogram(name: string, options?: TelemetryInstrumentOptions): TelemetryHistogram
+  createObservableGauge(
+    name: string,
+    options?: TelemetryInstrumentOptions
+  ): TelemetryObservableGauge
+}
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { Kysely, SqliteDialect } from 'kysely'
+import Database from 'better-sqlite3'
+import { metrics, trace } from '@opentelemetry/api'
+import { createExecutor, destroyExecutor, type KyseraExecutor } from '@kysera/executor'
+import type { MetricsPool } from '@kysera/infra/pool'
+import {
+  SpanKind,
+  SpanStatusCode,
+  telemetryPlugin,
+  type TelemetryMeter,
+  type TelemetryTracer
+} from '../src/index.js'
+import { InMemoryExporter } from '../src/testing.js'
+
+interface TestDatabase {
+  users: {
+    id?: number
+    email: string
+  }
+}
+
+describe('telemetryPlugin', () => {
+  let db: Kysely<TestDatabase>
+  let exporter: InMemoryExporter
+  let executor: KyseraExecutor<TestDatabase>
+  let telemetry: ReturnType<typeof telemetryPlugin>
+
+  beforeEach(async () => {
+    db = new Kysely<TestDatabase>({
+      dialect: new SqliteDialect({ database: new Database(':memory:') })
+    })
+    await db.schema
+      .createTable('users')
+      .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+      .addColumn('email', 'text', col => col.notNull())
+      .execute()
+
+    exporter = new InMemoryExporter()
+    telemetry = telemetryPlugin({ tracer: exporter.tracer, meter: exporter.meter })
+    executor = await createExecutor(db, [telemetry])
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+  })
+
+  it('should record a span per query', async () => {
+    await executor
+      .insertInto('users')
+      .values([{ email: 'a@example.com' }, { email: 'b@example.com' }])
+      .execute()
+    const rows = await executor.selectFrom('users').selectAll().where('id', '>', 0).execute()
+
+    expect(rows).toHaveLength(2)
+    expect(exporter.getFinishedSpans()).toMatchObject([
+      {
+        name: 'insert users',
+        kind: SpanKind.CLIENT,
+        parentSpanId: undefined,
+        status: { code: SpanStatusCode.UNSET },
+        attributes: {
+          'db.system': 'sqlite',
+          'db.operation': 'insert',
+          'db.sql.table': 'users',
+          'db.statement': 'insert into "users" ("email") values ($1) , ($2)',
+          'db.response.returned_rows': 0,
+          'kysera.affected_rows': 2
+        }
+      },
+      {
+        name: 'select users',
+        attributes: {
+          'db.system': 'sqlite',
+          'db.operation': 'select',
+          'db.sql.table': 'users',
+          'db.statement': 'select * from "users" where "id" > $1',
+          'db.response.returned_rows': 2
+        }
+      }
+    ])
+  })
+
+  it('should resolve aliased tables', async () => {
+    await executor.selectFrom('users as u').select('u.email').execute()
+
+    const [span] = exporter.getFinishedSpans()
+    expect(span?.name).toBe('select users')
+    expect(span?.attributes['db.sql.table']).toBe('users')
+  })
+
+  it('should record query durations in seconds', async () => {
+    await executor.selectFrom('users').selectAll().execute()
+    await executor.deleteFrom('users').execute()
+
+    const records = exporter.getHistogramRecords('db.client.operation.duration')
+    expect(records.map(record => record.attributes)).toEqual([
+      { 'db.system': 'sqlite', 'db.operation': 'select', 'db.sql.table': 'users' },
+      { 'db.system': 'sqlite', 'db.operation': 'delete', 'db.sql.table': 'users' }
+    ])
+    for (const { value } of records) {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+
+  it('should leave out the statement when disabled', async () => {
+    const quiet = await createExecutor(db, [
+      telemetryPlugin({ tracer: exporter.tracer, includeStatement: false, dbSystem: 'other_sql' })
+    ])
+
+    await quiet.selectFrom('users').selectAll().execute()
+
+    const [span] = exporter.getFinishedSpans()
+    expect(span?.attributes).not.toHaveProperty('db.statement')
+    expect(span?.attributes['db.system']).toBe('other_sql')
+  })
+
+  it('should nest query spans under transaction and savepoint spans', async () => {
+    await telemetry.withTransaction(executor, async ctx => {
+      await ctx.db.insertInto('users').values({ email: 'a@example.com' }).execute()
+
+      await telemetry.withTransaction(ctx, async nested => {
+        await nested.db.selectFrom('users').selectAll().execute()
+      })
+    })
+
+    const spans = exporter.getFinishedSpans()
+    expect(spans.map(span => span.name)).toEqual([
+      'insert users',
+      'select users',
+      'savepoint',
+      'transaction'
+    ])
+
+    const [insert, select, savepoint, transaction] = spans
+    expect(transaction).toMatchObject({
+      parentSpanId: undefined,
+      kind: SpanKind.CLIENT,
+      attributes: { 'db.system': 'sqlite' },
+      status: { code: SpanStatusCode.UNSET }
+    })
+    expect(insert?.parentSpanId).toBe(transaction?.spanId)
+    expect(savepoint?.parentSpanId).toBe(transaction?.spanId)
+    expect(select?.parentSpanId).toBe(savepoint?.spanId)
+  })
+
+  it('should record errors on transaction spans', async () => {
+    const failure = new Error('Profile validation failed')
+
+    await telemetry.withTransaction(executor, async ctx => {
+      await ctx.db.insertInto('users').values({ email: 'a@example.com' }).execute()
+
+      await expect(
+        telemetry.withTransaction(ctx, async nested => {
+          await nested.db.insertInto('users').values({ email: 'b@example.com' }).execute()
+          throw failure
+        })
+      ).rejects.toBe(failure)
+    })
+
+    const savepoint = exporter.getFinishedSpans().find(span => span.name === 'savepoint')
+    expect(savepoint).toMatchObject({
+      status: { code: SpanStatusCode.ERROR, message: 'Profile validation failed' },
+      exceptions: [failure]
+    })
+    expect(exporter.getFinishedSpans().find(span => span.name === 'transaction')?.status).toEqual({
+      code: SpanStatusCode.UNSET
+    })
+    expect(await db.selectFrom('users').select('email').execute()).toEqual([
+      { email: 'a@example.com' }
+    ])
+  })
+
+  it('should run transactions without a tracer', async () => {
+    const untraced = telemetryPlugin()
+
+    const count = await untraced.withTransaction(executor, async ctx => {
+      await ctx.db.insertInto('users').values({ email: 'a@example.com' }).execute()
+      return (await ctx.db.selectFrom('users').selectAll().execute()).length
+    })
+
+    expect(count).toBe(1)
+    // Queries are still traced by the executor's own plugin
+    expect(exporter.getFinishedSpans().map(span => span.name)).toEqual([
+      'insert users',
+      'select users'
+    ])
+  })
+
+  it('should report pool metrics as gauges until the executor is destroyed', async () => {
+    const pool: MetricsPool = {
+      end: () => undefined,
+      getMetrics: () => ({ total: 10, idle: 7, active: 3, waiting: 2 })
+    }
+    const pooled = await createExecutor(db, [
+      telemetryPlugin({ meter: exporter.meter, pool, dbSystem: 'postgresql' })
+    ])
+
+    expect(exporter.collectGauges()).toEqual([
+      {
+        name: 'db.client.connection.count',
+        value: 7,
+        attributes: { 'db.system': 'postgresql', 'db.client.connection.state': 'idle' }
+      },
+      {
+        name: 'db.client.connection.count',
+        value: 3,
+        attributes: { 'db.system': 'postgresql', 'db.client.connection.state': 'used' }
+      },
+      {
+        name: 'db.client.connection.pending_requests',
+        value: 2,
+        attributes: { 'db.system': 'postgresql' }
+      }
+    ])
+
+    await destroyExecutor(pooled)
+    expect(exporter.collectGauges()).toEqual([])
+  })
+
+  it('should accept OpenTelemetry tracers and meters', async () => {
+    const tracer: TelemetryTracer = trace.getTracer('kysera-test')
+    const meter: TelemetryMeter = metrics.getMeter('kysera-test')
+    const otelExecutor = await createExecutor(db, [telemetryPlugin({ tracer, meter })])
+
+    await otelExecutor.insertInto('users').values({ email: 'a@example.com' }).execute()
+    const rows = await otelExecutor.selectFrom('users').selectAll().execute()
+
+    expect(rows).toEqual([{ id: 1, email: 'a@example.com' }])
+  })
+})
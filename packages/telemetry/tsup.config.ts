@@ -0,0 +1,30 @@
+import { defineConfig } from 'tsup'
+import { readFileSync } from 'node:fs'
+
+const pkg = JSON.parse(readFileSync('./package.json', 'utf-8'))
+
+export default defineConfig({
+  entry: ['src/index.ts', 'src/testing.ts'],
+  format: ['esm'],
+  dts: true,
+  splitting: false,
+  sourcemap: true,
+  clean: true,
+  minify: true,
+  treeshake: true,
+  external: [
+    'kysely',
+    '@kysera/core',
+    '@kysera/dal',
+    '@kysera/debug',
+    '@kysera/executor',
+    '@kysera/infra',
+    'node:async_hooks'
+  ],
+  target: 'esnext',
+  platform: 'neutral',
+  tsconfig: './tsconfig.build.json',
+  define: {
+    __VERSION__: JSON.stringify(pkg.version)
+  }
+})
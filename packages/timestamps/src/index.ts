@@ -1,10 +1,11 @@
-import type { Plugin } from '@kysera/executor'
+import type { Plugin, QueryBuilderContext } from '@kysera/executor'
 import { isRepositoryLike } from '@kysera/executor'
 import type { Repository } from '@kysera/repository'
 import type { Kysely, SelectQueryBuilder } from 'kysely'
-import { silentLogger, detectDialect, formatTimestampForDb, shouldApplyToTable } from '@kysera/core'
+import { silentLogger, detectDialect, formatTimestampForDb, shouldApplyToTable, resolveTableName } from '@kysera/core'
 import type { KyseraLogger, Dialect } from '@kysera/core'
 import { VERSION } from './version.js'
+import { TimestampsInjectionPlugin } from './query-injection.js'
 
 /**
  * Database schema with timestamp columns
@@ -30,6 +31,13 @@ export interface TimestampMethods<T> {
   touchMany(ids: (number | string)[]): Promise<void>
 }
 
+/**
+ * Where timestamps are applied
+ * - `'repository'`: overrides repository create/update methods
+ * - `'query'`: also injects timestamp columns into every INSERT/UPDATE built through the executor
+ */
+export type TimestampsMode = 'repository' | 'query'
+
 /**
  * Options for the timestamps plugin
  */
@@ -52,6 +60,15 @@ export interface TimestampsOptions {
    */
   setUpdatedAtOnInsert?: boolean
 
+  /**
+   * Timestamp mode.
+   * Use `'query'` to maintain timestamps for `@kysera/dal` queries and direct executor writes:
+   * `updatedAtColumn` is added to UPDATE and upsert (`onConflict ... doUpdateSet`) queries and
+   * `createdAtColumn` to INSERT queries, unless the query already sets them.
+   * @default 'repository'
+   */
+  mode?: TimestampsMode
+
   /**
    * List of tables that should have timestamps
    * If not specified, all tables will have timestamps
@@ -123,6 +140,11 @@ function shouldApplyTimestamps(tableName: string, options: TimestampsOptions): b
   return shouldApplyToTable(tableName, { tables: options.tables, excludeTables: options.excludeTables })
 }
 
+/**
+ * Executor operations that receive timestamp columns in query mode
+ */
+const INJECTED_OPERATIONS = new Set<QueryBuilderContext['operation']>(['insert', 'replace', 'update'])
+
 /**
  * Type-safe query builder for timestamp operations
  */
@@ -244,20 +266,49 @@ export const timestampsPlugin = (options: TimestampsOptions = {}): Plugin => {
     createdAtColumn = 'created_at',
     updatedAtColumn = 'updated_at',
     setUpdatedAtOnInsert = false,
+    mode = 'repository',
     primaryKeyColumn = 'id',
     logger = silentLogger
   } = options
 
+  // Dialect of the executor, detected in onInit for query mode
+  let executorDialect: Dialect | undefined
+
+  const injectionPlugin = new TimestampsInjectionPlugin({
+    createdAtColumn,
+    updatedAtColumn,
+    setUpdatedAtOnInsert,
+    getTimestamp: () => getTimestamp(options, executorDialect)
+  })
+
+  /**
+   * Query mode: attach the injection plugin to INSERT/UPDATE builders of timestamped tables
+   */
+  const interceptQuery = <QB>(qb: QB, context: QueryBuilderContext): QB => {
+    if (!INJECTED_OPERATIONS.has(context.operation)) {
+      return qb
+    }
+    if (!shouldApplyTimestamps(resolveTableName(context.table), options)) {
+      return qb
+    }
+    return (qb as unknown as { withPlugin(plugin: TimestampsInjectionPlugin): QB }).withPlugin(injectionPlugin)
+  }
+
   return {
     name: '@kysera/timestamps',
     version: VERSION,
     priority: 100, // TRANSFORM plugin: runs after security (1000) and filters (500), before audit (50)
 
+    // Only register an interceptor in query mode, so repository mode keeps the executor's fast path
+    ...(mode === 'query' && { interceptQuery }),
+
     /**
-     * Lifecycle: No initialization needed for timestamps plugin
+     * Lifecycle: detect the dialect used to format injected timestamps
      */
-    onInit() {
-      // No initialization required
+    onInit<DB>(executor: Kysely<DB>) {
+      if (mode === 'query') {
+        executorDialect = detectDialect(executor)
+      }
     },
 
     /**
@@ -0,0 +1,110 @@
+/**
+ * Timestamp injection for executor queries (`timestampsPlugin({ mode: 'query' })`).
+ *
+ * `interceptQuery` runs when `insertInto()`/`updateTable()` is called, before
+ * `values()`/`set()`. The columns are therefore added by a Kysely plugin attached
+ * to the builder, which sees the final query tree at compile time.
+ *
+ * @module @kysera/timestamps
+ */
+
+import {
+  ColumnNode,
+  ColumnUpdateNode,
+  InsertQueryNode,
+  OnConflictNode,
+  OnDuplicateKeyNode,
+  UpdateQueryNode,
+  ValueNode,
+  type KyselyPlugin,
+  type PluginTransformQueryArgs,
+  type PluginTransformResultArgs,
+  type QueryResult,
+  type RootOperationNode,
+  type UnknownRow
+} from 'kysely'
+import { updatedColumnName, withInsertColumn } from '@kysera/core'
+
+/**
+ * Options for timestamp injection
+ */
+export interface TimestampInjectionOptions {
+  createdAtColumn: string
+  updatedAtColumn: string
+  setUpdatedAtOnInsert: boolean
+  /** Timestamp value for the query being compiled */
+  getTimestamp: () => Date | string | number
+}
+
+/**
+ * Append `column = timestamp` unless the caller already set the column
+ */
+function withColumnUpdate(
+  updates: readonly ColumnUpdateNode[],
+  column: string,
+  timestamp: Date | string | number
+): readonly ColumnUpdateNode[] {
+  if (updates.some(update => updatedColumnName(update.column) === column)) {
+    return updates
+  }
+  return [...updates, ColumnUpdateNode.create(ColumnNode.create(column), ValueNode.create(timestamp))]
+}
+
+/**
+ * Kysely plugin that fills in created_at/updated_at columns the caller did not set.
+ *
+ * @internal Attached by timestampsPlugin().interceptQuery to INSERT and UPDATE builders
+ */
+export class TimestampsInjectionPlugin implements KyselyPlugin {
+  constructor(private readonly options: TimestampInjectionOptions) {}
+
+  transformQuery(args: PluginTransformQueryArgs): RootOperationNode {
+    const { node } = args
+    if (UpdateQueryNode.is(node)) {
+      return this.transformUpdate(node)
+    }
+    if (InsertQueryNode.is(node)) {
+      return this.transformInsert(node)
+    }
+    return node
+  }
+
+  transformResult(args: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    return Promise.resolve(args.result)
+  }
+
+  private transformUpdate(node: UpdateQueryNode): UpdateQueryNode {
+    if (!node.updates) return node
+    const timestamp = this.options.getTimestamp()
+    return { ...node, updates: withColumnUpdate(node.updates, this.options.updatedAtColumn, timestamp) }
+  }
+
+  private transformInsert(node: InsertQueryNode): InsertQueryNode {
+    const { createdAtColumn, updatedAtColumn, setUpdatedAtOnInsert } = this.options
+    const timestamp = this.options.getTimestamp()
+    let result = withInsertColumn(node, createdAtColumn, timestamp)
+    if (setUpdatedAtOnInsert) {
+      result = withInsertColumn(result, updatedAtColumn, timestamp)
+    }
+
+    // Upserts: on conflict do update set / on duplicate key update
+    if (result.onConflict?.updates) {
+      result = {
+        ...result,
+        onConflict: OnConflictNode.cloneWith(result.onConflict, {
+          updates: withColumnUpdate(result.onConflict.updates, updatedAtColumn, timestamp)
+        })
+      }
+    }
+    if (result.onDuplicateKey) {
+      result = {
+        ...result,
+        onDuplicateKey: OnDuplicateKeyNode.create(
+          withColumnUpdate(result.onDuplicateKey.updates, updatedAtColumn, timestamp)
+        )
+      }
+    }
+
+    return result
+  }
+}
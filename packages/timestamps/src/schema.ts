@@ -31,6 +31,7 @@ export const TimestampsOptionsSchema = z.object({
   createdAtColumn: z.string().optional(),
   updatedAtColumn: z.string().optional(),
   setUpdatedAtOnInsert: z.boolean().optional(),
+  mode: z.enum(['repository', 'query']).optional(),
   tables: z.array(z.string()).optional(),
   excludeTables: z.array(z.string()).optional(),
   getTimestamp: z.function().optional(),
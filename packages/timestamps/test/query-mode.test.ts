@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { Kysely, SqliteDialect, sql } from 'kysely'
+import Database from 'better-sqlite3'
+import { createExecutor } from '@kysera/executor'
+import { timestampsPlugin } from '../src/index.js'
+
+interface TestDatabase {
+  users: {
+    id?: number
+    name: string
+    email: string
+    created_at?: string | number | null
+    updated_at?: string | number | null
+  }
+  config: {
+    key: string
+    value: string
+  }
+}
+
+const FIXED_TIMESTAMP = '2024-06-01 12:00:00.000'
+
+describe('Timestamps Plugin - query mode', () => {
+  let db: Kysely<TestDatabase>
+
+  beforeEach(async () => {
+    db = new Kysely<TestDatabase>({
+      dialect: new SqliteDialect({ database: new Database(':memory:') })
+    })
+
+    await db.schema
+      .createTable('users')
+      .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+      .addColumn('name', 'text', col => col.notNull())
+      .addColumn('email', 'text', col => col.notNull().unique())
+      .addColumn('created_at', 'text')
+      .addColumn('updated_at', 'text')
+      .execute()
+
+    await db.schema
+      .createTable('config')
+      .addColumn('key', 'text', col => col.primaryKey())
+      .addColumn('value', 'text', col => col.notNull())
+      .execute()
+
+    await db
+      .insertInto('users')
+      .values([
+        { name: 'Alice', email: 'alice@example.com' },
+        { name: 'Bob', email: 'bob@example.com' }
+      ])
+      .execute()
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+  })
+
+  async function getUsers() {
+    return await db.selectFrom('users').selectAll().orderBy('id').execute()
+  }
+
+  describe('UPDATE', () => {
+    it('should set updated_at on executor updates', async () => {
+      const executor = await createExecutor(db, [
+        timestampsPlugin({ mode: 'query', getTimestamp: () => FIXED_TIMESTAMP })
+      ])
+
+      await executor.updateTable('users').set({ name: 'Alicia' }).where('id', '=', 1).execute()
+
+      const [alice, bob] = await getUsers()
+      expect(alice?.updated_at).toBe(FIXED_TIMESTAMP)
+      expect(bob?.updated_at).toBeNull()
+    })
+
+    it('should keep an updated_at set by the caller', async () => {
+      const executor = await createExecutor(db, [
+        timestampsPlugin({ mode: 'query', getTimestamp: () => FIXED_TIMESTAMP })
+      ])
+
+      await executor.updateTable('users').set({ name: 'Alicia', updated_at: 'manual' }).where('id', '=', 1).execute()
+
+      const [alice] = await getUsers()
+      expect(alice?.updated_at).toBe('manual')
+    })
+
+    it('should handle aliased tables and multi-row updates', async () => {
+      const executor = await createExecutor(db, [
+        timestampsPlugin({ mode: 'query', getTimestamp: () => FIXED_TIMESTAMP })
+      ])
+
+      await executor.updateTable('users as u').set({ name: sql`upper(u.name)` }).execute()
+
+      const users = await getUsers()
+      expect(users.map(user => user.updated_at)).toEqual([FIXED_TIMESTAMP, FIXED_TIMESTAMP])
+    })
+
+    it('should not touch created_at on updates', async () => {
+      const executor = await createExecutor(db, [timestampsPlugin({ mode: 'query' })])
+
+      const query = executor.updateTable('users').set({ name: 'Alicia' }).where('id', '=', 1)
+
+      expect(query.compile().sql).toBe('update "users" set "name" = ?, "updated_at" = ? where "id" = ?')
+    })
+  })
+
+  describe('INSERT', () => {
+    it('should set created_at on executor inserts', async () => {
+      const executor = await createExecutor(db, [
+        timestampsPlugin({ mode: 'query', getTimestamp: () => FIXED_TIMESTAMP })
+      ])
+
+      await executor
+        .insertInto('users')
+        .values([
+          { name: 'Charlie', email: 'charlie@example.com' },
+          { name: 'Dave', email: 'dave@example.com', created_at: 'manual' }
+        ])
+        .execute()
+
+      const users = await getUsers()
+      expect(users[2]?.created_at).toBe(FIXED_TIMESTAMP)
+      // Rows that set the column keep the caller's value
+      expect(users[3]?.created_at).toBe('manual')
+      expect(users[2]?.updated_at).toBeNull()
+    })
+
+    it('should set updated_at on insert with setUpdatedAtOnInsert', async () => {
+      const executor = await createExecutor(db, [
+        timestampsPlugin({ mode: 'query', setUpdatedAtOnInsert: true, getTimestamp: () => FIXED_TIMESTAMP })
+      ])
+
+      await executor.insertInto('users').values({ name: 'Charlie', email: 'charlie@example.com' }).execute()
+
+      const users = await getUsers()
+      expect(users[2]).toMatchObject({ created_at: FIXED_TIMESTAMP, updated_at: FIXED_TIMESTAMP })
+    })
+
+    it('should set updated_at in upserts', async () => {
+      const executor = await createExecutor(db, [
+        timestampsPlugin({ mode: 'query', getTimestamp: () => FIXED_TIMESTAMP })
+      ])
+
+      await executor
+        .insertInto('users')
+        .values({ name: 'Alice Updated', email: 'alice@example.com' })
+        .onConflict(oc => oc.column('email').doUpdateSet({ name: eb => eb.ref('excluded.name') }))
+        .execute()
+
+      const [alice] = await getUsers()
+      expect(alice?.name).toBe('Alice Updated')
+      expect(alice?.updated_at).toBe(FIXED_TIMESTAMP)
+    })
+
+    it('should leave on conflict do nothing untouched', async () => {
+      const executor = await createExecutor(db, [timestampsPlugin({ mode: 'query' })])
+
+      const query = executor
+        .insertInto('users')
+        .values({ name: 'Alice', email: 'alice@example.com' })
+        .onConflict(oc => oc.doNothing())
+
+      expect(query.compile().sql).toBe(
+        'insert into "users" ("name", "email", "created_at") values (?, ?, ?) on conflict do nothing'
+      )
+    })
+  })
+
+  describe('configuration', () => {
+    it('should respect tables and excludeTables', async () => {
+      const executor = await createExecutor(db, [timestampsPlugin({ mode: 'query', excludeTables: ['config'] })])
+
+      const query = executor.insertInto('config').values({ key: 'theme', value: 'dark' })
+
+      expect(query.compile().sql).toBe('insert into "config" ("key", "value") values (?, ?)')
+    })
+
+    it('should use dateFormat when no getTimestamp is provided', async () => {
+      const executor = await createExecutor(db, [timestampsPlugin({ mode: 'query', dateFormat: 'unix' })])
+      const before = Math.floor(Date.now() / 1000)
+
+      await executor.updateTable('users').set({ name: 'Alicia' }).where('id', '=', 1).execute()
+
+      const [alice] = await getUsers()
+      expect(Number(alice?.updated_at)).toBeGreaterThanOrEqual(before)
+    })
+
+    it('should use custom column names', async () => {
+      const executor = await createExecutor(db, [
+        timestampsPlugin({ mode: 'query', createdAtColumn: 'created', updatedAtColumn: 'modified' })
+      ])
+
+      const query = executor.updateTable('users').set({ name: 'Alicia' })
+
+      expect(query.compile().sql).toBe('update "users" set "name" = ?, "modified" = ?')
+    })
+
+    it('should not inject timestamps in repository mode', async () => {
+      const executor = await createExecutor(db, [timestampsPlugin()])
+
+      await executor.updateTable('users').set({ name: 'Alicia' }).where('id', '=', 1).execute()
+
+      const [alice] = await getUsers()
+      expect(alice?.updated_at).toBeNull()
+    })
+
+    it('should apply inside transactions', async () => {
+      const executor = await createExecutor(db, [
+        timestampsPlugin({ mode: 'query', getTimestamp: () => FIXED_TIMESTAMP })
+      ])
+
+      await executor.transaction().execute(async trx => {
+        await trx.updateTable('users').set({ name: 'Bobby' }).where('id', '=', 2).execute()
+      })
+
+      const [, bob] = await getUsers()
+      expect(bob?.updated_at).toBe(FIXED_TIMESTAMP)
+    })
+  })
+})
@@ -692,6 +692,7 @@ describe('TimestampsOptionsSchema', () => {
       expect(shape).toHaveProperty('createdAtColumn')
       expect(shape).toHaveProperty('updatedAtColumn')
       expect(shape).toHaveProperty('setUpdatedAtOnInsert')
+      expect(shape).toHaveProperty('mode')
       expect(shape).toHaveProperty('tables')
       expect(shape).toHaveProperty('excludeTables')
       expect(shape).toHaveProperty('getTimestamp')
@@ -699,15 +700,16 @@ describe('TimestampsOptionsSchema', () => {
       expect(shape).toHaveProperty('primaryKeyColumn')
     })
 
-    it('should have exactly 8 keys', () => {
+    it('should have exactly 9 keys', () => {
       const shape = TimestampsOptionsSchema.shape
       const keys = Object.keys(shape)
 
-      expect(keys).toHaveLength(8)
+      expect(keys).toHaveLength(9)
       expect(keys).toEqual([
         'createdAtColumn',
         'updatedAtColumn',
         'setUpdatedAtOnInsert',
+        'mode',
         'tables',
         'excludeTables',
         'getTimestamp',
@@ -0,0 +1,349 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { Plugin, QueryBuilderContext } from '@kysera/executor'
+import { isRepositoryLike } from '@kysera/executor'
+import type { Repository } from '@kysera/repository'
+import type { Kysely } from 'kysely'
+import {
+  silentLogger,
+  shouldApplyToTable,
+  BadRequestError,
+  NotFoundError,
+  OptimisticLockError,
+  resolveTableName
+} from '@kysera/core'
+import type { KyseraLogger } from '@kysera/core'
+import { VERSION } from './version.js'
+import { VersionGuardPlugin, VersionInjectionPlugin } from './version-injection.js'
+
+/**
+ * Database schema with a version column
+ */
+type VersionedTable = Record<string, unknown>
+
+/**
+ * Options for updateWithRetry()
+ */
+export interface UpdateWithRetryOptions {
+  /**
+   * Number of retries after a version conflict (overrides the plugin's `maxRetries`)
+   */
+  maxRetries?: number
+}
+
+/**
+ * Versioning methods added to repositories
+ */
+export interface VersioningMethods<T> {
+  /**
+   * Read the record, apply `mutate` and write the result with a version check.
+   * On a version conflict the record is re-read and `mutate` runs again,
+   * up to `maxRetries` times before the OptimisticLockError is rethrown.
+   */
+  updateWithRetry(
+    id: number | string,
+    mutate: (current: T) => Partial<T> | Promise<Partial<T>>,
+    options?: UpdateWithRetryOptions
+  ): Promise<T>
+  getVersionColumn(): string
+}
+
+/**
+ * Options for the versioning plugin
+ */
+export interface VersioningOptions {
+  /**
+   * Tables that have a version column.
+   * Required: every INSERT and UPDATE on these tables is rewritten,
+   * so tables without the column must not be listed.
+   */
+  tables: string[]
+
+  /**
+   * Name of the version column
+   * @default 'version'
+   */
+  versionColumn?: string
+
+  /**
+   * Version assigned to inserted rows that don't set one
+   * @default 1
+   */
+  initialVersion?: number
+
+  /**
+   * Name of the primary key column used to look up current versions
+   * @default 'id'
+   */
+  primaryKeyColumn?: string
+
+  /**
+   * Default number of retries for updateWithRetry()
+   * @default 3
+   */
+  maxRetries?: number
+
+  /**
+   * Logger for plugin operations.
+   * Uses KyseraLogger interface from @kysera/core.
+   *
+   * @default silentLogger (no output)
+   */
+  logger?: KyseraLogger
+}
+
+/**
+ * Versioning plugin, with the explicit compare-and-set for executor queries
+ */
+export interface VersioningPlugin extends Plugin {
+  /**
+   * Make an UPDATE builder a compare-and-set: it only matches rows at
+   * `expectedVersion`, and throws OptimisticLockError when no row matched.
+   * The version is still incremented unless the update sets it.
+   */
+  expectVersion<QB>(qb: QB, expectedVersion: number): QB
+}
+
+/**
+ * Repository extended with versioning methods
+ */
+export type VersionedRepository<Entity, DB> = Repository<Entity, DB> & VersioningMethods<Entity>
+
+/**
+ * Executor operations that maintain the version column
+ */
+const VERSIONED_OPERATIONS = new Set<QueryBuilderContext['operation']>(['insert', 'replace', 'update'])
+
+/**
+ * Expected version of a repository update, claimed by the first UPDATE
+ * of its table made while the update runs
+ */
+interface PendingVersionCheck {
+  table: string
+  expectedVersion: number
+  claimed: boolean
+}
+
+/**
+ * Read the expected version passed with update input.
+ * Drivers may return integer columns as bigint or string (e.g. PostgreSQL int8).
+ */
+function parseExpectedVersion(value: unknown, versionColumn: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+  const version = typeof value === 'number' ? value : Number(value)
+  if (!Number.isInteger(version)) {
+    throw new BadRequestError(`Invalid ${versionColumn}: expected an integer, got ${String(value)}`)
+  }
+  return version
+}
+
+/**
+ * Versioning Plugin
+ *
+ * Optimistic concurrency control through a version column.
+ *
+ * ## How it works
+ *
+ * - INSERTs into versioned tables initialise the version column (`initialVersion`)
+ * - UPDATEs that don't set the version column increment it (`version = version + 1`)
+ * - Version checks are only made when asked for: an UPDATE guarded with
+ *   {@link VersioningPlugin.expectVersion} only applies when the row is still at the
+ *   expected version, and throws {@link OptimisticLockError} when no row matched
+ *
+ * Repository `update()`/`bulkUpdate()` take the version the caller read as the expected
+ * version: `repo.update(id, { ...changes, version: entity.version })`. Without a version in
+ * the input the update is applied unconditionally (the version is still incremented).
+ *
+ * The rewrite happens at the executor level, so it also applies to `@kysera/dal` queries
+ * and other plugins' writes through the executor, like the repository's own queries.
+ * Setting the version column in an executor query (`set({ version: 5 })`) writes that
+ * value as is, without a check.
+ *
+ * @example
+ * ```typescript
+ * import { versioningPlugin } from '@kysera/versioning'
+ *
+ * const versioning = versioningPlugin({ tables: ['documents'] })
+ * const orm = await createORM(db, [versioning])
+ * const docs = orm.createRepository(createDocumentRepository)
+ *
+ * const doc = await docs.findById(1)
+ * await docs.update(1, { title: 'Draft 2', version: doc.version }) // throws OptimisticLockError on conflict
+ *
+ * // Re-read and re-apply the change on conflicts
+ * await docs.updateWithRetry(1, current => ({ views: current.views + 1 }))
+ *
+ * // Compare-and-set in an executor query
+ * const rename = orm.executor.updateTable('documents').set({ title: 'Final' }).where('id', '=', 1)
+ * await versioning.expectVersion(rename, doc.version).execute()
+ * ```
+ */
+export const versioningPlugin = (options: VersioningOptions): VersioningPlugin => {
+  const {
+    versionColumn = 'version',
+    initialVersion = 1,
+    primaryKeyColumn = 'id',
+    maxRetries = 3,
+    logger = silentLogger
+  } = options
+
+  const shouldApplyVersioning = (tableName: string): boolean =>
+    shouldApplyToTable(tableName, { tables: options.tables })
+
+  const injectionPlugin = new VersionInjectionPlugin({ versionColumn, initialVersion })
+  const pendingChecks = new AsyncLocalStorage<PendingVersionCheck>()
+
+  const expectVersion = <QB>(qb: QB, expectedVersion: number): QB =>
+    (qb as unknown as { withPlugin(plugin: VersionGuardPlugin): QB }).withPlugin(
+      new VersionGuardPlugin(versionColumn, expectedVersion)
+    )
+
+  return {
+    name: '@kysera/versioning',
+    version: VERSION,
+    priority: 100, // TRANSFORM plugin: runs after security (1000) and filters (500), before audit (50)
+
+    interceptQuery<QB>(qb: QB, context: QueryBuilderContext): QB {
+      if (!VERSIONED_OPERATIONS.has(context.operation)) {
+        return qb
+      }
+      const table = resolveTableName(context.table)
+      if (!shouldApplyVersioning(table)) {
+        return qb
+      }
+      const injected = (qb as unknown as { withPlugin(plugin: VersionInjectionPlugin): QB }).withPlugin(
+        injectionPlugin
+      )
+
+      const pending = pendingChecks.getStore()
+      if (context.operation === 'update' && pending && !pending.claimed && pending.table === table) {
+        pending.claimed = true
+        return expectVersion(injected, pending.expectedVersion)
+      }
+      return injected
+    },
+
+    expectVersion,
+
+    /**
+     * Lifecycle: Cleanup resources when executor is destroyed
+     */
+    onDestroy() {
+      logger.debug('Versioning plugin destroyed')
+    },
+
+    extendRepository<T extends object>(repo: T): T {
+      if (!isRepositoryLike(repo)) {
+        return repo
+      }
+
+      const baseRepo = repo as T & {
+        tableName: string
+        executor: Kysely<Record<string, VersionedTable>>
+        findById: (id: unknown) => Promise<unknown>
+        update: (id: unknown, input: unknown) => Promise<unknown>
+      }
+
+      if (!shouldApplyVersioning(baseRepo.tableName)) {
+        logger.debug(`Table ${baseRepo.tableName} is not versioned, skipping extension`)
+        return repo
+      }
+
+      logger.debug(`Extending repository for table ${baseRepo.tableName} with versioning methods`)
+
+      const originalUpdate = baseRepo.update.bind(baseRepo)
+      const { executor, tableName } = baseRepo
+
+      /**
+       * Current version of a record, or undefined if it doesn't exist
+       */
+      const getCurrentVersion = async (id: number | string): Promise<number | null | undefined> => {
+        const row = await executor
+          .selectFrom(tableName as never)
+          .select(versionColumn as never)
+          .where(primaryKeyColumn as never, '=', id as never)
+          .executeTakeFirst()
+        if (!row) return undefined
+        const version = (row as Record<string, unknown>)[versionColumn]
+        return version === null || version === undefined ? null : Number(version)
+      }
+
+      const extendedRepo = {
+        ...baseRepo,
+
+        // Override update to check the expected version
+        async update(id: number | string, input: unknown): Promise<unknown> {
+          const data = input as Record<string, unknown>
+          const expectedVersion = parseExpectedVersion(data[versionColumn], versionColumn)
+
+          if (expectedVersion === undefined) {
+            return await originalUpdate(id, input)
+          }
+
+          // The repository's UPDATE claims the check and only matches rows at expectedVersion
+          const pending: PendingVersionCheck = { table: tableName, expectedVersion, claimed: false }
+          try {
+            return await pendingChecks.run(pending, () =>
+              originalUpdate(id, { ...data, [versionColumn]: expectedVersion + 1 })
+            )
+          } catch (error) {
+            if (!(error instanceof OptimisticLockError)) {
+              throw error
+            }
+            const currentVersion = await getCurrentVersion(id)
+            if (currentVersion === undefined) {
+              throw new NotFoundError('Record', { id })
+            }
+            logger.debug(
+              `Version conflict on ${tableName} record ${id}: expected ${expectedVersion}, found ${currentVersion}`
+            )
+            throw new OptimisticLockError(tableName, id, expectedVersion, currentVersion)
+          }
+        },
+
+        // Override bulkUpdate so each row gets its own version check
+        async bulkUpdate(updates: { id: number | string; data: unknown }[]): Promise<unknown[]> {
+          const results: unknown[] = []
+          for (const { id, data } of updates) {
+            results.push(await extendedRepo.update(id, data))
+          }
+          return results
+        },
+
+        async updateWithRetry(
+          id: number | string,
+          mutate: (current: unknown) => unknown,
+          retryOptions: UpdateWithRetryOptions = {}
+        ): Promise<unknown> {
+          const retries = retryOptions.maxRetries ?? maxRetries
+
+          for (let attempt = 0; ; attempt++) {
+            const current = await baseRepo.findById(id)
+            if (!current) {
+              throw new NotFoundError('Record', { id })
+            }
+
+            const changes = (await mutate(current)) as Record<string, unknown>
+            const version = (current as Record<string, unknown>)[versionColumn]
+
+            try {
+              return await extendedRepo.update(id, { ...changes, [versionColumn]: version })
+            } catch (error) {
+              if (!(error instanceof OptimisticLockError) || attempt >= retries) {
+                throw error
+              }
+              logger.debug(`Retrying update of ${tableName} record ${id} (attempt ${attempt + 2})`)
+            }
+          }
+        },
+
+        getVersionColumn(): string {
+          return versionColumn
+        }
+      }
+
+      return extendedRepo as T
+    }
+  }
+}
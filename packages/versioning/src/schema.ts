@@ -0,0 +1,40 @@
+/**
+ * Zod schemas for versioning plugin configuration.
+ * This file is separate from the main index to allow the package to work without Zod installed.
+ * Only import this file if you need Zod validation (e.g., for CLI or configuration validation).
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod'
+
+/**
+ * Zod schema for VersioningOptions
+ * Used for validation and configuration in the kysera-cli
+ *
+ * @example
+ * ```typescript
+ * import { VersioningOptionsSchema } from '@kysera/versioning/schema'
+ *
+ * const result = VersioningOptionsSchema.safeParse({
+ *   tables: ['documents', 'orders'],
+ *   versionColumn: 'version'
+ * })
+ *
+ * if (result.success) {
+ *   console.log('Valid options:', result.data)
+ * }
+ * ```
+ */
+export const VersioningOptionsSchema = z.object({
+  tables: z.array(z.string()),
+  versionColumn: z.string().optional(),
+  initialVersion: z.number().int().optional(),
+  primaryKeyColumn: z.string().optional(),
+  maxRetries: z.number().int().nonnegative().optional()
+})
+
+/**
+ * Type inferred from VersioningOptionsSchema
+ */
+export type VersioningOptionsSchemaType = z.infer<typeof VersioningOptionsSchema>
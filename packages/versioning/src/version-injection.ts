@@ -0,0 +1,157 @@
+/**
+ * Version column maintenance for executor queries.
+ *
+ * `interceptQuery` runs when `insertInto()`/`updateTable()` is called, before
+ * `values()`/`set()`. The version column is therefore handled by a Kysely plugin
+ * attached to the builder, which sees the final query tree at compile time.
+ *
+ * @module @kysera/versioning
+ */
+
+import {
+  AliasNode,
+  BinaryOperationNode,
+  ColumnNode,
+  ColumnUpdateNode,
+  InsertQueryNode,
+  OperatorNode,
+  TableNode,
+  UpdateQueryNode,
+  ValueNode,
+  WhereNode,
+  type KyselyPlugin,
+  type QueryId,
+  type OperationNode,
+  type PluginTransformQueryArgs,
+  type PluginTransformResultArgs,
+  type QueryResult,
+  type RootOperationNode,
+  type UnknownRow
+} from 'kysely'
+import { OptimisticLockError, updatedColumnName, withInsertColumn } from '@kysera/core'
+
+/**
+ * Options for version injection
+ */
+export interface VersionInjectionOptions {
+  versionColumn: string
+  initialVersion: number
+}
+
+/**
+ * Version check added to a compiled UPDATE
+ */
+interface GuardedUpdate {
+  table: string
+  expectedVersion: number
+  hasReturning: boolean
+}
+
+/**
+ * Name of the table an UPDATE targets (alias stripped)
+ */
+function tableNameOf(node: UpdateQueryNode): string {
+  const table = node.table && AliasNode.is(node.table) ? node.table.node : node.table
+  return table && TableNode.is(table) ? table.table.identifier.name : 'unknown'
+}
+
+/**
+ * Add `condition` to an optional WHERE clause with AND
+ */
+function andWhere(where: WhereNode | undefined, condition: OperationNode): WhereNode {
+  return where ? WhereNode.cloneWithOperation(where, 'And', condition) : WhereNode.create(condition)
+}
+
+/**
+ * Kysely plugin that keeps the version column of versioned tables up to date:
+ *
+ * - INSERT ... VALUES rows without a version get `initialVersion`
+ * - UPDATE without a version assignment gets `version = version + 1`
+ * - UPDATE that assigns the version is left as written
+ *
+ * @internal Attached by versioningPlugin().interceptQuery to INSERT and UPDATE builders
+ */
+export class VersionInjectionPlugin implements KyselyPlugin {
+  constructor(private readonly options: VersionInjectionOptions) {}
+
+  transformQuery(args: PluginTransformQueryArgs): RootOperationNode {
+    const { node } = args
+    if (UpdateQueryNode.is(node)) {
+      return this.transformUpdate(node)
+    }
+    if (InsertQueryNode.is(node)) {
+      return this.transformInsert(node)
+    }
+    return node
+  }
+
+  transformResult(args: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    return Promise.resolve(args.result)
+  }
+
+  private transformUpdate(node: UpdateQueryNode): UpdateQueryNode {
+    if (!node.updates) return node
+    const { versionColumn } = this.options
+    if (node.updates.some(update => updatedColumnName(update.column) === versionColumn)) {
+      return node
+    }
+
+    const increment = BinaryOperationNode.create(
+      ColumnNode.create(versionColumn),
+      OperatorNode.create('+'),
+      ValueNode.create(1)
+    )
+    return { ...node, updates: [...node.updates, ColumnUpdateNode.create(ColumnNode.create(versionColumn), increment)] }
+  }
+
+  private transformInsert(node: InsertQueryNode): InsertQueryNode {
+    return withInsertColumn(node, this.options.versionColumn, this.options.initialVersion)
+  }
+}
+
+/**
+ * Kysely plugin that turns an UPDATE into a compare-and-set: it only matches rows
+ * whose version is `expectedVersion`, and throws OptimisticLockError when no row matched
+ *
+ * @internal Attached by expectVersion() and the repository `update()` of versioningPlugin()
+ */
+export class VersionGuardPlugin implements KyselyPlugin {
+  private readonly guardedUpdates = new WeakMap<QueryId, GuardedUpdate>()
+
+  constructor(
+    private readonly versionColumn: string,
+    private readonly expectedVersion: number
+  ) {}
+
+  transformQuery(args: PluginTransformQueryArgs): RootOperationNode {
+    const { node } = args
+    if (!UpdateQueryNode.is(node)) {
+      return node
+    }
+
+    const expected = BinaryOperationNode.create(
+      ColumnNode.create(this.versionColumn),
+      OperatorNode.create('='),
+      ValueNode.create(this.expectedVersion)
+    )
+    this.guardedUpdates.set(args.queryId, {
+      table: tableNameOf(node),
+      expectedVersion: this.expectedVersion,
+      hasReturning: node.returning !== undefined
+    })
+    return { ...node, where: andWhere(node.where, expected) }
+  }
+
+  transformResult(args: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    const guard = this.guardedUpdates.get(args.queryId)
+    if (guard) {
+      // SQLite reports no affected row count for statements with RETURNING
+      const { numAffectedRows, rows } = args.result
+      const matched = numAffectedRows ?? (guard.hasReturning ? BigInt(rows.length) : undefined)
+      if (matched === BigInt(0)) {
+        return Promise.reject(new OptimisticLockError(guard.table, null, guard.expectedVersion))
+      }
+    }
+    return Promise.resolve(args.result)
+  }
+}
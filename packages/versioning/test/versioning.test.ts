@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { Kysely, SqliteDialect, type Generated } from 'kysely'
+import Database from 'better-sqlite3'
+import { createORM, createRepositoryFactory, type Plugin } from '@kysera/repository'
+import { createExecutor } from '@kysera/executor'
+import { NotFoundError, OptimisticLockError } from '@kysera/core'
+import { versioningPlugin } from '../src/index.js'
+import { VersioningOptionsSchema } from '../src/schema.js'
+
+interface TestDatabase {
+  documents: {
+    id: Generated<number>
+    title: string
+    views: number
+    version?: number
+  }
+  notes: {
+    id: Generated<number>
+    body: string
+  }
+}
+
+async function createTestRepository(db: Kysely<TestDatabase>, plugins: Plugin[]): Promise<any> {
+  const orm = await createORM<TestDatabase>(db, plugins)
+  return orm.createRepository(executor => {
+    const factory = createRepositoryFactory<TestDatabase>(executor)
+    return factory.create<'documents', any>({
+      tableName: 'documents',
+      mapRow: row => row,
+      schemas: {
+        create: { parse: (v: any) => v } as any,
+        update: { parse: (v: any) => v } as any
+      }
+    })
+  })
+}
+
+describe('Versioning Plugin', () => {
+  let db: Kysely<TestDatabase>
+
+  beforeEach(async () => {
+    db = new Kysely<TestDatabase>({
+      dialect: new SqliteDialect({ database: new Database(':memory:') })
+    })
+
+    await db.schema
+      .createTable('documents')
+      .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+      .addColumn('title', 'text', col => col.notNull())
+      .addColumn('views', 'integer', col => col.notNull().defaultTo(0))
+      .addColumn('version', 'integer')
+      .execute()
+
+    await db.schema
+      .createTable('notes')
+      .addColumn('id', 'integer', col => col.primaryKey().autoIncrement())
+      .addColumn('body', 'text', col => col.notNull())
+      .execute()
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+  })
+
+  async function getVersion(id: number): Promise<number | undefined> {
+    const row = await db.selectFrom('documents').select('version').where('id', '=', id).executeTakeFirst()
+    return row?.version
+  }
+
+  describe('inserts', () => {
+    it('should initialise the version on create', async () => {
+      const repo = await createTestRepository(db, [versioningPlugin({ tables: ['documents'] })])
+
+      const doc = await repo.create({ title: 'Draft', views: 0 })
+
+      expect(doc.version).toBe(1)
+    })
+
+    it('should initialise the version on bulkCreate with a custom initial version', async () => {
+      const repo = await createTestRepository(db, [versioningPlugin({ tables: ['documents'], initialVersion: 0 })])
+
+      const docs = await repo.bulkCreate([
+        { title: 'A', views: 0 },
+        { title: 'B', views: 0, version: 5 }
+      ])
+
+      expect(docs.map((doc: any) => doc.version)).toEqual([0, 5])
+    })
+
+    it('should not touch tables that are not listed', async () => {
+      const executor = await createExecutor(db, [versioningPlugin({ tables: ['documents'] })])
+
+      const query = executor.insertInto('notes').values({ body: 'hello' })
+
+      expect(query.compile().sql).toBe('insert into "notes" ("body") values (?)')
+    })
+  })
+
+  describe('repository update', () => {
+    it('should increment the version when the expected version matches', async () => {
+      const repo = await createTestRepository(db, [versioningPlugin({ tables: ['documents'] })])
+      const doc = await repo.create({ title: 'Draft', views: 0 })
+
+      const updated = await repo.update(doc.id, { title: 'Final', version: doc.version })
+
+      expect(updated).toMatchObject({ title: 'Final', version: 2 })
+    })
+
+    it('should throw OptimisticLockError for a stale version', async () => {
+      const repo = await createTestRepository(db, [versioningPlugin({ tables: ['documents'] })])
+      const doc = await repo.create({ title: 'Draft', views: 0 })
+      await repo.update(doc.id, { title: 'Concurrent edit', version: doc.version })
+
+      const error = await repo.update(doc.id, { title: 'Stale edit', version: doc.version }).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(OptimisticLockError)
+      expect(error).toMatchObject({
+        tableName: 'documents',
+        recordId: doc.id,
+        expectedVersion: 1,
+        actualVersion: 2,
+        code: 'OPTIMISTIC_LOCK_ERROR'
+      })
+      const current = await repo.findById(doc.id)
+      expect(current).toMatchObject({ title: 'Concurrent edit', version: 2 })
+    })
+
+    it('should throw NotFoundError for a missing record', async () => {
+      const repo = await createTestRepository(db, [versioningPlugin({ tables: ['documents'] })])
+
+      await expect(repo.update(999, { title: 'Ghost', version: 1 })).rejects.toThrow(NotFoundError)
+    })
+
+    it('should accept versions returned as strings or bigints', async () => {
+      const repo = await createTestRepository(db, [versioningPlugin({ tables: ['documents'] })])
+      const doc = await repo.create({ title: 'Draft', views: 0 })
+
+      await repo.update(doc.id, { title: 'v2', version: '1' })
+      const updated = await repo.update(doc.id, { title: 'v3', version: BigInt(2) })
+
+      expect(updated.version).toBe(3)
+    })
+
+    it('should increment the version without a check when no version is given', async () => {
+      const repo = await createTestRepository(db, [versioningPlugin({ tables: ['documents'] })])
+      const doc = await repo.create({ title: 'Draft', views: 0 })
+
+      await repo.update(doc.id, { title: 'Edit 1' })
+      const updated = await repo.update(doc.id, { title: 'Edit 2' })
+
+      expect(updated.version).toBe(3)
+    })
+
+    it('should check every row in bulkUpdate', async () => {
+      const repo = await createTestRepository(db, [versioningPlugin({ tables: ['documents'] })])
+      const a = await repo.create({ title: 'A', views: 0 })
+      const b = await repo.create({ title: 'B', views: 0 })
+      await repo.update(b.id, { views: 10 })
+
+      await expect(
+        repo.bulkUpdate([
+          { id: a.id, data: { title: 'A2', version: a.version } },
+          { id: b.id, data: { title: 'B2', version: b.version } }
+        ])
+      ).rejects.toThrow(OptimisticLockError)
+
+      expect(await getVersion(a.id)).toBe(2)
+      expect(await getVersion(b.id)).toBe(2)
+    })
+
+    it('should use a custom version column', async () => {
+      await db.schema.alterTable('documents').addColumn('revision', 'integer').execute()
+      const repo = await createTestRepository(db, [
+        versioningPlugin({ tables: ['documents'], versionColumn: 'revision' })
+      ])
+
+      const doc = await repo.create({ title: 'Draft', views: 0 })
+      await repo.update(doc.id, { title: 'Final', revision: doc.revision })
+
+      expect(repo.getVersionColumn()).toBe('revision')
+      await expect(repo.update(doc.id, { title: 'Stale', revision: 1 })).rejects.toThrow(OptimisticLockError)
+    })
+  })
+
+  describe('updateWithRetry', () => {
+    it('should re-read and retry after a concurrent change', async () => {
+      const repo = await createTestRepository(db, [versioningPlugin({ tables: ['documents'] })])
+      const doc = await repo.create({ title: 'Counter', views: 0 })
+      let calls = 0
+
+      const updated = await repo.updateWithRetry(doc.id, async (current: any) => {
+        calls++
+        if (calls === 1) {
+          // Another writer increments the counter between our read and write
+          await db.updateTable('documents').set({ views: 5, version: 2 }).where('id', '=', doc.id).execute()
+        }
+        return { views: current.views + 1 }
+      })
+
+      expect(calls).toBe(2)
+      expect(updated).toMatchObject({ views: 6, version: 3 })
+    })
+
+    it('should rethrow after maxRetries conflicts', async () => {
+      const repo = await createTestRepository(db, [versioningPlugin({ tables: ['documents'] })])
+      const doc = await repo.create({ title: 'Hot row', views: 0 })
+      let calls = 0
+
+      await expect(
+        repo.updateWithRetry(
+          doc.id,
+          async (current: any) => {
+            calls++
+            await db
+              .updateTable('documents')
+              .set({ version: current.version + 1 })
+              .where('id', '=', doc.id)
+              .execute()
+            return { views: current.views + 1 }
+          },
+          { maxRetries: 2 }
+        )
+      ).rejects.toThrow(OptimisticLockError)
+
+      expect(calls).toBe(3)
+    })
+
+    it('should throw NotFoundError for a missing record', async () => {
+      const repo = await createTestRepository(db, [versioningPlugin({ tables: ['documents'] })])
+
+      await expect(repo.updateWithRetry(999, () => ({ views: 1 }))).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('executor queries', () => {
+    it('should increment the version on plain updates', async () => {
+      const executor = await createExecutor(db, [versioningPlugin({ tables: ['documents'] })])
+      await executor.insertInto('documents').values({ title: 'Draft', views: 0 }).execute()
+
+      await executor.updateTable('documents as d').set({ views: 1 }).where('d.id', '=', 1).execute()
+
+      expect(await getVersion(1)).toBe(2)
+    })
+
+    it('should write an explicit version without a check', async () => {
+      const executor = await createExecutor(db, [versioningPlugin({ tables: ['documents'] })])
+      await executor.insertInto('documents').values({ title: 'Draft', views: 0 }).execute()
+
+      const query = executor.updateTable('documents').set({ title: 'Final', version: 5 }).where('id', '=', 1)
+      expect(query.compile().sql).toBe('update "documents" set "title" = ?, "version" = ? where "id" = ?')
+
+      await query.execute()
+      await query.execute()
+      expect(await getVersion(1)).toBe(5)
+    })
+
+    it('should make a compare-and-set with expectVersion', async () => {
+      const versioning = versioningPlugin({ tables: ['documents'] })
+      const executor = await createExecutor(db, [versioning])
+      await executor.insertInto('documents').values({ title: 'Draft', views: 0 }).execute()
+
+      const query = versioning.expectVersion(
+        executor.updateTable('documents').set({ title: 'Final' }).where('id', '=', 1),
+        1
+      )
+      expect(query.compile().sql).toBe(
+        'update "documents" set "title" = ?, "version" = "version" + ? where "id" = ? and "version" = ?'
+      )
+
+      await query.execute()
+      expect(await getVersion(1)).toBe(2)
+      await expect(query.execute()).rejects.toThrow(OptimisticLockError)
+      await expect(
+        versioning
+          .expectVersion(executor.updateTable('documents').set({ views: 1 }).where('id', '=', 1).returningAll(), 1)
+          .execute()
+      ).rejects.toThrow(OptimisticLockError)
+    })
+
+    it('should keep OR filters grouped', async () => {
+      const versioning = versioningPlugin({ tables: ['documents'] })
+      const executor = await createExecutor(db, [versioning])
+
+      const query = versioning.expectVersion(
+        executor
+          .updateTable('documents')
+          .set({ title: 'Final' })
+          .where(eb => eb.or([eb('id', '=', 1), eb('title', '=', 'Draft')])),
+        1
+      )
+
+      expect(query.compile().sql).toBe(
+        'update "documents" set "title" = ?, "version" = "version" + ? where ("id" = ? or "title" = ?) and "version" = ?'
+      )
+    })
+
+    it('should leave expression assignments to the caller', async () => {
+      const executor = await createExecutor(db, [versioningPlugin({ tables: ['documents'] })])
+
+      const query = executor.updateTable('documents').set(eb => ({ version: eb('version', '*', 2) }))
+
+      expect(query.compile().sql).toBe('update "documents" set "version" = "version" * ?')
+    })
+  })
+
+  describe('VersioningOptionsSchema', () => {
+    it('should require tables', () => {
+      expect(VersioningOptionsSchema.safeParse({}).success).toBe(false)
+      expect(VersioningOptionsSchema.safeParse({ tables: ['documents'], maxRetries: 5 }).success).toBe(true)
+    })
+
+    it('should reject negative retries', () => {
+      expect(VersioningOptionsSchema.safeParse({ tables: [], maxRetries: -1 }).success).toBe(false)
+    })
+  })
+})
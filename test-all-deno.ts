@@ -3,7 +3,7 @@
 
 const packages = [
   'core', 'executor', 'dal', 'repository', 'soft-delete',
-  'audit', 'timestamps', 'rls', 'debug', 'infra',
+  'audit', 'timestamps', 'versioning', 'outbox', 'encryption', 'rls', 'debug', 'telemetry', 'cache', 'infra',
   'testing', 'migrations', 'dialects'
 ] as const
 